@@ -100,6 +100,16 @@ const nextConfig = {
           },
         ],
       },
+      {
+        // Custom layouts run in this page; only the app may embed it
+        source: "/layout-frame",
+        headers: [
+          {
+            key: "Content-Security-Policy",
+            value: "frame-ancestors 'self'",
+          },
+        ],
+      },
     ];
   },
 };
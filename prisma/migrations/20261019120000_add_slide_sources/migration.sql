@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "slides" ADD COLUMN "sources" TEXT;
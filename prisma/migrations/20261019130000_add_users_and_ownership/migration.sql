@@ -0,0 +1,50 @@
+-- CreateTable
+CREATE TABLE "users" (
+    "id" TEXT NOT NULL,
+    "email" TEXT NOT NULL,
+    "name" TEXT,
+    "password_hash" TEXT,
+    "auth_provider" TEXT NOT NULL DEFAULT 'local',
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "users_pkey" PRIMARY KEY ("id")
+);
+
+-- AlterTable
+ALTER TABLE "presentations" ADD COLUMN "owner" TEXT;
+
+-- AlterTable
+ALTER TABLE "image_assets" ADD COLUMN "owner" TEXT;
+
+-- AlterTable
+ALTER TABLE "templates" ADD COLUMN "owner" TEXT;
+
+-- AlterTable
+ALTER TABLE "webhook_subscriptions" ADD COLUMN "owner" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "users_email_key" ON "users"("email");
+
+-- CreateIndex
+CREATE INDEX "presentations_owner_created_at_idx" ON "presentations"("owner", "created_at" DESC);
+
+-- CreateIndex
+CREATE INDEX "image_assets_owner_is_uploaded_idx" ON "image_assets"("owner", "is_uploaded");
+
+-- CreateIndex
+CREATE INDEX "templates_owner_idx" ON "templates"("owner");
+
+-- CreateIndex
+CREATE INDEX "webhook_subscriptions_owner_idx" ON "webhook_subscriptions"("owner");
+
+-- AddForeignKey
+ALTER TABLE "presentations" ADD CONSTRAINT "presentations_owner_fkey" FOREIGN KEY ("owner") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "image_assets" ADD CONSTRAINT "image_assets_owner_fkey" FOREIGN KEY ("owner") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "templates" ADD CONSTRAINT "templates_owner_fkey" FOREIGN KEY ("owner") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "webhook_subscriptions" ADD CONSTRAINT "webhook_subscriptions_owner_fkey" FOREIGN KEY ("owner") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
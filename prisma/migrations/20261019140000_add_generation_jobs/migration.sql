@@ -0,0 +1,19 @@
+-- CreateTable
+CREATE TABLE "generation_jobs" (
+    "id" TEXT NOT NULL,
+    "presentation" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'running',
+    "total" INTEGER NOT NULL,
+    "completed_slides" TEXT NOT NULL DEFAULT '[]',
+    "error" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "generation_jobs_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "generation_jobs_presentation_created_at_idx" ON "generation_jobs"("presentation", "created_at" DESC);
+
+-- AddForeignKey
+ALTER TABLE "generation_jobs" ADD CONSTRAINT "generation_jobs_presentation_fkey" FOREIGN KEY ("presentation") REFERENCES "presentations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
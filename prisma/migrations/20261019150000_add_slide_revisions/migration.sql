@@ -0,0 +1,24 @@
+-- CreateTable
+CREATE TABLE "slide_revisions" (
+    "id" TEXT NOT NULL,
+    "presentation" TEXT NOT NULL,
+    "slide_id" TEXT NOT NULL,
+    "slide_index" INTEGER NOT NULL,
+    "source" TEXT NOT NULL,
+    "layout" TEXT,
+    "content" TEXT,
+    "speaker_note" TEXT,
+    "html_content" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "slide_revisions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "slide_revisions_slide_id_created_at_idx" ON "slide_revisions"("slide_id", "created_at" DESC);
+
+-- CreateIndex
+CREATE INDEX "slide_revisions_presentation_idx" ON "slide_revisions"("presentation");
+
+-- AddForeignKey
+ALTER TABLE "slide_revisions" ADD CONSTRAINT "slide_revisions_presentation_fkey" FOREIGN KEY ("presentation") REFERENCES "presentations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
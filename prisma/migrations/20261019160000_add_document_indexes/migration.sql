@@ -0,0 +1,15 @@
+-- AlterTable
+ALTER TABLE "slides" ADD COLUMN "document_sources" TEXT;
+
+-- CreateTable
+CREATE TABLE "document_indexes" (
+    "presentation" TEXT NOT NULL,
+    "content_hash" TEXT NOT NULL,
+    "chunks" TEXT NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "document_indexes_pkey" PRIMARY KEY ("presentation")
+);
+
+-- AddForeignKey
+ALTER TABLE "document_indexes" ADD CONSTRAINT "document_indexes_presentation_fkey" FOREIGN KEY ("presentation") REFERENCES "presentations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
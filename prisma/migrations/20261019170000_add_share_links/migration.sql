@@ -0,0 +1,59 @@
+-- CreateTable
+CREATE TABLE "share_links" (
+    "id" TEXT NOT NULL,
+    "presentation" TEXT NOT NULL,
+    "token" TEXT NOT NULL,
+    "label" TEXT,
+    "password_hash" TEXT,
+    "require_email" BOOLEAN NOT NULL DEFAULT false,
+    "expires_at" TIMESTAMP(3),
+    "revoked_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "share_links_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "share_views" (
+    "id" TEXT NOT NULL,
+    "share_link" TEXT NOT NULL,
+    "viewer_id" TEXT NOT NULL,
+    "viewer_email" TEXT,
+    "user_agent" TEXT,
+    "started_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "last_seen_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "share_views_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "share_events" (
+    "id" TEXT NOT NULL,
+    "view" TEXT NOT NULL,
+    "slide_index" INTEGER NOT NULL,
+    "dwell_ms" INTEGER NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "share_events_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "share_links_token_key" ON "share_links"("token");
+
+-- CreateIndex
+CREATE INDEX "share_links_presentation_idx" ON "share_links"("presentation");
+
+-- CreateIndex
+CREATE INDEX "share_views_share_link_started_at_idx" ON "share_views"("share_link", "started_at" DESC);
+
+-- CreateIndex
+CREATE INDEX "share_events_view_idx" ON "share_events"("view");
+
+-- AddForeignKey
+ALTER TABLE "share_links" ADD CONSTRAINT "share_links_presentation_fkey" FOREIGN KEY ("presentation") REFERENCES "presentations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "share_views" ADD CONSTRAINT "share_views_share_link_fkey" FOREIGN KEY ("share_link") REFERENCES "share_links"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "share_events" ADD CONSTRAINT "share_events_view_fkey" FOREIGN KEY ("view") REFERENCES "share_views"("id") ON DELETE CASCADE ON UPDATE CASCADE;
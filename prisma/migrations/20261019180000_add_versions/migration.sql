@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "presentations" ADD COLUMN "version" INTEGER NOT NULL DEFAULT 1;
+
+-- AlterTable
+ALTER TABLE "slides" ADD COLUMN "version" INTEGER NOT NULL DEFAULT 1;
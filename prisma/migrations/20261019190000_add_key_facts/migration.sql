@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "presentations" ADD COLUMN "key_facts" TEXT;
@@ -0,0 +1,27 @@
+-- CreateTable
+CREATE TABLE "brand_kits" (
+    "id" TEXT NOT NULL,
+    "owner" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "colors" TEXT NOT NULL,
+    "heading_font" TEXT,
+    "body_font" TEXT,
+    "logos" TEXT,
+    "footer_text" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "brand_kits_pkey" PRIMARY KEY ("id")
+);
+
+-- AlterTable
+ALTER TABLE "presentations" ADD COLUMN "brand_kit" TEXT;
+
+-- CreateIndex
+CREATE INDEX "brand_kits_owner_idx" ON "brand_kits"("owner");
+
+-- AddForeignKey
+ALTER TABLE "brand_kits" ADD CONSTRAINT "brand_kits_owner_fkey" FOREIGN KEY ("owner") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "presentations" ADD CONSTRAINT "presentations_brand_kit_fkey" FOREIGN KEY ("brand_kit") REFERENCES "brand_kits"("id") ON DELETE SET NULL ON UPDATE CASCADE;
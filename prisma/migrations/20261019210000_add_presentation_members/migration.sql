@@ -0,0 +1,22 @@
+-- CreateTable
+CREATE TABLE "presentation_members" (
+    "id" TEXT NOT NULL,
+    "presentation" TEXT NOT NULL,
+    "user" TEXT NOT NULL,
+    "role" TEXT NOT NULL DEFAULT 'editor',
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "presentation_members_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "presentation_members_presentation_user_key" ON "presentation_members"("presentation", "user");
+
+-- CreateIndex
+CREATE INDEX "presentation_members_user_idx" ON "presentation_members"("user");
+
+-- AddForeignKey
+ALTER TABLE "presentation_members" ADD CONSTRAINT "presentation_members_presentation_fkey" FOREIGN KEY ("presentation") REFERENCES "presentations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "presentation_members" ADD CONSTRAINT "presentation_members_user_fkey" FOREIGN KEY ("user") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "share_links" ADD COLUMN "password_failures" INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE "share_links" ADD COLUMN "password_locked_until" TIMESTAMP(3);
@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "webhook_deliveries" ADD COLUMN "next_attempt_at" TIMESTAMP(3);
+
+-- Retry deliveries left pending by the in-process dispatcher
+UPDATE "webhook_deliveries" SET "next_attempt_at" = "updated_at" WHERE "status" = 'pending';
+
+-- CreateIndex
+CREATE INDEX "webhook_deliveries_status_next_attempt_at_idx" ON "webhook_deliveries"("status", "next_attempt_at");
@@ -0,0 +1,131 @@
+/**
+ * Self-hostable WebSocket server for real-time collaborative editing.
+ *
+ * Browsers connect to `ws(s)://<host>:<port>/?ticket=<ticket>` with a ticket
+ * issued by the app (`POST /api/v1/presentations/{id}/collab-session`). The
+ * server verifies the ticket with `COLLAB_SECRET`, joins the connection to
+ * the presentation's room (see `src/server/collab.ts`) and relays messages.
+ * Rooms save edits to the database directly, so the server needs the same
+ * `DATABASE_URL` as the app.
+ *
+ * Usage: `bun scripts/collab-server.ts` (port from `COLLAB_PORT`, default
+ * 4001). Put it behind the same TLS terminator as the app and point
+ * `COLLAB_SERVER_URL` at its public `wss://` address.
+ */
+
+import { createServer } from "node:http";
+import { WebSocketServer, type RawData, type WebSocket } from "ws";
+import { joinCollabRoom, saveAllCollabRooms } from "@/server/collab";
+import { verifyCollabTicket } from "@/server/collab-tickets";
+
+/**
+ * Port the server listens on.
+ */
+const port = Number(process.env.COLLAB_PORT) || 4001;
+
+/**
+ * Interval in milliseconds between pings; connections that miss one are
+ * dropped.
+ */
+const HEARTBEAT_INTERVAL_MS = 30000;
+
+/**
+ * Largest message accepted, in bytes. Inserted slides carry their content.
+ */
+const MAX_MESSAGE_BYTES = 5 * 1024 * 1024;
+
+if (!process.env.COLLAB_SECRET || process.env.COLLAB_SECRET.length < 32) {
+  console.error("COLLAB_SECRET must be set to at least 32 characters");
+  process.exit(1);
+}
+
+/**
+ * Decodes a WebSocket message.
+ */
+const toText = (data: RawData): string =>
+  Array.isArray(data)
+    ? Buffer.concat(data).toString("utf8")
+    : Buffer.from(data as Buffer).toString("utf8");
+
+const server = createServer((_request, response) => {
+  // Plain HTTP requests only serve as a health check
+  response.writeHead(200, { "Content-Type": "text/plain" });
+  response.end("ok");
+});
+
+const wss = new WebSocketServer({ server, maxPayload: MAX_MESSAGE_BYTES });
+
+/**
+ * Connections that answered the last ping.
+ */
+const alive = new WeakSet<WebSocket>();
+
+wss.on("connection", async (socket, request) => {
+  alive.add(socket);
+  socket.on("pong", () => alive.add(socket));
+
+  const url = new URL(request.url ?? "/", "http://localhost");
+  const ticket = verifyCollabTicket(url.searchParams.get("ticket"));
+  if (!ticket) {
+    socket.close(4401, "Invalid or expired ticket");
+    return;
+  }
+
+  // Messages that arrive while the room is loading are handled after it
+  const queued: string[] = [];
+  const queue = (data: RawData) => queued.push(toText(data));
+  socket.on("message", queue);
+
+  const session = await joinCollabRoom(ticket, {
+    send: (message) => {
+      if (socket.readyState === socket.OPEN) socket.send(message);
+    },
+    close: (code, reason) => socket.close(code, reason),
+  }).catch((error) => {
+    console.error("Failed to open collaboration session:", error);
+    return null;
+  });
+
+  if (!session) {
+    socket.close(4404, "Presentation not found");
+    return;
+  }
+  if (socket.readyState !== socket.OPEN) {
+    await session.leave();
+    return;
+  }
+
+  socket.off("message", queue);
+  socket.on("message", (data) => session.receive(toText(data)));
+  socket.on("close", () => void session.leave());
+  queued.forEach(session.receive);
+});
+
+const heartbeat = setInterval(() => {
+  for (const socket of wss.clients) {
+    if (!alive.has(socket)) {
+      socket.terminate();
+      continue;
+    }
+    alive.delete(socket);
+    socket.ping();
+  }
+}, HEARTBEAT_INTERVAL_MS);
+
+/**
+ * Saves open sessions and exits.
+ */
+const shutdown = async () => {
+  clearInterval(heartbeat);
+  wss.close();
+  server.close();
+  await saveAllCollabRooms();
+  process.exit(0);
+};
+
+process.on("SIGINT", shutdown);
+process.on("SIGTERM", shutdown);
+
+server.listen(port, () => {
+  console.log(`Collaboration server listening on port ${port}`);
+});
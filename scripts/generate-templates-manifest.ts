@@ -16,6 +16,7 @@ import path from "node:path";
  * @property description - Human-readable description of the template.
  * @property ordered - Whether layout files should be ordered.
  * @property default - Whether this template should be the default selection.
+ * @property hidden - Whether this template is hidden from template pickers.
  * @property layoutOrder - Optional array specifying the order of layout files.
  *   Used internally during generation but excluded from the final manifest.
  */
@@ -23,6 +24,7 @@ type TemplateSetting = {
   description?: string;
   ordered?: boolean;
   default?: boolean;
+  hidden?: boolean;
   layoutOrder?: string[];
 };
 
@@ -0,0 +1,574 @@
+/**
+ * Brand kit manager.
+ *
+ * Side sheet listing the user's brand kits, with a form to create and edit
+ * them: colors, heading and body fonts (uploaded or from Google Fonts),
+ * logo variants and footer text. Kits apply to the slides of every
+ * template, so changes show on every deck using the kit.
+ *
+ * The form can be filled from a logo, website screenshot or existing deck,
+ * and warns about text colors that do not reach WCAG contrast minimums.
+ */
+
+"use client";
+import React, { useEffect, useState } from "react";
+import {
+  AlertTriangle,
+  Loader2,
+  Pencil,
+  Plus,
+  Trash2,
+  Upload,
+  Wand2,
+} from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Sheet,
+  SheetContent,
+  SheetHeader,
+  SheetTitle,
+} from "@/components/ui/sheet";
+import {
+  checkSchemeContrast,
+  type BrandFont,
+  type BrandKit,
+  type BrandLogos,
+  type ColorTokens,
+} from "@/utils/color-schemes";
+import { BrandKitsApi, BrandKitPayload } from "../services/api/brand-kits";
+import { ImagesApi } from "../services/api/images";
+
+/**
+ * Colors a new kit starts from.
+ */
+const DEFAULT_COLORS: Required<ColorTokens> = {
+  heading: "#0a0a0a",
+  body: "#525252",
+  muted: "#a3a3a3",
+  accent: "#2563eb",
+  border: "#e5e5e5",
+  card: "#fafafa",
+  surface: "#ffffff",
+};
+
+/**
+ * Labels of the color tokens, in form order.
+ */
+const COLOR_FIELDS: { token: keyof ColorTokens; label: string }[] = [
+  { token: "surface", label: "Background" },
+  { token: "card", label: "Cards" },
+  { token: "heading", label: "Headings" },
+  { token: "body", label: "Text" },
+  { token: "muted", label: "Captions" },
+  { token: "accent", label: "Accent" },
+  { token: "border", label: "Lines" },
+];
+
+const colorLabel = (token: keyof ColorTokens) =>
+  COLOR_FIELDS.find((field) => field.token === token)?.label ?? token;
+
+/**
+ * Labels of the logo variants, in form order.
+ */
+const LOGO_FIELDS: { variant: keyof BrandLogos; label: string }[] = [
+  { variant: "primary", label: "Logo for light backgrounds" },
+  { variant: "inverse", label: "Logo for dark backgrounds" },
+  { variant: "icon", label: "Icon" },
+];
+
+/**
+ * Kit being edited; `id` is missing for a new kit.
+ */
+type DraftKit = {
+  id?: string;
+  name: string;
+  colors: Required<ColorTokens>;
+  heading_font: BrandFont | null;
+  body_font: BrandFont | null;
+  logos: BrandLogos;
+  footer_text: string;
+};
+
+const toDraft = (kit?: BrandKit): DraftKit => ({
+  id: kit?.id,
+  name: kit?.name ?? "",
+  colors: {
+    ...DEFAULT_COLORS,
+    ...kit?.colors,
+    surface: kit?.colors.surface ?? kit?.colors.card ?? DEFAULT_COLORS.surface,
+  },
+  heading_font: kit?.heading_font ?? null,
+  body_font: kit?.body_font ?? null,
+  logos: kit?.logos ?? { primary: null, inverse: null, icon: null },
+  footer_text: kit?.footer_text ?? "",
+});
+
+interface BrandKitManagerProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /**
+   * Called with the user's kits after any change.
+   */
+  onKitsChange?: (kits: BrandKit[]) => void;
+}
+
+/**
+ * Font field of the kit form: a family name, with an optional uploaded font
+ * file or Google Fonts stylesheet to load it from.
+ */
+const FontField = ({
+  label,
+  font,
+  onChange,
+}: {
+  label: string;
+  font: BrandFont | null;
+  onChange: (font: BrandFont | null) => void;
+}) => {
+  const [uploading, setUploading] = useState(false);
+
+  const upload = async (file: File) => {
+    setUploading(true);
+    try {
+      const uploaded = await BrandKitsApi.uploadFont(file);
+      onChange({
+        family: font?.family || uploaded.font_name,
+        url: uploaded.font_url,
+      });
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : "Failed to upload font",
+      );
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  return (
+    <div className="space-y-1.5">
+      <p className="text-xs font-medium text-text-300">{label}</p>
+      <div className="flex items-center gap-2">
+        <Input
+          aria-label={`${label} family`}
+          placeholder="Template font"
+          value={font?.family ?? ""}
+          onChange={(e) =>
+            onChange(
+              e.target.value
+                ? { family: e.target.value, url: font?.url ?? null }
+                : null,
+            )
+          }
+          className="flex-1"
+        />
+        <label className="p-2 rounded-lg border border-bg-200 text-text-300 hover:bg-bg-200/50 cursor-pointer transition-colors">
+          {uploading ? (
+            <Loader2 className="w-4 h-4 animate-spin" />
+          ) : (
+            <Upload className="w-4 h-4" />
+          )}
+          <input
+            type="file"
+            accept=".ttf,.otf,.woff,.woff2"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) upload(file);
+              e.target.value = "";
+            }}
+          />
+        </label>
+      </div>
+      {font && (
+        <Input
+          aria-label={`${label} source`}
+          placeholder="https://fonts.googleapis.com/css2?family=... (optional)"
+          value={font.url ?? ""}
+          onChange={(e) => onChange({ ...font, url: e.target.value || null })}
+          className="text-xs"
+        />
+      )}
+    </div>
+  );
+};
+
+/**
+ * Brand kit manager sheet.
+ */
+const BrandKitManager = ({
+  open,
+  onOpenChange,
+  onKitsChange,
+}: BrandKitManagerProps) => {
+  const [kits, setKits] = useState<BrandKit[]>([]);
+  const [draft, setDraft] = useState<DraftKit | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [uploadingLogo, setUploadingLogo] = useState<keyof BrandLogos | null>(
+    null,
+  );
+  const [extracting, setExtracting] = useState(false);
+
+  const contrastIssues = draft
+    ? checkSchemeContrast(draft.colors).filter((check) => !check.passes)
+    : [];
+
+  const adopt = (next: BrandKit[]) => {
+    setKits(next);
+    onKitsChange?.(next);
+  };
+
+  useEffect(() => {
+    if (!open) return;
+    setLoading(true);
+    BrandKitsApi.listBrandKits()
+      .then(adopt)
+      .catch((error) =>
+        toast.error(
+          error instanceof Error ? error.message : "Failed to load brand kits",
+        ),
+      )
+      .finally(() => setLoading(false));
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [open]);
+
+  const uploadLogo = async (variant: keyof BrandLogos, file: File) => {
+    setUploadingLogo(variant);
+    try {
+      const { path } = await ImagesApi.uploadImage(file);
+      setDraft((previous) =>
+        previous
+          ? { ...previous, logos: { ...previous.logos, [variant]: path } }
+          : previous,
+      );
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : "Failed to upload logo",
+      );
+    } finally {
+      setUploadingLogo(null);
+    }
+  };
+
+  /**
+   * Fills the form's colors and fonts from a logo, screenshot or deck.
+   */
+  const extract = async (file: File) => {
+    setExtracting(true);
+    try {
+      const brand = await BrandKitsApi.extractBrand(file);
+      setDraft((previous) =>
+        previous
+          ? {
+              ...previous,
+              name: previous.name || brand.scheme.name,
+              colors: { ...previous.colors, ...brand.scheme.colors },
+              heading_font: brand.fonts.heading,
+              body_font: brand.fonts.body,
+            }
+          : previous,
+      );
+      toast.success(
+        brand.source === "pptx"
+          ? "Colors and fonts taken from the deck"
+          : "Colors taken from the image",
+      );
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : "Failed to extract brand",
+      );
+    } finally {
+      setExtracting(false);
+    }
+  };
+
+  const save = async () => {
+    if (!draft) return;
+    if (!draft.name.trim()) {
+      toast.error("Please name the brand kit");
+      return;
+    }
+    setSaving(true);
+    const payload: BrandKitPayload = {
+      name: draft.name,
+      colors: draft.colors,
+      heading_font: draft.heading_font,
+      body_font: draft.body_font,
+      logos: draft.logos,
+      footer_text: draft.footer_text || null,
+    };
+    try {
+      const saved = draft.id
+        ? await BrandKitsApi.updateBrandKit(draft.id, payload)
+        : await BrandKitsApi.createBrandKit(payload);
+      adopt(
+        [...kits.filter((kit) => kit.id !== saved.id), saved].sort((a, b) =>
+          a.name.localeCompare(b.name),
+        ),
+      );
+      setDraft(null);
+      toast.success(draft.id ? "Brand kit saved" : "Brand kit created");
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : "Failed to save brand kit",
+      );
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const remove = async (kit: BrandKit) => {
+    if (!window.confirm(`Delete the brand kit "${kit.name}"?`)) return;
+    try {
+      await BrandKitsApi.deleteBrandKit(kit.id);
+      adopt(kits.filter((item) => item.id !== kit.id));
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : "Failed to delete brand kit",
+      );
+    }
+  };
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent
+        side="right"
+        className="w-full sm:max-w-[480px] overflow-y-auto"
+      >
+        <SheetHeader>
+          <SheetTitle>
+            {draft ? draft.name || "New brand kit" : "Brand kits"}
+          </SheetTitle>
+        </SheetHeader>
+
+        {!draft ? (
+          <div className="space-y-4 mt-4">
+            <p className="text-sm text-text-400">
+              Your colors, fonts, logo and footer, applied to any template.
+            </p>
+            {loading && kits.length === 0 ? (
+              <div className="flex justify-center py-6">
+                <Loader2 className="w-5 h-5 animate-spin text-text-400" />
+              </div>
+            ) : (
+              <ul className="space-y-2">
+                {kits.map((kit) => (
+                  <li
+                    key={kit.id}
+                    className="flex items-center gap-3 rounded-lg border border-bg-200 p-3"
+                  >
+                    <span className="flex -space-x-1">
+                      {[
+                        kit.colors.surface ?? kit.colors.card,
+                        kit.colors.heading,
+                        kit.colors.accent,
+                      ].map((color, index) => (
+                        <span
+                          key={index}
+                          className="w-4 h-4 rounded-full border border-bg-200"
+                          style={{ background: color }}
+                        />
+                      ))}
+                    </span>
+                    <span className="flex-1 text-sm text-text-200 truncate">
+                      {kit.name}
+                    </span>
+                    <button
+                      aria-label="Edit brand kit"
+                      onClick={() => setDraft(toDraft(kit))}
+                      className="p-2 rounded-lg text-text-400 hover:text-text-200 hover:bg-bg-200/50 transition-colors"
+                    >
+                      <Pencil className="w-4 h-4" />
+                    </button>
+                    <button
+                      aria-label="Delete brand kit"
+                      onClick={() => remove(kit)}
+                      className="p-2 rounded-lg text-text-400 hover:text-red-600 hover:bg-bg-200/50 transition-colors"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+            <Button
+              variant="outline"
+              onClick={() => setDraft(toDraft())}
+              className="rounded-lg border-bg-200 text-text-200 hover:bg-bg-200/50"
+            >
+              <Plus className="w-4 h-4" />
+              New brand kit
+            </Button>
+          </div>
+        ) : (
+          <div className="space-y-5 mt-4">
+            <Input
+              aria-label="Name"
+              placeholder="Company name"
+              value={draft.name}
+              onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+            />
+
+            <label className="flex items-center gap-3 rounded-lg border border-dashed border-bg-200 p-3 text-sm text-text-300 hover:bg-bg-200/50 cursor-pointer transition-colors">
+              {extracting ? (
+                <Loader2 className="w-4 h-4 animate-spin" />
+              ) : (
+                <Wand2 className="w-4 h-4" />
+              )}
+              <span className="flex-1">
+                Extract from a logo, screenshot or deck
+              </span>
+              <input
+                type="file"
+                accept="image/*,.pptx"
+                className="hidden"
+                disabled={extracting}
+                onChange={(e) => {
+                  const file = e.target.files?.[0];
+                  if (file) extract(file);
+                  e.target.value = "";
+                }}
+              />
+            </label>
+
+            <div className="space-y-2">
+              <p className="text-xs font-medium text-text-300">Colors</p>
+              <div className="grid grid-cols-2 gap-2">
+                {COLOR_FIELDS.map(({ token, label }) => (
+                  <label
+                    key={token}
+                    className="flex items-center gap-2 rounded-lg border border-bg-200 px-2 py-1.5 text-sm text-text-300"
+                  >
+                    <input
+                      type="color"
+                      value={draft.colors[token]}
+                      onChange={(e) =>
+                        setDraft({
+                          ...draft,
+                          colors: { ...draft.colors, [token]: e.target.value },
+                        })
+                      }
+                      className="w-6 h-6 rounded cursor-pointer bg-transparent"
+                    />
+                    {label}
+                  </label>
+                ))}
+              </div>
+              {contrastIssues.length > 0 && (
+                <ul className="space-y-1 text-xs text-amber-700">
+                  {contrastIssues.map((check) => (
+                    <li
+                      key={`${check.token}-${check.against}`}
+                      className="flex items-center gap-1.5"
+                    >
+                      <AlertTriangle className="w-3.5 h-3.5 shrink-0" />
+                      {colorLabel(check.token)} on{" "}
+                      {colorLabel(check.against).toLowerCase()}: contrast{" "}
+                      {check.ratio}:1, needs {check.required}:1
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+
+            <FontField
+              label="Heading font"
+              font={draft.heading_font}
+              onChange={(heading_font) => setDraft({ ...draft, heading_font })}
+            />
+            <FontField
+              label="Body font"
+              font={draft.body_font}
+              onChange={(body_font) => setDraft({ ...draft, body_font })}
+            />
+
+            <div className="space-y-2">
+              <p className="text-xs font-medium text-text-300">Logos</p>
+              {LOGO_FIELDS.map(({ variant, label }) => (
+                <div key={variant} className="flex items-center gap-3">
+                  <div className="w-16 h-10 rounded-md border border-bg-200 flex items-center justify-center bg-bg-100 overflow-hidden">
+                    {draft.logos[variant] && (
+                      <img
+                        src={draft.logos[variant]!}
+                        alt={label}
+                        className="max-h-full max-w-full object-contain"
+                      />
+                    )}
+                  </div>
+                  <span className="flex-1 text-sm text-text-300">{label}</span>
+                  <label className="p-2 rounded-lg border border-bg-200 text-text-300 hover:bg-bg-200/50 cursor-pointer transition-colors">
+                    {uploadingLogo === variant ? (
+                      <Loader2 className="w-4 h-4 animate-spin" />
+                    ) : (
+                      <Upload className="w-4 h-4" />
+                    )}
+                    <input
+                      type="file"
+                      accept="image/*"
+                      className="hidden"
+                      onChange={(e) => {
+                        const file = e.target.files?.[0];
+                        if (file) uploadLogo(variant, file);
+                        e.target.value = "";
+                      }}
+                    />
+                  </label>
+                  {draft.logos[variant] && (
+                    <button
+                      aria-label="Remove logo"
+                      onClick={() =>
+                        setDraft({
+                          ...draft,
+                          logos: { ...draft.logos, [variant]: null },
+                        })
+                      }
+                      className="p-2 rounded-lg text-text-400 hover:text-red-600 hover:bg-bg-200/50 transition-colors"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  )}
+                </div>
+              ))}
+            </div>
+
+            <div className="space-y-1.5">
+              <p className="text-xs font-medium text-text-300">Footer</p>
+              <Input
+                aria-label="Footer text"
+                placeholder="e.g. Confidential · Acme Inc."
+                maxLength={120}
+                value={draft.footer_text}
+                onChange={(e) =>
+                  setDraft({ ...draft, footer_text: e.target.value })
+                }
+              />
+            </div>
+
+            <div className="flex gap-2">
+              <Button
+                variant="outline"
+                onClick={() => setDraft(null)}
+                disabled={saving}
+                className="flex-1 rounded-lg border-bg-200 text-text-200 hover:bg-bg-200/50"
+              >
+                Cancel
+              </Button>
+              <Button
+                onClick={save}
+                disabled={saving || extracting || uploadingLogo !== null}
+                className="flex-1 rounded-lg bg-accent text-white hover:bg-accent-hover"
+              >
+                {saving && <Loader2 className="w-4 h-4 animate-spin" />}
+                {draft.id ? "Save" : "Create"}
+              </Button>
+            </div>
+          </div>
+        )}
+      </SheetContent>
+    </Sheet>
+  );
+};
+
+export default BrandKitManager;
@@ -0,0 +1,92 @@
+/**
+ * Brand kit picker.
+ *
+ * Row of the user's brand kits to style a new presentation with, next to
+ * the template choice. Kits are created and edited in the brand kit
+ * manager, opened from the same row.
+ */
+
+"use client";
+import React, { useEffect, useState } from "react";
+import { Settings2 } from "lucide-react";
+import type { BrandKit } from "@/utils/color-schemes";
+import { BrandKitsApi } from "../services/api/brand-kits";
+import BrandKitManager from "./brand-kit-manager";
+
+interface BrandKitPickerProps {
+  /**
+   * ID of the chosen kit, or null for the template's own styling.
+   */
+  selectedKitId: string | null;
+  onSelectKit: (kitId: string | null) => void;
+}
+
+const chipClassName = (selected: boolean) =>
+  `inline-flex items-center gap-2 px-3 py-1.5 text-xs rounded-full border transition-colors ${
+    selected
+      ? "bg-accent/15 text-accent border-accent/40"
+      : "text-text-300 bg-bg-100/80 border-bg-200 hover:bg-bg-200/80 hover:text-text-200"
+  }`;
+
+/**
+ * Brand kit picker component.
+ */
+const BrandKitPicker = ({ selectedKitId, onSelectKit }: BrandKitPickerProps) => {
+  const [kits, setKits] = useState<BrandKit[]>([]);
+  const [managerOpen, setManagerOpen] = useState(false);
+
+  useEffect(() => {
+    BrandKitsApi.listBrandKits()
+      .then(setKits)
+      .catch(() => setKits([]));
+  }, []);
+
+  const handleKitsChange = (next: BrandKit[]) => {
+    setKits(next);
+    // A deleted kit can no longer be chosen
+    if (selectedKitId && !next.some((kit) => kit.id === selectedKitId)) {
+      onSelectKit(null);
+    }
+  };
+
+  return (
+    <div className="flex items-center gap-2 flex-wrap">
+      <span className="text-xs text-text-400">Brand</span>
+      <button
+        onClick={() => onSelectKit(null)}
+        aria-pressed={selectedKitId === null}
+        className={chipClassName(selectedKitId === null)}
+      >
+        Template colors
+      </button>
+      {kits.map((kit) => (
+        <button
+          key={kit.id}
+          onClick={() => onSelectKit(kit.id)}
+          aria-pressed={selectedKitId === kit.id}
+          className={chipClassName(selectedKitId === kit.id)}
+        >
+          <span
+            className="w-3 h-3 rounded-full border border-bg-200"
+            style={{ background: kit.colors.accent }}
+          />
+          {kit.name}
+        </button>
+      ))}
+      <button
+        onClick={() => setManagerOpen(true)}
+        className={chipClassName(false)}
+      >
+        <Settings2 className="w-3.5 h-3.5" />
+        {kits.length > 0 ? "Manage" : "Add brand kit"}
+      </button>
+      <BrandKitManager
+        open={managerOpen}
+        onOpenChange={setManagerOpen}
+        onKitsChange={handleKitsChange}
+      />
+    </div>
+  );
+};
+
+export default BrandKitPicker;
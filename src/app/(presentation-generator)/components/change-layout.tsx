@@ -0,0 +1,227 @@
+/**
+ * Layout selection component for moving an existing slide to another layout.
+ *
+ * Unlike NewSlide, which adds a slide filled with sample data, this keeps
+ * the slide and carries its content over: every other layout of the slide's
+ * template is previewed with the slide's content migrated to it
+ * (migrateSlideContent). Fields nothing maps to show the layout's sample
+ * content in the preview and are rewritten by the LLM when the layout is
+ * applied.
+ *
+ * Features:
+ * - Grid of the template's layouts rendered with the migrated content
+ * - Per-layout note of how many fields the AI will fill in
+ * - Undoable through the undo/redo history ("CHANGE_LAYOUT")
+ * - Error handling with toast notifications
+ */
+
+import React, { useMemo, useState } from "react";
+import { Loader2, Sparkles, X } from "lucide-react";
+import { toast } from "sonner";
+import { usePresentationDataStore, useUndoRedoStore } from "@/stores";
+import type { Slide } from "@/types/slide";
+import {
+  migrateSlideContent,
+  type ContentMigration,
+  type MigrationSchema,
+} from "@/utils/content-migration";
+import { cn } from "@/lib/utils";
+import { useLayout, LayoutInfo } from "../context/layout-context";
+import { PresentationGenerationApi } from "../services/api/presentation-generation";
+import ScaledSlidePreview from "./scaled-slide-preview";
+
+/**
+ * Props for the ChangeLayout component.
+ *
+ * @property slide - The slide to move to another layout.
+ * @property onClose - Called when a layout is applied or the panel is closed.
+ */
+interface ChangeLayoutProps {
+  slide: Slide;
+  onClose: () => void;
+}
+
+/**
+ * A layout the slide can move to, with its content migrated.
+ */
+interface LayoutCandidate {
+  layout: LayoutInfo;
+  component: React.ComponentType<{ data: Record<string, unknown> }>;
+  migration: ContentMigration;
+}
+
+/**
+ * Layout change component.
+ *
+ * Renders a preview of the slide in each other layout of its template and
+ * moves the slide to the layout the user picks.
+ *
+ * @param props - Component props containing the slide and close callback.
+ * @returns JSX element containing the layout previews.
+ */
+const ChangeLayout = ({ slide, onClose }: ChangeLayoutProps) => {
+  const presentationData = usePresentationDataStore(
+    (state) => state.presentationData,
+  );
+  const updateSlide = usePresentationDataStore((state) => state.updateSlide);
+  const addToHistory = useUndoRedoStore((state) => state.addToHistory);
+  const { getLayoutsByTemplateID, getFullDataByTemplateID, loading } =
+    useLayout();
+  const [applyingId, setApplyingId] = useState<string | null>(null);
+
+  const templateID = (slide.layout ?? "").split(":")[0];
+
+  // Migrate the slide's content to every other layout of its template
+  const candidates = useMemo<LayoutCandidate[]>(() => {
+    if (loading) return [];
+    const fullData = new Map(
+      getFullDataByTemplateID(templateID).map((data) => [data.layoutId, data]),
+    );
+    return getLayoutsByTemplateID(templateID)
+      .filter((layout) => layout.id !== slide.layout)
+      .flatMap((layout) => {
+        const data = fullData.get(layout.id);
+        if (!data) return [];
+        return [
+          {
+            layout,
+            component: data.component,
+            migration: migrateSlideContent(
+              slide.content ?? {},
+              layout.json_schema as MigrationSchema,
+              data.sampleData,
+            ),
+          },
+        ];
+      });
+  }, [
+    loading,
+    templateID,
+    slide.layout,
+    slide.content,
+    getLayoutsByTemplateID,
+    getFullDataByTemplateID,
+  ]);
+
+  /**
+   * Moves the slide to a layout.
+   *
+   * Saves the current slides to the undo history, sends the migrated content
+   * to the server (which fills the missing fields with the LLM) and replaces
+   * the slide with the result.
+   *
+   * @param candidate - The layout picked, with the migrated content.
+   */
+  const handleApply = async (candidate: LayoutCandidate) => {
+    if (!slide.id) {
+      toast.error("Slide ID is required");
+      return;
+    }
+    setApplyingId(candidate.layout.id);
+    try {
+      if (presentationData?.slides) {
+        addToHistory(presentationData.slides, "CHANGE_LAYOUT");
+      }
+      const response = await PresentationGenerationApi.changeSlideLayout(
+        slide.id,
+        {
+          layout: candidate.layout.id,
+          layout_group: candidate.layout.templateID,
+          json_schema: candidate.layout.json_schema,
+          content: candidate.migration.content,
+          missing: candidate.migration.missing,
+          version: slide.version,
+        },
+      );
+      if (response) {
+        updateSlide(slide.index, response as Slide);
+        toast.success(`Layout changed to ${candidate.layout.name}`);
+        onClose();
+      }
+    } catch (error) {
+      console.error("Error changing slide layout:", error);
+      toast.error("Error changing slide layout.", {
+        description:
+          error instanceof Error ? error.message : "Error changing slide layout.",
+      });
+    } finally {
+      setApplyingId(null);
+    }
+  };
+
+  return (
+    <div className="my-6 w-full bg-gray-50 p-8 max-w-content">
+      <div className="flex justify-between items-start mb-8">
+        <div>
+          <h2 className="text-2xl font-semibold">Change Layout</h2>
+          <p className="text-sm text-text-400 mt-1">
+            Previews show this slide&apos;s content in each layout. Fields
+            that don&apos;t carry over are written by AI when you apply.
+          </p>
+        </div>
+        <X
+          onClick={onClose}
+          className="w-5 h-5 text-gray-500 cursor-pointer shrink-0"
+        />
+      </div>
+      {loading ? (
+        <div className="flex items-center justify-center h-32">
+          <Loader2 className="w-8 h-8 animate-spin text-gray-500" />
+        </div>
+      ) : candidates.length === 0 ? (
+        <p className="text-sm text-text-400">
+          This template has no other layouts.
+        </p>
+      ) : (
+        <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
+          {candidates.map((candidate) => {
+            const { layout, migration } = candidate;
+            const LayoutComponent = candidate.component;
+            const isApplying = applyingId === layout.id;
+            return (
+              <button
+                key={layout.id}
+                type="button"
+                disabled={applyingId !== null}
+                onClick={() => handleApply(candidate)}
+                className={cn(
+                  "text-left space-y-2 disabled:cursor-not-allowed",
+                  applyingId !== null && !isApplying && "opacity-50",
+                )}
+              >
+                <div className="relative">
+                  <ScaledSlidePreview className="rounded-lg border border-bg-200 bg-bg-100 hover:border-bg-300 transition-colors">
+                    <LayoutComponent data={migration.content} />
+                  </ScaledSlidePreview>
+                  {isApplying && (
+                    <div className="absolute inset-0 flex items-center justify-center rounded-lg bg-white/70">
+                      <Loader2 className="w-6 h-6 animate-spin text-gray-500" />
+                    </div>
+                  )}
+                </div>
+                <div className="flex items-center justify-between gap-2">
+                  <p className="text-sm font-medium text-text-200 truncate">
+                    {layout.name}
+                  </p>
+                  {migration.missing.length > 0 ? (
+                    <span className="flex items-center gap-1 text-xs text-text-400 shrink-0">
+                      <Sparkles className="w-3 h-3 text-accent" />
+                      {migration.missing.length}{" "}
+                      {migration.missing.length === 1 ? "field" : "fields"} by AI
+                    </span>
+                  ) : (
+                    <span className="text-xs text-text-400 shrink-0">
+                      All content fits
+                    </span>
+                  )}
+                </div>
+              </button>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ChangeLayout;
@@ -0,0 +1,598 @@
+/**
+ * Diagram editor.
+ *
+ * Side sheet for editing a diagram, infographic or graph on a slide, opened
+ * by clicking it. Diagrams are edited as nodes and edges (or as an ordered
+ * list of items for timelines), infographics as items and graphs as labeled
+ * values. Changes apply when saved.
+ */
+
+"use client";
+import React, { useState } from "react";
+import { Plus, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Sheet,
+  SheetContent,
+  SheetHeader,
+  SheetTitle,
+} from "@/components/ui/sheet";
+import type {
+  DiagramData,
+  GraphData,
+  InfographicsData,
+} from "@/types/slide";
+import { MAX_DIAGRAM_NODES } from "@/utils/diagram-layout";
+
+/**
+ * Kind of content being edited, from the `data-visual-kind` attribute of
+ * the clicked element.
+ */
+export type VisualKind = "diagram" | "infographic" | "graph";
+
+type Visual = DiagramData | InfographicsData | GraphData;
+
+const DIAGRAM_TYPES = [
+  { value: "flywheel", label: "Flywheel" },
+  { value: "architecture", label: "Architecture" },
+  { value: "flowchart", label: "Flowchart" },
+  { value: "tree", label: "Tree" },
+  { value: "mindmap", label: "Mind map" },
+  { value: "timeline", label: "Timeline" },
+];
+
+const INFOGRAPHIC_TYPES = [
+  { value: "stats", label: "Stats" },
+  { value: "process", label: "Process" },
+  { value: "comparison", label: "Comparison" },
+  { value: "list", label: "List" },
+];
+
+const GRAPH_TYPES = [
+  { value: "bar", label: "Bar" },
+  { value: "line", label: "Line" },
+  { value: "area", label: "Area" },
+  { value: "pie", label: "Pie" },
+  { value: "scatter", label: "Scatter" },
+];
+
+const TITLES: Record<VisualKind, string> = {
+  diagram: "Edit diagram",
+  infographic: "Edit infographic",
+  graph: "Edit chart",
+};
+
+const selectClassName =
+  "rounded-md border border-bg-200 bg-bg-100 px-2 py-1.5 text-sm text-text-200";
+
+const iconButtonClassName =
+  "p-2 rounded-lg text-text-400 hover:text-red-600 hover:bg-bg-200/50 transition-colors";
+
+/**
+ * Whether a diagram is edited as an ordered list of items: diagrams without
+ * nodes that list items, and new timelines. Nodes win when a diagram has
+ * both, as in the slide.
+ */
+const usesItems = (diagram: DiagramData) =>
+  !diagram.nodes?.length &&
+  (diagram.type === "timeline" || Boolean(diagram.items?.length));
+
+/**
+ * Node ID not used by the diagram yet.
+ */
+const nextNodeId = (diagram: DiagramData) => {
+  const ids = new Set((diagram.nodes ?? []).map((node) => node.id));
+  let index = ids.size + 1;
+  while (ids.has(`n${index}`)) index += 1;
+  return `n${index}`;
+};
+
+/**
+ * Heading of a form section, with an optional add button.
+ */
+const SectionHeader = ({
+  label,
+  onAdd,
+}: {
+  label: string;
+  onAdd?: () => void;
+}) => (
+  <div className="flex items-center justify-between">
+    <p className="text-xs font-medium text-text-300">{label}</p>
+    {onAdd && (
+      <button
+        aria-label={`Add ${label.toLowerCase()}`}
+        onClick={onAdd}
+        className="p-1.5 rounded-lg text-text-400 hover:text-text-200 hover:bg-bg-200/50 transition-colors"
+      >
+        <Plus className="w-4 h-4" />
+      </button>
+    )}
+  </div>
+);
+
+/**
+ * Form for a diagram: type, then nodes and edges, or items for timelines.
+ */
+const DiagramForm = ({
+  diagram,
+  onChange,
+}: {
+  diagram: DiagramData;
+  onChange: (diagram: DiagramData) => void;
+}) => {
+  const nodes = diagram.nodes ?? [];
+  const edges = diagram.edges ?? [];
+  const items = diagram.items ?? [];
+
+  const removeNode = (id: string) =>
+    onChange({
+      ...diagram,
+      nodes: nodes.filter((node) => node.id !== id),
+      edges: edges.filter((edge) => edge.from !== id && edge.to !== id),
+    });
+
+  return (
+    <>
+      <select
+        aria-label="Diagram type"
+        value={diagram.type}
+        onChange={(e) => onChange({ ...diagram, type: e.target.value })}
+        className={selectClassName}
+      >
+        {DIAGRAM_TYPES.map((option) => (
+          <option key={option.value} value={option.value}>
+            {option.label}
+          </option>
+        ))}
+      </select>
+
+      {usesItems(diagram) ? (
+        <div className="space-y-2">
+          <SectionHeader
+            label="Steps"
+            onAdd={
+              items.length < MAX_DIAGRAM_NODES
+                ? () =>
+                    onChange({ ...diagram, items: [...items, { label: "" }] })
+                : undefined
+            }
+          />
+          {items.map((item, index) => (
+            <div key={index} className="flex items-start gap-2">
+              <div className="flex-1 space-y-1.5">
+                <Input
+                  aria-label="Step"
+                  placeholder="Step"
+                  value={item.label}
+                  onChange={(e) =>
+                    onChange({
+                      ...diagram,
+                      items: items.map((current, i) =>
+                        i === index
+                          ? { ...current, label: e.target.value }
+                          : current,
+                      ),
+                    })
+                  }
+                />
+                <Input
+                  aria-label="Description"
+                  placeholder="Description (optional)"
+                  value={item.description ?? ""}
+                  onChange={(e) =>
+                    onChange({
+                      ...diagram,
+                      items: items.map((current, i) =>
+                        i === index
+                          ? { ...current, description: e.target.value }
+                          : current,
+                      ),
+                    })
+                  }
+                />
+              </div>
+              <button
+                aria-label="Remove step"
+                onClick={() =>
+                  onChange({
+                    ...diagram,
+                    items: items.filter((_, i) => i !== index),
+                  })
+                }
+                className={iconButtonClassName}
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+          ))}
+        </div>
+      ) : (
+        <>
+          <div className="space-y-2">
+            <SectionHeader
+              label="Nodes"
+              onAdd={
+                nodes.length < MAX_DIAGRAM_NODES
+                  ? () =>
+                      onChange({
+                        ...diagram,
+                        nodes: [...nodes, { id: nextNodeId(diagram), label: "" }],
+                      })
+                  : undefined
+              }
+            />
+            {nodes.map((node) => (
+              <div key={node.id} className="flex items-center gap-2">
+                <Input
+                  aria-label="Node label"
+                  placeholder="Label"
+                  value={node.label}
+                  onChange={(e) =>
+                    onChange({
+                      ...diagram,
+                      nodes: nodes.map((current) =>
+                        current.id === node.id
+                          ? { ...current, label: e.target.value }
+                          : current,
+                      ),
+                    })
+                  }
+                  className="flex-1"
+                />
+                {diagram.type === "architecture" && (
+                  <Input
+                    aria-label="Layer"
+                    placeholder="Layer"
+                    value={node.type ?? ""}
+                    onChange={(e) =>
+                      onChange({
+                        ...diagram,
+                        nodes: nodes.map((current) =>
+                          current.id === node.id
+                            ? { ...current, type: e.target.value }
+                            : current,
+                        ),
+                      })
+                    }
+                    className="w-32"
+                  />
+                )}
+                <button
+                  aria-label="Remove node"
+                  onClick={() => removeNode(node.id)}
+                  className={iconButtonClassName}
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+            ))}
+          </div>
+
+          <div className="space-y-2">
+            <SectionHeader
+              label="Connections"
+              onAdd={
+                nodes.length > 1
+                  ? () =>
+                      onChange({
+                        ...diagram,
+                        edges: [
+                          ...edges,
+                          { from: nodes[0].id, to: nodes[1].id },
+                        ],
+                      })
+                  : undefined
+              }
+            />
+            {edges.map((edge, index) => {
+              const updateEdge = (patch: Partial<typeof edge>) =>
+                onChange({
+                  ...diagram,
+                  edges: edges.map((current, i) =>
+                    i === index ? { ...current, ...patch } : current,
+                  ),
+                });
+              return (
+                <div key={index} className="flex items-center gap-2">
+                  {(["from", "to"] as const).map((end) => (
+                    <select
+                      key={end}
+                      aria-label={end === "from" ? "From" : "To"}
+                      value={edge[end]}
+                      onChange={(e) => updateEdge({ [end]: e.target.value })}
+                      className={`${selectClassName} w-28`}
+                    >
+                      {nodes.map((node) => (
+                        <option key={node.id} value={node.id}>
+                          {node.label || node.id}
+                        </option>
+                      ))}
+                    </select>
+                  ))}
+                  <Input
+                    aria-label="Connection label"
+                    placeholder="Label"
+                    value={edge.label ?? ""}
+                    onChange={(e) => updateEdge({ label: e.target.value })}
+                    className="flex-1"
+                  />
+                  <button
+                    aria-label="Remove connection"
+                    onClick={() =>
+                      onChange({
+                        ...diagram,
+                        edges: edges.filter((_, i) => i !== index),
+                      })
+                    }
+                    className={iconButtonClassName}
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              );
+            })}
+            {diagram.type === "flywheel" && edges.length === 0 && (
+              <p className="text-xs text-text-400">
+                Without connections, nodes are joined in order into a loop.
+              </p>
+            )}
+          </div>
+        </>
+      )}
+    </>
+  );
+};
+
+/**
+ * Form for an infographic: type and items.
+ */
+const InfographicForm = ({
+  infographic,
+  onChange,
+}: {
+  infographic: InfographicsData;
+  onChange: (infographic: InfographicsData) => void;
+}) => {
+  const items = infographic.items ?? [];
+  const updateItem = (index: number, patch: Partial<(typeof items)[0]>) =>
+    onChange({
+      ...infographic,
+      items: items.map((item, i) => (i === index ? { ...item, ...patch } : item)),
+    });
+
+  return (
+    <>
+      <select
+        aria-label="Infographic type"
+        value={infographic.type}
+        onChange={(e) => onChange({ ...infographic, type: e.target.value })}
+        className={selectClassName}
+      >
+        {INFOGRAPHIC_TYPES.map((option) => (
+          <option key={option.value} value={option.value}>
+            {option.label}
+          </option>
+        ))}
+      </select>
+      <div className="space-y-2">
+        <SectionHeader
+          label="Items"
+          onAdd={
+            items.length < 6
+              ? () => onChange({ ...infographic, items: [...items, {}] })
+              : undefined
+          }
+        />
+        {items.map((item, index) => (
+          <div
+            key={index}
+            className="flex items-start gap-2 rounded-lg border border-bg-200 p-2"
+          >
+            <div className="flex-1 space-y-1.5">
+              <div className="flex gap-2">
+                <Input
+                  aria-label="Title"
+                  placeholder="Title"
+                  value={item.title ?? ""}
+                  onChange={(e) => updateItem(index, { title: e.target.value })}
+                  className="flex-1"
+                />
+                <Input
+                  aria-label="Value"
+                  placeholder="Value"
+                  value={item.value ?? ""}
+                  onChange={(e) => updateItem(index, { value: e.target.value })}
+                  className="w-28"
+                />
+              </div>
+              <Input
+                aria-label="Description"
+                placeholder="Description (optional)"
+                value={item.description ?? ""}
+                onChange={(e) =>
+                  updateItem(index, { description: e.target.value })
+                }
+              />
+            </div>
+            <button
+              aria-label="Remove item"
+              onClick={() =>
+                onChange({
+                  ...infographic,
+                  items: items.filter((_, i) => i !== index),
+                })
+              }
+              className={iconButtonClassName}
+            >
+              <Trash2 className="w-4 h-4" />
+            </button>
+          </div>
+        ))}
+      </div>
+    </>
+  );
+};
+
+/**
+ * Form for a graph: type, title and labeled values.
+ */
+const GraphForm = ({
+  graph,
+  onChange,
+}: {
+  graph: GraphData;
+  onChange: (graph: GraphData) => void;
+}) => {
+  const points = graph.data ?? [];
+  return (
+    <>
+      <div className="flex gap-2">
+        <select
+          aria-label="Chart type"
+          value={graph.type}
+          onChange={(e) => onChange({ ...graph, type: e.target.value })}
+          className={selectClassName}
+        >
+          {GRAPH_TYPES.map((option) => (
+            <option key={option.value} value={option.value}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+        <Input
+          aria-label="Chart title"
+          placeholder="Title (optional)"
+          value={graph.title ?? ""}
+          onChange={(e) => onChange({ ...graph, title: e.target.value })}
+          className="flex-1"
+        />
+      </div>
+      <div className="space-y-2">
+        <SectionHeader
+          label="Values"
+          onAdd={() =>
+            onChange({ ...graph, data: [...points, { label: "", value: 0 }] })
+          }
+        />
+        {points.map((point, index) => (
+          <div key={index} className="flex items-center gap-2">
+            <Input
+              aria-label="Label"
+              placeholder="Label"
+              value={point.label}
+              onChange={(e) =>
+                onChange({
+                  ...graph,
+                  data: points.map((current, i) =>
+                    i === index ? { ...current, label: e.target.value } : current,
+                  ),
+                })
+              }
+              className="flex-1"
+            />
+            <Input
+              aria-label="Value"
+              type="number"
+              value={Number.isFinite(point.value) ? point.value : ""}
+              onChange={(e) =>
+                onChange({
+                  ...graph,
+                  data: points.map((current, i) =>
+                    i === index
+                      ? { ...current, value: Number(e.target.value) }
+                      : current,
+                  ),
+                })
+              }
+              className="w-28"
+            />
+            <button
+              aria-label="Remove value"
+              onClick={() =>
+                onChange({
+                  ...graph,
+                  data: points.filter((_, i) => i !== index),
+                })
+              }
+              className={iconButtonClassName}
+            >
+              <Trash2 className="w-4 h-4" />
+            </button>
+          </div>
+        ))}
+      </div>
+    </>
+  );
+};
+
+interface DiagramEditorProps {
+  kind: VisualKind;
+  /**
+   * Current content, as stored in the slide.
+   */
+  value: Visual;
+  onSave: (value: Visual) => void;
+  onClose: () => void;
+}
+
+/**
+ * Diagram editor component.
+ */
+const DiagramEditor = ({ kind, value, onSave, onClose }: DiagramEditorProps) => {
+  const [draft, setDraft] = useState<Visual>(() =>
+    JSON.parse(JSON.stringify(value)),
+  );
+
+  const save = () => {
+    onSave(draft);
+    onClose();
+  };
+
+  return (
+    <Sheet open onOpenChange={(open) => !open && onClose()}>
+      <SheetContent
+        side="right"
+        className="w-full sm:max-w-[480px] overflow-y-auto"
+      >
+        <SheetHeader>
+          <SheetTitle>{TITLES[kind]}</SheetTitle>
+        </SheetHeader>
+
+        <div className="flex flex-col gap-5 mt-4">
+          {kind === "diagram" && (
+            <DiagramForm
+              diagram={draft as DiagramData}
+              onChange={setDraft}
+            />
+          )}
+          {kind === "infographic" && (
+            <InfographicForm
+              infographic={draft as InfographicsData}
+              onChange={setDraft}
+            />
+          )}
+          {kind === "graph" && (
+            <GraphForm graph={draft as GraphData} onChange={setDraft} />
+          )}
+
+          <div className="flex justify-end gap-2">
+            <Button
+              variant="outline"
+              onClick={onClose}
+              className="rounded-lg border-bg-200 text-text-200 hover:bg-bg-200/50"
+            >
+              Cancel
+            </Button>
+            <Button onClick={save} className="rounded-lg">
+              Save
+            </Button>
+          </div>
+        </div>
+      </SheetContent>
+    </Sheet>
+  );
+};
+
+export default DiagramEditor;
@@ -21,6 +21,9 @@
  *
  * This component bridges static slide rendering with interactive editing,
  * enabling WYSIWYG image/icon replacement in slides.
+ *
+ * Diagrams, infographics and graphs (elements marked with `data-visual-path`)
+ * open the DiagramEditor instead, which edits their nodes, edges and items.
  */
 
 "use client";
@@ -28,11 +31,34 @@
 import React, { ReactNode, useRef, useEffect, useState } from "react";
 import dynamic from "next/dynamic";
 import { usePresentationDataStore } from "@/stores";
-import type { SlideContent, SlideProperties } from "@/types/slide";
+import type {
+  DiagramData,
+  GraphData,
+  InfographicsData,
+  SlideProperties,
+} from "@/types/slide";
+import type { VisualKind } from "./diagram-editor";
 
 // Dynamically import editors to avoid SSR issues
 const ImageEditor = dynamic(() => import("./image-editor"), { ssr: false });
 const IconsEditor = dynamic(() => import("./icons-editor"), { ssr: false });
+const DiagramEditor = dynamic(() => import("./diagram-editor"), { ssr: false });
+
+/**
+ * Reads a value from slide data by a dot/bracket path (e.g., "diagram" or
+ * "items[0].chart").
+ */
+const getValueAtPath = (data: unknown, path: string): unknown =>
+  path
+    .split(/[.\[\]]+/)
+    .filter(Boolean)
+    .reduce<unknown>(
+      (value, key) =>
+        value && typeof value === "object"
+          ? (value as Record<string, unknown>)[key]
+          : undefined,
+      data,
+    );
 
 /**
  * Props for the EditableLayoutWrapper component.
@@ -112,6 +138,7 @@ const EditableLayoutWrapper: React.FC<EditableLayoutWrapperProps> = ({
   const updateSlideImage = usePresentationDataStore((state) => state.updateSlideImage);
   const updateSlideIcon = usePresentationDataStore((state) => state.updateSlideIcon);
   const updateImageProperties = usePresentationDataStore((state) => state.updateImageProperties);
+  const updateSlideVisual = usePresentationDataStore((state) => state.updateSlideVisual);
   
   // Ref to container element containing the slide content
   const containerRef = useRef<HTMLDivElement>(null);
@@ -126,6 +153,12 @@ const EditableLayoutWrapper: React.FC<EditableLayoutWrapperProps> = ({
     null,
   );
 
+  // Diagram, infographic or graph being edited (if any)
+  const [activeVisual, setActiveVisual] = useState<{
+    kind: VisualKind;
+    dataPath: string;
+  } | null>(null);
+
   /**
    * Recursively searches for ALL image/icon data paths in the slide data structure.
    *
@@ -508,6 +541,62 @@ const EditableLayoutWrapper: React.FC<EditableLayoutWrapperProps> = ({
     setEditableElements((prev) => [...prev, ...newEditableElements]);
   };
 
+  /**
+   * Makes diagrams, infographics and graphs editable.
+   *
+   * Scans the container for unprocessed elements marked with
+   * `data-visual-path` (set by the diagram components) whose path holds
+   * content in slideData, and opens the DiagramEditor on click. Cleanup
+   * functions are stored on the elements like for images.
+   */
+  const findAndProcessVisuals = () => {
+    if (!containerRef.current) return;
+
+    const visualElements = containerRef.current.querySelectorAll(
+      "[data-visual-path]:not([data-editable-processed])",
+    );
+
+    visualElements.forEach((el) => {
+      const visualEl = el as HTMLElement;
+      const dataPath = visualEl.getAttribute("data-visual-path") || "";
+      const kind = visualEl.getAttribute("data-visual-kind") as VisualKind;
+      const value = getValueAtPath(slideData, dataPath);
+      if (!dataPath || !kind || !value || typeof value !== "object") return;
+
+      visualEl.setAttribute("data-editable-processed", "true");
+
+      const clickHandler = (e: Event) => {
+        e.preventDefault();
+        e.stopPropagation();
+        setActiveVisual({ kind, dataPath });
+      };
+
+      const mouseEnterHandler = () => {
+        visualEl.style.outline = "2px dashed rgba(99, 102, 241, 0.6)";
+      };
+
+      const mouseLeaveHandler = () => {
+        visualEl.style.outline = "";
+      };
+
+      visualEl.style.cursor = "pointer";
+      visualEl.style.outlineOffset = "6px";
+      visualEl.addEventListener("click", clickHandler);
+      visualEl.addEventListener("mouseenter", mouseEnterHandler);
+      visualEl.addEventListener("mouseleave", mouseLeaveHandler);
+
+      (visualEl as any)._editableCleanup = () => {
+        visualEl.removeEventListener("click", clickHandler);
+        visualEl.removeEventListener("mouseenter", mouseEnterHandler);
+        visualEl.removeEventListener("mouseleave", mouseLeaveHandler);
+        visualEl.style.cursor = "";
+        visualEl.style.outline = "";
+        visualEl.style.outlineOffset = "";
+        visualEl.removeAttribute("data-editable-processed");
+      };
+    });
+  };
+
   /**
    * Cleanup function to remove event listeners and reset styles.
    *
@@ -521,6 +610,9 @@ const EditableLayoutWrapper: React.FC<EditableLayoutWrapperProps> = ({
         (element as any)._editableCleanup();
       }
     });
+    containerRef.current
+      ?.querySelectorAll("[data-visual-path][data-editable-processed]")
+      .forEach((element) => (element as any)._editableCleanup?.());
     setEditableElements([]);
   };
 
@@ -534,6 +626,7 @@ const EditableLayoutWrapper: React.FC<EditableLayoutWrapperProps> = ({
   useEffect(() => {
     const timer = setTimeout(() => {
       findAndProcessImages();
+      findAndProcessVisuals();
     }, 400);
 
     return () => {
@@ -670,10 +763,38 @@ const EditableLayoutWrapper: React.FC<EditableLayoutWrapperProps> = ({
     );
   };
 
+  /**
+   * Handles a saved diagram, infographic or graph from DiagramEditor by
+   * replacing it in the Zustand store; the slide re-renders from there.
+   *
+   * @param visual - The edited content.
+   */
+  const handleVisualSave = (
+    visual: DiagramData | InfographicsData | GraphData,
+  ) => {
+    if (activeVisual) {
+      updateSlideVisual(slideIndex, activeVisual.dataPath, visual);
+    }
+  };
+
+  const activeVisualValue = activeVisual
+    ? getValueAtPath(slideData, activeVisual.dataPath)
+    : undefined;
+
   return (
     <div ref={containerRef} className="editable-layout-wrapper w-full">
       {children}
 
+      {/* Render DiagramEditor when a diagram, infographic or graph is being edited */}
+      {activeVisual && activeVisualValue && typeof activeVisualValue === "object" ? (
+        <DiagramEditor
+          kind={activeVisual.kind}
+          value={activeVisualValue as DiagramData | InfographicsData | GraphData}
+          onSave={handleVisualSave}
+          onClose={() => setActiveVisual(null)}
+        />
+      ) : null}
+
       {/* Render ImageEditor when an image is being edited */}
       {activeEditor && activeEditor.type === "image" && (
         <ImageEditor
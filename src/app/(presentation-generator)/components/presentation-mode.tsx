@@ -10,6 +10,7 @@
  * - Keyboard navigation (arrow keys, space, escape)
  * - Click navigation (left/right thirds of screen)
  * - Fullscreen toggle (F key or button)
+ * - Presenter view with notes and timer in a second window (P key or button)
  * - Slide counter display
  * - Smooth transitions between slides
  * - Controls hidden in fullscreen mode
@@ -19,6 +20,7 @@
  * - Arrow Left/Up: Previous slide
  * - Escape: Exit presentation (or toggle fullscreen if already fullscreen)
  * - F: Toggle fullscreen
+ * - P: Open the presenter view
  *
  * Click navigation:
  * - Left third of screen: Previous slide
@@ -34,6 +36,7 @@ import {
   X,
   Minimize2,
   Maximize2,
+  Presentation,
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Slide } from "@/types/slide";
@@ -48,9 +51,13 @@ import ScaledSlidePreview from "./scaled-slide-preview";
  * @property isFullscreen - Whether the presentation is in fullscreen mode.
  *   Controls visibility of navigation controls.
  * @property onFullscreenToggle - Callback invoked when fullscreen toggle is triggered.
- * @property onExit - Callback invoked when user exits presentation mode.
+ * @property onExit - Callback invoked when user exits presentation mode. The
+ *   exit button and Escape shortcut are disabled when omitted (e.g., in the
+ *   share viewer, which has nothing to exit to).
  * @property onSlideChange - Callback invoked when slide navigation occurs.
  *   Receives the new slide index (zero-based).
+ * @property onOpenPresenter - Callback invoked when the presenter view is
+ *   requested. The button and shortcut are hidden when omitted.
  */
 interface PresentationModeProps {
   slides: Slide[];
@@ -58,8 +65,9 @@ interface PresentationModeProps {
 
   isFullscreen: boolean;
   onFullscreenToggle: () => void;
-  onExit: () => void;
+  onExit?: () => void;
   onSlideChange: (slideNumber: number) => void;
+  onOpenPresenter?: () => void;
 }
 
 /**
@@ -79,6 +87,7 @@ const PresentationMode: React.FC<PresentationModeProps> = ({
   onFullscreenToggle,
   onExit,
   onSlideChange,
+  onOpenPresenter,
 }) => {
   const { renderSlideContent } = useTemplateLayouts();
   
@@ -90,6 +99,7 @@ const PresentationMode: React.FC<PresentationModeProps> = ({
    * - Arrow Left/Up: Navigate to previous slide
    * - Escape: Exit presentation mode
    * - F: Toggle fullscreen mode
+   * - P: Open the presenter view
    *
    * Prevents default browser behavior for navigation keys to avoid scrolling.
    *
@@ -114,15 +124,26 @@ const PresentationMode: React.FC<PresentationModeProps> = ({
           }
           break;
         case "Escape":
-          onExit();
+          onExit?.();
           break;
         case "f":
         case "F":
           onFullscreenToggle();
           break;
+        case "p":
+        case "P":
+          onOpenPresenter?.();
+          break;
       }
     },
-    [currentSlide, slides.length, onSlideChange, onExit, onFullscreenToggle],
+    [
+      currentSlide,
+      slides.length,
+      onSlideChange,
+      onExit,
+      onFullscreenToggle,
+      onOpenPresenter,
+    ],
   );
 
   /**
@@ -208,6 +229,20 @@ const PresentationMode: React.FC<PresentationModeProps> = ({
       {!isFullscreen && (
         <>
           <div className="presentation-controls absolute top-4 right-4 flex items-center gap-2 z-50">
+            {onOpenPresenter && (
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={(e) => {
+                  e.stopPropagation();
+                  onOpenPresenter();
+                }}
+                className="text-white hover:bg-white/20"
+                title="Presenter view (P)"
+              >
+                <Presentation className="h-5 w-5" />
+              </Button>
+            )}
             <Button
               variant="ghost"
               size="icon"
@@ -223,17 +258,19 @@ const PresentationMode: React.FC<PresentationModeProps> = ({
                 <Maximize2 className="h-5 w-5" />
               )}
             </Button>
-            <Button
-              variant="ghost"
-              size="icon"
-              onClick={(e) => {
-                e.stopPropagation();
-                onExit();
-              }}
-              className="text-white hover:bg-white/20"
-            >
-              <X className="h-5 w-5" />
-            </Button>
+            {onExit && (
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={(e) => {
+                  e.stopPropagation();
+                  onExit();
+                }}
+                className="text-white hover:bg-white/20"
+              >
+                <X className="h-5 w-5" />
+              </Button>
+            )}
           </div>
 
           <div className="presentation-controls absolute bottom-4 left-1/2 -translate-x-1/2 flex items-center gap-4 z-50">
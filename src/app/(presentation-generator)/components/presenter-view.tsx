@@ -0,0 +1,361 @@
+/**
+ * Presenter view shown in a separate window while presenting.
+ *
+ * The audience window shows the slides in presentation mode; this window
+ * shows the presenter what they need to deliver them. Both windows stay on
+ * the same slide (see usePresenterSync), so navigating in either moves the
+ * other.
+ *
+ * Features:
+ * - Current slide with its speaker notes in large type
+ * - Preview of the next slide
+ * - Elapsed and remaining time against a planned talk length
+ * - Per-slide target time, from how long each slide's notes take to say,
+ *   and whether the talk is ahead of or behind that plan
+ *
+ * Keyboard shortcuts:
+ * - Arrow Right/Down/Space/PageDown: Next slide
+ * - Arrow Left/Up/PageUp: Previous slide
+ * - Escape: Close the presenter view
+ */
+
+"use client";
+import React, { useCallback, useEffect, useMemo, useState } from "react";
+import {
+  ChevronLeft,
+  ChevronRight,
+  Pause,
+  Play,
+  RotateCcw,
+  X,
+} from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { cn } from "@/lib/utils";
+import { Slide } from "@/types/slide";
+import { useTemplateLayouts } from "../hooks/use-template-layouts";
+import ScaledSlidePreview from "./scaled-slide-preview";
+import {
+  formatDuration,
+  planSlideTargets,
+  suggestTalkMinutes,
+} from "../utils/pacing";
+
+/**
+ * Props for the PresenterView component.
+ *
+ * @property slides - Array of slide objects being presented.
+ * @property currentSlide - Zero-based index of the slide being presented.
+ * @property onSlideChange - Callback invoked when slide navigation occurs.
+ *   Receives the new slide index (zero-based).
+ * @property onExit - Callback invoked when the presenter closes the view.
+ */
+interface PresenterViewProps {
+  slides: Slide[];
+  currentSlide: number;
+  onSlideChange: (slideNumber: number) => void;
+  onExit: () => void;
+}
+
+/**
+ * Presenter view component.
+ *
+ * The talk timer starts with the first slide change or the play button and
+ * can be paused and reset. Time spent on a slide is measured from the
+ * moment the presenter arrived on it.
+ *
+ * @param props - Component props containing slides, current index, and callbacks.
+ * @returns JSX element containing the presenter view.
+ */
+const PresenterView: React.FC<PresenterViewProps> = ({
+  slides,
+  currentSlide,
+  onSlideChange,
+  onExit,
+}) => {
+  const { renderSlideContent } = useTemplateLayouts();
+
+  const notes = useMemo(
+    () => (slides ?? []).map((slide) => slide.speaker_note),
+    [slides],
+  );
+  // Talk length picked by the presenter; until then, suggested from notes
+  const [pickedMinutes, setPickedMinutes] = useState<number | null>(null);
+  const totalMinutes = pickedMinutes ?? suggestTalkMinutes(notes);
+  const targets = useMemo(
+    () => planSlideTargets(notes, totalMinutes * 60),
+    [notes, totalMinutes],
+  );
+
+  // Timer: elapsed time is the banked time plus the running stretch
+  const [bankedMs, setBankedMs] = useState(0);
+  const [runningSince, setRunningSince] = useState<number | null>(null);
+  const [now, setNow] = useState(() => Date.now());
+  const [slideStartedAt, setSlideStartedAt] = useState(0);
+
+  const elapsedSeconds =
+    (bankedMs + (runningSince !== null ? now - runningSince : 0)) / 1000;
+
+  useEffect(() => {
+    if (runningSince === null) return;
+    const interval = setInterval(() => setNow(Date.now()), 500);
+    return () => clearInterval(interval);
+  }, [runningSince]);
+
+  const start = useCallback(() => {
+    const time = Date.now();
+    setNow(time);
+    setRunningSince((since) => since ?? time);
+  }, []);
+
+  const pause = useCallback(() => {
+    if (runningSince === null) return;
+    setBankedMs((banked) => banked + Date.now() - runningSince);
+    setRunningSince(null);
+  }, [runningSince]);
+
+  const reset = useCallback(() => {
+    setBankedMs(0);
+    setRunningSince(null);
+    setSlideStartedAt(0);
+  }, []);
+
+  // Restart the slide clock when the slide changes. Moving past the first
+  // slide also starts the talk timer, so there is no need to press play.
+  const [trackedSlide, setTrackedSlide] = useState(currentSlide);
+  if (trackedSlide !== currentSlide) {
+    setTrackedSlide(currentSlide);
+    setSlideStartedAt(elapsedSeconds);
+  }
+  useEffect(() => {
+    if (currentSlide !== 0) start();
+  }, [currentSlide, start]);
+
+  const slideSeconds = elapsedSeconds - slideStartedAt;
+  const slideTarget = targets[currentSlide] ?? 0;
+  // Where the plan expects the talk to be at the end of this slide
+  const plannedByEnd = targets
+    .slice(0, currentSlide + 1)
+    .reduce((sum, seconds) => sum + seconds, 0);
+  const plannedByStart = plannedByEnd - slideTarget;
+  // Behind if past the plan for this slide, ahead if still before its start
+  const drift =
+    elapsedSeconds > plannedByEnd
+      ? elapsedSeconds - plannedByEnd
+      : elapsedSeconds < plannedByStart
+        ? elapsedSeconds - plannedByStart
+        : 0;
+  const remainingSeconds = totalMinutes * 60 - elapsedSeconds;
+
+  const goTo = useCallback(
+    (index: number) => {
+      if (index >= 0 && index < slides.length) onSlideChange(index);
+    },
+    [slides.length, onSlideChange],
+  );
+
+  /**
+   * Effect: Set up keyboard navigation.
+   *
+   * Ignores key presses while typing in the talk length field.
+   */
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if ((e.target as HTMLElement).closest("input")) return;
+      switch (e.key) {
+        case "ArrowRight":
+        case "ArrowDown":
+        case "PageDown":
+        case " ":
+          e.preventDefault();
+          goTo(currentSlide + 1);
+          break;
+        case "ArrowLeft":
+        case "ArrowUp":
+        case "PageUp":
+          e.preventDefault();
+          goTo(currentSlide - 1);
+          break;
+        case "Escape":
+          onExit();
+          break;
+      }
+    };
+
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [currentSlide, goTo, onExit]);
+
+  const slide = slides?.[currentSlide];
+  const nextSlide = slides?.[currentSlide + 1];
+  const note = slide?.speaker_note?.trim();
+
+  return (
+    <div className="fixed inset-0 bg-neutral-950 text-white flex flex-col">
+      {/* Timer bar */}
+      <div className="flex items-center justify-between gap-4 px-6 py-3 border-b border-white/10">
+        <div className="flex items-center gap-3">
+          <span className="text-3xl font-semibold tabular-nums">
+            {formatDuration(elapsedSeconds)}
+          </span>
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={runningSince === null ? start : pause}
+            className="text-white hover:bg-white/20"
+            aria-label={runningSince === null ? "Start timer" : "Pause timer"}
+          >
+            {runningSince === null ? (
+              <Play className="h-5 w-5" />
+            ) : (
+              <Pause className="h-5 w-5" />
+            )}
+          </Button>
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={reset}
+            className="text-white hover:bg-white/20"
+            aria-label="Reset timer"
+          >
+            <RotateCcw className="h-5 w-5" />
+          </Button>
+        </div>
+
+        <div className="flex items-center gap-6 text-sm text-white/70">
+          <label className="flex items-center gap-2">
+            Talk length
+            <input
+              type="number"
+              min={1}
+              max={240}
+              value={totalMinutes}
+              onChange={(e) =>
+                setPickedMinutes(Math.max(1, Number(e.target.value) || 1))
+              }
+              className="w-16 rounded-md bg-white/10 px-2 py-1 text-white tabular-nums focus:outline-none focus:ring-1 focus:ring-white/40"
+            />
+            min
+          </label>
+          <span
+            className={cn(
+              "tabular-nums",
+              remainingSeconds < 0 && "text-red-400",
+            )}
+          >
+            {formatDuration(remainingSeconds)} left
+          </span>
+          <span
+            className={cn(
+              "tabular-nums font-medium",
+              drift > 0 && "text-red-400",
+              drift < 0 && "text-emerald-400",
+            )}
+          >
+            {drift > 0
+              ? `${formatDuration(drift)} behind`
+              : drift < 0
+                ? `${formatDuration(-drift)} ahead`
+                : "On time"}
+          </span>
+        </div>
+
+        <Button
+          variant="ghost"
+          size="icon"
+          onClick={onExit}
+          className="text-white hover:bg-white/20"
+          aria-label="Close presenter view"
+        >
+          <X className="h-5 w-5" />
+        </Button>
+      </div>
+
+      <div className="flex-1 min-h-0 grid grid-cols-[3fr_2fr] gap-6 p-6">
+        {/* Current slide and notes */}
+        <div className="flex flex-col min-h-0 gap-4">
+          <ScaledSlidePreview className="rounded-sm shadow-lg bg-white">
+            {slide && renderSlideContent(slide, false)}
+          </ScaledSlidePreview>
+          <div className="flex-1 min-h-0 overflow-y-auto rounded-lg bg-white/5 p-5">
+            {note ? (
+              <p className="text-2xl leading-relaxed whitespace-pre-wrap">
+                {note}
+              </p>
+            ) : (
+              <p className="text-lg text-white/40">
+                No speaker notes for this slide.
+              </p>
+            )}
+          </div>
+        </div>
+
+        {/* Next slide and slide pacing */}
+        <div className="flex flex-col min-h-0 gap-4">
+          <p className="text-sm uppercase tracking-wider text-white/50">
+            Next
+          </p>
+          {nextSlide ? (
+            <ScaledSlidePreview className="rounded-sm bg-white opacity-90">
+              {renderSlideContent(nextSlide, false)}
+            </ScaledSlidePreview>
+          ) : (
+            <div className="aspect-video rounded-sm border border-white/10 flex items-center justify-center text-white/40">
+              End of presentation
+            </div>
+          )}
+
+          <div className="rounded-lg bg-white/5 p-4 space-y-2">
+            <div className="flex items-baseline justify-between text-sm text-white/70">
+              <span>This slide</span>
+              <span
+                className={cn(
+                  "tabular-nums text-lg text-white",
+                  slideSeconds > slideTarget && "text-red-400",
+                )}
+              >
+                {formatDuration(slideSeconds)} / {formatDuration(slideTarget)}
+              </span>
+            </div>
+            <div className="h-1.5 rounded-full bg-white/10 overflow-hidden">
+              <div
+                className={cn(
+                  "h-full rounded-full transition-[width]",
+                  slideSeconds > slideTarget ? "bg-red-400" : "bg-emerald-400",
+                )}
+                style={{
+                  width: `${Math.min(100, slideTarget ? (slideSeconds / slideTarget) * 100 : 0)}%`,
+                }}
+              />
+            </div>
+          </div>
+
+          <div className="mt-auto flex items-center justify-center gap-4">
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() => goTo(currentSlide - 1)}
+              disabled={currentSlide === 0}
+              className="text-white hover:bg-white/20"
+            >
+              <ChevronLeft className="h-6 w-6" />
+            </Button>
+            <span className="text-lg tabular-nums">
+              {currentSlide + 1} / {slides?.length ?? 0}
+            </span>
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() => goTo(currentSlide + 1)}
+              disabled={currentSlide >= (slides?.length ?? 0) - 1}
+              className="text-white hover:bg-white/20"
+            >
+              <ChevronRight className="h-6 w-6" />
+            </Button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PresenterView;
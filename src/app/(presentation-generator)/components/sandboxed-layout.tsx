@@ -0,0 +1,65 @@
+"use client";
+
+import React, { useEffect, useRef, useState } from "react";
+import {
+  isLayoutFrameMessage,
+  LAYOUT_FRAME_PATH,
+  LAYOUT_FRAME_SANDBOX,
+  type LayoutFrameRequest,
+  type LayoutFrameResponse,
+} from "@/utils/layout-frame";
+
+interface SandboxedLayoutProps {
+  code: string;
+  data: unknown;
+  fonts?: string[];
+}
+
+/**
+ * Renders a custom template layout inside a sandboxed layout frame.
+ *
+ * The frame has an opaque origin, so the layout cannot touch the editor;
+ * its slide content is posted to it whenever it changes. The frame fills
+ * the slide area at 16:9. Text is not editable inline; custom layout slides
+ * are edited through AI edits and the slide's content.
+ */
+const SandboxedLayout = ({ code, data, fonts }: SandboxedLayoutProps) => {
+  const frameRef = useRef<HTMLIFrameElement>(null);
+  const [ready, setReady] = useState(false);
+
+  useEffect(() => {
+    const handleMessage = (event: MessageEvent) => {
+      if (event.source !== frameRef.current?.contentWindow) return;
+      if (isLayoutFrameMessage<LayoutFrameResponse>(event.data, "ready")) {
+        setReady(true);
+      } else if (
+        isLayoutFrameMessage<
+          Extract<LayoutFrameResponse, { type: "render_error" }>
+        >(event.data, "render_error")
+      ) {
+        console.error("Custom layout failed to render:", event.data.message);
+      }
+    };
+    window.addEventListener("message", handleMessage);
+    return () => window.removeEventListener("message", handleMessage);
+  }, []);
+
+  useEffect(() => {
+    if (!ready) return;
+    const request: LayoutFrameRequest = { type: "render", code, data, fonts };
+    // The frame's origin is opaque, so it cannot be named as target
+    frameRef.current?.contentWindow?.postMessage(request, "*");
+  }, [ready, code, data, fonts]);
+
+  return (
+    <iframe
+      ref={frameRef}
+      src={LAYOUT_FRAME_PATH}
+      sandbox={LAYOUT_FRAME_SANDBOX}
+      title="Custom layout"
+      className="block w-full aspect-video border-0 bg-transparent"
+    />
+  );
+};
+
+export default SandboxedLayout;
@@ -152,6 +152,8 @@ const TiptapTextReplacer: React.FC<TiptapTextReplacerProps> = ({
         // Create a container for the TiptapText
         const tiptapContainer = document.createElement("div");
         tiptapContainer.className = Array.from(allClasses).join(" ");
+        // Lets collaborators see which field is being edited
+        if (dataPath.path) tiptapContainer.dataset.collabPath = dataPath.path;
 
         // Check if element has gradient text (background-clip: text)
         const backgroundClip =
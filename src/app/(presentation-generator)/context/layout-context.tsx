@@ -3,14 +3,16 @@
  *
  * Provides a React context for loading, caching, and accessing presentation
  * template layouts dynamically. Handles fetching layout metadata from the
- * server, compiling layout components from source code using Babel, and
- * managing a cache of compiled components. Supports multiple templates
- * and provides utilities for accessing layouts by template ID or layout ID.
+ * server, rendering custom layouts in sandboxed layout frames (see
+ * utils/layout-frame), and managing a cache of layout components. Supports
+ * multiple templates and provides utilities for accessing layouts by
+ * template ID or layout ID.
  */
 
 "use client";
 import React, {
   createContext,
+  useCallback,
   useContext,
   useEffect,
   useState,
@@ -20,8 +22,8 @@ import dynamic from "next/dynamic";
 import { toast } from "sonner";
 import { usePresentationUIStore } from "@/stores";
 
-import * as Babel from "@babel/standalone";
-import * as Recharts from "recharts";
+import { inspectLayoutCode, LAYOUT_FRAME_PATH } from "@/utils/layout-frame";
+import SandboxedLayout from "../components/sandboxed-layout";
 
 import { getHeader } from "../services/api/header";
 
@@ -100,11 +102,14 @@ export interface FullDataInfo {
  * @property description - Template description.
  * @property ordered - Whether layouts should be displayed in a specific order.
  * @property default - Whether this template is the default selection.
+ * @property hidden - Whether this template is excluded from template pickers.
+ *   Its layouts still resolve by ID (used for imported PowerPoint slides).
  */
 export interface TemplateSetting {
   description: string;
   ordered: boolean;
   default?: boolean;
+  hidden?: boolean;
 }
 
 /**
@@ -164,7 +169,7 @@ type LayoutComponent = React.ComponentType<{ data: Record<string, unknown> }>;
  * @property getLayoutById - Get layout info by layout ID.
  * @property getLayoutsByTemplateID - Get all layouts for a template.
  * @property getTemplateSetting - Get template settings by template ID.
- * @property getAllTemplateIDs - Get all available template IDs.
+ * @property getAllTemplateIDs - Get all selectable (non-hidden) template IDs.
  * @property getAllLayouts - Get all layout info objects.
  * @property getFullDataByTemplateID - Get compiled layouts for a template.
  * @property loading - Whether layouts are currently being loaded.
@@ -173,6 +178,8 @@ type LayoutComponent = React.ComponentType<{ data: Record<string, unknown> }>;
  * @property isPreloading - Whether layouts are being preloaded.
  * @property cacheSize - Number of layouts currently cached.
  * @property refetch - Manually trigger a refetch of layout data.
+ * @property loadSharedLayouts - Load layouts with the custom templates a
+ *   share link serves, for viewers without access to the templates API.
  * @property getCustomTemplateFonts - Get custom fonts for a presentation.
  */
 export interface LayoutContextType {
@@ -189,9 +196,28 @@ export interface LayoutContextType {
   isPreloading: boolean;
   cacheSize: number;
   refetch: () => Promise<void>;
+  loadSharedLayouts: (templates: CustomTemplateLayouts[]) => Promise<void>;
   getCustomTemplateFonts: (presentationId: string) => string[] | null;
 }
 
+/**
+ * Layout code of a custom template.
+ *
+ * @property presentation_id - ID of the presentation the template is stored
+ *   under; its layouts have template ID `custom-<presentation_id>`.
+ * @property name - Name of the template, or null.
+ * @property layouts - Layout code and fonts of each layout.
+ */
+export interface CustomTemplateLayouts {
+  presentation_id: string;
+  name: string | null;
+  layouts: {
+    layout_name: string;
+    layout_code: string;
+    fonts: string[] | null;
+  }[];
+}
+
 /**
  * React context for layout management.
  * Provides layout data and utilities to child components.
@@ -214,65 +240,6 @@ const layoutCache = new Map<string, LayoutComponent>();
 const createCacheKey = (templateID: string, fileName: string): string =>
   `${templateID}/${fileName}`;
 
-/**
- * Compiles custom layout code into a React component.
- *
- * Transforms TypeScript/JSX layout code using Babel, removes import statements,
- * and executes it in a sandboxed environment with React, ArkType, and Recharts
- * available. Dynamically imports arktype to prevent HMR (Hot Module Replacement)
- * issues during development.
- *
- * @param layoutCode - Raw TypeScript/JSX code for the layout component.
- * @param React - React library object to use in the compiled code.
- * @returns Object containing the compiled component, layout metadata, and schema.
- */
-const compileCustomLayout = async (layoutCode: string, React: any) => {
-  const { type: t } = await import("arktype");
-
-  const cleanCode = layoutCode
-    .replace(/import\s+React\s+from\s+'react';?/g, "")
-    .replace(/import\s*{\s*type\s+as\s+t\s*}\s*from\s+['"]arktype['"];?/g, "")
-    .replace(/import\s*{\s*t\s*}\s*from\s+['"]arktype['"];?/g, "")
-    .replace(/import\s+.*\s+from\s+['"]arktype['"];?/g, "")
-    .replace(/typescript/g, "");
-  const compiled = Babel.transform(cleanCode, {
-    presets: [
-      ["react", { runtime: "classic" }],
-      ["typescript", { isTSX: true, allExtensions: true }],
-    ],
-    sourceType: "script",
-  }).code;
-
-  const factory = new Function(
-    "React",
-    "_t",
-    "Recharts",
-
-    `
-    const t = _t;
-   
-    const useRef= React.useRef;
-    const useEffect= React.useEffect;
-    // Expose commonly used Recharts components to compiled layouts
-    const { ResponsiveContainer, LineChart, Line, BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, PieChart, Pie, Cell, AreaChart, Area, RadarChart, Radar, PolarGrid, PolarAngleAxis, PolarRadiusAxis, ComposedChart, ScatterChart, Scatter, FunnelChart, Funnel, TreemapChart, Treemap, SankeyChart, Sankey, RadialBarChart, RadialBar, ReferenceLine, ReferenceDot, ReferenceArea, Brush, ErrorBar, LabelList, Label } = Recharts || {};
-    
-      ${compiled}
-
-      /* everything declared in the string is in scope here */
-      return {
-        __esModule: true,   
-        default: typeof dynamicSlideLayout !== 'undefined' ? dynamicSlideLayout : (typeof DefaultLayout !== 'undefined' ? DefaultLayout : undefined),
-        layoutName,
-        layoutId,
-        layoutDescription,
-        Schema
-      };
-    `,
-  );
-
-  return factory(React, t, Recharts);
-};
-
 /**
  * Props for the LayoutProvider component.
  *
@@ -291,7 +258,7 @@ export const LayoutProvider: React.FC<{
    *
    * Features:
    * - Fetches template and layout metadata from API
-   * - Compiles layout components from source code using Babel
+   * - Compiles custom layouts in a sandboxed layout frame
    * - Caches compiled components for performance
    * - Preloads layouts for faster rendering
    * - Manages custom template fonts
@@ -499,7 +466,13 @@ export const LayoutProvider: React.FC<{
     };
   };
 
-  const loadLayouts = async () => {
+  /**
+   * Loads built-in and custom template layouts.
+   *
+   * @param sharedTemplates - Custom templates to use instead of fetching
+   *   the signed-in user's own.
+   */
+  const loadLayouts = async (sharedTemplates?: CustomTemplateLayouts[]) => {
     try {
       setLoading(true);
       setError(null);
@@ -521,7 +494,9 @@ export const LayoutProvider: React.FC<{
       }
 
       const data = await buildData(templateData);
-      const customLayouts = await LoadCustomLayouts();
+      const customLayouts = await buildCustomLayouts(
+        sharedTemplates ?? (await fetchCustomTemplates()),
+      );
       setIsPreloading(false);
       const combinedData = {
         layoutsById: mergeMaps(data.layoutsById, customLayouts.layoutsById),
@@ -567,30 +542,25 @@ export const LayoutProvider: React.FC<{
     return merged;
   }
 
-  const LoadCustomLayouts = async () => {
+  /**
+   * Fetches the signed-in user's custom templates with their layout code.
+   */
+  const fetchCustomTemplates = async (): Promise<CustomTemplateLayouts[]> => {
     const token =
       typeof window !== "undefined" ? localStorage.getItem("auth_token") : null;
+    const headers = {
+      ...getHeader(),
+      ...(token ? { Authorization: `Bearer ${token}` } : {}),
+    };
 
-    const layouts: LayoutInfo[] = [];
-    const layoutsById = new Map<string, LayoutInfo>();
-    const layoutsByTemplateID = new Map<string, Set<string>>();
-    const templateSettingsMap = new Map<string, TemplateSetting>();
-    const fileMap = new Map<string, { fileName: string; templateID: string }>();
-    const templateLayoutsCache = new Map<string, LayoutInfo[]>();
-    const fullDataByTemplateID = new Map<string, FullDataInfo[]>();
+    const templates: CustomTemplateLayouts[] = [];
     try {
       const customTemplateResponse = await fetch(
         `/api/v1/templates/summary`,
-        {
-          headers: {
-            ...getHeader(),
-            ...(token ? { Authorization: `Bearer ${token}` } : {}),
-          },
-        },
+        { headers },
       );
       const customTemplateData = await customTemplateResponse.json();
 
-      const customFonts = new Map<string, string[]>();
       const customTemplates = customTemplateData.presentations || [];
       for (const templateInfo of customTemplates) {
         const pid =
@@ -603,24 +573,49 @@ export const LayoutProvider: React.FC<{
           // skip invalid entries
           continue;
         }
+        const customLayoutResponse = await fetch(`/api/v1/templates/${pid}`, {
+          headers,
+        });
+        const customLayoutsData = await customLayoutResponse.json();
+        templates.push({
+          presentation_id: pid,
+          name: templateInfo.template?.name || null,
+          layouts: customLayoutsData.layouts,
+        });
+      }
+    } catch (err: any) {
+      console.error("Failed to fetch custom templates:", err);
+    }
+    return templates;
+  };
+
+  /**
+   * Compiles custom templates in the layout frame into layouts.
+   *
+   * @param customTemplates - Custom templates with their layout code.
+   */
+  const buildCustomLayouts = async (
+    customTemplates: CustomTemplateLayouts[],
+  ) => {
+    const layouts: LayoutInfo[] = [];
+    const layoutsById = new Map<string, LayoutInfo>();
+    const layoutsByTemplateID = new Map<string, Set<string>>();
+    const templateSettingsMap = new Map<string, TemplateSetting>();
+    const fileMap = new Map<string, { fileName: string; templateID: string }>();
+    const templateLayoutsCache = new Map<string, LayoutInfo[]>();
+    const fullDataByTemplateID = new Map<string, FullDataInfo[]>();
+    try {
+      const customFonts = new Map<string, string[]>();
+      for (const templateInfo of customTemplates) {
+        const pid = templateInfo.presentation_id;
         const templateID = `custom-${pid}`;
-        const templateName = templateInfo.template?.name || templateID;
+        const templateName = templateInfo.name || templateID;
         fullDataByTemplateID.set(templateID, []);
         if (!layoutsByTemplateID.has(templateID)) {
           layoutsByTemplateID.set(templateID, new Set());
         }
         const presentationId = pid;
-        const customLayoutResponse = await fetch(
-          `/api/v1/templates/${presentationId}`,
-          {
-            headers: {
-              ...getHeader(),
-              ...(token ? { Authorization: `Bearer ${token}` } : {}),
-            },
-          },
-        );
-        const customLayoutsData = await customLayoutResponse.json();
-        const allLayout = customLayoutsData.layouts;
+        const allLayout = templateInfo.layouts || [];
 
         const settings = {
           templateName: templateName,
@@ -651,202 +646,85 @@ export const LayoutProvider: React.FC<{
         };
 
         for (const i of allLayout) {
-          try {
-            /* ---------- 1. compile JSX to plain script ------------------ */
-            const module = await compileCustomLayout(i.layout_code, React);
-
-            // Determine identifiers even if subsequent steps fail
-            const originalLayoutId =
-              (module && (module as any).layoutId) ||
-              i.layout_name.toLowerCase().replace(/layout$/, "");
-            const uniqueKey = `${`custom-${presentationId}`}:${originalLayoutId}`;
-            const layoutName =
-              (module && (module as any).layoutName) ||
-              i.layout_name.replace(/([A-Z])/g, " $1").trim();
-            const layoutDescription =
-              (module && (module as any).layoutDescription) ||
-              `${layoutName} layout for presentations`;
-
-            let fullData: FullDataInfo | null = null;
-            let jsonSchema: any = null;
-            let componentToUse: React.ComponentType<
-              { data: any } | any
-            > | null = null;
-            let sampleData: any = {};
-
-            // Validate exports
-            if (!module || !(module as any).default) {
-              const errorComp = createErrorComponent(
-                `Invalid export in ${i.layout_name}`,
-                "Default export not found. Please export a default React component.",
-              );
-              componentToUse = errorComp;
-              jsonSchema = {};
-            } else if (!(module as any).Schema) {
-              const errorComp = createErrorComponent(
-                `Schema missing in ${i.layout_name}`,
-                "Schema export not found. Please export an ArkType Schema as 'Schema'.",
-              );
-              componentToUse = errorComp;
-              jsonSchema = {};
-            } else {
-              // Cache valid component
-              const cacheKey = createCacheKey(
-                `custom-${presentationId}`,
-                i.layout_name,
-              );
-              if (!layoutCache.has(cacheKey)) {
-                layoutCache.set(cacheKey, (module as any).default);
-              }
-              componentToUse = (module as any).default;
-
-              // Build schema and sample data with guards
-              try {
-                // Use fallback option to handle predicates that arktype cannot convert
-                const schemaJson = (
-                  module as {
-                    Schema: {
-                      toJsonSchema: (opts?: {
-                        fallback?: (ctx: { base: unknown }) => unknown;
-                      }) => Record<string, unknown>;
-                    };
-                  }
-                ).Schema.toJsonSchema({
-                  fallback: (ctx: { base: unknown }) => ctx.base,
-                });
-                // Remove default values from JSON schema
-                const removeDefaults = (obj: unknown): unknown => {
-                  if (typeof obj !== "object" || obj === null) return obj;
-                  if (Array.isArray(obj)) return obj.map(removeDefaults);
-                  const result: Record<string, unknown> = {};
-                  for (const [key, value] of Object.entries(
-                    obj as Record<string, unknown>,
-                  )) {
-                    if (key === "default") continue;
-                    result[key] = removeDefaults(value);
-                  }
-                  return result;
-                };
-                jsonSchema = removeDefaults(schemaJson) as Record<
-                  string,
-                  unknown
-                >;
-              } catch (schemaErr: unknown) {
-                const errorMessage =
-                  schemaErr instanceof Error
-                    ? schemaErr.message
-                    : String(schemaErr);
-                const errorComp = createErrorComponent(
-                  `Schema generation failed for ${i.layout_name}`,
-                  errorMessage,
-                );
-                componentToUse = errorComp;
-                jsonSchema = {};
-              }
-
-              if (
-                componentToUse !== null &&
-                componentToUse !== (module as { default: unknown }).default
-              ) {
-                // componentToUse already replaced with error component
-                sampleData = {};
-              } else {
-                // arktype 2.x: call Schema directly as a function
-                try {
-                  const parseResult = (
-                    module as { Schema: (input: object) => unknown }
-                  ).Schema({});
-                  if (
-                    parseResult &&
-                    typeof parseResult === "object" &&
-                    "data" in parseResult &&
-                    (parseResult as { data?: object }).data !== undefined
-                  ) {
-                    sampleData = (parseResult as { data: object }).data;
-                  } else if (
-                    parseResult &&
-                    typeof parseResult === "object" &&
-                    !("problems" in parseResult)
-                  ) {
-                    sampleData = parseResult as object;
-                  } else {
-                    sampleData = {};
-                  }
-                } catch {
-                  sampleData = {};
-                }
-              }
-            }
+          /* ---------- 1. compile in the layout frame ------------------ */
+          const { layout: described, error } = await inspectLayoutCode(
+            i.layout_code,
+          );
 
-            customFonts.set(presentationId, i.fonts);
-
-            const layout: LayoutInfo = {
-              id: uniqueKey,
-              name: layoutName,
-              description: layoutDescription,
-              json_schema: jsonSchema,
-              templateID: templateID,
-              templateName: templateName,
-            };
-
-            fullData = {
-              name: layoutName,
-              component: componentToUse as React.ComponentType<any>,
-              schema: jsonSchema,
-              sampleData: sampleData,
-              fileName: i.layout_name,
-              templateID: templateID,
-              layoutId: uniqueKey,
-            };
-
-            templateFullData.push(fullData);
-
-            layoutsById.set(uniqueKey, layout);
-            layoutsByTemplateID.get(templateID)!.add(uniqueKey);
-            fileMap.set(uniqueKey, {
-              fileName: i.layout_name,
-              templateID: templateID,
-            });
-            templateLayouts.push(layout);
-            layouts.push(layout);
-          } catch (e: any) {
-            // Handle compilation/runtime errors during transformation
-            const uniqueKey = `${`custom-${presentationId}`}:${i.layout_name.toLowerCase().replace(/layout$/, "")}`;
-            const layoutName = i.layout_name.replace(/([A-Z])/g, " $1").trim();
-            const errorComp = createErrorComponent(
-              `Compilation error in ${i.layout_name}`,
-              e?.message || String(e),
+          // Determine identifiers even if compilation failed
+          const originalLayoutId =
+            described?.layoutId ||
+            i.layout_name.toLowerCase().replace(/layout$/, "");
+          const uniqueKey = `${`custom-${presentationId}`}:${originalLayoutId}`;
+          const layoutName =
+            described?.layoutName ||
+            i.layout_name.replace(/([A-Z])/g, " $1").trim();
+          const layoutDescription = described
+            ? described.layoutDescription ||
+              `${layoutName} layout for presentations`
+            : `Failed to compile ${i.layout_name}`;
+
+          let componentToUse: React.ComponentType<{ data: any }>;
+          if (described) {
+            // The layout renders in its own sandboxed frame
+            const layoutCode = i.layout_code;
+            const fonts = i.fonts ?? [];
+            const CustomLayout: React.FC<{ data: any }> = ({ data }) => (
+              <SandboxedLayout code={layoutCode} data={data} fonts={fonts} />
             );
+            CustomLayout.displayName = "CustomTemplateLayout";
+            componentToUse = CustomLayout;
 
-            const layout: LayoutInfo = {
-              id: uniqueKey,
-              name: layoutName,
-              description: `Failed to compile ${i.layout_name}`,
-              json_schema: {},
-              templateID: templateID,
-              templateName: templateName,
-            };
-
-            const fullData: FullDataInfo = {
-              name: layoutName,
-              component: errorComp,
-              schema: {},
-              sampleData: {},
-              fileName: i.layout_name,
-              templateID: templateID,
-              layoutId: uniqueKey,
-            };
-
-            templateFullData.push(fullData);
-            layoutsById.set(uniqueKey, layout);
-            layoutsByTemplateID.get(templateID)!.add(uniqueKey);
-            fileMap.set(uniqueKey, {
-              fileName: i.layout_name,
-              templateID: templateID,
-            });
-            templateLayouts.push(layout);
-            layouts.push(layout);
+            // Cache valid component
+            const cacheKey = createCacheKey(
+              `custom-${presentationId}`,
+              i.layout_name,
+            );
+            if (!layoutCache.has(cacheKey)) {
+              layoutCache.set(cacheKey, CustomLayout);
+            }
+          } else {
+            componentToUse = createErrorComponent(
+              error.kind === "export"
+                ? `Invalid export in ${i.layout_name}`
+                : error.kind === "schema"
+                  ? `Schema error in ${i.layout_name}`
+                  : `Compilation error in ${i.layout_name}`,
+              error.message,
+            );
           }
+
+          customFonts.set(presentationId, i.fonts ?? []);
+
+          const layout: LayoutInfo = {
+            id: uniqueKey,
+            name: layoutName,
+            description: layoutDescription,
+            json_schema: described?.json_schema ?? {},
+            templateID: templateID,
+            templateName: templateName,
+          };
+
+          const fullData: FullDataInfo = {
+            name: layoutName,
+            component: componentToUse,
+            schema: described?.json_schema ?? {},
+            sampleData: described?.sampleData ?? {},
+            fileName: i.layout_name,
+            templateID: templateID,
+            layoutId: uniqueKey,
+          };
+
+          templateFullData.push(fullData);
+
+          layoutsById.set(uniqueKey, layout);
+          layoutsByTemplateID.get(templateID)!.add(uniqueKey);
+          fileMap.set(uniqueKey, {
+            fileName: i.layout_name,
+            templateID: templateID,
+          });
+          templateLayouts.push(layout);
+          layouts.push(layout);
         }
         setCustomTemplateFonts(customFonts);
         // Cache template layouts
@@ -932,7 +810,10 @@ export const LayoutProvider: React.FC<{
   };
 
   const getAllTemplateIDs = (): string[] => {
-    return layoutData ? Array.from(layoutData.templateSettings.keys()) : [];
+    if (!layoutData) return [];
+    return Array.from(layoutData.templateSettings.entries())
+      .filter(([, settings]) => !settings.hidden)
+      .map(([templateID]) => templateID);
   };
 
   const getAllLayouts = (): LayoutInfo[] => {
@@ -946,8 +827,22 @@ export const LayoutProvider: React.FC<{
     return customTemplateFonts.get(presentationId) || null;
   };
 
-  // Load layouts on mount
+  // Stable so the share viewer can open its deck in an effect. Loading only
+  // goes through state setters, so the first render's loader stays valid.
+  const loadSharedLayouts = useCallback(
+    (templates: CustomTemplateLayouts[]) => loadLayouts(templates),
+    [],
+  );
+
+  // Load layouts on mount. The layout frame renders a single layout it is
+  // sent and has no access to the templates API. Share viewers have no
+  // access either; the viewer loads layouts with the templates its link
+  // serves (see loadSharedLayouts).
   useEffect(() => {
+    const { pathname } = window.location;
+    if (pathname === LAYOUT_FRAME_PATH || pathname.startsWith("/share/")) {
+      return;
+    }
     loadLayouts();
   }, []); // Add presentationId to dependency array
 
@@ -964,7 +859,8 @@ export const LayoutProvider: React.FC<{
     getLayout,
     isPreloading,
     cacheSize: layoutCache.size,
-    refetch: loadLayouts,
+    refetch: () => loadLayouts(),
+    loadSharedLayouts,
   };
 
   return (
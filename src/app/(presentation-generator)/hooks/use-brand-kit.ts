@@ -0,0 +1,70 @@
+/**
+ * React hook for the brand kit of the presentation being shown.
+ *
+ * Uses the kit the server sent with the presentation, or loads it by ID
+ * when only the ID is known (e.g. while slides stream in), and loads the
+ * kit's fonts into the page.
+ */
+
+"use client";
+import { useEffect, useState } from "react";
+import { usePresentationDataStore } from "@/stores";
+import type { BrandFont, BrandKit } from "@/utils/color-schemes";
+import { BrandKitsApi } from "../services/api/brand-kits";
+
+/**
+ * Adds a brand font to the page once: Google Fonts stylesheets are
+ * imported, uploaded font files are declared with @font-face.
+ */
+const loadBrandFont = (font: BrandFont | null) => {
+  if (!font?.url) return;
+  if (document.querySelector(`style[data-font-url="${font.url}"]`)) return;
+  const style = document.createElement("style");
+  style.setAttribute("data-font-url", font.url);
+  style.textContent = font.url.includes("fonts.googleapis")
+    ? `@import url('${font.url}');`
+    : `@font-face { font-family: "${font.family}"; src: url('${font.url}'); font-display: swap; }`;
+  document.head.appendChild(style);
+};
+
+/**
+ * Hook returning the current presentation's brand kit.
+ *
+ * @returns The brand kit, or null if the presentation has none (or it is
+ *   still loading).
+ */
+export const useBrandKit = (): BrandKit | null => {
+  const brandKitId = usePresentationDataStore(
+    (state) => state.presentationData?.brand_kit ?? null,
+  );
+  const sent = usePresentationDataStore(
+    (state) => state.presentationData?.brand,
+  );
+  const [loaded, setLoaded] = useState<BrandKit | null>(null);
+
+  useEffect(() => {
+    if (sent !== undefined || !brandKitId) return;
+    let cancelled = false;
+    BrandKitsApi.getBrandKit(brandKitId).then((kit) => {
+      if (!cancelled) setLoaded(kit);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [brandKitId, sent]);
+
+  const kit =
+    sent !== undefined
+      ? sent
+      : loaded && loaded.id === brandKitId
+        ? loaded
+        : null;
+
+  useEffect(() => {
+    if (!kit) return;
+    loadBrandFont(kit.heading_font);
+    loadBrandFont(kit.body_font);
+  }, [kit]);
+
+  return kit;
+};
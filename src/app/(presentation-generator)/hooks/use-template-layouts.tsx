@@ -5,6 +5,15 @@
  * with support for editable text (via Tiptap), editable images/icons, and
  * error boundaries. Handles layout loading, content updates, and slide
  * property management.
+ *
+ * Slides are rendered in the presentation's language: right-to-left
+ * languages get `dir="rtl"` (the templates use flex and grid layouts, which
+ * mirror on their own) and the `lang` attribute selects CJK fonts and line
+ * breaking rules (see `.slide-language` in globals.css).
+ *
+ * The presentation's brand kit is applied as CSS variables on the same
+ * wrapper, which every template reads its colors and fonts from, and its
+ * logo and footer text are laid over each slide.
  */
 
 "use client";
@@ -16,6 +25,9 @@ import TiptapTextReplacer from "../components/tiptap-text-replacer";
 import { usePresentationDataStore } from "@/stores";
 import { Loader2 } from "lucide-react";
 import type { SlideProperties } from "@/types/slide";
+import { resolveLanguage } from "@/utils/languages";
+import { brandKitToCssVars, getBrandLogo } from "@/utils/color-schemes";
+import { useBrandKit } from "./use-brand-kit";
 
 /**
  * Hook for template layout rendering and editing.
@@ -29,6 +41,10 @@ import type { SlideProperties } from "@/types/slide";
  */
 export const useTemplateLayouts = () => {
   const updateSlideContent = usePresentationDataStore((state) => state.updateSlideContent);
+  const language = usePresentationDataStore(
+    (state) => state.presentationData?.language,
+  );
+  const brandKit = useBrandKit();
   const { getLayoutById, getLayout, loading } = useLayout();
 
   const getTemplateLayout = useMemo(() => {
@@ -96,6 +112,41 @@ export const useTemplateLayouts = () => {
           ? (slide.content as Record<string, unknown>)
           : {};
 
+      const { code, direction } = resolveLanguage(language);
+      const logo = brandKit ? getBrandLogo(brandKit) : null;
+      const renderLayout = () => (
+        <div
+          className="slide-language pptx-ignore"
+          lang={code}
+          dir={direction}
+          data-brand-kit={brandKit?.id}
+          style={brandKitToCssVars(brandKit)}
+        >
+          {brandKit && (logo || brandKit.footer_text) ? (
+            <div className="relative w-full max-w-[1280px] mx-auto">
+              <Layout data={slideData} />
+              <div className="absolute inset-x-0 bottom-0 flex items-end justify-between gap-6 px-8 pb-3 pointer-events-none">
+                <p
+                  className="text-[11px] truncate"
+                  style={{ color: "var(--text-muted-color)" }}
+                >
+                  {brandKit.footer_text}
+                </p>
+                {logo && (
+                  <img
+                    src={logo}
+                    alt={brandKit.name}
+                    className="h-6 max-w-[140px] object-contain"
+                  />
+                )}
+              </div>
+            </div>
+          ) : (
+            <Layout data={slideData} />
+          )}
+        </div>
+      );
+
       if (isEditMode) {
         return (
           <EditableLayoutWrapper
@@ -118,7 +169,7 @@ export const useTemplateLayouts = () => {
               }}
             >
               <SlideErrorBoundary label={`Slide ${slideIndex + 1}`}>
-                <Layout data={slideData} />
+                {renderLayout()}
               </SlideErrorBoundary>
             </TiptapTextReplacer>
           </EditableLayoutWrapper>
@@ -126,11 +177,11 @@ export const useTemplateLayouts = () => {
       }
       return (
         <SlideErrorBoundary label={`Slide ${slideIndex + 1}`}>
-          <Layout data={slideData} />
+          {renderLayout()}
         </SlideErrorBoundary>
       );
     };
-  }, [getTemplateLayout, updateSlideContent, loading]);
+  }, [getTemplateLayout, updateSlideContent, loading, language, brandKit]);
 
   return {
     getTemplateLayout,
@@ -11,6 +11,7 @@
  * - Skeleton placeholders to prevent layout shift
  * - Inline editing of outline content
  * - Add/delete slide functionality
+ * - Read-only agenda, rebuilt from the slide titles whenever slides move
  * - Status indicators for loading and streaming states
  *
  * The component manages local state for drag operations and syncs with parent
@@ -19,7 +20,7 @@
  */
 
 "use client";
-import React, { useEffect, useState } from "react";
+import React, { useEffect, useMemo, useState } from "react";
 import {
   DndContext,
   closestCenter,
@@ -37,12 +38,21 @@ import {
   sortableKeyboardCoordinates,
   verticalListSortingStrategy,
 } from "@dnd-kit/sortable";
-import { OutlineItem } from "./outline-item";
+import { OutlineItem, type OutlineLayoutOption } from "./outline-item";
 import { Button } from "@/components/ui/button";
 import { FileText, Loader2, Sparkles } from "lucide-react";
 import { usePathname } from "next/navigation";
 import { trackEvent, MixpanelEvent } from "@/utils/mixpanel";
-import { OutlineSlide as OutlineItemType } from "../types/index";
+import {
+  applyDeckSections,
+  isAgendaOutline,
+  type DeckSectionOptions,
+} from "@/utils/agenda";
+import {
+  OutlineSlide as OutlineItemType,
+  PlannedLayout,
+} from "../types/index";
+import { createOutlineId } from "../utils/outline-ids";
 
 /**
  * Default number of slides to expect during initial outline generation.
@@ -73,6 +83,14 @@ const EXPECTED_SLIDE_COUNT = 10;
  * @property onAddSlide - Callback invoked when user clicks "Add Slide" button.
  * @property statusMessage - Optional status message to display during loading/streaming.
  *   Falls back to default messages if not provided.
+ * @property layoutOptions - Layouts of the selected template, offered as
+ *   per-slide overrides.
+ * @property plannedLayouts - Layout planned for each outline, keyed by outline ID.
+ * @property onChangeLayout - Callback invoked when a slide's layout override
+ *   changes. Receives slide ID and layout ID, or undefined for automatic.
+ * @property deckSections - Title slide and agenda options. Reordered
+ *   outlines are passed through applyDeckSections before onReorder, so the
+ *   agenda never shows a stale order.
  */
 interface OutlineContentProps {
   outlines: OutlineItemType[] | null;
@@ -86,6 +104,10 @@ interface OutlineContentProps {
   onDeleteSlide: (id: string) => void;
   onAddSlide: () => void;
   statusMessage?: string;
+  layoutOptions?: OutlineLayoutOption[];
+  plannedLayouts?: Record<string, PlannedLayout>;
+  onChangeLayout?: (id: string, layoutId: string | undefined) => void;
+  deckSections?: DeckSectionOptions;
 }
 
 /**
@@ -168,8 +190,18 @@ const OutlineContent: React.FC<OutlineContentProps> = ({
   onDeleteSlide,
   onAddSlide,
   statusMessage,
+  layoutOptions = [],
+  plannedLayouts,
+  onChangeLayout,
+  deckSections,
 }) => {
   const pathname = usePathname();
+
+  // Layout names by ID, used to label each slide's planned layout
+  const layoutNames = useMemo(
+    () => new Map(layoutOptions.map((option) => [option.id, option.name])),
+    [layoutOptions],
+  );
   
   // Local state for drag-and-drop operations
   // Prevents parent updates during drag to avoid conflicts
@@ -232,8 +264,9 @@ const OutlineContent: React.FC<OutlineContentProps> = ({
   /**
    * Handles the end of a drag operation.
    *
-   * Calculates new order and calls onReorder callback. Prevents reordering
-   * during streaming and validates that drag target is valid.
+   * Calculates new order and calls onReorder callback, with the title slide
+   * and agenda reapplied to the new order. Prevents reordering during
+   * streaming and validates that drag target is valid.
    *
    * @param event - Drag end event containing active and over elements.
    */
@@ -251,8 +284,14 @@ const OutlineContent: React.FC<OutlineContentProps> = ({
     const newIndex = localOutlines.findIndex((item) => item.id === over.id);
     if (oldIndex < 0 || newIndex < 0) return;
 
-    // Reorder array and update parent state
-    const reordered = arrayMove(localOutlines, oldIndex, newIndex);
+    // Reorder array, rebuild the agenda and update parent state
+    const moved = arrayMove(localOutlines, oldIndex, newIndex);
+    const reordered = deckSections
+      ? applyDeckSections(moved, deckSections, (content) => ({
+          id: createOutlineId(),
+          content,
+        }))
+      : moved;
     setLocalOutlines(reordered);
     onReorder(reordered);
   };
@@ -328,6 +367,14 @@ const OutlineContent: React.FC<OutlineContentProps> = ({
                     isDragSource={activeId === item.id}
                     onChange={onUpdateSlide}
                     onDelete={onDeleteSlide}
+                    layoutOptions={layoutOptions}
+                    plannedLayoutName={
+                      layoutNames.get(
+                        plannedLayouts?.[item.id]?.layout_id ?? "",
+                      )
+                    }
+                    onLayoutChange={onChangeLayout}
+                    isGenerated={isAgendaOutline(item.content)}
                   />
                 ))}
               </div>
@@ -6,7 +6,9 @@
  * - Inline markdown editing when not streaming
  * - Real-time streaming text animation during outline generation
  * - Auto-scroll to active slide during streaming
+ * - Per-slide layout override (planned layout shown as "Auto")
  * - Delete functionality
+ * - Read-only display of generated outlines (the agenda)
  *
  * The component switches between three rendering modes:
  * 1. Streaming mode: Shows animated text streaming in character-by-character
@@ -17,8 +19,15 @@
  * Drag-and-drop is disabled during streaming to prevent conflicts.
  */
 
-import { Trash2, GripVertical, Loader2 } from "lucide-react";
+import { Trash2, GripVertical, Loader2, LayoutTemplate } from "lucide-react";
 import ToolTip from "@/components/tool-tip";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import dynamic from "next/dynamic";
 import {
   useEffect,
@@ -40,6 +49,22 @@ const MarkdownEditor = dynamic(
   { ssr: false },
 );
 
+/**
+ * Select value used for "no override" (Radix Select does not allow "").
+ */
+const AUTO_LAYOUT_VALUE = "__auto__";
+
+/**
+ * Layout option offered in the per-slide layout picker.
+ *
+ * @property id - Layout ID (e.g., "modern:team-slide").
+ * @property name - Layout display name.
+ */
+export interface OutlineLayoutOption {
+  id: string;
+  name: string;
+}
+
 /**
  * Props for the OutlineItem component.
  *
@@ -60,6 +85,15 @@ const MarkdownEditor = dynamic(
  *   Receives item ID and new content string.
  * @property onDelete - Callback invoked when slide is deleted.
  *   Receives the item ID to delete.
+ * @property layoutOptions - Layouts of the selected template. The layout
+ *   picker is hidden when empty.
+ * @property plannedLayoutName - Name of the layout planned for this slide,
+ *   shown next to the "Auto" option.
+ * @property onLayoutChange - Callback invoked when the layout override
+ *   changes. Receives the item ID and layout ID, or undefined for "Auto".
+ * @property isGenerated - Whether the outline is built from the other
+ *   outlines (the agenda). It can be moved and given a layout, but not
+ *   edited or deleted; the Agenda option removes it.
  */
 interface OutlineItemProps {
   slideOutline: OutlineItemType;
@@ -73,6 +107,10 @@ interface OutlineItemProps {
   isDragSource?: boolean;
   onChange: (id: string, content: string) => void;
   onDelete: (id: string) => void;
+  layoutOptions?: OutlineLayoutOption[];
+  plannedLayoutName?: string;
+  onLayoutChange?: (id: string, layoutId: string | undefined) => void;
+  isGenerated?: boolean;
 }
 
 /**
@@ -219,6 +257,10 @@ const OutlineItemComponent = ({
   isDragSource = false,
   onChange,
   onDelete,
+  layoutOptions = [],
+  plannedLayoutName,
+  onLayoutChange,
+  isGenerated = false,
 }: OutlineItemProps) => {
   // Configure drag-and-drop using @dnd-kit sortable hook
   // Disabled during streaming to prevent conflicts
@@ -284,10 +326,30 @@ const OutlineItemComponent = ({
    * Prevents deletion during streaming and calls onDelete callback.
    */
   const handleSlideDelete = () => {
-    if (isStreaming) return;
+    if (isStreaming || isGenerated) return;
     onDelete(itemId);
   };
 
+  /**
+   * Handles layout override changes from the layout picker.
+   *
+   * Maps the "Auto" option back to undefined so the slide returns to
+   * automatic layout planning.
+   *
+   * @param value - Selected layout ID or AUTO_LAYOUT_VALUE.
+   */
+  const handleLayoutChange = (value: string) => {
+    if (isStreaming) return;
+    onLayoutChange?.(itemId, value === AUTO_LAYOUT_VALUE ? undefined : value);
+  };
+
+  // Only show an override that still exists in the selected template
+  const selectedLayoutValue =
+    slideOutline.layoutId &&
+    layoutOptions.some((option) => option.id === slideOutline.layoutId)
+      ? slideOutline.layoutId
+      : AUTO_LAYOUT_VALUE;
+
   // Determine if this item is currently being dragged
   // True if either this component's drag state or parent's drag source flag
   const isDragActive = isDragSource || isDragging;
@@ -388,6 +450,18 @@ const OutlineItemComponent = ({
                 {slideOutline.content || ""}
               </p>
             )
+          ) : isGenerated ? (
+            // Generated outline - rebuilt from the other slides
+            <div>
+              <div className="text-sm font-normal prose prose-sm max-w-none text-text-200 leading-relaxed prose-p:my-0">
+                <ReactMarkdown remarkPlugins={[remarkGfm]}>
+                  {slideOutline.content || ""}
+                </ReactMarkdown>
+              </div>
+              <p className="mt-2 text-xs text-text-400">
+                Built from the slide titles and kept in sync
+              </p>
+            </div>
           ) : (
             // Editable mode
             <MarkdownEditor
@@ -396,6 +470,33 @@ const OutlineItemComponent = ({
               onChange={(content) => handleSlideChange(content)}
             />
           )}
+          {!isStreaming && layoutOptions.length > 0 && onLayoutChange && (
+            <div className="mt-3 flex items-center gap-2">
+              <LayoutTemplate className="w-3.5 h-3.5 text-text-400" />
+              <Select
+                value={selectedLayoutValue}
+                onValueChange={handleLayoutChange}
+              >
+                <SelectTrigger className="h-7 w-auto min-w-[160px] max-w-[260px] rounded-lg border-bg-200 text-xs text-text-300">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={AUTO_LAYOUT_VALUE} className="text-xs">
+                    {plannedLayoutName ? `Auto · ${plannedLayoutName}` : "Auto"}
+                  </SelectItem>
+                  {layoutOptions.map((option) => (
+                    <SelectItem
+                      key={option.id}
+                      value={option.id}
+                      className="text-xs"
+                    >
+                      {option.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
         </div>
 
         {/* Right: Actions */}
@@ -406,10 +507,14 @@ const OutlineItemComponent = ({
           ${isStreaming ? "opacity-30 pointer-events-none" : "opacity-0 group-hover:opacity-100"}
         `}
         >
-          <ToolTip content="Delete Slide">
+          <ToolTip
+            content={
+              isGenerated ? "Turn off Agenda to remove" : "Delete Slide"
+            }
+          >
             <button
               onClick={handleSlideDelete}
-              disabled={isStreaming}
+              disabled={isStreaming || isGenerated}
               className="p-2 rounded-lg text-text-400 hover:text-red-500 hover:bg-red-50 transition-all duration-200"
             >
               <Trash2 className="w-4 h-4" />
@@ -10,6 +10,7 @@
  * - Handles pending uploads from previous page
  * - Provides auto-save functionality for outline changes
  * - Manages template selection and layout configuration
+ * - Keeps the title slide and agenda in line with the deck options
  * - Coordinates presentation generation workflow
  * - Handles scroll position preservation during streaming
  *
@@ -17,6 +18,7 @@
  * - useOutlineStreaming: Real-time outline generation via SSE
  * - usePendingUpload: Processes file uploads and creates presentations
  * - useOutlineManagement: CRUD operations for outline slides
+ * - useLayoutPlan: Previews the layout planned for each outline
  * - usePresentationGeneration: Triggers presentation generation from outlines
  *
  * Auto-save is debounced (1.5s) and saves outlines, template selection, and
@@ -35,9 +37,10 @@ import React, {
 } from "react";
 import { useSearchParams, usePathname } from "next/navigation";
 import { toast } from "sonner";
-import { Sparkles, FileText } from "lucide-react";
+import { Sparkles, FileText, ListOrdered, Presentation } from "lucide-react";
 import PptFlowLayout from "../../components/ppt-flow-layout";
 import { trackEvent, MixpanelEvent } from "@/utils/mixpanel";
+import { applyDeckSections, type DeckSectionOptions } from "@/utils/agenda";
 import OutlineContent from "./outline-content";
 import EmptyStateView from "./empty-state-view";
 import GenerateButton from "./generate-button";
@@ -47,6 +50,7 @@ import type { OutlineSlide } from "../types/index";
 import { useOutlineStreaming } from "../hooks/use-outline-streaming";
 import { useOutlineManagement } from "../hooks/use-outline-management";
 import { usePresentationGeneration } from "../hooks/use-presentation-generation";
+import { useLayoutPlan } from "../hooks/use-layout-plan";
 import { usePendingUpload } from "../hooks/use-pending-upload";
 import { useLayout } from "../../context/layout-context";
 import { usePresentationDataStore, useUploadStore } from "@/stores";
@@ -213,8 +217,57 @@ const OutlinePage: React.FC<OutlinePageProps> = ({
     commitReorder,
     handleAddSlide,
     handleUpdateSlide,
+    handleSetSlideLayout,
     handleDeleteSlide,
   } = useOutlineManagement(outlines);
+
+  // Previews which layout each outline gets once outlines are stable
+  const { plannedLayouts } = useLayoutPlan(
+    outlines,
+    selectedTemplate,
+    !pendingState.isLoading && !streamState.isLoading && !streamState.isStreaming,
+  );
+
+  /**
+   * Memoized title slide and agenda options of the deck.
+   *
+   * Defaults match the presentation defaults: a title slide, no agenda.
+   */
+  const deckSections = useMemo<DeckSectionOptions>(
+    () => ({
+      includeTitleSlide: uploadConfig?.includeTitleSlide ?? true,
+      includeTableOfContents: uploadConfig?.includeTableOfContents ?? false,
+    }),
+    [uploadConfig?.includeTitleSlide, uploadConfig?.includeTableOfContents],
+  );
+
+  /**
+   * Toggles the title slide or agenda option.
+   *
+   * The outline list follows through the deck sections effect below, and
+   * the change is saved with the next auto-save.
+   *
+   * @param key - Option to toggle.
+   */
+  const toggleDeckSection = (
+    key: "includeTitleSlide" | "includeTableOfContents",
+  ) => {
+    if (!uploadConfig) return;
+    setUploadConfig({ ...uploadConfig, [key]: !uploadConfig[key] });
+  };
+
+  /**
+   * Memoized layout options for per-slide overrides.
+   *
+   * Lists the selected template's layouts by ID and display name.
+   */
+  const layoutOptions = useMemo(
+    () =>
+      (selectedTemplate?.slides ?? []).flatMap((slide) =>
+        slide.id ? [{ id: slide.id, name: slide.name || slide.id }] : [],
+      ),
+    [selectedTemplate],
+  );
   
   // Manages presentation generation workflow
   // Validates inputs, calls prepare API, and navigates to presentation page
@@ -223,6 +276,7 @@ const OutlinePage: React.FC<OutlinePageProps> = ({
     outlines,
     selectedTemplate,
     () => {}, // setActiveTab callback (not used in outline page)
+    plannedLayouts,
   );
   
   // Refs for managing auto-save debouncing and scroll position
@@ -283,6 +337,9 @@ const OutlinePage: React.FC<OutlinePageProps> = ({
         const data = response as {
           outlines?: { slides?: Array<{ content?: unknown }> };
           layout?: { templateId?: string; name?: string; ordered?: boolean };
+          structure?: {
+            layouts?: Array<{ layout_id?: string | null; source?: string }>;
+          } | null;
           n_slides?: number | null;
           language?: string | null;
           tone?: string | null;
@@ -291,14 +348,27 @@ const OutlinePage: React.FC<OutlinePageProps> = ({
           include_table_of_contents?: boolean | null;
           include_title_slide?: boolean | null;
           web_search?: boolean | null;
+          brand_kit?: string | null;
           file_metadata?: FileMetadata[] | null;
         } | null;
         const outlineSlides = data?.outlines?.slides;
           if (Array.isArray(outlineSlides) && outlineSlides.length > 0) {
-            const mapped: OutlineSlide[] = outlineSlides.map((slide) => ({
-              id: createOutlineId(),
-              content: typeof slide.content === "string" ? slide.content : "",
-            }));
+            // Restore per-slide layout overrides saved by a previous prepare
+            const savedLayouts =
+              data?.structure?.layouts?.length === outlineSlides.length
+                ? data.structure.layouts
+                : [];
+            const mapped: OutlineSlide[] = outlineSlides.map((slide, index) => {
+              const saved = savedLayouts[index];
+              return {
+                id: createOutlineId(),
+                content: typeof slide.content === "string" ? slide.content : "",
+                layoutId:
+                  saved?.source === "user" && saved.layout_id
+                    ? saved.layout_id
+                    : undefined,
+              };
+            });
             setOutlines(mapped);
           }
           const templateId = data?.layout?.templateId || data?.layout?.name;
@@ -336,6 +406,7 @@ const OutlinePage: React.FC<OutlinePageProps> = ({
                 data.include_table_of_contents ?? false,
               includeTitleSlide: data.include_title_slide ?? true,
               webSearch: data.web_search ?? false,
+              brandKitId: data.brand_kit ?? null,
             });
           }
       })
@@ -372,6 +443,43 @@ const OutlinePage: React.FC<OutlinePageProps> = ({
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [templates, defaultTemplate, initialTemplateId, setSelectedTemplateId]);
 
+  /**
+   * Effect: Keep the title slide and agenda in line with the deck options.
+   *
+   * Runs whenever outlines change (reorder, add, edit, delete) or an option
+   * is toggled, once outlines are no longer streaming. The agenda is rebuilt
+   * from the current outline titles, and outlines are only replaced when
+   * something actually changed.
+   */
+  useEffect(() => {
+    if (!uploadConfig || !outlines.length) return;
+    if (
+      pendingState.isLoading ||
+      streamState.isLoading ||
+      streamState.isStreaming
+    ) {
+      return;
+    }
+    const next = applyDeckSections(outlines, deckSections, (content) => ({
+      id: createOutlineId(),
+      content,
+    }));
+    const changed =
+      next.length !== outlines.length ||
+      next.some((outline, index) => outline !== outlines[index]);
+    if (changed) {
+      setOutlines(next);
+    }
+  }, [
+    outlines,
+    deckSections,
+    uploadConfig,
+    pendingState.isLoading,
+    streamState.isLoading,
+    streamState.isStreaming,
+    setOutlines,
+  ]);
+
   /**
    * Effect: Auto-save outline changes to database.
    *
@@ -423,6 +531,7 @@ const OutlinePage: React.FC<OutlinePageProps> = ({
         uploadConfig?.includeTableOfContents ?? undefined,
       include_title_slide: uploadConfig?.includeTitleSlide ?? undefined,
       web_search: uploadConfig?.webSearch ?? undefined,
+      brand_kit: uploadConfig ? uploadConfig.brandKitId : undefined,
     };
 
     // Check if payload has changed to avoid unnecessary saves
@@ -569,6 +678,34 @@ const OutlinePage: React.FC<OutlinePageProps> = ({
               <span className="h-1.5 w-1.5 rounded-full bg-accent" />
               {outlines.length} slides
             </span>
+            <button
+              type="button"
+              onClick={() => toggleDeckSection("includeTitleSlide")}
+              disabled={!uploadConfig || streamState.isStreaming}
+              aria-pressed={deckSections.includeTitleSlide}
+              className={`inline-flex items-center gap-1.5 rounded-full border px-3 py-1.5 text-xs shadow-sm transition-colors disabled:opacity-50 ${
+                deckSections.includeTitleSlide
+                  ? "border-accent/40 bg-accent/10 text-accent"
+                  : "border-bg-200 bg-bg-100/80 text-text-300 hover:border-bg-300"
+              }`}
+            >
+              <Presentation className="w-3.5 h-3.5" />
+              Title slide
+            </button>
+            <button
+              type="button"
+              onClick={() => toggleDeckSection("includeTableOfContents")}
+              disabled={!uploadConfig || streamState.isStreaming}
+              aria-pressed={deckSections.includeTableOfContents}
+              className={`inline-flex items-center gap-1.5 rounded-full border px-3 py-1.5 text-xs shadow-sm transition-colors disabled:opacity-50 ${
+                deckSections.includeTableOfContents
+                  ? "border-accent/40 bg-accent/10 text-accent"
+                  : "border-bg-200 bg-bg-100/80 text-text-300 hover:border-bg-300"
+              }`}
+            >
+              <ListOrdered className="w-3.5 h-3.5" />
+              Agenda
+            </button>
             {selectedTemplate?.name && (
               <span className="inline-flex items-center gap-2 rounded-full border border-bg-200 bg-bg-100/80 backdrop-blur-sm px-3 py-1.5 text-xs text-text-300 shadow-sm hover:border-bg-300 transition-colors">
                 Template: {selectedTemplate.name}
@@ -623,6 +760,10 @@ const OutlinePage: React.FC<OutlinePageProps> = ({
           onDeleteSlide={handleDeleteSlide}
           onAddSlide={handleAddSlide}
           statusMessage={getLoadingStatusMessage()}
+          layoutOptions={layoutOptions}
+          plannedLayouts={plannedLayouts}
+          onChangeLayout={handleSetSlideLayout}
+          deckSections={deckSections}
         />
       </div>
 
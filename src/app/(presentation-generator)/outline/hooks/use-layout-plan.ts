@@ -0,0 +1,91 @@
+/**
+ * React hook for previewing the layout planned for each outline slide.
+ *
+ * Sends the current outlines and selected template to the layout-plan
+ * endpoint (debounced) and keeps the result keyed by outline ID, so the
+ * outline editor can show which layout each slide will get before the user
+ * generates the presentation.
+ */
+
+import { useEffect, useRef, useState } from "react";
+import { PresentationGenerationApi } from "../../services/api/presentation-generation";
+import { OutlineSlide, PlannedLayout, Template } from "../types/index";
+
+/**
+ * Delay before re-planning after outlines or the template change.
+ */
+const PLAN_DEBOUNCE_MS = 1500;
+
+/**
+ * Hook for planning layouts from outline content.
+ *
+ * Re-plans whenever outline content or the selected template changes, but
+ * not while `enabled` is false (e.g. during outline streaming). Layout
+ * overrides set by the user are not sent; they take precedence over the plan
+ * when displayed and when generating.
+ *
+ * @param outlines - Current outline slides.
+ * @param selectedTemplate - Selected template whose layouts are planned, or null.
+ * @param enabled - Whether planning may run.
+ * @returns Object containing plannedLayouts (planned layout per outline ID)
+ *   and isPlanning flag.
+ */
+export const useLayoutPlan = (
+  outlines: OutlineSlide[],
+  selectedTemplate: Template | null,
+  enabled: boolean,
+) => {
+  const [plannedLayouts, setPlannedLayouts] = useState<
+    Record<string, PlannedLayout>
+  >({});
+  const [isPlanning, setIsPlanning] = useState(false);
+  const planHashRef = useRef("");
+
+  useEffect(() => {
+    if (!enabled || !selectedTemplate?.slides?.length || !outlines.length) {
+      return;
+    }
+
+    const outlinesPayload = outlines.map((outline) => ({
+      content: outline.content,
+    }));
+    const payloadHash = JSON.stringify([selectedTemplate.id, outlinesPayload]);
+    if (payloadHash === planHashRef.current) return;
+
+    const outlineIds = outlines.map((outline) => outline.id);
+    let cancelled = false;
+    const timer = setTimeout(() => {
+      setIsPlanning(true);
+      PresentationGenerationApi.planLayouts({
+        outlines: outlinesPayload,
+        layout: {
+          name: selectedTemplate.name,
+          ordered: selectedTemplate.ordered,
+          slides: selectedTemplate.slides,
+        },
+      })
+        .then((response) => {
+          if (cancelled) return;
+          planHashRef.current = payloadHash;
+          const planned: Record<string, PlannedLayout> = {};
+          (response?.layouts ?? []).forEach((choice, index) => {
+            if (outlineIds[index]) planned[outlineIds[index]] = choice;
+          });
+          setPlannedLayouts(planned);
+        })
+        .catch((error) => {
+          console.error("Layout planning failed", error);
+        })
+        .finally(() => {
+          if (!cancelled) setIsPlanning(false);
+        });
+    }, PLAN_DEBOUNCE_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [outlines, selectedTemplate, enabled]);
+
+  return { plannedLayouts, isPlanning };
+};
@@ -5,6 +5,7 @@
  * - Reordering slides (drag-and-drop)
  * - Adding new slides
  * - Updating slide content
+ * - Overriding a slide's layout
  * - Deleting slides
  *
  * All operations update the Zustand store, which triggers reactive updates
@@ -32,6 +33,7 @@ import { createOutlineId } from "../utils/outline-ids";
  *   - commitReorder: Function to save reordered outline array
  *   - handleAddSlide: Function to add a new slide at the end
  *   - handleUpdateSlide: Function to update a slide's content by ID
+ *   - handleSetSlideLayout: Function to set or clear a slide's layout override
  *   - handleDeleteSlide: Function to delete a slide by ID
  */
 export const useOutlineManagement = (outlines: OutlineSlide[] | null) => {
@@ -91,6 +93,25 @@ export const useOutlineManagement = (outlines: OutlineSlide[] | null) => {
     [outlines, setOutlines],
   );
 
+  /**
+   * Sets or clears the layout override for a specific slide by ID.
+   *
+   * Passing undefined returns the slide to automatic layout planning.
+   *
+   * @param id - Unique identifier of the slide to update.
+   * @param layoutId - ID of the layout to use, or undefined for automatic.
+   */
+  const handleSetSlideLayout = useCallback(
+    (id: string, layoutId: string | undefined) => {
+      if (!outlines) return;
+      const updatedOutlines = outlines.map((outline) =>
+        outline.id === id ? { ...outline, layoutId } : outline,
+      );
+      setOutlines(updatedOutlines);
+    },
+    [outlines, setOutlines],
+  );
+
   /**
    * Deletes a slide from the outline list by ID.
    *
@@ -110,6 +131,7 @@ export const useOutlineManagement = (outlines: OutlineSlide[] | null) => {
     commitReorder,
     handleAddSlide,
     handleUpdateSlide,
+    handleSetSlideLayout,
     handleDeleteSlide,
   };
 };
@@ -164,6 +164,7 @@ export const usePendingUpload = (
               pendingUpload.config.includeTableOfContents,
             include_title_slide: pendingUpload.config.includeTitleSlide,
             web_search: pendingUpload.config.webSearch,
+            brand_kit: pendingUpload.config.brandKitId,
           })) as { id: string };
 
         // Update store with new presentation ID
@@ -11,7 +11,13 @@ import { useRouter } from "next/navigation";
 import { toast } from "sonner";
 import { usePresentationDataStore } from "@/stores";
 import { PresentationGenerationApi } from "../../services/api/presentation-generation";
-import { Template, LoadingState, TABS, OutlineSlide } from "../types/index";
+import {
+  Template,
+  LoadingState,
+  TABS,
+  OutlineSlide,
+  PlannedLayout,
+} from "../types/index";
 import { MixpanelEvent, trackEvent } from "@/utils/mixpanel";
 
 /**
@@ -36,6 +42,8 @@ const DEFAULT_LOADING_STATE: LoadingState = {
  * @param outlines - Array of outline slides to generate from, or null.
  * @param selectedTemplate - Selected template for generation, or null.
  * @param setActiveTab - Callback to switch active tab (e.g., to layouts tab).
+ * @param plannedLayouts - Layouts previewed per outline ID. Sent with user
+ *   overrides so generation uses the layouts shown in the outline editor.
  * @returns Object containing isSubmitting flag, loadingState, and
  *   generatePresentation function.
  */
@@ -44,6 +52,7 @@ export const usePresentationGeneration = (
   outlines: OutlineSlide[] | null,
   selectedTemplate: Template | null,
   setActiveTab: (tab: string) => void,
+  plannedLayouts: Record<string, PlannedLayout> = {},
 ) => {
   const clearPresentationData = usePresentationDataStore((state) => state.clearPresentationData);
   const router = useRouter();
@@ -132,6 +141,17 @@ export const usePresentationGeneration = (
       const outlinesPayload = outlines.map((outline) => ({
         content: outline.content,
       }));
+      // User overrides win; otherwise keep the previewed layout. Slides
+      // without either are planned by the server
+      const structurePayload = outlines.map((outline) => {
+        if (outline.layoutId) {
+          return { layout_id: outline.layoutId, source: "user" };
+        }
+        const planned = plannedLayouts[outline.id];
+        return planned?.layout_id
+          ? { layout_id: planned.layout_id, source: planned.source }
+          : null;
+      });
 
       // Wait for prepare API to complete before navigating
       // This ensures layout data is saved to DB before streaming starts
@@ -142,6 +162,7 @@ export const usePresentationGeneration = (
         presentation_id: presentationId,
         outlines: outlinesPayload,
         layout: layoutData,
+        structure: structurePayload,
       });
 
       if (response) {
@@ -163,6 +184,7 @@ export const usePresentationGeneration = (
     prepareLayoutData,
     presentationId,
     outlines,
+    plannedLayouts,
     clearPresentationData,
     router,
     selectedTemplate,
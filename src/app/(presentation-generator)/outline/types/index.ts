@@ -80,10 +80,26 @@ export interface LoadingState {
  *
  * @property id - Unique identifier for the outline slide.
  * @property content - Text content describing what should be on this slide.
+ * @property layoutId - Optional layout chosen by the user for this slide.
+ *   When unset, the layout is planned from the content.
  */
 export type OutlineSlide = {
   id: string;
   content: string;
+  layoutId?: string;
+};
+
+/**
+ * Layout planned for a single outline by the layout-plan endpoint.
+ *
+ * @property index - Index of the layout within the selected template.
+ * @property layout_id - ID of the planned layout, or null if it has none.
+ * @property source - How the layout was chosen ("llm", "keyword" or "user").
+ */
+export type PlannedLayout = {
+  index: number;
+  layout_id: string | null;
+  source: "llm" | "keyword" | "user";
 };
 
 export const TABS = {
@@ -119,6 +119,7 @@ const PresentationPage = ({ presentation_id }: { presentation_id: string }) => {
                     <div
                       key={index}
                       className="w-full"
+                      data-slide-id={slide.id}
                       data-speaker-note={slide.speaker_note}
                     >
                       {renderSlideContent(slide, true)}
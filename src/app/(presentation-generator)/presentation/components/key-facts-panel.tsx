@@ -0,0 +1,268 @@
+import React, { useCallback, useEffect, useState } from "react";
+import { Loader2, Plus, Sparkles, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Sheet,
+  SheetContent,
+  SheetHeader,
+  SheetTitle,
+} from "@/components/ui/sheet";
+import { usePresentationDataStore } from "@/stores";
+import { KeyFactsApi, KeyFactsState } from "../../services/api/key-facts";
+import type { KeyFact } from "../../services/api/types";
+
+/**
+ * Fact being edited. `key` is empty for facts added in the panel; the
+ * server derives it from the label.
+ */
+type DraftFact = Pick<KeyFact, "key" | "label" | "value">;
+
+interface KeyFactsPanelProps {
+  presentationId: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+/**
+ * Key facts panel of the editor.
+ *
+ * Lists the presentation's key figures with the slides that show each one.
+ * Saving a changed value rewrites it on those slides, and the updated
+ * slides replace their copies in the editor.
+ */
+const KeyFactsPanel = ({
+  presentationId,
+  open,
+  onOpenChange,
+}: KeyFactsPanelProps) => {
+  const [state, setState] = useState<KeyFactsState | null>(null);
+  const [drafts, setDrafts] = useState<DraftFact[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [extracting, setExtracting] = useState(false);
+
+  const adopt = (next: KeyFactsState) => {
+    setState(next);
+    setDrafts(
+      next.facts.map(({ key, label, value }) => ({ key, label, value })),
+    );
+  };
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    try {
+      adopt(await KeyFactsApi.getKeyFacts(presentationId));
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : "Failed to load key facts",
+      );
+    } finally {
+      setLoading(false);
+    }
+  }, [presentationId]);
+
+  useEffect(() => {
+    if (open) load();
+  }, [open, load]);
+
+  const updateDraft = (index: number, change: Partial<DraftFact>) => {
+    setDrafts((previous) =>
+      previous.map((fact, i) => (i === index ? { ...fact, ...change } : fact)),
+    );
+  };
+
+  const extract = async () => {
+    setExtracting(true);
+    try {
+      adopt(await KeyFactsApi.extractKeyFacts(presentationId));
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : "Failed to extract key facts",
+      );
+    } finally {
+      setExtracting(false);
+    }
+  };
+
+  const save = async () => {
+    if (!state) return;
+    setSaving(true);
+    try {
+      const saved = await KeyFactsApi.updateKeyFacts(
+        presentationId,
+        state.version,
+        drafts
+          .filter((fact) => fact.label.trim() && fact.value.trim())
+          .map((fact) => ({ ...fact, key: fact.key || fact.label })),
+      );
+      adopt(saved);
+      // Slides may have moved since the panel was opened
+      const { presentationData, updateSlide } =
+        usePresentationDataStore.getState();
+      for (const slide of saved.updated_slides) {
+        const index =
+          presentationData?.slides.findIndex(({ id }) => id === slide.id) ??
+          -1;
+        if (index >= 0) updateSlide(index, { ...slide, index });
+      }
+      const updated = saved.updated_slides.length;
+      toast.success(
+        updated > 0
+          ? `Key facts saved and ${updated} slide${updated === 1 ? "" : "s"} updated`
+          : "Key facts saved",
+      );
+      if (saved.skipped_slides?.length) {
+        toast.warning(
+          `${saved.skipped_slides.length} slide(s) changed meanwhile and were not updated`,
+        );
+      }
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : "Failed to save key facts",
+      );
+      load();
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  /**
+   * Slide numbers showing a fact, e.g. "Slides 3, 7".
+   */
+  const describeUsage = (key: string) => {
+    const slides = [
+      ...new Set(
+        (state?.bindings ?? [])
+          .filter((binding) => binding.key === key)
+          .map((binding) => binding.slide_index + 1),
+      ),
+    ];
+    if (slides.length === 0) return "Not on any slide";
+    return `${slides.length === 1 ? "Slide" : "Slides"} ${slides.join(", ")}`;
+  };
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent
+        side="right"
+        className="w-full sm:max-w-[480px] overflow-y-auto"
+      >
+        <SheetHeader>
+          <SheetTitle>Key facts</SheetTitle>
+        </SheetHeader>
+
+        <div className="space-y-4 mt-4">
+          <p className="text-sm text-text-400">
+            Every slide states these figures the same way. Changing a value
+            updates it on each slide that shows it.
+          </p>
+
+          {loading && !state ? (
+            <div className="flex justify-center py-6">
+              <Loader2 className="w-5 h-5 animate-spin text-text-400" />
+            </div>
+          ) : (
+            <>
+              {drafts.length === 0 && (
+                <p className="text-sm text-text-400 text-center py-4">
+                  {state?.extracted
+                    ? "No key facts were found in your content."
+                    : "Key facts are extracted when slides are generated."}
+                </p>
+              )}
+              <ul className="space-y-3">
+                {drafts.map((fact, index) => (
+                  <li
+                    key={fact.key || `new-${index}`}
+                    className="rounded-lg border border-bg-200 p-3 space-y-2"
+                  >
+                    <div className="flex items-center gap-2">
+                      <Input
+                        aria-label="Label"
+                        placeholder="e.g. ARR"
+                        value={fact.label}
+                        onChange={(e) =>
+                          updateDraft(index, { label: e.target.value })
+                        }
+                        className="w-32"
+                      />
+                      <Input
+                        aria-label="Value"
+                        placeholder="e.g. $1.2M"
+                        value={fact.value}
+                        onChange={(e) =>
+                          updateDraft(index, { value: e.target.value })
+                        }
+                        className="flex-1"
+                      />
+                      <button
+                        aria-label="Remove fact"
+                        onClick={() =>
+                          setDrafts((previous) =>
+                            previous.filter((_, i) => i !== index),
+                          )
+                        }
+                        className="p-2 rounded-lg text-text-400 hover:text-red-600 hover:bg-bg-200/50 transition-colors"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </div>
+                    {fact.key && (
+                      <p className="text-xs text-text-400">
+                        {describeUsage(fact.key)}
+                        {state?.facts.find((item) => item.key === fact.key)
+                          ?.source === "user" && " · edited by you"}
+                      </p>
+                    )}
+                  </li>
+                ))}
+              </ul>
+
+              <div className="flex gap-2">
+                <Button
+                  variant="outline"
+                  onClick={() =>
+                    setDrafts((previous) => [
+                      ...previous,
+                      { key: "", label: "", value: "" },
+                    ])
+                  }
+                  className="rounded-lg border-bg-200 text-text-200 hover:bg-bg-200/50"
+                >
+                  <Plus className="w-4 h-4" />
+                  Add fact
+                </Button>
+                <Button
+                  variant="outline"
+                  onClick={extract}
+                  disabled={extracting || saving}
+                  className="rounded-lg border-bg-200 text-text-200 hover:bg-bg-200/50"
+                >
+                  {extracting ? (
+                    <Loader2 className="w-4 h-4 animate-spin" />
+                  ) : (
+                    <Sparkles className="w-4 h-4" />
+                  )}
+                  Extract again
+                </Button>
+              </div>
+
+              <Button
+                onClick={save}
+                disabled={!state || saving || extracting}
+                className="w-full rounded-lg bg-accent text-white hover:bg-accent-hover"
+              >
+                {saving && <Loader2 className="w-4 h-4 animate-spin" />}
+                Save and update slides
+              </Button>
+            </>
+          )}
+        </div>
+      </SheetContent>
+    </Sheet>
+  );
+};
+
+export default KeyFactsPanel;
@@ -10,6 +10,12 @@ import {
   Check,
   RefreshCw,
   Cloud,
+  CloudOff,
+  Square,
+  Share2,
+  ClipboardCheck,
+  Hash,
+  Shapes,
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import {
@@ -25,8 +31,17 @@ import { useRouter, usePathname } from "next/navigation";
 import { trackEvent, MixpanelEvent } from "@/utils/mixpanel";
 import { usePresentationUndoRedo } from "../hooks/presentation-undo-redo";
 import ToolTip from "@/components/tool-tip";
-import { useUndoRedoStore, usePresentationUIStore, usePresentationDataStore } from "@/stores";
+import {
+  useUndoRedoStore,
+  usePresentationUIStore,
+  usePresentationDataStore,
+  useCollaborationStore,
+} from "@/stores";
 import { cn } from "@/lib/utils";
+import SharePanel from "./share-panel";
+import ReviewPanel from "./review-panel";
+import KeyFactsPanel from "./key-facts-panel";
+import TemplateSwitchPanel from "./template-switch-panel";
 
 const PDFIMAGE = "/pdf.svg";
 const PPTXIMAGE = "/pptx.svg";
@@ -57,6 +72,8 @@ interface PresentationActionsProps {
   currentSlide?: number;
   isSaving?: boolean;
   lastSavedAt?: Date | null;
+  /** Saves pending edits, so exports read the latest slides */
+  onSave?: () => Promise<void>;
 }
 
 const PresentationActions: React.FC<PresentationActionsProps> = ({
@@ -64,9 +81,14 @@ const PresentationActions: React.FC<PresentationActionsProps> = ({
   currentSlide,
   isSaving,
   lastSavedAt,
+  onSave,
 }) => {
   const [open, setOpen] = useState(false);
   const [showLoader, setShowLoader] = useState(false);
+  const [shareOpen, setShareOpen] = useState(false);
+  const [reviewOpen, setReviewOpen] = useState(false);
+  const [keyFactsOpen, setKeyFactsOpen] = useState(false);
+  const [templateOpen, setTemplateOpen] = useState(false);
   const router = useRouter();
   const pathname = usePathname();
   
@@ -74,6 +96,7 @@ const PresentationActions: React.FC<PresentationActionsProps> = ({
   const presentationData = usePresentationDataStore((state) => state.presentationData);
   const clearPresentationData = usePresentationDataStore((state) => state.clearPresentationData);
   const isStreaming = usePresentationUIStore((state) => state.isStreaming);
+  const collabStatus = useCollaborationStore((state) => state.status);
 
   const { onUndo, onRedo, canUndo, canRedo } = usePresentationUndoRedo();
 
@@ -102,9 +125,7 @@ const PresentationActions: React.FC<PresentationActionsProps> = ({
       setOpen(false);
       setShowLoader(true);
       trackEvent(MixpanelEvent.Header_UpdatePresentationContent_API_Call);
-      await PresentationGenerationApi.updatePresentationContent(
-        presentationData,
-      );
+      await onSave?.();
       trackEvent(MixpanelEvent.Header_GetPptxModel_API_Call);
       const pptx_model = await get_presentation_pptx_model(presentation_id);
       if (!pptx_model) {
@@ -139,9 +160,7 @@ const PresentationActions: React.FC<PresentationActionsProps> = ({
       setOpen(false);
       setShowLoader(true);
       trackEvent(MixpanelEvent.Header_UpdatePresentationContent_API_Call);
-      await PresentationGenerationApi.updatePresentationContent(
-        presentationData,
-      );
+      await onSave?.();
 
       trackEvent(MixpanelEvent.Header_ExportAsPDF_API_Call);
       const response = await fetch("/api/v1/exports/pdf", {
@@ -179,6 +198,17 @@ const PresentationActions: React.FC<PresentationActionsProps> = ({
     router.push(`/presentation?id=${presentation_id}&stream=true`);
   };
 
+  const handleStopGeneration = async () => {
+    try {
+      await PresentationGenerationApi.cancelGeneration(presentation_id);
+    } catch (error) {
+      toast.error("Could not stop generation", {
+        description:
+          error instanceof Error ? error.message : "Please try again.",
+      });
+    }
+  };
+
   const downloadLink = (path: string) => {
     if (!path) {
       throw new Error("Download path is undefined");
@@ -213,6 +243,13 @@ const PresentationActions: React.FC<PresentationActionsProps> = ({
 
   // Determine save status
   const getSaveStatus = () => {
+    if (collabStatus === "offline") {
+      return {
+        icon: <CloudOff className="h-3.5 w-3.5" />,
+        text: "Offline, reconnecting...",
+        className: "text-amber-700 border-amber-300 bg-amber-50",
+      };
+    }
     if (isSaving) {
       return {
         icon: <Loader2 className="h-3.5 w-3.5 animate-spin" />,
@@ -229,7 +266,7 @@ const PresentationActions: React.FC<PresentationActionsProps> = ({
     }
     return {
       icon: <Cloud className="h-3.5 w-3.5" />,
-      text: "Auto-save enabled",
+      text: collabStatus === "connected" ? "Live editing" : "Auto-save enabled",
       className: "text-text-400 border-bg-200 bg-bg-100/80",
     };
   };
@@ -256,11 +293,13 @@ const PresentationActions: React.FC<PresentationActionsProps> = ({
             <span
               className={cn(
                 "inline-flex items-center gap-1.5 text-xs transition-all duration-300",
-                isSaving
-                  ? "text-accent"
-                  : lastSavedAt
+                collabStatus === "offline"
+                  ? "text-amber-700"
+                  : isSaving
                     ? "text-accent"
-                    : "text-text-400",
+                    : lastSavedAt
+                      ? "text-accent"
+                      : "text-text-400",
               )}
             >
               {saveStatus.icon}
@@ -297,6 +336,18 @@ const PresentationActions: React.FC<PresentationActionsProps> = ({
             </ToolTip>
           </div>
 
+          {/* Stop generation */}
+          {isStreaming && (
+            <ToolTip content="Stop generating">
+              <button
+                onClick={handleStopGeneration}
+                className="p-2 rounded-lg border border-bg-200 bg-bg-100 text-text-300 hover:text-text-200 hover:bg-bg-200/50 transition-colors"
+              >
+                <Square className="w-4 h-4" />
+              </button>
+            </ToolTip>
+          )}
+
           {/* Re-generate */}
           <ToolTip content="Re-generate presentation">
             <button
@@ -322,6 +373,73 @@ const PresentationActions: React.FC<PresentationActionsProps> = ({
             <span className="hidden sm:inline">Present</span>
           </Button>
 
+          {/* Key facts button */}
+          <ToolTip content="Key facts">
+            <button
+              onClick={() => setKeyFactsOpen(true)}
+              disabled={isStreaming || !presentationData}
+              className="p-2 rounded-lg border border-bg-200 bg-bg-100 text-text-300 hover:text-text-200 hover:bg-bg-200/50 transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+            >
+              <Hash className="w-4 h-4" />
+            </button>
+          </ToolTip>
+          <KeyFactsPanel
+            presentationId={presentation_id}
+            open={keyFactsOpen}
+            onOpenChange={setKeyFactsOpen}
+          />
+
+          {/* Change template button */}
+          <ToolTip content="Change template">
+            <button
+              onClick={() => setTemplateOpen(true)}
+              disabled={isStreaming || !presentationData}
+              className="p-2 rounded-lg border border-bg-200 bg-bg-100 text-text-300 hover:text-text-200 hover:bg-bg-200/50 transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+            >
+              <Shapes className="w-4 h-4" />
+            </button>
+          </ToolTip>
+          <TemplateSwitchPanel
+            presentationId={presentation_id}
+            open={templateOpen}
+            onOpenChange={setTemplateOpen}
+          />
+
+          {/* Review button */}
+          <ToolTip content="Investor-readiness review">
+            <button
+              onClick={() => setReviewOpen(true)}
+              disabled={isStreaming || !presentationData}
+              className="p-2 rounded-lg border border-bg-200 bg-bg-100 text-text-300 hover:text-text-200 hover:bg-bg-200/50 transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+            >
+              <ClipboardCheck className="w-4 h-4" />
+            </button>
+          </ToolTip>
+          <ReviewPanel
+            presentationId={presentation_id}
+            open={reviewOpen}
+            onOpenChange={setReviewOpen}
+          />
+
+          {/* Share button (links and members are managed by the owner) */}
+          {(presentationData?.role ?? "owner") === "owner" && (
+            <>
+              <Button
+                onClick={() => setShareOpen(true)}
+                variant="outline"
+                className="rounded-lg border-bg-200 text-text-200 hover:bg-bg-200/50 hover:border-bg-300"
+              >
+                <Share2 className="w-4 h-4" />
+                <span className="hidden sm:inline">Share</span>
+              </Button>
+              <SharePanel
+                presentationId={presentation_id}
+                open={shareOpen}
+                onOpenChange={setShareOpen}
+              />
+            </>
+          )}
+
           {/* Export dropdown */}
           <Popover open={open} onOpenChange={setOpen}>
             <PopoverTrigger asChild>
@@ -1,7 +1,12 @@
 "use client";
 import React, { useEffect, useState, useCallback } from "react";
-import { usePresentationUIStore, usePresentationDataStore } from "@/stores";
+import {
+  usePresentationUIStore,
+  usePresentationDataStore,
+  useCollaborationStore,
+} from "@/stores";
 import PresentationMode from "../../components/presentation-mode";
+import PresenterView from "../../components/presenter-view";
 import SidePanel from "./side-panel";
 import SlideContent from "./slide-content";
 import PresentationActions from "./presentation-actions";
@@ -14,7 +19,9 @@ import {
   usePresentationStreaming,
   usePresentationData,
   usePresentationNavigation,
+  usePresenterSync,
   useAutoSave,
+  useCollaboration,
   useScrollSync,
   useKeyboardShortcuts,
 } from "../hooks";
@@ -55,12 +62,6 @@ const PresentationPage: React.FC<PresentationPageProps> = ({
   const { visibleSlideIndex, scrollToSlide, isScrolling } =
     useScrollSync(slideCount);
 
-  // Auto-save functionality
-  const { isSaving, lastSavedAt } = useAutoSave({
-    debounceMs: 2000,
-    enabled: !!presentationData && !isStreaming,
-  });
-
   // Undo/Redo functionality
   const { onUndo, onRedo } = usePresentationUndoRedo();
 
@@ -73,7 +74,9 @@ const PresentationPage: React.FC<PresentationPageProps> = ({
 
   const {
     isPresentMode,
+    isPresenterMode,
     stream,
+    currentSlide,
     handleSlideClick: originalHandleSlideClick,
     toggleFullscreen,
     handlePresentExit,
@@ -85,6 +88,24 @@ const PresentationPage: React.FC<PresentationPageProps> = ({
     setIsFullscreen,
   );
 
+  // Live editing with other collaborators, when a collaboration server is
+  // configured; the presenter window only follows along
+  const { updatePresence } = useCollaboration(
+    presentation_id,
+    !isPresenterMode,
+  );
+  const collabStatus = useCollaborationStore((state) => state.status);
+  const pendingEdits = useCollaborationStore((state) => state.pendingCount);
+  const lastSyncedAt = useCollaborationStore((state) => state.lastSyncedAt);
+
+  // Auto-save functionality (only without a collaboration session)
+  const { isSaving, lastSavedAt, saveNow } = useAutoSave({
+    debounceMs: 2000,
+    enabled: !!presentationData && !isStreaming,
+    saveToServer: collabStatus === "off" && !isPresenterMode,
+  });
+  const isLiveEditing = collabStatus !== "off";
+
   // Enhanced slide click handler that also scrolls to the slide
   const handleSlideClick = useCallback(
     (index: number) => {
@@ -124,15 +145,23 @@ const PresentationPage: React.FC<PresentationPageProps> = ({
       onPrevSlide: goToPrevSlide,
       onNextSlide: goToNextSlide,
       onPresentMode: enterPresentMode,
-      enabled: !isPresentMode && !loading,
+      enabled: !isPresentMode && !isPresenterMode && !loading,
     });
 
+  const isPresenting = isPresentMode || isPresenterMode;
+
   // Sync selectedSlide with visibleSlideIndex when scrolling (not user-initiated click)
   useEffect(() => {
+    if (isPresenting) return;
     if (!isScrolling && visibleSlideIndex !== selectedSlide) {
       setSelectedSlide(visibleSlideIndex);
     }
-  }, [visibleSlideIndex, isScrolling, selectedSlide]);
+  }, [isPresenting, visibleSlideIndex, isScrolling, selectedSlide]);
+
+  // While presenting, the slide in the URL is the one shown
+  useEffect(() => {
+    if (isPresenting) setSelectedSlide(currentSlide);
+  }, [isPresenting, currentSlide]);
 
   // Initialize streaming
   usePresentationStreaming(
@@ -144,10 +173,64 @@ const PresentationPage: React.FC<PresentationPageProps> = ({
     hasExistingData,
   );
 
+  // Tell collaborators which slide this tab is on
+  const visibleSlideId =
+    presentationData?.slides?.[visibleSlideIndex]?.id ?? null;
+  useEffect(() => {
+    updatePresence({ slide_id: visibleSlideId });
+  }, [visibleSlideId, updatePresence]);
+
+  const handleSlidesPointerMove = (event: React.PointerEvent) => {
+    const slideElement = (event.target as Element).closest<HTMLElement>(
+      "[data-slide-id]",
+    );
+    if (!slideElement) {
+      updatePresence({ pointer: null });
+      return;
+    }
+    const rect = slideElement.getBoundingClientRect();
+    updatePresence({
+      slide_id: slideElement.dataset.slideId ?? null,
+      pointer: {
+        x: (event.clientX - rect.left) / rect.width,
+        y: (event.clientY - rect.top) / rect.height,
+      },
+    });
+  };
+
+  const handleSlidesFocus = (event: React.FocusEvent) => {
+    const field = (event.target as Element).closest<HTMLElement>(
+      "[data-collab-path]",
+    );
+    updatePresence({ data_path: field?.dataset.collabPath ?? null });
+  };
+
   const onSlideChange = (newSlide: number) => {
     handleSlideChange(newSlide, presentationData);
   };
 
+  // Keep the audience and presenter windows on the same slide
+  usePresenterSync(
+    presentation_id,
+    selectedSlide,
+    (index) => handleSlideChange(index, presentationData),
+    isPresenting,
+  );
+
+  const openPresenterView = useCallback(() => {
+    window.open(
+      `/presentation?id=${presentation_id}&mode=presenter&slide=${selectedSlide}`,
+      `presenter-${presentation_id}`,
+      "popup,width=1280,height=800",
+    );
+  }, [presentation_id, selectedSlide]);
+
+  const closePresenterView = useCallback(() => {
+    // Only windows opened by script can close themselves
+    window.close();
+    if (!window.closed) handlePresentExit();
+  }, [handlePresentExit]);
+
   useEffect(() => {
     if (
       !loading &&
@@ -166,6 +249,18 @@ const PresentationPage: React.FC<PresentationPageProps> = ({
     }
   }, [presentationData, loading, isStreaming, getCustomTemplateFonts]);
 
+  // Presenter View (second window with notes and timer)
+  if (isPresenterMode) {
+    return (
+      <PresenterView
+        slides={presentationData?.slides ?? []}
+        currentSlide={selectedSlide}
+        onSlideChange={onSlideChange}
+        onExit={closePresenterView}
+      />
+    );
+  }
+
   // Presentation Mode View
   if (isPresentMode) {
     return (
@@ -176,6 +271,7 @@ const PresentationPage: React.FC<PresentationPageProps> = ({
         onFullscreenToggle={toggleFullscreen}
         onExit={handlePresentExit}
         onSlideChange={onSlideChange}
+        onOpenPresenter={openPresenterView}
       />
     );
   }
@@ -235,8 +331,9 @@ const PresentationPage: React.FC<PresentationPageProps> = ({
         <PresentationActions
           presentation_id={presentation_id}
           currentSlide={visibleSlideIndex}
-          isSaving={isSaving}
-          lastSavedAt={lastSavedAt}
+          isSaving={isLiveEditing ? pendingEdits > 0 : isSaving}
+          lastSavedAt={isLiveEditing ? lastSyncedAt : lastSavedAt}
+          onSave={saveNow}
         />
       }
       contentClassName="gap-4"
@@ -257,6 +354,10 @@ const PresentationPage: React.FC<PresentationPageProps> = ({
           <div
             id="presentation-slides-wrapper"
             className="mx-auto flex flex-col items-center overflow-hidden justify-center p-4 sm:p-8"
+            onPointerMove={isLiveEditing ? handleSlidesPointerMove : undefined}
+            onPointerLeave={() => updatePresence({ pointer: null })}
+            onFocus={handleSlidesFocus}
+            onBlur={() => updatePresence({ data_path: null })}
           >
             {presentationData &&
               presentationData.slides &&
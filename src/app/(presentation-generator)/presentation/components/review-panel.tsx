@@ -0,0 +1,248 @@
+import React, { useState } from "react";
+import { Check, ClipboardCheck, Loader2, Wand2 } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import {
+  Sheet,
+  SheetContent,
+  SheetHeader,
+  SheetTitle,
+} from "@/components/ui/sheet";
+import { cn } from "@/lib/utils";
+import { usePresentationDataStore } from "@/stores";
+import type { Slide } from "@/types/slide";
+import { PresentationGenerationApi } from "../../services/api/presentation-generation";
+import type { DeckReview, ReviewIssue } from "../../services/api/types";
+
+/**
+ * Colors of the finding severities.
+ */
+const SEVERITY_STYLES: Record<ReviewIssue["severity"], string> = {
+  error: "bg-red-500",
+  warning: "bg-amber-500",
+  info: "bg-sky-500",
+};
+
+/**
+ * Color of a score: green from 80, amber from 60, red below.
+ */
+const getScoreStyle = (score: number) =>
+  score >= 80
+    ? "text-emerald-700 bg-emerald-50"
+    : score >= 60
+      ? "text-amber-700 bg-amber-50"
+      : "text-red-700 bg-red-50";
+
+/**
+ * Turns a section key ("business_model") into a label ("Business model").
+ */
+const formatSection = (section: string) =>
+  section.charAt(0).toUpperCase() + section.slice(1).replace(/_/g, " ");
+
+interface ReviewPanelProps {
+  presentationId: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+/**
+ * Investor-readiness review panel of the editor.
+ *
+ * Runs the deck review on request and lists the deck score, missing
+ * sections and each slide's score and findings. Findings that editing the
+ * slide can fix have an Apply button, which sends their instruction to the
+ * AI slide edit.
+ */
+const ReviewPanel = ({ presentationId, open, onOpenChange }: ReviewPanelProps) => {
+  const [review, setReview] = useState<DeckReview | null>(null);
+  const [reviewing, setReviewing] = useState(false);
+  const [applying, setApplying] = useState<string | null>(null);
+  const [applied, setApplied] = useState<Set<string>>(new Set());
+
+  const runReview = async () => {
+    setReviewing(true);
+    try {
+      setReview(await PresentationGenerationApi.reviewPresentation(presentationId));
+      setApplied(new Set());
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : "Failed to review presentation",
+      );
+    } finally {
+      setReviewing(false);
+    }
+  };
+
+  const applyIssue = async (slideId: string, issue: ReviewIssue, key: string) => {
+    if (!issue.edit_prompt) return;
+    setApplying(key);
+    try {
+      const updated = (await PresentationGenerationApi.editSlide(
+        slideId,
+        issue.edit_prompt,
+      )) as Slide;
+      // The slide may have moved since the review
+      const { presentationData, updateSlide } =
+        usePresentationDataStore.getState();
+      const index =
+        presentationData?.slides.findIndex((slide) => slide.id === slideId) ??
+        -1;
+      if (updated && index >= 0) {
+        updateSlide(index, { ...updated, index });
+      }
+      setApplied((previous) => new Set(previous).add(key));
+      toast.success("Suggestion applied");
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : "Failed to apply suggestion",
+      );
+    } finally {
+      setApplying(null);
+    }
+  };
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent
+        side="right"
+        className="w-full sm:max-w-[560px] overflow-y-auto"
+      >
+        <SheetHeader>
+          <SheetTitle>Investor readiness</SheetTitle>
+        </SheetHeader>
+
+        <div className="space-y-5 mt-4">
+          <Button
+            onClick={runReview}
+            disabled={reviewing}
+            className="w-full rounded-lg bg-accent text-white hover:bg-accent-hover"
+          >
+            {reviewing ? (
+              <Loader2 className="w-4 h-4 animate-spin" />
+            ) : (
+              <ClipboardCheck className="w-4 h-4" />
+            )}
+            {review ? "Review again" : "Review deck"}
+          </Button>
+
+          {!review ? (
+            <p className="text-sm text-text-400 text-center py-4">
+              Scores each slide against what investors look for and suggests
+              fixes you can apply.
+            </p>
+          ) : (
+            <>
+              <div className="rounded-xl border border-bg-200 bg-bg-100 p-4 space-y-3">
+                <div className="flex items-center gap-3">
+                  <span
+                    className={cn(
+                      "text-2xl font-semibold tabular-nums px-3 py-1 rounded-lg",
+                      getScoreStyle(review.score),
+                    )}
+                  >
+                    {review.score}
+                  </span>
+                  <p className="text-sm text-text-300">
+                    {review.summary ??
+                      "Automated checks only; the reviewer was not available."}
+                  </p>
+                </div>
+                {review.issues.length > 0 && (
+                  <ul className="space-y-1.5">
+                    {review.issues.map((issue) => (
+                      <li
+                        key={issue.message}
+                        className="flex items-start gap-2 text-sm text-text-200"
+                      >
+                        <span
+                          className={cn(
+                            "mt-1.5 w-2 h-2 rounded-full flex-shrink-0",
+                            SEVERITY_STYLES[issue.severity],
+                          )}
+                        />
+                        {issue.message}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+
+              <ul className="space-y-3">
+                {review.slides.map((slide) => (
+                  <li
+                    key={slide.slide_id}
+                    className="rounded-lg border border-bg-200 p-3 space-y-2"
+                  >
+                    <div className="flex items-center gap-2">
+                      <span
+                        className={cn(
+                          "text-xs font-semibold tabular-nums px-1.5 py-0.5 rounded",
+                          getScoreStyle(slide.score),
+                        )}
+                      >
+                        {slide.score}
+                      </span>
+                      <span className="text-sm font-medium text-text-200 truncate">
+                        Slide {slide.slide_index + 1}
+                        {slide.title ? `: ${slide.title}` : ""}
+                      </span>
+                      {slide.section && (
+                        <span className="ml-auto text-[10px] uppercase tracking-wide text-text-400">
+                          {formatSection(slide.section)}
+                        </span>
+                      )}
+                    </div>
+                    {slide.issues.length === 0 ? (
+                      <p className="text-xs text-text-400">No findings.</p>
+                    ) : (
+                      <ul className="space-y-2">
+                        {slide.issues.map((issue, issueIndex) => {
+                          const key = `${slide.slide_id}:${issueIndex}`;
+                          return (
+                            <li key={key} className="flex items-start gap-2">
+                              <span
+                                className={cn(
+                                  "mt-1.5 w-2 h-2 rounded-full flex-shrink-0",
+                                  SEVERITY_STYLES[issue.severity],
+                                )}
+                              />
+                              <p className="flex-1 text-xs text-text-300">
+                                {issue.message}
+                              </p>
+                              {issue.edit_prompt &&
+                                (applied.has(key) ? (
+                                  <Check className="w-4 h-4 text-emerald-600 flex-shrink-0" />
+                                ) : (
+                                  <button
+                                    title={issue.edit_prompt}
+                                    disabled={applying !== null}
+                                    onClick={() =>
+                                      applyIssue(slide.slide_id, issue, key)
+                                    }
+                                    className="flex items-center gap-1 text-xs text-accent hover:underline disabled:opacity-50 flex-shrink-0"
+                                  >
+                                    {applying === key ? (
+                                      <Loader2 className="w-3 h-3 animate-spin" />
+                                    ) : (
+                                      <Wand2 className="w-3 h-3" />
+                                    )}
+                                    Apply
+                                  </button>
+                                ))}
+                            </li>
+                          );
+                        })}
+                      </ul>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            </>
+          )}
+        </div>
+      </SheetContent>
+    </Sheet>
+  );
+};
+
+export default ReviewPanel;
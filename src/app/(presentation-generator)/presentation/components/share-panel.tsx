@@ -0,0 +1,545 @@
+import React, { useCallback, useEffect, useState } from "react";
+import {
+  Check,
+  Copy,
+  Link2,
+  Loader2,
+  Lock,
+  Mail,
+  Trash2,
+  UserPlus,
+} from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Sheet,
+  SheetContent,
+  SheetHeader,
+  SheetTitle,
+} from "@/components/ui/sheet";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { cn } from "@/lib/utils";
+import { MembersApi } from "../../services/api/members";
+import { ShareApi } from "../../services/api/shares";
+import type {
+  PresentationMember,
+  ShareAnalytics,
+  ShareLinkSummary,
+} from "../../services/api/types";
+import { formatDuration } from "../../utils/pacing";
+
+/**
+ * Expiry choices offered when creating a link, in days (null = never).
+ */
+const EXPIRY_OPTIONS: { label: string; days: number | null }[] = [
+  { label: "Never", days: null },
+  { label: "1 day", days: 1 },
+  { label: "7 days", days: 7 },
+  { label: "30 days", days: 30 },
+];
+
+/**
+ * Labels and colors of the link statuses.
+ */
+const STATUS_STYLES: Record<ShareLinkSummary["status"], string> = {
+  active: "text-emerald-700 bg-emerald-50",
+  expired: "text-amber-700 bg-amber-50",
+  revoked: "text-text-400 bg-bg-200/60",
+};
+
+interface SharePanelProps {
+  presentationId: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+/**
+ * Share panel of the editor.
+ *
+ * The Links tab creates and revokes share links; the Views tab shows who
+ * opened the deck through them, how far each viewer got and how long they
+ * stayed on each slide. The People tab invites other users to edit the deck
+ * with the owner or to view it in the editor.
+ */
+const SharePanel = ({ presentationId, open, onOpenChange }: SharePanelProps) => {
+  const [analytics, setAnalytics] = useState<ShareAnalytics | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  const [label, setLabel] = useState("");
+  const [password, setPassword] = useState("");
+  const [requireEmail, setRequireEmail] = useState(false);
+  const [expiryDays, setExpiryDays] = useState<number | null>(null);
+  const [creating, setCreating] = useState(false);
+  const [copiedId, setCopiedId] = useState<string | null>(null);
+
+  const [members, setMembers] = useState<PresentationMember[]>([]);
+  const [inviteEmail, setInviteEmail] = useState("");
+  const [inviteRole, setInviteRole] =
+    useState<PresentationMember["role"]>("editor");
+  const [inviting, setInviting] = useState(false);
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    try {
+      const [shareAnalytics, memberList] = await Promise.all([
+        ShareApi.getShareAnalytics(presentationId),
+        MembersApi.listMembers(presentationId),
+      ]);
+      setAnalytics(shareAnalytics);
+      setMembers(memberList.members);
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : "Failed to load share links",
+      );
+    } finally {
+      setLoading(false);
+    }
+  }, [presentationId]);
+
+  useEffect(() => {
+    if (open) load();
+  }, [open, load]);
+
+  const copyLink = async (link: ShareLinkSummary) => {
+    await navigator.clipboard.writeText(ShareApi.getShareUrl(link.token));
+    setCopiedId(link.id);
+    setTimeout(() => setCopiedId(null), 1500);
+  };
+
+  const handleCreate = async (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    setCreating(true);
+    try {
+      const link = await ShareApi.createShareLink(presentationId, {
+        label: label.trim() || undefined,
+        password: password || undefined,
+        require_email: requireEmail,
+        expires_at: expiryDays
+          ? new Date(Date.now() + expiryDays * 86_400_000).toISOString()
+          : undefined,
+      });
+      await navigator.clipboard
+        .writeText(ShareApi.getShareUrl(link.token))
+        .catch(() => undefined);
+      toast.success("Link created and copied");
+      setLabel("");
+      setPassword("");
+      await load();
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : "Failed to create link",
+      );
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const handleRevoke = async (link: ShareLinkSummary) => {
+    try {
+      await ShareApi.revokeShareLink(link.id);
+      toast.success("Link revoked");
+      await load();
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : "Failed to revoke link",
+      );
+    }
+  };
+
+  const handleInvite = async (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (!inviteEmail.trim()) return;
+    setInviting(true);
+    try {
+      await MembersApi.inviteMember(
+        presentationId,
+        inviteEmail.trim(),
+        inviteRole,
+      );
+      toast.success("Member added");
+      setInviteEmail("");
+      await load();
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : "Failed to invite member",
+      );
+    } finally {
+      setInviting(false);
+    }
+  };
+
+  const handleRemoveMember = async (member: PresentationMember) => {
+    try {
+      await MembersApi.removeMember(presentationId, member.user_id);
+      toast.success("Member removed");
+      await load();
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : "Failed to remove member",
+      );
+    }
+  };
+
+  const links = analytics?.links ?? [];
+  const viewers = analytics?.viewers ?? [];
+  const slides = analytics?.slides ?? [];
+  const titles = analytics?.slide_titles ?? [];
+  const linkLabels = new Map(
+    links.map((link) => [link.id, link.label || "Untitled link"]),
+  );
+  const slideName = (index: number) =>
+    titles[index]
+      ? `Slide ${index + 1}: ${titles[index]}`
+      : `Slide ${index + 1}`;
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent
+        side="right"
+        className="w-full sm:max-w-[560px] overflow-y-auto"
+      >
+        <SheetHeader>
+          <SheetTitle>Share</SheetTitle>
+        </SheetHeader>
+
+        <Tabs defaultValue="links" className="w-full mt-4">
+          <TabsList className="grid w-full grid-cols-3">
+            <TabsTrigger value="links">Links</TabsTrigger>
+            <TabsTrigger value="views">
+              Views{viewers.length > 0 ? ` (${viewers.length})` : ""}
+            </TabsTrigger>
+            <TabsTrigger value="people">
+              People{members.length > 0 ? ` (${members.length})` : ""}
+            </TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="links" className="space-y-5 mt-4">
+            <form
+              onSubmit={handleCreate}
+              className="space-y-3 rounded-xl border border-bg-200 bg-bg-100 p-4"
+            >
+              <div className="space-y-1.5">
+                <Label htmlFor="share-label">Sent to</Label>
+                <Input
+                  id="share-label"
+                  placeholder="e.g. Acme Ventures"
+                  value={label}
+                  onChange={(e) => setLabel(e.target.value)}
+                />
+              </div>
+              <div className="space-y-1.5">
+                <Label htmlFor="share-password">Password (optional)</Label>
+                <Input
+                  id="share-password"
+                  type="password"
+                  autoComplete="new-password"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                />
+              </div>
+              <div className="flex flex-wrap items-center gap-x-5 gap-y-2 text-sm text-text-300">
+                <label className="flex items-center gap-2">
+                  <input
+                    type="checkbox"
+                    checked={requireEmail}
+                    onChange={(e) => setRequireEmail(e.target.checked)}
+                  />
+                  Ask for email
+                </label>
+                <label className="flex items-center gap-2">
+                  Expires
+                  <select
+                    value={expiryDays ?? ""}
+                    onChange={(e) =>
+                      setExpiryDays(
+                        e.target.value ? Number(e.target.value) : null,
+                      )
+                    }
+                    className="rounded-md border border-bg-200 bg-bg-100 px-2 py-1 text-text-200"
+                  >
+                    {EXPIRY_OPTIONS.map((option) => (
+                      <option key={option.label} value={option.days ?? ""}>
+                        {option.label}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+              </div>
+              <Button
+                type="submit"
+                disabled={creating}
+                className="w-full rounded-lg bg-accent text-white hover:bg-accent-hover"
+              >
+                {creating ? (
+                  <Loader2 className="w-4 h-4 animate-spin" />
+                ) : (
+                  <Link2 className="w-4 h-4" />
+                )}
+                Create link
+              </Button>
+            </form>
+
+            {loading && !analytics ? (
+              <div className="flex justify-center py-6">
+                <Loader2 className="w-5 h-5 animate-spin text-text-400" />
+              </div>
+            ) : links.length === 0 ? (
+              <p className="text-sm text-text-400 text-center py-4">
+                No share links yet.
+              </p>
+            ) : (
+              <ul className="space-y-2">
+                {links.map((link) => (
+                  <li
+                    key={link.id}
+                    className="rounded-lg border border-bg-200 p-3 flex items-center gap-3"
+                  >
+                    <div className="min-w-0 flex-1">
+                      <p className="flex items-center gap-2 text-sm font-medium text-text-200">
+                        <span className="truncate">
+                          {link.label || "Untitled link"}
+                        </span>
+                        {link.has_password && (
+                          <Lock className="w-3.5 h-3.5 text-text-400" />
+                        )}
+                        {link.require_email && (
+                          <Mail className="w-3.5 h-3.5 text-text-400" />
+                        )}
+                        <span
+                          className={cn(
+                            "text-[10px] uppercase tracking-wide px-1.5 py-0.5 rounded",
+                            STATUS_STYLES[link.status],
+                          )}
+                        >
+                          {link.status}
+                        </span>
+                      </p>
+                      <p className="text-xs text-text-400 mt-0.5">
+                        {link.views} {link.views === 1 ? "view" : "views"}
+                        {" · "}
+                        {link.viewers}{" "}
+                        {link.viewers === 1 ? "viewer" : "viewers"}
+                        {link.expires_at &&
+                          link.status === "active" &&
+                          ` · expires ${new Date(link.expires_at).toLocaleDateString()}`}
+                      </p>
+                    </div>
+                    {link.status === "active" && (
+                      <>
+                        <button
+                          onClick={() => copyLink(link)}
+                          className="p-1.5 rounded-md text-text-300 hover:text-text-200 hover:bg-bg-200/60 transition-colors"
+                          aria-label="Copy link"
+                        >
+                          {copiedId === link.id ? (
+                            <Check className="w-4 h-4 text-accent" />
+                          ) : (
+                            <Copy className="w-4 h-4" />
+                          )}
+                        </button>
+                        <button
+                          onClick={() => handleRevoke(link)}
+                          className="p-1.5 rounded-md text-text-300 hover:text-red-600 hover:bg-red-50 transition-colors"
+                          aria-label="Revoke link"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      </>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </TabsContent>
+
+          <TabsContent value="views" className="space-y-6 mt-4">
+            {viewers.length === 0 ? (
+              <p className="text-sm text-text-400 text-center py-4">
+                Nobody has opened a share link yet.
+              </p>
+            ) : (
+              <>
+                <section className="space-y-2">
+                  <h3 className="text-xs uppercase tracking-wide text-text-400">
+                    Viewers
+                  </h3>
+                  {viewers.map((viewer) => {
+                    const longest = Math.max(1, ...viewer.dwell_ms);
+                    return (
+                      <div
+                        key={viewer.email ?? viewer.viewer_id}
+                        className="rounded-lg border border-bg-200 p-3 space-y-2"
+                      >
+                        <div className="flex items-start justify-between gap-3">
+                          <div className="min-w-0">
+                            <p className="text-sm font-medium text-text-200 truncate">
+                              {viewer.email ??
+                                `Anonymous viewer ${viewer.viewer_id.slice(0, 6)}`}
+                            </p>
+                            <p className="text-xs text-text-400">
+                              {viewer.link_ids
+                                .map((id) => linkLabels.get(id))
+                                .filter(Boolean)
+                                .join(", ")}
+                              {" · "}
+                              {viewer.visits}{" "}
+                              {viewer.visits === 1 ? "visit" : "visits"}
+                              {" · last "}
+                              {new Date(viewer.last_seen_at).toLocaleString()}
+                            </p>
+                          </div>
+                          <div className="text-right shrink-0">
+                            <p className="text-sm tabular-nums text-text-200">
+                              {formatDuration(viewer.total_ms / 1000)}
+                            </p>
+                            <p
+                              className={cn(
+                                "text-xs",
+                                viewer.completed
+                                  ? "text-emerald-700"
+                                  : "text-text-400",
+                              )}
+                            >
+                              {viewer.completed
+                                ? "Reached the end"
+                                : `Stopped at slide ${viewer.furthest_slide + 1}`}
+                            </p>
+                          </div>
+                        </div>
+                        {/* One cell per slide, darker for longer dwell */}
+                        <div className="flex gap-0.5">
+                          {viewer.dwell_ms.map((dwell, index) => (
+                            <div
+                              key={index}
+                              title={`${slideName(index)} · ${formatDuration(
+                                dwell / 1000,
+                              )}`}
+                              className="h-3 flex-1 rounded-sm bg-accent"
+                              style={{
+                                opacity:
+                                  dwell > 0
+                                    ? 0.15 + (dwell / longest) * 0.85
+                                    : 0.06,
+                              }}
+                            />
+                          ))}
+                        </div>
+                      </div>
+                    );
+                  })}
+                </section>
+
+                <section className="space-y-2">
+                  <h3 className="text-xs uppercase tracking-wide text-text-400">
+                    Slides
+                  </h3>
+                  {slides.map((slide) => (
+                    <div
+                      key={slide.slide_index}
+                      className="flex items-center gap-3 text-sm"
+                    >
+                      <span className="w-6 text-right tabular-nums text-text-400">
+                        {slide.slide_index + 1}
+                      </span>
+                      <span className="flex-1 truncate text-text-200">
+                        {titles[slide.slide_index] ||
+                          slideName(slide.slide_index)}
+                      </span>
+                      <span className="text-xs text-text-400 tabular-nums">
+                        {slide.viewers} of {viewers.length} viewers
+                      </span>
+                      <span className="w-12 text-right text-xs tabular-nums text-text-300">
+                        {slide.viewers
+                          ? formatDuration(slide.average_ms / 1000)
+                          : "–"}
+                      </span>
+                    </div>
+                  ))}
+                </section>
+              </>
+            )}
+          </TabsContent>
+
+          <TabsContent value="people" className="space-y-5 mt-4">
+            <form
+              onSubmit={handleInvite}
+              className="space-y-3 rounded-xl border border-bg-200 bg-bg-100 p-4"
+            >
+              <div className="space-y-1.5">
+                <Label htmlFor="member-email">Email</Label>
+                <Input
+                  id="member-email"
+                  type="email"
+                  placeholder="name@company.com"
+                  value={inviteEmail}
+                  onChange={(e) => setInviteEmail(e.target.value)}
+                />
+              </div>
+              <label className="flex items-center gap-2 text-sm text-text-300">
+                Can
+                <select
+                  value={inviteRole}
+                  onChange={(e) =>
+                    setInviteRole(e.target.value as PresentationMember["role"])
+                  }
+                  className="rounded-md border border-bg-200 bg-bg-100 px-2 py-1 text-text-200"
+                >
+                  <option value="editor">edit</option>
+                  <option value="viewer">view</option>
+                </select>
+              </label>
+              <Button
+                type="submit"
+                disabled={inviting || !inviteEmail.trim()}
+                className="w-full rounded-lg bg-accent text-white hover:bg-accent-hover"
+              >
+                {inviting ? (
+                  <Loader2 className="w-4 h-4 animate-spin" />
+                ) : (
+                  <UserPlus className="w-4 h-4" />
+                )}
+                Invite
+              </Button>
+            </form>
+
+            {members.length === 0 ? (
+              <p className="text-sm text-text-400 text-center py-4">
+                Only you can open this presentation.
+              </p>
+            ) : (
+              <ul className="space-y-2">
+                {members.map((member) => (
+                  <li
+                    key={member.id}
+                    className="rounded-lg border border-bg-200 p-3 flex items-center gap-3"
+                  >
+                    <div className="min-w-0 flex-1">
+                      <p className="text-sm font-medium text-text-200 truncate">
+                        {member.name || member.email}
+                      </p>
+                      <p className="text-xs text-text-400 truncate">
+                        {member.name ? `${member.email} · ` : ""}
+                        {member.role === "editor" ? "Can edit" : "Can view"}
+                      </p>
+                    </div>
+                    <button
+                      onClick={() => handleRemoveMember(member)}
+                      className="p-1.5 rounded-md text-text-300 hover:text-red-600 hover:bg-red-50 transition-colors"
+                      aria-label="Remove member"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </TabsContent>
+        </Tabs>
+      </SheetContent>
+    </Sheet>
+  );
+};
+
+export default SharePanel;
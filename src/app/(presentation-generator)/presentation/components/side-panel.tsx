@@ -1,8 +1,12 @@
 "use client";
 import React, { useState, useEffect, useRef } from "react";
-import { ChevronLeft, GripVertical, Layers } from "lucide-react";
+import { ChevronLeft, GripVertical, Layers, MousePointer2 } from "lucide-react";
 import ToolTip from "@/components/tool-tip";
-import { usePresentationUIStore, usePresentationDataStore } from "@/stores";
+import {
+  usePresentationUIStore,
+  usePresentationDataStore,
+  useCollaborationStore,
+} from "@/stores";
 import {
   DndContext,
   closestCenter,
@@ -26,6 +30,7 @@ import { useTemplateLayouts } from "../../hooks/use-template-layouts";
 import { cn } from "@/lib/utils";
 import ScaledSlidePreview from "../../components/scaled-slide-preview";
 import { Slide } from "@/types/slide";
+import type { CollabPeer } from "@/utils/collab";
 
 interface SidePanelProps {
   selectedSlide: number;
@@ -36,6 +41,28 @@ interface SidePanelProps {
   loading: boolean;
 }
 
+// Initials shown in a collaborator's avatar
+const getInitials = (name: string) =>
+  name
+    .split(/[\s@.]+/)
+    .filter(Boolean)
+    .slice(0, 2)
+    .map((part) => part[0]?.toUpperCase())
+    .join("") || "?";
+
+// Avatar of a collaborator, with what they are doing as tooltip
+const PeerAvatar = ({ peer }: { peer: CollabPeer }) => (
+  <span
+    title={
+      peer.data_path ? `${peer.name} · editing ${peer.data_path}` : peer.name
+    }
+    className="w-5 h-5 rounded-full ring-2 ring-bg-100 flex items-center justify-center text-[9px] font-semibold text-white"
+    style={{ backgroundColor: peer.color }}
+  >
+    {getInitials(peer.name)}
+  </span>
+);
+
 // Sortable slide thumbnail component
 const SortableSlideItem = ({
   slide,
@@ -44,6 +71,7 @@ const SortableSlideItem = ({
   onSlideClick,
   renderSlideContent,
   isStreaming,
+  peers,
 }: {
   slide: Slide;
   index: number;
@@ -51,6 +79,7 @@ const SortableSlideItem = ({
   onSlideClick: (index: number) => void;
   renderSlideContent: (slide: Slide, isEditMode: boolean) => React.ReactElement;
   isStreaming: boolean;
+  peers: CollabPeer[];
 }) => {
   const {
     attributes,
@@ -121,7 +150,42 @@ const SortableSlideItem = ({
           <ScaledSlidePreview className="w-full h-full">
             {renderSlideContent(slide, false)}
           </ScaledSlidePreview>
+
+          {/* Live cursors of collaborators pointing at this slide */}
+          {peers.map(
+            (peer) =>
+              peer.pointer && (
+                <div
+                  key={peer.session_id}
+                  className="absolute z-30 pointer-events-none transition-[left,top] duration-75"
+                  style={{
+                    left: `${peer.pointer.x * 100}%`,
+                    top: `${peer.pointer.y * 100}%`,
+                  }}
+                >
+                  <MousePointer2
+                    className="w-3 h-3"
+                    style={{ color: peer.color, fill: peer.color }}
+                  />
+                  <span
+                    className="absolute left-2.5 top-2.5 px-1 rounded text-[8px] leading-tight text-white whitespace-nowrap"
+                    style={{ backgroundColor: peer.color }}
+                  >
+                    {peer.name}
+                  </span>
+                </div>
+              ),
+          )}
         </div>
+
+        {/* Collaborators on this slide */}
+        {peers.length > 0 && (
+          <div className="absolute bottom-2 right-2 z-20 flex -space-x-1.5">
+            {peers.map((peer) => (
+              <PeerAvatar key={peer.session_id} peer={peer} />
+            ))}
+          </div>
+        )}
       </div>
 
       {/* Slide title - truncated */}
@@ -154,6 +218,7 @@ const SidePanel = ({
   const presentationData = usePresentationDataStore((state) => state.presentationData);
   const setPresentationData = usePresentationDataStore((state) => state.setPresentationData);
   const isStreaming = usePresentationUIStore((state) => state.isStreaming);
+  const peers = useCollaborationStore((state) => state.peers);
   const { renderSlideContent } = useTemplateLayouts();
 
   // Handle mobile panel sync
@@ -312,6 +377,14 @@ const SidePanel = ({
               <span className="text-xs text-text-500 bg-bg-200/60 px-1.5 py-0.5 rounded-md tabular-nums">
                 {slides.length}
               </span>
+              {/* Everyone else editing this presentation */}
+              {peers.length > 0 && (
+                <div className="flex -space-x-1.5 ml-1">
+                  {peers.map((peer) => (
+                    <PeerAvatar key={peer.session_id} peer={peer} />
+                  ))}
+                </div>
+              )}
             </div>
 
             <button
@@ -351,6 +424,9 @@ const SidePanel = ({
                       onSlideClick={onSlideClick}
                       renderSlideContent={renderSlideContent}
                       isStreaming={!!isStreaming}
+                      peers={peers.filter(
+                        (peer) => !!slide.id && peer.slide_id === slide.id,
+                      )}
                     />
                   </div>
                 ))}
@@ -6,6 +6,9 @@ import {
   WandSparkles,
   StickyNote,
   SendHorizontal,
+  Link2,
+  FileText,
+  LayoutTemplate,
 } from "lucide-react";
 import {
   Popover,
@@ -23,9 +26,15 @@ import { trackEvent, MixpanelEvent } from "@/utils/mixpanel";
 const NewSlide = dynamic(() => import("../../components/new-slide"), {
   ssr: false,
 });
+const ChangeLayout = dynamic(() => import("../../components/change-layout"), {
+  ssr: false,
+});
 import { useUndoRedoStore, usePresentationUIStore, usePresentationDataStore } from "@/stores";
 import { cn } from "@/lib/utils";
 import ScaledSlidePreview from "../../components/scaled-slide-preview";
+import SlideHistory from "./slide-history";
+import SlideRegenerate from "./slide-regenerate";
+import SpeakerNotesPane from "./speaker-notes-pane";
 
 import { Slide } from "@/types/slide";
 
@@ -41,9 +50,14 @@ const SlideContent = ({ slide, index, presentationId }: SlideContentProps) => {
   const updateSlide = usePresentationDataStore((state) => state.updateSlide);
   const deletePresentationSlide = usePresentationDataStore((state) => state.deletePresentationSlide);
   const isStreaming = usePresentationUIStore((state) => state.isStreaming);
+  const isRegenerating = usePresentationUIStore(
+    (state) => !!slide.id && state.regeneratingSlideIds.includes(slide.id),
+  );
   
   const [isUpdating, setIsUpdating] = useState(false);
   const [showNewSlideSelection, setShowNewSlideSelection] = useState(false);
+  const [showLayoutSelection, setShowLayoutSelection] = useState(false);
+  const [showNotes, setShowNotes] = useState(false);
   const prevSlideCountRef = useRef(0);
 
   // Use the centralized group layouts hook
@@ -122,8 +136,8 @@ const SlideContent = ({ slide, index, presentationId }: SlideContentProps) => {
 
   // Memoized slide content rendering to prevent unnecessary re-renders
   const slideContent = useMemo(() => {
-    return renderSlideContent(slide, isStreaming ? false : true); // Enable edit mode for main content
-  }, [renderSlideContent, slide, isStreaming]);
+    return renderSlideContent(slide, isStreaming || isRegenerating ? false : true); // Enable edit mode for main content
+  }, [renderSlideContent, slide, isStreaming, isRegenerating]);
 
   const [isHovered, setIsHovered] = useState(false);
 
@@ -145,6 +159,7 @@ const SlideContent = ({ slide, index, presentationId }: SlideContentProps) => {
       <div
         data-layout={slide.layout}
         data-group={slide.layout_group}
+        data-slide-id={slide.id ?? undefined}
         className={cn(
           "w-full rounded-xl border bg-bg-100 overflow-hidden transition-all duration-200 relative",
           isHovered && !isStreaming ? "border-bg-300" : "border-bg-200",
@@ -156,13 +171,13 @@ const SlideContent = ({ slide, index, presentationId }: SlideContentProps) => {
             <Loader2 className="w-6 h-6 animate-spin text-text-400" />
           </div>
         ) : (
-          <ScaledSlidePreview interactive={!isStreaming}>
+          <ScaledSlidePreview interactive={!isStreaming && !isRegenerating}>
             {slideContent}
           </ScaledSlidePreview>
         )}
 
         {/* Toss-style generating indicator - bottom right */}
-        {isStreaming && (
+        {(isStreaming || isRegenerating) && (
           <div className="absolute right-4 bottom-4 z-20 pointer-events-none">
             <div
               className="flex items-center gap-3 px-5 py-3 rounded-2xl bg-white/95 dark:bg-neutral-900/95 backdrop-blur-md shadow-lg shadow-black/[0.08] border border-black/[0.04] dark:border-white/[0.08]"
@@ -271,6 +286,7 @@ const SlideContent = ({ slide, index, presentationId }: SlideContentProps) => {
                   trackEvent(MixpanelEvent.Slide_Add_New_Slide_Button_Clicked, {
                     pathname,
                   });
+                  setShowLayoutSelection(false);
                   setShowNewSlideSelection(true);
                 }}
                 className="p-1.5 rounded-md text-text-400 hover:text-text-200 hover:bg-bg-200/60 transition-colors"
@@ -279,13 +295,46 @@ const SlideContent = ({ slide, index, presentationId }: SlideContentProps) => {
               </button>
             </ToolTip>
 
-            {/* Speaker notes button - only if notes exist */}
-            {slide?.speaker_note && (
+            {/* Change layout button - previews the slide in other layouts */}
+            <ToolTip content="Change layout">
+              <button
+                onClick={() => {
+                  setShowNewSlideSelection(false);
+                  setShowLayoutSelection((open) => !open);
+                }}
+                className={cn(
+                  "p-1.5 rounded-md hover:text-text-200 hover:bg-bg-200/60 transition-colors",
+                  showLayoutSelection ? "text-text-200" : "text-text-400",
+                )}
+              >
+                <LayoutTemplate className="w-4 h-4" />
+              </button>
+            </ToolTip>
+
+            {/* Speaker notes button - toggles the notes pane */}
+            <ToolTip content="Speaker notes">
+              <button
+                onClick={() => setShowNotes((open) => !open)}
+                className={cn(
+                  "p-1.5 rounded-md hover:text-text-200 hover:bg-bg-200/60 transition-colors",
+                  showNotes || slide.speaker_note
+                    ? "text-text-200"
+                    : "text-text-400",
+                )}
+              >
+                <StickyNote className="w-4 h-4" />
+              </button>
+            </ToolTip>
+
+            {/* Sources button - only if the slide cites web or document sources */}
+            {((slide?.sources && slide.sources.length > 0) ||
+              (slide?.document_sources &&
+                slide.document_sources.length > 0)) && (
               <Popover>
                 <PopoverTrigger asChild>
-                  <ToolTip content="Speaker notes">
+                  <ToolTip content="Sources">
                     <button className="p-1.5 rounded-md text-text-400 hover:text-text-200 hover:bg-bg-200/60 transition-colors">
-                      <StickyNote className="w-4 h-4" />
+                      <Link2 className="w-4 h-4" />
                     </button>
                   </ToolTip>
                 </PopoverTrigger>
@@ -293,20 +342,69 @@ const SlideContent = ({ slide, index, presentationId }: SlideContentProps) => {
                   side="top"
                   align="center"
                   sideOffset={8}
-                  className="w-[300px] z-30 border-bg-200 bg-bg-100 p-4"
+                  className="w-[320px] z-30 border-bg-200 bg-bg-100 p-4"
                 >
-                  <div className="space-y-2">
-                    <p className="text-sm font-medium text-text-200">
-                      Speaker Notes
-                    </p>
-                    <div className="text-sm text-text-300 whitespace-pre-wrap max-h-48 overflow-auto">
-                      {slide.speaker_note}
-                    </div>
+                  <div className="space-y-3 max-h-72 overflow-auto">
+                    {slide.document_sources &&
+                      slide.document_sources.length > 0 && (
+                        <div className="space-y-2">
+                          <p className="text-sm font-medium text-text-200">
+                            Sourced from your documents
+                          </p>
+                          <ul className="space-y-2">
+                            {slide.document_sources.map((source) => (
+                              <li key={source.chunk_id} className="text-sm">
+                                <p className="flex items-center gap-1.5 text-text-300">
+                                  <FileText className="w-3.5 h-3.5 shrink-0 text-text-400" />
+                                  <span className="break-words">
+                                    {source.document || "Document"}
+                                    {source.page !== null &&
+                                      `, page ${source.page}`}
+                                  </span>
+                                </p>
+                                <p className="mt-0.5 text-xs text-text-400 line-clamp-2 break-words">
+                                  {source.excerpt}
+                                </p>
+                              </li>
+                            ))}
+                          </ul>
+                        </div>
+                      )}
+                    {slide.sources && slide.sources.length > 0 && (
+                      <div className="space-y-2">
+                        <p className="text-sm font-medium text-text-200">
+                          Sources
+                        </p>
+                        <ol className="space-y-1.5 list-decimal list-inside">
+                          {slide.sources.map((source) => (
+                            <li
+                              key={source.url}
+                              className="text-sm text-text-300"
+                            >
+                              <a
+                                href={source.url}
+                                target="_blank"
+                                rel="noopener noreferrer"
+                                className="hover:text-accent underline-offset-2 hover:underline break-words"
+                              >
+                                {source.title || source.url}
+                              </a>
+                            </li>
+                          ))}
+                        </ol>
+                      </div>
+                    )}
                   </div>
                 </PopoverContent>
               </Popover>
             )}
 
+            {/* Regenerate button - rewrites the slide from its outline */}
+            <SlideRegenerate slide={slide} index={index} />
+
+            {/* Version history button */}
+            <SlideHistory slide={slide} />
+
             {/* Delete button */}
             <ToolTip content="Delete">
               <button
@@ -325,6 +423,15 @@ const SlideContent = ({ slide, index, presentationId }: SlideContentProps) => {
         </div>
       )}
 
+      {/* Speaker notes pane */}
+      {showNotes && !isStreaming && (
+        <SpeakerNotesPane
+          slide={slide}
+          index={index}
+          onClose={() => setShowNotes(false)}
+        />
+      )}
+
       {/* New slide selection panel */}
       {showNewSlideSelection && !loading && slide.layout && (
         <div className="w-full mt-4">
@@ -337,6 +444,16 @@ const SlideContent = ({ slide, index, presentationId }: SlideContentProps) => {
         </div>
       )}
 
+      {/* Layout change panel */}
+      {showLayoutSelection && !loading && slide.layout && (
+        <div className="w-full mt-4">
+          <ChangeLayout
+            slide={slide}
+            onClose={() => setShowLayoutSelection(false)}
+          />
+        </div>
+      )}
+
       {/* Mobile action buttons - compact */}
       {!isStreaming && !loading && (
         <div className="md:hidden flex items-center justify-center gap-1.5 mt-3">
@@ -377,6 +494,21 @@ const SlideContent = ({ slide, index, presentationId }: SlideContentProps) => {
           >
             <PlusIcon className="w-4 h-4" />
           </button>
+          <button
+            onClick={() => {
+              setShowNewSlideSelection(false);
+              setShowLayoutSelection((open) => !open);
+            }}
+            className="p-2 rounded-lg border border-bg-200 text-text-400 hover:text-text-300"
+          >
+            <LayoutTemplate className="w-4 h-4" />
+          </button>
+          <button
+            onClick={() => setShowNotes((open) => !open)}
+            className="p-2 rounded-lg border border-bg-200 text-text-400 hover:text-text-300"
+          >
+            <StickyNote className="w-4 h-4" />
+          </button>
           <button
             onClick={onDeleteSlide}
             className="p-2 rounded-lg border border-bg-200 text-text-400 hover:text-red-500"
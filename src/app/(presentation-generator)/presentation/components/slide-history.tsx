@@ -0,0 +1,236 @@
+import React, { useCallback, useMemo, useState } from "react";
+import { History, Loader2, RotateCcw } from "lucide-react";
+import { toast } from "sonner";
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover";
+import ToolTip from "@/components/tool-tip";
+import { cn } from "@/lib/utils";
+import { usePresentationDataStore } from "@/stores";
+import { Slide } from "@/types/slide";
+import { diffContent, formatDiffValue } from "@/utils/content-diff";
+import { PresentationGenerationApi } from "../../services/api/presentation-generation";
+import type { SlideRevision } from "../../services/api/types";
+
+/**
+ * Labels shown for each revision source.
+ */
+const SOURCE_LABELS: Record<SlideRevision["source"], string> = {
+  generation: "Generated",
+  ai_edit: "AI edit",
+  ai_edit_html: "AI design edit",
+  autosave: "Manual edit",
+  import: "Imported",
+  restore: "Restored",
+  key_fact: "Key fact updated",
+  layout_change: "Layout changed",
+  regeneration: "Regenerated",
+  original: "Earlier version",
+};
+
+/**
+ * Maximum number of changed fields listed for a revision.
+ */
+const MAX_DIFF_ENTRIES = 8;
+
+interface SlideHistoryProps {
+  slide: Slide;
+}
+
+/**
+ * Slide version history popover.
+ *
+ * Lists the slide's persisted revisions, newest first. Selecting a revision
+ * shows which content fields it changed compared to the revision before it,
+ * and any revision but the current one can be restored with one click.
+ */
+const SlideHistory = ({ slide }: SlideHistoryProps) => {
+  const updateSlide = usePresentationDataStore((state) => state.updateSlide);
+
+  const [revisions, setRevisions] = useState<SlideRevision[] | null>(null);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [restoringId, setRestoringId] = useState<string | null>(null);
+
+  const loadRevisions = useCallback(async () => {
+    if (!slide.id) return;
+    setLoading(true);
+    try {
+      const response = await PresentationGenerationApi.getSlideRevisions(
+        slide.id,
+      );
+      setRevisions(response.revisions);
+      setSelectedId(response.revisions[0]?.id ?? null);
+    } catch (error) {
+      toast.error("Error loading slide history.", {
+        description:
+          error instanceof Error ? error.message : "Error loading history.",
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [slide.id]);
+
+  const handleRestore = async (revision: SlideRevision) => {
+    setRestoringId(revision.id);
+    try {
+      const response = await PresentationGenerationApi.restoreSlideRevision(
+        revision.id,
+      );
+      if (response) {
+        updateSlide(slide.index, response as Slide);
+        toast.success("Slide restored");
+        await loadRevisions();
+      }
+    } catch (error) {
+      console.error("Error restoring slide:", error);
+      toast.error("Error restoring slide.", {
+        description:
+          error instanceof Error ? error.message : "Error restoring slide.",
+      });
+    } finally {
+      setRestoringId(null);
+    }
+  };
+
+  const selectedIndex =
+    revisions?.findIndex((revision) => revision.id === selectedId) ?? -1;
+  const selected = selectedIndex >= 0 ? revisions?.[selectedIndex] : undefined;
+
+  // Changes of the selected revision compared to the one before it
+  const diff = useMemo(() => {
+    if (!revisions || !selected) return [];
+    const previous = revisions[selectedIndex + 1];
+    return diffContent(previous?.content ?? null, selected.content);
+  }, [revisions, selected, selectedIndex]);
+
+  if (!slide.id) return null;
+
+  return (
+    <Popover
+      onOpenChange={(open) => {
+        if (open) loadRevisions();
+      }}
+    >
+      <PopoverTrigger asChild>
+        <ToolTip content="History">
+          <button className="p-1.5 rounded-md text-text-400 hover:text-text-200 hover:bg-bg-200/60 transition-colors">
+            <History className="w-4 h-4" />
+          </button>
+        </ToolTip>
+      </PopoverTrigger>
+      <PopoverContent
+        side="top"
+        align="center"
+        sideOffset={8}
+        className="w-[340px] z-30 border-bg-200 bg-bg-100 p-4"
+      >
+        <div className="space-y-3">
+          <p className="text-sm font-medium text-text-200">History</p>
+
+          {loading && !revisions ? (
+            <div className="flex justify-center py-6">
+              <Loader2 className="w-5 h-5 animate-spin text-text-400" />
+            </div>
+          ) : !revisions || revisions.length === 0 ? (
+            <p className="text-sm text-text-400">
+              No earlier versions of this slide yet.
+            </p>
+          ) : (
+            <>
+              <ul className="space-y-0.5 max-h-40 overflow-auto">
+                {revisions.map((revision, i) => (
+                  <li key={revision.id}>
+                    <button
+                      onClick={() => setSelectedId(revision.id)}
+                      className={cn(
+                        "w-full flex items-center justify-between gap-2 px-2 py-1.5 rounded-md text-left text-xs transition-colors",
+                        revision.id === selectedId
+                          ? "bg-bg-200 text-text-200"
+                          : "text-text-300 hover:bg-bg-200/60",
+                      )}
+                    >
+                      <span className="font-medium">
+                        {SOURCE_LABELS[revision.source] ?? revision.source}
+                        {i === 0 && (
+                          <span className="ml-1.5 text-text-400">
+                            (current)
+                          </span>
+                        )}
+                      </span>
+                      <span className="text-text-400 tabular-nums">
+                        {new Date(revision.created_at).toLocaleString()}
+                      </span>
+                    </button>
+                  </li>
+                ))}
+              </ul>
+
+              {selected && (
+                <div className="space-y-2 border-t border-bg-200 pt-3">
+                  {diff.length === 0 ? (
+                    <p className="text-xs text-text-400">
+                      {selected.layout !==
+                      revisions[selectedIndex + 1]?.layout
+                        ? "Layout changed."
+                        : "No content changes."}
+                    </p>
+                  ) : (
+                    <ul className="space-y-1.5 max-h-48 overflow-auto">
+                      {diff.slice(0, MAX_DIFF_ENTRIES).map((entry) => (
+                        <li key={entry.path} className="text-xs">
+                          <p className="font-mono text-text-400">
+                            {entry.path || "content"}
+                          </p>
+                          {entry.kind !== "added" && (
+                            <p className="text-red-500 line-through break-words">
+                              {formatDiffValue(entry.before)}
+                            </p>
+                          )}
+                          {entry.kind !== "removed" && (
+                            <p className="text-green-600 break-words">
+                              {formatDiffValue(entry.after)}
+                            </p>
+                          )}
+                        </li>
+                      ))}
+                      {diff.length > MAX_DIFF_ENTRIES && (
+                        <li className="text-xs text-text-400">
+                          and {diff.length - MAX_DIFF_ENTRIES} more changes
+                        </li>
+                      )}
+                    </ul>
+                  )}
+
+                  {selectedIndex > 0 && (
+                    <button
+                      onClick={() => handleRestore(selected)}
+                      disabled={restoringId !== null}
+                      className={cn(
+                        "w-full flex items-center justify-center gap-2 px-3 py-1.5 rounded-lg text-sm font-medium transition-all",
+                        restoringId
+                          ? "bg-bg-200 text-text-400 cursor-not-allowed"
+                          : "bg-accent hover:bg-accent-hover text-white",
+                      )}
+                    >
+                      {restoringId === selected.id ? (
+                        <Loader2 className="w-3.5 h-3.5 animate-spin" />
+                      ) : (
+                        <RotateCcw className="w-3.5 h-3.5" />
+                      )}
+                      Restore this version
+                    </button>
+                  )}
+                </div>
+              )}
+            </>
+          )}
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+export default SlideHistory;
@@ -0,0 +1,312 @@
+import React, { useMemo, useState } from "react";
+import { Loader2, RefreshCw } from "lucide-react";
+import { toast } from "sonner";
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import ToolTip from "@/components/tool-tip";
+import { cn } from "@/lib/utils";
+import {
+  usePresentationDataStore,
+  usePresentationUIStore,
+  useUndoRedoStore,
+} from "@/stores";
+import { Slide } from "@/types/slide";
+import { applyCollabOp } from "@/utils/collab";
+import { PresentationGenerationApi } from "../../services/api/presentation-generation";
+import type { SlideRegenerationEvent } from "../../services/api/types";
+
+interface SlideRegenerateProps {
+  slide: Slide;
+  index: number;
+}
+
+/**
+ * Turns a content key into a label ("chartData" -> "Chart data").
+ */
+const toFieldLabel = (key: string): string => {
+  const words = key
+    .replace(/([a-z0-9])([A-Z])/g, "$1 $2")
+    .replace(/[_-]+/g, " ")
+    .toLowerCase();
+  return words.charAt(0).toUpperCase() + words.slice(1);
+};
+
+/**
+ * Regenerate popover of a slide.
+ *
+ * Generates the slide again from its outline, optionally together with the
+ * slides after it, with fresh context from the uploaded documents and the
+ * web. Fields ticked under "Keep" are locked and keep their values on every
+ * regenerated slide that has them. Content streams into the editor as it is
+ * written; the slides before regeneration go to the undo history
+ * ("REGENERATE_SLIDES") and stay in each slide's version history.
+ */
+const SlideRegenerate = ({ slide, index }: SlideRegenerateProps) => {
+  const slideCount = usePresentationDataStore(
+    (state) => state.presentationData?.slides.length ?? 0,
+  );
+  const addToHistory = useUndoRedoStore((state) => state.addToHistory);
+  const regeneratingSlideIds = usePresentationUIStore(
+    (state) => state.regeneratingSlideIds,
+  );
+  const setRegeneratingSlides = usePresentationUIStore(
+    (state) => state.setRegeneratingSlides,
+  );
+
+  const [lastIndex, setLastIndex] = useState(index);
+  const [keep, setKeep] = useState<string[]>([]);
+  const [progress, setProgress] = useState<{
+    completed: number;
+    total: number;
+  } | null>(null);
+
+  // Top-level fields of the slide that can be kept
+  const fields = useMemo(
+    () =>
+      Object.keys(slide.content ?? {}).filter((key) => !key.startsWith("__")),
+    [slide.content],
+  );
+
+  const isRegenerating = progress !== null;
+
+  /**
+   * Regenerates this slide and the slides up to `lastIndex`, applying the
+   * streamed content to the editor.
+   */
+  const handleRegenerate = async () => {
+    const { presentationData } = usePresentationDataStore.getState();
+    if (!presentationData) return;
+    const targets = presentationData.slides
+      .slice(index, Math.max(index, lastIndex) + 1)
+      .filter((target): target is Slide & { id: string } => !!target.id);
+    if (targets.length === 0) {
+      toast.error("Slide ID is required");
+      return;
+    }
+
+    addToHistory(presentationData.slides, "REGENERATE_SLIDES");
+    setRegeneratingSlides(targets.map((target) => target.id));
+    setProgress({ completed: 0, total: targets.length });
+
+    // Events name slides by their position when regeneration started
+    const idsByIndex = new Map<number, string>();
+    const findIndex = (slideId: string | undefined) =>
+      usePresentationDataStore
+        .getState()
+        .presentationData?.slides.findIndex(({ id }) => id === slideId) ?? -1;
+
+    const handleEvent = (event: SlideRegenerationEvent) => {
+      const { updateSlide } = usePresentationDataStore.getState();
+      switch (event.type) {
+        case "slides_init":
+          event.slides.forEach((initial) => {
+            if (initial.id) idsByIndex.set(initial.index, initial.id);
+          });
+          break;
+        case "slide_delta": {
+          const slideId = idsByIndex.get(event.index);
+          const current = usePresentationDataStore.getState().presentationData;
+          const position = findIndex(slideId);
+          if (!slideId || !current || position < 0) break;
+          const [updated] = applyCollabOp([current.slides[position]], {
+            type: "set",
+            slide_id: slideId,
+            path: event.path,
+            value: event.value,
+          });
+          updateSlide(position, updated);
+          break;
+        }
+        case "slide": {
+          const position = findIndex(event.slide.id ?? undefined);
+          if (position >= 0) {
+            updateSlide(position, { ...event.slide, index: position });
+          }
+          break;
+        }
+        case "progress":
+          setProgress({ completed: event.completed, total: event.total });
+          break;
+        case "complete":
+          toast.success(
+            event.slides.length === 1
+              ? "Slide regenerated"
+              : `${event.slides.length} slides regenerated`,
+          );
+          if (event.skipped_slides.length > 0) {
+            toast.warning(
+              `${event.skipped_slides.length} slide(s) changed meanwhile and kept that change`,
+            );
+          }
+          break;
+      }
+    };
+
+    try {
+      const locked = Object.fromEntries(
+        targets.map((target) => [
+          target.id,
+          keep.filter((key) => key in (target.content ?? {})),
+        ]),
+      );
+      if (targets.length === 1) {
+        await PresentationGenerationApi.regenerateSlide(
+          targets[0].id,
+          locked[targets[0].id],
+          handleEvent,
+        );
+      } else {
+        await PresentationGenerationApi.regenerateSlides(
+          presentationData.id,
+          { slide_ids: targets.map((target) => target.id), locked },
+          handleEvent,
+        );
+      }
+    } catch (error) {
+      console.error("Error regenerating slides:", error);
+      toast.error("Error regenerating slides.", {
+        description:
+          error instanceof Error ? error.message : "Error regenerating slides.",
+      });
+    } finally {
+      setRegeneratingSlides([]);
+      setProgress(null);
+    }
+  };
+
+  if (!slide.id) return null;
+
+  return (
+    <Popover
+      onOpenChange={(open) => {
+        if (open && !isRegenerating) {
+          setLastIndex(index);
+          setKeep([]);
+        }
+      }}
+    >
+      <PopoverTrigger asChild>
+        <ToolTip content="Regenerate">
+          <button
+            disabled={regeneratingSlideIds.length > 0 && !isRegenerating}
+            className="p-1.5 rounded-md text-text-400 hover:text-text-200 hover:bg-bg-200/60 transition-colors disabled:opacity-40"
+          >
+            <RefreshCw
+              className={cn("w-4 h-4", isRegenerating && "animate-spin")}
+            />
+          </button>
+        </ToolTip>
+      </PopoverTrigger>
+      <PopoverContent
+        side="top"
+        align="center"
+        sideOffset={8}
+        className="w-[320px] z-30 border-bg-200 bg-bg-100 p-4"
+      >
+        <div className="space-y-3">
+          <div>
+            <p className="text-sm font-medium text-text-200">
+              Regenerate from outline
+            </p>
+            <p className="text-xs text-text-400 mt-0.5">
+              Writes the slide again with fresh context. Earlier versions stay
+              in the slide&apos;s history.
+            </p>
+          </div>
+
+          <div className="flex items-center justify-between gap-2 text-sm text-text-300">
+            <span>Slides</span>
+            <Select
+              value={String(lastIndex)}
+              onValueChange={(value) => setLastIndex(Number(value))}
+              disabled={isRegenerating}
+            >
+              <SelectTrigger className="h-7 w-auto min-w-[160px] max-w-[260px] rounded-lg border-bg-200 text-xs text-text-300">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Array.from(
+                  { length: Math.max(0, slideCount - index) },
+                  (_, offset) => index + offset,
+                ).map((last) => (
+                  <SelectItem
+                    key={last}
+                    value={String(last)}
+                    className="text-xs"
+                  >
+                    {last === index
+                      ? `Only slide ${index + 1}`
+                      : `Slides ${index + 1} to ${last + 1}`}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {fields.length > 0 && (
+            <div className="space-y-1.5">
+              <p className="text-xs font-medium text-text-400">Keep</p>
+              <div className="flex flex-wrap gap-x-4 gap-y-1.5">
+                {fields.map((field) => (
+                  <label
+                    key={field}
+                    className="flex items-center gap-2 text-sm text-text-300"
+                  >
+                    <input
+                      type="checkbox"
+                      checked={keep.includes(field)}
+                      disabled={isRegenerating}
+                      onChange={(e) =>
+                        setKeep((current) =>
+                          e.target.checked
+                            ? [...current, field]
+                            : current.filter((key) => key !== field),
+                        )
+                      }
+                    />
+                    {toFieldLabel(field)}
+                  </label>
+                ))}
+              </div>
+            </div>
+          )}
+
+          <button
+            onClick={handleRegenerate}
+            disabled={isRegenerating}
+            className={cn(
+              "w-full flex items-center justify-center gap-2 px-3 py-1.5 rounded-lg text-sm font-medium transition-all",
+              isRegenerating
+                ? "bg-bg-200 text-text-400 cursor-not-allowed"
+                : "bg-accent hover:bg-accent-hover text-white",
+            )}
+          >
+            {isRegenerating ? (
+              <>
+                <Loader2 className="w-3.5 h-3.5 animate-spin" />
+                Regenerating {progress.completed}/{progress.total}
+              </>
+            ) : (
+              <>
+                <RefreshCw className="w-3.5 h-3.5" />
+                Regenerate
+              </>
+            )}
+          </button>
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+export default SlideRegenerate;
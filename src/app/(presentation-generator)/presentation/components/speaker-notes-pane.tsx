@@ -0,0 +1,62 @@
+import React from "react";
+import { StickyNote, X } from "lucide-react";
+import { Textarea } from "@/components/ui/textarea";
+import { usePresentationDataStore } from "@/stores";
+import { Slide } from "@/types/slide";
+import { countSpokenWords, WORDS_PER_MINUTE } from "../../utils/pacing";
+
+interface SpeakerNotesPaneProps {
+  slide: Slide;
+  index: number;
+  onClose: () => void;
+}
+
+/**
+ * Editable speaker notes shown below a slide in the editor.
+ *
+ * Changes go straight to the presentation store, so they are saved by
+ * autosave like any other slide edit and show up in the presenter view.
+ */
+const SpeakerNotesPane = ({ slide, index, onClose }: SpeakerNotesPaneProps) => {
+  const updateSpeakerNote = usePresentationDataStore(
+    (state) => state.updateSpeakerNote,
+  );
+
+  const note = slide.speaker_note ?? "";
+  const words = countSpokenWords(note);
+  const seconds = Math.round((words / WORDS_PER_MINUTE) * 60);
+
+  return (
+    <div className="w-full mt-3 rounded-xl border border-bg-200 bg-bg-100 p-3">
+      <div className="flex items-center justify-between mb-2">
+        <p className="flex items-center gap-1.5 text-xs font-medium text-text-300">
+          <StickyNote className="w-3.5 h-3.5 text-text-400" />
+          Speaker notes
+        </p>
+        <div className="flex items-center gap-2">
+          {words > 0 && (
+            <span className="text-xs text-text-400 tabular-nums">
+              {words} words · ~{Math.max(1, Math.round(seconds / 10) * 10)}s
+            </span>
+          )}
+          <button
+            onClick={onClose}
+            className="p-1 rounded-md text-text-400 hover:text-text-200 hover:bg-bg-200/60 transition-colors"
+            aria-label="Hide speaker notes"
+          >
+            <X className="w-3.5 h-3.5" />
+          </button>
+        </div>
+      </div>
+      <Textarea
+        value={note}
+        onChange={(e) => updateSpeakerNote(index, e.target.value)}
+        placeholder="What you want to say on this slide..."
+        className="w-full min-h-[80px] max-h-[240px] p-3 text-sm border border-bg-200 rounded-lg focus:outline-none focus-visible:ring-1 focus-visible:ring-accent/50 focus-visible:ring-offset-0 bg-bg-100 text-text-200"
+        rows={3}
+      />
+    </div>
+  );
+};
+
+export default SpeakerNotesPane;
@@ -0,0 +1,366 @@
+import React, { useEffect, useMemo, useState } from "react";
+import { ArrowRight, Loader2, Sparkles } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Sheet,
+  SheetContent,
+  SheetHeader,
+  SheetTitle,
+} from "@/components/ui/sheet";
+import { cn } from "@/lib/utils";
+import { usePresentationDataStore, useUndoRedoStore } from "@/stores";
+import type { PresentationData } from "@/stores";
+import {
+  getLayoutRole,
+  migrateSlideContent,
+  type MigrationSchema,
+} from "@/utils/content-migration";
+import { useLayout } from "../../context/layout-context";
+import ScaledSlidePreview from "../../components/scaled-slide-preview";
+import { PresentationGenerationApi } from "../../services/api/presentation-generation";
+
+/**
+ * Maximum characters of slide text sent to layout planning per slide.
+ */
+const MAX_PLAN_TEXT_LENGTH = 300;
+
+/**
+ * Collects the text of slide content, depth first.
+ */
+const collectText = (value: unknown): string[] => {
+  if (typeof value === "string") return [value];
+  if (Array.isArray(value)) return value.flatMap(collectText);
+  if (value && typeof value === "object") {
+    return Object.entries(value).flatMap(([key, child]) =>
+      key.startsWith("__") ? [] : collectText(child),
+    );
+  }
+  return [];
+};
+
+interface TemplateSwitchPanelProps {
+  presentationId: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+/**
+ * Re-theme panel of the editor: moves the whole deck to another template.
+ *
+ * Each slide is mapped to the layout with the same role in the new template
+ * (the built-in families share their roles, e.g. "traction"); slides
+ * without one, or all slides of a custom template, are matched by the
+ * layout planner from their text. The panel previews every slide side by
+ * side, before and after, with its content migrated, and lets the user
+ * pick another layout per slide before applying. Applying saves the slides
+ * to the undo history first ("CHANGE_TEMPLATE").
+ */
+const TemplateSwitchPanel = ({
+  presentationId,
+  open,
+  onOpenChange,
+}: TemplateSwitchPanelProps) => {
+  const presentationData = usePresentationDataStore(
+    (state) => state.presentationData,
+  );
+  const addToHistory = useUndoRedoStore((state) => state.addToHistory);
+  const {
+    getAllTemplateIDs,
+    getLayoutsByTemplateID,
+    getFullDataByTemplateID,
+    getTemplateSetting,
+    getLayoutById,
+    getLayout,
+  } = useLayout();
+  const [templateID, setTemplateID] = useState<string | null>(null);
+  const [plan, setPlan] = useState<string[] | null>(null);
+  const [planning, setPlanning] = useState(false);
+  const [applying, setApplying] = useState(false);
+
+  const slides = useMemo(
+    () => presentationData?.slides ?? [],
+    [presentationData?.slides],
+  );
+  const currentTemplate = (slides[0]?.layout ?? "").split(":")[0];
+  const templates = getAllTemplateIDs().filter((id) => id !== currentTemplate);
+  const targetLayouts = templateID ? getLayoutsByTemplateID(templateID) : [];
+
+  const getTemplateName = (id: string) =>
+    getLayoutsByTemplateID(id)[0]?.templateName || id;
+
+  useEffect(() => {
+    if (!open) {
+      setTemplateID(null);
+      setPlan(null);
+    }
+  }, [open]);
+
+  /**
+   * Maps every slide to a layout of a template: the layout with the same
+   * role when there is one, otherwise the layout planner's choice.
+   *
+   * @param id - ID of the template to move to.
+   */
+  const planTemplate = async (id: string) => {
+    setTemplateID(id);
+    setPlan(null);
+    setPlanning(true);
+    const layouts = getLayoutsByTemplateID(id);
+    const byRole = new Map(
+      layouts.map((layout) => [getLayoutRole(layout.id), layout.id]),
+    );
+    const mapping = slides.map(
+      (slide) => byRole.get(getLayoutRole(slide.layout ?? "")) ?? null,
+    );
+
+    if (mapping.some((layoutId) => layoutId === null)) {
+      try {
+        const planned = await PresentationGenerationApi.planLayouts({
+          outlines: slides.map((slide) => {
+            const name = getLayoutById(slide.layout ?? "")?.name ?? "Slide";
+            const text = collectText(slide.content).join(" · ");
+            return {
+              content: `${name.toUpperCase()}: ${text}`.slice(
+                0,
+                MAX_PLAN_TEXT_LENGTH,
+              ),
+            };
+          }),
+          layout: {
+            name: getTemplateName(id),
+            ordered: getTemplateSetting(id)?.ordered ?? false,
+            slides: layouts,
+          },
+          structure: mapping.map((layoutId) =>
+            layoutId ? { layout_id: layoutId, source: "keyword" } : null,
+          ),
+        });
+        planned.layouts?.forEach((choice, index) => {
+          if (!mapping[index] && choice.layout_id) {
+            mapping[index] = choice.layout_id;
+          }
+        });
+      } catch (error) {
+        console.error("Layout planning failed:", error);
+      }
+    }
+
+    setPlan(
+      mapping.map(
+        (layoutId, index) =>
+          layoutId ?? layouts[index % Math.max(1, layouts.length)]?.id ?? "",
+      ),
+    );
+    setPlanning(false);
+  };
+
+  // Migrate each slide's content to its planned layout
+  const previews = useMemo(() => {
+    if (!templateID || !plan) return [];
+    const fullData = new Map(
+      getFullDataByTemplateID(templateID).map((data) => [data.layoutId, data]),
+    );
+    return slides.map((slide, index) => {
+      const layout = getLayoutById(plan[index]);
+      const data = fullData.get(plan[index]);
+      return {
+        slide,
+        layout,
+        component: data?.component,
+        migration: migrateSlideContent(
+          slide.content ?? {},
+          (layout?.json_schema ?? {}) as MigrationSchema,
+          data?.sampleData ?? {},
+        ),
+      };
+    });
+  }, [templateID, plan, slides, getFullDataByTemplateID, getLayoutById]);
+
+  const aiFields = previews.reduce(
+    (total, preview) => total + preview.migration.missing.length,
+    0,
+  );
+
+  /**
+   * Moves the deck to the selected template and updates the slides with
+   * the server's result.
+   */
+  const apply = async () => {
+    if (!templateID || !presentationData) return;
+    if (previews.some(({ slide, layout }) => !slide.id || !layout)) {
+      toast.error("Every slide needs a layout of the new template");
+      return;
+    }
+    setApplying(true);
+    try {
+      addToHistory(presentationData.slides, "CHANGE_TEMPLATE");
+      const result = await PresentationGenerationApi.changePresentationTemplate(
+        presentationId,
+        {
+          layout: {
+            name: getTemplateName(templateID),
+            ordered: getTemplateSetting(templateID)?.ordered ?? false,
+            slides: targetLayouts,
+          },
+          slides: previews.map(({ slide, layout, migration }) => ({
+            id: slide.id as string,
+            layout: layout?.id ?? "",
+            content: migration.content,
+            missing: migration.missing,
+          })),
+          version: presentationData.version,
+        },
+      );
+      // Slides may have moved while the request ran
+      const { presentationData: current, updateSlide, setPresentationData } =
+        usePresentationDataStore.getState();
+      for (const slide of result.slides) {
+        const index =
+          current?.slides.findIndex(({ id }) => id === slide.id) ?? -1;
+        if (index >= 0) updateSlide(index, { ...slide, index });
+      }
+      const latest = usePresentationDataStore.getState().presentationData;
+      if (latest) {
+        setPresentationData({
+          ...latest,
+          layout: result.presentation.layout as PresentationData["layout"],
+          version: result.presentation.version,
+        });
+      }
+      toast.success(`Deck moved to ${getTemplateName(templateID)}`);
+      onOpenChange(false);
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : "Failed to change template",
+      );
+    } finally {
+      setApplying(false);
+    }
+  };
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent
+        side="right"
+        className="w-full sm:max-w-[760px] overflow-y-auto"
+      >
+        <SheetHeader>
+          <SheetTitle>Change template</SheetTitle>
+        </SheetHeader>
+
+        <div className="space-y-4 mt-4">
+          <p className="text-sm text-text-400">
+            Every slide moves to the matching layout of the new template and
+            keeps its content. Fields that don&apos;t carry over are written
+            by AI.
+          </p>
+
+          <div className="flex flex-wrap gap-2">
+            {templates.map((id) => (
+              <button
+                key={id}
+                onClick={() => planTemplate(id)}
+                disabled={planning || applying}
+                className={cn(
+                  "px-3 py-1.5 rounded-lg border text-sm transition-colors disabled:opacity-50",
+                  id === templateID
+                    ? "border-accent bg-accent/5 text-text-100"
+                    : "border-bg-200 text-text-300 hover:bg-bg-200/50",
+                )}
+              >
+                {getTemplateName(id)}
+              </button>
+            ))}
+          </div>
+
+          {planning && (
+            <div className="flex justify-center py-6">
+              <Loader2 className="w-5 h-5 animate-spin text-text-400" />
+            </div>
+          )}
+
+          {plan && !planning && (
+            <>
+              <ul className="space-y-4">
+                {previews.map(({ slide, layout, component, migration }, index) => {
+                  const Current = getLayout(slide.layout ?? "");
+                  const Target = component;
+                  return (
+                    <li key={slide.id ?? index} className="space-y-2">
+                      <div className="flex items-center justify-between gap-2">
+                        <span className="text-xs font-medium text-text-400 tabular-nums">
+                          {index + 1}
+                        </span>
+                        <Select
+                          value={plan[index]}
+                          onValueChange={(value) =>
+                            setPlan((previous) =>
+                              previous?.map((id, i) =>
+                                i === index ? value : id,
+                              ) ?? null,
+                            )
+                          }
+                        >
+                          <SelectTrigger className="h-7 w-auto min-w-[160px] max-w-[260px] rounded-lg border-bg-200 text-xs text-text-300">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {targetLayouts.map((option) => (
+                              <SelectItem
+                                key={option.id}
+                                value={option.id}
+                                className="text-xs"
+                              >
+                                {option.name}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                      <div className="grid grid-cols-[1fr_auto_1fr] items-center gap-2">
+                        <ScaledSlidePreview className="rounded-lg border border-bg-200 bg-bg-100">
+                          {Current && <Current data={slide.content} />}
+                        </ScaledSlidePreview>
+                        <ArrowRight className="w-4 h-4 text-text-400" />
+                        <ScaledSlidePreview className="rounded-lg border border-bg-200 bg-bg-100">
+                          {Target && <Target data={migration.content} />}
+                        </ScaledSlidePreview>
+                      </div>
+                      {layout && migration.missing.length > 0 && (
+                        <p className="flex items-center justify-end gap-1 text-xs text-text-400">
+                          <Sparkles className="w-3 h-3 text-accent" />
+                          AI writes {migration.missing.join(", ")}
+                        </p>
+                      )}
+                    </li>
+                  );
+                })}
+              </ul>
+
+              <Button
+                onClick={apply}
+                disabled={applying}
+                className="w-full rounded-lg bg-accent text-white hover:bg-accent-hover"
+              >
+                {applying && <Loader2 className="w-4 h-4 animate-spin" />}
+                {aiFields > 0
+                  ? `Apply to ${slides.length} slides (${aiFields} fields by AI)`
+                  : `Apply to ${slides.length} slides`}
+              </Button>
+            </>
+          )}
+        </div>
+      </SheetContent>
+    </Sheet>
+  );
+};
+
+export default TemplateSwitchPanel;
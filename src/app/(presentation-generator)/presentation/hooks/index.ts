@@ -10,4 +10,6 @@ export { usePresentationData } from './use-presentation-data';
 export { usePresentationNavigation } from './use-presentation-navigation';
 export { useAutoSave } from './use-auto-save';
 export { useScrollSync } from './use-scroll-sync';
-export { useKeyboardShortcuts } from './use-keyboard-shortcuts'; 
\ No newline at end of file
+export { useKeyboardShortcuts } from './use-keyboard-shortcuts';
+export { usePresenterSync } from './use-presenter-sync';
+export { useCollaboration } from './use-collaboration';
@@ -3,13 +3,30 @@
  *
  * Provides debounced auto-save functionality that saves presentation data
  * to the server when changes are detected. Skips saving during streaming,
- * loading, or when data hasn't changed. Integrates with undo/redo history.
+ * slide regeneration, loading, or when data hasn't changed. Integrates with undo/redo history.
+ *
+ * Only what changed is saved: the slides are diffed against the server's
+ * state as last seen (see `diffCollabSlides`) and each change is sent to
+ * the slide endpoints with the version it is based on. When the server
+ * reports that a slide or the slide list changed in the meantime, the
+ * current server state is loaded and the local changes are replayed on top
+ * of it; where both sides changed the same field, the server's value wins.
  */
 
 'use client'
 import { useEffect, useRef, useCallback, useState } from 'react';
-import { PresentationGenerationApi } from '../../services/api/presentation-generation';
-import { useUndoRedoStore, usePresentationUIStore, usePresentationDataStore, type PresentationData } from '@/stores';
+import { toast } from 'sonner';
+import { v4 as uuidv4 } from 'uuid';
+import { DashboardApi } from '../../services/api/dashboard';
+import {
+    SlidesApi,
+    type ServerSlideList,
+    type SlideSaveResult,
+    type SlideUpdate,
+} from '../../services/api/slides';
+import { useUndoRedoStore, usePresentationUIStore, usePresentationDataStore } from '@/stores';
+import type { Slide } from '@/types/slide';
+import { applyCollabOp, diffCollabSlides, type CollabOp } from '@/utils/collab';
 
 /**
  * Options for configuring auto-save behavior.
@@ -17,10 +34,14 @@ import { useUndoRedoStore, usePresentationUIStore, usePresentationDataStore, typ
  * @property debounceMs - Milliseconds to wait before saving after last change.
  *   Defaults to 1000ms.
  * @property enabled - Whether auto-save is enabled. Defaults to true.
+ * @property saveToServer - Whether changes are saved through the slide
+ *   endpoints. Turned off while a collaboration session syncs the deck
+ *   instead; undo history is still recorded. Defaults to true.
  */
 interface UseAutoSaveOptions {
     debounceMs?: number;
     enabled?: boolean;
+    saveToServer?: boolean;
 }
 
 /**
@@ -29,12 +50,53 @@ interface UseAutoSaveOptions {
  * @property isSaving - Whether a save operation is currently in progress.
  * @property lastSavedAt - Timestamp of the last successful save, or null if
  *   no save has occurred yet.
+ * @property saveNow - Saves pending changes immediately, e.g. before an
+ *   export reads the presentation from the server.
  */
 interface UseAutoSaveReturn {
     isSaving: boolean;
     lastSavedAt: Date | null;
+    saveNow: () => Promise<void>;
+}
+
+/**
+ * The server's state as last seen, which local changes are diffed against.
+ *
+ * @property presentationId - ID of the presentation.
+ * @property version - Presentation version, or null if not known yet.
+ * @property slides - Slides in order, each with its version when known.
+ */
+interface SavedState {
+    presentationId: string;
+    version: number | null;
+    slides: Slide[];
 }
 
+/**
+ * Renumbers slides after they were added, removed or moved.
+ */
+const withIndexes = (slides: Slide[]): Slide[] =>
+    slides.map((slide, index) => (slide.index === index ? slide : { ...slide, index }));
+
+/**
+ * Whether a content path is the same as, or inside, another one.
+ */
+const isWithinPath = (path: string, other: string) =>
+    !other || path === other || path.startsWith(`${other}.`) || path.startsWith(`${other}[`);
+
+/**
+ * Whether two changes write the same field of the same slide.
+ */
+const editsOverlap = (a: CollabOp, b: CollabOp): boolean => {
+    if (a.type === 'set' && b.type === 'set') {
+        return a.slide_id === b.slide_id && (isWithinPath(a.path, b.path) || isWithinPath(b.path, a.path));
+    }
+    if (a.type === 'set_field' && b.type === 'set_field') {
+        return a.slide_id === b.slide_id && a.field === b.field;
+    }
+    return false;
+};
+
 /**
  * Hook for automatic presentation data saving.
  *
@@ -44,82 +106,244 @@ interface UseAutoSaveReturn {
  * the last save.
  *
  * @param options - Configuration options for auto-save behavior.
- * @returns Object with isSaving flag and lastSavedAt timestamp.
+ * @returns Object with isSaving flag, lastSavedAt timestamp and saveNow.
  */
 export const useAutoSave = ({
     debounceMs = 1000,
     enabled = true,
+    saveToServer = true,
 }: UseAutoSaveOptions = {}): UseAutoSaveReturn => {
-   
+
     const addToHistory = useUndoRedoStore((state) => state.addToHistory);
     const presentationData = usePresentationDataStore((state) => state.presentationData);
-    const { isStreaming, isLoading, isLayoutLoading } = usePresentationUIStore();
+    const { isStreaming, isLoading, isLayoutLoading, regeneratingSlideIds } = usePresentationUIStore();
+    // Regenerated slides are saved by the server as they complete
+    const isRegenerating = regeneratingSlideIds.length > 0;
 
     const saveTimeoutRef = useRef<NodeJS.Timeout | null>(null);
-    const lastSavedDataRef = useRef<string>('');
+    const savedRef = useRef<SavedState | null>(null);
+    const savingRef = useRef<Promise<void> | null>(null);
     const [isSaving, setIsSaving] = useState<boolean>(false);
     const [lastSavedAt, setLastSavedAt] = useState<Date | null>(null);
+    // Read when the timer fires, so a session that starts in the meantime
+    // cancels the save
+    const saveToServerRef = useRef(saveToServer);
+    saveToServerRef.current = saveToServer;
 
-    // Debounced save function
-    const debouncedSave = useCallback(async (data: PresentationData) => {
-        // Clear existing timeout
-        if (saveTimeoutRef.current) {
-            clearTimeout(saveTimeoutRef.current);
+    /**
+     * Loads the server's current state and replays local changes on top of
+     * it. Local changes to fields the server's copy also changed are
+     * dropped. The replayed changes are saved with the next save.
+     */
+    const rebase = useCallback(async (saved: SavedState) => {
+        const server = await DashboardApi.getPresentation(saved.presentationId);
+        const { presentationData, setPresentationData } = usePresentationDataStore.getState();
+        if (!presentationData || presentationData.id !== saved.presentationId) return;
+
+        const local = presentationData.slides;
+        const localById = new Map(local.map((slide) => [slide.id, slide]));
+        // Keep editor-only fields (image properties, ...) of known slides
+        const serverSlides = withIndexes(
+            server.slides.map((slide) => ({ ...localById.get(slide.id), ...slide })),
+        );
+        const theirs = diffCollabSlides(saved.slides, serverSlides);
+        const ours = diffCollabSlides(saved.slides, local);
+        const kept = ours.filter((op) => !theirs.some((other) => editsOverlap(op, other)));
+        const merged = withIndexes(kept.reduce(applyCollabOp, serverSlides));
+
+        savedRef.current = {
+            presentationId: saved.presentationId,
+            version: server.version ?? null,
+            slides: serverSlides,
+        };
+        const mergedIds = new Set(merged.map((slide) => slide.id));
+        const lost = ours.some(
+            (op) =>
+                !kept.includes(op) ||
+                ((op.type === 'set' || op.type === 'set_field') && !mergedIds.has(op.slide_id)),
+        );
+        if (lost) {
+            toast.warning('This presentation was changed elsewhere', {
+                description: 'Where your edits overlapped, the saved version was kept.',
+            });
+        }
+        if (diffCollabSlides(local, merged).length > 0 || presentationData.version !== server.version) {
+            setPresentationData({ ...presentationData, version: server.version, slides: merged });
         }
+    }, []);
 
-        // Set new timeout
-        saveTimeoutRef.current = setTimeout(async () => {
-            if (!data || isSaving) return;
+    /**
+     * Sends the changes made since the last save.
+     *
+     * @returns Whether all changes were saved; false if there was nothing
+     *   to save or the changes have to be sent again after a rebase.
+     */
+    const saveChanges = useCallback(async (): Promise<boolean> => {
+        const { presentationData, setPresentationData } = usePresentationDataStore.getState();
+        const saved = savedRef.current;
+        if (!presentationData?.slides || !saved || saved.presentationId !== presentationData.id) return false;
+        const slides = presentationData.slides;
 
-            const currentDataString = JSON.stringify(data);
+        // Changes address slides by ID, so new slides need one first
+        if (slides.some((slide) => !slide.id)) {
+            setPresentationData({
+                ...presentationData,
+                slides: slides.map((slide) => (slide.id ? slide : { ...slide, id: uuidv4() })),
+            });
+            return false;
+        }
+        // Without versions (e.g. right after generation), changes could
+        // overwrite edits made elsewhere, so start from the server's state
+        if (saved.version === null || saved.slides.some((slide) => slide.version === undefined)) {
+            await rebase(saved);
+            return false;
+        }
 
-            // Skip if data hasn't changed since last save
-            if (currentDataString === lastSavedDataRef.current) {
-                return;
-            }
+        // Slides replaced by a newer server copy (AI edit, restore) are
+        // already saved
+        const currentById = new Map(slides.map((slide) => [slide.id, slide]));
+        saved.slides = saved.slides.map((slide) => {
+            const current = currentById.get(slide.id);
+            return current?.version !== undefined && current.version > (slide.version ?? 0) ? current : slide;
+        });
 
-            try {
-                setIsSaving(true);
-                console.log('🔄 Auto-saving presentation data...');
+        const ops = diffCollabSlides(saved.slides, slides);
+        if (ops.length === 0) return false;
 
-                // Call the API to update presentation content
-                await PresentationGenerationApi.updatePresentationContent(data as unknown as { id: string; [key: string]: unknown });
+        const presentationId = saved.presentationId;
+        const applySaved = (op: CollabOp, versions: Map<string | null, number>) => {
+            saved.slides = withIndexes(applyCollabOp(saved.slides, op)).map((slide) =>
+                versions.has(slide.id) ? { ...slide, version: versions.get(slide.id) } : slide,
+            );
+        };
 
-                // Update last saved data reference
-                lastSavedDataRef.current = currentDataString;
-                
-                // Update last saved timestamp
-                setLastSavedAt(new Date());
+        // Slide list changes first, in the order the diff lists them
+        for (const op of ops) {
+            if (op.type === 'set' || op.type === 'set_field') continue;
+            const result: SlideSaveResult<ServerSlideList> =
+                op.type === 'insert_slide'
+                    ? await SlidesApi.insertSlide(presentationId, saved.version, op.slide, op.index)
+                    : op.type === 'delete_slide'
+                        ? await SlidesApi.removeSlide(presentationId, saved.version, op.slide_id)
+                        : await SlidesApi.reorderSlides(presentationId, saved.version, op.order);
+            if (result.status === 'conflict') {
+                await rebase(saved);
+                return false;
+            }
+            saved.version = result.data.version;
+            // Only the new slide's version: other slides may have changed on
+            // the server in ways not reflected in `saved` yet
+            const inserted =
+                op.type === 'insert_slide'
+                    ? result.data.slides.find((slide) => slide.id === op.slide.id)
+                    : undefined;
+            applySaved(op, new Map(inserted ? [[inserted.id, inserted.version]] : []));
+        }
 
-                console.log('✅ Auto-save successful');
+        // Then one request per changed slide
+        const bySlide = new Map<string, CollabOp[]>();
+        for (const op of ops) {
+            if (op.type !== 'set' && op.type !== 'set_field') continue;
+            bySlide.set(op.slide_id, [...(bySlide.get(op.slide_id) ?? []), op]);
+        }
+        for (const [slideId, slideOps] of bySlide) {
+            const update: SlideUpdate = { changes: [] };
+            for (const op of slideOps) {
+                if (op.type === 'set') update.changes!.push({ path: op.path, value: op.value });
+                if (op.type === 'set_field') update[op.field] = op.value;
+            }
+            const version = saved.slides.find((slide) => slide.id === slideId)?.version ?? null;
+            const result = await SlidesApi.updateSlide(slideId, version, update);
+            if (result.status === 'conflict') {
+                await rebase(saved);
+                return false;
+            }
+            const versions = new Map([[slideId, result.data.version]]);
+            slideOps.forEach((op) => applySaved(op, versions));
+        }
+        return true;
+    }, [rebase]);
 
+    /**
+     * Runs one save at a time; a save requested while one runs follows it.
+     */
+    const saveNow = useCallback(async () => {
+        if (saveTimeoutRef.current) {
+            clearTimeout(saveTimeoutRef.current);
+            saveTimeoutRef.current = null;
+        }
+        if (!saveToServerRef.current) return;
+        while (savingRef.current) await savingRef.current;
+
+        const run = async () => {
+            try {
+                setIsSaving(true);
+                if (await saveChanges()) setLastSavedAt(new Date());
             } catch (error) {
                 console.error('❌ Auto-save failed:', error);
-
             } finally {
                 setIsSaving(false);
             }
+        };
+        savingRef.current = run().finally(() => {
+            savingRef.current = null;
+        });
+        await savingRef.current;
+    }, [saveChanges]);
+
+    // Debounced save function
+    const debouncedSave = useCallback(() => {
+        // Clear existing timeout
+        if (saveTimeoutRef.current) {
+            clearTimeout(saveTimeoutRef.current);
+        }
+
+        // Set new timeout
+        saveTimeoutRef.current = setTimeout(() => {
+            saveTimeoutRef.current = null;
+            void saveNow();
         }, debounceMs);
-    }, [debounceMs, isSaving]);
+    }, [debounceMs, saveNow]);
+
+    // Take the slides as the server's state when they come from the server:
+    // on load, and whenever a newer version is loaded (generation, ...)
+    useEffect(() => {
+        if (!presentationData?.slides) return;
+        const saved = savedRef.current;
+        if (
+            !saved ||
+            saved.presentationId !== presentationData.id ||
+            (presentationData.version ?? 0) > (saved.version ?? 0)
+        ) {
+            savedRef.current = {
+                presentationId: presentationData.id,
+                version: presentationData.version ?? null,
+                slides: presentationData.slides,
+            };
+        }
+    }, [presentationData]);
 
     // Effect to trigger auto-save when presentation data changes
     useEffect(() => {
-        if (!enabled || !presentationData || isStreaming || isLoading || isLayoutLoading ) return;
-        
+        if (!enabled || !presentationData || isStreaming || isLoading || isLayoutLoading || isRegenerating) return;
+        // Viewers open the deck read-only
+        if (presentationData.role === "viewer") return;
+
         addToHistory(presentationData.slides, "AUTO_SAVE");
         // Trigger debounced save
-        debouncedSave(presentationData);
-       
+        debouncedSave();
+
         // Cleanup timeout on unmount
         return () => {
             if (saveTimeoutRef.current) {
                 clearTimeout(saveTimeoutRef.current);
             }
         };
-    }, [presentationData, enabled, debouncedSave, isLoading, isStreaming, isLayoutLoading, addToHistory]);
-    
+    }, [presentationData, enabled, debouncedSave, isLoading, isStreaming, isLayoutLoading, isRegenerating, addToHistory]);
+
     return {
         isSaving,
         lastSavedAt,
+        saveNow,
     };
 };
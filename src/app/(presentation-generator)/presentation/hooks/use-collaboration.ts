@@ -0,0 +1,342 @@
+/**
+ * React hook that syncs the open presentation with other editors in real
+ * time.
+ *
+ * When a collaboration server is configured, the editor joins the
+ * presentation's session over WebSocket instead of saving the whole deck
+ * through the REST API. Local edits are diffed against the last synced
+ * slides and sent as operations (see `@/utils/collab`); operations from
+ * others are merged in as they arrive.
+ *
+ * The hook keeps two versions of the slides:
+ * - confirmed: The server's state as far as this tab knows
+ * - pending: Local operations the server has not acknowledged yet
+ * What the editor shows is confirmed + pending. A remote operation is
+ * applied to confirmed and the pending ones are replayed on top, so a local
+ * edit the server has not seen yet is never overwritten by an older remote
+ * one. Pending operations survive disconnects and are resent on reconnect.
+ */
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import { toast } from "sonner";
+import { v4 as uuidv4 } from "uuid";
+import {
+  useCollaborationStore,
+  usePresentationDataStore,
+  usePresentationUIStore,
+} from "@/stores";
+import type { Slide } from "@/types/slide";
+import {
+  applyCollabOp,
+  diffCollabSlides,
+  type CollabClientMessage,
+  type CollabOpEnvelope,
+  type CollabPresence,
+  type CollabServerMessage,
+} from "@/utils/collab";
+import { CollabApi } from "../../services/api/collab";
+
+/**
+ * Delay in milliseconds for batching local edits into one message.
+ */
+const SEND_DELAY_MS = 150;
+
+/**
+ * Minimum interval in milliseconds between presence updates.
+ */
+const PRESENCE_INTERVAL_MS = 50;
+
+/**
+ * Longest wait in milliseconds between reconnect attempts.
+ */
+const MAX_RECONNECT_DELAY_MS = 30000;
+
+/**
+ * Close codes after which reconnecting would not help: the presentation is
+ * gone (4404), or the user was removed or made a viewer (4403).
+ */
+const FATAL_CLOSE_CODES = new Set([4403, 4404]);
+
+/**
+ * Renumbers slides after they were added, removed or moved.
+ */
+const withIndexes = (slides: Slide[]): Slide[] =>
+  slides.map((slide, index) =>
+    slide.index === index ? slide : { ...slide, index },
+  );
+
+/**
+ * Hook for real-time collaborative editing of a presentation.
+ *
+ * @param presentationId - Unique identifier of the presentation.
+ * @param enabled - Whether to join the session. The presenter window does
+ *   not edit and stays out.
+ * @returns Object containing:
+ *   - updatePresence: Reports this tab's slide, edited field and pointer
+ *     to the other collaborators. Fields not passed keep their value.
+ */
+export const useCollaboration = (presentationId: string, enabled: boolean) => {
+  const hasSlides = usePresentationDataStore(
+    (state) =>
+      state.presentationData?.id === presentationId &&
+      !!state.presentationData.slides,
+  );
+  const presentationData = usePresentationDataStore(
+    (state) => state.presentationData,
+  );
+  const isStreaming = usePresentationUIStore((state) => state.isStreaming);
+  // Joining waits for the first generation to finish; later ones keep the
+  // connection and are synced when they end
+  const [canJoin, setCanJoin] = useState(false);
+
+  const socketRef = useRef<WebSocket | null>(null);
+  const welcomedRef = useRef(false);
+  const sessionIdRef = useRef<string | null>(null);
+  const confirmedRef = useRef<Slide[] | null>(null);
+  const pendingRef = useRef<CollabOpEnvelope[]>([]);
+  // Slides as last diffed, the baseline for the next local diff
+  const syncedRef = useRef<Slide[] | null>(null);
+  const sendTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const presenceRef = useRef<CollabPresence>({
+    slide_id: null,
+    data_path: null,
+    pointer: null,
+  });
+  const presenceTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  const send = useCallback((message: CollabClientMessage) => {
+    const socket = socketRef.current;
+    if (socket?.readyState === WebSocket.OPEN && welcomedRef.current) {
+      socket.send(JSON.stringify(message));
+    }
+  }, []);
+
+  /**
+   * Turns local edits made since the last diff into pending operations and
+   * sends them.
+   */
+  const captureLocalChanges = useCallback(() => {
+    if (sendTimerRef.current) {
+      clearTimeout(sendTimerRef.current);
+      sendTimerRef.current = null;
+    }
+    const { presentationData, setPresentationData } =
+      usePresentationDataStore.getState();
+    const slides = presentationData?.slides;
+    if (!presentationData || !slides || !syncedRef.current) return;
+    if (usePresentationUIStore.getState().isStreaming) return;
+
+    // Operations address slides by ID, so new slides need one first
+    if (slides.some((slide) => !slide.id)) {
+      setPresentationData({
+        ...presentationData,
+        slides: slides.map((slide) =>
+          slide.id ? slide : { ...slide, id: uuidv4() },
+        ),
+      });
+      return;
+    }
+
+    const ops = diffCollabSlides(syncedRef.current, slides);
+    syncedRef.current = slides;
+    if (ops.length === 0) return;
+
+    const envelopes = ops.map((op) => ({ id: uuidv4(), op }));
+    pendingRef.current.push(...envelopes);
+    useCollaborationStore.getState().setPending(pendingRef.current.length);
+    send({ type: "ops", ops: envelopes });
+  }, [send]);
+
+  /**
+   * Shows confirmed + pending in the editor.
+   */
+  const showMergedSlides = useCallback(() => {
+    const { presentationData, setPresentationData } =
+      usePresentationDataStore.getState();
+    if (!presentationData || !confirmedRef.current) return;
+    if (usePresentationUIStore.getState().isStreaming) return;
+
+    const slides = withIndexes(
+      pendingRef.current.reduce(
+        (merged, envelope) => applyCollabOp(merged, envelope.op),
+        confirmedRef.current,
+      ),
+    );
+    syncedRef.current = slides;
+    setPresentationData({ ...presentationData, slides });
+  }, []);
+
+  const handleMessage = useCallback(
+    (message: CollabServerMessage) => {
+      const collab = useCollaborationStore.getState();
+      switch (message.type) {
+        case "welcome": {
+          captureLocalChanges();
+          const local = new Map(
+            (syncedRef.current ?? []).map((slide) => [slide.id, slide]),
+          );
+          // Keep editor-only fields (image properties, ...) of known slides
+          confirmedRef.current = withIndexes(
+            (message.slides as unknown as Slide[]).map((slide) => ({
+              ...local.get(slide.id),
+              ...slide,
+            })),
+          );
+          sessionIdRef.current = message.session_id;
+          welcomedRef.current = true;
+          collab.setSession(message.session_id, message.peers);
+          collab.setStatus("connected");
+          showMergedSlides();
+          if (pendingRef.current.length > 0) {
+            send({ type: "ops", ops: pendingRef.current });
+          }
+          send({ type: "presence", ...presenceRef.current });
+          break;
+        }
+        case "ops": {
+          if (!confirmedRef.current) return;
+          const isOwn = message.session_id === sessionIdRef.current;
+          if (!isOwn) captureLocalChanges();
+          for (const envelope of message.ops) {
+            confirmedRef.current = applyCollabOp(
+              confirmedRef.current,
+              envelope.op,
+            );
+          }
+          if (isOwn) {
+            const acked = new Set(message.ops.map((envelope) => envelope.id));
+            pendingRef.current = pendingRef.current.filter(
+              (envelope) => !acked.has(envelope.id),
+            );
+            collab.setPending(pendingRef.current.length);
+          } else {
+            showMergedSlides();
+          }
+          break;
+        }
+        case "presence":
+          collab.upsertPeer(message.peer);
+          break;
+        case "leave":
+          collab.removePeer(message.session_id);
+          break;
+        case "error":
+          console.error("Collaboration server:", message.message);
+          break;
+      }
+    },
+    [captureLocalChanges, showMergedSlides, send],
+  );
+
+  useEffect(() => {
+    if (hasSlides && !isStreaming) setCanJoin(true);
+  }, [hasSlides, isStreaming]);
+
+  // Join the session once the slides are loaded; reconnect when it drops
+  useEffect(() => {
+    if (!enabled || !canJoin) return;
+
+    let cancelled = false;
+    let attempts = 0;
+    let retryTimer: ReturnType<typeof setTimeout> | null = null;
+    const collab = useCollaborationStore.getState();
+
+    const scheduleReconnect = () => {
+      if (cancelled) return;
+      collab.setStatus("offline");
+      const delay = Math.min(MAX_RECONNECT_DELAY_MS, 1000 * 2 ** attempts);
+      attempts++;
+      retryTimer = setTimeout(connect, delay);
+    };
+
+    const connect = async () => {
+      if (cancelled) return;
+      if (!syncedRef.current) {
+        syncedRef.current =
+          usePresentationDataStore.getState().presentationData?.slides ?? [];
+      }
+      collab.setStatus(attempts === 0 ? "connecting" : "offline");
+
+      let url: string;
+      try {
+        const session = await CollabApi.createSession(presentationId);
+        if (!session.enabled || !session.url || !session.ticket) {
+          syncedRef.current = null;
+          if (!cancelled) collab.setStatus("off");
+          return;
+        }
+        url = `${session.url}?ticket=${encodeURIComponent(session.ticket)}`;
+      } catch {
+        scheduleReconnect();
+        return;
+      }
+      if (cancelled) return;
+
+      const socket = new WebSocket(url);
+      socketRef.current = socket;
+      socket.onopen = () => {
+        attempts = 0;
+      };
+      socket.onmessage = (event) => {
+        try {
+          handleMessage(JSON.parse(event.data) as CollabServerMessage);
+        } catch (error) {
+          console.error("Failed to handle collaboration message:", error);
+        }
+      };
+      socket.onclose = (event) => {
+        if (socketRef.current === socket) socketRef.current = null;
+        welcomedRef.current = false;
+        if (cancelled) return;
+        if (FATAL_CLOSE_CODES.has(event.code)) {
+          collab.setStatus("offline");
+          toast.error(event.reason || "Live editing is not available");
+          return;
+        }
+        scheduleReconnect();
+      };
+    };
+
+    connect();
+
+    return () => {
+      cancelled = true;
+      if (retryTimer) clearTimeout(retryTimer);
+      captureLocalChanges();
+      socketRef.current?.close(1000, "Editor closed");
+      socketRef.current = null;
+      welcomedRef.current = false;
+      useCollaborationStore.getState().reset();
+    };
+  }, [enabled, canJoin, presentationId, handleMessage, captureLocalChanges]);
+
+  // Batch local edits shortly after they happen
+  useEffect(() => {
+    if (!syncedRef.current || !presentationData) return;
+    if (presentationData.slides === syncedRef.current) return;
+    if (sendTimerRef.current) clearTimeout(sendTimerRef.current);
+    sendTimerRef.current = setTimeout(captureLocalChanges, SEND_DELAY_MS);
+  }, [presentationData, captureLocalChanges]);
+
+  // Once generation ends, send what it produced and merge in what others
+  // changed meanwhile
+  useEffect(() => {
+    if (isStreaming || !welcomedRef.current) return;
+    captureLocalChanges();
+    showMergedSlides();
+  }, [isStreaming, captureLocalChanges, showMergedSlides]);
+
+  const updatePresence = useCallback(
+    (presence: Partial<CollabPresence>) => {
+      presenceRef.current = { ...presenceRef.current, ...presence };
+      if (presenceTimerRef.current) return;
+      presenceTimerRef.current = setTimeout(() => {
+        presenceTimerRef.current = null;
+        send({ type: "presence", ...presenceRef.current });
+      }, PRESENCE_INTERVAL_MS);
+    },
+    [send],
+  );
+
+  return { updatePresence };
+};
@@ -22,12 +22,14 @@ import { useRouter, useSearchParams } from "next/navigation";
  * @param setIsFullscreen - Callback to update fullscreen state.
  * @returns Object containing navigation state and handler functions:
  *   - isPresentMode: Whether presentation is in present mode.
+ *   - isPresenterMode: Whether this window is the presenter view.
  *   - stream: Stream parameter from URL.
  *   - currentSlide: Current slide index from URL or selected slide.
  *   - handleSlideClick: Function to navigate to a slide by index.
  *   - toggleFullscreen: Function to toggle fullscreen mode.
  *   - handlePresentExit: Function to exit presentation mode.
- *   - handleSlideChange: Function to change slide in presentation mode.
+ *   - handleSlideChange: Function to change slide in present or presenter
+ *     mode, keeping the current mode in the URL.
  */
 export const usePresentationNavigation = (
   presentationId: string,
@@ -39,6 +41,7 @@ export const usePresentationNavigation = (
   const searchParams = useSearchParams();
 
   const isPresentMode = searchParams.get("mode") === "present";
+  const isPresenterMode = searchParams.get("mode") === "presenter";
   const stream = searchParams.get("stream");
   const currentSlide = parseInt(
     searchParams.get("slide") || `${selectedSlide}` || "0"
@@ -73,15 +76,17 @@ export const usePresentationNavigation = (
   const handleSlideChange = useCallback((newSlide: number, presentationData: any) => {
     if (newSlide >= 0 && newSlide < presentationData?.slides.length!) {
       setSelectedSlide(newSlide);
+      const mode = isPresenterMode ? "presenter" : "present";
       router.push(
-        `/presentation?id=${presentationId}&mode=present&slide=${newSlide}`,
+        `/presentation?id=${presentationId}&mode=${mode}&slide=${newSlide}`,
         { scroll: false }
       );
     }
-  }, [router, presentationId, setSelectedSlide]);
+  }, [router, presentationId, setSelectedSlide, isPresenterMode]);
 
   return {
     isPresentMode,
+    isPresenterMode,
     stream,
     currentSlide,
     handleSlideClick,
@@ -5,6 +5,10 @@
  * Handles incremental slide updates, delta patches, and presentation metadata.
  * Processes JSON chunks, repairs malformed JSON, and updates presentation state
  * in real-time with optimized rendering using requestAnimationFrame.
+ *
+ * Generation runs as a server-side job, so a dropped connection is not an
+ * error: the hook reconnects with the last event ID it received and the
+ * server replays the events it missed.
  */
 
 import { useEffect, useRef, startTransition } from "react";
@@ -14,12 +18,23 @@ import { MixpanelEvent, trackEvent } from "@/utils/mixpanel";
 import { usePresentationUIStore, usePresentationDataStore, type PresentationData } from "@/stores";
 import type { Slide } from "@/types/slide";
 
+/**
+ * Maximum number of reconnects after the browser gave up on the stream.
+ */
+const MAX_STREAM_RECONNECT_ATTEMPTS = 5;
+
+/**
+ * Base delay in milliseconds between reconnects; doubles on every attempt.
+ */
+const STREAM_RECONNECT_BASE_DELAY_MS = 1000;
+
 /**
  * Hook for managing presentation streaming from Server-Sent Events.
  *
  * Connects to an SSE endpoint and processes streaming presentation data,
  * including slides, deltas, and metadata. Handles JSON repair for malformed
  * chunks, manages slide state updates, and provides loading/error callbacks.
+ * Resumes the stream transparently after a dropped connection.
  *
  * @param presentationId - Unique identifier of the presentation being streamed.
  * @param stream - Stream parameter from URL (e.g., "true" to enable streaming).
@@ -56,6 +71,8 @@ export const usePresentationStreaming = (
   const expectedSlidesRef = useRef<number | null>(null);
   const streamCompletedRef = useRef(false);
   const slidesCompleteNotifiedRef = useRef(false);
+  const lastEventIdRef = useRef<string | null>(null);
+  const reconnectAttemptsRef = useRef(0);
 
   // Update ref when hasExistingData changes (for use inside effect)
   useEffect(() => {
@@ -65,6 +82,7 @@ export const usePresentationStreaming = (
   useEffect(() => {
     let eventSource: EventSource;
     let accumulatedChunks = "";
+    let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
 
     const clearStreamParam = () => {
       const newUrl = new URL(window.location.href);
@@ -248,6 +266,8 @@ export const usePresentationStreaming = (
       expectedSlidesRef.current = null;
       streamCompletedRef.current = false;
       slidesCompleteNotifiedRef.current = false;
+      lastEventIdRef.current = null;
+      reconnectAttemptsRef.current = 0;
       if (rafRef.current !== null) {
         cancelAnimationFrame(rafRef.current);
         rafRef.current = null;
@@ -255,11 +275,27 @@ export const usePresentationStreaming = (
 
       trackEvent(MixpanelEvent.Presentation_Stream_API_Call);
 
+      connect();
+    };
+
+    /**
+     * Opens the EventSource, passing the last received event ID so the
+     * server replays what was missed instead of starting over.
+     */
+    const connect = () => {
+      const streamUrl = `/api/v1/presentations/stream/${presentationId}`;
+      const lastEventId = lastEventIdRef.current;
       eventSource = new EventSource(
-        `/api/v1/presentations/stream/${presentationId}`,
+        lastEventId
+          ? `${streamUrl}?last_event_id=${encodeURIComponent(lastEventId)}`
+          : streamUrl,
       );
 
       eventSource.addEventListener("response", (event) => {
+        if (event.lastEventId) {
+          lastEventIdRef.current = event.lastEventId;
+          reconnectAttemptsRef.current = 0;
+        }
         const data = JSON.parse(event.data);
         const isStreamComplete = () => {
           const expected =
@@ -291,6 +327,8 @@ export const usePresentationStreaming = (
           case "slides_init": {
             hasSlideEventsRef.current = true;
             if (Array.isArray(data.slides) && data.slides.length > 0) {
+              // Sent again when a resumed job replays its state
+              finalizedSlidesRef.current = new Set();
               const cloned = deepClone(data.slides);
               slidesRef.current = cloned;
               placeholderSlidesRef.current = deepClone(cloned);
@@ -512,6 +550,25 @@ export const usePresentationStreaming = (
               description: `${closingSlideCount} slides created successfully`,
             });
             break;
+          case "cancelled": {
+            startTransition(() => {
+              setPresentationData(data.presentation);
+            });
+            setLoading(false);
+            setStreaming(false);
+            isStreamingActiveRef.current = false;
+            finalizedSlidesRef.current = new Set();
+            placeholderSlidesRef.current = null;
+            expectedSlidesRef.current = null;
+            streamCompletedRef.current = false;
+            slidesCompleteNotifiedRef.current = false;
+            clearStreamParam();
+            eventSource.close();
+            toast.info("Generation stopped", {
+              description: "Slides generated so far were kept.",
+            });
+            break;
+          }
           case "error":
             eventSource.close();
             isStreamingActiveRef.current = false;
@@ -531,6 +588,15 @@ export const usePresentationStreaming = (
       });
 
       eventSource.onerror = (error) => {
+        if (!isStreamingActiveRef.current) {
+          eventSource.close();
+          return;
+        }
+        // The browser is already reconnecting and will send Last-Event-ID
+        if (eventSource.readyState === EventSource.CONNECTING) {
+          console.log("[usePresentationStreaming] Connection lost, resuming");
+          return;
+        }
         console.error("EventSource error:", error);
         const expected =
           expectedSlidesRef.current ??
@@ -544,6 +610,16 @@ export const usePresentationStreaming = (
           setLoading(false);
           setStreaming(false);
           clearStreamParam();
+        } else if (
+          reconnectAttemptsRef.current < MAX_STREAM_RECONNECT_ATTEMPTS
+        ) {
+          // The browser gave up; the job is still running on the server
+          eventSource.close();
+          const delay =
+            STREAM_RECONNECT_BASE_DELAY_MS * 2 ** reconnectAttemptsRef.current;
+          reconnectAttemptsRef.current += 1;
+          reconnectTimer = setTimeout(connect, delay);
+          return;
         } else {
           // No slides loaded - this is a real error
           setLoading(false);
@@ -586,6 +662,9 @@ export const usePresentationStreaming = (
     }
 
     return () => {
+      if (reconnectTimer !== null) {
+        clearTimeout(reconnectTimer);
+      }
       if (eventSource) {
         eventSource.close();
         // Ensure streaming is marked as complete on cleanup
@@ -0,0 +1,98 @@
+/**
+ * React hook that keeps the audience and presenter windows on the same slide.
+ *
+ * Both windows of a presentation join a BroadcastChannel named after the
+ * presentation. Whenever one of them changes slide it broadcasts the new
+ * index, and the other follows. A window that opens asks for the current
+ * slide instead of announcing its own, so opening the presenter view never
+ * moves the audience.
+ */
+
+import { useEffect, useRef } from "react";
+
+/**
+ * Messages exchanged between the windows of a presentation.
+ *
+ * - "slide": The sender is now showing slide `index`
+ * - "sync_request": The sender just opened and wants the current slide
+ */
+export type PresenterSyncMessage =
+  | { type: "slide"; index: number }
+  | { type: "sync_request" };
+
+/**
+ * Builds the BroadcastChannel name of a presentation.
+ *
+ * @param presentationId - Unique identifier of the presentation.
+ * @returns The channel name.
+ */
+const getChannelName = (presentationId: string): string =>
+  `presentation-sync-${presentationId}`;
+
+/**
+ * Hook for syncing the current slide with other windows of a presentation.
+ *
+ * @param presentationId - Unique identifier of the presentation.
+ * @param currentSlide - Slide this window is showing (0-based).
+ * @param onRemoteSlide - Called when another window moved to a different
+ *   slide; should navigate this window there.
+ * @param enabled - Whether to sync; windows outside present and presenter
+ *   mode do not take part.
+ */
+export const usePresenterSync = (
+  presentationId: string,
+  currentSlide: number,
+  onRemoteSlide: (index: number) => void,
+  enabled: boolean = true,
+) => {
+  const channelRef = useRef<BroadcastChannel | null>(null);
+  const currentSlideRef = useRef(currentSlide);
+  const onRemoteSlideRef = useRef(onRemoteSlide);
+  currentSlideRef.current = currentSlide;
+  onRemoteSlideRef.current = onRemoteSlide;
+
+  useEffect(() => {
+    if (!enabled || typeof BroadcastChannel === "undefined") return;
+
+    const channel = new BroadcastChannel(getChannelName(presentationId));
+    channelRef.current = channel;
+    channel.onmessage = (event: MessageEvent<PresenterSyncMessage>) => {
+      const message = event.data;
+      if (message?.type === "sync_request") {
+        channel.postMessage({
+          type: "slide",
+          index: currentSlideRef.current,
+        } satisfies PresenterSyncMessage);
+      } else if (
+        message?.type === "slide" &&
+        message.index !== currentSlideRef.current
+      ) {
+        onRemoteSlideRef.current(message.index);
+      }
+    };
+    channel.postMessage({ type: "sync_request" } satisfies PresenterSyncMessage);
+
+    return () => {
+      channel.close();
+      channelRef.current = null;
+    };
+  }, [presentationId, enabled]);
+
+  // Announce slide changes. A window that follows a remote change announces
+  // the same index back, which the sender ignores as it is already there
+  const announcedRef = useRef<number | null>(null);
+  useEffect(() => {
+    if (!enabled || !channelRef.current) return;
+    if (announcedRef.current === null) {
+      // First render: the sync request above asks for the slide instead
+      announcedRef.current = currentSlide;
+      return;
+    }
+    if (announcedRef.current === currentSlide) return;
+    announcedRef.current = currentSlide;
+    channelRef.current.postMessage({
+      type: "slide",
+      index: currentSlide,
+    } satisfies PresenterSyncMessage);
+  }, [currentSlide, enabled]);
+};
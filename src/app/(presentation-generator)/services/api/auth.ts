@@ -0,0 +1,121 @@
+/**
+ * Authentication API client.
+ *
+ * Provides methods for registering, signing in and out, and reading the
+ * signed-in user. Sessions are kept in HTTP-only cookies set by the server,
+ * so callers never handle tokens directly.
+ */
+
+import { getHeader } from "@/app/(presentation-generator)/services/api/header";
+import { ApiResponseHandler } from "@/app/(presentation-generator)/services/api/api-error-handler";
+
+/**
+ * Signed-in user as returned by the auth API.
+ *
+ * @property id - Unique user identifier.
+ * @property email - Email address used to sign in.
+ * @property name - Optional display name.
+ * @property auth_provider - Provider that manages the account.
+ * @property created_at - ISO timestamp when the account was created.
+ */
+export interface AuthUser {
+  id: string;
+  email: string;
+  name: string | null;
+  auth_provider: "local" | "supabase";
+  created_at: string;
+}
+
+/**
+ * Response from register and login requests.
+ *
+ * @property user - The signed-in user, or null when the provider requires
+ *   email confirmation before the first sign-in.
+ * @property confirmation_required - True if a confirmation email was sent.
+ */
+export interface AuthResponse {
+  user: AuthUser | null;
+  confirmation_required?: boolean;
+}
+
+/**
+ * Authentication API client class.
+ *
+ * Provides static methods for the `/api/v1/auth` endpoints.
+ */
+export class AuthApi {
+  /**
+   * Signs in with email and password.
+   *
+   * @param email - Account email.
+   * @param password - Account password.
+   * @returns Promise resolving to the signed-in user.
+   * @throws Error if the credentials are wrong or the request fails.
+   */
+  static async login(email: string, password: string): Promise<AuthResponse> {
+    const response = await fetch("/api/v1/auth/login", {
+      method: "POST",
+      headers: getHeader(),
+      body: JSON.stringify({ email, password }),
+    });
+    return ApiResponseHandler.handleResponse<AuthResponse>(
+      response,
+      "Failed to sign in",
+    );
+  }
+
+  /**
+   * Creates an account and signs it in.
+   *
+   * @param email - Account email.
+   * @param password - Account password.
+   * @param name - Optional display name.
+   * @returns Promise resolving to the new user (or a confirmation notice).
+   * @throws Error if registration is closed, the email is taken or the
+   *   request fails.
+   */
+  static async register(
+    email: string,
+    password: string,
+    name?: string,
+  ): Promise<AuthResponse> {
+    const response = await fetch("/api/v1/auth/register", {
+      method: "POST",
+      headers: getHeader(),
+      body: JSON.stringify({ email, password, name }),
+    });
+    return ApiResponseHandler.handleResponse<AuthResponse>(
+      response,
+      "Failed to create account",
+    );
+  }
+
+  /**
+   * Signs the current user out.
+   *
+   * @returns Promise that resolves once the session is cleared.
+   * @throws Error if the request fails.
+   */
+  static async logout(): Promise<void> {
+    const response = await fetch("/api/v1/auth/logout", {
+      method: "POST",
+      headers: getHeader(),
+    });
+    await ApiResponseHandler.handleResponse(response, "Failed to sign out");
+  }
+
+  /**
+   * Fetches the signed-in user.
+   *
+   * @returns Promise resolving to the user, or null if nobody is signed in.
+   */
+  static async me(): Promise<AuthUser | null> {
+    const response = await fetch("/api/v1/auth/me", { method: "GET" });
+    if (response.status === 401) return null;
+    const data = await ApiResponseHandler.handleResponse<{ user: AuthUser }>(
+      response,
+      "Failed to load account",
+    );
+    return data?.user ?? null;
+  }
+}
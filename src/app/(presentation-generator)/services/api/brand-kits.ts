@@ -0,0 +1,225 @@
+/**
+ * Brand kits API client.
+ *
+ * Manages the user's brand kits: colors, fonts, logos and footer text that
+ * are applied to the slides of any template. Kits are loaded once per page
+ * and cached, since every slide on screen renders with its presentation's
+ * kit.
+ */
+
+import { getHeader, getHeaderForFormData } from "./header";
+import { ApiResponseHandler } from "./api-error-handler";
+import type { BrandKit, ExtractedBrand } from "@/utils/color-schemes";
+
+/**
+ * Fields sent to create or update a brand kit.
+ */
+export type BrandKitPayload = Partial<
+  Pick<
+    BrandKit,
+    "name" | "colors" | "heading_font" | "body_font" | "logos" | "footer_text"
+  >
+>;
+
+/**
+ * Kits loaded by ID, shared by every slide on the page.
+ */
+const kitCache = new Map<string, Promise<BrandKit | null>>();
+
+/**
+ * Brand kits API client class.
+ */
+export class BrandKitsApi {
+  /**
+   * Lists the user's brand kits.
+   *
+   * @returns Promise resolving to the kits, by name.
+   * @throws Error if the request fails.
+   */
+  static async listBrandKits() {
+    try {
+      const response = await fetch(`/api/v1/brand-kits`, {
+        method: "GET",
+        headers: getHeader(),
+        cache: "no-cache",
+      });
+
+      const data = await ApiResponseHandler.handleResponse<{
+        kits: BrandKit[];
+      }>(response, "Failed to load brand kits");
+      return data.kits;
+    } catch (error) {
+      console.error("error in loading brand kits", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Loads a brand kit, from the cache when it was loaded before.
+   *
+   * @param kit_id - Unique identifier of the kit.
+   * @returns Promise resolving to the kit, or null if it cannot be loaded.
+   */
+  static getBrandKit(kit_id: string) {
+    let kit = kitCache.get(kit_id);
+    if (!kit) {
+      kit = fetch(`/api/v1/brand-kits/${kit_id}`, {
+        method: "GET",
+        headers: getHeader(),
+        cache: "no-cache",
+      })
+        .then((response) =>
+          ApiResponseHandler.handleResponse<BrandKit>(
+            response,
+            "Failed to load brand kit",
+          ),
+        )
+        .catch((error) => {
+          console.error("error in loading brand kit", error);
+          kitCache.delete(kit_id);
+          return null;
+        });
+      kitCache.set(kit_id, kit);
+    }
+    return kit;
+  }
+
+  /**
+   * Creates a brand kit.
+   *
+   * @param kit - The kit's fields; `name` and `colors` are required.
+   * @returns Promise resolving to the created kit.
+   * @throws Error if a field is invalid or the request fails.
+   */
+  static async createBrandKit(kit: BrandKitPayload) {
+    try {
+      const response = await fetch(`/api/v1/brand-kits`, {
+        method: "POST",
+        headers: getHeader(),
+        body: JSON.stringify(kit),
+        cache: "no-cache",
+      });
+
+      const created = await ApiResponseHandler.handleResponse<BrandKit>(
+        response,
+        "Failed to create brand kit",
+      );
+      kitCache.set(created.id, Promise.resolve(created));
+      return created;
+    } catch (error) {
+      console.error("error in creating brand kit", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Updates a brand kit. Only the sent fields change.
+   *
+   * @param kit_id - Unique identifier of the kit.
+   * @param kit - Fields to change.
+   * @returns Promise resolving to the updated kit.
+   * @throws Error if a field is invalid or the request fails.
+   */
+  static async updateBrandKit(kit_id: string, kit: BrandKitPayload) {
+    try {
+      const response = await fetch(`/api/v1/brand-kits/${kit_id}`, {
+        method: "PATCH",
+        headers: getHeader(),
+        body: JSON.stringify(kit),
+        cache: "no-cache",
+      });
+
+      const updated = await ApiResponseHandler.handleResponse<BrandKit>(
+        response,
+        "Failed to save brand kit",
+      );
+      kitCache.set(updated.id, Promise.resolve(updated));
+      return updated;
+    } catch (error) {
+      console.error("error in saving brand kit", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Deletes a brand kit. Presentations using it go back to their
+   * template's own styling.
+   *
+   * @param kit_id - Unique identifier of the kit.
+   * @throws Error if the request fails.
+   */
+  static async deleteBrandKit(kit_id: string) {
+    try {
+      const response = await fetch(`/api/v1/brand-kits/${kit_id}`, {
+        method: "DELETE",
+        headers: getHeader(),
+        cache: "no-cache",
+      });
+
+      await ApiResponseHandler.handleResponse(
+        response,
+        "Failed to delete brand kit",
+      );
+      kitCache.delete(kit_id);
+    } catch (error) {
+      console.error("error in deleting brand kit", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Uploads a font file for use in a brand kit.
+   *
+   * @param file - TTF, OTF, WOFF or WOFF2 file.
+   * @returns Promise resolving to the font's name and URL.
+   * @throws Error if the upload fails.
+   */
+  static async uploadFont(file: File) {
+    try {
+      const formData = new FormData();
+      formData.append("font_file", file);
+      const response = await fetch(`/api/v1/fonts`, {
+        method: "POST",
+        headers: getHeaderForFormData(),
+        body: formData,
+      });
+
+      return await ApiResponseHandler.handleResponse<{
+        font_name: string;
+        font_url: string;
+      }>(response, "Failed to upload font");
+    } catch (error) {
+      console.error("error in uploading font", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Extracts a brand palette and fonts from a logo, website screenshot or
+   * existing deck. Nothing is saved.
+   *
+   * @param file - Image, or PPTX file.
+   * @returns Promise resolving to the extracted color scheme, its contrast
+   *   checks and font suggestions.
+   * @throws Error if the file is not supported or cannot be read.
+   */
+  static async extractBrand(file: File) {
+    try {
+      const formData = new FormData();
+      formData.append("file", file);
+      const response = await fetch(`/api/v1/brand-kits/extract`, {
+        method: "POST",
+        headers: getHeaderForFormData(),
+        body: formData,
+      });
+
+      return await ApiResponseHandler.handleResponse<ExtractedBrand>(
+        response,
+        "Failed to extract brand",
+      );
+    } catch (error) {
+      console.error("error in extracting brand", error);
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,51 @@
+/**
+ * Collaboration session API client.
+ *
+ * Asks the app for a ticket to the collaboration server of a presentation.
+ * The live session itself runs over WebSocket (see useCollaboration).
+ */
+
+import { getHeader } from "./header";
+import { ApiResponseHandler } from "./api-error-handler";
+
+/**
+ * Collaboration server to connect to.
+ *
+ * @property enabled - False when no collaboration server is configured.
+ * @property url - WebSocket URL of the collaboration server.
+ * @property ticket - Short-lived ticket to pass when connecting.
+ */
+export interface CollabSessionInfo {
+  enabled: boolean;
+  url: string | null;
+  ticket: string | null;
+}
+
+/**
+ * Collaboration API client class.
+ */
+export class CollabApi {
+  /**
+   * Requests a ticket to a presentation's collaboration session.
+   *
+   * @param presentation_id - Unique identifier of the presentation.
+   * @returns Promise resolving to the server URL and ticket, or
+   *   `{ enabled: false }` when collaboration is not configured.
+   * @throws Error if the presentation does not exist or the request fails.
+   */
+  static async createSession(presentation_id: string) {
+    const response = await fetch(
+      `/api/v1/presentations/${presentation_id}/collab-session`,
+      {
+        method: "POST",
+        headers: getHeader(),
+        cache: "no-cache",
+      },
+    );
+
+    return await ApiResponseHandler.handleResponse<CollabSessionInfo>(
+      response,
+      "Failed to join the editing session",
+    );
+  }
+}
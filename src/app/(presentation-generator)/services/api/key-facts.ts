@@ -0,0 +1,130 @@
+/**
+ * Key facts API client.
+ *
+ * Loads, extracts and saves a presentation's key facts: the figures (ARR,
+ * raise, market size, ...) every slide states the same way. Saving a
+ * changed fact rewrites it on every slide that shows it.
+ */
+
+import { getHeader } from "./header";
+import { ApiResponseHandler } from "./api-error-handler";
+import type { ServerSlide } from "./slides";
+import type { KeyFact, KeyFactBinding } from "./types";
+
+/**
+ * Key facts of a presentation as returned by the server.
+ *
+ * @property facts - The facts, in order.
+ * @property bindings - Slide fields that show each fact's value.
+ * @property extracted - Whether facts were extracted from the source yet.
+ * @property version - Current version of the presentation.
+ * @property updated_slides - Slides the request rewrote.
+ * @property skipped_slides - IDs of slides not rewritten because they
+ *   changed in the meantime (saving only).
+ */
+export interface KeyFactsState {
+  facts: KeyFact[];
+  bindings: KeyFactBinding[];
+  extracted: boolean;
+  version: number;
+  updated_slides: ServerSlide[];
+  skipped_slides?: string[];
+}
+
+/**
+ * Key facts API client class.
+ */
+export class KeyFactsApi {
+  /**
+   * Loads a presentation's key facts and where they are used.
+   *
+   * @param presentation_id - Unique identifier of the presentation.
+   * @returns Promise resolving to the key facts.
+   * @throws Error if the request fails.
+   */
+  static async getKeyFacts(presentation_id: string) {
+    try {
+      const response = await fetch(
+        `/api/v1/presentations/${presentation_id}/key-facts`,
+        {
+          method: "GET",
+          headers: getHeader(),
+          cache: "no-cache",
+        },
+      );
+
+      return await ApiResponseHandler.handleResponse<KeyFactsState>(
+        response,
+        "Failed to load key facts",
+      );
+    } catch (error) {
+      console.error("error in loading key facts", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Extracts the key facts again from the presentation's prompt and
+   * documents, keeping the facts the user entered.
+   *
+   * @param presentation_id - Unique identifier of the presentation.
+   * @returns Promise resolving to the new key facts.
+   * @throws Error if the extraction fails.
+   */
+  static async extractKeyFacts(presentation_id: string) {
+    try {
+      const response = await fetch(
+        `/api/v1/presentations/${presentation_id}/key-facts`,
+        {
+          method: "POST",
+          headers: getHeader(),
+          cache: "no-cache",
+        },
+      );
+
+      return await ApiResponseHandler.handleResponse<KeyFactsState>(
+        response,
+        "Failed to extract key facts",
+      );
+    } catch (error) {
+      console.error("error in extracting key facts", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Saves a presentation's key facts and writes changed values into the
+   * slides bound to them.
+   *
+   * @param presentation_id - Unique identifier of the presentation.
+   * @param version - Presentation version the facts were loaded at.
+   * @param facts - The complete list of facts.
+   * @returns Promise resolving to the saved facts and the updated slides.
+   * @throws Error if the facts changed since `version` or the request fails.
+   */
+  static async updateKeyFacts(
+    presentation_id: string,
+    version: number,
+    facts: Pick<KeyFact, "key" | "label" | "value">[],
+  ) {
+    try {
+      const response = await fetch(
+        `/api/v1/presentations/${presentation_id}/key-facts`,
+        {
+          method: "PATCH",
+          headers: getHeader(),
+          body: JSON.stringify({ version, facts }),
+          cache: "no-cache",
+        },
+      );
+
+      return await ApiResponseHandler.handleResponse<KeyFactsState>(
+        response,
+        "Failed to save key facts",
+      );
+    } catch (error) {
+      console.error("error in saving key facts", error);
+      throw error;
+    }
+  }
+}
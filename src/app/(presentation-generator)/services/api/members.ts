@@ -0,0 +1,105 @@
+/**
+ * Presentation member API client.
+ *
+ * Provides methods for the owner of a presentation to invite other users
+ * to edit or view it, list its members and remove them.
+ */
+
+import { getHeader } from "./header";
+import { ApiResponseHandler } from "./api-error-handler";
+import type { PresentationMember } from "./types";
+
+/**
+ * Presentation member API client class.
+ */
+export class MembersApi {
+  /**
+   * Lists the members of a presentation.
+   *
+   * @param presentation_id - Unique identifier of the presentation.
+   * @returns Promise resolving to the members, in order of invitation.
+   * @throws Error if the request fails.
+   */
+  static async listMembers(presentation_id: string) {
+    try {
+      const response = await fetch(
+        `/api/v1/presentations/${presentation_id}/members`,
+        {
+          method: "GET",
+          headers: getHeader(),
+          cache: "no-cache",
+        },
+      );
+
+      return await ApiResponseHandler.handleResponse<{
+        members: PresentationMember[];
+      }>(response, "Failed to load members");
+    } catch (error) {
+      console.error("error in loading members", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Invites a user to a presentation, or changes a member's role.
+   *
+   * @param presentation_id - Unique identifier of the presentation.
+   * @param email - Email address of the user's account.
+   * @param role - "editor" or "viewer".
+   * @returns Promise resolving to the membership.
+   * @throws Error if no account has the email or the request fails.
+   */
+  static async inviteMember(
+    presentation_id: string,
+    email: string,
+    role: PresentationMember["role"],
+  ) {
+    try {
+      const response = await fetch(
+        `/api/v1/presentations/${presentation_id}/members`,
+        {
+          method: "POST",
+          headers: getHeader(),
+          body: JSON.stringify({ email, role }),
+          cache: "no-cache",
+        },
+      );
+
+      return await ApiResponseHandler.handleResponse<PresentationMember>(
+        response,
+        "Failed to invite member",
+      );
+    } catch (error) {
+      console.error("error in inviting member", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Removes a member from a presentation.
+   *
+   * @param presentation_id - Unique identifier of the presentation.
+   * @param user_id - Unique identifier of the member's user.
+   * @throws Error if the user is not a member or the request fails.
+   */
+  static async removeMember(presentation_id: string, user_id: string) {
+    try {
+      const response = await fetch(
+        `/api/v1/presentations/${presentation_id}/members/${user_id}`,
+        {
+          method: "DELETE",
+          headers: getHeader(),
+          cache: "no-cache",
+        },
+      );
+
+      await ApiResponseHandler.handleResponse<void>(
+        response,
+        "Failed to remove member",
+      );
+    } catch (error) {
+      console.error("error in removing member", error);
+      throw error;
+    }
+  }
+}
@@ -9,11 +9,17 @@
 import { getHeader } from "./header";
 import type { PptxPresentationModel } from "@/types/pptx-models";
 import type { PresentationData } from "@/stores";
+import type { Slide } from "@/types/slide";
 import {
   IconSearch,
   ImageGenerate,
   PreviousGeneratedImagesResponse,
 } from "./params";
+import type {
+  DeckReview,
+  SlideRegenerationEvent,
+  SlideRevision,
+} from "./types";
 import { ApiResponseHandler } from "./api-error-handler";
 
 /**
@@ -41,6 +47,7 @@ export class PresentationGenerationApi {
    * @param include_table_of_contents - Whether to include TOC slide.
    * @param include_title_slide - Whether to include title slide.
    * @param web_search - Whether to enable web search for content.
+   * @param brand_kit - ID of the brand kit to style the slides with.
    * @returns Promise resolving to the created presentation data.
    * @throws Error if presentation creation fails.
    */
@@ -56,6 +63,7 @@ export class PresentationGenerationApi {
     include_table_of_contents,
     include_title_slide,
     web_search,
+    brand_kit,
   }: {
     content: string;
     n_slides: number | null;
@@ -68,6 +76,7 @@ export class PresentationGenerationApi {
     include_table_of_contents?: boolean;
     include_title_slide?: boolean;
     web_search?: boolean;
+    brand_kit?: string | null;
   }) {
     try {
       const response = await fetch(`/api/v1/presentations`, {
@@ -85,6 +94,7 @@ export class PresentationGenerationApi {
           include_table_of_contents,
           include_title_slide,
           web_search,
+          brand_kit,
         }),
         cache: "no-cache",
       });
@@ -132,6 +142,296 @@ export class PresentationGenerationApi {
     }
   }
 
+  /**
+   * Moves a slide to another layout.
+   *
+   * The content must already be migrated to the new layout (see
+   * migrateSlideContent); fields listed in `missing` are rewritten by the
+   * LLM from the slide's previous content.
+   *
+   * @param slide_id - Unique identifier of the slide.
+   * @param change - The new layout, its schema, the migrated content, the
+   *   fields still holding sample content and optionally the slide version
+   *   the change is based on.
+   * @returns Promise resolving to the updated slide data.
+   * @throws Error if the slide changed meanwhile or the request fails.
+   */
+  static async changeSlideLayout(
+    slide_id: string,
+    change: {
+      layout: string;
+      layout_group: string;
+      json_schema: unknown;
+      content: Record<string, unknown>;
+      missing: string[];
+      version?: number;
+    },
+  ) {
+    try {
+      const response = await fetch(`/api/v1/slides/${slide_id}/layout`, {
+        method: "POST",
+        headers: getHeader(),
+        body: JSON.stringify(change),
+        cache: "no-cache",
+      });
+
+      return await ApiResponseHandler.handleResponse(
+        response,
+        "Failed to change slide layout",
+      );
+    } catch (error) {
+      console.error("error in slide layout change", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Moves every slide of a presentation to another template.
+   *
+   * Each slide entry carries its new layout and its content migrated to it;
+   * fields listed in `missing` are rewritten by the LLM. The presentation's
+   * layout becomes the new template.
+   *
+   * @param presentation_id - Unique identifier of the presentation.
+   * @param change - The new template's layout payload, one entry per slide
+   *   and optionally the presentation version the change is based on.
+   * @returns Promise resolving to the updated presentation and all its
+   *   slides.
+   * @throws Error if the presentation or a slide changed meanwhile (nothing
+   *   is changed then) or the request fails.
+   */
+  static async changePresentationTemplate(
+    presentation_id: string,
+    change: {
+      layout: { name: string; ordered: boolean; slides: unknown[] };
+      slides: Array<{
+        id: string;
+        layout: string;
+        content: Record<string, unknown>;
+        missing: string[];
+      }>;
+      version?: number;
+    },
+  ) {
+    try {
+      const response = await fetch(
+        `/api/v1/presentations/${presentation_id}/template`,
+        {
+          method: "POST",
+          headers: getHeader(),
+          body: JSON.stringify(change),
+          cache: "no-cache",
+        },
+      );
+
+      return await ApiResponseHandler.handleResponse<{
+        presentation: { version: number; layout: unknown };
+        slides: Slide[];
+      }>(response, "Failed to change presentation template");
+    } catch (error) {
+      console.error("error in presentation template change", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Regenerates slides of a presentation from their outlines.
+   *
+   * Streams the new content as it is generated; each slide's prior content
+   * is kept in its history. Locked fields keep their values.
+   *
+   * @param presentation_id - Unique identifier of the presentation.
+   * @param request - IDs of the slides and the data paths each one keeps.
+   * @param onEvent - Called for every streamed event.
+   * @returns Promise resolving when the stream ends.
+   * @throws Error if regeneration cannot start or the stream fails.
+   */
+  static async regenerateSlides(
+    presentation_id: string,
+    request: { slide_ids: string[]; locked?: Record<string, string[]> },
+    onEvent: (event: SlideRegenerationEvent) => void,
+  ) {
+    try {
+      const response = await fetch(
+        `/api/v1/presentations/${presentation_id}/regenerate`,
+        {
+          method: "POST",
+          headers: getHeader(),
+          body: JSON.stringify(request),
+          cache: "no-cache",
+        },
+      );
+      await PresentationGenerationApi.readRegenerationStream(
+        response,
+        onEvent,
+      );
+    } catch (error) {
+      console.error("error in slide regeneration", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Regenerates a single slide from its outline.
+   *
+   * @param slide_id - Unique identifier of the slide.
+   * @param locked - Data paths of the fields to keep.
+   * @param onEvent - Called for every streamed event.
+   * @returns Promise resolving when the stream ends.
+   * @throws Error if regeneration cannot start or the stream fails.
+   */
+  static async regenerateSlide(
+    slide_id: string,
+    locked: string[],
+    onEvent: (event: SlideRegenerationEvent) => void,
+  ) {
+    try {
+      const response = await fetch(`/api/v1/slides/${slide_id}/regenerate`, {
+        method: "POST",
+        headers: getHeader(),
+        body: JSON.stringify({ locked }),
+        cache: "no-cache",
+      });
+      await PresentationGenerationApi.readRegenerationStream(
+        response,
+        onEvent,
+      );
+    } catch (error) {
+      console.error("error in slide regeneration", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Reads the SSE body of a regeneration response event by event.
+   *
+   * EventSource only supports GET, so the stream is read from the fetch
+   * response instead.
+   *
+   * @param response - Response of a regeneration request.
+   * @param onEvent - Called for every event.
+   * @throws Error for an error response or an `error` event.
+   */
+  private static async readRegenerationStream(
+    response: Response,
+    onEvent: (event: SlideRegenerationEvent) => void,
+  ) {
+    if (!response.ok || !response.body) {
+      await ApiResponseHandler.handleResponse(
+        response,
+        "Failed to regenerate slides",
+      );
+      return;
+    }
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = "";
+    for (;;) {
+      const { done, value } = await reader.read();
+      buffer += decoder.decode(value, { stream: !done });
+      const messages = buffer.split("\n\n");
+      buffer = done ? "" : (messages.pop() ?? "");
+      for (const message of messages) {
+        const data = message
+          .split("\n")
+          .find((line) => line.startsWith("data: "));
+        if (!data) continue;
+        const event = JSON.parse(data.slice(6)) as SlideRegenerationEvent;
+        if (event.type === "error") {
+          throw new Error(event.detail || "Failed to regenerate slides");
+        }
+        onEvent(event);
+      }
+      if (done) return;
+    }
+  }
+
+  /**
+   * Retrieves a slide's revision history.
+   *
+   * @param slide_id - Unique identifier of the slide.
+   * @returns Promise resolving to the slide's revisions, newest first.
+   * @throws Error if the request fails.
+   */
+  static async getSlideRevisions(slide_id: string) {
+    try {
+      const response = await fetch(`/api/v1/slides/${slide_id}/revisions`, {
+        method: "GET",
+        headers: getHeader(),
+        cache: "no-cache",
+      });
+
+      return await ApiResponseHandler.handleResponse<{
+        revisions: SlideRevision[];
+      }>(response, "Failed to load slide history");
+    } catch (error) {
+      console.error("error in loading slide history", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Restores a slide to an earlier revision.
+   *
+   * The restore is recorded as a new revision, so it can itself be undone
+   * by restoring the revision before it.
+   *
+   * @param revision_id - Unique identifier of the revision to restore.
+   * @returns Promise resolving to the restored slide data.
+   * @throws Error if the revision does not exist or the request fails.
+   */
+  static async restoreSlideRevision(revision_id: string) {
+    try {
+      const response = await fetch(
+        `/api/v1/slides/revisions/${revision_id}/restore`,
+        {
+          method: "POST",
+          headers: getHeader(),
+          cache: "no-cache",
+        },
+      );
+
+      return await ApiResponseHandler.handleResponse(
+        response,
+        "Failed to restore slide",
+      );
+    } catch (error) {
+      console.error("error in slide restore", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Reviews a presentation for investor readiness.
+   *
+   * Scores each slide and the deck and returns findings; those with an
+   * `edit_prompt` can be applied with editSlide.
+   *
+   * @param presentation_id - Unique identifier of the presentation.
+   * @returns Promise resolving to the deck's scorecard.
+   * @throws Error if the review fails.
+   */
+  static async reviewPresentation(presentation_id: string) {
+    try {
+      const response = await fetch(
+        `/api/v1/presentations/${presentation_id}/review`,
+        {
+          method: "POST",
+          headers: getHeader(),
+          cache: "no-cache",
+        },
+      );
+
+      return await ApiResponseHandler.handleResponse<DeckReview>(
+        response,
+        "Failed to review presentation",
+      );
+    } catch (error) {
+      console.error("error in presentation review", error);
+      throw error;
+    }
+  }
+
   /**
    * Updates presentation content and metadata.
    *
@@ -201,6 +501,75 @@ export class PresentationGenerationApi {
     }
   }
 
+  /**
+   * Stops the running slide generation of a presentation.
+   *
+   * Slides that already finished are kept. Clients following the stream
+   * receive a `cancelled` event once the job has stopped.
+   *
+   * @param presentationId - ID of the presentation being generated.
+   * @returns Promise resolving to the cancelled job.
+   * @throws Error if nothing is being generated or the request fails.
+   */
+  static async cancelGeneration(presentationId: string) {
+    try {
+      const response = await fetch(
+        `/api/v1/presentations/${presentationId}/cancel`,
+        {
+          method: "POST",
+          headers: getHeader(),
+          cache: "no-cache",
+        },
+      );
+
+      return await ApiResponseHandler.handleResponse(
+        response,
+        "Failed to stop generation",
+      );
+    } catch (error) {
+      console.error("error in cancelling generation", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Previews which layout each outline will use.
+   *
+   * Sends outlines and the selected template's layouts to the layout-plan
+   * endpoint, which matches them by content without saving anything.
+   *
+   * @param planData - Object containing outlines, layout, and optional
+   *   per-outline layout selections to keep.
+   * @returns Promise resolving to `{ slides, layouts }` with one entry per outline.
+   * @throws Error if planning fails.
+   */
+  static async planLayouts(planData: {
+    outlines: Array<{ content: string }>;
+    layout: Record<string, unknown>;
+    structure?: Array<{ layout_id: string; source: string } | null>;
+  }) {
+    try {
+      const response = await fetch(`/api/v1/presentations/layout-plan`, {
+        method: "POST",
+        headers: getHeader(),
+        body: JSON.stringify(planData),
+        cache: "no-cache",
+      });
+
+      return await ApiResponseHandler.handleResponse<{
+        slides: number[];
+        layouts?: Array<{
+          index: number;
+          layout_id: string | null;
+          source: "llm" | "keyword" | "user";
+        }>;
+      }>(response, "Failed to plan slide layouts");
+    } catch (error) {
+      console.error("error in layout planning", error);
+      throw error;
+    }
+  }
+
   // IMAGE AND ICON SEARCH
 
   /**
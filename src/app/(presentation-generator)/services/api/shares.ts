@@ -0,0 +1,234 @@
+/**
+ * Share link API client.
+ *
+ * Provides methods for the owner side of share links (create, list, revoke
+ * and view analytics) and for the public read-only viewer (open a shared
+ * deck and report how long each slide was shown).
+ */
+
+import { getHeader } from "./header";
+import { ApiResponseHandler } from "./api-error-handler";
+import type {
+  ShareAnalytics,
+  ShareLink,
+  ShareLinkSummary,
+  SharedPresentation,
+} from "./types";
+
+/**
+ * Settings of a new share link. All fields are optional.
+ *
+ * @property label - Name of the link, e.g. who it is sent to.
+ * @property password - Password viewers must enter.
+ * @property require_email - Whether viewers must enter their email.
+ * @property expires_at - ISO timestamp after which the link stops working.
+ */
+export interface ShareLinkOptions {
+  label?: string;
+  password?: string;
+  require_email?: boolean;
+  expires_at?: string;
+}
+
+/**
+ * Share link API client class.
+ */
+export class ShareApi {
+  /**
+   * Builds the public URL of a share link.
+   *
+   * @param token - Token of the share link.
+   * @returns Absolute URL viewers open.
+   */
+  static getShareUrl(token: string) {
+    return `${window.location.origin}/share/${token}`;
+  }
+
+  /**
+   * Lists the share links of a presentation with their visit counts.
+   *
+   * @param presentation_id - Unique identifier of the presentation.
+   * @returns Promise resolving to the links, newest first.
+   * @throws Error if the request fails.
+   */
+  static async listShareLinks(presentation_id: string) {
+    try {
+      const response = await fetch(
+        `/api/v1/presentations/${presentation_id}/share-links`,
+        {
+          method: "GET",
+          headers: getHeader(),
+          cache: "no-cache",
+        },
+      );
+
+      return await ApiResponseHandler.handleResponse<{
+        links: ShareLinkSummary[];
+      }>(response, "Failed to load share links");
+    } catch (error) {
+      console.error("error in loading share links", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Creates a share link for a presentation.
+   *
+   * @param presentation_id - Unique identifier of the presentation.
+   * @param options - Link settings.
+   * @returns Promise resolving to the created link.
+   * @throws Error if the settings are invalid or the request fails.
+   */
+  static async createShareLink(
+    presentation_id: string,
+    options: ShareLinkOptions,
+  ) {
+    try {
+      const response = await fetch(
+        `/api/v1/presentations/${presentation_id}/share-links`,
+        {
+          method: "POST",
+          headers: getHeader(),
+          body: JSON.stringify(options),
+          cache: "no-cache",
+        },
+      );
+
+      return await ApiResponseHandler.handleResponse<ShareLink>(
+        response,
+        "Failed to create share link",
+      );
+    } catch (error) {
+      console.error("error in creating share link", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Revokes a share link. It stops working immediately.
+   *
+   * @param link_id - Unique identifier of the share link.
+   * @returns Promise resolving to the revoked link.
+   * @throws Error if the link does not exist or the request fails.
+   */
+  static async revokeShareLink(link_id: string) {
+    try {
+      const response = await fetch(`/api/v1/share-links/${link_id}`, {
+        method: "DELETE",
+        headers: getHeader(),
+        cache: "no-cache",
+      });
+
+      return await ApiResponseHandler.handleResponse<ShareLink>(
+        response,
+        "Failed to revoke share link",
+      );
+    } catch (error) {
+      console.error("error in revoking share link", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Retrieves the view analytics of a presentation's share links.
+   *
+   * @param presentation_id - Unique identifier of the presentation.
+   * @returns Promise resolving to link, viewer and slide summaries.
+   * @throws Error if the request fails.
+   */
+  static async getShareAnalytics(presentation_id: string) {
+    try {
+      const response = await fetch(
+        `/api/v1/presentations/${presentation_id}/share-analytics`,
+        {
+          method: "GET",
+          headers: getHeader(),
+          cache: "no-cache",
+        },
+      );
+
+      return await ApiResponseHandler.handleResponse<ShareAnalytics>(
+        response,
+        "Failed to load view analytics",
+      );
+    } catch (error) {
+      console.error("error in loading view analytics", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Retrieves what a share link asks of its viewer. Public.
+   *
+   * @param token - Token of the share link.
+   * @returns Promise resolving to whether a password and email are needed.
+   * @throws Error if the link is unknown, revoked or expired.
+   */
+  static async getShareLinkInfo(token: string) {
+    const response = await fetch(`/api/v1/share/${token}`, {
+      method: "GET",
+      headers: getHeader(),
+      cache: "no-cache",
+    });
+
+    return await ApiResponseHandler.handleResponse<{
+      requires_password: boolean;
+      requires_email: boolean;
+    }>(response, "This link is not available");
+  }
+
+  /**
+   * Opens a shared presentation. Public.
+   *
+   * @param token - Token of the share link.
+   * @param body - Viewer ID, plus the password and email if the link asks
+   *   for them.
+   * @returns Promise resolving to the visit ID and the slides.
+   * @throws Error if the password is wrong or the link is not available.
+   */
+  static async openSharedPresentation(
+    token: string,
+    body: { viewer_id: string; password?: string; email?: string },
+  ) {
+    const response = await fetch(`/api/v1/share/${token}`, {
+      method: "POST",
+      headers: getHeader(),
+      body: JSON.stringify(body),
+      cache: "no-cache",
+    });
+
+    return await ApiResponseHandler.handleResponse<SharedPresentation>(
+      response,
+      "Failed to open presentation",
+    );
+  }
+
+  /**
+   * Reports how long slides were shown during a visit. Public.
+   *
+   * Uses `navigator.sendBeacon` so reports sent while the page is closing
+   * still arrive; falls back to a keepalive fetch. Never throws.
+   *
+   * @param token - Token of the share link.
+   * @param view_id - Visit ID returned when the deck was opened.
+   * @param events - Time spent per slide since the last report.
+   */
+  static reportShareEvents(
+    token: string,
+    view_id: string,
+    events: { slide_index: number; dwell_ms: number }[],
+  ) {
+    if (events.length === 0) return;
+    const url = `/api/v1/share/${token}/events`;
+    const body = JSON.stringify({ view_id, events });
+    if (navigator.sendBeacon?.(url, body)) return;
+    fetch(url, {
+      method: "POST",
+      headers: getHeader(),
+      body,
+      keepalive: true,
+    }).catch((error) => {
+      console.error("error in reporting share events", error);
+    });
+  }
+}
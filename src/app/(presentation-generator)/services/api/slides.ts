@@ -0,0 +1,186 @@
+/**
+ * Slide update API client.
+ *
+ * Saves editor changes slide by slide: content changes by data path,
+ * slide-level fields, and inserting, removing and reordering slides. Every
+ * call sends the version the change is based on, and the server rejects it
+ * with 409 if the slide or presentation changed since.
+ */
+
+import type { Slide } from "@/types/slide";
+import { getHeader } from "./header";
+import { ApiResponseHandler } from "./api-error-handler";
+
+/**
+ * Slide as returned by the server, with its current version.
+ */
+export type ServerSlide = Slide & { version: number };
+
+/**
+ * Presentation as returned by the slide list endpoints.
+ *
+ * @property id - Unique identifier of the presentation.
+ * @property version - Current version of the presentation.
+ * @property slides - All slides, in order.
+ */
+export interface ServerSlideList {
+  id: string;
+  version: number;
+  slides: ServerSlide[];
+}
+
+/**
+ * Result of a versioned write.
+ *
+ * - saved: The change was applied; `data` is the server's response
+ * - conflict: The slide or presentation changed since the sent version (or
+ *   no longer exists) and nothing was written
+ */
+export type SlideSaveResult<T> =
+  | { status: "saved"; data: T }
+  | { status: "conflict" };
+
+/**
+ * Change to a single slide.
+ *
+ * @property changes - Content changes by data path, applied in order.
+ * Other properties set slide-level fields (`layout`, `speaker_note`, ...).
+ */
+export type SlideUpdate = {
+  changes?: { path: string; value: unknown }[];
+} & Record<string, unknown>;
+
+/**
+ * Sends a versioned write and maps 404/409 to a conflict.
+ *
+ * @param url - Endpoint to call.
+ * @param method - HTTP method.
+ * @param version - Version the change is based on, sent as `If-Match`, or
+ *   null to write unconditionally.
+ * @param body - Request body, if any.
+ * @param errorMessage - Message for other failures.
+ * @returns The save result.
+ * @throws Error if the request fails for another reason.
+ */
+const sendVersioned = async <T>(
+  url: string,
+  method: string,
+  version: number | null,
+  body: unknown,
+  errorMessage: string,
+): Promise<SlideSaveResult<T>> => {
+  const headers: Record<string, string> = getHeader();
+  if (version !== null) headers["If-Match"] = `"${version}"`;
+  const response = await fetch(url, {
+    method,
+    headers,
+    body: body === undefined ? undefined : JSON.stringify(body),
+    cache: "no-cache",
+  });
+  if (response.status === 409 || response.status === 404) {
+    return { status: "conflict" };
+  }
+  return {
+    status: "saved",
+    data: await ApiResponseHandler.handleResponse<T>(response, errorMessage),
+  };
+};
+
+/**
+ * Slide update API client class.
+ */
+export class SlidesApi {
+  /**
+   * Changes a single slide.
+   *
+   * @param slide_id - Unique identifier of the slide.
+   * @param version - Slide version the change is based on, or null.
+   * @param update - Content changes and slide-level fields to set.
+   * @returns Promise resolving to the updated slide, or a conflict.
+   * @throws Error if the request fails.
+   */
+  static async updateSlide(
+    slide_id: string,
+    version: number | null,
+    update: SlideUpdate,
+  ) {
+    return sendVersioned<ServerSlide>(
+      `/api/v1/slides/${slide_id}`,
+      "PATCH",
+      version,
+      update,
+      "Failed to save slide",
+    );
+  }
+
+  /**
+   * Adds a slide to a presentation.
+   *
+   * @param presentation_id - Unique identifier of the presentation.
+   * @param version - Presentation version the insert is based on, or null.
+   * @param slide - The slide to add.
+   * @param index - Position of the new slide.
+   * @returns Promise resolving to the presentation's slides, or a conflict.
+   * @throws Error if the request fails.
+   */
+  static async insertSlide(
+    presentation_id: string,
+    version: number | null,
+    slide: Record<string, unknown>,
+    index: number,
+  ) {
+    return sendVersioned<ServerSlideList>(
+      `/api/v1/presentations/${presentation_id}/slides`,
+      "POST",
+      version,
+      { slide, index },
+      "Failed to add slide",
+    );
+  }
+
+  /**
+   * Removes a slide from a presentation.
+   *
+   * @param presentation_id - Unique identifier of the presentation.
+   * @param version - Presentation version the removal is based on, or null.
+   * @param slide_id - Unique identifier of the slide.
+   * @returns Promise resolving to the presentation's slides, or a conflict.
+   * @throws Error if the request fails.
+   */
+  static async removeSlide(
+    presentation_id: string,
+    version: number | null,
+    slide_id: string,
+  ) {
+    return sendVersioned<ServerSlideList>(
+      `/api/v1/presentations/${presentation_id}/slides/${slide_id}`,
+      "DELETE",
+      version,
+      undefined,
+      "Failed to delete slide",
+    );
+  }
+
+  /**
+   * Puts a presentation's slides in a new order.
+   *
+   * @param presentation_id - Unique identifier of the presentation.
+   * @param version - Presentation version the order is based on, or null.
+   * @param order - IDs of all slides in their new order.
+   * @returns Promise resolving to the presentation's slides, or a conflict.
+   * @throws Error if the request fails.
+   */
+  static async reorderSlides(
+    presentation_id: string,
+    version: number | null,
+    order: string[],
+  ) {
+    return sendVersioned<ServerSlideList>(
+      `/api/v1/presentations/${presentation_id}/slides`,
+      "PATCH",
+      version,
+      { order },
+      "Failed to reorder slides",
+    );
+  }
+}
@@ -5,6 +5,8 @@
  * and image asset responses used in API communication.
  */
 
+import type { Slide } from "@/types/slide";
+
 /**
  * Chart assignment response structure.
  *
@@ -62,4 +64,289 @@ export interface ImageAssetResponse {
   message:string;
   path:string;
   id:string;
-}
\ No newline at end of file
+}
+
+/**
+ * Slide revision structure.
+ *
+ * A snapshot of a slide taken after a change, as returned by the slide
+ * revisions endpoint.
+ *
+ * @property id - Unique identifier of the revision.
+ * @property slide_id - Unique identifier of the slide.
+ * @property slide_index - Position of the slide when the revision was taken.
+ * @property source - What produced the revision (e.g., "ai_edit", "autosave").
+ * @property layout - Layout identifier at the time, or null.
+ * @property content - Slide content at the time, or null.
+ * @property speaker_note - Speaker notes at the time, or null.
+ * @property created_at - ISO timestamp of the revision.
+ */
+export interface SlideRevision {
+  id: string;
+  slide_id: string;
+  slide_index: number;
+  source:
+    | "generation"
+    | "ai_edit"
+    | "ai_edit_html"
+    | "autosave"
+    | "import"
+    | "restore"
+    | "key_fact"
+    | "layout_change"
+    | "regeneration"
+    | "original";
+  layout: string | null;
+  content: Record<string, unknown> | null;
+  speaker_note: string | null;
+  created_at: string;
+}
+
+/**
+ * Share link structure, as returned by the share link endpoints.
+ *
+ * @property id - Unique identifier of the link.
+ * @property presentation - ID of the shared presentation.
+ * @property token - Token of the link; the viewer opens `/share/<token>`.
+ * @property label - Name given to the link, or null.
+ * @property has_password - Whether viewers must enter a password.
+ * @property require_email - Whether viewers must enter their email.
+ * @property expires_at - ISO timestamp after which the link stops working,
+ *   or null.
+ * @property revoked_at - ISO timestamp of when the link was revoked, or null.
+ * @property created_at - ISO timestamp of when the link was created.
+ */
+export interface ShareLink {
+  id: string;
+  presentation: string;
+  token: string;
+  label: string | null;
+  has_password: boolean;
+  require_email: boolean;
+  expires_at: string | null;
+  revoked_at: string | null;
+  created_at: string;
+}
+
+/**
+ * Share link with its status and visit counts.
+ *
+ * @property status - Whether the link currently works.
+ * @property views - Number of visits through the link.
+ * @property viewers - Number of distinct viewers.
+ * @property last_viewed_at - ISO timestamp of the latest activity, or null.
+ */
+export interface ShareLinkSummary extends ShareLink {
+  status: "active" | "expired" | "revoked";
+  views: number;
+  viewers: number;
+  last_viewed_at: string | null;
+}
+
+/**
+ * Engagement of one viewer of a shared presentation.
+ *
+ * @property viewer_id - Anonymous browser ID of the viewer.
+ * @property email - Email the viewer entered, or null.
+ * @property link_ids - IDs of the links the viewer came through.
+ * @property visits - Number of visits.
+ * @property first_seen_at - ISO timestamp of the first visit.
+ * @property last_seen_at - ISO timestamp of the latest activity.
+ * @property total_ms - Total time spent on slides.
+ * @property dwell_ms - Time spent per slide, indexed by slide.
+ * @property slides_seen - Number of slides the viewer stayed on.
+ * @property furthest_slide - Highest slide index seen, or -1.
+ * @property completed - Whether the viewer reached the last slide.
+ */
+export interface ShareViewerSummary {
+  viewer_id: string;
+  email: string | null;
+  link_ids: string[];
+  visits: number;
+  first_seen_at: string;
+  last_seen_at: string;
+  total_ms: number;
+  dwell_ms: number[];
+  slides_seen: number;
+  furthest_slide: number;
+  completed: boolean;
+}
+
+/**
+ * View analytics of a presentation's share links.
+ *
+ * @property links - Share links with visit counts.
+ * @property viewers - Viewers, most recently active first.
+ * @property slides - Per-slide totals: viewers who saw the slide and the
+ *   time they spent on it.
+ * @property slide_titles - Title of each slide, or null if it has none.
+ */
+export interface ShareAnalytics {
+  links: ShareLinkSummary[];
+  viewers: ShareViewerSummary[];
+  slides: {
+    slide_index: number;
+    viewers: number;
+    total_ms: number;
+    average_ms: number;
+  }[];
+  slide_titles: (string | null)[];
+}
+
+/**
+ * Member of a presentation, as returned by the member endpoints.
+ *
+ * @property id - Unique identifier of the membership.
+ * @property presentation - ID of the presentation.
+ * @property user_id - ID of the invited user.
+ * @property email - Email address of the invited user.
+ * @property name - Display name of the invited user, or null.
+ * @property role - "editor" to edit with the owner, "viewer" to read only.
+ * @property created_at - ISO timestamp of when the user was invited.
+ */
+export interface PresentationMember {
+  id: string;
+  presentation: string;
+  user_id: string;
+  email: string;
+  name: string | null;
+  role: "editor" | "viewer";
+  created_at: string;
+}
+
+/**
+ * Shared presentation as returned to the read-only viewer.
+ *
+ * @property view_id - ID of the visit, used to report slide dwell times.
+ * @property presentation - Presentation title, language and slides.
+ * @property templates - Layout code of the custom templates its slides use.
+ */
+export interface SharedPresentation {
+  view_id: string;
+  presentation: {
+    id: string;
+    title: string | null;
+    language: string;
+    slides: {
+      id: string;
+      index: number;
+      layout: string | null;
+      layout_group: string | null;
+      content: Record<string, unknown> | null;
+    }[];
+  };
+  templates: {
+    presentation_id: string;
+    name: string | null;
+    layouts: {
+      layout_id: string;
+      layout_name: string;
+      layout_code: string;
+      fonts: string[];
+    }[];
+  }[];
+}
+
+/**
+ * Finding of the investor-readiness review.
+ *
+ * @property type - What was checked (missing section, text density,
+ *   unsupported number, inconsistent metric, or the reviewer's feedback).
+ * @property severity - How serious the finding is.
+ * @property message - What is wrong.
+ * @property path - Data path of the field concerned, or null.
+ * @property edit_prompt - Instruction for the AI slide edit that fixes the
+ *   finding, or null if editing the slide cannot fix it.
+ */
+export interface ReviewIssue {
+  type:
+    | "missing_section"
+    | "text_density"
+    | "unsupported_number"
+    | "inconsistent_metric"
+    | "content";
+  severity: "error" | "warning" | "info";
+  message: string;
+  path: string | null;
+  edit_prompt: string | null;
+}
+
+/**
+ * Investor-readiness scorecard of a presentation.
+ *
+ * @property score - Overall score from 0 to 100.
+ * @property summary - The reviewer's verdict, or null if only the automated
+ *   checks ran.
+ * @property missing_sections - Canonical sections without a slide.
+ * @property issues - Findings about the deck as a whole.
+ * @property slides - Score, section and findings of each slide.
+ * @property reviewed_at - ISO 8601 timestamp of the review.
+ */
+export interface DeckReview {
+  score: number;
+  summary: string | null;
+  missing_sections: string[];
+  issues: ReviewIssue[];
+  slides: {
+    slide_id: string;
+    slide_index: number;
+    title: string | null;
+    section: string | null;
+    score: number;
+    issues: ReviewIssue[];
+  }[];
+  reviewed_at: string;
+}
+
+/**
+ * Key figure of a presentation, the value every slide states it with.
+ *
+ * @property key - Identifier of the fact ("arr", "raise", "tam", ...).
+ * @property label - Display name ("ARR").
+ * @property value - The value as shown on slides ("$1.2M").
+ * @property source - "source" if extracted from the prompt and documents,
+ *   "user" if entered or edited by the user.
+ */
+export interface KeyFact {
+  key: string;
+  label: string;
+  value: string;
+  source: "source" | "user";
+}
+
+/**
+ * Slide field that shows a key fact's value.
+ *
+ * @property key - Key of the fact.
+ * @property slide_id - ID of the slide.
+ * @property slide_index - Zero-based position of the slide.
+ * @property path - Data path of the field.
+ * @property text - The value as written in the field.
+ */
+export interface KeyFactBinding {
+  key: string;
+  slide_id: string;
+  slide_index: number;
+  path: string;
+  text: string;
+}
+
+/**
+ * Event streamed while slides regenerate from their outlines. `index` is
+ * the slide's position in the deck when regeneration started.
+ *
+ * - `slides_init`: The slides being regenerated, as they were
+ * - `slide_delta`: A content field as generated so far
+ * - `slide`: The saved slide, with its new version
+ * - `progress`: Completed/total slides
+ * - `complete`: The saved slides, and the IDs of slides skipped because they
+ *   were edited meanwhile
+ * - `error`: Regeneration stopped
+ */
+export type SlideRegenerationEvent =
+  | { type: "slides_init"; slides: Slide[] }
+  | { type: "slide_delta"; index: number; path: string; value: string }
+  | { type: "slide"; index: number; slide: Slide }
+  | { type: "progress"; completed: number; total: number; index?: number }
+  | { type: "complete"; slides: Slide[]; skipped_slides: string[] }
+  | { type: "error"; detail: string };
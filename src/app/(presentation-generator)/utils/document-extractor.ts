@@ -10,6 +10,10 @@
 
 import { extractText, getDocumentProxy } from "unpdf";
 import mammoth from "mammoth";
+import {
+  formatDocumentMarker,
+  joinPagesWithMarkers,
+} from "@/utils/document-markers";
 
 /**
  * Structure for extracted document data.
@@ -52,8 +56,9 @@ export interface ExtractionProgress {
 /**
  * Extracts text content from a PDF file.
  *
- * Uses unpdf (PDF.js wrapper) to extract all text from a PDF document,
- * merging text from all pages into a single string.
+ * Uses unpdf (PDF.js wrapper) to extract all text from a PDF document. Each
+ * page starts with a page marker ("[Page 3]") so passages retrieved during
+ * generation can be traced back to their page.
  *
  * @param file - PDF File object to extract text from.
  * @returns Extracted text content as a string.
@@ -62,8 +67,8 @@ export interface ExtractionProgress {
 async function extractTextFromPdf(file: File): Promise<string> {
   const arrayBuffer = await file.arrayBuffer();
   const pdf = await getDocumentProxy(new Uint8Array(arrayBuffer));
-  const { text } = await extractText(pdf, { mergePages: true });
-  return text;
+  const { text } = await extractText(pdf, { mergePages: false });
+  return joinPagesWithMarkers(text);
 }
 
 /**
@@ -281,9 +286,10 @@ export async function extractTextFromFiles(
 /**
  * Combines extracted documents into a single content string.
  *
- * Filters out empty documents and joins the remaining content with
- * separator lines ("---") between documents. Useful for combining
- * multiple document extracts into a single prompt or content block.
+ * Filters out empty documents, starts each remaining one with a document
+ * marker naming its file, and joins them with separator lines ("---")
+ * between documents. Useful for combining multiple document extracts into
+ * a single prompt or content block.
  *
  * @param documents - Array of extracted document objects.
  * @returns Combined content string with separators between documents.
@@ -291,10 +297,10 @@ export async function extractTextFromFiles(
  * @example
  * ```typescript
  * const combined = combineExtractedContent([
- *   { content: "Document 1", ... },
- *   { content: "Document 2", ... }
+ *   { fileName: "a.txt", content: "Document 1", ... },
+ *   { fileName: "b.txt", content: "Document 2", ... }
  * ]);
- * // Returns: "Document 1\n\n---\n\nDocument 2"
+ * // Returns: "[Document: a.txt]\nDocument 1\n\n---\n\n[Document: b.txt]\nDocument 2"
  * ```
  */
 export function combineExtractedContent(
@@ -302,7 +308,7 @@ export function combineExtractedContent(
 ): string {
   return documents
     .filter((doc) => doc.content.length > 0)
-    .map((doc) => doc.content)
+    .map((doc) => `${formatDocumentMarker(doc.fileName)}\n${doc.content}`)
     .join("\n\n---\n\n");
 }
 
@@ -0,0 +1,111 @@
+/**
+ * Talk pacing helpers for the presenter view.
+ *
+ * Each slide gets a target time proportional to how long its speaker notes
+ * take to say, so a slide with a long story gets more time than a title
+ * slide. Targets are scaled to fit the total duration the presenter picks.
+ */
+
+/**
+ * Approximate speaking rate in words per minute.
+ */
+export const WORDS_PER_MINUTE = 130;
+
+/**
+ * Minimum time in seconds a slide is planned for, even without notes.
+ */
+const MIN_SLIDE_SECONDS = 20;
+
+/**
+ * Matches characters of scripts written without spaces between words.
+ */
+const CJK_CHARACTERS =
+  /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}]/gu;
+
+/**
+ * Counts the words of speaker notes.
+ *
+ * CJK text has no spaces, so every two CJK characters count as a word.
+ *
+ * @param note - Speaker notes, or undefined.
+ * @returns Approximate number of spoken words.
+ */
+export const countSpokenWords = (note: string | null | undefined): number => {
+  const text = note?.trim();
+  if (!text) return 0;
+  const cjk = text.match(CJK_CHARACTERS)?.length ?? 0;
+  const words = text
+    .replace(CJK_CHARACTERS, " ")
+    .split(/\s+/)
+    .filter(Boolean).length;
+  return words + Math.ceil(cjk / 2);
+};
+
+/**
+ * Estimates how long speaker notes take to say.
+ *
+ * @param note - Speaker notes, or undefined.
+ * @returns Estimated seconds, at least MIN_SLIDE_SECONDS.
+ */
+export const estimateSlideSeconds = (
+  note: string | null | undefined,
+): number =>
+  Math.max(
+    MIN_SLIDE_SECONDS,
+    Math.round((countSpokenWords(note) / WORDS_PER_MINUTE) * 60),
+  );
+
+/**
+ * Suggests a total talk duration from the speaker notes.
+ *
+ * @param notes - Speaker notes of every slide, in order.
+ * @returns Suggested duration in whole minutes (at least 1).
+ */
+export const suggestTalkMinutes = (
+  notes: Array<string | null | undefined>,
+): number => {
+  const seconds = notes.reduce<number>(
+    (sum, note) => sum + estimateSlideSeconds(note),
+    0,
+  );
+  return Math.max(1, Math.round(seconds / 60));
+};
+
+/**
+ * Plans the target time of each slide for a talk of a given length.
+ *
+ * @param notes - Speaker notes of every slide, in order.
+ * @param totalSeconds - Planned length of the whole talk.
+ * @returns Target seconds per slide, summing to `totalSeconds`.
+ *
+ * @example
+ * ```typescript
+ * planSlideTargets(["", "A long story about traction..."], 300);
+ * // [~60, ~240]: the second slide gets more of the five minutes
+ * ```
+ */
+export const planSlideTargets = (
+  notes: Array<string | null | undefined>,
+  totalSeconds: number,
+): number[] => {
+  const estimates = notes.map(estimateSlideSeconds);
+  const estimated = estimates.reduce((sum, seconds) => sum + seconds, 0);
+  if (estimated === 0) return estimates;
+  return estimates.map((seconds) =>
+    Math.round((seconds / estimated) * totalSeconds),
+  );
+};
+
+/**
+ * Formats a number of seconds as "m:ss", with a minus sign when negative.
+ *
+ * @param seconds - Seconds to format.
+ * @returns Formatted duration (e.g., "4:05", "-0:30").
+ */
+export const formatDuration = (seconds: number): string => {
+  const sign = seconds < 0 ? "-" : "";
+  const value = Math.abs(Math.round(seconds));
+  const minutes = Math.floor(value / 60);
+  const rest = value % 60;
+  return `${sign}${minutes}:${rest.toString().padStart(2, "0")}`;
+};
@@ -56,6 +56,7 @@ export enum LanguageType {
   ChineseSimplified = "Chinese (Simplified - 中文, 汉语)",
   ChineseTraditional = "Chinese (Traditional - 中文, 漢語)",
   Japanese = "Japanese (日本語)",
+  Korean = "Korean (한국어)",
   Arabic = "Arabic (العربية)",
   Hindi = "Hindi (हिन्दी)",
   Bengali = "Bengali (বাংলা)",
@@ -162,6 +163,8 @@ export enum LanguageType {
  * @property includeTableOfContents - Whether to include a table of contents slide.
  * @property includeTitleSlide - Whether to include a title slide.
  * @property webSearch - Whether to enable web search for content generation.
+ * @property brandKitId - ID of the brand kit to style the slides with, or
+ *   null for the template's own styling.
  */
 export interface PresentationConfig {
   slides: string | null;
@@ -173,6 +176,7 @@ export interface PresentationConfig {
   includeTableOfContents: boolean;
   includeTitleSlide: boolean;
   webSearch: boolean;
+  brandKitId: string | null;
 }
 
 /**
@@ -0,0 +1,342 @@
+import { NextResponse } from "next/server";
+import { v4 as uuidv4 } from "uuid";
+import {
+  claimLegacyRecordsIfFirstUser,
+  getCurrentUser,
+  hashPassword,
+  LOGIN_LOCKOUT,
+  MIN_PASSWORD_LENGTH,
+  verifyPassword,
+} from "@/server/auth";
+import {
+  reserveLoginAttempt,
+  resetLoginAttempts,
+} from "@/server/db/login-attempts";
+import {
+  countUsers,
+  createUser,
+  getPasswordHashByEmail,
+  getUserByEmail,
+  UserRecord,
+} from "@/server/db/users";
+import {
+  createSessionToken,
+  getAuthProvider,
+  getSessionCookieOptions,
+  SESSION_COOKIE_NAME,
+} from "@/server/session";
+import { createClient as createSupabaseClient } from "@/utils/supabase/server";
+import { errorResponse, jsonResponse } from "../../ppt/utils/responses";
+
+/**
+ * Runtime configuration for this API route.
+ * - nodejs: Runs on Node.js runtime (required for database and crypto access)
+ * - force-dynamic: Always generates dynamic responses (no caching)
+ */
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+/**
+ * Credentials payload for registration and sign-in.
+ */
+type CredentialsPayload = {
+  email?: string;
+  password?: string;
+  name?: string | null;
+};
+
+/**
+ * Loose email check; the address is only used as a login identifier.
+ */
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+/**
+ * Reads and validates the credentials from a request body.
+ *
+ * @param request - The HTTP request with a JSON body.
+ * @returns Normalized credentials, or an error message.
+ */
+const readCredentials = async (
+  request: Request,
+): Promise<
+  | { email: string; password: string; name: string | null }
+  | { error: string }
+> => {
+  const body = (await request.json().catch(() => ({}))) as CredentialsPayload;
+  const email = typeof body.email === "string" ? body.email.trim() : "";
+  const password = typeof body.password === "string" ? body.password : "";
+  if (!EMAIL_PATTERN.test(email)) {
+    return { error: "A valid email is required" };
+  }
+  if (!password) {
+    return { error: "password is required" };
+  }
+  const name =
+    typeof body.name === "string" && body.name.trim() ? body.name.trim() : null;
+  return { email, password, name };
+};
+
+/**
+ * Reads the client IP of a request from the proxy headers.
+ *
+ * @param request - The HTTP request.
+ * @returns The first `X-Forwarded-For` address, `X-Real-IP`, or "unknown"
+ *   when the app is reached without a proxy.
+ */
+const getClientIp = (request: Request): string =>
+  request.headers.get("x-forwarded-for")?.split(",")[0]?.trim() ||
+  request.headers.get("x-real-ip")?.trim() ||
+  "unknown";
+
+/**
+ * Answers a sign-in attempt made while the email or IP is locked.
+ *
+ * @param lockedUntil - ISO 8601 timestamp until which attempts are refused.
+ * @returns A 429 error response with a `Retry-After` header.
+ */
+const loginLockedResponse = (lockedUntil: string) => {
+  const retryAfter = Math.max(
+    1,
+    Math.ceil((Date.parse(lockedUntil) - Date.now()) / 1000),
+  );
+  const response = errorResponse(
+    "Too many failed sign-in attempts. Please try again later.",
+    429,
+  );
+  response.headers.set("Retry-After", String(retryAfter));
+  return response;
+};
+
+/**
+ * Checks whether new local accounts may be registered.
+ *
+ * The first account can always be created so a fresh instance can be set up.
+ * After that, `AUTH_ALLOW_SIGNUP=false` closes registration.
+ *
+ * @returns True if registration is open.
+ */
+const isSignupAllowed = async (): Promise<boolean> => {
+  if (process.env.AUTH_ALLOW_SIGNUP?.trim().toLowerCase() !== "false") {
+    return true;
+  }
+  return (await countUsers()) === 0;
+};
+
+/**
+ * Builds a response that signs a local user in.
+ *
+ * @param user - The authenticated user.
+ * @param status - HTTP status code (default: 200).
+ * @returns JSON response with the user and a fresh session cookie.
+ */
+const signedInResponse = (user: UserRecord, status = 200) => {
+  const response = NextResponse.json({ user }, { status });
+  response.cookies.set(
+    SESSION_COOKIE_NAME,
+    createSessionToken(user.id),
+    getSessionCookieOptions(),
+  );
+  return response;
+};
+
+/**
+ * Registers a new account.
+ *
+ * Local provider: creates the user, hands unowned legacy records to the very
+ * first account and signs the user in. Supabase provider: signs the user up
+ * with Supabase Auth; if the project requires email confirmation, no session
+ * is created yet and `confirmation_required` is returned.
+ *
+ * @param request - The HTTP request with `{ email, password, name? }`.
+ * @returns A JSON response with `user`, or an error response.
+ */
+const handleRegister = async (request: Request) => {
+  const credentials = await readCredentials(request);
+  if ("error" in credentials) return errorResponse(credentials.error);
+  if (credentials.password.length < MIN_PASSWORD_LENGTH) {
+    return errorResponse(
+      `Password must be at least ${MIN_PASSWORD_LENGTH} characters`,
+    );
+  }
+
+  if (getAuthProvider() === "supabase") {
+    const supabase = await createSupabaseClient();
+    const { data, error } = await supabase.auth.signUp({
+      email: credentials.email,
+      password: credentials.password,
+      options: { data: { full_name: credentials.name } },
+    });
+    if (error) return errorResponse(error.message);
+    if (!data.session) {
+      return jsonResponse({ user: null, confirmation_required: true }, 201);
+    }
+    return jsonResponse({ user: await getCurrentUser() }, 201);
+  }
+
+  if (!(await isSignupAllowed())) {
+    return errorResponse("Registration is closed on this instance", 403);
+  }
+  if (await getUserByEmail(credentials.email)) {
+    return errorResponse("An account with this email already exists", 409);
+  }
+
+  const user = await createUser({
+    id: uuidv4(),
+    email: credentials.email,
+    name: credentials.name,
+    password_hash: await hashPassword(credentials.password),
+    auth_provider: "local",
+  });
+  await claimLegacyRecordsIfFirstUser(user);
+  return signedInResponse(user, 201);
+};
+
+/**
+ * Signs a user in with email and password.
+ *
+ * Local provider: attempts are counted per email address and per client IP
+ * before the password is checked; too many wrong ones in a row lock either
+ * out for a while (see LOGIN_LOCKOUT).
+ *
+ * @param request - The HTTP request with `{ email, password }`.
+ * @returns A JSON response with `user`, 401 for wrong credentials, or 429
+ *   with `Retry-After` while the email or IP is locked.
+ */
+const handleLogin = async (request: Request) => {
+  const credentials = await readCredentials(request);
+  if ("error" in credentials) return errorResponse(credentials.error);
+
+  if (getAuthProvider() === "supabase") {
+    const supabase = await createSupabaseClient();
+    const { error } = await supabase.auth.signInWithPassword({
+      email: credentials.email,
+      password: credentials.password,
+    });
+    if (error) return errorResponse("Invalid email or password", 401);
+    return jsonResponse({ user: await getCurrentUser() });
+  }
+
+  const keys = [
+    `email:${credentials.email.toLowerCase()}`,
+    `ip:${getClientIp(request)}`,
+  ];
+  const attempts = await Promise.all(
+    keys.map((key) => reserveLoginAttempt(key, LOGIN_LOCKOUT)),
+  );
+  const refused = attempts.find((attempt) => !attempt.allowed);
+  if (refused) {
+    return loginLockedResponse(
+      refused.locked_until ?? new Date(Date.now() + 1000).toISOString(),
+    );
+  }
+
+  const account = await getPasswordHashByEmail(credentials.email);
+  const valid = account
+    ? await verifyPassword(credentials.password, account.password_hash)
+    : false;
+  if (!account || !valid) {
+    // The last attempt allowed before a lock is answered with the lock
+    const locking = attempts.find((attempt) => attempt.locked_until);
+    return locking?.locked_until
+      ? loginLockedResponse(locking.locked_until)
+      : errorResponse("Invalid email or password", 401);
+  }
+  await resetLoginAttempts(keys);
+  return signedInResponse(account.user);
+};
+
+/**
+ * Signs the current user out.
+ *
+ * @returns A JSON response with `success: true` and a cleared session.
+ */
+const handleLogout = async () => {
+  if (getAuthProvider() === "supabase") {
+    const supabase = await createSupabaseClient();
+    await supabase.auth.signOut();
+    return jsonResponse({ success: true });
+  }
+  const response = NextResponse.json({ success: true });
+  response.cookies.set(SESSION_COOKIE_NAME, "", getSessionCookieOptions(0));
+  return response;
+};
+
+/**
+ * Returns the signed-in user.
+ *
+ * @returns A JSON response with `user` and `provider`, or 401.
+ */
+const handleMe = async () => {
+  const user = await getCurrentUser();
+  if (!user) {
+    return errorResponse("Authentication required", 401);
+  }
+  return jsonResponse({ user, provider: getAuthProvider() });
+};
+
+/**
+ * Routes authentication requests to appropriate handlers.
+ *
+ * Handles account management for both providers:
+ * - POST /register: Creates an account and signs it in
+ * - POST /login: Signs in with email and password
+ * - POST /logout: Clears the session
+ * - GET /me: Returns the signed-in user
+ *
+ * @param request - The HTTP request object.
+ * @param context - Next.js route context containing dynamic path segments.
+ * @param method - HTTP method (GET or POST).
+ * @returns A Response object from the appropriate handler, or 404 if route not found.
+ */
+const routeRequest = async (
+  request: Request,
+  context: { params: Promise<{ path: string[] }> },
+  method: string,
+): Promise<Response> => {
+  const params = await context.params;
+  const subpath = (params.path || []).join("/");
+
+  try {
+    if (subpath === "register" && method === "POST")
+      return await handleRegister(request);
+    if (subpath === "login" && method === "POST")
+      return await handleLogin(request);
+    if (subpath === "logout" && method === "POST") return await handleLogout();
+    if (subpath === "me" && method === "GET") return await handleMe();
+  } catch (error) {
+    console.error(`Auth request "${subpath}" failed:`, error);
+    const message =
+      error instanceof Error ? error.message : "Authentication failed";
+    return errorResponse(message, 500);
+  }
+
+  return jsonResponse({ detail: "Not found" }, 404);
+};
+
+/**
+ * Handles GET requests to the auth route (current user lookup).
+ *
+ * @param request - The HTTP request object.
+ * @param context - Next.js route context containing dynamic path segments.
+ * @returns A Response with the current user or error.
+ */
+export async function GET(
+  request: Request,
+  context: { params: Promise<{ path: string[] }> },
+): Promise<Response> {
+  return routeRequest(request, context, "GET");
+}
+
+/**
+ * Handles POST requests to the auth route (register, login, logout).
+ *
+ * @param request - The HTTP request object containing credentials.
+ * @param context - Next.js route context containing dynamic path segments.
+ * @returns A Response with the signed-in user, success status or error.
+ */
+export async function POST(
+  request: Request,
+  context: { params: Promise<{ path: string[] }> },
+): Promise<Response> {
+  return routeRequest(request, context, "POST");
+}
@@ -0,0 +1,87 @@
+import { NextRequest } from "next/server";
+import { withAuthenticatedUser } from "@/server/auth";
+
+/**
+ * Runtime configuration for this API route.
+ * - nodejs: Runs on Node.js runtime (required for database access)
+ * - force-dynamic: Always generates dynamic responses (no caching)
+ */
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+/**
+ * Handles GET requests for a single brand kit.
+ *
+ * Route parameter:
+ * - `id`: The unique identifier of the brand kit
+ *
+ * @param _request - The HTTP request object (unused, but required by Next.js).
+ * @param context - Next.js route context containing dynamic route parameters.
+ * @returns A JSON response with the kit, or 404 if it does not exist.
+ */
+export async function GET(
+  _request: NextRequest,
+  context: { params: Promise<{ id: string }> },
+) {
+  const params = await context.params;
+  const { handleBrandKitGet } = await import(
+    "../../ppt/handlers/brand-kits"
+  );
+  return withAuthenticatedUser(() => handleBrandKitGet(params.id));
+}
+
+/**
+ * Handles PATCH requests to update a brand kit.
+ *
+ * Accepts the fields of `POST /api/v1/brand-kits`, all optional. Decks
+ * using the kit show the change the next time they are opened.
+ *
+ * Route parameter:
+ * - `id`: The unique identifier of the brand kit
+ *
+ * @param request - The HTTP request object containing the changes.
+ * @param context - Next.js route context containing dynamic route parameters.
+ * @returns A JSON response with the updated kit.
+ *
+ * @example
+ * ```typescript
+ * // Request: PATCH /api/v1/brand-kits/kit-123
+ * // Body: { footer_text: "Confidential · Acme Inc." }
+ * // Response: { id: "kit-123", footer_text: "Confidential · Acme Inc.", ... }
+ * ```
+ */
+export async function PATCH(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> },
+) {
+  const params = await context.params;
+  const { handleBrandKitUpdate } = await import(
+    "../../ppt/handlers/brand-kits"
+  );
+  return withAuthenticatedUser(() =>
+    handleBrandKitUpdate(request, params.id),
+  );
+}
+
+/**
+ * Handles DELETE requests to delete a brand kit.
+ *
+ * Presentations using the kit go back to their template's own styling.
+ *
+ * Route parameter:
+ * - `id`: The unique identifier of the brand kit
+ *
+ * @param _request - The HTTP request object (unused, but required by Next.js).
+ * @param context - Next.js route context containing dynamic route parameters.
+ * @returns An empty 204 response, or 404 if the kit does not exist.
+ */
+export async function DELETE(
+  _request: NextRequest,
+  context: { params: Promise<{ id: string }> },
+) {
+  const params = await context.params;
+  const { handleBrandKitDelete } = await import(
+    "../../ppt/handlers/brand-kits"
+  );
+  return withAuthenticatedUser(() => handleBrandKitDelete(params.id));
+}
@@ -0,0 +1,34 @@
+import { NextRequest } from "next/server";
+import { withAuthenticatedUser } from "@/server/auth";
+
+/**
+ * Runtime configuration for this API route.
+ * - nodejs: Runs on Node.js runtime (required for image processing)
+ * - force-dynamic: Always generates dynamic responses (no caching)
+ */
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+/**
+ * Handles POST requests to extract a brand palette and fonts from a file.
+ *
+ * Request body (multipart/form-data):
+ * - `file` (required): A logo, website screenshot or PPTX deck
+ *
+ * @param request - The HTTP request object containing the file.
+ * @returns A JSON response with a ready-to-apply color scheme, its WCAG
+ *   contrast checks and font suggestions. Nothing is saved.
+ *
+ * @example
+ * ```typescript
+ * // Request: POST /api/v1/brand-kits/extract (form data: file=deck.pptx)
+ * // Response: { source: "pptx", scheme: { colors: { ... } },
+ * //   contrast: [...], fonts: { heading: { family: "Montserrat", ... } } }
+ * ```
+ */
+export async function POST(request: NextRequest) {
+  const { handleBrandKitExtract } = await import(
+    "../../ppt/handlers/brand-kits"
+  );
+  return withAuthenticatedUser(() => handleBrandKitExtract(request));
+}
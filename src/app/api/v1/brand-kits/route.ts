@@ -0,0 +1,51 @@
+import { NextRequest } from "next/server";
+import { withAuthenticatedUser } from "@/server/auth";
+
+/**
+ * Runtime configuration for this API route.
+ * - nodejs: Runs on Node.js runtime (required for database access)
+ * - force-dynamic: Always generates dynamic responses (no caching)
+ */
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+/**
+ * Handles GET requests to list the user's brand kits.
+ *
+ * @returns A JSON response with the kits, ordered by name.
+ *
+ * @example
+ * ```typescript
+ * // Request: GET /api/v1/brand-kits
+ * // Response: { kits: [{ id: "...", name: "Acme", colors: { ... }, ... }] }
+ * ```
+ */
+export async function GET() {
+  const { handleBrandKitList } = await import("../ppt/handlers/brand-kits");
+  return withAuthenticatedUser(() => handleBrandKitList());
+}
+
+/**
+ * Handles POST requests to create a brand kit.
+ *
+ * Request body:
+ * - `name` (required): Kit name
+ * - `colors` (required): Color tokens as hex colors
+ * - `heading_font`, `body_font` (optional): `{ family, url }`
+ * - `logos` (optional): `{ primary, inverse, icon }` image URLs
+ * - `footer_text` (optional): Text shown in the footer of every slide
+ *
+ * @param request - The HTTP request object containing the kit.
+ * @returns A JSON response with the created kit.
+ *
+ * @example
+ * ```typescript
+ * // Request: POST /api/v1/brand-kits
+ * // Body: { name: "Acme", colors: { heading: "#111111", ... } }
+ * // Response: { id: "...", name: "Acme", ... }
+ * ```
+ */
+export async function POST(request: NextRequest) {
+  const { handleBrandKitCreate } = await import("../ppt/handlers/brand-kits");
+  return withAuthenticatedUser(() => handleBrandKitCreate(request));
+}
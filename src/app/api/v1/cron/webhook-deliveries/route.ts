@@ -0,0 +1,58 @@
+import { createHash, timingSafeEqual } from "node:crypto";
+import { NextResponse } from "next/server";
+
+/**
+ * Runtime configuration for this API route.
+ * - nodejs: Runs on Node.js runtime (required for database and network access)
+ * - maxDuration: Maximum execution time of 300 seconds (5 minutes)
+ * - force-dynamic: Always generates dynamic responses (no caching)
+ */
+export const runtime = "nodejs";
+export const maxDuration = 300;
+export const dynamic = "force-dynamic";
+
+/**
+ * Checks the job's bearer token against CRON_SECRET in constant time.
+ *
+ * @param request - The HTTP request object.
+ * @returns True if CRON_SECRET is set and the request carries it.
+ */
+const isAuthorized = (request: Request): boolean => {
+  const secret = process.env.CRON_SECRET;
+  if (!secret) return false;
+  const digest = (value: string) => createHash("sha256").update(value).digest();
+  return timingSafeEqual(
+    digest(request.headers.get("authorization") ?? ""),
+    digest(`Bearer ${secret}`),
+  );
+};
+
+/**
+ * Handles GET requests from the webhook delivery job.
+ *
+ * Attempts the webhook deliveries that are due: first attempts that did not
+ * run when the event was emitted, and retries of failed attempts. Meant to
+ * run every minute (see `crons` in vercel.json). The route needs no session;
+ * it is authorized by `Authorization: Bearer <CRON_SECRET>` instead, and is
+ * disabled while CRON_SECRET is unset.
+ *
+ * @param request - The HTTP request object.
+ * @returns A JSON response with the number of deliveries attempted and
+ *   succeeded.
+ *
+ * @throws Returns a 401 error response if the token is missing or wrong.
+ *
+ * @example
+ * ```typescript
+ * // Request: GET /api/v1/cron/webhook-deliveries
+ * // Headers: { Authorization: "Bearer <CRON_SECRET>" }
+ * // Response: { attempted: 3, succeeded: 2 }
+ * ```
+ */
+export async function GET(request: Request) {
+  if (!isAuthorized(request)) {
+    return NextResponse.json({ detail: "Unauthorized" }, { status: 401 });
+  }
+  const { processDueWebhookDeliveries } = await import("@/server/webhooks");
+  return NextResponse.json(await processDueWebhookDeliveries());
+}
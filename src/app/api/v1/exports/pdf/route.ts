@@ -1,10 +1,14 @@
 import { NextRequest, NextResponse } from "next/server";
 import path from "path";
 import fs from "fs";
+import { v4 as uuidv4 } from "uuid";
 import puppeteer from "puppeteer-core";
 import chromium from "@sparticuz/chromium";
 import { getChromiumExecutablePath } from "@/server/chromium";
 import { sanitizeFilename } from "@/app/(presentation-generator)/utils/others";
+import { requireRequestOwner, withAuthenticatedUser } from "@/server/auth";
+import { getOwnerDirectory } from "@/server/storage";
+import { emitWebhookEvent } from "@/server/webhooks";
 
 /**
  * Runtime configuration for this API route.
@@ -17,12 +21,13 @@ export const maxDuration = 300;
 export const dynamic = "force-dynamic";
 
 /**
- * Handles POST requests to export a presentation as a PDF file.
+ * Exports a presentation as a PDF file.
  *
  * Uses Puppeteer (headless Chrome) to render the presentation in a browser
  * and generate a PDF. The process:
  * 1. Launches a headless browser instance
- * 2. Navigates to the presentation's PDF maker page
+ * 2. Navigates to the presentation's PDF maker page with the caller's
+ *    session cookies, so the page can only load decks the caller owns
  * 3. Waits for all content to load and render
  * 4. Generates PDF from the rendered page
  * 5. Saves PDF to storage or returns as base64 (Vercel)
@@ -33,7 +38,8 @@ export const dynamic = "force-dynamic";
  *
  * Environment handling:
  * - Vercel: Returns base64-encoded PDF (filesystem is ephemeral)
- * - Local: Saves PDF to app data directory and returns file path
+ * - Local: Saves PDF to the user's exports directory under a random ID, so
+ *   its URL cannot be guessed, and returns the file path
  *
  * Browser configuration:
  * - Uses Chromium executable (configured for serverless environments)
@@ -54,10 +60,10 @@ export const dynamic = "force-dynamic";
  * ```typescript
  * // Request: POST /api/v1/exports/pdf
  * // Body: { id: "abc-123", title: "My Presentation" }
- * // Response: { success: true, path: "/app_data/exports/My_Presentation.pdf" }
+ * // Response: { success: true, path: "/app_data/exports/<owner>/<id>/My_Presentation.pdf" }
  * ```
  */
-export async function POST(req: NextRequest) {
+const exportPresentationPdf = async (req: NextRequest) => {
   const { id, title } = await req.json();
   if (!id) {
     return NextResponse.json(
@@ -100,6 +106,13 @@ export async function POST(req: NextRequest) {
     ? `https://${process.env.VERCEL_URL}`
     : "http://localhost:3000";
 
+  // Forward the caller's session so the PDF maker page is authenticated
+  await page.setCookie(
+    ...req.cookies
+      .getAll()
+      .map(({ name, value }) => ({ name, value, url: baseUrl })),
+  );
+
   // Navigate to the PDF maker page for this presentation
   // The page renders the presentation and is then converted to PDF
   await page.goto(`${baseUrl}/pdf-maker?id=${id}`, {
@@ -164,7 +177,11 @@ export async function POST(req: NextRequest) {
   const tmpDir = process.env.VERCEL
     ? "/tmp"
     : process.env.APP_DATA_DIRECTORY || "/tmp";
-  const destinationPath = path.join(tmpDir, "exports", `${sanitizedTitle}.pdf`);
+  const destinationPath = path.join(
+    getOwnerDirectory(path.join(tmpDir, "exports"), requireRequestOwner()),
+    uuidv4(),
+    `${sanitizedTitle}.pdf`,
+  );
   await fs.promises.mkdir(path.dirname(destinationPath), { recursive: true });
   await fs.promises.writeFile(destinationPath, pdfBuffer);
 
@@ -173,6 +190,11 @@ export async function POST(req: NextRequest) {
     // In Vercel environment, return base64 encoded PDF instead of file path
     // This allows the client to download the PDF directly without relying on file storage
     const base64Pdf = Buffer.from(pdfBuffer).toString("base64");
+    await emitWebhookEvent("export.completed", {
+      presentation_id: id,
+      format: "pdf",
+      filename: `${sanitizedTitle}.pdf`,
+    });
     return NextResponse.json({
       success: true,
       base64: base64Pdf,
@@ -197,8 +219,26 @@ export async function POST(req: NextRequest) {
     .join("/");
   const publicPath = `/app_data/${relativePath}`;
 
+  await emitWebhookEvent("export.completed", {
+    presentation_id: id,
+    format: "pdf",
+    path: publicPath,
+  });
+
   return NextResponse.json({
     success: true,
     path: publicPath,
   });
+};
+
+/**
+ * Handles POST requests to export a presentation as a PDF file.
+ *
+ * Requires a signed-in user; see exportPresentationPdf for the export steps.
+ *
+ * @param req - The HTTP request object containing presentation ID and title.
+ * @returns The export response, or 401 if the request is not authenticated.
+ */
+export async function POST(req: NextRequest) {
+  return withAuthenticatedUser(() => exportPresentationPdf(req));
 }
@@ -14,6 +14,13 @@ import nodePath from "path";
 import { v4 as uuidv4 } from "uuid";
 import sharp from "sharp";
 import { getTempDirectory } from "@/server/storage";
+import { requireRequestOwner, withAuthenticatedUser } from "@/server/auth";
+import { listSlidesByPresentation } from "@/server/db/slides";
+import {
+  createSlideDataContext,
+  resolveSlideDataBinding,
+  SlideDataContext,
+} from "@/server/pptx/slide-data";
 import {
   isSupabaseEnabled,
   uploadSupabaseFileAndGetPublicUrl,
@@ -41,10 +48,11 @@ interface GetAllChildElementsAttributesArgs {
   inheritedZIndex?: number;
   inheritedOpacity?: number;
   screenshotsDir: string | null;
+  slideData?: SlideDataContext | null;
 }
 
 /**
- * Handles GET requests to export a presentation as a PPTX model.
+ * Builds a PPTX model for a presentation.
  *
  * This is a complex endpoint that uses Puppeteer to:
  * 1. Render the presentation in a headless browser
@@ -65,6 +73,10 @@ interface GetAllChildElementsAttributesArgs {
  * - `id` (required): Unique identifier of the presentation to export
  *
  * Special handling:
+ * - Elements with data-pptx-chart / data-pptx-table: Converted to native PPTX
+ *   charts/tables built from the slide's stored content
+ * - Recharts SVGs: Converted to native PPTX charts from the slide's first
+ *   chart-like content field
  * - Charts with data-chart-* attributes: Converted to native PPTX charts
  * - Tables with data-table-* attributes: Converted to native PPTX tables
  * - SVG/Canvas elements: Screenshot and embedded as images
@@ -87,16 +99,18 @@ interface GetAllChildElementsAttributesArgs {
  * // Response: { slides: [{ elements: [...], backgroundColor: "#ffffff" }, ...] }
  * ```
  */
-export async function GET(request: NextRequest) {
+const buildPresentationPptxModel = async (request: NextRequest) => {
   let browser: Browser | null = null;
   let page: Page | null = null;
 
   try {
     const id = await getPresentationId(request);
-    [browser, page] = await getBrowserAndPage(id);
+    [browser, page] = await getBrowserAndPage(id, request.cookies.getAll());
     const screenshotsDir = getScreenshotsDir();
 
-    const { slides, speakerNotes } = await getSlidesAndSpeakerNotes(page);
+    const { slides, speakerNotes, slideIds } =
+      await getSlidesAndSpeakerNotes(page);
+    const slideContents = await getSlideContents(id, slideIds);
 
     // REMOVED: Background screenshot capture
     // Previously we captured the entire slide as a background image, which
@@ -104,7 +118,11 @@ export async function GET(request: NextRequest) {
     // for proper editing support in PowerPoint.
     // const backgroundImages = await captureSlideBackgrounds(slides, id, screenshotsDir);
 
-    const slides_attributes = await getSlidesAttributes(slides, screenshotsDir);
+    const slides_attributes = await getSlidesAttributes(
+      slides,
+      slideContents,
+      screenshotsDir,
+    );
     await postProcessSlidesAttributes(
       slides_attributes,
       screenshotsDir,
@@ -136,6 +154,18 @@ export async function GET(request: NextRequest) {
       { status: 500 },
     );
   }
+};
+
+/**
+ * Handles GET requests to build the PPTX model of a presentation.
+ *
+ * Requires a signed-in user; see buildPresentationPptxModel for details.
+ *
+ * @param request - The HTTP request object containing presentation ID in query params.
+ * @returns The PPTX model response, or 401 if the request is not authenticated.
+ */
+export async function GET(request: NextRequest) {
+  return withAuthenticatedUser(() => buildPresentationPptxModel(request));
 }
 
 /**
@@ -161,10 +191,15 @@ async function getPresentationId(request: NextRequest) {
  * DOM elements and their styling.
  *
  * @param id - The unique identifier of the presentation to render.
+ * @param cookies - The caller's cookies, forwarded so the page loads the deck
+ *   as the signed-in user.
  * @returns A tuple containing the browser instance and page instance.
  *   Both should be closed when done to free resources.
  */
-async function getBrowserAndPage(id: string): Promise<[Browser, Page]> {
+async function getBrowserAndPage(
+  id: string,
+  cookies: { name: string; value: string }[],
+): Promise<[Browser, Page]> {
   const executablePath = await getChromiumExecutablePath();
 
   const browser = await puppeteer.launch({
@@ -195,6 +230,10 @@ async function getBrowserAndPage(id: string): Promise<[Browser, Page]> {
     ? `https://${process.env.VERCEL_URL}`
     : "http://localhost:3000";
 
+  await page.setCookie(
+    ...cookies.map(({ name, value }) => ({ name, value, url: baseUrl })),
+  );
+
   await page.goto(`${baseUrl}/pdf-maker?id=${id}`, {
     waitUntil: "networkidle0",
     timeout: 300000,
@@ -580,16 +619,23 @@ const convertSvgToPng = async (element_attibutes: ElementAttributes) => {
  * data ready for PPTX model conversion.
  *
  * @param slides - Array of Puppeteer element handles, one per slide.
+ * @param slideContents - Stored content of each slide (same order), used to
+ *   build native charts and tables.
  * @param screenshotsDir - Directory for saving screenshots (null if using Supabase).
  * @returns Promise that resolves to an array of slide attribute results.
  */
 async function getSlidesAttributes(
   slides: ElementHandle<Element>[],
+  slideContents: (Record<string, unknown> | null)[],
   screenshotsDir: string | null,
 ): Promise<SlideAttributesResult[]> {
   const slideAttributes = await Promise.all(
-    slides.map((slide) =>
-      getAllChildElementsAttributes({ element: slide, screenshotsDir }),
+    slides.map((slide, index) =>
+      getAllChildElementsAttributes({
+        element: slide,
+        screenshotsDir,
+        slideData: createSlideDataContext(slideContents[index]),
+      }),
     ),
   );
   return slideAttributes;
@@ -598,8 +644,9 @@ async function getSlidesAttributes(
 async function getSlidesAndSpeakerNotes(page: Page) {
   const slides_wrapper = await getSlidesWrapper(page);
   const speakerNotes = await getSpeakerNotes(slides_wrapper);
+  const slideIds = await getSlideIds(slides_wrapper);
   const slides = await slides_wrapper.$$(":scope > div > div");
-  return { slides, speakerNotes };
+  return { slides, speakerNotes, slideIds };
 }
 
 async function getSlidesWrapper(page: Page): Promise<ElementHandle<Element>> {
@@ -610,6 +657,37 @@ async function getSlidesWrapper(page: Page): Promise<ElementHandle<Element>> {
   return slides_wrapper;
 }
 
+async function getSlideIds(slides_wrapper: ElementHandle<Element>) {
+  return await slides_wrapper.evaluate((el: Element) => {
+    return Array.from(el.querySelectorAll(":scope > div")).map(
+      (slideEl) => slideEl.getAttribute("data-slide-id") || "",
+    );
+  });
+}
+
+/**
+ * Loads the stored content of the rendered slides.
+ *
+ * Slides are matched by the `data-slide-id` of their wrappers, falling back
+ * to position when a wrapper has no ID.
+ *
+ * @param presentationId - ID of the presentation being exported.
+ * @param slideIds - Slide IDs in rendered order.
+ * @returns Content of each rendered slide, or null where unavailable.
+ */
+async function getSlideContents(
+  presentationId: string,
+  slideIds: string[],
+): Promise<(Record<string, unknown> | null)[]> {
+  const owner = requireRequestOwner();
+  const records = await listSlidesByPresentation(owner, presentationId);
+  const byId = new Map(records.map((record) => [record.id, record]));
+  return slideIds.map(
+    (slideId, index) =>
+      (byId.get(slideId) ?? records[index])?.content ?? null,
+  );
+}
+
 async function getSpeakerNotes(slides_wrapper: ElementHandle<Element>) {
   return await slides_wrapper.evaluate((el: Element) => {
     return Array.from(el.querySelectorAll("[data-speaker-note]")).map(
@@ -672,6 +750,7 @@ async function getAllChildElementsAttributes({
   inheritedZIndex,
   inheritedOpacity,
   screenshotsDir,
+  slideData,
 }: GetAllChildElementsAttributesArgs): Promise<SlideAttributesResult> {
   // Standard slide size (PPTX always uses this size as reference)
   // All coordinates are scaled to this size regardless of actual rendered dimensions
@@ -803,6 +882,7 @@ async function getAllChildElementsAttributes({
         inheritedZIndex: attributes.zIndex || inheritedZIndex,
         inheritedOpacity: attributes.opacity || inheritedOpacity,
         screenshotsDir,
+        slideData,
       });
       allResults.push(
         ...childResults.elements.map((attr) => ({
@@ -842,18 +922,37 @@ async function getAllChildElementsAttributes({
       }
     }
 
+    // Resolve slide data bindings (data-pptx-chart, data-pptx-table, Recharts
+    // SVGs) against the slide's stored content. Unresolved bindings leave the
+    // element to the regular handling below.
+    if (
+      attributes.dataBinding &&
+      slideData &&
+      !attributes.chartData &&
+      !attributes.tableData
+    ) {
+      Object.assign(
+        attributes,
+        resolveSlideDataBinding(attributes.dataBinding, slideData),
+      );
+    }
+
     // Check for native chart/table data: elements with data-chart-* or data-table-*
     // attributes will be converted to native PPTX charts/tables, so we don't
-    // need to screenshot them or process their children
-    const hasNativeData = attributes.chartData || attributes.tableData;
+    // need to screenshot them or process their children. Connector SVGs
+    // (data-pptx-connector) become native lines the same way.
+    const hasNativeData =
+      attributes.chartData || attributes.tableData || attributes.connector;
 
     // Mark complex visual elements for screenshot conversion
-    // These can't be represented as native PPTX elements, so we convert to images
+    // These can't be represented as native PPTX elements, so we convert to images.
+    // Custom layouts render in sandboxed iframes whose DOM is not reachable.
     if (
       !hasNativeData &&
       (attributes.tagName === "svg" ||
         attributes.tagName === "canvas" ||
-        attributes.tagName === "table")
+        attributes.tagName === "table" ||
+        attributes.tagName === "iframe")
     ) {
       attributes.should_screenshot = true;
       attributes.element = childElementHandle; // Keep reference for screenshot
@@ -886,6 +985,7 @@ async function getAllChildElementsAttributes({
       inheritedZIndex: attributes.zIndex || inheritedZIndex,
       inheritedOpacity: attributes.opacity || inheritedOpacity,
       screenshotsDir,
+      slideData,
     });
     // Add child results to our accumulated results
     allResults.push(
@@ -941,6 +1041,7 @@ async function getAllChildElementsAttributes({
           const isSvg = attributes.tagName === "svg";
           const isCanvas = attributes.tagName === "canvas";
           const isTable = attributes.tagName === "table";
+          const isFrame = attributes.tagName === "iframe";
 
           // Check if element occupies the entire slide (background container)
           const occupiesRoot =
@@ -951,10 +1052,11 @@ async function getAllChildElementsAttributes({
             isNearlyEqual(attributes.position.height ?? 0, SLIDE_HEIGHT);
 
           // Include element if it has visual properties and doesn't occupy root,
-          // or if it has special content (images, SVG, canvas, table)
+          // or if it has special content (images, SVG, canvas, table, frame)
           const hasVisualProperties =
             hasBackground || hasBorder || hasShadow || hasText;
-          const hasSpecialContent = hasImage || isSvg || isCanvas || isTable;
+          const hasSpecialContent =
+            hasImage || isSvg || isCanvas || isTable || isFrame;
 
           return (hasVisualProperties && !occupiesRoot) || hasSpecialContent;
         })
@@ -1607,6 +1709,10 @@ async function getElementAttributes(
           ? "circle"
           : "rectangle";
       }
+      // Diagram nodes drawn as ellipses
+      if (el.getAttribute("data-pptx-shape") === "ellipse") {
+        return "circle";
+      }
       return undefined;
     }
 
@@ -1676,6 +1782,18 @@ async function getElementAttributes(
       return Object.keys(filters).length > 0 ? filters : undefined;
     }
 
+    /**
+     * Resolve a chart color that references a CSS variable, such as a brand
+     * kit color `var(--primary-accent-color, #2563eb)`, to its value on the
+     * element
+     */
+    function resolveChartColor(el: Element, color: string | null) {
+      const match = color?.match(/^var\((--[\w-]+)\s*(?:,\s*(.+))?\)$/);
+      if (!match) return color || undefined;
+      const value = getComputedStyle(el).getPropertyValue(match[1]).trim();
+      return value || match[2]?.trim() || undefined;
+    }
+
     /**
      * Parse chart data attributes for native PPTX chart export
      */
@@ -1684,7 +1802,7 @@ async function getElementAttributes(
       const chartDataStr = el.getAttribute("data-chart-data");
       const labelKey = el.getAttribute("data-chart-label-key");
       const valueKey = el.getAttribute("data-chart-value-key");
-      const color = el.getAttribute("data-chart-color");
+      const color = resolveChartColor(el, el.getAttribute("data-chart-color"));
       const colorsStr = el.getAttribute("data-chart-colors");
       const title = el.getAttribute("data-chart-title");
       const barDir = el.getAttribute("data-chart-bar-dir");
@@ -1766,6 +1884,104 @@ async function getElementAttributes(
       }
     }
 
+    /**
+     * Parse a connector line drawn as an SVG (data-pptx-connector) for native
+     * PPTX export
+     */
+    function parseConnector(el: Element) {
+      const connectorStr = el.getAttribute("data-pptx-connector");
+      if (!connectorStr) return undefined;
+      try {
+        const parsed = JSON.parse(connectorStr);
+        const ends = [parsed.x1, parsed.y1, parsed.x2, parsed.y2];
+        if (!ends.every((value) => typeof value === "number")) {
+          return undefined;
+        }
+        const line = el.querySelector("line");
+        const strokeWidth = line
+          ? parseFloat(line.getAttribute("stroke-width") || "")
+          : NaN;
+        return {
+          x1: parsed.x1,
+          y1: parsed.y1,
+          x2: parsed.x2,
+          y2: parsed.y2,
+          arrow: parsed.arrow !== false,
+          color: resolveChartColor(el, el.getAttribute("data-connector-color")),
+          thickness: isNaN(strokeWidth) ? undefined : strokeWidth,
+        };
+      } catch {
+        // Ignore connector parsing error
+        return undefined;
+      }
+    }
+
+    /**
+     * Parse slide data bindings for native PPTX export. Values are read from
+     * the slide content on the server; the DOM only supplies the path and
+     * presentation hints.
+     */
+    function parseDataBinding(el: Element) {
+      const chartPath = el.getAttribute("data-pptx-chart");
+      if (chartPath !== null) {
+        let colors: string[] | undefined;
+        try {
+          const parsed = JSON.parse(el.getAttribute("data-chart-colors") || "");
+          if (Array.isArray(parsed)) colors = parsed;
+        } catch {
+          // Ignore colors parsing error
+        }
+        const barDir = el.getAttribute("data-chart-bar-dir");
+        return {
+          kind: "chart" as const,
+          path: chartPath || undefined,
+          chartType: el.getAttribute("data-chart-type") || undefined,
+          title: el.getAttribute("data-chart-title") || undefined,
+          color: resolveChartColor(el, el.getAttribute("data-chart-color")),
+          colors,
+          barDir:
+            barDir === "bar" || barDir === "col"
+              ? (barDir as "bar" | "col")
+              : undefined,
+        };
+      }
+
+      const tablePath = el.getAttribute("data-pptx-table");
+      if (tablePath) {
+        let headers: string[] | undefined;
+        try {
+          const parsed = JSON.parse(
+            el.getAttribute("data-table-headers") || "",
+          );
+          if (Array.isArray(parsed)) headers = parsed.map(String);
+        } catch {
+          // Ignore headers parsing error
+        }
+        return {
+          kind: "table" as const,
+          path: tablePath,
+          headers,
+          headerBackground:
+            el.getAttribute("data-table-header-bg") || undefined,
+          headerColor: el.getAttribute("data-table-header-color") || undefined,
+        };
+      }
+
+      // Unmarked Recharts charts: bind to the slide's first chart-like field
+      if (
+        el.tagName.toLowerCase() === "svg" &&
+        el.classList.contains("recharts-surface")
+      ) {
+        const seriesTypes = ["pie", "area", "line", "bar", "scatter"];
+        const chartType = seriesTypes.find((type) =>
+          el.querySelector(`.recharts-${type}`),
+        );
+        return { kind: "chart" as const, chartType };
+      }
+
+      return undefined;
+    }
+
     function parseElementAttributes(el: Element) {
       let tagName = el.tagName.toLowerCase();
 
@@ -1794,11 +2010,15 @@ async function getElementAttributes(
       const zIndex = parseInt(computedStyles.zIndex);
       const zIndexValue = isNaN(zIndex) ? 0 : zIndex;
 
-      const textAlign = computedStyles.textAlign as
-        | "left"
-        | "center"
-        | "right"
-        | "justify";
+      // Logical alignment follows the writing direction (right-to-left
+      // slides align "start" to the right)
+      const isRtl = computedStyles.direction === "rtl";
+      const logicalAlign: Record<string, string> = {
+        start: isRtl ? "right" : "left",
+        end: isRtl ? "left" : "right",
+      };
+      const textAlign = (logicalAlign[computedStyles.textAlign] ??
+        computedStyles.textAlign) as "left" | "center" | "right" | "justify";
       const objectFit = computedStyles.objectFit as
         | "contain"
         | "cover"
@@ -1825,6 +2045,8 @@ async function getElementAttributes(
       // Parse chart and table data for native PPTX export
       const chartData = parseChartData(el);
       const tableData = parseTableData(el);
+      const dataBinding = parseDataBinding(el);
+      const connector = parseConnector(el);
 
       return {
         tagName: tagName,
@@ -1860,6 +2082,8 @@ async function getElementAttributes(
         filters: filters,
         chartData: chartData,
         tableData: tableData,
+        dataBinding: dataBinding,
+        connector: connector,
       };
     }
 
@@ -1,5 +1,6 @@
 import { NextRequest } from "next/server";
 import { handleImagesDelete } from "../../ppt/handlers/images";
+import { requireRequestOwner, withAuthenticatedUser } from "@/server/auth";
 import { getImageById } from "@/server/db/images";
 import { jsonResponse } from "../../ppt/utils/responses";
 import { toAppDataUrl } from "../../ppt/utils/storage";
@@ -38,14 +39,16 @@ export async function GET(
   context: { params: Promise<{ id: string }> },
 ) {
   const params = await context.params;
-  const image = await getImageById(params.id);
-  if (!image) {
-    return jsonResponse({ detail: "Image not found" }, 404);
-  }
-  // Convert filesystem path to URL-accessible path
-  return jsonResponse({
-    ...image,
-    path: toAppDataUrl(image.path),
+  return withAuthenticatedUser(async () => {
+    const image = await getImageById(requireRequestOwner(), params.id);
+    if (!image) {
+      return jsonResponse({ detail: "Image not found" }, 404);
+    }
+    // Convert filesystem path to URL-accessible path
+    return jsonResponse({
+      ...image,
+      path: toAppDataUrl(image.path),
+    });
   });
 }
 
@@ -73,5 +76,5 @@ export async function DELETE(
   context: { params: Promise<{ id: string }> },
 ) {
   const params = await context.params;
-  return handleImagesDelete(params.id);
+  return withAuthenticatedUser(() => handleImagesDelete(params.id));
 }
@@ -1,4 +1,5 @@
 import { NextRequest } from "next/server";
+import { withAuthenticatedUser } from "@/server/auth";
 import { handleImagesGenerate } from "../../ppt/handlers/images";
 
 /**
@@ -31,5 +32,5 @@ export const dynamic = "force-dynamic";
  */
 export async function GET(request: NextRequest) {
   const url = new URL(request.url);
-  return handleImagesGenerate(url);
+  return withAuthenticatedUser(() => handleImagesGenerate(url));
 }
@@ -1,4 +1,5 @@
 import { NextRequest } from "next/server";
+import { withAuthenticatedUser } from "@/server/auth";
 import {
   handleImagesUpload,
   handleImagesUploaded,
@@ -33,7 +34,7 @@ export const dynamic = "force-dynamic";
  */
 export async function GET(request: NextRequest) {
   // GET returns list of uploaded images
-  return handleImagesUploaded();
+  return withAuthenticatedUser(() => handleImagesUploaded());
 }
 
 /**
@@ -57,5 +58,5 @@ export async function GET(request: NextRequest) {
  * ```
  */
 export async function POST(request: NextRequest) {
-  return handleImagesUpload(request);
+  return withAuthenticatedUser(() => handleImagesUpload(request));
 }
@@ -1,4 +1,5 @@
 import { NextRequest } from "next/server";
+import { withAuthenticatedUser } from "@/server/auth";
 import { handleImagesUploaded } from "../../ppt/handlers/images";
 
 /**
@@ -27,5 +28,5 @@ export const dynamic = "force-dynamic";
  * ```
  */
 export async function GET(_request: NextRequest) {
-  return handleImagesUploaded();
+  return withAuthenticatedUser(() => handleImagesUploaded());
 }
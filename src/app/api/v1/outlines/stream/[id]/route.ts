@@ -1,4 +1,5 @@
 import { NextRequest } from "next/server";
+import { withAuthenticatedUser } from "@/server/auth";
 
 /**
  * Runtime configuration for this API route.
@@ -47,5 +48,5 @@ export async function GET(
 
   // Dynamic import to avoid loading handler unless needed
   const { handleOutlinesStream } = await import("../../../ppt/handlers/presentation");
-  return handleOutlinesStream(presentationId);
+  return withAuthenticatedUser(() => handleOutlinesStream(presentationId));
 }
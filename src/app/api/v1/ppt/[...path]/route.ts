@@ -15,22 +15,27 @@ import {
   handleImagesUploaded,
 } from "../handlers/images";
 import {
+  handlePresentationCancel,
   handlePresentationCreate,
   handlePresentationDelete,
   handlePresentationGet,
   handlePresentationGetAll,
   handlePresentationGetDrafts,
+  handlePresentationLayoutPlan,
   handlePresentationPrepare,
   handlePresentationStream,
   handlePresentationUpdate,
   handleExportPptx,
   handleOutlinesStream,
 } from "../handlers/presentation";
+import { handlePptxImport } from "../handlers/imports";
 import {
   handleHtmlEdit,
   handleHtmlToReact,
   handleSlideEdit,
   handleSlideEditHtml,
+  handleSlideRevisionRestore,
+  handleSlideRevisions,
   handleSlideToHtml,
 } from "../handlers/slides";
 import {
@@ -43,16 +48,11 @@ import {
 } from "../handlers/templates";
 import { MAX_UPLOAD_BYTES } from "../utils/constants";
 import { errorResponse, jsonResponse } from "../utils/responses";
-import { ensureTempDir } from "../utils/storage";
-import { getImagesDirectory } from "@/server/storage";
-import {
-  analyzeFontsInSlides,
-  convertPdfToPngs,
-  convertPptxToPdf,
-  extractFontsFromOxml,
-  extractSlideXmls,
-  normalizeFontFamilyName,
-} from "@/server/media";
+import { ensureTempDir, toAppDataUrl } from "../utils/storage";
+import { requireRequestOwner, withAuthenticatedUser } from "@/server/auth";
+import { getImagesDirectory, getOwnerDirectory } from "@/server/storage";
+import { analyzeFontsInSlides, convertPdfToPngs } from "@/server/media";
+import { parsePptxFile, renderSlideThumbnails } from "@/server/pptx/import";
 
 /**
  * Runtime configuration for this API route.
@@ -120,7 +120,10 @@ const handlePdfSlidesProcess = async (request: Request) => {
       return errorResponse("Failed to generate PDF previews", 500);
     }
 
-    const imagesDir = getImagesDirectory();
+    const imagesDir = getOwnerDirectory(
+      getImagesDirectory(),
+      requireRequestOwner(),
+    );
     const presentationId = uuidv4();
     const presentationDir = path.join(imagesDir, presentationId);
     await fs.mkdir(presentationDir, { recursive: true });
@@ -133,7 +136,7 @@ const handlePdfSlidesProcess = async (request: Request) => {
         await fs.copyFile(screenshotPath, permanentPath);
         return {
           slide_number: slideNumber,
-          screenshot_url: `/app_data/images/${presentationId}/${screenshotFilename}`,
+          screenshot_url: toAppDataUrl(permanentPath),
         };
       }),
     );
@@ -156,19 +159,18 @@ const handlePdfSlidesProcess = async (request: Request) => {
 /**
  * Handles POST requests to process PPTX files and extract slide previews and metadata.
  *
- * Takes an uploaded PPTX file, extracts slide XML content, analyzes fonts, converts
- * to PDF, generates PNG previews, and returns comprehensive slide metadata. This
- * is useful for importing existing PowerPoint presentations.
+ * Takes an uploaded PPTX file, parses its slides, analyzes fonts, renders PNG
+ * previews, and returns comprehensive slide metadata. This is useful for
+ * building custom templates from existing PowerPoint presentations. To turn a
+ * deck into an editable presentation, use `pptx-slides/import` instead.
  *
  * Process:
  * 1. Validates PPTX file size
- * 2. Extracts slide XML content from PPTX
+ * 2. Parses slide XML (text, pictures, tables, charts) and per-slide fonts
  * 3. Analyzes fonts used in slides
- * 4. Converts PPTX to PDF
- * 5. Converts PDF pages to PNG screenshots
- * 6. Extracts and normalizes font names from each slide
- * 7. Copies screenshots to permanent storage
- * 8. Returns slide metadata with screenshots, XML, and fonts
+ * 4. Renders each parsed slide to a PNG screenshot with headless Chromium
+ * 5. Copies screenshots to permanent storage
+ * 6. Returns slide metadata with screenshots, XML, and fonts
  *
  * Request body (multipart/form-data):
  * - `pptx_file` (required): PPTX file to process
@@ -186,7 +188,7 @@ const handlePdfSlidesProcess = async (request: Request) => {
  *
  * @throws Returns error responses for:
  *   - 400: Missing PPTX file or file exceeds maximum size
- *   - 500: PPTX processing failed, PDF conversion failed, or screenshot generation failed
+ *   - 500: PPTX parsing failed or screenshot generation failed
  */
 const handlePptxSlidesProcess = async (request: Request) => {
   const formData = await request.formData();
@@ -203,20 +205,23 @@ const handlePptxSlidesProcess = async (request: Request) => {
     const pptxPath = path.join(tempDir, "presentation.pptx");
     await fs.writeFile(pptxPath, Buffer.from(await pptx.arrayBuffer()));
 
-    const slideXmls = await extractSlideXmls(pptxPath);
-    const fontAnalysis = await analyzeFontsInSlides(slideXmls);
+    const { slides: parsedSlides } = await parsePptxFile(pptxPath);
+    const fontAnalysis = await analyzeFontsInSlides(
+      parsedSlides.map((slide) => slide.xml_content),
+    );
 
-    const pdfPath = await convertPptxToPdf(pptxPath, tempDir);
-    const pdfStats = await fs.stat(pdfPath).catch(() => null);
-    if (!pdfStats) {
-      return errorResponse("Failed to convert PPTX to PDF", 500);
-    }
-    const screenshotPaths = await convertPdfToPngs(pdfPath, tempDir);
+    const screenshotPaths = await renderSlideThumbnails(
+      parsedSlides.map((slide) => slide.model),
+      tempDir,
+    );
     if (!screenshotPaths.length) {
       return errorResponse("Failed to generate PPTX previews", 500);
     }
 
-    const imagesDir = getImagesDirectory();
+    const imagesDir = getOwnerDirectory(
+      getImagesDirectory(),
+      requireRequestOwner(),
+    );
     const presentationId = uuidv4();
     const presentationDir = path.join(imagesDir, presentationId);
     await fs.mkdir(presentationDir, { recursive: true });
@@ -227,21 +232,12 @@ const handlePptxSlidesProcess = async (request: Request) => {
         const screenshotFilename = `slide_${slideNumber}.png`;
         const permanentPath = path.join(presentationDir, screenshotFilename);
         await fs.copyFile(screenshotPath, permanentPath);
-        const xmlContent = slideXmls[index] || "";
-        const rawFonts = extractFontsFromOxml(xmlContent);
-        const fonts = Array.from(
-          new Set(
-            rawFonts
-              .map((font) => normalizeFontFamilyName(font))
-              .filter(Boolean),
-          ),
-        );
 
         return {
           slide_number: slideNumber,
-          screenshot_url: `/app_data/images/${presentationId}/${screenshotFilename}`,
-          xml_content: xmlContent,
-          normalized_fonts: fonts,
+          screenshot_url: toAppDataUrl(permanentPath),
+          xml_content: parsedSlides[index]?.xml_content || "",
+          normalized_fonts: parsedSlides[index]?.fonts || [],
         };
       }),
     );
@@ -270,14 +266,19 @@ const handlePptxSlidesProcess = async (request: Request) => {
  * appropriate handler function based on the path pattern and HTTP method.
  *
  * Supported routes:
- * - Presentation operations: create, prepare, stream, update, get, delete, export
+ * - Presentation operations: create, prepare, layout-plan, stream, cancel, update, get, delete, export
  * - Outline operations: stream
  * - Image operations: generate, upload, list, delete
  * - Icon operations: search
  * - Font operations: upload, list, delete
  * - Slide operations: edit, transform (to-html, html-to-react, html-edit)
  * - Template operations: summary, get, delete, save, meta, list
- * - File processing: pdf-slides/process, pptx-slides/process
+ * - File processing: pdf-slides/process, pptx-slides/process, pptx-slides/import
+ *
+ * Every route requires a signed-in user and runs inside that user's request
+ * scope, so handlers only ever see presentations, templates and images the
+ * user owns. Resources owned by someone else answer 404, exactly like
+ * resources that do not exist.
  *
  * @param request - The HTTP request object.
  * @param context - Next.js route context containing dynamic path segments.
@@ -298,9 +299,14 @@ const routeRequest = async (
     return handlePresentationCreate(request);
   if (subpath === "presentation/prepare" && method === "POST")
     return handlePresentationPrepare(request);
+  if (subpath === "presentation/layout-plan" && method === "POST")
+    return handlePresentationLayoutPlan(request);
   if (subpath.startsWith("presentation/stream/") && method === "GET") {
     const id = segments[2];
-    return handlePresentationStream(id);
+    return handlePresentationStream(id, request);
+  }
+  if (subpath.startsWith("presentation/cancel/") && method === "POST") {
+    return handlePresentationCancel(segments[2]);
   }
   if (subpath === "presentation/update" && method === "PATCH")
     return handlePresentationUpdate(request);
@@ -360,11 +366,19 @@ const routeRequest = async (
     return handlePdfSlidesProcess(request);
   if (subpath === "pptx-slides/process" && method === "POST")
     return handlePptxSlidesProcess(request);
+  if (subpath === "pptx-slides/import" && method === "POST")
+    return handlePptxImport(request);
 
   if (subpath === "slide/edit" && method === "POST")
     return handleSlideEdit(request);
   if (subpath === "slide/edit-html" && method === "POST")
     return handleSlideEditHtml(request);
+  if (subpath.startsWith("slide/revisions/") && method === "GET") {
+    return handleSlideRevisions(segments[2]);
+  }
+  if (subpath.startsWith("slide/restore/") && method === "POST") {
+    return handleSlideRevisionRestore(segments[2]);
+  }
 
   if (
     (subpath === "slide-to-html" || subpath === "slide-to-html/") &&
@@ -417,13 +431,14 @@ const routeRequest = async (
  *
  * @param request - The HTTP request object.
  * @param context - Next.js route context containing dynamic path segments.
- * @returns A Response from the routed handler or 404 if not found.
+ * @returns A Response from the routed handler, 404 if not found, or 401 if
+ * the request is not authenticated.
  */
 export async function GET(
   request: Request,
   context: { params: Promise<{ path: string[] }> },
 ): Promise<Response> {
-  return routeRequest(request, context, "GET");
+  return withAuthenticatedUser(() => routeRequest(request, context, "GET"));
 }
 
 /**
@@ -434,13 +449,14 @@ export async function GET(
  *
  * @param request - The HTTP request object.
  * @param context - Next.js route context containing dynamic path segments.
- * @returns A Response from the routed handler or 404 if not found.
+ * @returns A Response from the routed handler, 404 if not found, or 401 if
+ * the request is not authenticated.
  */
 export async function POST(
   request: Request,
   context: { params: Promise<{ path: string[] }> },
 ): Promise<Response> {
-  return routeRequest(request, context, "POST");
+  return withAuthenticatedUser(() => routeRequest(request, context, "POST"));
 }
 
 /**
@@ -451,13 +467,14 @@ export async function POST(
  *
  * @param request - The HTTP request object.
  * @param context - Next.js route context containing dynamic path segments.
- * @returns A Response from the routed handler or 404 if not found.
+ * @returns A Response from the routed handler, 404 if not found, or 401 if
+ * the request is not authenticated.
  */
 export async function PATCH(
   request: Request,
   context: { params: Promise<{ path: string[] }> },
 ): Promise<Response> {
-  return routeRequest(request, context, "PATCH");
+  return withAuthenticatedUser(() => routeRequest(request, context, "PATCH"));
 }
 
 /**
@@ -468,13 +485,14 @@ export async function PATCH(
  *
  * @param request - The HTTP request object.
  * @param context - Next.js route context containing dynamic path segments.
- * @returns A Response from the routed handler or 404 if not found.
+ * @returns A Response from the routed handler, 404 if not found, or 401 if
+ * the request is not authenticated.
  */
 export async function DELETE(
   request: Request,
   context: { params: Promise<{ path: string[] }> },
 ): Promise<Response> {
-  return routeRequest(request, context, "DELETE");
+  return withAuthenticatedUser(() => routeRequest(request, context, "DELETE"));
 }
 
 /**
@@ -0,0 +1,376 @@
+import { requireRequestOwner } from "@/server/auth";
+import {
+  extractBrandFromImage,
+  extractBrandFromPptx,
+} from "@/server/brand-extraction";
+import {
+  BrandKitInput,
+  createBrandKit,
+  deleteBrandKit,
+  getBrandKitById,
+  listBrandKits,
+  updateBrandKit,
+} from "@/server/db/brand-kits";
+import type {
+  BrandFont,
+  BrandLogos,
+  ColorTokens,
+} from "@/utils/color-schemes";
+import {
+  MAX_IMAGE_UPLOAD_BYTES,
+  MAX_UPLOAD_BYTES,
+} from "../utils/constants";
+import { errorResponse, jsonResponse } from "../utils/responses";
+
+/**
+ * Maximum length of a kit name.
+ */
+const MAX_NAME_LENGTH = 80;
+
+/**
+ * Maximum length of the footer text.
+ */
+const MAX_FOOTER_LENGTH = 120;
+
+/**
+ * Hex color, with 3 or 6 digits.
+ */
+const HEX_COLOR_PATTERN = /^#(?:[0-9a-f]{3}|[0-9a-f]{6})$/i;
+
+/**
+ * Font family names are put into CSS and the PPTX, so only plain names are
+ * accepted.
+ */
+const FONT_FAMILY_PATTERN = /^[\p{L}\p{N} _.-]{1,100}$/u;
+
+/**
+ * Where brand fonts can be loaded from: uploaded font files and Google
+ * Fonts stylesheets.
+ */
+const FONT_URL_PATTERN =
+  /^(?:\/app_data\/fonts\/(?:[\w-]+\/)?[\w.-]+|https:\/\/fonts\.googleapis\.com\/\S+)$/;
+
+/**
+ * Color tokens a kit must define; `surface` is optional.
+ */
+const REQUIRED_COLOR_TOKENS = [
+  "heading",
+  "body",
+  "muted",
+  "accent",
+  "border",
+  "card",
+] as const;
+
+/**
+ * Result of reading a kit from a request body: the fields, or the message
+ * of the first invalid one.
+ */
+type BrandKitInputResult =
+  | { data: Partial<BrandKitInput>; error?: undefined }
+  | { error: string };
+
+/**
+ * Reads the color tokens of a kit.
+ */
+const parseColors = (value: unknown): ColorTokens | string => {
+  if (typeof value !== "object" || value === null) {
+    return "colors must be an object of hex colors";
+  }
+  const colors = value as Record<string, unknown>;
+  for (const token of [...REQUIRED_COLOR_TOKENS, "surface"]) {
+    const color = colors[token];
+    if (token === "surface" && (color === undefined || color === null)) {
+      continue;
+    }
+    if (typeof color !== "string" || !HEX_COLOR_PATTERN.test(color)) {
+      return `colors.${token} must be a hex color`;
+    }
+  }
+  const tokens = Object.fromEntries(
+    REQUIRED_COLOR_TOKENS.map((token) => [token, colors[token] as string]),
+  ) as ColorTokens;
+  if (typeof colors.surface === "string") tokens.surface = colors.surface;
+  return tokens;
+};
+
+/**
+ * Reads a font of a kit.
+ */
+const parseFont = (
+  value: unknown,
+  field: string,
+): BrandFont | null | string => {
+  if (value === null) return null;
+  const font = value as Partial<BrandFont> | undefined;
+  if (
+    typeof font?.family !== "string" ||
+    !FONT_FAMILY_PATTERN.test(font.family.trim())
+  ) {
+    return `${field}.family must be a font family name`;
+  }
+  const url = font.url ?? null;
+  if (
+    url !== null &&
+    (typeof url !== "string" || !FONT_URL_PATTERN.test(url))
+  ) {
+    return `${field}.url must be an uploaded font or a Google Fonts URL`;
+  }
+  return { family: font.family.trim(), url };
+};
+
+/**
+ * Reads the logo variants of a kit.
+ */
+const parseLogos = (value: unknown): BrandLogos | string => {
+  if (typeof value !== "object" || value === null) {
+    return "logos must be an object";
+  }
+  const logos = value as Record<string, unknown>;
+  const result: BrandLogos = { primary: null, inverse: null, icon: null };
+  for (const variant of ["primary", "inverse", "icon"] as const) {
+    const url = logos[variant] ?? null;
+    if (url === null || url === "") continue;
+    if (typeof url !== "string" || !/^(?:https?:\/\/|\/)\S+$/.test(url)) {
+      return `logos.${variant} must be an image URL`;
+    }
+    result[variant] = url;
+  }
+  return result;
+};
+
+/**
+ * Reads a brand kit from a request body.
+ *
+ * @param body - The parsed body.
+ * @param partial - Whether fields may be missing (updates).
+ * @returns The provided fields, or the first validation error.
+ */
+const parseBrandKitInput = (
+  body: Record<string, unknown>,
+  partial: boolean,
+): BrandKitInputResult => {
+  const data: Partial<BrandKitInput> = {};
+
+  if (body.name !== undefined || !partial) {
+    const name = typeof body.name === "string" ? body.name.trim() : "";
+    if (!name || name.length > MAX_NAME_LENGTH) {
+      return { error: `name must be 1-${MAX_NAME_LENGTH} characters` };
+    }
+    data.name = name;
+  }
+  if (body.colors !== undefined || !partial) {
+    const colors = parseColors(body.colors);
+    if (typeof colors === "string") return { error: colors };
+    data.colors = colors;
+  }
+  for (const field of ["heading_font", "body_font"] as const) {
+    if (body[field] === undefined) continue;
+    const font = parseFont(body[field], field);
+    if (typeof font === "string") return { error: font };
+    data[field] = font;
+  }
+  if (body.logos !== undefined) {
+    const logos = parseLogos(body.logos);
+    if (typeof logos === "string") return { error: logos };
+    data.logos = logos;
+  }
+  if (body.footer_text !== undefined) {
+    const footer =
+      typeof body.footer_text === "string" ? body.footer_text.trim() : null;
+    if (footer && footer.length > MAX_FOOTER_LENGTH) {
+      return {
+        error: `footer_text must be at most ${MAX_FOOTER_LENGTH} characters`,
+      };
+    }
+    data.footer_text = footer || null;
+  }
+  return { data };
+};
+
+/**
+ * Handles GET requests to list the user's brand kits.
+ *
+ * @returns A JSON response containing `{ kits: BrandKit[] }`, by name.
+ */
+export const handleBrandKitList = async () => {
+  const kits = await listBrandKits(requireRequestOwner());
+  return jsonResponse({ kits });
+};
+
+/**
+ * Handles GET requests for a single brand kit.
+ *
+ * @param id - ID of the kit.
+ * @returns A JSON response containing the kit.
+ *
+ * @throws Returns a 404 error response if the kit does not exist.
+ */
+export const handleBrandKitGet = async (id: string) => {
+  const kit = await getBrandKitById(requireRequestOwner(), id);
+  if (!kit) {
+    return errorResponse("Brand kit not found", 404);
+  }
+  return jsonResponse(kit);
+};
+
+/**
+ * Handles POST requests to create a brand kit.
+ *
+ * Request body:
+ * - `name` (required): Kit name
+ * - `colors` (required): Color tokens `{ heading, body, muted, accent,
+ *   border, card, surface? }` as hex colors
+ * - `heading_font`, `body_font` (optional): `{ family, url }`, where `url`
+ *   is an uploaded font (`/app_data/fonts/...`), a Google Fonts stylesheet
+ *   or null for a system font
+ * - `logos` (optional): `{ primary, inverse, icon }` image URLs
+ * - `footer_text` (optional): Text shown in the footer of every slide
+ *
+ * @param request - The HTTP request object containing the kit.
+ * @returns A 201 JSON response containing the created kit.
+ *
+ * @throws Returns a 400 error response for invalid fields.
+ *
+ * @example
+ * ```typescript
+ * // Request: POST /api/v1/brand-kits
+ * // Body: { name: "Acme", colors: { heading: "#111111", accent: "#ff5a1f", ... },
+ * //   heading_font: { family: "Söhne", url: "/app_data/fonts/Sohne.woff2" } }
+ * // Response: { id: "kit-123", name: "Acme", ... }
+ * ```
+ */
+export const handleBrandKitCreate = async (request: Request) => {
+  const body = (await request.json().catch(() => null)) as Record<
+    string,
+    unknown
+  > | null;
+  if (!body) {
+    return errorResponse("Invalid request body");
+  }
+  const parsed = parseBrandKitInput(body, false);
+  if (parsed.error !== undefined) {
+    return errorResponse(parsed.error);
+  }
+  const kit = await createBrandKit(requireRequestOwner(), {
+    name: parsed.data.name!,
+    colors: parsed.data.colors!,
+    heading_font: parsed.data.heading_font ?? null,
+    body_font: parsed.data.body_font ?? null,
+    logos: parsed.data.logos ?? { primary: null, inverse: null, icon: null },
+    footer_text: parsed.data.footer_text ?? null,
+  });
+  return jsonResponse(kit, 201);
+};
+
+/**
+ * Handles PATCH requests to update a brand kit.
+ *
+ * Accepts the same fields as creation, all optional; only provided fields
+ * change. Presentations using the kit show the change on their next render
+ * and export.
+ *
+ * @param request - The HTTP request object containing the changes.
+ * @param id - ID of the kit.
+ * @returns A JSON response containing the updated kit.
+ *
+ * @throws Returns error responses for:
+ *   - 400: Invalid fields
+ *   - 404: Kit not found
+ */
+export const handleBrandKitUpdate = async (request: Request, id: string) => {
+  const body = (await request.json().catch(() => null)) as Record<
+    string,
+    unknown
+  > | null;
+  if (!body) {
+    return errorResponse("Invalid request body");
+  }
+  const parsed = parseBrandKitInput(body, true);
+  if (parsed.error !== undefined) {
+    return errorResponse(parsed.error);
+  }
+  const kit = await updateBrandKit(requireRequestOwner(), id, parsed.data);
+  if (!kit) {
+    return errorResponse("Brand kit not found", 404);
+  }
+  return jsonResponse(kit);
+};
+
+/**
+ * Handles DELETE requests to delete a brand kit.
+ *
+ * Presentations using the kit go back to their template's own styling.
+ *
+ * @param id - ID of the kit.
+ * @returns An empty 204 response.
+ *
+ * @throws Returns a 404 error response if the kit does not exist.
+ */
+export const handleBrandKitDelete = async (id: string) => {
+  const deleted = await deleteBrandKit(requireRequestOwner(), id);
+  if (!deleted) {
+    return errorResponse("Brand kit not found", 404);
+  }
+  return new Response(null, { status: 204 });
+};
+
+/**
+ * Handles POST requests to extract a brand from a logo, website screenshot
+ * or existing deck.
+ *
+ * Nothing is saved: the response is a suggestion the user reviews, e.g. in
+ * the brand kit form, before creating a kit with it.
+ *
+ * Request body (multipart/form-data):
+ * - `file` (required): An image (PNG, JPEG, WebP, SVG) of at most
+ *   MAX_IMAGE_UPLOAD_BYTES, or a PPTX of at most MAX_UPLOAD_BYTES
+ *
+ * @param request - The HTTP request object containing the file.
+ * @returns A JSON response containing:
+ *   - `source`: `"image"` or `"pptx"`
+ *   - `scheme`: Color scheme `{ id, name, description, colors }`, whose
+ *     colors can be used as a kit's colors as they are
+ *   - `palette`: Main colors found in the file
+ *   - `contrast`: WCAG contrast checks `{ token, against, ratio, required,
+ *     passes }` of the scheme's text and accent colors
+ *   - `fonts`: Suggested `heading` and `body` fonts, the font families
+ *     `detected` in a deck and alternative `pairings`
+ *
+ * @throws Returns error responses for:
+ *   - 400: Missing file, unsupported file type, file too large, or a file
+ *     that cannot be read
+ *
+ * @example
+ * ```typescript
+ * // Request: POST /api/v1/brand-kits/extract (form data: file=logo.png)
+ * // Response: { source: "image", scheme: { id: "extracted", name: "logo",
+ * //   colors: { accent: "#ff5a1f", ... } }, contrast: [...], fonts: {...} }
+ * ```
+ */
+export const handleBrandKitExtract = async (request: Request) => {
+  const formData = await request.formData().catch(() => null);
+  const file = formData?.get("file");
+  if (!(file instanceof File)) {
+    return errorResponse("file is required");
+  }
+  const isPptx = /\.pptx$/i.test(file.name);
+  if (!isPptx && !file.type.startsWith("image/")) {
+    return errorResponse("file must be an image or a PPTX");
+  }
+  if (file.size > (isPptx ? MAX_UPLOAD_BYTES : MAX_IMAGE_UPLOAD_BYTES)) {
+    return errorResponse("File exceeded max upload size");
+  }
+
+  const name = file.name.replace(/\.[^.]+$/, "") || "Extracted brand";
+  const buffer = Buffer.from(await file.arrayBuffer());
+  try {
+    const brand = isPptx
+      ? await extractBrandFromPptx(buffer, name)
+      : await extractBrandFromImage(buffer, name);
+    return jsonResponse(brand);
+  } catch (error) {
+    console.warn("Brand extraction failed:", error);
+    return errorResponse("Could not read the file");
+  }
+};
@@ -0,0 +1,58 @@
+import { getRequestUser } from "@/server/auth";
+import {
+  createCollabTicket,
+  getCollabServerUrl,
+} from "@/server/collab-tickets";
+import { getPresentationAccess } from "@/server/db/presentation-members";
+import { errorResponse, jsonResponse } from "../utils/responses";
+
+/**
+ * Handles POST requests to join a presentation's collaboration session.
+ *
+ * Checks that the signed-in user can edit the presentation (its owner, or a
+ * member invited as editor) and returns the collaboration server URL with a
+ * short-lived ticket for it. When
+ * collaboration is not configured (`COLLAB_SERVER_URL` / `COLLAB_SECRET`),
+ * returns `{ enabled: false }` and the editor keeps saving through the
+ * REST API.
+ *
+ * @param presentationId - ID of the presentation.
+ * @returns A JSON response containing `{ enabled, url, ticket }`.
+ *
+ * @throws Returns error responses for:
+ *   - 403: The user is a viewer of the presentation
+ *   - 404: Presentation not found, or the user is not a member
+ *
+ * @example
+ * ```typescript
+ * // Request: POST /api/v1/presentations/abc-123/collab-session
+ * // Response: { enabled: true, url: "wss://collab.example.com", ticket: "..." }
+ * ```
+ */
+export const handleCollabSessionCreate = async (presentationId: string) => {
+  const user = getRequestUser();
+  if (!user) {
+    return errorResponse("Authentication required", 401);
+  }
+  const access = await getPresentationAccess(user.id, presentationId);
+  if (!access) {
+    return errorResponse("Presentation not found", 404);
+  }
+  if (access.role === "viewer") {
+    return errorResponse("You can only view this presentation", 403);
+  }
+
+  const url = getCollabServerUrl();
+  if (!url) {
+    return jsonResponse({ enabled: false, url: null, ticket: null });
+  }
+  return jsonResponse({
+    enabled: true,
+    url,
+    ticket: createCollabTicket({
+      presentation_id: presentationId,
+      user_id: user.id,
+      name: user.name || user.email,
+    }),
+  });
+};
@@ -1,17 +1,33 @@
 import path from "node:path";
 import { promises as fs } from "node:fs";
+import { v4 as uuidv4 } from "uuid";
 
-import { getFontsDirectory } from "@/server/storage";
+import { requireRequestOwner } from "@/server/auth";
+import { getFontsDirectory, getOwnerDirectory } from "@/server/storage";
 
 import { MAX_FONT_UPLOAD_BYTES } from "../utils/constants";
 import { errorResponse, jsonResponse } from "../utils/responses";
+import { toAppDataUrl } from "../utils/storage";
+
+/**
+ * Random prefix of stored font file names, which keeps font URLs
+ * unguessable (see server/storage).
+ */
+const FONT_ID_PREFIX =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}-/;
+
+/**
+ * Gets the current user's fonts directory.
+ */
+const getUserFontsDirectory = () =>
+  getOwnerDirectory(getFontsDirectory(), requireRequestOwner());
 
 /**
  * Handles POST requests to upload a font file.
  *
  * Accepts a multipart/form-data request with a font file (TTF, OTF, WOFF, etc.),
- * validates its size, saves it to the fonts directory, and returns metadata
- * about the uploaded font.
+ * validates its size, saves it to the user's fonts directory under a random
+ * prefix, and returns metadata about the uploaded font.
  *
  * Request body (multipart/form-data):
  * - `font_file` (required): Font file to upload
@@ -40,48 +56,52 @@ export const handleFontsUpload = async (request: Request) => {
   if (file.size > MAX_FONT_UPLOAD_BYTES) {
     return errorResponse("Font exceeded max upload size");
   }
-  const fontsDir = getFontsDirectory();
   const safeName = file.name.replace(/[^\w.\-]/g, "_");
-  const filePath = path.join(fontsDir, safeName);
+  const filePath = path.join(
+    getUserFontsDirectory(),
+    `${uuidv4()}-${safeName}`,
+  );
   const buffer = Buffer.from(await file.arrayBuffer());
   await fs.writeFile(filePath, buffer);
   return jsonResponse({
     success: true,
     font_name: path.parse(safeName).name,
-    font_url: `/app_data/fonts/${safeName}`,
+    font_url: toAppDataUrl(filePath),
     font_path: filePath,
   });
 };
 
 /**
- * Handles GET requests to list all available font files.
+ * Handles GET requests to list the current user's font files.
  *
- * Scans the fonts directory and returns metadata about each font file including
- * filename, font name (extracted from filename), file size, and file type.
+ * Scans the user's fonts directory and returns metadata about each font file
+ * including filename, font name (extracted from filename), file size, and
+ * file type.
  *
  * @returns A JSON response containing:
  *   - `success`: Boolean indicating operation success
  *   - `fonts`: Array of font objects, each with:
- *     - `filename`: Original filename
+ *     - `filename`: Stored filename, used to delete the font
  *     - `font_name`: Name extracted from filename (without extension)
- *     - `original_name`: Original filename
+ *     - `original_name`: Filename the font was uploaded with
  *     - `font_url`: URL-accessible path to the font
  *     - `font_type`: File extension (e.g., "ttf", "otf", "woff")
  *     - `file_size`: Size of the font file in bytes
  *   - `message`: Summary message with font count
  */
 export const handleFontsList = async () => {
-  const fontsDir = getFontsDirectory();
+  const fontsDir = getUserFontsDirectory();
   const entries = await fs.readdir(fontsDir);
   const fonts = await Promise.all(
     entries.map(async (filename) => {
       const filePath = path.join(fontsDir, filename);
       const stats = await fs.stat(filePath);
+      const originalName = filename.replace(FONT_ID_PREFIX, "");
       return {
         filename,
-        font_name: path.parse(filename).name,
-        original_name: filename,
-        font_url: `/app_data/fonts/${filename}`,
+        font_name: path.parse(originalName).name,
+        original_name: originalName,
+        font_url: toAppDataUrl(filePath),
         font_type: path.extname(filename).slice(1),
         file_size: stats.size,
       };
@@ -97,9 +117,11 @@ export const handleFontsList = async () => {
 /**
  * Handles DELETE requests to remove a font file.
  *
- * Deletes a font file from the fonts directory. This operation is irreversible.
+ * Deletes a font file from the user's fonts directory. This operation is
+ * irreversible.
  *
- * @param filename - The filename of the font to delete (must match exactly).
+ * @param filename - The stored filename of the font to delete (must match
+ *   exactly).
  * @returns A JSON response with:
  *   - `success`: Boolean indicating operation success
  *   - `message`: Success message
@@ -107,8 +129,7 @@ export const handleFontsList = async () => {
  * @throws May throw filesystem errors if the file doesn't exist or can't be deleted.
  */
 export const handleFontsDelete = async (filename: string) => {
-  const fontsDir = getFontsDirectory();
-  const filePath = path.join(fontsDir, filename);
+  const filePath = path.join(getUserFontsDirectory(), path.basename(filename));
   await fs.unlink(filePath);
   return jsonResponse({ success: true, message: "Font deleted successfully" });
 };
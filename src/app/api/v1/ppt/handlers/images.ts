@@ -7,6 +7,7 @@ import {
   getImageById,
   listImages,
 } from "@/server/db/images";
+import { requireRequestOwner } from "@/server/auth";
 import { generateImageFromPrompt, saveUploadedImage } from "@/server/images";
 
 import { MAX_IMAGE_UPLOAD_BYTES } from "../utils/constants";
@@ -40,7 +41,7 @@ import { toAppDataUrl } from "../utils/storage";
  * // Request: GET /api/v1/images/generate?prompt=a%20sunset%20over%20mountains
  * const url = new URL(request.url);
  * const response = await handleImagesGenerate(url);
- * // Response: "/app_data/images/abc-123.png"
+ * // Response: "/app_data/images/<owner>/abc-123.png"
  * ```
  */
 export const handleImagesGenerate = async (url: URL) => {
@@ -50,11 +51,13 @@ export const handleImagesGenerate = async (url: URL) => {
   }
   try {
     // Generate image using AI image generation service
-    const imagePath = await generateImageFromPrompt(prompt);
+    const owner = requireRequestOwner();
+    const imagePath = await generateImageFromPrompt(owner, prompt);
     
     // Create database record to track the generated image
     const record = await createImageAsset({
       id: uuidv4(),
+      owner,
       path: imagePath,
       is_uploaded: false, // Mark as AI-generated, not user-uploaded
     });
@@ -70,7 +73,8 @@ export const handleImagesGenerate = async (url: URL) => {
 /**
  * Handles GET requests to retrieve all AI-generated images.
  *
- * Returns a list of all images that were generated by AI (not uploaded by users).
+ * Returns a list of the current user's images that were generated by AI (not
+ * uploaded by users).
  * This is useful for displaying a gallery of generated images or allowing users
  * to reuse previously generated images.
  *
@@ -89,7 +93,7 @@ export const handleImagesGenerate = async (url: URL) => {
  */
 export const handleImagesGenerated = async () => {
   // List all images marked as not uploaded (i.e., AI-generated)
-  const imagesList = await listImages(false);
+  const imagesList = await listImages(requireRequestOwner(), false);
   
   // Convert file paths to URL-accessible paths
   const images = imagesList.map((image) => ({
@@ -150,11 +154,13 @@ export const handleImagesUpload = async (request: Request) => {
   }
   
   // Save the uploaded file to storage
-  const imagePath = await saveUploadedImage(file);
+  const owner = requireRequestOwner();
+  const imagePath = await saveUploadedImage(owner, file);
   
   // Create database record to track the uploaded image
   const record = await createImageAsset({
     id: uuidv4(),
+    owner,
     path: imagePath,
     is_uploaded: true, // Mark as user-uploaded (not AI-generated)
   });
@@ -169,7 +175,8 @@ export const handleImagesUpload = async (request: Request) => {
 /**
  * Handles GET requests to retrieve all user-uploaded images.
  *
- * Returns a list of all images that were uploaded by users (not generated by AI).
+ * Returns a list of the current user's images that were uploaded (not
+ * generated by AI).
  * This is useful for displaying a gallery of uploaded images or allowing users
  * to manage their image library.
  *
@@ -188,7 +195,7 @@ export const handleImagesUpload = async (request: Request) => {
  */
 export const handleImagesUploaded = async () => {
   // List all images marked as uploaded (i.e., user-uploaded)
-  const imagesList = await listImages(true);
+  const imagesList = await listImages(requireRequestOwner(), true);
   
   // Convert file paths to URL-accessible paths
   const images = imagesList.map((image) => ({
@@ -212,7 +219,7 @@ export const handleImagesUploaded = async () => {
  *   - `message`: Success message
  *
  * @throws Returns error responses for:
- *   - 404: Image not found in database
+ *   - 404: Image not found in database or owned by another user
  *
  * @example
  * ```typescript
@@ -222,8 +229,9 @@ export const handleImagesUploaded = async () => {
  * ```
  */
 export const handleImagesDelete = async (id: string) => {
-  // Check if image exists before attempting deletion
-  const image = await getImageById(id);
+  const owner = requireRequestOwner();
+  // Check if image exists (and belongs to the user) before attempting deletion
+  const image = await getImageById(owner, id);
   if (!image) {
     return jsonResponse({ detail: "Image not found" }, 404);
   }
@@ -239,6 +247,6 @@ export const handleImagesDelete = async (id: string) => {
   
   // Delete database record regardless of file deletion result
   // This prevents orphaned database records
-  await deleteImageById(id);
+  await deleteImageById(owner, id);
   return jsonResponse({ success: true, message: "Image deleted successfully" });
 };
@@ -0,0 +1,239 @@
+import path from "node:path";
+import { promises as fs } from "node:fs";
+import { v4 as uuidv4 } from "uuid";
+
+import { requireRequestOwner } from "@/server/auth";
+import { createPresentation } from "@/server/db/presentations";
+import { replaceSlidesForPresentation } from "@/server/db/slides";
+import { getImagesDirectory, getOwnerDirectory } from "@/server/storage";
+import {
+  importedSlideToMarkdown,
+  parsePptxFile,
+  renderSlideModelToHtml,
+  renderSlideThumbnails,
+  toImportedSlideContent,
+} from "@/server/pptx/import";
+import { emitWebhookEvent } from "@/server/webhooks";
+import type { PptxPictureBoxModel, PptxSlideModel } from "@/types/pptx-models";
+import { MAX_UPLOAD_BYTES } from "../utils/constants";
+import { errorResponse, jsonResponse } from "../utils/responses";
+import { trackSlideRevisions } from "../utils/revisions";
+import { ensureTempDir, toAppDataUrl } from "../utils/storage";
+
+/**
+ * Layout group and layout ID assigned to imported slides. The layout lives in
+ * the hidden `imported` template family.
+ */
+const IMPORTED_LAYOUT_GROUP = "imported";
+const IMPORTED_LAYOUT_ID = "imported:imported-slide";
+
+/**
+ * Returns a copy of a slide model with picture paths passed through `resolve`.
+ *
+ * Used to swap stored `/app_data/...` URLs for inline data URIs when
+ * rendering thumbnails, since headless Chromium loads the HTML without an
+ * origin to resolve app-relative URLs against.
+ */
+const mapPicturePaths = (
+  slide: PptxSlideModel,
+  resolve: (value: string) => string,
+): PptxSlideModel => ({
+  ...slide,
+  backgroundImage: slide.backgroundImage
+    ? resolve(slide.backgroundImage)
+    : undefined,
+  shapes: slide.shapes.map((shape) =>
+    shape.shape_type === "picture"
+      ? {
+          ...shape,
+          picture: {
+            ...(shape as PptxPictureBoxModel).picture,
+            path: resolve((shape as PptxPictureBoxModel).picture.path),
+          },
+        }
+      : shape,
+  ),
+});
+
+/**
+ * Handles POST requests to import a PowerPoint file as a new presentation.
+ *
+ * Parses the uploaded deck in Node (no LibreOffice), stores embedded pictures,
+ * renders thumbnails with headless Chromium, and creates:
+ * - A presentation whose outlines and document content are the imported
+ *   slides in markdown, so it can be regenerated with any Pitch:US template
+ * - One editable Slide record per imported slide, rendered by the
+ *   `imported:imported-slide` layout with the original element positions
+ *
+ * Request body (multipart/form-data):
+ * - `pptx_file` (required): PPTX file to import
+ * - `language` (optional): Presentation language (default: "English")
+ *
+ * @param request - The HTTP request object containing the PPTX file in form data.
+ * @returns A JSON response with:
+ *   - `presentation_id`: ID of the created presentation
+ *   - `title`: Title taken from the first slide
+ *   - `slides`: Array of { slide_number, title, screenshot_url, normalized_fonts }
+ *   - `total_slides`: Number of imported slides
+ *
+ * @throws Returns error responses for:
+ *   - 400: Missing PPTX file, file exceeds maximum size, or no slides found
+ *   - 500: Parsing, thumbnail rendering, or database write failed
+ *
+ * @example
+ * ```typescript
+ * // Request: POST /api/v1/presentations/import/pptx (multipart, pptx_file)
+ * // Response: { presentation_id: "abc-123", title: "Q3 Board Update", total_slides: 14, ... }
+ * ```
+ */
+export const handlePptxImport = async (request: Request) => {
+  const formData = await request.formData();
+  const pptx = formData.get("pptx_file");
+  if (!(pptx instanceof File)) {
+    return errorResponse("pptx_file is required");
+  }
+  if (pptx.size > MAX_UPLOAD_BYTES) {
+    return errorResponse("PPTX file exceeded max upload size");
+  }
+  const languageField = formData.get("language");
+  const language =
+    typeof languageField === "string" && languageField
+      ? languageField
+      : "English";
+
+  const tempDir = await ensureTempDir();
+  try {
+    const pptxPath = path.join(tempDir, "presentation.pptx");
+    await fs.writeFile(pptxPath, Buffer.from(await pptx.arrayBuffer()));
+
+    const presentationId = uuidv4();
+    const owner = requireRequestOwner();
+    // The presentation ID is handed to share viewers and webhooks, so the
+    // pictures go in a directory of their own
+    const presentationDir = path.join(
+      getOwnerDirectory(getImagesDirectory(), owner),
+      uuidv4(),
+    );
+    await fs.mkdir(presentationDir, { recursive: true });
+
+    // Pictures are written next to the thumbnails; keep inline copies for
+    // thumbnail rendering only
+    const inlineMedia = new Map<string, string>();
+    let mediaCount = 0;
+    const { slides } = await parsePptxFile(pptxPath, {
+      saveMedia: async (fileName, data, mimeType) => {
+        mediaCount += 1;
+        const mediaPath = path.join(
+          presentationDir,
+          `media_${mediaCount}${path.extname(fileName)}`,
+        );
+        await fs.writeFile(mediaPath, data);
+        const url = toAppDataUrl(mediaPath);
+        inlineMedia.set(
+          url,
+          `data:${mimeType};base64,${data.toString("base64")}`,
+        );
+        return url;
+      },
+    });
+    if (!slides.length) {
+      return errorResponse("PPTX file contains no slides");
+    }
+
+    const screenshotPaths = await renderSlideThumbnails(
+      slides.map((slide) =>
+        mapPicturePaths(slide.model, (value) => inlineMedia.get(value) ?? value),
+      ),
+      tempDir,
+    );
+    const screenshotUrls = await Promise.all(
+      screenshotPaths.map(async (screenshotPath, index) => {
+        const permanentPath = path.join(
+          presentationDir,
+          `slide_${index + 1}.png`,
+        );
+        await fs.copyFile(screenshotPath, permanentPath);
+        return toAppDataUrl(permanentPath);
+      }),
+    );
+
+    const markdown = slides.map(importedSlideToMarkdown);
+    const title = slides[0].title;
+    await createPresentation({
+      id: presentationId,
+      owner,
+      content: `Imported from ${pptx.name}`,
+      n_slides: slides.length,
+      language,
+      document_content: markdown.join("\n\n"),
+      file_metadata: [
+        {
+          name: pptx.name,
+          size: pptx.size,
+          type:
+            pptx.type ||
+            "application/vnd.openxmlformats-officedocument.presentationml.presentation",
+        },
+      ],
+      tone: null,
+      verbosity: null,
+      instructions: null,
+      include_table_of_contents: false,
+      include_title_slide: false,
+      web_search: false,
+      outlines: { slides: markdown.map((content) => ({ content })) },
+      // Layout and structure are set when the deck is regenerated with a template
+      layout: null,
+      structure: null,
+      key_facts: null,
+      title,
+      brand_kit: null,
+    });
+
+    const savedSlides = await replaceSlidesForPresentation(
+      owner,
+      presentationId,
+      slides.map((slide, index) => ({
+        id: uuidv4(),
+        presentation: presentationId,
+        layout_group: IMPORTED_LAYOUT_GROUP,
+        layout: IMPORTED_LAYOUT_ID,
+        slide_index: index,
+        speaker_note: slide.model.note ?? "",
+        content: toImportedSlideContent(slide),
+        html_content: renderSlideModelToHtml(slide.model),
+        sources: null,
+        document_sources: null,
+      })),
+    );
+    if (savedSlides) {
+      await trackSlideRevisions(owner, presentationId, savedSlides, "import");
+    }
+
+    await emitWebhookEvent("presentation.created", {
+      presentation_id: presentationId,
+      n_slides: slides.length,
+      language,
+      source: "pptx_import",
+    });
+
+    return jsonResponse({
+      presentation_id: presentationId,
+      title,
+      slides: slides.map((slide, index) => ({
+        slide_number: slide.slide_number,
+        title: slide.title,
+        screenshot_url: screenshotUrls[index],
+        normalized_fonts: slide.fonts,
+      })),
+      total_slides: slides.length,
+    });
+  } catch (error) {
+    console.error("PPTX import failed:", error);
+    const message =
+      error instanceof Error ? error.message : "Failed to import PPTX";
+    return errorResponse(message, 500);
+  } finally {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  }
+};
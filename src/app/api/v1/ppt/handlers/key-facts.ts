@@ -0,0 +1,258 @@
+import { requireRequestOwner } from "@/server/auth";
+import {
+  getPresentationById,
+  PresentationRecord,
+  updatePresentation,
+} from "@/server/db/presentations";
+import {
+  getSlideById,
+  listSlidesByPresentation,
+  SlideRecord,
+  updateSlide,
+} from "@/server/db/slides";
+import type { KeyFact } from "@/types/presentation";
+
+import { resolveDocumentSearchIndex } from "../utils/document-resolver";
+import {
+  extractKeyFacts,
+  findKeyFactBindings,
+  parseKeyFacts,
+  propagateKeyFacts,
+} from "../utils/key-facts";
+import { errorResponse } from "../utils/responses";
+import { trackSlideRevisions } from "../utils/revisions";
+import {
+  conflictResponse,
+  readExpectedVersion,
+  versionedResponse,
+} from "../utils/versions";
+
+/**
+ * Builds the key facts response of a presentation.
+ *
+ * @param presentation - The presentation.
+ * @param slides - The presentation's slides.
+ * @param updatedSlides - Slides changed by the request, if any.
+ * @returns The response body: facts, where each is used, whether facts
+ *   were extracted yet, the presentation's version and the updated slides.
+ */
+const buildKeyFactsBody = (
+  presentation: PresentationRecord,
+  slides: SlideRecord[],
+  updatedSlides: SlideRecord[] = [],
+) => {
+  const facts = presentation.key_facts ?? [];
+  return {
+    facts,
+    bindings: findKeyFactBindings(facts, slides),
+    extracted: presentation.key_facts !== null,
+    version: presentation.version,
+    updated_slides: updatedSlides,
+  };
+};
+
+/**
+ * Handles GET requests for a presentation's key facts.
+ *
+ * Returns the facts with their bindings: the slide fields that show each
+ * fact's value and would change with it.
+ *
+ * @param presentationId - The unique identifier of the presentation.
+ * @returns A JSON response with `facts`, `bindings`, `extracted` and
+ *   `version`, with the presentation's version as ETag.
+ *
+ * @throws Returns error responses for:
+ *   - 404: Presentation not found
+ *
+ * @example
+ * ```typescript
+ * // Request: GET /api/v1/presentations/abc-123/key-facts
+ * // Response: {
+ * //   facts: [{ key: "arr", label: "ARR", value: "$1.2M", source: "source" }],
+ * //   bindings: [{ key: "arr", slide_index: 4, path: "metrics[0].value", ... }],
+ * //   extracted: true, version: 12, updated_slides: []
+ * // }
+ * ```
+ */
+export const handleKeyFactsGet = async (presentationId: string) => {
+  const owner = requireRequestOwner();
+  const presentation = await getPresentationById(owner, presentationId);
+  if (!presentation) {
+    return errorResponse("Presentation not found", 404);
+  }
+  const slides = await listSlidesByPresentation(owner, presentationId);
+  return versionedResponse(
+    buildKeyFactsBody(presentation, slides),
+    presentation.version,
+  );
+};
+
+/**
+ * Handles POST requests to extract a presentation's key facts again from
+ * its prompt and documents.
+ *
+ * Facts the user entered or edited are kept; the extracted facts replace
+ * the previously extracted ones. Slides are not changed.
+ *
+ * @param presentationId - The unique identifier of the presentation.
+ * @returns A JSON response with the new facts and their bindings, with the
+ *   presentation's version as ETag.
+ *
+ * @throws Returns error responses for:
+ *   - 404: Presentation not found
+ *   - 500: Extraction failed
+ */
+export const handleKeyFactsExtract = async (presentationId: string) => {
+  const owner = requireRequestOwner();
+  const presentation = await getPresentationById(owner, presentationId);
+  if (!presentation) {
+    return errorResponse("Presentation not found", 404);
+  }
+
+  const extracted = await extractKeyFacts(
+    presentation,
+    await resolveDocumentSearchIndex(owner, presentation),
+  );
+  if (!extracted) {
+    return errorResponse("Failed to extract key facts", 500);
+  }
+  const userFacts = (presentation.key_facts ?? []).filter(
+    (fact) => fact.source === "user",
+  );
+  const facts = [
+    ...userFacts,
+    ...extracted.filter(
+      (fact) => !userFacts.some((userFact) => userFact.key === fact.key),
+    ),
+  ];
+
+  const updated = await updatePresentation(owner, presentationId, {
+    key_facts: facts,
+  });
+  if (!updated) {
+    return errorResponse("Presentation not found", 404);
+  }
+  const slides = await listSlidesByPresentation(owner, presentationId);
+  return versionedResponse(
+    buildKeyFactsBody(updated, slides),
+    updated.version,
+  );
+};
+
+/**
+ * Handles PATCH requests to replace a presentation's key facts.
+ *
+ * Every slide field bound to a fact whose value changed is rewritten with
+ * the new value, so changing a fact once updates every slide that shows
+ * it. Each changed slide is recorded in its revision history as
+ * "key_fact". A slide that changed since it was read is left as is and
+ * reported in `skipped_slides`.
+ *
+ * New facts and facts whose value changed are marked as entered by the
+ * user, so extracting the facts again keeps them.
+ *
+ * Request body:
+ * - `facts` (required): The complete list of facts, `[{ key, label, value }]`
+ * - `version` (optional): Presentation version the change is based on (or
+ *   `If-Match` header)
+ *
+ * @param request - The HTTP request object containing the facts.
+ * @param presentationId - The unique identifier of the presentation.
+ * @returns A JSON response with the saved facts, their bindings and the
+ *   updated slides, with the presentation's version as ETag.
+ *
+ * @throws Returns error responses for:
+ *   - 400: Missing facts
+ *   - 404: Presentation not found
+ *   - 409: Presentation changed since `version`; the body's `current`
+ *     holds the current facts
+ *
+ * @example
+ * ```typescript
+ * // Request: PATCH /api/v1/presentations/abc-123/key-facts
+ * // Body: { version: 12, facts: [{ key: "arr", label: "ARR", value: "$1.5M" }] }
+ * // Response: { facts: [...], bindings: [...], updated_slides: [<traction>, <ask>] }
+ * ```
+ */
+export const handleKeyFactsUpdate = async (
+  request: Request,
+  presentationId: string,
+) => {
+  const body = (await request.json().catch(() => null)) as {
+    facts?: unknown;
+    version?: unknown;
+  } | null;
+  if (!Array.isArray(body?.facts)) {
+    return errorResponse("facts must be a list of { key, label, value }");
+  }
+
+  const owner = requireRequestOwner();
+  const presentation = await getPresentationById(owner, presentationId);
+  if (!presentation) {
+    return errorResponse("Presentation not found", 404);
+  }
+  const previous = presentation.key_facts ?? [];
+  const facts: KeyFact[] = parseKeyFacts(body.facts, "user").map((fact) => {
+    const existing = previous.find((item) => item.key === fact.key);
+    return {
+      ...fact,
+      source:
+        existing && existing.value === fact.value ? existing.source : "user",
+    };
+  });
+
+  const expectedVersion =
+    readExpectedVersion(request, body.version) ?? presentation.version;
+  const updated = await updatePresentation(
+    owner,
+    presentationId,
+    { key_facts: facts },
+    expectedVersion,
+  );
+  if (!updated) {
+    const current = await getPresentationById(owner, presentationId);
+    if (!current) return errorResponse("Presentation not found", 404);
+    return conflictResponse(
+      "The key facts were changed since you loaded them",
+      buildKeyFactsBody(
+        current,
+        await listSlidesByPresentation(owner, presentationId),
+      ),
+      current.version,
+    );
+  }
+
+  const slides = await listSlidesByPresentation(owner, presentationId);
+  const changes = propagateKeyFacts(previous, facts, slides);
+  await trackSlideRevisions(
+    owner,
+    presentationId,
+    changes.map(({ slide }) => slide),
+    "original",
+  );
+  const updatedSlides: SlideRecord[] = [];
+  const skippedSlides: string[] = [];
+  for (const { slide, content } of changes) {
+    // A slide someone edited in the meantime keeps their edit
+    const status = await updateSlide(owner, slide.id, slide.version, {
+      content,
+    });
+    const saved =
+      status === "updated" ? await getSlideById(owner, slide.id) : null;
+    if (saved) {
+      updatedSlides.push(saved);
+    } else {
+      skippedSlides.push(slide.id);
+    }
+  }
+  await trackSlideRevisions(owner, presentationId, updatedSlides, "key_fact");
+
+  const current = await listSlidesByPresentation(owner, presentationId);
+  return versionedResponse(
+    {
+      ...buildKeyFactsBody(updated, current, updatedSlides),
+      skipped_slides: skippedSlides,
+    },
+    updated.version,
+  );
+};
@@ -0,0 +1,135 @@
+import { requireRequestOwner } from "@/server/auth";
+import {
+  isMemberRole,
+  listPresentationMembers,
+  removePresentationMember,
+  upsertPresentationMember,
+} from "@/server/db/presentation-members";
+import { getPresentationById } from "@/server/db/presentations";
+import { getUserByEmail } from "@/server/db/users";
+import { errorResponse, jsonResponse } from "../utils/responses";
+
+/**
+ * Handles GET requests to list the members of a presentation.
+ *
+ * Only the owner can list members.
+ *
+ * @param presentationId - ID of the presentation.
+ * @returns A JSON response with `{ members }`, in order of invitation.
+ *
+ * @throws Returns a 404 error response if the presentation does not exist.
+ *
+ * @example
+ * ```typescript
+ * // Request: GET /api/v1/presentations/abc-123/members
+ * // Response: { members: [{ user_id: "...", email: "ana@acme.com", role: "editor", ... }] }
+ * ```
+ */
+export const handleMembersList = async (presentationId: string) => {
+  const owner = requireRequestOwner();
+  const presentation = await getPresentationById(owner, presentationId);
+  if (!presentation) {
+    return errorResponse("Presentation not found", 404);
+  }
+  return jsonResponse({
+    members: await listPresentationMembers(owner, presentationId),
+  });
+};
+
+/**
+ * Handles POST requests to invite a user to a presentation.
+ *
+ * The user must have an account. Inviting a member again changes their
+ * role; an editor made a viewer is disconnected from the collaboration
+ * session within a few seconds (see server/collab).
+ *
+ * Request body:
+ * - `email` (required): Email address of the user to invite
+ * - `role` (optional): "editor" (default) or "viewer"
+ *
+ * @param request - The HTTP request object containing the invitation.
+ * @param presentationId - ID of the presentation.
+ * @returns A JSON response with the membership.
+ *
+ * @throws Returns error responses for:
+ *   - 400: Missing email, invalid role, or the owner's own email
+ *   - 404: Presentation not found, or no user with the email
+ *
+ * @example
+ * ```typescript
+ * // Request: POST /api/v1/presentations/abc-123/members
+ * // Body: { email: "ana@acme.com", role: "editor" }
+ * // Response: { id: "...", user_id: "...", email: "ana@acme.com", role: "editor", ... }
+ * ```
+ */
+export const handleMemberInvite = async (
+  request: Request,
+  presentationId: string,
+) => {
+  const body = await request.json().catch(() => ({}));
+  if (typeof body.email !== "string" || !body.email.trim()) {
+    return errorResponse("email is required");
+  }
+  const role = body.role ?? "editor";
+  if (!isMemberRole(role)) {
+    return errorResponse('role must be "editor" or "viewer"');
+  }
+
+  const owner = requireRequestOwner();
+  const presentation = await getPresentationById(owner, presentationId);
+  if (!presentation) {
+    return errorResponse("Presentation not found", 404);
+  }
+  const user = await getUserByEmail(body.email);
+  if (!user) {
+    return errorResponse("No user with this email", 404);
+  }
+  if (user.id === owner) {
+    return errorResponse("You already own this presentation");
+  }
+
+  const member = await upsertPresentationMember(
+    owner,
+    presentationId,
+    user.id,
+    role,
+  );
+  if (!member) {
+    return errorResponse("Presentation not found", 404);
+  }
+  return jsonResponse(member);
+};
+
+/**
+ * Handles DELETE requests to remove a member from a presentation.
+ *
+ * The member loses access immediately. The collaboration server drops their
+ * edits from then on and disconnects them within a few seconds (see
+ * server/collab).
+ *
+ * @param presentationId - ID of the presentation.
+ * @param userId - ID of the member to remove.
+ * @returns A 204 response.
+ *
+ * @throws Returns a 404 error response if the user is not a member.
+ *
+ * @example
+ * ```typescript
+ * // Request: DELETE /api/v1/presentations/abc-123/members/user-456
+ * // Response: 204 No Content
+ * ```
+ */
+export const handleMemberRemove = async (
+  presentationId: string,
+  userId: string,
+) => {
+  const removed = await removePresentationMember(
+    requireRequestOwner(),
+    presentationId,
+    userId,
+  );
+  if (!removed) {
+    return errorResponse("Member not found", 404);
+  }
+  return new Response(null, { status: 204 });
+};
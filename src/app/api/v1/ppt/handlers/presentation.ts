@@ -6,32 +6,84 @@ import {
   updatePresentation,
 } from "@/server/db/presentations";
 import {
+  getSlideById,
   listSlidesByPresentation,
   replaceSlidesForPresentation,
+  SlideRecord,
+  updateSlide,
+  upsertSlide,
 } from "@/server/db/slides";
+import {
+  createGenerationJob,
+  GenerationJobRecord,
+  getGenerationJob,
+  getLatestGenerationJob,
+  updateGenerationJob,
+} from "@/server/db/generation-jobs";
+import { getBrandKitById } from "@/server/db/brand-kits";
+import { getPresentationAccess } from "@/server/db/presentation-members";
+import { requireRequestOwner } from "@/server/auth";
 import { v4 as uuidv4 } from "uuid";
 
 import { errorResponse, jsonResponse } from "../utils/responses";
+import {
+  conflictResponse,
+  readExpectedVersion,
+  versionedResponse,
+} from "../utils/versions";
+import { trackSlideRevisions } from "../utils/revisions";
 import {
   LayoutPayload,
   Outline,
+  PresentationStructure,
   SlideResponse,
   SlideSchema,
 } from "../types/streaming";
 import { createSseStream, sseChunk } from "@/server/sse";
+import {
+  cancelGenerationRun,
+  createGenerationRunStream,
+  createGenerationSnapshotStream,
+  emitGenerationEvent,
+  GenerationEventId,
+  GenerationRun,
+  getGenerationRun,
+  isGenerationJobStale,
+  parseGenerationEventId,
+  startGenerationRun,
+} from "@/server/generation-jobs";
 import { buildDataFromSchema } from "@/server/schema";
+import type { DocumentSearchIndex } from "@/server/retrieval";
 import {
   buildOutlines,
+  buildOutlinesSystemPrompt,
   buildPlaceholderFromSchema,
   buildSlideContentStream,
+  extractSpeakerNote,
   processImagesInContent,
   sanitizeAndRepairJson,
 } from "../utils/content-builders";
+import {
+  buildLanguageRule,
+  buildStyleSection,
+  GenerationSettings,
+  getGenerationSettings,
+} from "../utils/generation-settings";
 import {
   buildFullSourceContent,
   resolveDocumentContent,
+  resolveDocumentSearchIndex,
+  retrieveDocumentContext,
   waitForPresentationReady,
 } from "../utils/document-resolver";
+import { resolveKeyFacts } from "../utils/key-facts";
+import {
+  applyPresentationSections,
+  buildAgendaSlideContent,
+  getDeckSectionOptions,
+} from "../utils/deck-sections";
+import type { DeckSectionOptions } from "@/utils/agenda";
+import { isSafeDataPath } from "@/utils/collab";
 import {
   MAX_PRIORITY_START_DELAY_MS,
   MAX_STREAM_SLIDE_CONCURRENCY,
@@ -40,9 +92,22 @@ import {
 } from "../utils/constants";
 import { SlideDeltaHandler } from "../types/streaming";
 import { createOutlineDeltaParser } from "../utils/delta-parsers";
+import {
+  parseLayoutSelections,
+  planSlideLayouts,
+} from "../utils/layout-planner";
 import { generateJsonStream } from "@/server/llm";
-import { getOutlineModel } from "@/server/llm";
+import {
+  buildSlideSearchQuery,
+  buildTopicSearchQueries,
+  isResearchOutline,
+  searchWeb,
+  summarizeSearchResults,
+} from "@/server/search";
+import { emitWebhookEvent } from "@/server/webhooks";
 import { jsonrepair } from "jsonrepair";
+import type { SlideDocumentSource, SlideSource } from "@/types/slide";
+import type { KeyFact } from "@/types/presentation";
 import type { PptxPresentationModel } from "@/types/pptx-models";
 
 /**
@@ -145,6 +210,7 @@ export const handlePresentationGetAll = async (request?: Request) => {
   const cursor = url ? parseCursor(url) : null;
   // Filter for presentations that have slides (completed)
   const { items, nextCursor } = await listPresentationSummaries({
+    owner: requireRequestOwner(),
     limit,
     cursor,
     slidesFilter: "completed",
@@ -184,6 +250,7 @@ export const handlePresentationGetDrafts = async (request?: Request) => {
   const cursor = url ? parseCursor(url) : null;
   // Filter for presentations without slides (drafts)
   const { items, nextCursor } = await listPresentationSummaries({
+    owner: requireRequestOwner(),
     limit,
     cursor,
     slidesFilter: "drafts",
@@ -191,11 +258,32 @@ export const handlePresentationGetDrafts = async (request?: Request) => {
   return jsonResponse({ items, next_cursor: nextCursor });
 };
 
+/**
+ * Checks a brand kit ID sent to apply a kit to a presentation.
+ *
+ * @param owner - ID of the user the kit must belong to.
+ * @param value - The sent ID; null removes the kit.
+ * @returns The kit ID to store, or an error message if the kit does not
+ *   exist or the value is not an ID.
+ */
+const resolveBrandKitId = async (
+  owner: string,
+  value: unknown,
+): Promise<{ id: string | null } | { error: string }> => {
+  if (value === null) return { id: null };
+  if (typeof value !== "string" || !value) {
+    return { error: "brand_kit must be a brand kit ID or null" };
+  }
+  const kit = await getBrandKitById(owner, value);
+  return kit ? { id: kit.id } : { error: "Brand kit not found" };
+};
+
 /**
  * Handles GET requests to retrieve a single presentation by ID.
  *
  * Fetches the complete presentation data including all associated slides.
  * This is used when a user wants to view or edit a specific presentation.
+ * Besides the owner, users invited to the presentation can load it.
  *
  * @param id - The unique identifier of the presentation to retrieve.
  *   This should be a valid UUID that exists in the database.
@@ -203,8 +291,12 @@ export const handlePresentationGetDrafts = async (request?: Request) => {
  *   - All presentation fields (id, content, language, metadata, etc.)
  *   - `slides`: Array of all slides belonging to this presentation,
  *     ordered by slide_index
+ *   - `brand`: The applied brand kit (`brand_kit` holds its ID), or null
+ *   - `role`: The user's access, "owner", "editor" or "viewer"
+ *   The presentation's version is sent as ETag.
  *
- * @throws Returns a 404 error response if the presentation does not exist.
+ * @throws Returns a 404 error response if the presentation does not exist
+ *   or the user is neither its owner nor a member.
  *
  * @example
  * ```typescript
@@ -214,13 +306,23 @@ export const handlePresentationGetDrafts = async (request?: Request) => {
  * ```
  */
 export const handlePresentationGet = async (id: string) => {
-  const presentation = await getPresentationById(id);
-  if (!presentation) {
+  const access = await getPresentationAccess(requireRequestOwner(), id);
+  const presentation = access
+    ? await getPresentationById(access.owner, id)
+    : null;
+  if (!access || !presentation) {
     return errorResponse("Presentation not found", 404);
   }
+  const { owner } = access;
   // Fetch all slides for this presentation, ordered by index
-  const slidesList = await listSlidesByPresentation(id);
-  return jsonResponse({ ...presentation, slides: slidesList });
+  const slidesList = await listSlidesByPresentation(owner, id);
+  const brand = presentation.brand_kit
+    ? await getBrandKitById(owner, presentation.brand_kit)
+    : null;
+  return versionedResponse(
+    { ...presentation, slides: slidesList, brand, role: access.role },
+    presentation.version,
+  );
 };
 
 /**
@@ -243,7 +345,7 @@ export const handlePresentationGet = async (id: string) => {
  * ```
  */
 export const handlePresentationDelete = async (id: string) => {
-  const ok = await deletePresentation(id);
+  const ok = await deletePresentation(requireRequestOwner(), id);
   // 204 No Content indicates successful deletion with no response body
   // 404 indicates the resource was not found
   return new Response(null, { status: ok ? 204 : 404 });
@@ -269,6 +371,7 @@ export const handlePresentationDelete = async (id: string) => {
  * - `include_title_slide` (optional): Whether to include a title slide (default: true)
  * - `web_search` (optional): Whether to enable web search for content
  * - `file_metadata` (optional): Metadata about uploaded source files
+ * - `brand_kit` (optional): ID of the brand kit to style the slides with
  *
  * Validation rules:
  * - At least one of `content` or `document_content` must be provided
@@ -283,6 +386,7 @@ export const handlePresentationDelete = async (id: string) => {
  * @throws Returns a 400 error response if validation fails:
  *   - Missing required `language` field
  *   - Both `content` and `document_content` are missing or empty
+ *   - `brand_kit` is not one of the user's brand kits
  *
  * @example
  * ```typescript
@@ -324,10 +428,19 @@ export const handlePresentationCreate = async (request: Request) => {
     );
   }
 
+  const owner = requireRequestOwner();
+  const brandKit = body.brand_kit
+    ? await resolveBrandKitId(owner, body.brand_kit)
+    : { id: null };
+  if ("error" in brandKit) {
+    return errorResponse(brandKit.error);
+  }
+
   // Generate a unique identifier for the new presentation
   const id = uuidv4();
   const created = await createPresentation({
     id,
+    owner,
     content: body.content || "",
     n_slides: nSlides,
     language: body.language,
@@ -343,7 +456,15 @@ export const handlePresentationCreate = async (request: Request) => {
     outlines: null,
     layout: null,
     structure: null,
+    // Extracted from the content before the first slide generation
+    key_facts: null,
     title: null,
+    brand_kit: brandKit.id,
+  });
+  await emitWebhookEvent("presentation.created", {
+    presentation_id: created.id,
+    n_slides: created.n_slides,
+    language: created.language,
   });
   return jsonResponse(created);
 };
@@ -362,6 +483,8 @@ type SlideUpdatePayload = {
   speaker_note?: string | null;
   content?: Record<string, unknown>;
   html_content?: string | null;
+  sources?: SlideSource[] | null;
+  document_sources?: SlideDocumentSource[] | null;
 };
 
 /**
@@ -383,6 +506,7 @@ type SlideUpdatePayload = {
  * - `include_table_of_contents`: Whether to include TOC slide
  * - `include_title_slide`: Whether to include title slide
  * - `web_search`: Whether to enable web search
+ * - `brand_kit`: ID of the brand kit to apply, or null to remove it
  * - `outlines`: Array of outline objects for slides
  * - `layout`: Layout configuration object
  * - `structure`: Structure mapping array
@@ -392,6 +516,14 @@ type SlideUpdatePayload = {
  * - If layout is provided without slides array, existing slides are preserved
  * - If layout is provided with slides array, the new slides replace existing ones
  *
+ * Replaced slides that changed are recorded in their revision history as
+ * "autosave". Replacing the slides discards changes others made to them, so
+ * editors save individual slide changes through the slide endpoints
+ * instead (see slide-updates.ts).
+ *
+ * Send the presentation version the update is based on as `version` or
+ * `If-Match` header to have it rejected if the presentation changed since.
+ *
  * @param request - The HTTP request object containing update payload.
  * @param parsedBody - Optional pre-parsed body object. If provided, skips
  *   JSON parsing from the request. Useful when body is already parsed elsewhere.
@@ -399,8 +531,10 @@ type SlideUpdatePayload = {
  *   all its slides.
  *
  * @throws Returns error responses for:
- *   - 400: Missing required `id` field
+ *   - 400: Missing required `id` field or unknown brand kit
  *   - 404: Presentation not found
+ *   - 409: Presentation changed since the sent version; the body's
+ *     `current` holds it with its slides
  *
  * @example
  * ```typescript
@@ -420,11 +554,35 @@ export const handlePresentationUpdate = async (
     return errorResponse("id is required");
   }
   
-  // Verify the presentation exists before attempting to update
-  const existing = await getPresentationById(presentationId);
+  // Verify the presentation exists (and belongs to the user) before updating
+  const owner = requireRequestOwner();
+  const existing = await getPresentationById(owner, presentationId);
   if (!existing) {
     return errorResponse("Presentation not found", 404);
   }
+  const conflict = async () => {
+    const current = await getPresentationById(owner, presentationId);
+    if (!current) return errorResponse("Presentation not found", 404);
+    return conflictResponse(
+      "The presentation was changed since you loaded it",
+      {
+        ...current,
+        slides: await listSlidesByPresentation(owner, presentationId),
+      },
+      current.version,
+    );
+  };
+  const expectedVersion = readExpectedVersion(request, body.version);
+  if (expectedVersion !== null && expectedVersion !== existing.version) {
+    return conflict();
+  }
+  const brandKit =
+    body.brand_kit !== undefined
+      ? await resolveBrandKitId(owner, body.brand_kit)
+      : { id: undefined };
+  if ("error" in brandKit) {
+    return errorResponse(brandKit.error);
+  }
 
   // Handle layout updates with special logic to preserve existing slides
   // if new layout doesn't include slides array
@@ -449,25 +607,45 @@ export const handlePresentationUpdate = async (
   }
 
   // Update presentation metadata (only provided fields are updated)
-  const updated = await updatePresentation(presentationId, {
-    n_slides: body.n_slides ?? undefined,
-    title: body.title ?? undefined,
-    language: body.language ?? undefined,
-    tone: body.tone ?? undefined,
-    verbosity: body.verbosity ?? undefined,
-    instructions: body.instructions ?? undefined,
-    include_table_of_contents: body.include_table_of_contents ?? undefined,
-    include_title_slide: body.include_title_slide ?? undefined,
-    web_search: body.web_search ?? undefined,
-    outlines: body.outlines ?? undefined,
-    layout: nextLayout,
-    structure: body.structure ?? undefined,
-  });
-  
+  const updated = await updatePresentation(
+    owner,
+    presentationId,
+    {
+      n_slides: body.n_slides ?? undefined,
+      title: body.title ?? undefined,
+      language: body.language ?? undefined,
+      tone: body.tone ?? undefined,
+      verbosity: body.verbosity ?? undefined,
+      instructions: body.instructions ?? undefined,
+      include_table_of_contents: body.include_table_of_contents ?? undefined,
+      include_title_slide: body.include_title_slide ?? undefined,
+      web_search: body.web_search ?? undefined,
+      brand_kit: brandKit.id,
+      outlines: body.outlines ?? undefined,
+      layout: nextLayout,
+      structure: body.structure ?? undefined,
+    },
+    expectedVersion ?? undefined,
+  );
+  if (!updated) {
+    return conflict();
+  }
+
+  // Keep the current state of slides without history restorable
+  if (Array.isArray(body.slides)) {
+    await trackSlideRevisions(
+      owner,
+      presentationId,
+      await listSlidesByPresentation(owner, presentationId),
+      "original",
+    );
+  }
+
   // Handle slide updates: if slides array is provided, replace all slides
   // Otherwise, return existing slides
   const slidesList = Array.isArray(body.slides)
     ? await replaceSlidesForPresentation(
+        owner,
         presentationId,
         // Transform slide payloads to database format
         (body.slides as SlideUpdatePayload[]).map((slide, idx) => ({
@@ -479,14 +657,26 @@ export const handlePresentationUpdate = async (
           speaker_note: slide.speaker_note || "",
           content: slide.content || {},
           html_content: slide.html_content || null,
+          sources: slide.sources ?? null,
+          document_sources: slide.document_sources ?? null,
         })),
       )
-    : await listSlidesByPresentation(presentationId);
-  
-  return jsonResponse({
-    ...updated,
-    slides: slidesList,
-  });
+    : await listSlidesByPresentation(owner, presentationId);
+  if (Array.isArray(body.slides) && slidesList) {
+    await trackSlideRevisions(owner, presentationId, slidesList, "autosave");
+  }
+
+  // Replacing the slides moved the version again
+  const saved = Array.isArray(body.slides)
+    ? ((await getPresentationById(owner, presentationId)) ?? updated)
+    : updated;
+  return versionedResponse(
+    {
+      ...saved,
+      slides: slidesList,
+    },
+    saved.version,
+  );
 };
 
 /**
@@ -511,6 +701,9 @@ export const handlePresentationUpdate = async (
  *
  * @param request - The HTTP request object containing the PPTX model
  *   in the request body.
+ * @param presentationId - Optional ID of the exported presentation. Included
+ *   in the `export.completed` webhook event when known, and used to apply
+ *   the presentation's brand kit fonts and colors to the file.
  * @returns A JSON response containing the file path where the PPTX
  *   was saved, typically a URL-accessible path like `/app_data/exports/...`.
  *
@@ -523,10 +716,13 @@ export const handlePresentationUpdate = async (
  * // Request: POST /api/v1/presentations/abc-123/export/pptx
  * // Body: { slides: [{ content: {...}, style: {...} }, ...] }
  * const response = await handleExportPptx(request);
- * // Response: { path: "/app_data/exports/presentation.pptx" }
+ * // Response: "/app_data/exports/<owner>/<id>/presentation.pptx"
  * ```
  */
-export const handleExportPptx = async (request: Request) => {
+export const handleExportPptx = async (
+  request: Request,
+  presentationId?: string,
+) => {
   try {
     const model = (await request.json()) as PptxPresentationModel;
     // Validate that model has required structure with at least one slide
@@ -535,7 +731,19 @@ export const handleExportPptx = async (request: Request) => {
     }
     // Dynamically import the export module to avoid loading it unless needed
     const { exportPptxModel } = await import("@/server/pptx/export");
-    const path = await exportPptxModel(model);
+    const owner = requireRequestOwner();
+    const presentation = presentationId
+      ? await getPresentationById(owner, presentationId)
+      : null;
+    const brandKit = presentation?.brand_kit
+      ? await getBrandKitById(owner, presentation.brand_kit)
+      : null;
+    const path = await exportPptxModel(owner, model, brandKit);
+    await emitWebhookEvent("export.completed", {
+      presentation_id: presentationId ?? null,
+      format: "pptx",
+      path,
+    });
     return jsonResponse(path);
   } catch (error) {
     console.error("PPTX export failed:", error);
@@ -567,10 +775,15 @@ export const handleExportPptx = async (request: Request) => {
  * - Outlines array must not be empty
  * - Layout must have at least one slide definition
  *
+ * Optional fields:
+ * - `structure`: Per-outline layout selections from the outline editor, each
+ *   `{ layout_id, source }` or null. Selections are kept; null entries are planned.
+ *
  * Structure mapping:
- * - Creates an array mapping each outline to a layout index
- * - If `ordered` is true: uses layouts sequentially (slide 0 → layout 0, etc.)
- * - If `ordered` is false: cycles through layouts (slide 0 → layout 0, slide 1 → layout 1, slide 2 → layout 0, etc.)
+ * - Matches each outline to the layout whose name, description and fields
+ *   fit its content (LLM call with a keyword-matching fallback)
+ * - Saves `{ slides, layouts }` to `presentation.structure`, where `slides`
+ *   holds the layout index per outline and `layouts` records how each was chosen
  *
  * @param request - The HTTP request object containing preparation data.
  * @param parsedBody - Optional pre-parsed body object. If provided, skips
@@ -589,7 +802,8 @@ export const handleExportPptx = async (request: Request) => {
  * // Body: {
  * //   presentation_id: "abc-123",
  * //   outlines: [{ content: "Introduction slide" }, ...],
- * //   layout: { name: "modern", ordered: false, slides: [...] }
+ * //   layout: { name: "modern", ordered: false, slides: [...] },
+ * //   structure: [null, { layout_id: "modern:team-slide", source: "user" }, ...]
  * // }
  * const response = await handlePresentationPrepare(request);
  * ```
@@ -608,7 +822,8 @@ export const handlePresentationPrepare = async (
     return errorResponse("presentation_id is required", 400);
   }
 
-  const presentation = await getPresentationById(presentationId);
+  const owner = requireRequestOwner();
+  const presentation = await getPresentationById(owner, presentationId);
   if (!presentation) {
     return errorResponse("Presentation not found", 404);
   }
@@ -635,28 +850,18 @@ export const handlePresentationPrepare = async (
     );
   }
 
-  // Build structure mapping: determines which layout template to use for each slide
-  // This creates an array where each index corresponds to a slide, and the value
-  // is the index of the layout template to use for that slide
-  const slideCount = outlines.length;
-  const totalLayouts = layout.slides.length;
-  const structureSlides: number[] = [];
-
-  for (let i = 0; i < slideCount; i += 1) {
-    if (layout.ordered) {
-      // Sequential mode: use layouts in order, clamp to last layout if more slides than layouts
-      structureSlides.push(Math.min(i, totalLayouts - 1));
-    } else {
-      // Cyclic mode: cycle through layouts (0, 1, 2, 0, 1, 2, ...)
-      structureSlides.push(totalLayouts ? i % totalLayouts : 0);
-    }
-  }
+  // Plan which layout each slide uses, keeping any per-slide selections
+  const structure = await planSlideLayouts(
+    outlines,
+    layout,
+    parseLayoutSelections(body.structure, layout),
+  );
 
   // Save to database
-  const updated = await updatePresentation(presentationId, {
+  const updated = await updatePresentation(owner, presentationId, {
     outlines: { slides: outlines },
     layout,
-    structure: { slides: structureSlides },
+    structure,
   });
 
   if (!updated) {
@@ -666,6 +871,54 @@ export const handlePresentationPrepare = async (
   return jsonResponse(updated);
 };
 
+/**
+ * Handles POST requests to preview the layout chosen for each outline.
+ *
+ * Runs the same planning step as the prepare endpoint without saving
+ * anything, so the outline editor can show which layout each slide will get
+ * and let the user override it before generating.
+ *
+ * Request body fields:
+ * - `outlines` (required): Array of outline objects with `content`
+ * - `layout` (required): Layout configuration with `slides` (id, name,
+ *   description, json_schema)
+ * - `structure` (optional): Per-outline selections to keep, as in prepare
+ *
+ * @param request - The HTTP request object containing outlines and layout.
+ * @returns A JSON response with `{ slides, layouts }`, where `layouts[i]` is
+ *   `{ index, layout_id, source }` for outline i.
+ *
+ * @throws Returns error responses for:
+ *   - 400: Missing outlines or layout
+ *
+ * @example
+ * ```typescript
+ * // Request: POST /api/v1/presentations/layout-plan
+ * // Body: { outlines: [{ content: "TEAM - Hero: ..." }], layout: { slides: [...] } }
+ * // Response: { slides: [7], layouts: [{ index: 7, layout_id: "modern:team-slide", source: "llm" }] }
+ * ```
+ */
+export const handlePresentationLayoutPlan = async (request: Request) => {
+  const body = (await request.json()) as Record<string, unknown>;
+  const outlines = body.outlines as Outline[];
+  const layout = body.layout as LayoutPayload;
+
+  if (!Array.isArray(outlines) || !outlines.length) {
+    return errorResponse("outlines are required", 400);
+  }
+
+  if (!layout || !Array.isArray(layout.slides) || !layout.slides.length) {
+    return errorResponse("layout is required", 400);
+  }
+
+  const structure = await planSlideLayouts(
+    outlines,
+    layout,
+    parseLayoutSelections(body.structure, layout),
+  );
+  return jsonResponse(structure);
+};
+
 /**
  * Prepares and validates presentation data for streaming.
  *
@@ -727,6 +980,9 @@ const preparePresentationData = async (presentationId: string) => {
  * The generation process uses LLM to create slide outlines that follow VC pitch
  * deck standards, extracting key information from the source content.
  *
+ * Either way, the presentation's title slide and agenda options are applied
+ * (see applyPresentationSections), so the agenda lists the final outlines.
+ *
  * @param presentation - The presentation record from the database, or null if not found.
  * @param documentContent - Extracted text content from uploaded files (PDF, DOCX, etc.).
  *   This is used as additional context for outline generation.
@@ -749,65 +1005,67 @@ const resolveOutlines = async (
 
   const outlinesData = presentation.outlines as { slides?: Outline[] } | null;
   if (outlinesData?.slides && Array.isArray(outlinesData.slides)) {
-    return outlinesData.slides;
+    return applyPresentationSections(outlinesData.slides, presentation);
   }
 
   // Generate outlines if not stored
-  return await buildOutlines(
+  const outlines = await buildOutlines(
     presentation.content || "",
     documentContent,
     presentation.n_slides || 10,
+    getGenerationSettings(presentation),
   );
+  return applyPresentationSections(outlines, presentation);
 };
 
 /**
- * Builds a structure mapping that determines which layout template to use for each slide.
+ * Resolves the structure mapping that determines which layout template to use for each slide.
  *
  * The structure mapping is an array where each index corresponds to a slide, and the
  * value is the index of the layout template to use. This allows different slides to
  * use different layout templates while maintaining a consistent design system.
  *
  * Priority order:
- * 1. Use saved structure data if it exists (from previous prepare call)
- * 2. Otherwise, generate based on layout.ordered flag:
- *    - If ordered: sequential assignment (slide 0 → layout 0, slide 1 → layout 1, etc.)
- *    - If not ordered: cyclic assignment (slide 0 → layout 0, slide 1 → layout 1, slide 2 → layout 0, etc.)
+ * 1. Use saved structure data if it covers every outline (from the prepare call)
+ * 2. Otherwise, plan layouts from outline content with planSlideLayouts and
+ *    save the result so reconnecting streams reuse the same mapping
  *
+ * @param presentationId - ID of the presentation being generated.
  * @param outlines - Array of outline objects, one per slide.
- * @param layoutData - Layout configuration containing available templates and ordering mode.
+ * @param layoutData - Layout configuration containing available templates.
  * @param structureData - Previously saved structure mapping, if any.
  * @returns An array of layout indices, one per slide. Each value is clamped to
  *   valid layout indices (0 to totalLayouts - 1).
  *
  * @example
  * ```typescript
- * // With 3 slides and 2 layouts, ordered=false:
- * const mapping = buildStructureMapping(outlines, layout, null);
- * // Returns: [0, 1, 0] (cyclic: layout 0, layout 1, layout 0)
- *
- * // With 3 slides and 2 layouts, ordered=true:
- * // Returns: [0, 1, 1] (sequential: layout 0, layout 1, layout 1)
+ * const mapping = await resolveStructureMapping(id, outlines, layout, null);
+ * // Returns: [0, 2, 7] (intro, problem and team layouts for matching outlines)
  * ```
  */
-const buildStructureMapping = (
+const resolveStructureMapping = async (
+  presentationId: string,
   outlines: Outline[],
   layoutData: LayoutPayload,
-  structureData: { slides?: number[] } | null,
-): number[] => {
+  structureData: PresentationStructure | null,
+): Promise<number[]> => {
   const totalLayouts = layoutData.slides?.length || 0;
   if (totalLayouts === 0) {
     return outlines.map(() => 0);
   }
 
-  if (structureData?.slides && Array.isArray(structureData.slides)) {
+  if (
+    Array.isArray(structureData?.slides) &&
+    structureData.slides.length === outlines.length
+  ) {
     return structureData.slides.map((idx) => Math.min(idx, totalLayouts - 1));
   }
 
-  return outlines.map((_, idx) =>
-    layoutData.ordered
-      ? Math.min(idx, totalLayouts - 1)
-      : idx % totalLayouts,
-  );
+  const structure = await planSlideLayouts(outlines, layoutData);
+  await updatePresentation(requireRequestOwner(), presentationId, {
+    structure,
+  });
+  return structure.slides;
 };
 
 /**
@@ -822,7 +1080,8 @@ const buildStructureMapping = (
  * Each placeholder slide:
  * - Has a unique UUID
  * - Is assigned to the correct layout template based on structure mapping
- * - Contains placeholder content matching the layout's JSON schema
+ * - Contains placeholder content matching the layout's JSON schema, except
+ *   the agenda, which is complete from the start (see buildAgendaSlideContent)
  * - Has empty speaker notes (filled during content generation)
  *
  * @param outlines - Array of outline objects defining what each slide should contain.
@@ -850,14 +1109,17 @@ const createInitialSlides = (
 ): SlideResponse[] => {
   const slidesSchema = layoutData.slides || [];
 
-  return outlines.map((_, i) => {
+  return outlines.map((outline, i) => {
     const schemaIndex = structure[i];
     const schema = slidesSchema[schemaIndex]?.json_schema || {};
     const schemaForSlide = slidesSchema[schemaIndex] || slidesSchema[0];
     const layoutId = schemaForSlide?.id || null;
-    const placeholderContent = buildPlaceholderFromSchema(
-      schema as SlideSchema,
-    ) as Record<string, unknown>;
+    const placeholderContent =
+      buildAgendaSlideContent(outline, schema as SlideSchema, outlines) ??
+      (buildPlaceholderFromSchema(schema as SlideSchema) as Record<
+        string,
+        unknown
+      >);
 
     return {
       id: uuidv4(),
@@ -871,15 +1133,49 @@ const createInitialSlides = (
   });
 };
 
+/**
+ * Researches a single slide on the web.
+ *
+ * Only outlines about markets, competitors or industry problems are searched
+ * (see isResearchOutline). Search errors are logged and treated as "no
+ * results" so generation continues without research.
+ *
+ * @param outline - The slide's outline text.
+ * @param researchTopic - Short description of the pitch used to focus the query.
+ * @returns Prompt digest and the sources to keep on the slide, or null when
+ *   the slide was not researched or nothing was found.
+ */
+const researchSlide = async (
+  outline: string,
+  researchTopic: string,
+): Promise<{ digest: string; sources: SlideSource[] } | null> => {
+  if (!isResearchOutline(outline)) return null;
+  try {
+    const results = await searchWeb([
+      buildSlideSearchQuery(researchTopic, outline),
+    ]);
+    if (!results.length) return null;
+    return {
+      digest: summarizeSearchResults(results),
+      sources: results.map(({ title, url }) => ({ title, url })),
+    };
+  } catch (error) {
+    console.error("Slide web research failed:", error);
+    return null;
+  }
+};
+
 /**
  * Generates content for a single slide and streams updates in real-time.
  *
  * This function handles the complete slide generation process for one slide:
- * 1. Generates slide content using LLM based on outline and schema
- * 2. Streams incremental updates (deltas) as content is generated
- * 3. Processes images referenced in the content (generates or fetches them)
- * 4. Extracts speaker notes from the generated content
- * 5. Sends the complete slide when generation finishes
+ * 1. Researches the slide on the web when web search is enabled, keeping the
+ *    sources on the slide for citations
+ * 2. Generates slide content using LLM based on outline, schema and research
+ * 3. Streams incremental updates (deltas) as content is generated
+ * 4. Moves the generated speaker notes out of the content
+ * 5. Processes images referenced in the content (generates or fetches them)
+ * 6. Sends the complete slide when generation finishes
  *
  * The streaming uses Server-Sent Events (SSE) to send updates to the client
  * as soon as content fields are generated, providing a responsive user experience.
@@ -888,57 +1184,84 @@ const createInitialSlides = (
  * - If generation fails, falls back to schema-based placeholder content
  * - Always sends a slide object, even if generation failed
  *
+ * @param owner - ID of the presentation's owner; generated images are
+ *   stored as theirs.
  * @param slideIndex - Zero-based index of the slide being generated.
  * @param outline - Outline object containing the text description for this slide.
  * @param schemaIndex - Index into the layout slides array indicating which template to use.
  * @param schema - JSON schema object defining the structure of slide content.
- * @param fullSourceContent - Combined user prompt and document content for context.
+ * @param promptContent - The user's prompt for the presentation.
+ * @param documentIndex - Search index over the uploaded documents, or null.
+ *   The passages most relevant to the outline are added to the prompt and
+ *   saved on the slide as its document sources.
+ * @param webSearch - Whether to research the slide on the web.
+ * @param researchTopic - Short description of the pitch used in search queries.
+ * @param settings - Generation settings of the presentation.
+ * @param keyFacts - The presentation's key facts; the slide states them
+ *   exactly as given.
  * @param slidesSchema - Array of all layout slide definitions from the layout template.
  * @param layoutData - Complete layout configuration object.
  * @param slides - Array of all slides (mutated in place as content is generated).
- * @param controller - SSE stream controller for sending events to the client.
- * @param encoder - TextEncoder for converting strings to Uint8Array for SSE.
+ * @param emit - Sends an event to the clients following the generation job.
  * @returns Promise that resolves when slide generation and streaming is complete.
  *
  * @example
  * ```typescript
  * await generateSlideWithStreaming({
+ *   owner,
  *   slideIndex: 0,
  *   outline: { content: "Introduction slide" },
  *   schemaIndex: 0,
  *   schema: { properties: { title: {...}, subtitle: {...} } },
- *   fullSourceContent: "User prompt and document text...",
+ *   promptContent: "Pitch deck for our payroll startup",
+ *   documentIndex,
  *   slidesSchema: [...],
  *   layoutData: {...},
  *   slides: [...],
- *   controller: sseController,
- *   encoder: new TextEncoder()
+ *   emit: (data) => emitGenerationEvent(run, data)
  * });
  * ```
  */
 const generateSlideWithStreaming = async ({
+  owner,
   slideIndex,
   outline,
   schemaIndex,
   schema,
-  fullSourceContent,
+  promptContent,
+  documentIndex,
+  webSearch,
+  researchTopic,
+  settings,
+  keyFacts,
   slidesSchema,
   layoutData,
   slides,
-  controller,
-  encoder,
+  emit,
 }: {
+  owner: string;
   slideIndex: number;
   outline: Outline;
   schemaIndex: number;
   schema: Record<string, unknown>;
-  fullSourceContent: string;
+  promptContent: string;
+  documentIndex: DocumentSearchIndex | null;
+  webSearch: boolean;
+  researchTopic: string;
+  settings: GenerationSettings;
+  keyFacts: KeyFact[];
   slidesSchema: Array<{ id?: string; json_schema?: Record<string, unknown> }>;
   layoutData: LayoutPayload;
   slides: SlideResponse[];
-  controller: ReadableStreamDefaultController<Uint8Array>;
-  encoder: TextEncoder;
+  emit: (data: unknown) => void;
 }): Promise<void> => {
+  // Research before generating so figures in the prompt come with sources
+  const research = webSearch
+    ? await researchSlide(outline.content, researchTopic)
+    : null;
+  // Only the document passages relevant to this slide go into its prompt
+  const documents = retrieveDocumentContext(documentIndex, outline.content);
+
   try {
     // Generate slide content using LLM with streaming support
     // The onDelta callback sends incremental updates as fields are generated
@@ -946,7 +1269,10 @@ const generateSlideWithStreaming = async ({
       outline: outline.content,
       schema,
       slideIndex,
-      sourceDocument: fullSourceContent,
+      sourceDocument: buildFullSourceContent(promptContent, documents.content),
+      webResearch: research?.digest,
+      settings,
+      keyFacts,
       onDelta: ({ index, path, value }) => {
         // Skip internal fields from streaming - these are processed separately
         // and don't need to be sent to the client during generation
@@ -958,25 +1284,19 @@ const generateSlideWithStreaming = async ({
           return;
         }
         // Send delta update to client via SSE
-        controller.enqueue(
-          encoder.encode(
-            sseChunk({ type: "slide_delta", index, path, value }),
-          ),
-        );
+        emit({ type: "slide_delta", index, path, value });
       },
     });
 
+    // Speaker notes are generated in a special __speaker_note__ field and
+    // stored on the slide rather than in its content
+    const { content: generated, speakerNote: speaker } =
+      extractSpeakerNote(rawContent);
+
     // Process images: replace image prompts with actual image URLs
     // This may involve generating images using AI or fetching uploaded images
-    const content = await processImagesInContent(rawContent);
-    
-    // Extract speaker notes from the generated content
-    // Speaker notes are stored in a special __speaker_note__ field
-    const speaker =
-      typeof content.__speaker_note__ === "string"
-        ? content.__speaker_note__
-        : "";
-    
+    const content = await processImagesInContent(owner, generated);
+
     // Determine the layout ID for this slide based on the schema index
     const schemaForSlide = slidesSchema[schemaIndex] || slidesSchema[0];
     const layoutId = schemaForSlide?.id || null;
@@ -987,13 +1307,14 @@ const generateSlideWithStreaming = async ({
       layout: layoutId,
       speaker_note: speaker,
       content,
+      sources: research?.sources ?? null,
+      document_sources:
+        documents.sources.length > 0 ? documents.sources : null,
     };
     slides[slideIndex] = slide;
 
     // Send the complete slide to the client
-    controller.enqueue(
-      encoder.encode(sseChunk({ type: "slide", index: slideIndex, slide })),
-    );
+    emit({ type: "slide", index: slideIndex, slide });
   } catch (error) {
     // If generation fails, create fallback content from schema
     // This ensures the client always receives a valid slide object
@@ -1006,202 +1327,235 @@ const generateSlideWithStreaming = async ({
     };
     slides[slideIndex] = slide;
     // Send fallback slide to client
-    controller.enqueue(
-      encoder.encode(sseChunk({ type: "slide", index: slideIndex, slide })),
-    );
+    emit({ type: "slide", index: slideIndex, slide });
   }
 };
 
 /**
- * Saves the generated slides and updated outlines to the database.
+ * HTTP headers for Server-Sent Events responses.
+ */
+const SSE_HEADERS = {
+  "Content-Type": "text/event-stream", // SSE MIME type
+  "Cache-Control": "no-cache, no-transform", // Prevent caching of stream
+  Connection: "keep-alive", // Keep connection open for streaming
+  "X-Accel-Buffering": "no", // Disable nginx buffering for real-time updates
+  "Content-Encoding": "none", // No compression (SSE requires plain text)
+};
+
+/**
+ * Everything a generation run needs to produce the remaining slides.
+ *
+ * @property presentation - The presentation being generated.
+ * @property layoutData - Layout configuration with the template's schemas.
+ * @property outlines - One outline per slide.
+ * @property structure - Layout index for each slide.
+ * @property slides - Current slides (placeholders until generated); mutated
+ *   in place as slides complete.
+ * @property completed - Indices of slides whose content is already saved.
+ * @property promptContent - The user's prompt for the presentation.
+ * @property documentIndex - Search index over the uploaded documents, or
+ *   null if there are none.
+ * @property researchTopic - Short description of the pitch used in search
+ *   queries.
+ */
+type SlideGenerationContext = {
+  presentation: NonNullable<Awaited<ReturnType<typeof getPresentationById>>>;
+  layoutData: LayoutPayload;
+  outlines: Outline[];
+  structure: number[];
+  slides: SlideResponse[];
+  completed: Set<number>;
+  promptContent: string;
+  documentIndex: DocumentSearchIndex | null;
+  researchTopic: string;
+};
+
+/**
+ * Converts a streamed slide into the shape stored in the database.
+ *
+ * @param slide - Slide as sent to the client.
+ * @returns Slide record fields for replaceSlidesForPresentation/upsertSlide.
+ */
+const toSlideRecord = (slide: SlideResponse) => ({
+  id: slide.id,
+  presentation: slide.presentation,
+  layout_group: slide.layout_group,
+  layout: slide.layout,
+  slide_index: slide.index,
+  speaker_note: slide.speaker_note,
+  content: slide.content,
+  html_content: null,
+  sources: slide.sources ?? null,
+  document_sources: slide.document_sources ?? null,
+});
+
+/**
+ * Converts a stored slide back into the shape sent to the client.
+ *
+ * @param record - Slide record from the database.
+ * @returns The slide as streamed in `slides_init` and `slide` events.
+ */
+const fromSlideRecord = (record: SlideRecord): SlideResponse => ({
+  id: record.id,
+  presentation: record.presentation,
+  layout_group: record.layout_group,
+  layout: record.layout,
+  index: record.slide_index,
+  speaker_note: record.speaker_note ?? "",
+  content: record.content ?? {},
+  sources: record.sources,
+  document_sources: record.document_sources,
+});
+
+/**
+ * Builds the presentation metadata sent in the `meta` event.
  *
- * After all slides have been generated and streamed to the client, this function
- * persists the results to the database. It replaces all existing slides for the
- * presentation with the newly generated ones and updates the presentation's outlines
- * and title.
+ * @param presentation - The presentation being generated.
+ * @param nSlides - Number of slides the job generates.
+ * @returns Metadata without slides (those follow in `slides_init`).
+ */
+const buildPresentationMeta = (
+  presentation: SlideGenerationContext["presentation"],
+  nSlides: number,
+) => ({
+  id: presentation.id,
+  title: presentation.title,
+  language: presentation.language || "",
+  n_slides: presentation.n_slides || nSlides,
+  layout: presentation.layout || { name: "", ordered: false, slides: [] },
+  slides: [],
+});
+
+/**
+ * Saves the slide skeleton of a new generation job.
  *
- * This is called at the end of the streaming process to ensure data persistence.
- * The slides are already sent to the client via SSE, so this is a background
- * save operation.
+ * Replaces the presentation's slides with the placeholders and stores the
+ * outlines and title, so a job interrupted at any point can be resumed from
+ * the database. Generated content is then saved slide by slide. Each outline
+ * is stored with the ID of its slide.
  *
  * @param presentationId - The unique identifier of the presentation to update.
- * @param slides - Array of completed SlideResponse objects with generated content.
- * @param outlines - Array of outline objects that were used to generate the slides.
- * @param title - The presentation title, typically extracted from the first outline
- *   or set by the user.
- * @returns The updated presentation record from the database.
+ * @param slides - Placeholder slides, one per outline.
+ * @param outlines - Array of outline objects the slides are generated from.
+ * @param title - The presentation title, typically extracted from the first
+ *   outline or set by the user.
+ * @returns The updated presentation record, or null if the presentation no
+ *   longer exists.
  *
  * @example
  * ```typescript
- * const updated = await savePresentationResults(
- *   "abc-123",
- *   generatedSlides,
- *   outlines,
- *   "My Presentation"
- * );
+ * await savePresentationSkeleton("abc-123", placeholders, outlines, "My Deck");
  * ```
  */
-const savePresentationResults = async (
+const savePresentationSkeleton = async (
   presentationId: string,
   slides: SlideResponse[],
   outlines: Outline[],
   title: string | null,
 ) => {
-  await replaceSlidesForPresentation(
+  const owner = requireRequestOwner();
+  const saved = await replaceSlidesForPresentation(
+    owner,
     presentationId,
-    slides.map((slide) => ({
-      id: slide.id,
-      presentation: presentationId,
-      layout_group: slide.layout_group,
-      layout: slide.layout,
-      slide_index: slide.index,
-      speaker_note: slide.speaker_note,
-      content: slide.content,
-      html_content: null,
-    })),
+    slides.map(toSlideRecord),
   );
-
-  return await updatePresentation(presentationId, {
-    outlines: { slides: outlines },
+  if (!saved) return null;
+
+  return await updatePresentation(owner, presentationId, {
+    outlines: {
+      slides: outlines.map((outline, i) => ({
+        ...outline,
+        slide_id: slides[i]?.id ?? undefined,
+      })),
+    },
     title,
   });
 };
 
 /**
- * Handles GET requests to stream slide content generation in real-time.
- *
- * This is the main endpoint for generating presentation slides. It creates a
- * Server-Sent Events (SSE) stream that sends slide content to the client
- * as it is generated by the LLM. The process works as follows:
- *
- * 1. **Preparation**: Validates that the presentation has outlines and layout data
- * 2. **Initialization**: Creates placeholder slides and sends them immediately
- * 3. **Generation**: Generates content for each slide concurrently (with limits)
- * 4. **Streaming**: Sends incremental updates (deltas) as content is generated
- * 5. **Completion**: Saves all slides to the database and sends final event
- *
- * Concurrency control:
- * - Uses bounded concurrency (MAX_STREAM_SLIDE_CONCURRENCY) to limit parallel requests
- * - Implements staggered start delays to prevent API rate limiting
- * - Each slide starts with a delay based on its index (PRIORITY_START_DELAY_MS)
- *
- * SSE Event types sent to client:
- * - `heartbeat`: Keep-alive message to maintain connection
- * - `meta`: Presentation metadata (id, title, language, etc.)
- * - `slides_init`: Initial placeholder slides with empty content
- * - `slide_delta`: Incremental content updates as fields are generated
- * - `slide`: Complete slide object when generation finishes
- * - `progress`: Progress updates showing completed/total slides
- * - `slides_complete`: Notification that all slides are generated
- * - `complete`: Final event with complete presentation data
- *
- * @param presentationId - The unique identifier of the presentation to generate slides for.
- * @returns An HTTP Response with:
- *   - Content-Type: `text/event-stream` (SSE format)
- *   - Appropriate headers for streaming (no buffering, keep-alive)
- *   - A ReadableStream that sends SSE events as slides are generated
- *
- * @throws Returns error responses for:
- *   - 404: Presentation not found
- *   - 503: Layout data not ready (presentation not prepared yet)
- *
- * @example
- * ```typescript
- * // Client connects to: GET /api/v1/presentations/stream/abc-123
- * const response = await handlePresentationStream("abc-123");
- * // Client receives SSE stream with slide updates in real-time
- * ```
+ * Generates the missing slides of a job and streams them to its subscribers.
+ *
+ * This is the work function of a generation run. It:
+ * 1. Sends `meta` and `slides_init`, plus a `slide` event for every slide an
+ *    earlier run of the job already saved
+ * 2. Generates the remaining slides with bounded concurrency and staggered
+ *    starts, saving each slide and the job's progress as soon as it completes
+ * 3. Stops taking slides from the queue once cancellation is requested; the
+ *    slides that were never generated get content derived from their outline
+ * 4. Marks the job completed or cancelled and sends `complete` or `cancelled`
+ *    with the saved presentation
+ *
+ * @param run - The live generation run.
+ * @param context - Presentation, layouts, outlines and current slides.
+ * @returns Promise that resolves when the job is finalized.
+ * @throws Error if the presentation disappears while generating; the runner
+ *   records the job as failed.
  */
-export const handlePresentationStream = async (
-  presentationId: string,
-): Promise<Response> => {
-  // Prepare presentation data and validate it's ready for generation
-  const prepared = await preparePresentationData(presentationId);
-  if (prepared.error) {
-    return prepared.error;
-  }
-
-  const { presentation, layoutData } = prepared;
-
-  // Resolve document content from uploaded files (if any)
-  const documentContent = await resolveDocumentContent(presentation);
-  
-  // Combine user prompt and document content for LLM context
-  const fullSourceContent = buildFullSourceContent(
-    presentation.content || "",
-    documentContent,
-  );
-
-  // Get outlines (either from database or generate new ones)
-  const outlines = await resolveOutlines(presentation, documentContent);
-
-  // Build structure mapping: determines which layout template each slide uses
-  const structureData = presentation.structure as { slides?: number[] } | null;
-  const structure = buildStructureMapping(
-    outlines,
-    layoutData,
-    structureData,
-  );
-
-  // Create initial placeholder slides with empty content matching schemas
-  // These are sent immediately so the UI can show slide structure
-  const slides = createInitialSlides(
-    outlines,
-    structure,
-    layoutData,
-    presentationId,
-  );
-
+const runSlideGeneration = async (
+  run: GenerationRun,
+  context: SlideGenerationContext,
+): Promise<void> => {
+  const { owner, presentationId, jobId } = run;
+  const { presentation, layoutData, outlines, structure, slides, completed } =
+    context;
+  const emit = (data: unknown) => emitGenerationEvent(run, data);
   const slidesSchema = layoutData.slides || [];
+  const totalSlides = slides.length;
+  const settings = getGenerationSettings(presentation);
 
-  // Create SSE stream for real-time updates
-  const stream = createSseStream(async (controller) => {
-    const encoder = new TextEncoder();
-
-    // Send heartbeat to establish SSE connection and keep it alive
-    // SSE connections can timeout, so heartbeats prevent disconnection
-    controller.enqueue(encoder.encode(": heartbeat\n\n"));
-
+  try {
     // Send presentation metadata so client knows what's being generated
-    const presentationMeta = {
-      id: presentation.id,
-      title: presentation.title,
-      language: presentation.language || "",
-      n_slides: presentation.n_slides || outlines.length,
-      layout: presentation.layout || { name: "", ordered: false, slides: [] },
-      slides: [], // Slides array sent separately in slides_init event
-    };
-    controller.enqueue(
-      encoder.encode(sseChunk({ type: "meta", presentation: presentationMeta })),
-    );
+    emit({
+      type: "meta",
+      presentation: buildPresentationMeta(presentation, totalSlides),
+    });
 
-    // Send initial placeholder slides immediately
-    // This allows the UI to show slide structure before content is generated
-    controller.enqueue(
-      encoder.encode(sseChunk({ type: "slides_init", slides })),
+    // Send current slides immediately: placeholders, or saved content for
+    // slides finished by an earlier run of this job
+    emit({ type: "slides_init", slides });
+    const alreadyCompleted = [...completed].sort((a, b) => a - b);
+    for (const index of alreadyCompleted) {
+      emit({ type: "slide", index, slide: slides[index] });
+    }
+    if (alreadyCompleted.length > 0) {
+      emit({
+        type: "progress",
+        completed: alreadyCompleted.length,
+        total: totalSlides,
+      });
+    }
+
+    // Every slide states the key figures from the same list, so the
+    // traction, market and ask slides cannot disagree
+    const keyFacts = await resolveKeyFacts(
+      owner,
+      presentation,
+      context.documentIndex,
     );
 
-    // Generate slides with bounded concurrency + staggered start
-    // Staggered start prevents API rate limiting by spacing out requests
-    const slideIndices = outlines.map((_, i) => i);
-    const totalSlides = slideIndices.length;
-    let completedCount = 0;
+    // Job progress writes are chained so a slow write can never overwrite
+    // a newer list of completed slides
+    let progressWrite: Promise<unknown> = Promise.resolve();
+    const recordProgress = () => {
+      const completedSlides = [...completed].sort((a, b) => a - b);
+      progressWrite = progressWrite.then(() =>
+        updateGenerationJob(owner, jobId, {
+          completed_slides: completedSlides,
+        }),
+      );
+      return progressWrite;
+    };
 
     /**
-     * Generates a single slide with staggered delay.
-     * 
-     * Each slide waits a calculated delay before starting generation:
-     * - First slide starts immediately (delay = 0)
-     * - Subsequent slides have increasing delays
-     * - Maximum delay is capped at MAX_PRIORITY_START_DELAY_MS
-     * 
-     * This prevents overwhelming the LLM API with simultaneous requests.
+     * Generates, saves and reports a single slide.
+     *
+     * Each slide waits a delay based on its position in the queue before
+     * starting, capped at MAX_PRIORITY_START_DELAY_MS, so the LLM API is not
+     * hit with simultaneous requests.
      */
-    const startSlide = async (i: number) => {
-      // Calculate delay: slide 0 = 0ms, slide 1 = 40ms, slide 2 = 80ms, etc.
-      // Capped at MAX_PRIORITY_START_DELAY_MS (400ms) to prevent excessive delays
+    const startSlide = async (i: number, position: number) => {
       const delayMs = Math.min(
-        i * PRIORITY_START_DELAY_MS,
+        position * PRIORITY_START_DELAY_MS,
         MAX_PRIORITY_START_DELAY_MS,
       );
       if (delayMs > 0) {
@@ -1212,101 +1566,938 @@ export const handlePresentationStream = async (
       const schemaIndex = structure[i];
       const schema = slidesSchema[schemaIndex]?.json_schema || {};
 
-      // Generate and stream the slide content
-      await generateSlideWithStreaming({
-        slideIndex: i,
-        outline: outlines[i],
-        schemaIndex,
-        schema,
-        fullSourceContent,
-        slidesSchema,
-        layoutData,
-        slides,
-        controller,
-        encoder,
-      });
-      
-      // Update progress counter and notify client
-      completedCount += 1;
-      controller.enqueue(
-        encoder.encode(
-          sseChunk({
-            type: "progress",
-            completed: completedCount,
-            total: totalSlides,
-            index: i,
-          }),
-        ),
+      // The agenda lists the outline titles; it needs no LLM call
+      const agendaContent = buildAgendaSlideContent(
+        outlines[i],
+        schema as SlideSchema,
+        outlines,
       );
+      if (agendaContent) {
+        slides[i] = { ...slides[i], content: agendaContent, speaker_note: "" };
+        emit({ type: "slide", index: i, slide: slides[i] });
+      } else {
+        // Generate and stream the slide content
+        await generateSlideWithStreaming({
+          owner,
+          slideIndex: i,
+          outline: outlines[i],
+          schemaIndex,
+          schema,
+          promptContent: context.promptContent,
+          documentIndex: context.documentIndex,
+          webSearch: presentation.web_search,
+          researchTopic: context.researchTopic,
+          settings,
+          keyFacts,
+          slidesSchema,
+          layoutData,
+          slides,
+          emit,
+        });
+      }
+
+      // Persist the slide before reporting it, so a reconnecting client
+      // never sees progress that is not in the database
+      const saved = await upsertSlide(owner, toSlideRecord(slides[i]));
+      if (!saved) {
+        throw new Error("Presentation not found");
+      }
+      await trackSlideRevisions(owner, presentationId, [saved], "generation");
+      completed.add(i);
+      await recordProgress();
+
+      emit({
+        type: "progress",
+        completed: completed.size,
+        total: totalSlides,
+        index: i,
+      });
     };
 
-    // Calculate concurrency: use configured max, but don't exceed total slides
-    // Ensures at least 1 worker even if MAX_STREAM_SLIDE_CONCURRENCY is 0
+    // Queue the slides that still need content
+    const queue = slides.map((_, i) => i).filter((i) => !completed.has(i));
     const concurrency = Math.min(
       Math.max(1, MAX_STREAM_SLIDE_CONCURRENCY),
-      totalSlides,
+      Math.max(1, queue.length),
     );
-    
-    // Create a queue of slide indices to process
-    const queue = [...slideIndices];
-    
-    // Create worker pool: each worker processes slides from the queue
-    // Workers run concurrently, but each slide still has its staggered delay
+    let position = 0;
+
+    // Create worker pool: each worker processes slides from the queue until
+    // it is empty or the job is cancelled
     const workers = Array.from({ length: concurrency }, async () => {
-      while (queue.length > 0) {
+      while (queue.length > 0 && !run.cancelRequested) {
         const next = queue.shift();
         if (next === undefined) return;
-        await startSlide(next);
+        await startSlide(next, position++);
       }
     });
-    
-    // Wait for all workers to finish processing all slides
     await Promise.all(workers);
+    await progressWrite;
+
+    if (completed.size < totalSlides) {
+      // Cancelled: keep finished slides and give the rest outline content
+      for (let i = 0; i < totalSlides; i++) {
+        if (completed.has(i)) continue;
+        const schema = slidesSchema[structure[i]]?.json_schema || {};
+        slides[i] = {
+          ...slides[i],
+          content:
+            buildAgendaSlideContent(
+              outlines[i],
+              schema as SlideSchema,
+              outlines,
+            ) ?? buildDataFromSchema(schema, outlines[i].content),
+        };
+        const saved = await upsertSlide(owner, toSlideRecord(slides[i]));
+        if (saved) {
+          await trackSlideRevisions(
+            owner,
+            presentationId,
+            [saved],
+            "generation",
+          );
+        }
+      }
+      await updateGenerationJob(owner, jobId, { status: "cancelled" });
+      const cancelled = await getPresentationById(owner, presentationId);
+      emit({ type: "cancelled", presentation: { ...cancelled, slides } });
+      return;
+    }
 
     // Notify client that all slides have been generated
-    controller.enqueue(
-      encoder.encode(
-        sseChunk({
-          type: "slides_complete",
-          total: totalSlides,
-        }),
-      ),
-    );
+    emit({ type: "slides_complete", total: totalSlides });
 
-    // Save all generated slides and updated outlines to database
-    // This persists the results so they can be retrieved later
-    const updated = await savePresentationResults(
-      presentationId,
-      slides,
-      outlines,
-      // Use existing title, or extract from first outline, or null
-      presentation.title || outlines[0]?.content || null,
-    );
+    await updateGenerationJob(owner, jobId, { status: "completed" });
+    const updated = await getPresentationById(owner, presentationId);
 
     // Send final completion event with complete presentation data
     // Client can use this to update UI and mark generation as complete
-    controller.enqueue(
-      encoder.encode(
-        sseChunk({
-          type: "complete",
-          presentation: {
-            ...updated,
-            slides,
-          },
-        }),
-      ),
+    emit({ type: "complete", presentation: { ...updated, slides } });
+
+    await emitWebhookEvent("slides.completed", {
+      presentation_id: presentationId,
+      title: updated?.title ?? null,
+      n_slides: slides.length,
+    });
+  } catch (error) {
+    await emitWebhookEvent("generation.failed", {
+      presentation_id: presentationId,
+      stage: "slides",
+      error: error instanceof Error ? error.message : String(error),
+    });
+    throw error;
+  }
+};
+
+/**
+ * Builds the events describing a job's saved state.
+ *
+ * Used when the job has no live run in this process. The events mirror what
+ * a live run would have sent: metadata, the saved slides, progress and, for
+ * finished jobs, the terminal event.
+ *
+ * @param owner - ID of the user the presentation belongs to.
+ * @param job - The persisted generation job.
+ * @returns Event payloads in the order they should be sent.
+ */
+const buildJobSnapshotEvents = async (
+  owner: string,
+  job: GenerationJobRecord,
+): Promise<unknown[]> => {
+  const presentation = await getPresentationById(owner, job.presentation);
+  if (!presentation) {
+    return [{ type: "error", detail: "Presentation not found" }];
+  }
+  const slides = (
+    await listSlidesByPresentation(owner, job.presentation)
+  ).map(fromSlideRecord);
+
+  const events: unknown[] = [
+    {
+      type: "meta",
+      presentation: buildPresentationMeta(presentation, slides.length),
+    },
+    { type: "slides_init", slides },
+    ...job.completed_slides
+      .filter((index) => slides[index])
+      .map((index) => ({ type: "slide", index, slide: slides[index] })),
+    {
+      type: "progress",
+      completed: job.completed_slides.length,
+      total: job.total,
+    },
+  ];
+
+  if (job.status === "completed") {
+    events.push(
+      { type: "slides_complete", total: job.total },
+      { type: "complete", presentation: { ...presentation, slides } },
+    );
+  } else if (job.status === "cancelled") {
+    events.push({
+      type: "cancelled",
+      presentation: { ...presentation, slides },
+    });
+  } else if (job.status === "failed") {
+    events.push({ type: "error", detail: job.error || "Generation failed" });
+  }
+  return events;
+};
+
+/**
+ * Resumes a job whose worker died (server restart, request timeout).
+ *
+ * Reloads the outlines, layout mapping and saved slides from the database
+ * and starts a new run that only generates the slides still missing.
+ *
+ * @param job - The orphaned running job.
+ * @returns SSE response attached to the new run, or a one-off error stream
+ *   if the saved state no longer matches the job.
+ */
+const resumeGenerationJob = async (
+  job: GenerationJobRecord,
+): Promise<Response> => {
+  const owner = requireRequestOwner();
+  const presentationId = job.presentation;
+
+  // Claim the job before the slow preparation so concurrent reconnects see
+  // a fresh heartbeat instead of resuming it a second time
+  await updateGenerationJob(owner, job.id, {});
+
+  const prepared = await preparePresentationData(presentationId);
+  if (prepared.error) {
+    return prepared.error;
+  }
+  const { presentation, layoutData } = prepared;
+
+  const outlinesData = presentation.outlines as { slides?: Outline[] } | null;
+  const outlines = outlinesData?.slides ?? [];
+  const saved = await listSlidesByPresentation(owner, presentationId);
+  if (outlines.length !== job.total || saved.length !== job.total) {
+    const detail =
+      "Saved progress no longer matches this job. Please re-generate.";
+    await updateGenerationJob(owner, job.id, {
+      status: "failed",
+      error: detail,
+    });
+    return new Response(
+      createGenerationSnapshotStream(job.id, [{ type: "error", detail }]),
+      { headers: SSE_HEADERS },
     );
+  }
+
+  const documentContent = await resolveDocumentContent(presentation);
+  const structure = await resolveStructureMapping(
+    presentationId,
+    outlines,
+    layoutData,
+    presentation.structure as PresentationStructure | null,
+  );
+
+  const context: SlideGenerationContext = {
+    presentation,
+    layoutData,
+    outlines,
+    structure,
+    slides: saved.map(fromSlideRecord),
+    completed: new Set(job.completed_slides),
+    promptContent: presentation.content || "",
+    documentIndex: await resolveDocumentSearchIndex(owner, presentation),
+    researchTopic: presentation.content || documentContent,
+  };
+  const run = startGenerationRun({
+    jobId: job.id,
+    owner,
+    presentationId,
+    work: (run) => runSlideGeneration(run, context),
+  });
+  return new Response(createGenerationRunStream(run, null), {
+    headers: SSE_HEADERS,
+  });
+};
+
+/**
+ * Reads the last event a reconnecting client received.
+ *
+ * Browsers send it in the `Last-Event-ID` header when an EventSource
+ * reconnects by itself. Clients that open a new EventSource pass it as the
+ * `last_event_id` query parameter instead, since headers cannot be set.
+ *
+ * @param request - The HTTP request, if available.
+ * @returns The parsed event ID, or null for a first connection.
+ */
+const readLastEventId = (request?: Request): GenerationEventId | null => {
+  if (!request) return null;
+  return parseGenerationEventId(
+    request.headers.get("last-event-id") ??
+      new URL(request.url).searchParams.get("last_event_id"),
+  );
+};
+
+/**
+ * Handles GET requests to stream slide content generation in real-time.
+ *
+ * This is the main endpoint for generating presentation slides. Generation
+ * runs as a persisted job that keeps going when the client disconnects; the
+ * SSE response only follows it. On each connection:
+ *
+ * 1. **Reconnect**: With a `Last-Event-ID`, the job it names is followed:
+ *    missed events are replayed from the live run, or rebuilt from the
+ *    database when the run lives elsewhere or has finished
+ * 2. **Attach**: Without one, a job that is still running for the
+ *    presentation is followed instead of starting a second one
+ * 3. **Resume**: A running job whose worker stopped sending heartbeats is
+ *    resumed, generating only the slides that are not saved yet
+ * 4. **Start**: Otherwise a new job starts: placeholders are saved and sent,
+ *    then each slide is generated, saved and streamed as it completes
+ *
+ * Concurrency control:
+ * - Uses bounded concurrency (MAX_STREAM_SLIDE_CONCURRENCY) to limit parallel requests
+ * - Implements staggered start delays to prevent API rate limiting
+ * - Each slide starts with a delay based on its queue position (PRIORITY_START_DELAY_MS)
+ *
+ * SSE Event types sent to client (every event carries an `id`):
+ * - `heartbeat`: Keep-alive message to maintain connection
+ * - `meta`: Presentation metadata (id, title, language, etc.)
+ * - `slides_init`: Current slides (placeholders or saved content)
+ * - `slide_delta`: Incremental content updates as fields are generated
+ * - `slide`: Complete slide object when generation finishes
+ * - `progress`: Progress updates showing completed/total slides
+ * - `slides_complete`: Notification that all slides are generated
+ * - `complete`: Final event with complete presentation data
+ * - `cancelled`: The job was stopped; includes the saved presentation
+ *
+ * @param presentationId - The unique identifier of the presentation to generate slides for.
+ * @param request - The HTTP request, used to read the `Last-Event-ID`.
+ * @returns An HTTP Response with:
+ *   - Content-Type: `text/event-stream` (SSE format)
+ *   - Appropriate headers for streaming (no buffering, keep-alive)
+ *   - A ReadableStream that sends SSE events as slides are generated
+ *
+ * @throws Returns error responses for:
+ *   - 404: Presentation not found
+ *   - 503: Layout data not ready (presentation not prepared yet)
+ *
+ * @example
+ * ```typescript
+ * // Client connects to: GET /api/v1/presentations/stream/abc-123
+ * const response = await handlePresentationStream("abc-123", request);
+ * // Client receives SSE stream with slide updates in real-time
+ * ```
+ */
+export const handlePresentationStream = async (
+  presentationId: string,
+  request?: Request,
+): Promise<Response> => {
+  const owner = requireRequestOwner();
+  const lastEventId = readLastEventId(request);
+
+  const job = lastEventId
+    ? await getGenerationJob(owner, lastEventId.jobId)
+    : await getLatestGenerationJob(owner, presentationId, "running");
+  if (job && job.presentation === presentationId) {
+    const run = getGenerationRun(job.id);
+    if (run) {
+      return new Response(createGenerationRunStream(run, lastEventId), {
+        headers: SSE_HEADERS,
+      });
+    }
+    if (job.status === "running" && isGenerationJobStale(job)) {
+      return resumeGenerationJob(job);
+    }
+    // Finished, or running in another process: send the saved state; the
+    // client reconnects after the retry delay if it needs more
+    const events = await buildJobSnapshotEvents(owner, job);
+    return new Response(createGenerationSnapshotStream(job.id, events), {
+      headers: SSE_HEADERS,
+    });
+  }
+
+  // Prepare presentation data and validate it's ready for generation
+  const prepared = await preparePresentationData(presentationId);
+  if (prepared.error) {
+    return prepared.error;
+  }
+
+  const { presentation, layoutData } = prepared;
+
+  // Resolve document content from uploaded files (if any)
+  const documentContent = await resolveDocumentContent(presentation);
+
+  // Get outlines (either from database or generate new ones)
+  const outlines = await resolveOutlines(presentation, documentContent);
+
+  // Resolve structure mapping: determines which layout template each slide uses
+  const structureData = presentation.structure as PresentationStructure | null;
+  const structure = await resolveStructureMapping(
+    presentationId,
+    outlines,
+    layoutData,
+    structureData,
+  );
+
+  // Create initial placeholder slides with empty content matching schemas
+  // These are sent immediately so the UI can show slide structure
+  const slides = createInitialSlides(
+    outlines,
+    structure,
+    layoutData,
+    presentationId,
+  );
+
+  // Save the skeleton first so the job can be resumed from any point
+  const saved = await savePresentationSkeleton(
+    presentationId,
+    slides,
+    outlines,
+    // Use existing title, or extract from first outline, or null
+    presentation.title || outlines[0]?.content || null,
+  );
+  if (!saved) {
+    return errorResponse("Presentation not found", 404);
+  }
+  const newJob = await createGenerationJob(owner, {
+    id: uuidv4(),
+    presentation: presentationId,
+    total: slides.length,
+  });
+  if (!newJob) {
+    return errorResponse("Presentation not found", 404);
+  }
+
+  const context: SlideGenerationContext = {
+    presentation: saved,
+    layoutData,
+    outlines,
+    structure,
+    slides,
+    completed: new Set(),
+    promptContent: presentation.content || "",
+    // Slides retrieve their own passages from the uploaded documents
+    documentIndex: await resolveDocumentSearchIndex(owner, presentation),
+    researchTopic: presentation.content || documentContent,
+  };
+  const run = startGenerationRun({
+    jobId: newJob.id,
+    owner,
+    presentationId,
+    work: (run) => runSlideGeneration(run, context),
   });
 
   // Return SSE response with appropriate headers for streaming
-  return new Response(stream, {
-    headers: {
-      "Content-Type": "text/event-stream", // SSE MIME type
-      "Cache-Control": "no-cache, no-transform", // Prevent caching of stream
-      Connection: "keep-alive", // Keep connection open for streaming
-      "X-Accel-Buffering": "no", // Disable nginx buffering for real-time updates
-      "Content-Encoding": "none", // No compression (SSE requires plain text)
-    },
+  return new Response(createGenerationRunStream(run, null), {
+    headers: SSE_HEADERS,
+  });
+};
+
+/**
+ * Handles POST requests to stop a running slide generation.
+ *
+ * Records the cancellation on the presentation's running job. A live run in
+ * this process stops taking slides from its queue right away; a run in
+ * another process picks the cancellation up on its next heartbeat. Slides
+ * that already finished are kept.
+ *
+ * @param presentationId - The unique identifier of the presentation.
+ * @returns A JSON response with the cancelled `job`, or:
+ *   - 404: Presentation not found
+ *   - 409: No generation in progress
+ *
+ * @example
+ * ```typescript
+ * // Request: POST /api/v1/presentations/abc-123/cancel
+ * // Response: { job: { id: "...", status: "cancelled", ... } }
+ * ```
+ */
+export const handlePresentationCancel = async (presentationId: string) => {
+  const owner = requireRequestOwner();
+  const presentation = await getPresentationById(owner, presentationId);
+  if (!presentation) {
+    return errorResponse("Presentation not found", 404);
+  }
+
+  const job = await getLatestGenerationJob(owner, presentationId, "running");
+  if (!job) {
+    return errorResponse("No generation in progress", 409);
+  }
+
+  const updated = await updateGenerationJob(owner, job.id, {
+    status: "cancelled",
+  });
+  const run = getGenerationRun(job.id);
+  if (run) {
+    cancelGenerationRun(run);
+  }
+  return jsonResponse({ job: updated });
+};
+
+/**
+ * Maximum characters of slide text used as the outline of a slide whose
+ * saved outline no longer lines up with the deck.
+ */
+const MAX_DERIVED_OUTLINE_LENGTH = 400;
+
+/**
+ * Slides to regenerate, with the content fields each one keeps.
+ *
+ * @property slide_ids - IDs of the slides, in any order.
+ * @property locked - Data paths ("title", "metrics[0].value") to keep per
+ *   slide ID. Locked fields are not rewritten and their deltas are not sent.
+ */
+type SlideRegenerationPayload = {
+  slide_ids?: string[];
+  locked?: Record<string, string[]>;
+};
+
+/**
+ * Checks whether a data path is a locked field or lies inside one.
+ */
+const isLockedPath = (path: string, locked: string[]): boolean =>
+  locked.some(
+    (lockedPath) =>
+      path === lockedPath ||
+      path.startsWith(`${lockedPath}.`) ||
+      path.startsWith(`${lockedPath}[`),
+  );
+
+/**
+ * Splits a data path into keys ("items[0].name" -> ["items", "0", "name"]).
+ */
+const splitDataPath = (path: string): string[] =>
+  path.split(/[.\[\]]+/).filter(Boolean);
+
+/**
+ * Collects the text of slide content, depth first, skipping internal fields
+ * such as `__image_prompt__`.
+ */
+const collectContentText = (value: unknown): string[] => {
+  if (typeof value === "string") return [value];
+  if (Array.isArray(value)) return value.flatMap(collectContentText);
+  if (value && typeof value === "object") {
+    return Object.entries(value).flatMap(([key, child]) =>
+      key.startsWith("__") ? [] : collectContentText(child),
+    );
+  }
+  return [];
+};
+
+/**
+ * Copies the locked fields of a slide's previous content into its new
+ * content. Fields the previous content does not have are left as generated.
+ *
+ * @param content - Newly generated content (not modified).
+ * @param previous - The slide's content before regeneration.
+ * @param locked - Data paths of the locked fields.
+ * @returns The new content with the locked fields restored.
+ */
+const restoreLockedFields = (
+  content: Record<string, unknown>,
+  previous: Record<string, unknown>,
+  locked: string[],
+): Record<string, unknown> => {
+  const restored = structuredClone(content);
+  for (const path of locked) {
+    const keys = splitDataPath(path);
+    if (keys.length === 0) continue;
+    let source: unknown = previous;
+    for (const key of keys) {
+      source = (source as Record<string, unknown> | undefined)?.[key];
+    }
+    if (source === undefined) continue;
+    let target = restored as Record<string, unknown>;
+    for (let i = 0; i < keys.length - 1; i++) {
+      const key = keys[i];
+      if (typeof target[key] !== "object" || target[key] === null) {
+        target[key] = /^\d+$/.test(keys[i + 1]) ? [] : {};
+      }
+      target = target[key] as Record<string, unknown>;
+    }
+    target[keys[keys.length - 1]] = structuredClone(source);
+  }
+  return restored;
+};
+
+/**
+ * Matches a presentation's saved outlines to its slides by slide ID.
+ *
+ * Outlines are saved in generation order with the ID of their slide, so
+ * slides added, removed or reordered since keep their own outline (added
+ * slides have none). Outlines saved without slide IDs are not matched.
+ *
+ * @param outlines - Outlines saved with the presentation.
+ * @param slides - The presentation's slides, in order.
+ * @returns The outline of each slide ID, and the outlines of the current
+ *   slides in deck order (for agendas).
+ */
+const matchSlideOutlines = (
+  outlines: Outline[],
+  slides: SlideRecord[],
+): { bySlide: Map<string, Outline>; ordered: Outline[] } => {
+  const bySlide = new Map(
+    outlines.flatMap((outline) =>
+      outline.slide_id ? [[outline.slide_id, outline] as const] : [],
+    ),
+  );
+  return {
+    bySlide,
+    ordered: slides.flatMap((slide) => bySlide.get(slide.id) ?? []),
+  };
+};
+
+/**
+ * Builds the outline a slide is regenerated from.
+ *
+ * The slide's saved outline is used when it has one (see
+ * matchSlideOutlines); otherwise the outline is derived from the slide's
+ * layout name and current text. Locked fields are listed so the rest of the
+ * slide is written around them.
+ *
+ * @param slide - The slide to regenerate.
+ * @param saved - The slide's saved outline, if any.
+ * @param layoutName - Name of the slide's layout.
+ * @param locked - Data paths of the fields the slide keeps.
+ * @returns The outline for buildSlideContentStream.
+ */
+const buildRegenerationOutline = (
+  slide: SlideRecord,
+  saved: Outline | undefined,
+  layoutName: string,
+  locked: string[],
+): Outline => {
+  const content =
+    saved?.content ||
+    `${layoutName.toUpperCase()}: ${collectContentText(slide.content)
+      .join(" - ")
+      .slice(0, MAX_DERIVED_OUTLINE_LENGTH)}`;
+  if (locked.length === 0) return { content };
+
+  const kept = locked.flatMap((path) => {
+    let value: unknown = slide.content ?? {};
+    for (const key of splitDataPath(path)) {
+      value = (value as Record<string, unknown> | undefined)?.[key];
+    }
+    return value === undefined ? [] : [`- ${path}: ${JSON.stringify(value)}`];
+  });
+  return kept.length > 0
+    ? {
+        content: `${content}\n\nThese fields are kept as they are; write the rest of the slide to fit them:\n${kept.join("\n")}`,
+      }
+    : { content };
+};
+
+/**
+ * Regenerates slides from their outlines and streams the new content.
+ *
+ * Each slide runs through the same pipeline as deck generation
+ * (generateSlideWithStreaming): fresh document passages and web research for
+ * its outline, the presentation's key facts and settings. Locked fields keep
+ * their values. The slide's prior state is recorded as a revision before it
+ * is replaced, so it can be restored from the slide's history.
+ *
+ * Events follow handlePresentationStream, with `index` being the slide's
+ * position in the deck:
+ * - `slides_init`: The slides being regenerated, as they are now
+ * - `slide_delta`: Incremental content updates (not for locked fields)
+ * - `slide`: The saved slide, with its new version
+ * - `progress`: Completed/total slides
+ * - `complete`: The saved slides and `skipped_slides`, the IDs of slides that
+ *   were edited while they regenerated and kept that edit
+ *
+ * @param presentationId - ID of the presentation.
+ * @param payload - Slides to regenerate and their locked fields.
+ * @returns SSE response, or an error response before streaming starts.
+ */
+const streamSlideRegeneration = async (
+  presentationId: string,
+  payload: SlideRegenerationPayload,
+): Promise<Response> => {
+  const owner = requireRequestOwner();
+  const slideIds = new Set(payload.slide_ids ?? []);
+  if (slideIds.size === 0) {
+    return errorResponse("slide_ids are required");
+  }
+  const lockedPaths = Object.values(payload.locked ?? {});
+  if (
+    !lockedPaths.every(
+      (paths) =>
+        Array.isArray(paths) &&
+        paths.every((path) => typeof path === "string" && isSafeDataPath(path)),
+    )
+  ) {
+    return errorResponse("locked must list data paths per slide ID");
+  }
+
+  const presentation = await getPresentationById(owner, presentationId);
+  if (!presentation) {
+    return errorResponse("Presentation not found", 404);
+  }
+  if (await getLatestGenerationJob(owner, presentationId, "running")) {
+    return errorResponse("Slides are still being generated", 409);
+  }
+
+  const layoutData = presentation.layout as LayoutPayload | null;
+  const slidesSchema = layoutData?.slides ?? [];
+  const records = await listSlidesByPresentation(owner, presentationId);
+  const targets = records.flatMap((slide, position) =>
+    slideIds.has(slide.id) ? [{ slide, position }] : [],
+  );
+  if (targets.length !== slideIds.size) {
+    return errorResponse("Slide not found", 404);
+  }
+  for (const { slide } of targets) {
+    if (!slidesSchema.some((layout) => layout.id === slide.layout)) {
+      return errorResponse(
+        `Slide ${slide.slide_index + 1} has no layout in the presentation's template`,
+      );
+    }
+  }
+
+  const outlinesData = presentation.outlines as { slides?: Outline[] } | null;
+  const outlines = matchSlideOutlines(outlinesData?.slides ?? [], records);
+
+  const stream = createSseStream(async (controller) => {
+    const encoder = new TextEncoder();
+    // The client may leave; the slides are still regenerated and saved
+    const send = (data: unknown) => {
+      try {
+        controller.enqueue(encoder.encode(sseChunk(data)));
+      } catch {
+        // Stream closed by the client
+      }
+    };
+    controller.enqueue(encoder.encode(": heartbeat\n\n"));
+
+    const slides = records.map(fromSlideRecord);
+    send({
+      type: "slides_init",
+      slides: targets.map(({ position }) => slides[position]),
+    });
+
+    const settings = getGenerationSettings(presentation);
+    const documentIndex = await resolveDocumentSearchIndex(
+      owner,
+      presentation,
+    );
+    const keyFacts = await resolveKeyFacts(owner, presentation, documentIndex);
+    const researchTopic =
+      presentation.content ||
+      (presentation.web_search
+        ? await resolveDocumentContent(presentation)
+        : "");
+
+    await trackSlideRevisions(
+      owner,
+      presentationId,
+      targets.map(({ slide }) => slide),
+      "original",
+    );
+
+    const saved: SlideResponse[] = [];
+    const skippedSlides: string[] = [];
+    const regenerateSlide = async (
+      { slide, position }: (typeof targets)[number],
+      queuePosition: number,
+    ) => {
+      const delayMs = Math.min(
+        queuePosition * PRIORITY_START_DELAY_MS,
+        MAX_PRIORITY_START_DELAY_MS,
+      );
+      if (delayMs > 0) {
+        await new Promise((resolve) => setTimeout(resolve, delayMs));
+      }
+
+      const locked = payload.locked?.[slide.id] ?? [];
+      const schemaIndex = slidesSchema.findIndex(
+        (layout) => layout.id === slide.layout,
+      );
+      const schema = slidesSchema[schemaIndex]?.json_schema || {};
+      const savedOutline = outlines.bySlide.get(slide.id);
+      const outline = buildRegenerationOutline(
+        slide,
+        savedOutline,
+        slidesSchema[schemaIndex]?.name ?? "Slide",
+        locked,
+      );
+
+      const agendaContent = savedOutline
+        ? buildAgendaSlideContent(
+            savedOutline,
+            schema as SlideSchema,
+            outlines.ordered,
+          )
+        : null;
+      if (agendaContent) {
+        slides[position] = { ...slides[position], content: agendaContent };
+      } else {
+        await generateSlideWithStreaming({
+          owner,
+          slideIndex: position,
+          outline,
+          schemaIndex,
+          schema,
+          promptContent: presentation.content || "",
+          documentIndex,
+          webSearch: presentation.web_search,
+          researchTopic,
+          settings,
+          keyFacts,
+          slidesSchema,
+          layoutData: layoutData as LayoutPayload,
+          slides,
+          emit: (data) => {
+            const event = data as { type?: string; path?: string };
+            // The slide is sent once its locked fields are back and it is saved
+            if (event.type === "slide") return;
+            if (
+              event.type === "slide_delta" &&
+              isLockedPath(event.path ?? "", locked)
+            ) {
+              return;
+            }
+            send(data);
+          },
+        });
+      }
+
+      const regenerated = slides[position];
+      // A slide edited meanwhile keeps the edit
+      const status = await updateSlide(owner, slide.id, slide.version, {
+        content: restoreLockedFields(
+          regenerated.content,
+          slide.content ?? {},
+          locked,
+        ),
+        speaker_note: regenerated.speaker_note || slide.speaker_note,
+        sources: regenerated.sources ?? null,
+        document_sources: regenerated.document_sources ?? null,
+      });
+      const record =
+        status === "updated" ? await getSlideById(owner, slide.id) : null;
+      if (record) {
+        await trackSlideRevisions(
+          owner,
+          presentationId,
+          [record],
+          "regeneration",
+        );
+        const response = {
+          ...fromSlideRecord(record),
+          index: position,
+          version: record.version,
+        };
+        saved.push(response);
+        send({ type: "slide", index: position, slide: response });
+      } else {
+        skippedSlides.push(slide.id);
+        send({
+          type: "slide",
+          index: position,
+          slide: {
+            ...fromSlideRecord(slide),
+            index: position,
+            version: slide.version,
+          },
+        });
+      }
+      send({
+        type: "progress",
+        completed: saved.length + skippedSlides.length,
+        total: targets.length,
+        index: position,
+      });
+    };
+
+    const queue = [...targets];
+    let queuePosition = 0;
+    const workers = Array.from(
+      { length: Math.min(MAX_STREAM_SLIDE_CONCURRENCY, queue.length) },
+      async () => {
+        for (let next = queue.shift(); next; next = queue.shift()) {
+          await regenerateSlide(next, queuePosition++);
+        }
+      },
+    );
+    await Promise.all(workers);
+
+    send({
+      type: "complete",
+      slides: saved.sort((a, b) => a.index - b.index),
+      skipped_slides: skippedSlides,
+    });
+  });
+
+  return new Response(stream, { headers: SSE_HEADERS });
+};
+
+/**
+ * Handles POST requests to regenerate slides of a presentation from their
+ * outlines, without rerunning the rest of the deck.
+ *
+ * Request body:
+ * - `slide_ids` (required): IDs of the slides to regenerate, e.g. a range
+ *   selected in the editor
+ * - `locked` (optional): Data paths of the fields to keep, per slide ID
+ *
+ * @param request - The HTTP request object containing the slides.
+ * @param presentationId - The unique identifier of the presentation.
+ * @returns An SSE response with `slides_init`, `slide_delta`, `slide`,
+ *   `progress` and `complete` events (see streamSlideRegeneration), or:
+ *   - 400: No slides, a slide whose layout is not in the template, or
+ *     locked paths that are not data paths
+ *   - 404: Presentation or slide not found
+ *   - 409: The deck is still being generated
+ *
+ * @example
+ * ```typescript
+ * // Request: POST /api/v1/presentations/abc-123/regenerate
+ * // Body: { slide_ids: ["slide-5", "slide-6"], locked: { "slide-5": ["title"] } }
+ * ```
+ */
+export const handleSlidesRegenerate = async (
+  request: Request,
+  presentationId: string,
+): Promise<Response> => {
+  const body = (await request
+    .json()
+    .catch(() => null)) as SlideRegenerationPayload | null;
+  if (!Array.isArray(body?.slide_ids)) {
+    return errorResponse("slide_ids are required");
+  }
+  return streamSlideRegeneration(presentationId, body);
+};
+
+/**
+ * Handles POST requests to regenerate a single slide from its outline.
+ *
+ * Request body:
+ * - `locked` (optional): Data paths of the fields to keep
+ *
+ * @param request - The HTTP request object.
+ * @param slideId - The unique identifier of the slide.
+ * @returns An SSE response as for handleSlidesRegenerate, or 404 if the
+ *   slide does not exist.
+ *
+ * @example
+ * ```typescript
+ * // Request: POST /api/v1/slides/slide-5/regenerate
+ * // Body: { locked: ["title", "metrics[0].value"] }
+ * ```
+ */
+export const handleSlideRegenerate = async (
+  request: Request,
+  slideId: string,
+): Promise<Response> => {
+  const body = (await request
+    .json()
+    .catch(() => null)) as { locked?: string[] } | null;
+  const owner = requireRequestOwner();
+  const slide = await getSlideById(owner, slideId);
+  if (!slide) {
+    return errorResponse("Slide not found", 404);
+  }
+  return streamSlideRegeneration(slide.presentation, {
+    slide_ids: [slideId],
+    locked: Array.isArray(body?.locked) ? { [slideId]: body.locked } : {},
   });
 };
 
@@ -1357,7 +2548,8 @@ const streamPlaceholderOutlines = async (
     encoder.encode(sseChunk({ type: "chunk", chunk: " ] }" })),
   );
 
-  const updated = await updatePresentation(presentationId, {
+  const owner = requireRequestOwner();
+  const updated = await updatePresentation(owner, presentationId, {
     outlines: { slides: placeholderOutlines },
     title: presentation?.title ?? placeholderOutlines[0]?.content ?? null,
   });
@@ -1365,6 +2557,12 @@ const streamPlaceholderOutlines = async (
   controller.enqueue(
     encoder.encode(sseChunk({ type: "complete", presentation: updated })),
   );
+
+  await emitWebhookEvent("outline.completed", {
+    presentation_id: presentationId,
+    n_outlines: placeholderOutlines.length,
+    placeholder: true,
+  });
 };
 
 /**
@@ -1377,18 +2575,25 @@ const streamPlaceholderOutlines = async (
  *
  * Prompt structure:
  * 1. Source document content (if available)
- * 2. Additional user instructions (if provided)
- * 3. Requirements section with:
+ * 2. Web research digest (if web search is enabled)
+ * 3. Additional user instructions (if provided)
+ * 4. Requirements section with:
  *    - Number of slides
  *    - Language and audience specifications
  *    - Critical formatting rules (hero elements, character limits, etc.)
- * 4. Output format specification (JSON structure)
+ * 5. Output format specification (JSON structure)
  *
  * @param documentContent - Extracted text from uploaded files (PDF, DOCX, etc.).
  *   Used as the primary source of information for outline generation.
  * @param promptContent - User-provided text prompt with additional instructions.
  *   Combined with document content to guide outline generation.
  * @param nSlides - Target number of slides to generate outlines for.
+ * @param webResearch - Digest of web search results about the pitch's
+ *   market and competitors (see summarizeSearchResults), or an empty string.
+ * @param settings - Generation settings of the presentation (language, tone,
+ *   instructions).
+ * @param sections - Title slide and agenda options. The agenda is added after
+ *   generation, so it is left out of the requested slide count.
  * @returns A formatted string prompt ready to send to the LLM.
  *
  * @example
@@ -1396,7 +2601,10 @@ const streamPlaceholderOutlines = async (
  * const prompt = buildOutlineUserPrompt(
  *   "Company revenue: $10M ARR...",
  *   "Focus on growth metrics",
- *   12
+ *   12,
+ *   "",
+ *   getGenerationSettings(presentation),
+ *   getDeckSectionOptions(presentation)
  * );
  * // Returns formatted prompt string for LLM
  * ```
@@ -1405,20 +2613,40 @@ const buildOutlineUserPrompt = (
   documentContent: string,
   promptContent: string,
   nSlides: number,
+  webResearch: string,
+  settings: GenerationSettings,
+  sections: DeckSectionOptions,
 ): string => {
   let userPrompt = "";
 
   if (documentContent) {
     userPrompt += `## SOURCE DOCUMENT CONTENT:\n${documentContent}\n\n`;
   }
+  if (webResearch) {
+    userPrompt += `## WEB RESEARCH (Recent public sources for market and competition):\n${webResearch}\n\n`;
+  }
   if (promptContent) {
     userPrompt += `## ADDITIONAL INSTRUCTIONS FROM USER:\n${promptContent}\n\n`;
   }
 
+  const outlineCount = sections.includeTableOfContents
+    ? Math.max(1, nSlides - 1)
+    : nSlides;
+  const titleRule = sections.includeTitleSlide
+    ? "Slide 1 MUST be the INTRO title slide"
+    : "No INTRO title slide: start with the first content slide";
+
+  userPrompt += buildStyleSection(settings);
   userPrompt += `## REQUIREMENTS (Modern Toss/OpenAI Style):
-- Number of slides: ${nSlides}
-- Language: English (US)
+- Number of slides: ${outlineCount}
+- Language: ${settings.language.name}
 - Audience: US Venture Capital investors (Sequoia, a16z, YC)
+- Opening: ${titleRule}${
+    sections.includeTableOfContents
+      ? `
+- Agenda: do NOT write an AGENDA outline; it is built from your outline labels`
+      : ""
+  }
 
 ## CRITICAL INSTRUCTIONS:
 1. Each outline MUST identify the HERO ELEMENT (ONE big number/stat)
@@ -1428,7 +2656,12 @@ const buildOutlineUserPrompt = (
 5. Format: "[SLIDE TYPE] - Hero: [METRIC] | Supporting: [2-3 points]"
 6. If source lacks data, use placeholder: "[HERO: $XM needed]"
 7. NO paragraphs, NO markdown formatting
-8. English only. Translate non-English terms; romanize names into Latin characters (no Hangul).
+8. ${buildLanguageRule(settings)}${
+    webResearch
+      ? `
+9. MARKET and COMPETITION: take TAM/SAM/SOM and competitor names from WEB RESEARCH and name the source, e.g. "(Statista 2025)"`
+      : ""
+  }
 
 ## OUTPUT FORMAT:
 Return JSON: { "slides": [{ "content": "..." }, ...] }
@@ -1460,6 +2693,8 @@ Generate a modern, data-forward pitch deck outline.`;
  *
  * @param userPrompt - The formatted prompt string containing document content
  *   and instructions for the LLM.
+ * @param settings - Generation settings of the presentation; the system
+ *   prompt's language rule follows them.
  * @param controller - SSE stream controller for sending events to the client.
  * @param encoder - TextEncoder for converting strings to Uint8Array for SSE.
  * @returns Promise that resolves to an array of Outline objects when generation
@@ -1479,100 +2714,20 @@ Generate a modern, data-forward pitch deck outline.`;
  */
 const generateOutlinesStream = async ({
   userPrompt,
+  settings,
   controller,
   encoder,
 }: {
   userPrompt: string;
+  settings: GenerationSettings;
   controller: ReadableStreamDefaultController<Uint8Array>;
   encoder: TextEncoder;
 }): Promise<Outline[]> => {
-  const OUTLINES_SYSTEM_PROMPT = `You are a YC Group Partner reviewing pitch decks. Generate outlines that would pass YC and 500 Startups screening.
-
-## DESIGN PHILOSOPHY
-1. ONE NUMBER PER SLIDE - Each slide has ONE hero metric
-2. 3-SECOND RULE - Instant comprehension
-3. DATA AS DESIGN - Numbers ARE the visual
-4. NO FLUFF - Every word must earn its place
-
-## YC STANDARD SLIDE ORDER (MUST follow exactly):
-
-1. INTRO - "[What] for [Who]" tagline
-   VC looks for: Instant clarity on what you do
-   GOOD: "Stripe for Healthcare" | BAD: "Innovative Platform"
-   Outline example: "INTRO: K-Beauty Commerce for US Retailers - connecting Korean brands to American stores"
-
-2. PROBLEM - ONE pain + ONE shocking stat
-   VC looks for: Is this pain real? How big?
-   Include: Source for stat (KOTRA, Gartner, etc.)
-   Outline example: "PROBLEM: Hero $2.3B - US retailers lose $2.3B/yr failing to source K-beauty (KOTRA 2024)"
-
-3. SOLUTION - "We [verb] X" + 3 outcomes
-   VC looks for: Does it directly solve the problem?
-   Outline example: "SOLUTION: We connect brands to buyers - 3x faster sourcing, verified quality, zero inventory risk"
-
-4. MARKET - TAM as hero + SAM/SOM
-   VC looks for: Is it big enough? Bottom-up math?
-   Outline example: "MARKET: Hero $48B TAM - Global K-beauty $48B, US import $8B SAM, Initial $800M SOM"
-
-5. TRACTION - MRR or ARR (realistic for stage)
-   VC looks for: Hockey stick? Retention? Unit economics improving?
-   SEED REALITY: $10K-100K MRR typical, NOT millions
-   RED FLAG: $100M+ revenue at Seed = instant reject
-   Outline example: "TRACTION: Hero $85K MRR - 127% MoM growth, 3 enterprise pilots, 94% retention"
-
-6. BUSINESS MODEL - Revenue model + unit economics
-   VC looks for: How do you make money? Path to profitability?
-   Outline example: "BUSINESS MODEL: SaaS + transaction fee - $99/mo base + 2.9% GMV, LTV:CAC 4.2x"
-
-7. COMPETITION - Your unique position
-   VC looks for: Why will YOU win? (NOT competitor bashing)
-   Outline example: "COMPETITION: Only player with verified sales data - vs. Influencer DBs (no proof), Agencies (high cost)"
-
-8. TEAM - 3 people, founder-market fit
-   VC looks for: Why is THIS team the one to win?
-   Format: "Ex-[Company], [specific achievement]"
-   Outline example: "TEAM: CEO Ex-Amazon (scaled K-beauty $50M), CTO Ex-Stripe (payments infra), COO Ex-Coupang"
-
-9. ROADMAP - 3 phases, H1/H2 format
-   VC looks for: Realistic milestones? Clear priorities?
-   Outline example: "ROADMAP: H1 2026 beta + 10 brands, H2 2026 $500K ARR, 2027 Series A"
-
-10. ASK - Funding + 3 use-of-funds
-    VC looks for: Clear ask, specific allocation
-    Outline example: "ASK: $2M Seed - 40% product, 35% GTM, 25% ops - target $1M ARR in 18mo"
-
-## RED FLAGS TO AVOID:
-- Generic taglines ("AI-powered solution")
-- Unrealistic traction ($100M revenue at Seed)
-- Number ranges ("$500M-$800M")
-- Missing sources for market data
-- "We have no competitors"
-- Full sentences instead of phrases
-
-## Output Format:
-Return ONLY valid JSON:
-{
-  "slides": [
-    { "content": "INTRO: [tagline] - [one line context]" },
-    { "content": "PROBLEM: Hero [stat] - [pain point with source]" },
-    ...
-  ]
-}
-
-CRITICAL:
-- No code fences, no markdown
-- English only. Translate non-English terms; romanize names into Latin characters (no Hangul).
-- Numbers: $48B, $1.8M, 127% (NO ranges)
-- Each outline: 1 sentence with hero element identified`;
-
   // Accumulate JSON tokens as they arrive from the LLM
   let accumulatedJson = "";
   // Track how many slides we've detected so far for progressive parsing
   let lastParsedSlideCount = 0;
   
-  // Get the model configured for outline generation (may differ from default)
-  const outlineModel = getOutlineModel();
-  
   // Create delta parser to extract outline content from JSON stream
   // The parser tracks JSON structure and calls onDelta when outline content is detected
   const deltaParser = createOutlineDeltaParser({
@@ -1588,9 +2743,9 @@ CRITICAL:
   try {
     // Stream JSON tokens from LLM
     for await (const token of generateJsonStream(
-      OUTLINES_SYSTEM_PROMPT,
+      buildOutlinesSystemPrompt(settings),
       userPrompt,
-      outlineModel,
+      "outline",
     )) {
       // Accumulate tokens to build complete JSON
       accumulatedJson += token;
@@ -1690,7 +2845,8 @@ const streamFallbackOutlines = async (
     encoder.encode(sseChunk({ type: "chunk", chunk: " ] }" })),
   );
 
-  const updated = await updatePresentation(presentationId, {
+  const owner = requireRequestOwner();
+  const updated = await updatePresentation(owner, presentationId, {
     outlines: { slides: fallbackOutlines },
     title: presentation?.title ?? fallbackOutlines[0]?.content ?? null,
   });
@@ -1698,6 +2854,12 @@ const streamFallbackOutlines = async (
   controller.enqueue(
     encoder.encode(sseChunk({ type: "complete", presentation: updated })),
   );
+
+  await emitWebhookEvent("outline.completed", {
+    presentation_id: presentationId,
+    n_outlines: fallbackOutlines.length,
+    fallback: true,
+  });
 };
 
 /**
@@ -1713,13 +2875,14 @@ const streamFallbackOutlines = async (
  * 2. Loads document content from uploaded files (if any)
  * 3. Checks if content is available (prompt or document)
  * 4. If no content: streams placeholder outlines
- * 5. If content exists: generates outlines via LLM with streaming
- * 6. Saves outlines to database
- * 7. Falls back to simpler generation if LLM fails
+ * 5. If web search is enabled: researches market and competitors
+ * 6. If content exists: generates outlines via LLM with streaming
+ * 7. Saves outlines to database
+ * 8. Falls back to simpler generation if LLM fails
  *
  * SSE Event types sent to client:
  * - `heartbeat`: Keep-alive message
- * - `status`: Status updates ("Preparing outline...", "Generating outline...")
+ * - `status`: Status updates ("Preparing outline...", "Searching the web...", "Generating outline...")
  * - `chunk`: Raw JSON tokens as they arrive from LLM
  * - `delta`: Incremental outline content updates
  * - `slide`: Complete outline object when detected
@@ -1748,7 +2911,8 @@ export const handleOutlinesStream = async (
 ): Promise<Response> => {
   // Check presentation first for fast 404 handling
   // This avoids creating SSE stream if presentation doesn't exist
-  const presentation = await getPresentationById(presentationId);
+  const owner = requireRequestOwner();
+  const presentation = await getPresentationById(owner, presentationId);
   if (!presentation) {
     return new Response("Not found", { status: 404 });
   }
@@ -1778,11 +2942,17 @@ export const handleOutlinesStream = async (
       controller.enqueue(
         encoder.encode(sseChunk({ type: "error", detail: message })),
       );
+      await emitWebhookEvent("generation.failed", {
+        presentation_id: presentationId,
+        stage: "outline",
+        error: message,
+      });
       return;
     }
 
     const promptContent = presentation.content || "";
     const nSlides = presentation.n_slides || 10;
+    const settings = getGenerationSettings(presentation);
 
     // If no content at all (no prompt and no document), return placeholder slides
     // This handles edge case where presentation is created but user hasn't provided content
@@ -1797,26 +2967,49 @@ export const handleOutlinesStream = async (
       return;
     }
 
+    // Research market and competitors when web search is enabled
+    let webResearch = "";
+    if (presentation.web_search) {
+      sendStatus("Searching the web...");
+      try {
+        const results = await searchWeb(
+          buildTopicSearchQueries(promptContent || documentContent),
+        );
+        webResearch = summarizeSearchResults(results);
+      } catch (error) {
+        // Outlines can still be generated from the prompt and documents alone
+        console.error("Outline web research failed:", error);
+      }
+    }
+
     // Build comprehensive prompt for LLM with document content and user instructions
     const userPrompt = buildOutlineUserPrompt(
       documentContent,
       promptContent,
       nSlides,
+      webResearch,
+      settings,
+      getDeckSectionOptions(presentation),
     );
 
     sendStatus("Generating outline...");
 
     try {
-      // Generate outlines with streaming - sends updates as they're generated
-      const outlines = await generateOutlinesStream({
-        userPrompt,
-        controller,
-        encoder,
-      });
+      // Generate outlines with streaming - sends updates as they're generated,
+      // then add the title slide and agenda the presentation asks for
+      const outlines = applyPresentationSections(
+        await generateOutlinesStream({
+          userPrompt,
+          settings,
+          controller,
+          encoder,
+        }),
+        presentation,
+      );
 
       // Save generated outlines to database
       // Also update title if not set (use first outline's content)
-      const updated = await updatePresentation(presentationId, {
+      const updated = await updatePresentation(owner, presentationId, {
         outlines: { slides: outlines },
         title: presentation.title || outlines[0]?.content || null,
       });
@@ -1830,15 +3023,19 @@ export const handleOutlinesStream = async (
           }),
         ),
       );
+
+      await emitWebhookEvent("outline.completed", {
+        presentation_id: presentationId,
+        n_outlines: outlines.length,
+      });
     } catch (error) {
       // If LLM generation fails, use fallback method
       // This ensures user always gets some result
       console.error("Outline streaming failed:", error);
       // Fallback: use buildOutlines as backup (simpler, non-streaming method)
-      const fallbackOutlines = await buildOutlines(
-        promptContent,
-        documentContent,
-        nSlides,
+      const fallbackOutlines = applyPresentationSections(
+        await buildOutlines(promptContent, documentContent, nSlides, settings),
+        presentation,
       );
 
       // Stream and save fallback outlines
@@ -1850,6 +3047,12 @@ export const handleOutlinesStream = async (
         encoder,
       );
     }
+  }, async (error) => {
+    await emitWebhookEvent("generation.failed", {
+      presentation_id: presentationId,
+      stage: "outline",
+      error: error instanceof Error ? error.message : String(error),
+    });
   });
 
   // Return SSE response with appropriate headers for streaming
@@ -0,0 +1,160 @@
+import { requireRequestOwner } from "@/server/auth";
+import { getPresentationById } from "@/server/db/presentations";
+import { listSlidesByPresentation, SlideRecord } from "@/server/db/slides";
+import { generateJson } from "@/server/llm";
+
+import {
+  buildDeckReview,
+  buildSectionCriteria,
+  collectTextFields,
+  ModelDeckReview,
+  parseModelReview,
+} from "../utils/deck-review";
+import { getGenerationSettings } from "../utils/generation-settings";
+import { errorResponse, jsonResponse } from "../utils/responses";
+
+/**
+ * Maximum characters of each slide's text included in the review prompt.
+ */
+const MAX_SLIDE_PROMPT_CHARS = 1200;
+
+/**
+ * System prompt for the investor-readiness review.
+ */
+const REVIEW_SYSTEM_PROMPT = `You are a YC Group Partner reviewing a finished pitch deck before it goes to investors.
+
+Score each slide from 0 to 100 for investor readiness and suggest at most 2 concrete improvements per slide.
+
+## WHAT VCs LOOK FOR:
+${buildSectionCriteria()}
+- BUSINESS MODEL: How do you make money? Unit economics?
+- COMPETITION: Why will YOU win? (NOT competitor bashing)
+- ROADMAP: Realistic milestones? Clear priorities?
+
+## RED FLAGS:
+- Generic taglines ("AI-powered solution")
+- Unrealistic traction for the stage ($100M revenue at Seed)
+- Number ranges instead of one number
+- Market data without a source
+- "We have no competitors"
+- Full sentences instead of phrases, more than one hero number per slide
+
+## RULES:
+- Character limits, unsupported numbers and metric consistency are checked separately; do not report them
+- Each suggestion needs an "edit_prompt": an instruction an AI editor can apply to that slide alone (e.g. "Replace the tagline with a '[What] for [Who]' line")
+- Only suggest what editing the slide's text can fix
+- Write messages and edit prompts in English, short and specific
+
+## Output Format:
+Return ONLY valid JSON:
+{
+  "summary": "2-3 sentence verdict on the deck",
+  "slides": [
+    {
+      "index": 0,
+      "section": "intro | problem | solution | market | traction | business_model | competition | team | roadmap | ask | other",
+      "score": 72,
+      "suggestions": [{ "message": "What to improve and why", "edit_prompt": "Instruction for the AI editor" }]
+    }
+  ]
+}`;
+
+/**
+ * Formats a slide's text for the review prompt, one field per line.
+ */
+const describeSlide = (slide: SlideRecord, index: number): string => {
+  const text = collectTextFields(slide.content)
+    .map((field) => `${field.path}: ${field.text}`)
+    .join("\n");
+  const clipped =
+    text.length > MAX_SLIDE_PROMPT_CHARS
+      ? `${text.slice(0, MAX_SLIDE_PROMPT_CHARS)}\n[...]`
+      : text;
+  return `### Slide ${index + 1} (index ${index})
+${clipped || "(no text)"}`;
+};
+
+/**
+ * Asks the model for its verdict on each slide and the deck.
+ *
+ * @param slides - The presentation's slides, in order.
+ * @returns The verdict, or null if the model call failed.
+ */
+const runModelReview = async (
+  slides: SlideRecord[],
+): Promise<ModelDeckReview | null> => {
+  try {
+    const json = await generateJson(
+      REVIEW_SYSTEM_PROMPT,
+      `## DECK (${slides.length} slides):
+
+${slides.map(describeSlide).join("\n\n")}`,
+      "edit",
+    );
+    return parseModelReview(json, slides.length);
+  } catch (error) {
+    console.error("Deck review failed:", error);
+    return null;
+  }
+};
+
+/**
+ * Handles POST requests to review a presentation for investor readiness.
+ *
+ * Scores each slide and the deck against the criteria the outline prompt
+ * is built on: missing canonical sections (problem, solution, market,
+ * traction, team, ask), text over the verbosity's character limits,
+ * figures not found in the prompt, uploaded documents or key facts,
+ * metrics that disagree between slides, and the reviewing model's
+ * feedback. Findings
+ * that editing a slide can fix carry an `edit_prompt` to send to the AI
+ * slide edit (`POST /api/v1/slides`).
+ *
+ * If the model call fails, the automated checks are still returned, with a
+ * null `summary`.
+ *
+ * @param presentationId - The unique identifier of the presentation.
+ * @returns A JSON response containing the DeckReview.
+ *
+ * @throws Returns error responses for:
+ *   - 400: Presentation has no slides
+ *   - 404: Presentation not found
+ *
+ * @example
+ * ```typescript
+ * // Request: POST /api/v1/presentations/abc-123/review
+ * // Response: {
+ * //   score: 68, summary: "...", missing_sections: ["team"],
+ * //   slides: [{ slide_index: 4, section: "traction", score: 55,
+ * //     issues: [{ type: "inconsistent_metric", edit_prompt: "...", ... }] }]
+ * // }
+ * ```
+ */
+export const handleDeckReview = async (presentationId: string) => {
+  const owner = requireRequestOwner();
+  const presentation = await getPresentationById(owner, presentationId);
+  if (!presentation) {
+    return errorResponse("Presentation not found", 404);
+  }
+  const slides = await listSlidesByPresentation(owner, presentationId);
+  if (slides.length === 0) {
+    return errorResponse("Presentation has no slides");
+  }
+
+  const model = await runModelReview(slides);
+  // Key facts the user entered count as a source of their figures
+  const keyFacts = (presentation.key_facts ?? [])
+    .map((fact) => `${fact.label}: ${fact.value}`)
+    .join("\n");
+  const source = `${presentation.content || ""}\n${
+    presentation.document_content || ""
+  }\n${keyFacts}`;
+  return jsonResponse(
+    buildDeckReview(
+      slides,
+      getGenerationSettings(presentation),
+      source,
+      model,
+    ),
+  );
+};
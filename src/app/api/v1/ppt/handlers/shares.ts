@@ -0,0 +1,493 @@
+import {
+  hashPassword,
+  requireRequestOwner,
+  verifyPassword,
+} from "@/server/auth";
+import { getBrandKitById } from "@/server/db/brand-kits";
+import { getPresentationById } from "@/server/db/presentations";
+import {
+  createShareLink,
+  createShareView,
+  getShareLinkByToken,
+  getShareView,
+  listShareLinks,
+  listShareViews,
+  recordShareEvents,
+  reserveSharePasswordAttempt,
+  resetSharePasswordFailures,
+  revokeShareLink,
+  ShareDwell,
+} from "@/server/db/share-links";
+import { listSlidesByPresentation } from "@/server/db/slides";
+import {
+  getTemplateById,
+  listLayoutCodesByPresentation,
+} from "@/server/db/templates";
+import {
+  generateShareToken,
+  getShareLinkStatus,
+  MAX_DWELL_MS,
+  SHARE_PASSWORD_LOCKOUT,
+  summarizeShareViews,
+} from "@/server/sharing";
+import { errorResponse, jsonResponse } from "../utils/responses";
+
+/**
+ * Maximum length of a viewer ID or email accepted from the public viewer.
+ */
+const MAX_VIEWER_FIELD_LENGTH = 200;
+
+/**
+ * Maximum number of dwell events accepted in one report.
+ */
+const MAX_EVENTS_PER_REPORT = 100;
+
+/**
+ * Loose email check for viewers entering their address. Only guards against
+ * obvious typos; the address is not verified.
+ */
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+/**
+ * Resolves a share link token to a link that currently grants access.
+ *
+ * Unknown and revoked links answer 404, so a revoked link cannot be told
+ * apart from one that never existed; expired links answer 410 so the viewer
+ * can say so.
+ *
+ * @param token - Token from the share URL.
+ * @returns The link with its password hash and owner, or an error response.
+ */
+const resolveActiveShareLink = async (token: string) => {
+  const found = await getShareLinkByToken(token);
+  if (!found || !found.owner) {
+    return { error: errorResponse("Share link not found", 404) };
+  }
+  const status = getShareLinkStatus(found.link);
+  if (status === "revoked") {
+    return { error: errorResponse("Share link not found", 404) };
+  }
+  if (status === "expired") {
+    return { error: errorResponse("This share link has expired", 410) };
+  }
+  return { ...found, owner: found.owner };
+};
+
+/**
+ * Answers a password attempt made while the link's password is locked.
+ *
+ * @param lockedUntil - ISO 8601 timestamp until which attempts are refused.
+ * @returns A 429 error response with a `Retry-After` header.
+ */
+const passwordLockedResponse = (lockedUntil: string) => {
+  const retryAfter = Math.max(
+    1,
+    Math.ceil((Date.parse(lockedUntil) - Date.now()) / 1000),
+  );
+  const response = errorResponse(
+    "Too many incorrect passwords. Please try again later.",
+    429,
+  );
+  response.headers.set("Retry-After", String(retryAfter));
+  return response;
+};
+
+/**
+ * Loads the custom templates a shared deck's slides use, so the viewer can
+ * render them without access to the templates API.
+ *
+ * Custom template slides have layouts of the form
+ * `custom-<template presentation ID>:<layout ID>`.
+ *
+ * @param owner - ID of the presentation's owner.
+ * @param layouts - Layouts of the deck's slides.
+ * @returns The templates with their name and layout code.
+ */
+const loadSharedTemplates = async (
+  owner: string,
+  layouts: (string | null)[],
+) => {
+  const templateIds = new Set<string>();
+  for (const layout of layouts) {
+    const group = layout?.split(":")[0];
+    if (group?.startsWith("custom-")) {
+      templateIds.add(group.slice("custom-".length));
+    }
+  }
+
+  const templates = await Promise.all(
+    Array.from(templateIds, async (id) => {
+      const [layoutCodes, template] = await Promise.all([
+        listLayoutCodesByPresentation(owner, id),
+        getTemplateById(owner, id),
+      ]);
+      return {
+        presentation_id: id,
+        name: template?.name ?? null,
+        layouts: layoutCodes.map((layoutCode) => ({
+          layout_id: layoutCode.layout_id,
+          layout_name: layoutCode.layout_name,
+          layout_code: layoutCode.layout_code,
+          fonts: layoutCode.fonts ?? [],
+        })),
+      };
+    }),
+  );
+  return templates.filter((template) => template.layouts.length > 0);
+};
+
+/**
+ * Handles GET requests to list a presentation's share links.
+ *
+ * @param presentationId - ID of the presentation.
+ * @returns A JSON response containing `{ links: ShareLinkSummary[] }` with
+ *   each link's status and visit counts.
+ *
+ * @throws Returns a 404 error response if the presentation does not exist.
+ *
+ * @example
+ * ```typescript
+ * // Request: GET /api/v1/presentations/abc-123/share-links
+ * // Response: { links: [{ id: "...", token: "...", status: "active", views: 3, ... }] }
+ * ```
+ */
+export const handleShareLinksList = async (presentationId: string) => {
+  const owner = requireRequestOwner();
+  const presentation = await getPresentationById(owner, presentationId);
+  if (!presentation) {
+    return errorResponse("Presentation not found", 404);
+  }
+  const [links, views, slides] = await Promise.all([
+    listShareLinks(owner, presentationId),
+    listShareViews(owner, presentationId),
+    listSlidesByPresentation(owner, presentationId),
+  ]);
+  return jsonResponse({
+    links: summarizeShareViews(links, views, slides.length).links,
+  });
+};
+
+/**
+ * Handles POST requests to create a share link for a presentation.
+ *
+ * Request body (all fields optional):
+ * - `label`: Name of the link, e.g. who it was sent to
+ * - `password`: Password viewers must enter
+ * - `require_email`: Whether viewers must enter their email
+ * - `expires_at`: ISO 8601 time after which the link stops working
+ *
+ * @param request - The HTTP request object containing link settings.
+ * @param presentationId - ID of the presentation to share.
+ * @returns A JSON response with the created link.
+ *
+ * @throws Returns error responses for:
+ *   - 400: Invalid or past `expires_at`, or an empty password
+ *   - 404: Presentation not found
+ *
+ * @example
+ * ```typescript
+ * // Request: POST /api/v1/presentations/abc-123/share-links
+ * // Body: { label: "Acme Ventures", expires_at: "2026-12-01T00:00:00Z" }
+ * // Response: { id: "...", token: "k3J...", has_password: false, ... }
+ * ```
+ */
+export const handleShareLinkCreate = async (
+  request: Request,
+  presentationId: string,
+) => {
+  const body = await request.json().catch(() => ({}));
+
+  let expiresAt: Date | null = null;
+  if (body.expires_at) {
+    expiresAt = new Date(body.expires_at);
+    if (Number.isNaN(expiresAt.getTime())) {
+      return errorResponse("expires_at must be an ISO 8601 date");
+    }
+    if (expiresAt.getTime() <= Date.now()) {
+      return errorResponse("expires_at must be in the future");
+    }
+  }
+  if (body.password !== undefined && body.password !== null) {
+    if (typeof body.password !== "string" || !body.password) {
+      return errorResponse("password must be a non-empty string");
+    }
+  }
+
+  const label =
+    typeof body.label === "string" && body.label.trim()
+      ? body.label.trim().slice(0, MAX_VIEWER_FIELD_LENGTH)
+      : null;
+  const link = await createShareLink(requireRequestOwner(), presentationId, {
+    token: generateShareToken(),
+    label,
+    password_hash: body.password ? await hashPassword(body.password) : null,
+    require_email: body.require_email === true,
+    expires_at: expiresAt,
+  });
+  if (!link) {
+    return errorResponse("Presentation not found", 404);
+  }
+  return jsonResponse(link);
+};
+
+/**
+ * Handles DELETE requests to revoke a share link.
+ *
+ * The link stops working immediately. It stays listed, with its analytics,
+ * as revoked.
+ *
+ * @param linkId - ID of the share link.
+ * @returns A JSON response with the revoked link.
+ *
+ * @throws Returns a 404 error response if the link does not exist.
+ *
+ * @example
+ * ```typescript
+ * // Request: DELETE /api/v1/share-links/link-123
+ * // Response: { id: "link-123", revoked_at: "2026-10-19T17:00:00.000Z", ... }
+ * ```
+ */
+export const handleShareLinkRevoke = async (linkId: string) => {
+  const link = await revokeShareLink(requireRequestOwner(), linkId);
+  if (!link) {
+    return errorResponse("Share link not found", 404);
+  }
+  return jsonResponse(link);
+};
+
+/**
+ * Handles GET requests for the view analytics of a presentation.
+ *
+ * @param presentationId - ID of the presentation.
+ * @returns A JSON response containing ShareAnalytics: link summaries, who
+ *   viewed the deck and how long they spent on each slide, and per-slide
+ *   totals. Slide titles are included as `slide_titles` for labelling.
+ *
+ * @throws Returns a 404 error response if the presentation does not exist.
+ *
+ * @example
+ * ```typescript
+ * // Request: GET /api/v1/presentations/abc-123/share-analytics
+ * // Response: { links: [...], viewers: [{ email: "...", completed: true, ... }], slides: [...] }
+ * ```
+ */
+export const handleShareAnalytics = async (presentationId: string) => {
+  const owner = requireRequestOwner();
+  const presentation = await getPresentationById(owner, presentationId);
+  if (!presentation) {
+    return errorResponse("Presentation not found", 404);
+  }
+  const [links, views, slides] = await Promise.all([
+    listShareLinks(owner, presentationId),
+    listShareViews(owner, presentationId),
+    listSlidesByPresentation(owner, presentationId),
+  ]);
+  const analytics = summarizeShareViews(links, views, slides.length);
+  return jsonResponse({
+    ...analytics,
+    slide_titles: slides.map((slide) =>
+      typeof slide.content?.title === "string" ? slide.content.title : null,
+    ),
+  });
+};
+
+/**
+ * Handles GET requests for what a share link asks of its viewer.
+ *
+ * Public: answers without a session so the viewer knows whether to ask for
+ * a password or email before opening the deck.
+ *
+ * @param token - Token from the share URL.
+ * @returns A JSON response containing `{ requires_password, requires_email }`.
+ *
+ * @throws Returns error responses for:
+ *   - 404: Unknown or revoked link
+ *   - 410: Expired link
+ */
+export const handleShareLinkInfo = async (token: string) => {
+  const resolved = await resolveActiveShareLink(token);
+  if ("error" in resolved) return resolved.error;
+  return jsonResponse({
+    requires_password: resolved.link.has_password,
+    requires_email: resolved.link.require_email,
+  });
+};
+
+/**
+ * Handles POST requests to open a shared presentation.
+ *
+ * Public. Checks the password and email the link asks for, records a visit
+ * and returns the slides needed to render the deck read-only (no speaker
+ * notes or sources).
+ *
+ * Request body:
+ * - `viewer_id` (required): Anonymous ID kept in the viewer's browser
+ * - `password`: Link password, if the link has one
+ * - `email`: Viewer email, if the link requires one
+ *
+ * Wrong passwords count against the link: after too many in a row, the link
+ * refuses password attempts for a while without checking them (see
+ * SHARE_PASSWORD_LOCKOUT).
+ *
+ * @param request - The HTTP request object containing the viewer details.
+ * @param token - Token from the share URL.
+ * @returns A JSON response containing `{ view_id, presentation, templates }`.
+ *   The `view_id` is needed to report slide dwell times for this visit; the
+ *   presentation's `brand` is the brand kit its slides are styled with;
+ *   `templates` holds the layout code of the custom templates its slides
+ *   use.
+ *
+ * @throws Returns error responses for:
+ *   - 400: Missing viewer_id or invalid email
+ *   - 401: Wrong or missing password
+ *   - 404: Unknown or revoked link, or the presentation no longer exists
+ *   - 410: Expired link
+ *   - 429: Too many wrong passwords; `Retry-After` tells when to try again
+ */
+export const handleSharedPresentationOpen = async (
+  request: Request,
+  token: string,
+) => {
+  const resolved = await resolveActiveShareLink(token);
+  if ("error" in resolved) return resolved.error;
+  const { link, password_hash, owner } = resolved;
+
+  const body = await request.json().catch(() => ({}));
+  const viewerId =
+    typeof body.viewer_id === "string" ? body.viewer_id.trim() : "";
+  if (!viewerId || viewerId.length > MAX_VIEWER_FIELD_LENGTH) {
+    return errorResponse("viewer_id is required");
+  }
+  if (password_hash) {
+    const password = typeof body.password === "string" ? body.password : "";
+    if (!password) {
+      return errorResponse("Incorrect password", 401);
+    }
+    const attempt = await reserveSharePasswordAttempt(
+      link.id,
+      SHARE_PASSWORD_LOCKOUT,
+    );
+    if (!attempt.allowed) {
+      return attempt.locked_until
+        ? passwordLockedResponse(attempt.locked_until)
+        : errorResponse("Share link not found", 404);
+    }
+    if (!(await verifyPassword(password, password_hash))) {
+      return attempt.locked_until
+        ? passwordLockedResponse(attempt.locked_until)
+        : errorResponse("Incorrect password", 401);
+    }
+    await resetSharePasswordFailures(link.id);
+  }
+  const email =
+    typeof body.email === "string" && body.email.trim()
+      ? body.email.trim().toLowerCase()
+      : null;
+  if (
+    email &&
+    (email.length > MAX_VIEWER_FIELD_LENGTH || !EMAIL_PATTERN.test(email))
+  ) {
+    return errorResponse("Please enter a valid email");
+  }
+  if (link.require_email && !email) {
+    return errorResponse("email is required");
+  }
+
+  const presentation = await getPresentationById(owner, link.presentation);
+  if (!presentation) {
+    return errorResponse("Share link not found", 404);
+  }
+  const slides = await listSlidesByPresentation(owner, link.presentation);
+  const brand = presentation.brand_kit
+    ? await getBrandKitById(owner, presentation.brand_kit)
+    : null;
+  const templates = await loadSharedTemplates(
+    owner,
+    slides.map((slide) => slide.layout),
+  );
+
+  const userAgent = request.headers.get("user-agent");
+  const view = await createShareView(link.id, {
+    viewer_id: viewerId,
+    viewer_email: email,
+    user_agent: userAgent ? userAgent.slice(0, 500) : null,
+  });
+
+  return jsonResponse({
+    view_id: view.id,
+    presentation: {
+      id: presentation.id,
+      title: presentation.title,
+      language: presentation.language,
+      brand,
+      slides: slides.map((slide) => ({
+        id: slide.id,
+        index: slide.slide_index,
+        layout: slide.layout,
+        layout_group: slide.layout_group,
+        content: slide.content,
+      })),
+    },
+    templates,
+  });
+};
+
+/**
+ * Handles POST requests from the viewer reporting slide dwell times.
+ *
+ * Public, but only accepts reports for visits of this link that are still
+ * active. Sent with `navigator.sendBeacon` when the viewer leaves a slide
+ * or hides the page, so it answers 204 without a body.
+ *
+ * Request body:
+ * - `view_id` (required): Visit ID returned when the deck was opened
+ * - `events` (required): Array of `{ slide_index, dwell_ms }`
+ *
+ * @param request - The HTTP request object containing the events.
+ * @param token - Token from the share URL.
+ * @returns 204 No Content once the events are stored.
+ *
+ * @throws Returns error responses for:
+ *   - 400: Missing view_id or malformed events
+ *   - 404: Unknown or revoked link, or a visit of another link
+ *   - 410: Expired link
+ */
+export const handleShareEvents = async (request: Request, token: string) => {
+  const resolved = await resolveActiveShareLink(token);
+  if ("error" in resolved) return resolved.error;
+
+  // sendBeacon posts text/plain, so parse the body ourselves
+  const body = await request
+    .text()
+    .then((text) => JSON.parse(text))
+    .catch(() => null);
+  if (!body || typeof body.view_id !== "string" || !Array.isArray(body.events)) {
+    return errorResponse("view_id and events are required");
+  }
+  const view = await getShareView(body.view_id);
+  if (!view || view.share_link !== resolved.link.id) {
+    return errorResponse("View not found", 404);
+  }
+
+  const events: ShareDwell[] = [];
+  for (const event of body.events.slice(0, MAX_EVENTS_PER_REPORT)) {
+    const slideIndex = Number(event?.slide_index);
+    const dwellMs = Number(event?.dwell_ms);
+    if (
+      !Number.isInteger(slideIndex) ||
+      slideIndex < 0 ||
+      !Number.isFinite(dwellMs) ||
+      dwellMs <= 0
+    ) {
+      return errorResponse("events must be { slide_index, dwell_ms } objects");
+    }
+    events.push({
+      slide_index: slideIndex,
+      dwell_ms: Math.min(Math.round(dwellMs), MAX_DWELL_MS),
+    });
+  }
+  if (events.length > 0) {
+    await recordShareEvents(view.id, events);
+  }
+  return new Response(null, { status: 204 });
+};
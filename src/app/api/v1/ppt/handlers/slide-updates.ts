@@ -0,0 +1,432 @@
+import { v4 as uuidv4 } from "uuid";
+import { requireRequestOwner } from "@/server/auth";
+import {
+  getPresentationAccess,
+  getSlideAccess,
+  PresentationAccess,
+} from "@/server/db/presentation-members";
+import { getPresentationById } from "@/server/db/presentations";
+import {
+  getSlideById,
+  insertSlide,
+  listSlidesByPresentation,
+  removeSlide,
+  reorderSlides,
+  SlideRecord,
+  SlideUpdate,
+  updateSlide,
+} from "@/server/db/slides";
+import {
+  applyCollabOp,
+  COLLAB_SLIDE_FIELDS,
+  isSafeDataPath,
+} from "@/utils/collab";
+import { errorResponse } from "../utils/responses";
+import { trackSlideRevisions } from "../utils/revisions";
+import {
+  conflictResponse,
+  readExpectedVersion,
+  versionedResponse,
+} from "../utils/versions";
+
+/**
+ * Change to one field of a slide's content.
+ *
+ * @property path - Data path of the field, as used by the editor (e.g.,
+ *   "title", "bullets[1].heading"). An empty path replaces the whole
+ *   content object.
+ * @property value - New value of the field.
+ */
+type SlideContentChange = {
+  path: string;
+  value: unknown;
+};
+
+/**
+ * Checks that a request body's `changes` is a list of content changes
+ * whose paths only address the content's own fields.
+ */
+const isContentChangeList = (
+  value: unknown,
+): value is SlideContentChange[] =>
+  Array.isArray(value) &&
+  value.every(
+    (change) =>
+      typeof change === "object" &&
+      change !== null &&
+      typeof (change as SlideContentChange).path === "string" &&
+      isSafeDataPath((change as SlideContentChange).path),
+  );
+
+/**
+ * Resolves the owner a change is written as: the signed-in user for their
+ * own presentations, or the owner of a presentation they were invited to
+ * as editor.
+ *
+ * @param access - The user's access to the presentation, or null.
+ * @param notFound - Error message for a missing presentation or slide.
+ * @returns The owner ID, or the 404/403 response to send.
+ */
+const resolveEditOwner = (
+  access: PresentationAccess | null,
+  notFound: string,
+): { owner: string } | { response: Response } => {
+  if (!access) return { response: errorResponse(notFound, 404) };
+  if (access.role === "viewer") {
+    return {
+      response: errorResponse("You can only view this presentation", 403),
+    };
+  }
+  return { owner: access.owner };
+};
+
+/**
+ * Loads a presentation with its slides, the shape returned by the slide list
+ * endpoints.
+ *
+ * @param owner - ID of the user the presentation belongs to.
+ * @param presentationId - ID of the presentation.
+ * @param status - HTTP status code for the response (default: 200).
+ * @returns A response with the presentation and its slides and the
+ *   presentation's ETag, or a 404 response.
+ */
+const presentationResponse = async (
+  owner: string,
+  presentationId: string,
+  status = 200,
+) => {
+  const presentation = await getPresentationById(owner, presentationId);
+  if (!presentation) {
+    return errorResponse("Presentation not found", 404);
+  }
+  const slides = await listSlidesByPresentation(owner, presentationId);
+  return versionedResponse(
+    { ...presentation, slides },
+    presentation.version,
+    status,
+  );
+};
+
+/**
+ * Builds the 409 response for a change to a presentation's slide list that
+ * was based on an outdated presentation version.
+ *
+ * @param owner - ID of the user the presentation belongs to.
+ * @param presentationId - ID of the presentation.
+ * @returns A 409 response with the current presentation and slides.
+ */
+const presentationConflict = async (owner: string, presentationId: string) => {
+  const presentation = await getPresentationById(owner, presentationId);
+  if (!presentation) {
+    return errorResponse("Presentation not found", 404);
+  }
+  const slides = await listSlidesByPresentation(owner, presentationId);
+  return conflictResponse(
+    "The presentation was changed since you loaded it",
+    { ...presentation, slides },
+    presentation.version,
+  );
+};
+
+/**
+ * Handles PATCH requests to change a single slide.
+ *
+ * Applies content changes by data path and replaces slide-level fields,
+ * leaving the rest of the slide (and every other slide) untouched. The
+ * change is rejected with 409 if the slide changed since the version the
+ * client sent; without a version, it applies to the current slide. The
+ * presentation's owner and members invited as editors can change it.
+ *
+ * Request body (all optional):
+ * - `version`: Slide version the change is based on (or `If-Match` header)
+ * - `changes`: Content changes, `[{ path, value }]`, applied in order
+ * - `layout`, `layout_group`, `speaker_note`, `sources`,
+ *   `document_sources`: New values of those fields
+ *
+ * The change is recorded in the slide's revision history as "autosave".
+ *
+ * @param request - The HTTP request object containing the change.
+ * @param slideId - The unique identifier of the slide.
+ * @returns A JSON response containing the updated slide, with its version
+ *   as ETag.
+ *
+ * @throws Returns error responses for:
+ *   - 400: Malformed `changes`, or a path through `__proto__`,
+ *     `constructor` or `prototype`
+ *   - 403: The user is a viewer of the presentation
+ *   - 404: Slide not found
+ *   - 409: Slide changed since `version`; the body's `current` holds it
+ *
+ * @example
+ * ```typescript
+ * // Request: PATCH /api/v1/slides/slide-123
+ * // If-Match: "4"
+ * // Body: { changes: [{ path: "bullets[1].title", value: "Traction" }] }
+ * // Response: { id: "slide-123", version: 5, content: { ... }, ... }
+ * ```
+ */
+export const handleSlideUpdate = async (request: Request, slideId: string) => {
+  const body = (await request.json().catch(() => null)) as Record<
+    string,
+    unknown
+  > | null;
+  if (!body) {
+    return errorResponse("Invalid request body");
+  }
+  const changes = body.changes ?? [];
+  if (!isContentChangeList(changes)) {
+    return errorResponse("changes must be a list of { path, value }");
+  }
+
+  const edit = resolveEditOwner(
+    await getSlideAccess(requireRequestOwner(), slideId),
+    "Slide not found",
+  );
+  if ("response" in edit) return edit.response;
+  const { owner } = edit;
+  const slide = await getSlideById(owner, slideId);
+  if (!slide) {
+    return errorResponse("Slide not found", 404);
+  }
+  const expectedVersion = readExpectedVersion(request, body.version);
+  if (expectedVersion !== null && expectedVersion !== slide.version) {
+    return conflictResponse(
+      "The slide was changed since you loaded it",
+      slide,
+      slide.version,
+    );
+  }
+
+  const update: SlideUpdate = {};
+  for (const field of COLLAB_SLIDE_FIELDS) {
+    if (field in body) {
+      (update as Record<string, unknown>)[field] = body[field];
+    }
+  }
+  if (changes.length > 0) {
+    const [changed] = changes.reduce<SlideRecord[]>(
+      (slides, change) =>
+        applyCollabOp(slides, {
+          type: "set",
+          slide_id: slide.id,
+          path: change.path,
+          value: change.value ?? null,
+        }),
+      [slide],
+    );
+    update.content = changed.content;
+  }
+
+  await trackSlideRevisions(owner, slide.presentation, [slide], "original");
+  // Checked against the version read above, so a write that lands in
+  // between is not overwritten
+  const status = await updateSlide(owner, slideId, slide.version, update);
+  const updated = await getSlideById(owner, slideId);
+  if (!status || !updated) {
+    return errorResponse("Slide not found", 404);
+  }
+  if (status === "conflict") {
+    return conflictResponse(
+      "The slide was changed since you loaded it",
+      updated,
+      updated.version,
+    );
+  }
+  await trackSlideRevisions(owner, slide.presentation, [updated], "autosave");
+  return versionedResponse(updated, updated.version);
+};
+
+/**
+ * Handles POST requests to add a slide to a presentation.
+ *
+ * Request body:
+ * - `slide` (required): The slide (`id`, `layout`, `layout_group`,
+ *   `speaker_note`, `content`, `sources`, `document_sources`). An ID is
+ *   generated if none is given.
+ * - `index` (required): Position of the new slide
+ * - `version` (optional): Presentation version the insert is based on (or
+ *   `If-Match` header)
+ *
+ * @param request - The HTTP request object containing the slide.
+ * @param presentationId - The unique identifier of the presentation.
+ * @returns A 201 JSON response containing the presentation with its slides,
+ *   with the presentation's version as ETag.
+ *
+ * @throws Returns error responses for:
+ *   - 400: Missing slide or index
+ *   - 403: The user is a viewer of the presentation
+ *   - 404: Presentation not found
+ *   - 409: Presentation changed since `version`, or a slide with the ID
+ *     already exists
+ */
+export const handleSlideInsert = async (
+  request: Request,
+  presentationId: string,
+) => {
+  const body = (await request.json().catch(() => null)) as {
+    slide?: Partial<SlideRecord>;
+    index?: unknown;
+    version?: unknown;
+  } | null;
+  const slide = body?.slide;
+  if (!slide || typeof slide !== "object") {
+    return errorResponse("slide is required");
+  }
+  if (!Number.isInteger(body?.index) || (body?.index as number) < 0) {
+    return errorResponse("index must be a non-negative integer");
+  }
+
+  const edit = resolveEditOwner(
+    await getPresentationAccess(requireRequestOwner(), presentationId),
+    "Presentation not found",
+  );
+  if ("response" in edit) return edit.response;
+  const { owner } = edit;
+  const presentation = await getPresentationById(owner, presentationId);
+  if (!presentation) {
+    return errorResponse("Presentation not found", 404);
+  }
+  const expectedVersion =
+    readExpectedVersion(request, body?.version) ?? presentation.version;
+
+  const record = {
+    id: typeof slide.id === "string" && slide.id ? slide.id : uuidv4(),
+    presentation: presentationId,
+    layout_group: slide.layout_group ?? null,
+    layout: slide.layout ?? null,
+    slide_index: body?.index as number,
+    speaker_note: slide.speaker_note || "",
+    content: slide.content || {},
+    html_content: slide.html_content || null,
+    sources: slide.sources ?? null,
+    document_sources: slide.document_sources ?? null,
+  };
+  const status = await insertSlide(owner, expectedVersion, record);
+  if (!status) {
+    return errorResponse("Presentation not found", 404);
+  }
+  if (status === "conflict") {
+    return presentationConflict(owner, presentationId);
+  }
+
+  const inserted = await getSlideById(owner, record.id);
+  if (inserted) {
+    await trackSlideRevisions(owner, presentationId, [inserted], "autosave");
+  }
+  return presentationResponse(owner, presentationId, 201);
+};
+
+/**
+ * Handles DELETE requests to remove a slide from a presentation.
+ *
+ * The slide's revision history is kept. The presentation version the
+ * removal is based on can be sent as `If-Match` header.
+ *
+ * @param request - The HTTP request object.
+ * @param presentationId - The unique identifier of the presentation.
+ * @param slideId - The unique identifier of the slide.
+ * @returns A JSON response containing the presentation with its remaining
+ *   slides, with the presentation's version as ETag.
+ *
+ * @throws Returns error responses for:
+ *   - 403: The user is a viewer of the presentation
+ *   - 404: Presentation or slide not found
+ *   - 409: Presentation changed since the sent version
+ */
+export const handleSlideRemove = async (
+  request: Request,
+  presentationId: string,
+  slideId: string,
+) => {
+  const edit = resolveEditOwner(
+    await getPresentationAccess(requireRequestOwner(), presentationId),
+    "Presentation not found",
+  );
+  if ("response" in edit) return edit.response;
+  const { owner } = edit;
+  const presentation = await getPresentationById(owner, presentationId);
+  if (!presentation) {
+    return errorResponse("Presentation not found", 404);
+  }
+  const expectedVersion =
+    readExpectedVersion(request) ?? presentation.version;
+
+  const status = await removeSlide(
+    owner,
+    presentationId,
+    expectedVersion,
+    slideId,
+  );
+  if (!status) {
+    return errorResponse("Slide not found", 404);
+  }
+  if (status === "conflict") {
+    return presentationConflict(owner, presentationId);
+  }
+  return presentationResponse(owner, presentationId);
+};
+
+/**
+ * Handles PATCH requests to reorder a presentation's slides.
+ *
+ * Request body:
+ * - `order` (required): IDs of all the presentation's slides in their new
+ *   order
+ * - `version` (optional): Presentation version the order is based on (or
+ *   `If-Match` header)
+ *
+ * @param request - The HTTP request object containing the order.
+ * @param presentationId - The unique identifier of the presentation.
+ * @returns A JSON response containing the presentation with its slides in
+ *   the new order, with the presentation's version as ETag.
+ *
+ * @throws Returns error responses for:
+ *   - 400: Missing order
+ *   - 403: The user is a viewer of the presentation
+ *   - 404: Presentation not found
+ *   - 409: Presentation changed since `version`, or `order` does not list
+ *     exactly the presentation's slides
+ */
+export const handleSlideReorder = async (
+  request: Request,
+  presentationId: string,
+) => {
+  const body = (await request.json().catch(() => null)) as {
+    order?: unknown;
+    version?: unknown;
+  } | null;
+  const order = body?.order;
+  if (
+    !Array.isArray(order) ||
+    !order.every((id): id is string => typeof id === "string")
+  ) {
+    return errorResponse("order must be a list of slide IDs");
+  }
+
+  const edit = resolveEditOwner(
+    await getPresentationAccess(requireRequestOwner(), presentationId),
+    "Presentation not found",
+  );
+  if ("response" in edit) return edit.response;
+  const { owner } = edit;
+  const presentation = await getPresentationById(owner, presentationId);
+  if (!presentation) {
+    return errorResponse("Presentation not found", 404);
+  }
+  const expectedVersion =
+    readExpectedVersion(request, body?.version) ?? presentation.version;
+
+  const status = await reorderSlides(
+    owner,
+    presentationId,
+    expectedVersion,
+    order,
+  );
+  if (!status) {
+    return errorResponse("Presentation not found", 404);
+  }
+  if (status === "conflict") {
+    return presentationConflict(owner, presentationId);
+  }
+  return presentationResponse(owner, presentationId);
+};
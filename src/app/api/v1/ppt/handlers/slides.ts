@@ -1,18 +1,69 @@
-import { getSlideById, upsertSlide } from "@/server/db/slides";
+import { requireRequestOwner } from "@/server/auth";
+import {
+  applyPresentationTemplate,
+  getSlideById,
+  listSlidesByPresentation,
+  SlideRecord,
+  updateSlide,
+  upsertSlide,
+} from "@/server/db/slides";
 import { getPresentationById } from "@/server/db/presentations";
+import {
+  getSlideRevision,
+  listSlideRevisions,
+} from "@/server/db/slide-revisions";
 import { generateJson, generateText } from "@/server/llm";
+import type { SlideDocumentSource } from "@/types/slide";
+import type { MigrationSchema } from "@/utils/content-migration";
 
+import {
+  extractSpeakerNote,
+  SPEAKER_NOTE_FIELD,
+} from "../utils/content-builders";
+import {
+  buildCharacterLimits,
+  buildLanguageRule,
+  buildStyleSection,
+  GenerationSettings,
+  getCharacterBudget,
+  getGenerationSettings,
+} from "../utils/generation-settings";
+import {
+  buildFullSourceContent,
+  resolveDocumentSearchIndex,
+  retrieveDocumentContext,
+} from "../utils/document-resolver";
+import { buildKeyFactsSection } from "../utils/key-facts";
+import { MAX_STREAM_SLIDE_CONCURRENCY } from "../utils/constants";
 import { errorResponse, jsonResponse } from "../utils/responses";
+import { trackSlideRevisions } from "../utils/revisions";
+import {
+  conflictResponse,
+  readExpectedVersion,
+  versionedResponse,
+} from "../utils/versions";
+import type {
+  LayoutPayload,
+  PresentationStructure,
+} from "../types/streaming";
 
 /**
  * Production-grade system prompt for slide JSON editing
  * Maintains professional VC-ready quality
+ *
+ * @param settings - Generation settings of the slide's presentation.
+ * @returns The system prompt.
  */
-const editSlideSystemPrompt = `You are a professional pitch deck editor specializing in investor presentations for US venture capital audiences.
+const buildEditSlideSystemPrompt = (settings: GenerationSettings): string => {
+  const language =
+    settings.language.name === "English"
+      ? "Professional American English suitable for Silicon Valley VCs"
+      : `Professional ${settings.language.name} suitable for venture capital investors`;
+  return `You are a professional pitch deck editor specializing in investor presentations for US venture capital audiences.
 
 Your task is to modify the provided slide JSON content according to the user's requirements while maintaining:
-- Professional American English suitable for Silicon Valley VCs
-- Impactful, concise language (headlines max 8 words, bullets max 10 words)
+- ${language}
+- Impactful, concise language within the character limits below
 - Data-driven content with specific metrics where available
 - Consistent formatting and structure
 
@@ -20,9 +71,13 @@ Guidelines:
 1. Preserve the JSON structure exactly - only modify content values
 2. Keep the same data types for each field
 3. Improve clarity and impact while following the user's instructions
-4. Ensure all text is in professional English
+4. ${buildLanguageRule(settings)}
+
+Character limits:
+${buildCharacterLimits(settings)}
 
 Return ONLY the modified JSON object with no additional text or explanation.`;
+};
 
 /**
  * Production-grade system prompt for HTML editing
@@ -95,6 +150,41 @@ type SlideEditPayload = {
   prompt?: string;
 };
 
+/**
+ * Payload structure for moving a slide to another layout.
+ *
+ * `content` is the slide's content migrated to the new layout (see
+ * migrateSlideContent), and `missing` lists its fields that still hold the
+ * layout's sample content.
+ */
+type SlideLayoutChangePayload = {
+  layout?: string;
+  layout_group?: string;
+  json_schema?: MigrationSchema;
+  content?: Record<string, unknown>;
+  missing?: string[];
+  version?: number;
+};
+
+/**
+ * Payload structure for moving every slide of a presentation to another
+ * template.
+ *
+ * `layout` is the new template's layout payload (as sent to prepare), and
+ * `slides` holds one entry per slide with its new layout and migrated
+ * content.
+ */
+type TemplateChangePayload = {
+  layout?: LayoutPayload;
+  slides?: Array<{
+    id?: string;
+    layout?: string;
+    content?: Record<string, unknown>;
+    missing?: string[];
+  }>;
+  version?: number;
+};
+
 /**
  * Payload structure for editing slide HTML content.
  */
@@ -127,6 +217,65 @@ type HtmlEditPayload = {
   prompt?: string;
 };
 
+/**
+ * Builds the source section of an AI edit prompt.
+ *
+ * Combines the presentation's original prompt with the uploaded document
+ * passages most relevant to the edit (see retrieveDocumentContext).
+ *
+ * @param owner - ID of the user the presentation belongs to.
+ * @param presentation - The slide's presentation, or null.
+ * @param query - Text the passages are retrieved for: the edit request and
+ *   the slide's current text.
+ * @returns The prompt section (empty if there is no source) and the
+ *   references of the passages used.
+ */
+const buildEditSourceContext = async (
+  owner: string,
+  presentation: Awaited<ReturnType<typeof getPresentationById>>,
+  query: string,
+): Promise<{ sourceContext: string; sources: SlideDocumentSource[] }> => {
+  if (!presentation) {
+    return { sourceContext: "", sources: [] };
+  }
+  const index = await resolveDocumentSearchIndex(owner, presentation);
+  const documents = retrieveDocumentContext(index, query);
+  const fullSource = buildFullSourceContent(
+    presentation.content || "",
+    documents.content,
+  );
+  if (!fullSource.trim()) {
+    return { sourceContext: "", sources: documents.sources };
+  }
+  return {
+    sourceContext: `## ORIGINAL PITCH DECK SOURCE (Reference for accurate data and context):
+${fullSource}
+
+`,
+    sources: documents.sources,
+  };
+};
+
+/**
+ * Adds the document passages used by an edit to a slide's earlier ones.
+ *
+ * @param existing - The slide's current document sources, or null.
+ * @param added - Passages used by the edit.
+ * @returns Sources without duplicates, or null if there are none.
+ */
+const mergeDocumentSources = (
+  existing: SlideDocumentSource[] | null,
+  added: SlideDocumentSource[],
+): SlideDocumentSource[] | null => {
+  const merged = [...(existing ?? [])];
+  for (const source of added) {
+    if (!merged.some((item) => item.chunk_id === source.chunk_id)) {
+      merged.push(source);
+    }
+  }
+  return merged.length > 0 ? merged : null;
+};
+
 /**
  * Handles POST requests to edit slide JSON content using AI.
  *
@@ -136,10 +285,12 @@ type HtmlEditPayload = {
  *
  * The function:
  * 1. Fetches the slide and its parent presentation
- * 2. Builds context from the original presentation source (prompt + documents)
+ * 2. Builds context from the original prompt, the document passages
+ *    relevant to the edit and the presentation's key facts
  * 3. Sends current slide content and edit instruction to LLM
  * 4. Updates the slide with the modified content
  * 5. Preserves speaker notes if present in the generated content
+ * 6. Records the edit in the slide's revision history ("ai_edit")
  *
  * Request body:
  * - `id` (required): Unique identifier of the slide to edit
@@ -150,13 +301,15 @@ type HtmlEditPayload = {
  * - Preserve JSON structure exactly
  * - Use accurate data from the original source document
  * - Keep text concise and impactful
+ * - Write in the presentation's language and tone, within the character
+ *   limits of its verbosity
  *
  * @param request - The HTTP request object containing slide edit data.
  * @returns A JSON response containing the updated slide object with modified content.
  *
  * @throws Returns error responses for:
  *   - 400: Missing required `id` field
- *   - 404: Slide not found
+ *   - 404: Slide not found or owned by another user
  *
  * @example
  * ```typescript
@@ -172,43 +325,31 @@ export const handleSlideEdit = async (request: Request) => {
   if (!slideId) {
     return errorResponse("id is required");
   }
-  const slide = await getSlideById(slideId);
+  const owner = requireRequestOwner();
+  const slide = await getSlideById(owner, slideId);
   if (!slide) {
     return errorResponse("Slide not found", 404);
   }
 
-  // Get original presentation info and document content
-  const presentation = await getPresentationById(slide.presentation);
-  let sourceContext = "";
-
-  if (presentation) {
-    const documentContent = presentation.document_content || "";
-    const userContent = presentation.content || "";
-
-    // Combine user prompt and document content to create original context
-    const fullSource = [userContent, documentContent]
-      .filter(Boolean)
-      .join("\n\n---\n\n");
-
-    if (fullSource.trim()) {
-      // Truncate if too long (approx 50,000 character limit)
-      const maxLength = 50000;
-      const truncatedSource =
-        fullSource.length > maxLength
-          ? fullSource.substring(0, maxLength) +
-            "\n\n[... content truncated ...]"
-          : fullSource;
-
-      sourceContext = `## ORIGINAL PITCH DECK SOURCE (Reference for accurate data and context):
-${truncatedSource}
-
-`;
-    }
-  }
+  // Get original presentation info and the document passages for the edit
+  const presentation = await getPresentationById(owner, slide.presentation);
+  const settings = getGenerationSettings(presentation);
+  const { sourceContext, sources } = await buildEditSourceContext(
+    owner,
+    presentation,
+    `${body.prompt}\n${JSON.stringify(slide.content)}`,
+  );
 
   try {
-    const userPrompt = `${sourceContext}## CURRENT SLIDE JSON:
-${JSON.stringify(slide.content, null, 2)}
+    const budget = getCharacterBudget(settings);
+    const userPrompt = `${sourceContext}${buildKeyFactsSection(
+      presentation?.key_facts ?? null,
+    )}${buildStyleSection(settings)}## CURRENT SLIDE JSON:
+${JSON.stringify(
+  { ...slide.content, [SPEAKER_NOTE_FIELD]: slide.speaker_note || "" },
+  null,
+  2,
+)}
 
 ## USER'S EDIT REQUEST:
 ${body.prompt}
@@ -217,29 +358,43 @@ ${body.prompt}
 1. Apply the user's requested changes to the slide content
 2. If the source document contains relevant data, use accurate numbers and facts from it
 3. Maintain the exact JSON structure - do not add or remove fields
-4. Keep all text in professional American English
-5. Ensure headlines are impactful (max 8 words)
-6. Keep bullet points concise (max 10 words each)
-7. Return ONLY the modified JSON object`;
+4. ${buildLanguageRule(settings)}
+5. Ensure headlines are impactful (max ${budget.headline} chars)
+6. Keep bullet points concise (max ${budget.bullet} chars each)
+7. Update "${SPEAKER_NOTE_FIELD}" (the speaker notes) so it matches the edited slide; keep it as it is if the edit does not affect it
+8. Return ONLY the modified JSON object`;
 
     const updatedContent = await generateJson(
-      editSlideSystemPrompt,
+      buildEditSlideSystemPrompt(settings),
       userPrompt,
+      "edit",
+    );
+    const { content, speakerNote } = extractSpeakerNote(
+      updatedContent as Record<string, unknown>,
     );
+    // Keep the pre-edit state restorable if the slide has no history yet
+    await trackSlideRevisions(owner, slide.presentation, [slide], "original");
     // Replace while keeping existing slide ID (prevent new addition)
-    const updatedSlide = await upsertSlide({
+    const updatedSlide = await upsertSlide(owner, {
       id: slide.id,
       presentation: slide.presentation,
       layout_group: slide.layout_group,
       layout: slide.layout,
       slide_index: slide.slide_index,
-      speaker_note:
-        (
-          updatedContent as Record<string, unknown>
-        ).__speaker_note__?.toString() || slide.speaker_note,
-      content: updatedContent as Record<string, unknown>,
+      speaker_note: speakerNote || slide.speaker_note,
+      content,
       html_content: slide.html_content,
+      sources: slide.sources,
+      document_sources: mergeDocumentSources(slide.document_sources, sources),
     });
+    if (updatedSlide) {
+      await trackSlideRevisions(
+        owner,
+        slide.presentation,
+        [updatedSlide],
+        "ai_edit",
+      );
+    }
     return jsonResponse(updatedSlide);
   } catch (error) {
     console.error("Slide edit failed:", error);
@@ -247,12 +402,385 @@ ${body.prompt}
   }
 };
 
+/**
+ * Rewrites the fields of migrated slide content that still hold a layout's
+ * sample content.
+ *
+ * The LLM sees the slide's previous content, the migrated content and the
+ * new layout's schema, and returns only the listed fields. Fields it does
+ * not return, or all of them if the call fails, keep the sample content.
+ *
+ * @param owner - ID of the user the presentation belongs to.
+ * @param presentation - The slide's presentation, or null.
+ * @param slide - The slide before the layout change.
+ * @param migrated - Content migrated to the new layout.
+ * @param schema - JSON schema of the new layout.
+ * @param missing - Fields of `migrated` to rewrite.
+ * @returns The content with the rewritten fields and the document passages
+ *   used.
+ */
+const fillMigratedFields = async (
+  owner: string,
+  presentation: Awaited<ReturnType<typeof getPresentationById>>,
+  slide: SlideRecord,
+  migrated: Record<string, unknown>,
+  schema: MigrationSchema | undefined,
+  missing: string[],
+): Promise<{
+  content: Record<string, unknown>;
+  sources: SlideDocumentSource[];
+}> => {
+  const content = { ...migrated };
+  const properties = schema?.properties ?? {};
+  const fields = missing.filter((key) => key in properties && key in content);
+  if (fields.length === 0) {
+    return { content, sources: [] };
+  }
+
+  const settings = getGenerationSettings(presentation);
+  const { sourceContext, sources } = await buildEditSourceContext(
+    owner,
+    presentation,
+    JSON.stringify(slide.content),
+  );
+
+  try {
+    const userPrompt = `${sourceContext}${buildKeyFactsSection(
+      presentation?.key_facts ?? null,
+    )}${buildStyleSection(settings)}## PREVIOUS SLIDE JSON (old layout):
+${JSON.stringify(slide.content, null, 2)}
+
+## NEW SLIDE JSON (new layout, content carried over):
+${JSON.stringify(content, null, 2)}
+
+## NEW LAYOUT SCHEMA:
+${JSON.stringify(schema, null, 2)}
+
+## INSTRUCTIONS:
+1. The slide moved to a new layout. These fields of the new slide JSON still hold placeholder sample content: ${fields.join(", ")}
+2. Rewrite ONLY those fields so they present the previous slide's message in the new layout
+3. Use facts from the previous slide and the source document; do not invent numbers that appear in neither
+4. Follow the schema of each field exactly (types, lengths, item counts)
+5. ${buildLanguageRule(settings)}
+6. Return ONLY a JSON object with the listed fields`;
+
+    const generated = (await generateJson(
+      buildEditSlideSystemPrompt(settings),
+      userPrompt,
+      "edit",
+    )) as Record<string, unknown>;
+    for (const key of fields) {
+      if (generated[key] !== undefined && generated[key] !== null) {
+        content[key] = generated[key];
+      }
+    }
+  } catch (error) {
+    console.error("Layout change fill failed:", error);
+  }
+  return { content, sources };
+};
+
+/**
+ * Handles POST requests to move a slide to another layout.
+ *
+ * The editor migrates the slide's content to the new layout's schema
+ * (migrateSlideContent) and sends the result. Fields nothing mapped to
+ * still hold the layout's sample content; those are rewritten by the LLM
+ * from the slide's previous content and the presentation's sources. If the
+ * LLM fails, the slide keeps the sample content for them.
+ *
+ * The change is recorded in the slide's revision history ("layout_change"),
+ * so restoring the revision before it brings back the old layout. It is
+ * saved against the slide version it is based on, so an edit saved while
+ * the LLM filled the fields is not overwritten.
+ *
+ * Request body:
+ * - `layout` (required): Layout ID, e.g. "data-driven:data-driven-traction",
+ *   from the presentation's template
+ * - `content` (required): Content migrated to the new layout
+ * - `layout_group`: Template of the layout (defaults to the current one)
+ * - `json_schema`: JSON schema of the new layout, for the LLM
+ * - `missing`: Fields of `content` to rewrite with the LLM
+ * - `version` (optional): Slide version the change is based on (or
+ *   `If-Match` header); defaults to the version read when the request
+ *   arrives
+ *
+ * @param request - The HTTP request object containing the layout change.
+ * @param slideId - The unique identifier of the slide.
+ * @returns A JSON response containing the updated slide, with its version
+ *   as ETag.
+ *
+ * @throws Returns error responses for:
+ *   - 400: Missing `layout` or `content`, or a layout that is not part of
+ *     the presentation's template
+ *   - 404: Slide not found or owned by another user
+ *   - 409: Slide changed since `version` or while the fields were filled;
+ *     the body's `current` holds it
+ *
+ * @example
+ * ```typescript
+ * // Request: POST /api/v1/slides/slide-123/layout
+ * // Body: { layout: "data-driven:data-driven-traction", content: { ... },
+ * //         json_schema: { ... }, missing: ["chartData"] }
+ * // Response: { id: "slide-123", layout: "data-driven:data-driven-traction", ... }
+ * ```
+ */
+export const handleSlideLayoutChange = async (
+  request: Request,
+  slideId: string,
+) => {
+  const body = (await request.json()) as SlideLayoutChangePayload;
+  if (!body.layout || !body.content || typeof body.content !== "object") {
+    return errorResponse("layout and content are required");
+  }
+  const owner = requireRequestOwner();
+  const slide = await getSlideById(owner, slideId);
+  if (!slide) {
+    return errorResponse("Slide not found", 404);
+  }
+
+  const presentation = await getPresentationById(owner, slide.presentation);
+  const layouts = (presentation?.layout as LayoutPayload | null)?.slides ?? [];
+  if (!layouts.some((layout) => layout.id === body.layout)) {
+    return errorResponse("layout is not part of the presentation's template");
+  }
+  const expectedVersion =
+    readExpectedVersion(request, body.version) ?? slide.version;
+  // Checked again when writing; failing early saves the LLM call
+  if (expectedVersion !== slide.version) {
+    return conflictResponse(
+      "The slide was changed since you loaded it",
+      slide,
+      slide.version,
+    );
+  }
+
+  const { content, sources } = await fillMigratedFields(
+    owner,
+    presentation,
+    slide,
+    body.content,
+    body.json_schema,
+    body.missing ?? [],
+  );
+
+  // Keep the pre-change state restorable if the slide has no history yet
+  await trackSlideRevisions(owner, slide.presentation, [slide], "original");
+  // An edit saved while the fields were filled is not overwritten
+  const status = await updateSlide(owner, slide.id, expectedVersion, {
+    layout: body.layout,
+    layout_group: body.layout_group || slide.layout_group,
+    content,
+    document_sources: mergeDocumentSources(slide.document_sources, sources),
+  });
+  const updatedSlide = await getSlideById(owner, slide.id);
+  if (!status || !updatedSlide) {
+    return errorResponse("Slide not found", 404);
+  }
+  if (status === "conflict") {
+    return conflictResponse(
+      "The slide was changed while its new layout was being filled",
+      updatedSlide,
+      updatedSlide.version,
+    );
+  }
+  await trackSlideRevisions(
+    owner,
+    slide.presentation,
+    [updatedSlide],
+    "layout_change",
+  );
+  return versionedResponse(updatedSlide, updatedSlide.version);
+};
+
+/**
+ * Handles POST requests to move a whole presentation to another template.
+ *
+ * The editor maps every slide to the equivalent layout of the new template,
+ * migrates its content (migrateSlideContent) and sends the result after
+ * the user confirmed the preview. For each slide, fields nothing mapped to
+ * are rewritten by the LLM (as in handleSlideLayoutChange), then the slide
+ * gets its new layout, `layout_group` and content. The presentation's
+ * `layout` becomes the new template and its `structure` the new layout of
+ * each slide, so regenerating the deck keeps the template.
+ *
+ * Each changed slide is recorded in its revision history as
+ * "layout_change". The presentation and its slides are written together:
+ * if the presentation or any slide changed since it was read, nothing is
+ * changed and the response is a 409.
+ *
+ * Request body:
+ * - `layout` (required): The new template, `{ name, ordered, slides }`
+ * - `slides` (required): One entry per slide, `{ id, layout, content,
+ *   missing }`, where `layout` is one of `layout.slides`
+ * - `version` (optional): Presentation version the change is based on (or
+ *   `If-Match` header)
+ *
+ * @param request - The HTTP request object containing the new template.
+ * @param presentationId - The unique identifier of the presentation.
+ * @returns A JSON response with the updated presentation and all its
+ *   slides, with the presentation's version as ETag.
+ *
+ * @throws Returns error responses for:
+ *   - 400: Missing layout or slides, a slide without an entry, or a layout
+ *     that is not part of the template
+ *   - 404: Presentation not found
+ *   - 409: Presentation changed since `version`, or a slide changed while
+ *     the new layouts were being filled
+ *
+ * @example
+ * ```typescript
+ * // Request: POST /api/v1/presentations/abc-123/template
+ * // Body: { layout: { name: "vision-bold", ordered: false, slides: [...] },
+ * //         slides: [{ id: "slide-1", layout: "vision-bold:vision-bold-intro",
+ * //                    content: { ... }, missing: [] }, ...] }
+ * // Response: { presentation: { ... }, slides: [...] }
+ * ```
+ */
+export const handlePresentationTemplateChange = async (
+  request: Request,
+  presentationId: string,
+) => {
+  const body = (await request
+    .json()
+    .catch(() => null)) as TemplateChangePayload | null;
+  const layoutSlides = body?.layout?.slides ?? [];
+  if (!body?.layout || layoutSlides.length === 0) {
+    return errorResponse("layout is required");
+  }
+  if (!Array.isArray(body.slides)) {
+    return errorResponse("slides are required");
+  }
+
+  const owner = requireRequestOwner();
+  const presentation = await getPresentationById(owner, presentationId);
+  if (!presentation) {
+    return errorResponse("Presentation not found", 404);
+  }
+
+  const slides = await listSlidesByPresentation(owner, presentationId);
+  const entries = new Map(
+    body.slides.flatMap((entry) => (entry?.id ? [[entry.id, entry]] : [])),
+  );
+  const changes = [];
+  for (const slide of slides) {
+    const entry = entries.get(slide.id);
+    const layoutIndex = layoutSlides.findIndex(
+      (layout) => layout.id !== undefined && layout.id === entry?.layout,
+    );
+    if (!entry?.content || layoutIndex < 0) {
+      return errorResponse(
+        `Slide ${slide.slide_index + 1} needs a layout of the new template`,
+      );
+    }
+    changes.push({ slide, entry, layoutIndex });
+  }
+
+  const structure: PresentationStructure = {
+    slides: changes.map(({ layoutIndex }) => layoutIndex),
+    layouts: changes.map(({ entry, layoutIndex }) => ({
+      index: layoutIndex,
+      layout_id: entry.layout ?? null,
+      source: "user",
+    })),
+  };
+  const expectedVersion =
+    readExpectedVersion(request, body.version) ?? presentation.version;
+  // Checked again when writing; failing early saves the LLM calls
+  if (presentation.version !== expectedVersion) {
+    return conflictResponse(
+      "The presentation was changed since you loaded it",
+      presentation,
+      presentation.version,
+    );
+  }
+
+  // Fill the fields nothing mapped to, a few slides at a time
+  const filled = new Map<
+    string,
+    Awaited<ReturnType<typeof fillMigratedFields>>
+  >();
+  const queue = [...changes];
+  const workers = Array.from(
+    { length: Math.min(MAX_STREAM_SLIDE_CONCURRENCY, queue.length) },
+    async () => {
+      for (let next = queue.shift(); next; next = queue.shift()) {
+        filled.set(
+          next.slide.id,
+          await fillMigratedFields(
+            owner,
+            presentation,
+            next.slide,
+            next.entry.content ?? {},
+            layoutSlides[next.layoutIndex].json_schema as MigrationSchema,
+            next.entry.missing ?? [],
+          ),
+        );
+      }
+    },
+  );
+  await Promise.all(workers);
+
+  await trackSlideRevisions(owner, presentationId, slides, "original");
+  // Slides edited in the meantime keep their edit and the deck its template
+  const status = await applyPresentationTemplate(
+    owner,
+    presentationId,
+    expectedVersion,
+    { layout: body.layout, structure },
+    changes.map(({ slide, entry }) => {
+      const { content, sources } = filled.get(slide.id) ?? {
+        content: entry.content ?? {},
+        sources: [],
+      };
+      return {
+        id: slide.id,
+        version: slide.version,
+        data: {
+          layout: entry.layout,
+          layout_group: entry.layout?.split(":")[0],
+          content,
+          document_sources: mergeDocumentSources(
+            slide.document_sources,
+            sources,
+          ),
+        },
+      };
+    }),
+  );
+  const current = await getPresentationById(owner, presentationId);
+  if (!status || !current) {
+    return errorResponse("Presentation not found", 404);
+  }
+  if (status === "conflict") {
+    return conflictResponse(
+      "Slides were changed while the template was being applied. Please try again.",
+      current,
+      current.version,
+    );
+  }
+
+  const updatedSlides = await listSlidesByPresentation(owner, presentationId);
+  await trackSlideRevisions(
+    owner,
+    presentationId,
+    updatedSlides,
+    "layout_change",
+  );
+
+  return versionedResponse(
+    { presentation: current, slides: updatedSlides },
+    current.version,
+  );
+};
+
 /**
  * Handles POST requests to edit slide HTML content using AI.
  *
  * Similar to handleSlideEdit but works with HTML content instead of JSON.
  * Takes a slide's HTML content and a user's edit instruction, then uses an
  * LLM to modify the HTML while maintaining structure and semantic correctness.
+ * The edit is recorded in the slide's revision history ("ai_edit_html").
  *
  * Request body:
  * - `id` (required): Unique identifier of the slide to edit
@@ -264,7 +792,7 @@ ${body.prompt}
  *
  * @throws Returns error responses for:
  *   - 400: Missing required fields or no HTML content available
- *   - 404: Slide not found
+ *   - 404: Slide not found or owned by another user
  */
 export const handleSlideEditHtml = async (request: Request) => {
   const body = (await request.json()) as SlideEditHtmlPayload;
@@ -272,7 +800,8 @@ export const handleSlideEditHtml = async (request: Request) => {
   if (!slideId) {
     return errorResponse("id is required");
   }
-  const slide = await getSlideById(slideId);
+  const owner = requireRequestOwner();
+  const slide = await getSlideById(owner, slideId);
   if (!slide) {
     return errorResponse("Slide not found", 404);
   }
@@ -280,36 +809,19 @@ export const handleSlideEditHtml = async (request: Request) => {
     return errorResponse("No HTML to edit");
   }
 
-  // Get original presentation info and document content
-  const presentation = await getPresentationById(slide.presentation);
-  let sourceContext = "";
-
-  if (presentation) {
-    const documentContent = presentation.document_content || "";
-    const userContent = presentation.content || "";
-
-    const fullSource = [userContent, documentContent]
-      .filter(Boolean)
-      .join("\n\n---\n\n");
-
-    if (fullSource.trim()) {
-      const maxLength = 50000;
-      const truncatedSource =
-        fullSource.length > maxLength
-          ? fullSource.substring(0, maxLength) +
-            "\n\n[... content truncated ...]"
-          : fullSource;
-
-      sourceContext = `## ORIGINAL PITCH DECK SOURCE (Reference for accurate data and context):
-${truncatedSource}
-
-`;
-    }
-  }
+  // Get original presentation info and the document passages for the edit
+  const presentation = await getPresentationById(owner, slide.presentation);
+  const settings = getGenerationSettings(presentation);
+  const html = body.html || slide.html_content || "";
+  const { sourceContext, sources } = await buildEditSourceContext(
+    owner,
+    presentation,
+    `${body.prompt}\n${html.replace(/<[^>]*>/g, " ")}`,
+  );
 
   try {
     const userPrompt = `${sourceContext}## CURRENT HTML:
-${body.html || slide.html_content}
+${html}
 
 ## EDIT REQUEST:
 ${body.prompt}
@@ -320,16 +832,27 @@ ${body.prompt}
 3. Preserve the overall structure and CSS classes
 4. Keep the HTML clean and semantic
 5. Ensure proper tag nesting and closing
-6. Return ONLY the modified HTML, no code blocks or explanation`;
+6. ${buildLanguageRule(settings)}
+7. Return ONLY the modified HTML, no code blocks or explanation`;
 
-    const html = await generateText(htmlEditSystemPrompt, userPrompt);
+    const editedHtml = await generateText(htmlEditSystemPrompt, userPrompt);
+    await trackSlideRevisions(owner, slide.presentation, [slide], "original");
     // Replace while keeping existing slide ID (prevent new addition)
-    const updated = await upsertSlide({
+    const updated = await upsertSlide(owner, {
       ...slide,
       id: slide.id,
-      html_content: html,
+      html_content: editedHtml,
       content: slide.content,
+      document_sources: mergeDocumentSources(slide.document_sources, sources),
     });
+    if (updated) {
+      await trackSlideRevisions(
+        owner,
+        slide.presentation,
+        [updated],
+        "ai_edit_html",
+      );
+    }
     return jsonResponse(updated);
   } catch (error) {
     console.error("Slide HTML edit failed:", error);
@@ -337,6 +860,74 @@ ${body.prompt}
   }
 };
 
+/**
+ * Handles GET requests to list a slide's revision history.
+ *
+ * Revisions are snapshots of the slide after each generation, AI edit,
+ * autosave, import or restore, newest first. Each includes the full content
+ * so clients can diff any two revisions.
+ *
+ * @param slideId - The unique identifier of the slide.
+ * @returns A JSON response containing `{ revisions: SlideRevisionRecord[] }`
+ *   (empty if the slide has no history or belongs to another user).
+ *
+ * @example
+ * ```typescript
+ * // Request: GET /api/v1/ppt/slide/revisions/slide-123
+ * // Response: { revisions: [{ id: "...", source: "ai_edit", ... }, ...] }
+ * ```
+ */
+export const handleSlideRevisions = async (slideId: string) => {
+  const owner = requireRequestOwner();
+  const revisions = await listSlideRevisions(owner, slideId);
+  return jsonResponse({ revisions });
+};
+
+/**
+ * Handles POST requests to restore a slide to an earlier revision.
+ *
+ * Writes the revision's layout, content, speaker notes and HTML back to the
+ * slide and records the result as a new "restore" revision, so the restore
+ * itself can be undone from the history.
+ *
+ * @param revisionId - The unique identifier of the revision to restore.
+ * @returns A JSON response containing the updated slide.
+ *
+ * @throws Returns error responses for:
+ *   - 404: Revision not found, or its slide no longer exists
+ *
+ * @example
+ * ```typescript
+ * // Request: POST /api/v1/ppt/slide/restore/revision-456
+ * // Response: { id: "slide-123", content: { ... }, ... }
+ * ```
+ */
+export const handleSlideRevisionRestore = async (revisionId: string) => {
+  const owner = requireRequestOwner();
+  const revision = await getSlideRevision(owner, revisionId);
+  if (!revision) {
+    return errorResponse("Revision not found", 404);
+  }
+  const slide = await getSlideById(owner, revision.slide_id);
+  if (!slide) {
+    return errorResponse("Slide not found", 404);
+  }
+
+  await trackSlideRevisions(owner, slide.presentation, [slide], "original");
+  const restored = await upsertSlide(owner, {
+    ...slide,
+    layout: revision.layout,
+    content: revision.content,
+    speaker_note: revision.speaker_note,
+    html_content: revision.html_content,
+  });
+  if (!restored) {
+    return errorResponse("Slide not found", 404);
+  }
+  await trackSlideRevisions(owner, slide.presentation, [restored], "restore");
+  return jsonResponse(restored);
+};
+
 /**
  * Handles POST requests to convert slide image/OXML data to HTML.
  *
@@ -6,6 +6,8 @@ import {
   upsertTemplate,
   getTemplateById,
 } from "@/server/db/templates";
+import { requireRequestOwner } from "@/server/auth";
+import { validateLayoutCode } from "@/utils/layout-sandbox";
 
 import { errorResponse, jsonResponse } from "../utils/responses";
 
@@ -49,7 +51,7 @@ type TemplateMetaPayload = {
 /**
  * Handles GET requests to retrieve a summary of all templates.
  *
- * Returns aggregated statistics about templates including:
+ * Returns aggregated statistics about the current user's templates including:
  * - Total number of templates
  * - Total number of layouts across all templates
  * - For each template: ID, name, description, layout count, last updated time
@@ -82,10 +84,11 @@ type TemplateMetaPayload = {
  */
 export const handleTemplateSummary = async () => {
   try {
-    const templatesList = await listTemplates();
+    const owner = requireRequestOwner();
+    const templatesList = await listTemplates(owner);
     const presentations = await Promise.all(
       templatesList.map(async (template) => {
-        const layouts = await listLayoutCodesByPresentation(template.id);
+        const layouts = await listLayoutCodesByPresentation(owner, template.id);
         const lastUpdated = layouts.reduce((latest, layout) => {
           return layout.updated_at > latest ? layout.updated_at : latest;
         }, template.created_at);
@@ -160,10 +163,11 @@ export const handleTemplateSummary = async () => {
  */
 export const handleTemplateGet = async (presentationId: string) => {
   try {
+    const owner = requireRequestOwner();
     // Fetch all layouts (component code) for this template
-    const layouts = await listLayoutCodesByPresentation(presentationId);
+    const layouts = await listLayoutCodesByPresentation(owner, presentationId);
     // Fetch template metadata
-    const template = await getTemplateById(presentationId);
+    const template = await getTemplateById(owner, presentationId);
     
     // Extract and deduplicate fonts from all layouts
     // Layouts may have fonts arrays, so we flatten and deduplicate
@@ -220,7 +224,7 @@ export const handleTemplateGet = async (presentationId: string) => {
 export const handleTemplateDelete = async (presentationId: string) => {
   try {
     // Delete all layouts for this template
-    await deleteLayoutsByPresentation(presentationId);
+    await deleteLayoutsByPresentation(requireRequestOwner(), presentationId);
     return jsonResponse({ success: true });
   } catch (error) {
     console.error("Failed to delete template:", error);
@@ -245,13 +249,19 @@ export const handleTemplateDelete = async (presentationId: string) => {
  *
  * The function uses upsert (insert or update) semantics, so calling it
  * multiple times with the same layout_id will update the existing layout.
+ * Layout code is checked against the layout sandbox rules first; if any
+ * layout references forbidden globals, modules or properties, nothing is saved.
  *
  * @param request - The HTTP request object containing layout data in the body.
  * @returns A JSON response containing:
  *   - `success`: Boolean indicating operation success
  *   - `saved_count`: Number of layouts that were saved/updated
  *
- * @throws Returns a 500 error response if save operation fails.
+ * @throws Returns error responses for:
+ *   - 400: A layout's code violates the sandbox rules (e.g. uses `window`,
+ *     `document`, `fetch` or imports other than react/arktype/recharts)
+ *   - 404: A layout targets a presentation that does not belong to the user
+ *   - 500: Save operation failed
  *
  * @example
  * ```typescript
@@ -273,10 +283,22 @@ export const handleTemplateSave = async (request: Request) => {
     const body = (await request.json()) as TemplateSavePayload;
     // Ensure layouts is an array (default to empty if not provided)
     const layouts = Array.isArray(body.layouts) ? body.layouts : [];
-    
+
+    // Reject unsafe layout code before anything is persisted
+    for (const layout of layouts) {
+      const violations = validateLayoutCode(layout.layout_code ?? "");
+      if (violations.length) {
+        return errorResponse(
+          `Layout "${layout.layout_name || layout.layout_id}" was rejected: ${violations.join("; ")}`,
+          400,
+        );
+      }
+    }
+
     // Upsert (insert or update) all layouts
     // Each layout gets a composite ID: presentation-layout_id
     const records = await upsertLayoutCodes(
+      requireRequestOwner(),
       layouts.map((layout) => ({
         id: `${layout.presentation}-${layout.layout_id}`,
         presentation: layout.presentation,
@@ -286,6 +308,9 @@ export const handleTemplateSave = async (request: Request) => {
         fonts: layout.fonts || null,
       })),
     );
+    if (!records) {
+      return errorResponse("Presentation not found", 404);
+    }
     return jsonResponse({ success: true, saved_count: records.length });
   } catch (error) {
     console.error("Failed to save template:", error);
@@ -319,6 +344,7 @@ export const handleTemplateSave = async (request: Request) => {
  *
  * @throws Returns error responses for:
  *   - 400: Missing required `id` or `name` fields
+ *   - 404: The ID belongs to another user's template
  *   - 500: Database save operation failed
  *
  * @example
@@ -352,13 +378,16 @@ export const handleTemplateMeta = async (request: Request) => {
         : null;
     
     // Upsert template metadata
-    const template = await upsertTemplate({
+    const template = await upsertTemplate(requireRequestOwner(), {
       id: body.id,
       name: body.name,
       description: body.description || null,
       ordered: Boolean(body.ordered), // Convert to boolean explicitly
       slides,
     });
+    if (!template) {
+      return errorResponse("Template not found", 404);
+    }
     return jsonResponse({ success: true, template });
   } catch (error) {
     console.error("Failed to save template meta:", error);
@@ -6,6 +6,8 @@
  * used in Server-Sent Events (SSE) streaming, delta parsing, and content generation.
  */
 
+import type { SlideDocumentSource, SlideSource } from "@/types/slide";
+
 /**
  * Represents a single slide outline (high-level description).
  *
@@ -16,6 +18,12 @@
 export type Outline = {
   /** Text description of the slide content (e.g., "INTRO: Company tagline"). */
   content: string;
+  /**
+   * ID of the slide generated from this outline, set when the deck's slides
+   * are created. Outlines stay in generation order, so slides added,
+   * removed or reordered later are matched to their outline by this ID.
+   */
+  slide_id?: string;
 };
 
 /**
@@ -27,6 +35,10 @@ export type Outline = {
 export type LayoutSlide = {
   /** Unique identifier for this layout slide (e.g., "layout-1"). */
   id?: string;
+  /** Human-readable layout name (e.g., "Team Slide"). */
+  name?: string;
+  /** Short description of what the layout is designed to show. */
+  description?: string;
   /**
    * JSON schema defining the structure of slide content.
    * This schema is used to generate placeholder content and validate
@@ -54,6 +66,38 @@ export type LayoutPayload = {
   slides?: LayoutSlide[];
 };
 
+/**
+ * How a slide's layout was chosen.
+ * - `llm`: Picked by the layout-planning LLM call
+ * - `keyword`: Picked by the deterministic keyword matcher
+ * - `user`: Overridden by the user in the outline editor
+ */
+export type LayoutChoiceSource = "llm" | "keyword" | "user";
+
+/**
+ * Layout chosen for a single slide, as stored in `presentation.structure`.
+ */
+export type LayoutChoice = {
+  /** Index into `LayoutPayload.slides`. */
+  index: number;
+  /** ID of the chosen layout slide, or null if the layout has no ID. */
+  layout_id: string | null;
+  /** How the layout was chosen. */
+  source: LayoutChoiceSource;
+};
+
+/**
+ * Slide-to-layout mapping persisted in `presentation.structure`.
+ *
+ * `slides` holds one layout index per outline and is what generation reads.
+ * `layouts` carries the same choices with layout IDs and their source so the
+ * outline editor can show and restore per-slide overrides.
+ */
+export type PresentationStructure = {
+  slides: number[];
+  layouts?: LayoutChoice[];
+};
+
 /**
  * Represents a complete slide with all its content and metadata.
  *
@@ -79,6 +123,10 @@ export type SlideResponse = {
    * Contains all text, images, charts, and other content for the slide.
    */
   content: Record<string, unknown>;
+  /** Web sources the content was researched from (when web search is enabled). */
+  sources?: SlideSource[] | null;
+  /** Uploaded document passages the content was generated from. */
+  document_sources?: SlideDocumentSource[] | null;
 };
 
 /**
@@ -102,6 +150,10 @@ export type SlideUpdatePayload = {
   content?: Record<string, unknown>;
   /** HTML representation of the slide (for preview/export). */
   html_content?: string | null;
+  /** Web sources cited by the slide. */
+  sources?: SlideSource[] | null;
+  /** Uploaded document passages the slide was generated from. */
+  document_sources?: SlideDocumentSource[] | null;
 };
 
 /**
@@ -2,6 +2,7 @@ import { jsonrepair } from "jsonrepair";
 import { generateImageFromPrompt } from "@/server/images";
 import { generateJson, generateJsonStream } from "@/server/llm";
 import { buildDataFromSchema } from "@/server/schema";
+import type { KeyFact } from "@/types/presentation";
 import { toAppDataUrl } from "./storage";
 import {
   ImageField,
@@ -14,6 +15,16 @@ import {
   TRANSPARENT_IMAGE_DATA_URL,
 } from "./constants";
 import { createSlideDeltaParser } from "./delta-parsers";
+import {
+  buildCharacterLimits,
+  buildLanguageRule,
+  buildSpeakerNoteRule,
+  buildStyleSection,
+  GenerationSettings,
+  getCharacterBudget,
+  getGenerationSettings,
+} from "./generation-settings";
+import { buildKeyFactsSection } from "./key-facts";
 
 /**
  * Sanitizes and repairs malformed JSON from LLM responses.
@@ -53,8 +64,13 @@ export const sanitizeAndRepairJson = (input: string): string => {
 /**
  * Production-grade system prompt for pitch deck outline generation
  * Modern enterprise style (Toss/OpenAI/Chronicle) for US VC audience
+ *
+ * @param settings - Generation settings of the presentation (language).
+ * @returns The system prompt.
  */
-const OUTLINES_SYSTEM_PROMPT = `You are a YC Group Partner reviewing pitch decks. Generate outlines that would pass YC and 500 Startups screening.
+export const buildOutlinesSystemPrompt = (
+  settings: GenerationSettings,
+): string => `You are a YC Group Partner reviewing pitch decks. Generate outlines that would pass YC and 500 Startups screening.
 
 ## DESIGN PHILOSOPHY
 1. ONE NUMBER PER SLIDE - Each slide has ONE hero metric
@@ -77,6 +93,7 @@ const OUTLINES_SYSTEM_PROMPT = `You are a YC Group Partner reviewing pitch decks
 3. SOLUTION - "We [verb] X" + 3 outcomes
    VC looks for: Does it directly solve the problem?
    Outline example: "SOLUTION: We connect brands to buyers - 3x faster sourcing, verified quality, zero inventory risk"
+   For platforms and network effects, name the loop or layers so the slide can show a flywheel or architecture diagram
 
 4. MARKET - TAM as hero + SAM/SOM
    VC looks for: Is it big enough? Bottom-up math?
@@ -109,6 +126,11 @@ const OUTLINES_SYSTEM_PROMPT = `You are a YC Group Partner reviewing pitch decks
     VC looks for: Clear ask, specific allocation
     Outline example: "ASK: $2M Seed - 40% product, 35% GTM, 25% ops - target $1M ARR in 18mo"
 
+OPTIONAL - only when the input covers distribution, right after BUSINESS MODEL:
+   GO-TO-MARKET - Channels + one efficiency metric
+   VC looks for: Repeatable acquisition? Efficient CAC?
+   Outline example: "GO-TO-MARKET: Partner-led distribution - 3 accounting firm partners, 40 design partners, 7mo CAC payback"
+
 ## RED FLAGS TO AVOID:
 - Generic taglines ("AI-powered solution")
 - Unrealistic traction ($100M revenue at Seed)
@@ -129,15 +151,22 @@ Return ONLY valid JSON:
 
 CRITICAL:
 - No code fences, no markdown
-- English only. Translate non-English terms; romanize names into Latin characters (no Hangul).
+- ${buildLanguageRule(settings)}
 - Numbers: $48B, $1.8M, 127% (NO ranges)
 - Each outline: 1 sentence with hero element identified`;
 
 /**
  * Production-grade system prompt for slide content generation
  * Modern enterprise style (Toss/OpenAI/Chronicle) for US VC
+ *
+ * The character limits follow the presentation's verbosity (and are halved
+ * for CJK languages); the word counts in the slide-specific rules are for
+ * the standard verbosity and scale with them.
+ *
+ * @param settings - Generation settings of the presentation.
+ * @returns The system prompt.
  */
-const SLIDES_SYSTEM_PROMPT = `You are an elite pitch deck designer creating presentations for US VCs (YC, Sequoia, a16z).
+const buildSlidesSystemPrompt = (settings: GenerationSettings): string => `You are an elite pitch deck designer creating presentations for US VCs (YC, Sequoia, a16z).
 
 CRITICAL: Generate content for ONE SINGLE SLIDE. Return a SINGLE JSON object.
 
@@ -149,12 +178,7 @@ CRITICAL: Generate content for ONE SINGLE SLIDE. Return a SINGLE JSON object.
 5. NO REDUNDANCY - NEVER show the same number/metric twice on one slide (e.g., if hero stat shows "$6.7B", title must NOT include "$6.7B")
 
 ## CHARACTER LIMITS (STRICT)
-- Headlines: 25 chars max
-- Subtitles: 40 chars max (or OMIT entirely)
-- Bullet points: 35 chars each
-- Descriptions: 50 chars max
-- Value fields: 8 chars max ("$48B", "$1.2M", "127%")
-- Total per slide: Under 150 chars
+${buildCharacterLimits(settings)}
 
 ## SLIDE-SPECIFIC RULES:
 
@@ -177,6 +201,13 @@ CRITICAL: Generate content for ONE SINGLE SLIDE. Return a SINGLE JSON object.
 - title: "We [verb] X" format, 5 words max
 - pillars: 3 items, title 2 words, description 8 words
 
+### SOLUTION DIAGRAM
+- diagram.type: "flywheel" for a self-reinforcing loop, "architecture" for product layers, "flowchart" for a process
+- diagram.nodes: 3-6 items, short unique id ("connect"), label 3 words max
+  - architecture: type is the layer name ("Data", "Intelligence", "Apps"), top layer first
+- diagram.edges: from/to are node ids; OMIT for flywheels and simple flows (nodes are joined in order)
+  - edge label: 2 words max, only when it adds meaning
+
 ### MARKET
 - title: 2-3 words ("Market Size", "The Opportunity") - NO specific numbers in title
 - subtitle: OMIT or 5 words max, NO sentences, NO numbers
@@ -200,6 +231,12 @@ CRITICAL: Generate content for ONE SINGLE SLIDE. Return a SINGLE JSON object.
   - notes: 4 words max
 - unitEconomics: realistic for stage
 
+### GO-TO-MARKET
+- strategy: 1 sentence, 15 words max
+- playbook.type: "process" for funnel steps in order, "stats" for channel metrics, "list" for channels
+- playbook.items: 3 items, title 3 words max, value 8 chars max ("40 logos", "7 mo"), description 6 words max
+- channelMix: OMIT unless the outline gives a channel split; values are percentages summing to 100
+
 ### COMPETITION
 - positioning: 1 sentence, 12 words max
 - competitors: 3 items, strength/gap 3 words each
@@ -233,7 +270,7 @@ CRITICAL: Generate content for ONE SINGLE SLIDE. Return a SINGLE JSON object.
 - Return SINGLE flat JSON matching schema
 - Do NOT wrap in code fences
 - Do NOT use markdown (no asterisks)
-- English only. Translate non-English terms; romanize names into Latin characters (no Hangul).
+- ${buildLanguageRule(settings)}
 - NEVER use number ranges
 - Keep ALL text compact`;
 
@@ -364,6 +401,7 @@ export const buildPlaceholderFromSchema = (schema: SlideSchema): unknown => {
  * - If all retries fail, sets __image_url__ to empty string (template fallback used)
  * - Continues processing other images even if one fails
  *
+ * @param owner - ID of the user the generated images belong to.
  * @param content - Slide content object (potentially nested) containing image fields.
  * @returns Promise that resolves to the same content structure with all
  *   __image_url__ fields populated with actual image URLs (or empty strings
@@ -375,11 +413,12 @@ export const buildPlaceholderFromSchema = (schema: SlideSchema): unknown => {
  *   title: "Slide Title",
  *   heroImage: { __image_prompt__: "sunset over mountains", __image_url__: "" }
  * };
- * const processed = await processImagesInContent(content);
- * // Returns: { title: "Slide Title", heroImage: { __image_url__: "/app_data/images/..." } }
+ * const processed = await processImagesInContent(owner, content);
+ * // Returns: { title: "Slide Title", heroImage: { __image_url__: "/app_data/images/<owner>/..." } }
  * ```
  */
 export const processImagesInContent = async (
+  owner: string,
   content: Record<string, unknown>,
 ): Promise<Record<string, unknown>> => {
   const processValue = async (value: unknown): Promise<unknown> => {
@@ -399,7 +438,7 @@ export const processImagesInContent = async (
 
         for (let attempt = 1; attempt <= maxRetries; attempt++) {
           try {
-            const imageResult = await generateImageFromPrompt(prompt);
+            const imageResult = await generateImageFromPrompt(owner, prompt);
             // Use Supabase URL (https://) as-is, convert local paths
             const imageUrl = imageResult.startsWith("http")
               ? imageResult
@@ -464,6 +503,8 @@ export const processImagesInContent = async (
  * @param documentContent - Extracted text from uploaded files (PDF, DOCX, etc.).
  *   Used as the primary source of information for outline generation.
  * @param nSlides - Target number of slides to generate outlines for.
+ * @param settings - Generation settings of the presentation (language, tone,
+ *   instructions). Defaults to English with the default style.
  * @returns Promise that resolves to an array of Outline objects, each containing
  *   a `content` field with a text description of the slide.
  *
@@ -481,6 +522,7 @@ export const buildOutlines = async (
   promptContent: string,
   documentContent: string,
   nSlides: number,
+  settings: GenerationSettings = getGenerationSettings(null),
 ): Promise<Outline[]> => {
   // If no content at all, return placeholder slides
   if (!promptContent && !documentContent) {
@@ -501,9 +543,10 @@ export const buildOutlines = async (
       userPrompt += `## ADDITIONAL INSTRUCTIONS FROM USER:\n${promptContent}\n\n`;
     }
 
+    userPrompt += buildStyleSection(settings);
     userPrompt += `## REQUIREMENTS (Modern Toss/OpenAI Style):
 - Number of slides: ${nSlides}
-- Language: English (US)
+- Language: ${settings.language.name}
 - Audience: US Venture Capital investors (Sequoia, a16z, YC)
 
 ## CRITICAL INSTRUCTIONS:
@@ -514,7 +557,7 @@ export const buildOutlines = async (
 5. Format: "[SLIDE TYPE] - Hero: [METRIC] | Supporting: [2-3 points]"
 6. If source lacks data, use placeholder: "[HERO: $XM needed]"
 7. NO paragraphs, NO markdown formatting
-8. English only. Translate non-English terms; romanize names into Latin characters (no Hangul).
+8. ${buildLanguageRule(settings)}
 
 ## OUTPUT FORMAT:
 Return JSON: { "slides": [{ "content": "..." }, ...] }
@@ -522,7 +565,11 @@ Do NOT wrap in code fences.
 
 Generate a modern, data-forward pitch deck outline.`;
 
-    const json = await generateJson(OUTLINES_SYSTEM_PROMPT, userPrompt);
+    const json = await generateJson(
+      buildOutlinesSystemPrompt(settings),
+      userPrompt,
+      "outline",
+    );
     const parsed = json as { slides?: Outline[] };
 
     if (Array.isArray(parsed.slides) && parsed.slides.length > 0) {
@@ -548,14 +595,71 @@ Generate a modern, data-forward pitch deck outline.`;
   return slides;
 };
 
+/**
+ * Content field the LLM writes a slide's speaker notes to. It is moved to
+ * the slide's `speaker_note` after generation (see extractSpeakerNote).
+ */
+export const SPEAKER_NOTE_FIELD = "__speaker_note__";
+
+/**
+ * Adds the speaker note field to a layout's JSON schema, so the notes are
+ * generated in the same request as the slide content.
+ *
+ * @param schema - JSON schema of the slide layout.
+ * @returns A copy of the schema with a `__speaker_note__` string property.
+ */
+const withSpeakerNoteField = (
+  schema: Record<string, unknown>,
+): Record<string, unknown> => {
+  const properties =
+    typeof schema.properties === "object" && schema.properties !== null
+      ? (schema.properties as Record<string, unknown>)
+      : {};
+  return {
+    ...schema,
+    properties: {
+      ...properties,
+      [SPEAKER_NOTE_FIELD]: {
+        type: "string",
+        description: "Speaker notes: what the presenter says on this slide",
+      },
+    },
+  };
+};
+
+/**
+ * Separates the speaker notes from generated slide content.
+ *
+ * @param content - Content as returned by the LLM.
+ * @returns The content without the speaker note field, and the notes (an
+ *   empty string if none were generated).
+ *
+ * @example
+ * ```typescript
+ * extractSpeakerNote({ title: "Traction", __speaker_note__: "We grew..." });
+ * // { content: { title: "Traction" }, speakerNote: "We grew..." }
+ * ```
+ */
+export const extractSpeakerNote = (
+  content: Record<string, unknown>,
+): { content: Record<string, unknown>; speakerNote: string } => {
+  const { [SPEAKER_NOTE_FIELD]: note, ...rest } = content;
+  return {
+    content: rest,
+    speakerNote: typeof note === "string" ? note.trim() : "",
+  };
+};
+
 /**
  * Builds the user prompt for LLM-based slide content generation.
  *
  * Constructs a comprehensive prompt that includes:
  * - Current date/time in US Pacific timezone (for time-sensitive content)
- * - Source document content (truncated to token limits)
+ * - User prompt and the document passages retrieved for the slide
+ * - Web research digest (when web search is enabled)
  * - Slide outline (what the slide should contain)
- * - JSON schema (structure the content must match)
+ * - JSON schema (structure the content must match), plus the speaker note
+ *   field
  * - Detailed instructions for VC-ready content generation
  *
  * The prompt is designed to guide the LLM to generate content that:
@@ -566,14 +670,24 @@ Generate a modern, data-forward pitch deck outline.`;
  *
  * @param outline - Text description of what the slide should contain.
  * @param schema - JSON schema object defining the structure of slide content.
- * @param sourceDocument - Optional extracted text from uploaded documents.
- *   Truncated to 8000 characters to stay within token limits.
+ * @param sourceDocument - Optional user prompt and the document passages
+ *   retrieved for this slide. Truncated to 8000 characters to stay within
+ *   token limits; passages are already limited, so this only trims very
+ *   long prompts.
+ * @param webResearch - Optional digest of web search results for this slide
+ *   (see summarizeSearchResults in server/search).
+ * @param settings - Generation settings of the presentation.
+ * @param keyFacts - The presentation's key facts, which the slide must state
+ *   exactly as given.
  * @returns A formatted string prompt ready to send to the LLM.
  */
 const buildSlideUserPrompt = (
   outline: string,
   schema: Record<string, unknown>,
-  sourceDocument?: string,
+  sourceDocument: string | undefined,
+  webResearch: string | undefined,
+  settings: GenerationSettings,
+  keyFacts: KeyFact[],
 ): string => {
   // Current date and time in US Pacific Time Zone (PST/PDT)
   const usDateTime = new Date().toLocaleString("en-US", {
@@ -587,7 +701,7 @@ const buildSlideUserPrompt = (
     timeZoneName: "short",
   });
 
-  // Include source document if available, use only beginning if too long (token limit consideration)
+  // Include source if available, use only beginning if too long (token limit consideration)
   const maxSourceLength = 8000;
   const truncatedSource = sourceDocument
     ? sourceDocument.length > maxSourceLength
@@ -603,29 +717,44 @@ ${truncatedSource}
 `
     : "";
 
+  const researchSection = webResearch
+    ? `## WEB RESEARCH (Recent public sources, cite figures from these):
+${webResearch}
+
+`
+    : "";
+
+  const budget = getCharacterBudget(settings);
+
   return `## CURRENT DATE & TIME (US Pacific):
 ${usDateTime}
 
-${sourceSection}## SLIDE OUTLINE:
+${sourceSection}${researchSection}${buildKeyFactsSection(keyFacts)}${buildStyleSection(settings)}## SLIDE OUTLINE:
 ${outline}
 
 ## JSON SCHEMA TO FOLLOW:
-${JSON.stringify(schema, null, 2)}
+${JSON.stringify(withSpeakerNoteField(schema), null, 2)}
 
 ## CRITICAL INSTRUCTIONS (YC/500 Startups Standard):
 1. IDENTIFY slide type and HERO ELEMENT (one dominant number)
 2. CHARACTER LIMITS:
-   - Headlines: 25 chars | Subtitles: 40 chars or OMIT
-   - Bullets: 35 chars | Values: 8 chars max
+   - Headlines: ${budget.headline} chars | Subtitles: ${budget.subtitle} chars or OMIT
+   - Bullets: ${budget.bullet} chars | Values: ${budget.value} chars max
 3. NUMBER FORMATS: $48B, $1.2M, 127% (SINGLE values only)
 4. NEVER use ranges ("$615M-$923M") - pick ONE number
 5. TRACTION REALITY (Seed stage = $10K-100K MRR, NOT millions)
 6. INTRO format: "[What] for [Who]" (e.g., "Stripe for Healthcare")
 7. NO markdown (no asterisks), NO full sentences in subtitles
-8. English only. Translate non-English terms; romanize names into Latin characters (no Hangul).
+8. ${buildLanguageRule(settings)}
 9. Extract from source, use realistic placeholders if missing
-10. Total text: UNDER 150 chars per slide
-11. Return flat JSON, no code fences.`;
+10. Total text: UNDER ${budget.total} chars per slide
+11. Return flat JSON, no code fences.
+12. ${buildSpeakerNoteRule(settings)}${
+    webResearch
+      ? `
+13. Market size and competitor figures: prefer WEB RESEARCH over estimates; never invent numbers it does not support`
+      : ""
+  }`;
 };
 
 /**
@@ -651,6 +780,10 @@ ${JSON.stringify(schema, null, 2)}
  * @param slideIndex - Optional zero-based index of the slide (for logging).
  * @param sourceDocument - Optional extracted text from uploaded documents.
  *   Used as context for generating accurate, data-driven content.
+ * @param webResearch - Optional digest of web search results for this slide.
+ * @param settings - Generation settings of the presentation. Defaults to
+ *   English with standard verbosity.
+ * @param keyFacts - The presentation's key facts (default: none).
  * @returns Promise that resolves to a Record object matching the schema
  *   structure with generated content values.
  *
@@ -670,10 +803,23 @@ export const buildSlideContent = async (
   schema: Record<string, unknown>,
   slideIndex?: number,
   sourceDocument?: string,
+  webResearch?: string,
+  settings: GenerationSettings = getGenerationSettings(null),
+  keyFacts: KeyFact[] = [],
 ): Promise<Record<string, unknown>> => {
   try {
-    const userPrompt = buildSlideUserPrompt(outline, schema, sourceDocument);
-    const json = await generateJson(SLIDES_SYSTEM_PROMPT, userPrompt);
+    const userPrompt = buildSlideUserPrompt(
+      outline,
+      schema,
+      sourceDocument,
+      webResearch,
+      settings,
+      keyFacts,
+    );
+    const json = await generateJson(
+      buildSlidesSystemPrompt(settings),
+      userPrompt,
+    );
     return json as Record<string, unknown>;
   } catch (error) {
     console.error(
@@ -712,6 +858,10 @@ export const buildSlideContent = async (
  * @param schema - JSON schema object defining the structure of slide content.
  * @param slideIndex - Zero-based index of the slide (used in delta updates).
  * @param sourceDocument - Optional extracted text from uploaded documents.
+ * @param webResearch - Optional digest of web search results for this slide.
+ * @param settings - Generation settings of the presentation. Defaults to
+ *   English with standard verbosity.
+ * @param keyFacts - The presentation's key facts (default: none).
  * @param onDelta - Callback function called for each field update during streaming.
  *   Receives an object with `index`, `path` (field path like "title" or "items[0].value"),
  *   and `value` (current field value as a string).
@@ -736,16 +886,29 @@ export const buildSlideContentStream = async ({
   schema,
   slideIndex,
   sourceDocument,
+  webResearch,
+  settings = getGenerationSettings(null),
+  keyFacts = [],
   onDelta,
 }: {
   outline: string;
   schema: Record<string, unknown>;
   slideIndex: number;
   sourceDocument?: string;
+  webResearch?: string;
+  settings?: GenerationSettings;
+  keyFacts?: KeyFact[];
   onDelta: SlideDeltaHandler;
 }): Promise<Record<string, unknown>> => {
   try {
-    const userPrompt = buildSlideUserPrompt(outline, schema, sourceDocument);
+    const userPrompt = buildSlideUserPrompt(
+      outline,
+      schema,
+      sourceDocument,
+      webResearch,
+      settings,
+      keyFacts,
+    );
     const deltaParser = createSlideDeltaParser({
       slideIndex,
       minIntervalMs: 40,
@@ -754,7 +917,7 @@ export const buildSlideContentStream = async ({
     let accumulatedJson = "";
 
     for await (const token of generateJsonStream(
-      SLIDES_SYSTEM_PROMPT,
+      buildSlidesSystemPrompt(settings),
       userPrompt,
     )) {
       accumulatedJson += token;
@@ -0,0 +1,716 @@
+import type { SlideRecord } from "@/server/db/slides";
+import { GenerationSettings, getCharacterBudget } from "./generation-settings";
+import { detectSlideTopic } from "./layout-planner";
+
+/**
+ * Sections every investor deck is expected to have, in pitch order.
+ */
+export const CANONICAL_SECTIONS = [
+  "problem",
+  "solution",
+  "market",
+  "traction",
+  "team",
+  "ask",
+] as const;
+
+/**
+ * What reviewers look for in each canonical section, shown with a missing
+ * section and given to the reviewing model.
+ */
+const SECTION_CRITERIA: Record<string, string> = {
+  problem: "Is this pain real? How big?",
+  solution: "Does it directly solve the problem?",
+  market: "Is it big enough? Bottom-up math?",
+  traction: "Hockey stick? Retention? Realistic for the stage?",
+  team: "Why is this team the one to win?",
+  ask: "Clear ask, specific use of funds",
+};
+
+/**
+ * How serious a review finding is. Errors are what gets a deck rejected,
+ * warnings weaken it, info is polish.
+ */
+export type ReviewSeverity = "error" | "warning" | "info";
+
+/**
+ * A finding of the deck review.
+ *
+ * @property type - What was checked:
+ *   - missing_section: A canonical section has no slide
+ *   - text_density: A field or the slide exceeds its character limit
+ *   - unsupported_number: A figure is not backed by the prompt or documents
+ *   - inconsistent_metric: A metric has different values on two slides
+ *   - content: Feedback of the reviewing model
+ * @property severity - How serious the finding is.
+ * @property message - What is wrong, for display.
+ * @property path - Data path of the field concerned ("bullets[1].title"),
+ *   or null if it concerns the whole slide or deck.
+ * @property edit_prompt - Instruction that fixes the finding when sent to
+ *   the AI slide edit (`POST /api/v1/slides`), or null if it cannot be fixed
+ *   by editing the slide.
+ */
+export type ReviewIssue = {
+  type:
+    | "missing_section"
+    | "text_density"
+    | "unsupported_number"
+    | "inconsistent_metric"
+    | "content";
+  severity: ReviewSeverity;
+  message: string;
+  path: string | null;
+  edit_prompt: string | null;
+};
+
+/**
+ * Review of a single slide.
+ *
+ * @property slide_id - ID of the slide.
+ * @property slide_index - Zero-based position of the slide.
+ * @property title - The slide's title, or null if it has none.
+ * @property section - Pitch deck section the slide covers ("traction",
+ *   "business_model", ...), or null if unrecognised.
+ * @property score - Investor-readiness score from 0 to 100.
+ * @property issues - Findings, most serious first.
+ */
+export type SlideReview = {
+  slide_id: string;
+  slide_index: number;
+  title: string | null;
+  section: string | null;
+  score: number;
+  issues: ReviewIssue[];
+};
+
+/**
+ * Investor-readiness scorecard of a deck.
+ *
+ * @property score - Overall score from 0 to 100.
+ * @property summary - The reviewing model's verdict, or null if the model
+ *   review failed and only the automated checks ran.
+ * @property missing_sections - Canonical sections without a slide.
+ * @property issues - Findings about the deck as a whole.
+ * @property slides - Per-slide reviews, in deck order.
+ * @property reviewed_at - ISO 8601 timestamp of the review.
+ */
+export type DeckReview = {
+  score: number;
+  summary: string | null;
+  missing_sections: string[];
+  issues: ReviewIssue[];
+  slides: SlideReview[];
+  reviewed_at: string;
+};
+
+/**
+ * The reviewing model's verdict on a slide.
+ *
+ * @property section - Section the model assigned the slide to, if any.
+ * @property score - The model's score from 0 to 100.
+ * @property suggestions - Improvements, each with an edit instruction.
+ */
+export type ModelSlideReview = {
+  section: string | null;
+  score: number;
+  suggestions: { message: string; edit_prompt: string }[];
+};
+
+/**
+ * The reviewing model's verdict on a deck.
+ *
+ * @property summary - Overall verdict.
+ * @property slides - Verdicts by slide index.
+ */
+export type ModelDeckReview = {
+  summary: string | null;
+  slides: Map<number, ModelSlideReview>;
+};
+
+/**
+ * A text field of a slide.
+ *
+ * @property path - Data path of the field ("bullets[1].title").
+ * @property key - Name of the field ("title"), or null for array items.
+ * @property inArray - Whether the field is an array item or inside one.
+ * @property text - The field's text, trimmed.
+ */
+type TextField = {
+  path: string;
+  key: string | null;
+  inArray: boolean;
+  text: string;
+};
+
+/**
+ * A figure found in text.
+ *
+ * @property raw - The figure as written ("$85K").
+ * @property value - Numeric value, with K/M/B suffixes applied.
+ * @property unit - Kind of figure. Amounts and counts are compared with each
+ *   other, percentages and multiples only with their own kind.
+ * @property start - Offset of the figure in the text.
+ * @property end - Offset just past the figure.
+ */
+export type Figure = {
+  raw: string;
+  value: number;
+  unit: "amount" | "percent" | "multiple";
+  start: number;
+  end: number;
+};
+
+/**
+ * A metric value found on a slide, e.g. MRR $85K.
+ */
+type MetricMention = {
+  metric: string;
+  figure: Figure;
+  slideIndex: number;
+  path: string;
+};
+
+/**
+ * Score deducted from a slide per automated finding.
+ */
+const SEVERITY_PENALTY: Record<ReviewSeverity, number> = {
+  error: 20,
+  warning: 10,
+  info: 3,
+};
+
+/**
+ * Score deducted from the deck per missing canonical section.
+ */
+const MISSING_SECTION_PENALTY = 10;
+
+/**
+ * Relative difference under which two figures count as the same value
+ * ("$2.3B" and "$2,312M").
+ */
+const FIGURE_TOLERANCE = 0.02;
+
+/**
+ * Figures in text: optional currency, number, optional magnitude and an
+ * optional percent sign or multiple ("$85K", "2.3 billion", "127%", "4.2x").
+ */
+const FIGURE_PATTERN =
+  /(?<![\p{L}\p{N}.])([$€£¥₩])?\s?(\d{1,3}(?:,\d{3})+|\d+(?:\.\d+)?)(?:\s?(k|m|mm|b|bn|t|thousand|million|billion|trillion)\b)?(?:\s?(%|x\b))?/giu;
+
+/**
+ * Multipliers of magnitude suffixes.
+ */
+const MAGNITUDES: Record<string, number> = {
+  k: 1e3,
+  thousand: 1e3,
+  m: 1e6,
+  mm: 1e6,
+  million: 1e6,
+  b: 1e9,
+  bn: 1e9,
+  billion: 1e9,
+  t: 1e12,
+  trillion: 1e12,
+};
+
+/**
+ * Metrics compared across slides, the words that name them and the section
+ * whose slide holds the authoritative value.
+ */
+const METRICS: { metric: string; section: string; pattern: RegExp }[] = [
+  { metric: "MRR", section: "traction", pattern: /\bMRR\b/i },
+  {
+    metric: "ARR",
+    section: "traction",
+    pattern: /\bARR\b|annual recurring revenue/i,
+  },
+  { metric: "GMV", section: "traction", pattern: /\bGMV\b/i },
+  { metric: "TAM", section: "market", pattern: /\bTAM\b/i },
+  { metric: "SAM", section: "market", pattern: /\bSAM\b/i },
+  { metric: "SOM", section: "market", pattern: /\bSOM\b/i },
+  { metric: "CAC", section: "business_model", pattern: /\bCAC\b/i },
+  { metric: "LTV", section: "business_model", pattern: /\bLTV\b(?!:)/i },
+  { metric: "churn", section: "traction", pattern: /\bchurn\b/i },
+  { metric: "retention", section: "traction", pattern: /\bretention\b/i },
+  {
+    metric: "raise",
+    section: "ask",
+    pattern: /\b(?:raising|round)\b/i,
+  },
+];
+
+/**
+ * Words that make a clause a plan rather than a current value, so a target
+ * ARR on the ask slide is neither compared with today's ARR nor expected in
+ * the source.
+ */
+const FORWARD_LOOKING =
+  /\b(?:target|goal|projected|forecast|plan|reach|by 20\d\d|in \d+\s?mo|next)\b/i;
+
+/**
+ * Splits text into clauses at sentence ends and ", ", leaving figures such
+ * as "$2,312M" whole.
+ */
+const splitClauses = (text: string): string[] =>
+  text.split(/(?<=[.;!?])\s+|,\s+/).filter(Boolean);
+
+/**
+ * Returns the clauses of text that state current values.
+ */
+const getFactualClauses = (text: string): string[] =>
+  splitClauses(text).filter((clause) => !FORWARD_LOOKING.test(clause));
+
+/**
+ * What may stand between a metric name and its value ("MRR: $85K",
+ * "ARR of $1M", "$85K MRR").
+ */
+const METRIC_GAP = /^[\s:·•|=–—-]*(?:of|at|is|was|reached|hit)?[\s:·•|=–—-]*$/i;
+
+/**
+ * Reads a field's character limit kind from its name.
+ */
+const getFieldKind = (
+  field: TextField,
+): "headline" | "subtitle" | "bullet" | "description" | "value" => {
+  const key = field.key?.toLowerCase() ?? "";
+  if (/sub(title|heading)|caption|tagline/.test(key)) return "subtitle";
+  if (/title|heading|headline|name/.test(key)) return "headline";
+  if (/value|metric|stat|number|amount|percent/.test(key)) return "value";
+  if (/desc|body|text|detail|summary|paragraph/.test(key)) {
+    return "description";
+  }
+  return field.inArray ? "bullet" : "description";
+};
+
+/**
+ * Collects the text fields of slide content, skipping image and icon fields
+ * (keys starting with "__") and empty placeholders.
+ *
+ * @param content - Slide content.
+ * @returns Text fields in document order.
+ */
+export const collectTextFields = (
+  content: Record<string, unknown> | null,
+): TextField[] => {
+  const fields: TextField[] = [];
+  const visit = (
+    value: unknown,
+    path: string,
+    key: string | null,
+    inArray: boolean,
+  ) => {
+    if (typeof value === "string") {
+      const text = value.trim();
+      if (text) fields.push({ path, key, inArray, text });
+    } else if (Array.isArray(value)) {
+      value.forEach((item, index) =>
+        visit(item, `${path}[${index}]`, null, true),
+      );
+    } else if (typeof value === "object" && value !== null) {
+      for (const [childKey, child] of Object.entries(value)) {
+        if (childKey.startsWith("__")) continue;
+        visit(child, path ? `${path}.${childKey}` : childKey, childKey, inArray);
+      }
+    }
+  };
+  visit(content ?? {}, "", null, false);
+  return fields;
+};
+
+/**
+ * Returns a slide's title: its `title` field, else its first headline-like
+ * field.
+ */
+const getSlideTitle = (fields: TextField[]): string | null =>
+  (fields.find((field) => field.path === "title") ??
+    fields.find((field) => getFieldKind(field) === "headline"))?.text ?? null;
+
+/**
+ * Finds the figures in text. Years, small counts ("3 pilots") and bare
+ * numbers without magnitude are left out; they are rarely claims.
+ *
+ * @param text - Text to search.
+ * @returns Figures in order of appearance.
+ *
+ * @example
+ * ```typescript
+ * findFigures("$85K MRR, 127% MoM, 3 pilots");
+ * // Returns: [{ raw: "$85K", value: 85000, unit: "amount", ... },
+ * //           { raw: "127%", value: 127, unit: "percent", ... }]
+ * ```
+ */
+export const findFigures = (text: string): Figure[] => {
+  const figures: Figure[] = [];
+  for (const match of text.matchAll(FIGURE_PATTERN)) {
+    const [raw, currency, digits, magnitude, suffix] = match;
+    const number = Number(digits.replace(/,/g, ""));
+    if (!Number.isFinite(number)) continue;
+    const unit = suffix === "%" ? "percent" : suffix ? "multiple" : "amount";
+    if (unit === "amount" && !currency && !magnitude) {
+      const isYear = Number.isInteger(number) && number >= 1900 && number < 2100;
+      if (isYear || number < 100) continue;
+    }
+    figures.push({
+      raw: raw.trim(),
+      value: number * (magnitude ? MAGNITUDES[magnitude.toLowerCase()] : 1),
+      unit,
+      start: match.index + (raw.length - raw.trimStart().length),
+      end: match.index + raw.length,
+    });
+  }
+  return figures;
+};
+
+/**
+ * Checks whether two figures are the same value of the same kind.
+ */
+export const isSameFigure = (a: Figure, b: Figure): boolean =>
+  a.unit === b.unit &&
+  Math.abs(a.value - b.value) <=
+    FIGURE_TOLERANCE * Math.max(Math.abs(a.value), Math.abs(b.value));
+
+/**
+ * Checks the fields and total text of a slide against the character
+ * budget of the presentation's verbosity.
+ */
+const checkTextDensity = (
+  fields: TextField[],
+  settings: GenerationSettings,
+): ReviewIssue[] => {
+  const budget = getCharacterBudget(settings);
+  const issues: ReviewIssue[] = [];
+  for (const field of fields) {
+    const limit = budget[getFieldKind(field)];
+    if (field.text.length <= limit) continue;
+    issues.push({
+      type: "text_density",
+      severity: "warning",
+      message: `"${field.path}" has ${field.text.length} characters; the limit is ${limit}`,
+      path: field.path,
+      edit_prompt: `Shorten "${field.path}" to at most ${limit} characters, keeping its key point`,
+    });
+  }
+  const total = fields.reduce((sum, field) => sum + field.text.length, 0);
+  if (total > budget.total) {
+    issues.push({
+      type: "text_density",
+      severity: "warning",
+      message: `The slide has ${total} characters of text; the limit is ${budget.total}`,
+      path: null,
+      edit_prompt: `Cut the slide's text to under ${budget.total} characters in total, keeping the hero number and the most important points`,
+    });
+  }
+  return issues;
+};
+
+/**
+ * Flags figures of a slide that appear nowhere in the source (prompt and
+ * uploaded documents).
+ */
+const checkUnsupportedNumbers = (
+  fields: TextField[],
+  sourceFigures: Figure[],
+): ReviewIssue[] => {
+  const issues: ReviewIssue[] = [];
+  for (const field of fields) {
+    const figures = getFactualClauses(field.text).flatMap(findFigures);
+    for (const figure of figures) {
+      if (sourceFigures.some((source) => isSameFigure(source, figure))) {
+        continue;
+      }
+      issues.push({
+        type: "unsupported_number",
+        severity: "warning",
+        message: `${figure.raw} in "${field.path}" is not backed by your prompt or documents`,
+        path: field.path,
+        edit_prompt: `Replace ${figure.raw} in "${field.path}" with a figure from the source documents; if they have none, remove the number`,
+      });
+    }
+  }
+  return issues;
+};
+
+/**
+ * Finds metric values in a slide's text. Each field is searched on its own,
+ * and so is each object's set of direct fields joined, which pairs
+ * `{ label: "MRR", value: "$85K" }`. Clauses stating plans are skipped.
+ */
+const findMetricMentions = (
+  fields: TextField[],
+  slideIndex: number,
+): MetricMention[] => {
+  const units = fields.map((field) => ({ path: field.path, text: field.text }));
+  const byParent = new Map<string, TextField[]>();
+  for (const field of fields) {
+    const parent = field.path.replace(/\.?[^.[\]]+$/, "");
+    if (!parent || parent === field.path) continue;
+    byParent.set(parent, [...(byParent.get(parent) ?? []), field]);
+  }
+  for (const [parent, siblings] of byParent) {
+    if (siblings.length < 2) continue;
+    units.push({
+      path: parent,
+      text: siblings.map((field) => field.text).join(" · "),
+    });
+  }
+
+  const mentions: MetricMention[] = [];
+  const seen = new Set<string>();
+  const clauses = units.flatMap((unit) =>
+    getFactualClauses(unit.text).map((text) => ({ path: unit.path, text })),
+  );
+  for (const unit of clauses) {
+    const figures = findFigures(unit.text).filter(
+      (figure) => figure.unit === "amount" || figure.unit === "percent",
+    );
+    for (const { metric, pattern } of METRICS) {
+      const label = unit.text.match(pattern);
+      if (!label || label.index === undefined) continue;
+      const labelStart = label.index;
+      const labelEnd = labelStart + label[0].length;
+      const figure =
+        figures.find((candidate) =>
+          candidate.start >= labelEnd &&
+          METRIC_GAP.test(unit.text.slice(labelEnd, candidate.start)),
+        ) ??
+        figures.find((candidate) =>
+          candidate.end <= labelStart &&
+          METRIC_GAP.test(unit.text.slice(candidate.end, labelStart)),
+        );
+      const key = `${metric}:${figure?.raw}`;
+      if (!figure || seen.has(key)) continue;
+      seen.add(key);
+      mentions.push({ metric, figure, slideIndex, path: unit.path });
+    }
+  }
+  return mentions;
+};
+
+/**
+ * Flags metrics whose value differs between slides, and ARR that does not
+ * match twelve times MRR. The value on the metric's home section (traction
+ * for MRR, market for TAM, ...) is taken as the right one; without such a
+ * slide, the first mention is.
+ *
+ * @returns Issues by slide index.
+ */
+const checkMetricConsistency = (
+  mentions: MetricMention[],
+  sections: (string | null)[],
+): Map<number, ReviewIssue[]> => {
+  const issues = new Map<number, ReviewIssue[]>();
+  const add = (slideIndex: number, issue: ReviewIssue) =>
+    issues.set(slideIndex, [...(issues.get(slideIndex) ?? []), issue]);
+
+  const reference = new Map<string, MetricMention>();
+  for (const { metric, section } of METRICS) {
+    const all = mentions.filter((mention) => mention.metric === metric);
+    const home =
+      all.find((mention) => sections[mention.slideIndex] === section) ??
+      all[0];
+    if (!home) continue;
+    reference.set(metric, home);
+    for (const mention of all) {
+      if (
+        mention.slideIndex === home.slideIndex ||
+        isSameFigure(mention.figure, home.figure)
+      ) {
+        continue;
+      }
+      add(mention.slideIndex, {
+        type: "inconsistent_metric",
+        severity: "error",
+        message: `${metric} is ${mention.figure.raw} here but ${home.figure.raw} on slide ${home.slideIndex + 1}`,
+        path: mention.path,
+        edit_prompt: `Change the ${metric} in "${mention.path}" from ${mention.figure.raw} to ${home.figure.raw} so it matches slide ${home.slideIndex + 1}`,
+      });
+    }
+  }
+
+  const mrr = reference.get("MRR");
+  const arr = reference.get("ARR");
+  if (mrr && arr && mrr.figure.unit === "amount") {
+    const expected = mrr.figure.value * 12;
+    if (Math.abs(arr.figure.value - expected) > 0.15 * expected) {
+      add(arr.slideIndex, {
+        type: "inconsistent_metric",
+        severity: "warning",
+        message: `ARR ${arr.figure.raw} does not match 12 × MRR ${mrr.figure.raw} (slide ${mrr.slideIndex + 1})`,
+        path: arr.path,
+        edit_prompt: `Make the ARR in "${arr.path}" consistent with an MRR of ${mrr.figure.raw} (ARR is 12 × MRR), or remove it`,
+      });
+    }
+  }
+  return issues;
+};
+
+/**
+ * Orders issues most serious first.
+ */
+const bySeverity = (a: ReviewIssue, b: ReviewIssue) =>
+  SEVERITY_PENALTY[b.severity] - SEVERITY_PENALTY[a.severity];
+
+/**
+ * Clamps a score to 0–100 and rounds it.
+ */
+const clampScore = (score: number) =>
+  Math.round(Math.min(100, Math.max(0, score)));
+
+/**
+ * Reviews a deck for investor readiness.
+ *
+ * Runs the automated checks (missing canonical sections, text density
+ * against the verbosity's character limits, figures not backed by the
+ * source, metrics that disagree between slides) and merges in the reviewing
+ * model's verdict when there is one.
+ *
+ * Scores: a slide starts from the model's score (100 without a model
+ * review) and loses points per automated finding; the deck score is the
+ * average slide score minus points per missing section.
+ *
+ * Slides citing web sources are not checked for unsupported figures, since
+ * the search results they were written from are not stored.
+ *
+ * @param slides - The presentation's slides, in order.
+ * @param settings - Generation settings of the presentation.
+ * @param source - The user's prompt and uploaded document text; figures
+ *   found here count as supported.
+ * @param model - The reviewing model's verdict, or null.
+ * @returns The scorecard.
+ */
+export const buildDeckReview = (
+  slides: SlideRecord[],
+  settings: GenerationSettings,
+  source: string,
+  model: ModelDeckReview | null,
+): DeckReview => {
+  const sourceFigures = findFigures(source);
+  const slideFields = slides.map((slide) => collectTextFields(slide.content));
+  const sections = slides.map((slide, index) => {
+    const section = model?.slides.get(index)?.section;
+    if (section) return section;
+    const fields = slideFields[index];
+    const title = `${getSlideTitle(fields) ?? ""} ${
+      slide.layout?.split(":").pop() ?? ""
+    }`;
+    return detectSlideTopic(title, fields.map((field) => field.text).join(" "));
+  });
+
+  const mentions = slides.flatMap((slide, index) =>
+    findMetricMentions(slideFields[index], index),
+  );
+  const metricIssues = checkMetricConsistency(mentions, sections);
+
+  const reviews = slides.map((slide, index): SlideReview => {
+    const fields = slideFields[index];
+    const checked = [
+      ...(metricIssues.get(index) ?? []),
+      ...checkTextDensity(fields, settings),
+      ...(slide.sources?.length
+        ? []
+        : checkUnsupportedNumbers(fields, sourceFigures)),
+    ];
+    const verdict = model?.slides.get(index);
+    const suggestions = (verdict?.suggestions ?? []).map(
+      (suggestion): ReviewIssue => ({
+        type: "content",
+        severity: "info",
+        message: suggestion.message,
+        path: null,
+        edit_prompt: suggestion.edit_prompt,
+      }),
+    );
+    const penalty = checked.reduce(
+      (sum, issue) => sum + SEVERITY_PENALTY[issue.severity],
+      0,
+    );
+    return {
+      slide_id: slide.id,
+      slide_index: index,
+      title: getSlideTitle(fields),
+      section: sections[index],
+      score: clampScore((verdict?.score ?? 100) - penalty),
+      issues: [...checked, ...suggestions].sort(bySeverity),
+    };
+  });
+
+  const missing = CANONICAL_SECTIONS.filter(
+    (section) => !sections.includes(section),
+  );
+  const average =
+    reviews.reduce((sum, review) => sum + review.score, 0) /
+    Math.max(1, reviews.length);
+
+  return {
+    score: clampScore(average - MISSING_SECTION_PENALTY * missing.length),
+    summary: model?.summary ?? null,
+    missing_sections: missing,
+    issues: missing.map((section) => ({
+      type: "missing_section",
+      severity: "error",
+      message: `No ${section} slide. Investors look for: ${SECTION_CRITERIA[section]}`,
+      path: null,
+      edit_prompt: null,
+    })),
+    slides: reviews,
+    reviewed_at: new Date().toISOString(),
+  };
+};
+
+/**
+ * Builds the section criteria lines for the review prompt.
+ */
+export const buildSectionCriteria = (): string =>
+  CANONICAL_SECTIONS.map(
+    (section) => `- ${section.toUpperCase()}: ${SECTION_CRITERIA[section]}`,
+  ).join("\n");
+
+/**
+ * Reads the reviewing model's JSON answer, dropping anything malformed.
+ *
+ * @param json - Parsed model output:
+ *   `{ summary, slides: [{ index, section, score, suggestions }] }`.
+ * @param slideCount - Number of slides reviewed.
+ * @returns The verdict.
+ */
+export const parseModelReview = (
+  json: Record<string, unknown>,
+  slideCount: number,
+): ModelDeckReview => {
+  const slides = new Map<number, ModelSlideReview>();
+  const entries = Array.isArray(json.slides) ? json.slides : [];
+  for (const entry of entries) {
+    if (typeof entry !== "object" || entry === null) continue;
+    const { index, section, score, suggestions } = entry as Record<
+      string,
+      unknown
+    >;
+    if (
+      typeof index !== "number" ||
+      !Number.isInteger(index) ||
+      index < 0 ||
+      index >= slideCount ||
+      typeof score !== "number"
+    ) {
+      continue;
+    }
+    slides.set(index, {
+      section:
+        typeof section === "string" && section && section !== "other"
+          ? section.toLowerCase().replace(/\s+/g, "_")
+          : null,
+      score: clampScore(score),
+      suggestions: (Array.isArray(suggestions) ? suggestions : [])
+        .filter(
+          (item): item is { message: string; edit_prompt: string } =>
+            typeof item?.message === "string" &&
+            typeof item?.edit_prompt === "string",
+        )
+        .map(({ message, edit_prompt }) => ({ message, edit_prompt })),
+    });
+  }
+  return {
+    summary: typeof json.summary === "string" ? json.summary : null,
+    slides,
+  };
+};
@@ -0,0 +1,117 @@
+/**
+ * Title slide and agenda of generated decks.
+ *
+ * Presentations store two options set on the outline page:
+ * `include_title_slide` guarantees the deck opens with a title slide, and
+ * `include_table_of_contents` adds an agenda right after it. Both are applied
+ * to the outlines with applyDeckSections (shared with the outline editor),
+ * and the agenda slide is then filled from the outline titles instead of
+ * being written by the LLM, so it always lists the deck's actual sections.
+ */
+
+import {
+  applyDeckSections,
+  buildAgendaItems,
+  isAgendaOutline,
+  type DeckSectionOptions,
+} from "@/utils/agenda";
+
+import type { Outline, SlideSchema } from "../types/streaming";
+
+/**
+ * Maximum characters of a title slide tagline taken from the user's prompt.
+ */
+const MAX_PROMPT_TITLE_LENGTH = 60;
+
+/**
+ * Title of generated agenda slides.
+ */
+const AGENDA_TITLE = "Agenda";
+
+/**
+ * Reads the section options of a presentation.
+ *
+ * A title slide that has to be added uses the presentation title, or the
+ * first line of the user's prompt.
+ *
+ * @param presentation - The presentation's saved options, or null.
+ * @returns Options for applyDeckSections.
+ */
+export const getDeckSectionOptions = (
+  presentation: {
+    title?: string | null;
+    content?: string | null;
+    include_title_slide?: boolean | null;
+    include_table_of_contents?: boolean | null;
+  } | null,
+): DeckSectionOptions => {
+  const promptTitle = (presentation?.content ?? "")
+    .split("\n")[0]
+    .trim()
+    .slice(0, MAX_PROMPT_TITLE_LENGTH);
+  return {
+    includeTitleSlide: presentation?.include_title_slide ?? true,
+    includeTableOfContents: presentation?.include_table_of_contents ?? false,
+    title: presentation?.title?.trim() || promptTitle || undefined,
+  };
+};
+
+/**
+ * Applies a presentation's title slide and agenda options to its outlines.
+ *
+ * @param outlines - Outlines of the deck.
+ * @param presentation - The presentation's saved options, or null.
+ * @returns The outlines with a title slide and agenda as configured.
+ *
+ * @example
+ * ```typescript
+ * applyPresentationSections(
+ *   [{ content: "INTRO: ..." }, { content: "PROBLEM: ..." }],
+ *   { include_table_of_contents: true },
+ * );
+ * // Returns: [{ content: "INTRO: ..." }, { content: "AGENDA: Problem" }, ...]
+ * ```
+ */
+export const applyPresentationSections = (
+  outlines: Outline[],
+  presentation: Parameters<typeof getDeckSectionOptions>[0],
+): Outline[] =>
+  applyDeckSections(
+    outlines,
+    getDeckSectionOptions(presentation),
+    (content) => ({ content }),
+  );
+
+/**
+ * Builds the content of an agenda slide from the deck's outlines.
+ *
+ * Only layouts with a `sections` list (the table of contents layouts) can
+ * hold an agenda; for any other layout the slide is generated as usual.
+ *
+ * @param outline - The slide's outline.
+ * @param schema - JSON schema of the slide's layout.
+ * @param outlines - All outlines of the deck, in order.
+ * @returns The slide content, or null when the slide is not an agenda or
+ *   its layout has no sections list.
+ */
+export const buildAgendaSlideContent = (
+  outline: Outline,
+  schema: SlideSchema,
+  outlines: Outline[],
+): Record<string, unknown> | null => {
+  if (!isAgendaOutline(outline.content)) return null;
+  const sections = schema.properties?.sections;
+  if (sections?.type !== "array") return null;
+
+  const itemProperties = sections.items?.properties ?? {};
+  const items = buildAgendaItems(outlines).map((item) =>
+    item.description && "description" in itemProperties
+      ? { title: item.title, description: item.description }
+      : { title: item.title },
+  );
+  if (items.length === 0) return null;
+
+  return schema.properties?.title
+    ? { title: AGENDA_TITLE, sections: items }
+    : { sections: items };
+};
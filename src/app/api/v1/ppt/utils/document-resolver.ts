@@ -1,4 +1,18 @@
+import { requireRequestOwner } from "@/server/auth";
+import {
+  getDocumentIndex,
+  saveDocumentIndex,
+} from "@/server/db/document-indexes";
 import { getPresentationById } from "@/server/db/presentations";
+import {
+  chunkDocumentContent,
+  createSearchIndex,
+  DocumentChunk,
+  DocumentSearchIndex,
+  hashDocumentContent,
+  searchPassages,
+} from "@/server/retrieval";
+import type { SlideDocumentSource } from "@/types/slide";
 import { LayoutPayload } from "../types/streaming";
 import {
   PRESENTATION_READY_MAX_RETRIES,
@@ -17,7 +31,7 @@ import {
  * async database operations to complete.
  *
  * A presentation is considered "ready" when:
- * - It exists in the database
+ * - It exists in the database and belongs to the requesting user
  * - It has a valid layout object with a non-empty slides array
  * - It has an outlines object (structure doesn't matter, just existence)
  *
@@ -41,8 +55,9 @@ export const waitForPresentationReady = async (
   maxRetries: number = PRESENTATION_READY_MAX_RETRIES,
   retryDelayMs: number = PRESENTATION_READY_RETRY_DELAY_MS,
 ): Promise<Awaited<ReturnType<typeof getPresentationById>>> => {
+  const owner = requireRequestOwner();
   for (let attempt = 0; attempt < maxRetries; attempt++) {
-    const presentation = await getPresentationById(presentationId);
+    const presentation = await getPresentationById(owner, presentationId);
     if (!presentation) {
       return null;
     }
@@ -68,7 +83,7 @@ export const waitForPresentationReady = async (
   }
 
   // Max retries reached, return current state
-  return await getPresentationById(presentationId);
+  return await getPresentationById(owner, presentationId);
 };
 
 /**
@@ -85,7 +100,7 @@ export const waitForPresentationReady = async (
  *
  * @example
  * ```typescript
- * const presentation = await getPresentationById("abc-123");
+ * const presentation = await getPresentationById(owner, "abc-123");
  * const docContent = await resolveDocumentContent(presentation);
  * // Returns: "Extracted text from PDF..." or ""
  * ```
@@ -134,3 +149,142 @@ export const buildFullSourceContent = (
     .filter(Boolean)
     .join("\n\n---\n\n");
 };
+
+/**
+ * Maximum number of document passages retrieved for one slide.
+ */
+const MAX_SLIDE_PASSAGES = 6;
+
+/**
+ * Maximum total length of the passages retrieved for one slide. Leaves room
+ * for the user's prompt within the slide prompt's source section.
+ */
+const MAX_SLIDE_PASSAGE_CHARS = 6000;
+
+/**
+ * Length of the passage excerpt saved with a slide's document sources.
+ */
+const SOURCE_EXCERPT_LENGTH = 160;
+
+/**
+ * Document passages retrieved for one slide.
+ *
+ * @property content - Passages formatted for the prompt, each labeled with
+ *   its file and page; empty if the presentation has no documents.
+ * @property sources - References to the passages, to save on the slide.
+ *   Empty when nothing matched and the beginning of the documents was used
+ *   instead.
+ */
+export type RetrievedDocumentContext = {
+  content: string;
+  sources: SlideDocumentSource[];
+};
+
+/**
+ * Loads the search index over a presentation's uploaded documents.
+ *
+ * Uses the stored chunks when they were built from the current document
+ * content; otherwise chunks the content again and saves the new chunks.
+ *
+ * @param owner - ID of the user the presentation belongs to.
+ * @param presentation - The presentation record, or null.
+ * @returns Promise that resolves to the search index, or null if the
+ *   presentation has no document content.
+ *
+ * @example
+ * ```typescript
+ * const index = await resolveDocumentSearchIndex(owner, presentation);
+ * const documents = retrieveDocumentContext(index, outline.content);
+ * ```
+ */
+export const resolveDocumentSearchIndex = async (
+  owner: string,
+  presentation: Awaited<ReturnType<typeof getPresentationById>>,
+): Promise<DocumentSearchIndex | null> => {
+  const documentContent = presentation?.document_content;
+  if (!presentation || !documentContent?.trim()) {
+    return null;
+  }
+
+  const contentHash = hashDocumentContent(documentContent);
+  const stored = await getDocumentIndex(owner, presentation.id);
+  if (stored?.content_hash === contentHash) {
+    return createSearchIndex(stored.chunks);
+  }
+
+  const chunks = chunkDocumentContent(documentContent);
+  await saveDocumentIndex(owner, presentation.id, contentHash, chunks);
+  return createSearchIndex(chunks);
+};
+
+/**
+ * Formats document passages for a prompt, each labeled with its file and
+ * page ("[financials.pdf, page 4]").
+ */
+const formatPassages = (chunks: DocumentChunk[]): string =>
+  chunks
+    .map((chunk) => {
+      const label = [
+        chunk.document ?? "Document",
+        chunk.page ? `page ${chunk.page}` : null,
+      ]
+        .filter(Boolean)
+        .join(", ");
+      return `[${label}]\n${chunk.text}`;
+    })
+    .join("\n\n");
+
+/**
+ * Converts a document chunk into the reference saved on a slide.
+ */
+const toDocumentSource = (chunk: DocumentChunk): SlideDocumentSource => ({
+  chunk_id: chunk.id,
+  document: chunk.document,
+  page: chunk.page,
+  excerpt:
+    chunk.text.length > SOURCE_EXCERPT_LENGTH
+      ? `${chunk.text.slice(0, SOURCE_EXCERPT_LENGTH - 1)}…`
+      : chunk.text,
+});
+
+/**
+ * Retrieves the document passages most relevant to a slide.
+ *
+ * When no passage matches the query (for example, an outline written in a
+ * different language than the documents), the beginning of the documents
+ * is used instead, as it was before retrieval existed, and no sources are
+ * recorded.
+ *
+ * @param index - Search index from resolveDocumentSearchIndex, or null.
+ * @param query - The slide outline, or an edit request with the slide's
+ *   current content.
+ * @returns The passages for the prompt and their references.
+ */
+export const retrieveDocumentContext = (
+  index: DocumentSearchIndex | null,
+  query: string,
+): RetrievedDocumentContext => {
+  if (!index) {
+    return { content: "", sources: [] };
+  }
+
+  const passages = searchPassages(index, query, {
+    limit: MAX_SLIDE_PASSAGES,
+    maxChars: MAX_SLIDE_PASSAGE_CHARS,
+  });
+  if (passages.length > 0) {
+    return {
+      content: formatPassages(passages),
+      sources: passages.map(toDocumentSource),
+    };
+  }
+
+  const leading: DocumentChunk[] = [];
+  let length = 0;
+  for (const chunk of index.chunks) {
+    if (length + chunk.text.length > MAX_SLIDE_PASSAGE_CHARS) break;
+    leading.push(chunk);
+    length += chunk.text.length;
+  }
+  return { content: formatPassages(leading), sources: [] };
+};
@@ -0,0 +1,239 @@
+import { LanguageInfo, resolveLanguage } from "@/utils/languages";
+
+/**
+ * Per-presentation settings that shape generated text.
+ *
+ * Saved on the presentation at creation (`language`, `tone`, `verbosity`,
+ * `instructions`) and applied to outline generation, slide generation and
+ * AI slide edits.
+ *
+ * @property language - Resolved language of the presentation.
+ * @property tone - Tone preset ("casual", "professional", ...), or null for
+ *   the default pitch deck voice.
+ * @property verbosity - Verbosity preset; decides the character budgets.
+ * @property instructions - Free-form user instructions applied to every
+ *   slide, or null.
+ */
+export type GenerationSettings = {
+  language: LanguageInfo;
+  tone: string | null;
+  verbosity: Verbosity;
+  instructions: string | null;
+};
+
+/**
+ * Verbosity presets, matching VerbosityType in the generator UI.
+ */
+export type Verbosity = "concise" | "standard" | "text-heavy";
+
+/**
+ * Character budgets for slide text fields.
+ *
+ * @property headline - Maximum characters of a headline.
+ * @property subtitle - Maximum characters of a subtitle.
+ * @property bullet - Maximum characters of a bullet point.
+ * @property description - Maximum characters of a description.
+ * @property value - Maximum characters of a value field ("$48B").
+ * @property total - Maximum characters of all text on a slide.
+ */
+export type CharacterBudget = {
+  headline: number;
+  subtitle: number;
+  bullet: number;
+  description: number;
+  value: number;
+  total: number;
+};
+
+/**
+ * Character budgets per verbosity. "standard" matches the limits the slide
+ * templates were designed around.
+ */
+const CHARACTER_BUDGETS: Record<Verbosity, CharacterBudget> = {
+  concise: {
+    headline: 20,
+    subtitle: 30,
+    bullet: 25,
+    description: 40,
+    value: 8,
+    total: 110,
+  },
+  standard: {
+    headline: 25,
+    subtitle: 40,
+    bullet: 35,
+    description: 50,
+    value: 8,
+    total: 150,
+  },
+  "text-heavy": {
+    headline: 35,
+    subtitle: 60,
+    bullet: 60,
+    description: 100,
+    value: 8,
+    total: 300,
+  },
+};
+
+/**
+ * Speaker note length per verbosity, as [min, max] words.
+ */
+const SPEAKER_NOTE_WORDS: Record<Verbosity, [number, number]> = {
+  concise: [30, 60],
+  standard: [50, 90],
+  "text-heavy": [80, 140],
+};
+
+/**
+ * Share of the Latin budget allowed for CJK text. A Korean, Japanese or
+ * Chinese character is roughly twice as wide and carries more meaning than a
+ * Latin one, so the same box fits about half as many.
+ */
+const CJK_BUDGET_RATIO = 0.5;
+
+/**
+ * Writing guidance per tone preset (ToneType in the generator UI). The
+ * default tone keeps the built-in pitch deck voice.
+ */
+const TONE_GUIDANCE: Record<string, string> = {
+  casual: "Conversational and approachable: plain words, short phrases",
+  professional: "Formal, precise and measured; no hype words",
+  funny: "Light and witty, without making the numbers harder to read",
+  educational: "Explain concepts clearly for a non-expert audience",
+  sales_pitch: "Persuasive and benefit-led, ending on a clear call to action",
+};
+
+/**
+ * Language rule used when the presentation is in English.
+ */
+const ENGLISH_RULE =
+  "English only. Translate non-English terms; romanize names into Latin characters (no Hangul).";
+
+/**
+ * Resolves the generation settings of a presentation.
+ *
+ * Unknown tone and verbosity values fall back to the defaults, so
+ * presentations created before these settings existed keep generating as
+ * before.
+ *
+ * @param presentation - The presentation's saved settings, or null.
+ * @returns Settings to pass to the prompt builders.
+ */
+export const getGenerationSettings = (
+  presentation: {
+    language?: string | null;
+    tone?: string | null;
+    verbosity?: string | null;
+    instructions?: string | null;
+  } | null,
+): GenerationSettings => {
+  const verbosity = presentation?.verbosity;
+  const tone = presentation?.tone;
+  return {
+    language: resolveLanguage(presentation?.language),
+    tone: tone && tone in TONE_GUIDANCE ? tone : null,
+    verbosity:
+      verbosity && verbosity in CHARACTER_BUDGETS
+        ? (verbosity as Verbosity)
+        : "standard",
+    instructions: presentation?.instructions?.trim() || null,
+  };
+};
+
+/**
+ * Returns the character budget for the settings' verbosity and language.
+ *
+ * @param settings - Generation settings.
+ * @returns Character budgets; value fields are never scaled.
+ */
+export const getCharacterBudget = (
+  settings: GenerationSettings,
+): CharacterBudget => {
+  const budget = CHARACTER_BUDGETS[settings.verbosity];
+  if (!settings.language.cjk) return budget;
+  const scale = (n: number) => Math.round(n * CJK_BUDGET_RATIO);
+  return {
+    headline: scale(budget.headline),
+    subtitle: scale(budget.subtitle),
+    bullet: scale(budget.bullet),
+    description: scale(budget.description),
+    value: budget.value,
+    total: scale(budget.total),
+  };
+};
+
+/**
+ * Builds the one-line language rule for prompts.
+ *
+ * @param settings - Generation settings.
+ * @returns The rule, without list marker or trailing newline.
+ */
+export const buildLanguageRule = (settings: GenerationSettings): string => {
+  const { name, direction } = settings.language;
+  if (name === "English") return ENGLISH_RULE;
+  const script =
+    direction === "rtl" ? ` in its native right-to-left script` : "";
+  return `Write ALL text in ${name}${script}, including titles and labels. Keep company, product and people names, and metric abbreviations (ARR, MRR, TAM, LTV:CAC) as they are. Keep compact number formats ($48B, 127%).`;
+};
+
+/**
+ * Builds the character limit lines for prompts.
+ *
+ * @param settings - Generation settings.
+ * @returns Markdown list lines, one per field type.
+ */
+export const buildCharacterLimits = (settings: GenerationSettings): string => {
+  const budget = getCharacterBudget(settings);
+  const unit = settings.language.cjk ? " (count each CJK character)" : "";
+  return `- Headlines: ${budget.headline} chars max${unit}
+- Subtitles: ${budget.subtitle} chars max (or OMIT entirely)
+- Bullet points: ${budget.bullet} chars each
+- Descriptions: ${budget.description} chars max
+- Value fields: ${budget.value} chars max ("$48B", "$1.2M", "127%")
+- Total per slide: Under ${budget.total} chars`;
+};
+
+/**
+ * Builds the style section for user prompts: tone and the user's
+ * instructions.
+ *
+ * @param settings - Generation settings.
+ * @returns A markdown section ending with a blank line, or an empty string
+ *   when the settings add nothing to the default style.
+ */
+export const buildStyleSection = (settings: GenerationSettings): string => {
+  const lines: string[] = [];
+  if (settings.tone) {
+    lines.push(`- Tone: ${TONE_GUIDANCE[settings.tone]}`);
+  }
+  if (settings.instructions) {
+    lines.push(`- User instructions (apply to every slide):
+${settings.instructions}`);
+  }
+  return lines.length > 0
+    ? `## STYLE (Overrides default voice where they conflict):
+${lines.join("\n")}
+
+`
+    : "";
+};
+
+/**
+ * Builds the instruction for a slide's speaker notes.
+ *
+ * Notes are spoken, so they may use full sentences and are longer than the
+ * slide text; their length follows the verbosity. For CJK languages the
+ * length is given in characters, at two per word.
+ *
+ * @param settings - Generation settings.
+ * @returns The instruction, without list marker or trailing newline.
+ */
+export const buildSpeakerNoteRule = (settings: GenerationSettings): string => {
+  const [min, max] = SPEAKER_NOTE_WORDS[settings.verbosity];
+  const length = settings.language.cjk
+    ? `${min * 2}-${max * 2} characters`
+    : `${min}-${max} words`;
+  const tone = settings.tone ? ", in the tone given under STYLE" : "";
+  return `SPEAKER NOTES: Add "__speaker_note__" with what the presenter says on this slide: ${length} of natural spoken sentences in ${settings.language.name}${tone}. Explain the hero number and lead into the next topic; do not read the slide text back.`;
+};
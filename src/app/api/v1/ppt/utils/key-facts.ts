@@ -0,0 +1,377 @@
+/**
+ * Key facts: the presentation's single source of truth for its key figures.
+ *
+ * Slides are generated independently, so without a shared reference the
+ * traction ARR, the ask's raise and the market sizes drift apart. Before the
+ * first slide generation, the key figures are extracted from the user's
+ * prompt and documents and saved on the presentation. Every slide prompt and
+ * AI edit then receives them, and the user can edit them.
+ *
+ * A slide field is bound to a fact when it shows the fact's value. Bindings
+ * are found by matching figures ("$1.2M" matches "$1,200K"), so they follow
+ * the slides as they are edited; when two facts share a value, the fact
+ * whose label appears in the field wins. Changing a fact rewrites the value
+ * in every bound field.
+ */
+
+import { updatePresentation } from "@/server/db/presentations";
+import type { PresentationRecord } from "@/server/db/presentations";
+import type { SlideRecord } from "@/server/db/slides";
+import { generateJson } from "@/server/llm";
+import type { DocumentSearchIndex } from "@/server/retrieval";
+import type { KeyFact } from "@/types/presentation";
+import { applyCollabOp } from "@/utils/collab";
+
+import { collectTextFields, findFigures, isSameFigure } from "./deck-review";
+import {
+  buildFullSourceContent,
+  retrieveDocumentContext,
+} from "./document-resolver";
+
+/**
+ * Standard key facts and their labels, in the order they are listed.
+ */
+export const KEY_FACT_LABELS: Record<string, string> = {
+  arr: "ARR",
+  mrr: "MRR",
+  revenue: "Revenue",
+  customers: "Customers",
+  raise: "Raise",
+  valuation: "Valuation",
+  tam: "TAM",
+  sam: "SAM",
+  som: "SOM",
+  runway: "Runway",
+  burn: "Monthly burn",
+};
+
+/**
+ * Other words that name a standard fact in slide text, besides its label.
+ */
+const KEY_FACT_ALIASES: Record<string, string[]> = {
+  raise: ["raising", "round", "ask"],
+  customers: ["clients", "users"],
+  valuation: ["valued", "pre-money", "post-money"],
+  burn: ["burn"],
+};
+
+/**
+ * Query used to retrieve the document passages facts are extracted from.
+ */
+const KEY_FACT_QUERY =
+  "ARR MRR revenue customers users raise raising round funding valuation " +
+  "TAM SAM SOM market size runway burn";
+
+/**
+ * Field of a slide showing a key fact's value.
+ *
+ * @property key - Key of the fact.
+ * @property slide_id - ID of the slide.
+ * @property slide_index - Zero-based position of the slide.
+ * @property path - Data path of the field ("metrics[0].value").
+ * @property text - The value as written in the field ("$1.2M").
+ */
+export type KeyFactBinding = {
+  key: string;
+  slide_id: string;
+  slide_index: number;
+  path: string;
+  text: string;
+};
+
+/**
+ * System prompt for key fact extraction.
+ */
+const KEY_FACTS_SYSTEM_PROMPT = `You extract the key figures of a startup pitch from the founder's notes and documents.
+
+Extract ONLY figures the source states. Never estimate, calculate or invent a figure. Omit facts the source does not give.
+
+Facts (use these keys):
+${Object.entries(KEY_FACT_LABELS)
+  .map(([key, label]) => `- ${key}: ${label}`)
+  .join("\n")}
+
+Rules:
+- value: ONE compact value as it should appear on a slide ("$1.2M", "$48B", "127", "18 months"); no ranges
+- Use the most recent figure when the source has several
+- raise: the amount being raised in this round; valuation: pre- or post-money as stated
+- Add other figures central to the pitch (e.g. "gmv", "retention") only if the source states them, with a short label
+
+Return ONLY valid JSON:
+{ "facts": [{ "key": "arr", "label": "ARR", "value": "$1.2M" }] }`;
+
+/**
+ * Reads a list of facts from untrusted input (model output or a request
+ * body), dropping malformed entries and duplicate keys.
+ *
+ * @param value - The list to read.
+ * @param source - Source to record on facts that do not have a valid one.
+ * @returns The facts, keys lowercased.
+ */
+export const parseKeyFacts = (
+  value: unknown,
+  source: KeyFact["source"],
+): KeyFact[] => {
+  const facts: KeyFact[] = [];
+  for (const entry of Array.isArray(value) ? value : []) {
+    if (typeof entry !== "object" || entry === null) continue;
+    const fact = entry as Record<string, unknown>;
+    const key =
+      typeof fact.key === "string"
+        ? fact.key.trim().toLowerCase().replace(/\s+/g, "_")
+        : "";
+    const factValue = typeof fact.value === "string" ? fact.value.trim() : "";
+    if (!key || !factValue || facts.some((item) => item.key === key)) {
+      continue;
+    }
+    const label =
+      typeof fact.label === "string" && fact.label.trim()
+        ? fact.label.trim()
+        : (KEY_FACT_LABELS[key] ?? key);
+    facts.push({
+      key,
+      label,
+      value: factValue,
+      source:
+        fact.source === "source" || fact.source === "user"
+          ? fact.source
+          : source,
+    });
+  }
+  return facts;
+};
+
+/**
+ * Extracts the key facts from a presentation's prompt and documents.
+ *
+ * Values whose figures do not appear in the source are dropped, so a
+ * figure the model made up never becomes a fact.
+ *
+ * @param presentation - The presentation.
+ * @param documentIndex - Search index over its documents, or null.
+ * @returns The facts found, or null if the model call failed.
+ */
+export const extractKeyFacts = async (
+  presentation: PresentationRecord,
+  documentIndex: DocumentSearchIndex | null,
+): Promise<KeyFact[] | null> => {
+  const documents = retrieveDocumentContext(documentIndex, KEY_FACT_QUERY);
+  const source = buildFullSourceContent(
+    presentation.content || "",
+    documents.content,
+  );
+  if (!source.trim()) return [];
+
+  try {
+    const json = await generateJson(
+      KEY_FACTS_SYSTEM_PROMPT,
+      `## SOURCE:\n${source}`,
+    );
+    const sourceFigures = findFigures(source);
+    return parseKeyFacts(json.facts, "source").filter((fact) =>
+      findFigures(fact.value).every((figure) =>
+        sourceFigures.some((candidate) => isSameFigure(candidate, figure)),
+      ),
+    );
+  } catch (error) {
+    console.error("Key fact extraction failed:", error);
+    return null;
+  }
+};
+
+/**
+ * Returns a presentation's key facts, extracting and saving them first if
+ * that has not happened yet.
+ *
+ * A failed extraction is not saved, so the next generation tries again.
+ *
+ * @param owner - ID of the user the presentation belongs to.
+ * @param presentation - The presentation.
+ * @param documentIndex - Search index over its documents, or null.
+ * @returns The key facts; empty if there are none or extraction failed.
+ */
+export const resolveKeyFacts = async (
+  owner: string,
+  presentation: PresentationRecord,
+  documentIndex: DocumentSearchIndex | null,
+): Promise<KeyFact[]> => {
+  if (presentation.key_facts) return presentation.key_facts;
+  const facts = await extractKeyFacts(presentation, documentIndex);
+  if (!facts) return [];
+  await updatePresentation(owner, presentation.id, { key_facts: facts });
+  return facts;
+};
+
+/**
+ * Builds the key facts section of slide and edit prompts.
+ *
+ * @param facts - The presentation's key facts.
+ * @returns The prompt section, or an empty string if there are none.
+ */
+export const buildKeyFactsSection = (facts: KeyFact[] | null): string => {
+  if (!facts?.length) return "";
+  return `## KEY FACTS (Single source of truth; whenever the slide states one of these, use this exact value and never a different one):
+${facts.map((fact) => `- ${fact.label}: ${fact.value}`).join("\n")}
+
+`;
+};
+
+/**
+ * Escapes a string for use in a regular expression.
+ */
+const escapeRegExp = (value: string) =>
+  value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+/**
+ * Checks whether text names a fact by its label, key or an alias ("ARR",
+ * "raising").
+ */
+const mentionsFact = (text: string, fact: KeyFact): boolean =>
+  [
+    fact.label,
+    fact.key.replace(/_/g, " "),
+    ...(KEY_FACT_ALIASES[fact.key] ?? []),
+  ].some((name) =>
+    new RegExp(
+      `(^|[^\\p{L}\\p{N}])${escapeRegExp(name)}($|[^\\p{L}\\p{N}])`,
+      "iu",
+    ).test(text),
+  );
+
+/**
+ * Finds the slide fields that show each fact's value.
+ *
+ * Numeric facts match figures of the same value in any format; other facts
+ * match their exact text. A value alone is not enough: the field or its
+ * sibling fields (e.g. the label next to a metric's value) must also name
+ * the fact, so "12 months runway" is not bound to 12 customers. When
+ * several named facts share a value, the first one wins.
+ *
+ * @param facts - The presentation's key facts.
+ * @param slides - The presentation's slides.
+ * @returns Bindings in slide order.
+ *
+ * @example
+ * ```typescript
+ * findKeyFactBindings([{ key: "arr", label: "ARR", value: "$1.2M", ... }], slides);
+ * // Returns: [{ key: "arr", slide_index: 4, path: "metrics[0].value", text: "$1.2M", ... }]
+ * ```
+ */
+export const findKeyFactBindings = (
+  facts: KeyFact[],
+  slides: Pick<SlideRecord, "id" | "content">[],
+): KeyFactBinding[] => {
+  const factFigures = facts.map((fact) => findFigures(fact.value));
+  const bindings: KeyFactBinding[] = [];
+
+  slides.forEach((slide, slideIndex) => {
+    const fields = collectTextFields(slide.content);
+    for (const field of fields) {
+      const parent = field.path.replace(/\.?[^.[\]]+$/, "");
+      const context = fields
+        .filter((other) => other.path.startsWith(`${parent}.`))
+        .map((other) => other.text)
+        .join(" ");
+
+      const matches: { fact: KeyFact; text: string }[] = [];
+      facts.forEach((fact, factIndex) => {
+        const [target] = factFigures[factIndex];
+        if (!target) {
+          if (fact.value.length >= 3 && field.text.includes(fact.value)) {
+            matches.push({ fact, text: fact.value });
+          }
+          return;
+        }
+        const figure = findFigures(field.text).find((candidate) =>
+          isSameFigure(candidate, target),
+        );
+        if (figure) matches.push({ fact, text: figure.raw });
+      });
+
+      const seen = new Set<string>();
+      for (const match of matches) {
+        if (seen.has(match.text)) continue;
+        const chosen = matches.find(
+          (other) =>
+            other.text === match.text &&
+            mentionsFact(`${field.text} ${context}`, other.fact),
+        );
+        seen.add(match.text);
+        if (!chosen) continue;
+        bindings.push({
+          key: chosen.fact.key,
+          slide_id: slide.id,
+          slide_index: slideIndex,
+          path: field.path,
+          text: chosen.text,
+        });
+      }
+    }
+  });
+  return bindings;
+};
+
+/**
+ * Rewrites the slide fields bound to facts whose value changed.
+ *
+ * @param previous - Facts before the change; bindings are found with these.
+ * @param next - Facts after the change.
+ * @param slides - The presentation's slides.
+ * @returns The slides that changed, with their new content.
+ *
+ * @example
+ * ```typescript
+ * propagateKeyFacts(
+ *   [{ key: "arr", value: "$1.2M", ... }],
+ *   [{ key: "arr", value: "$1.5M", ... }],
+ *   slides,
+ * );
+ * // Returns: [{ slide: <traction slide>, content: { ..."$1.5M"... } }, ...]
+ * ```
+ */
+export const propagateKeyFacts = (
+  previous: KeyFact[],
+  next: KeyFact[],
+  slides: SlideRecord[],
+): { slide: SlideRecord; content: Record<string, unknown> }[] => {
+  const newValues = new Map(next.map((fact) => [fact.key, fact.value]));
+  const changed = previous.filter((fact) => {
+    const value = newValues.get(fact.key);
+    return value !== undefined && value !== fact.value;
+  });
+  if (changed.length === 0) return [];
+
+  const bindings = findKeyFactBindings(previous, slides).filter((binding) =>
+    changed.some((fact) => fact.key === binding.key),
+  );
+  const results: { slide: SlideRecord; content: Record<string, unknown> }[] =
+    [];
+  for (const slide of slides) {
+    const slideBindings = bindings.filter(
+      (binding) => binding.slide_id === slide.id,
+    );
+    if (slideBindings.length === 0) continue;
+    const fields = new Map(
+      collectTextFields(slide.content).map((field) => [field.path, field]),
+    );
+    const [updated] = slideBindings.reduce<SlideRecord[]>(
+      (current, binding) => {
+        const field = fields.get(binding.path);
+        if (!field) return current;
+        const text = field.text
+          .split(binding.text)
+          .join(newValues.get(binding.key) ?? binding.text);
+        fields.set(binding.path, { ...field, text });
+        return applyCollabOp(current, {
+          type: "set",
+          slide_id: slide.id,
+          path: binding.path,
+          value: text,
+        });
+      },
+      [slide],
+    );
+    results.push({ slide, content: updated.content ?? {} });
+  }
+  return results;
+};
@@ -0,0 +1,551 @@
+import { generateJson } from "@/server/llm";
+import {
+  LayoutChoice,
+  LayoutChoiceSource,
+  LayoutPayload,
+  LayoutSlide,
+  Outline,
+  PresentationStructure,
+  SlideSchema,
+} from "../types/streaming";
+
+/**
+ * Pitch deck slide topics and the words that signal them.
+ *
+ * Used by the keyword matcher to recognise both what an outline is about and
+ * what a layout is designed for. Multi-word phrases are matched on word
+ * boundaries against normalized text.
+ */
+const SLIDE_TOPICS: Record<string, string[]> = {
+  intro: [
+    "intro",
+    "introduction",
+    "title",
+    "cover",
+    "tagline",
+    "welcome",
+    "overview",
+    "vision",
+    "mission",
+  ],
+  agenda: [
+    "agenda",
+    "table of contents",
+    "contents",
+    "toc",
+    "sections",
+  ],
+  problem: [
+    "problem",
+    "pain",
+    "pain point",
+    "challenge",
+    "struggle",
+    "broken",
+    "frustration",
+    "inefficiency",
+  ],
+  solution: [
+    "solution",
+    "product",
+    "platform",
+    "how it works",
+    "demo",
+    "feature",
+    "features",
+    "value proposition",
+  ],
+  diagram: [
+    "diagram",
+    "flywheel",
+    "architecture",
+    "workflow",
+    "loop",
+    "stack",
+    "layers",
+  ],
+  market: [
+    "market",
+    "tam",
+    "sam",
+    "som",
+    "market size",
+    "opportunity",
+    "industry",
+  ],
+  traction: [
+    "traction",
+    "growth",
+    "arr",
+    "mrr",
+    "users",
+    "customers",
+    "metrics",
+    "kpi",
+    "retention",
+    "revenue growth",
+  ],
+  business_model: [
+    "business model",
+    "pricing",
+    "monetization",
+    "unit economics",
+    "ltv",
+    "cac",
+    "subscription",
+    "revenue model",
+    "margin",
+  ],
+  go_to_market: [
+    "go to market",
+    "gtm",
+    "distribution",
+    "sales",
+    "channel",
+    "channels",
+    "acquisition",
+    "funnel",
+    "partnerships",
+    "pipeline",
+  ],
+  competition: [
+    "competition",
+    "competitor",
+    "competitors",
+    "competitive",
+    "landscape",
+    "alternatives",
+    "versus",
+    "vs",
+    "differentiation",
+    "moat",
+  ],
+  team: [
+    "team",
+    "founder",
+    "founders",
+    "ceo",
+    "cto",
+    "leadership",
+    "advisor",
+    "advisors",
+    "members",
+  ],
+  roadmap: [
+    "roadmap",
+    "timeline",
+    "milestone",
+    "milestones",
+    "next steps",
+    "phase",
+    "phases",
+  ],
+  ask: [
+    "ask",
+    "raise",
+    "raising",
+    "funding",
+    "investment",
+    "round",
+    "seed",
+    "series",
+    "use of funds",
+    "runway",
+  ],
+};
+
+/**
+ * Maximum characters of each outline included in the planning prompt.
+ */
+const MAX_OUTLINE_PROMPT_CHARS = 400;
+
+/**
+ * System prompt for the layout-planning LLM call.
+ */
+const LAYOUT_PLANNER_SYSTEM_PROMPT = `You are a pitch deck designer assigning slide layouts.
+
+For each outline, pick the ONE layout whose purpose and fields best fit that outline's content.
+- Match on meaning (a team outline goes to a team layout), never on position
+- An AGENDA outline goes to an agenda / table of contents layout when the template has one
+- Prefer layouts whose fields can hold the outline's data (metrics, members, phases, etc.)
+- Reusing a layout is allowed when several outlines share a purpose
+- Every outline index you are given must appear exactly once
+
+Return JSON only: { "slides": [{ "outline": 0, "layout": 2 }, ...] }`;
+
+/**
+ * Splits text into lowercase word tokens, breaking camelCase and kebab-case.
+ *
+ * @param value - Raw text, identifier, or schema key.
+ * @returns Normalized text with single spaces between tokens.
+ */
+const normalizeText = (value: string): string =>
+  value
+    .replace(/([a-z])([A-Z])/g, "$1 $2")
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(Boolean)
+    .join(" ");
+
+/**
+ * Collects property names from a slide schema, including nested objects and
+ * array items.
+ *
+ * @param schema - Layout JSON schema.
+ * @returns Flat list of property names.
+ */
+const collectSchemaKeys = (schema: SlideSchema | undefined): string[] => {
+  if (!schema) return [];
+  const keys: string[] = [];
+  for (const [key, child] of Object.entries(schema.properties ?? {})) {
+    keys.push(key, ...collectSchemaKeys(child));
+  }
+  if (schema.items) {
+    keys.push(...collectSchemaKeys(schema.items));
+  }
+  return keys;
+};
+
+/**
+ * Scores how strongly a piece of text signals each slide topic.
+ *
+ * @param text - Normalized text (see normalizeText).
+ * @param weight - Weight added per matching keyword.
+ * @param scores - Accumulator of topic scores, mutated in place.
+ */
+const addTopicScores = (
+  text: string,
+  weight: number,
+  scores: Map<string, number>,
+) => {
+  if (!text) return;
+  const padded = ` ${text} `;
+  for (const [topic, keywords] of Object.entries(SLIDE_TOPICS)) {
+    const hits = keywords.filter((keyword) =>
+      padded.includes(` ${keyword} `),
+    ).length;
+    if (hits) {
+      scores.set(topic, (scores.get(topic) ?? 0) + hits * weight);
+    }
+  }
+};
+
+/**
+ * Builds topic scores for a layout from its ID, name, description and schema
+ * fields. Names and IDs weigh more than descriptions, which weigh more than
+ * field names.
+ */
+const getLayoutTopics = (layout: LayoutSlide) => {
+  const scores = new Map<string, number>();
+  addTopicScores(normalizeText(layout.id?.split(":").pop() ?? ""), 3, scores);
+  addTopicScores(normalizeText(layout.name ?? ""), 3, scores);
+  addTopicScores(normalizeText(layout.description ?? ""), 2, scores);
+  addTopicScores(
+    normalizeText(
+      collectSchemaKeys(layout.json_schema as SlideSchema | undefined).join(" "),
+    ),
+    1,
+    scores,
+  );
+  return scores;
+};
+
+/**
+ * Builds topic scores for an outline. The leading label (e.g. "TEAM -" or
+ * "PROBLEM:") that generated outlines start with counts extra.
+ */
+const getOutlineTopics = (outline: Outline) => {
+  const scores = new Map<string, number>();
+  const content = outline.content || "";
+  const label = content.match(/^\s*\[?([^:\-–|\]\n]{2,40})[\]:\-–|]/)?.[1];
+  if (label) {
+    addTopicScores(normalizeText(label), 3, scores);
+  }
+  addTopicScores(normalizeText(content), 1, scores);
+  return scores;
+};
+
+/**
+ * Recognises the pitch deck topic of a finished slide from its text.
+ *
+ * Uses the same keywords as layout planning; the title counts more than the
+ * rest of the slide's text.
+ *
+ * @param title - The slide's title (or layout name), possibly empty.
+ * @param text - All text of the slide.
+ * @returns The best-matching topic ("problem", "team", ...), or null if no
+ *   keyword matched.
+ *
+ * @example
+ * ```typescript
+ * detectSlideTopic("Meet the Team", "CEO Ex-Amazon · CTO Ex-Stripe");
+ * // Returns: "team"
+ * ```
+ */
+export const detectSlideTopic = (
+  title: string,
+  text: string,
+): string | null => {
+  const scores = new Map<string, number>();
+  addTopicScores(normalizeText(title), 3, scores);
+  addTopicScores(normalizeText(text), 1, scores);
+  let best: string | null = null;
+  let bestScore = 0;
+  for (const [topic, score] of scores) {
+    if (score > bestScore) {
+      best = topic;
+      bestScore = score;
+    }
+  }
+  return best;
+};
+
+/**
+ * Returns the layout index the old position-based mapping would use. Kept as
+ * the tie-breaker so decks without recognisable topics behave as before.
+ */
+const getPositionalIndex = (
+  slideIndex: number,
+  totalLayouts: number,
+  ordered: boolean | undefined,
+) =>
+  ordered
+    ? Math.min(slideIndex, totalLayouts - 1)
+    : slideIndex % totalLayouts;
+
+/**
+ * Maps outlines to layouts by matching slide topics, without any LLM call.
+ *
+ * Each outline is scored against every layout by multiplying their topic
+ * weights. Layouts already used lose a little score so distinct topics spread
+ * across distinct layouts, and the positional layout wins ties. When an
+ * outline matches nothing, the positional layout is used.
+ *
+ * @param outlines - Slide outlines, in deck order.
+ * @param layout - Layout payload with the template's layout slides.
+ * @returns One layout index per outline.
+ *
+ * @example
+ * ```typescript
+ * planLayoutsByKeywords([{ content: "TEAM - Hero: 2 ex-Stripe founders" }], layout);
+ * // Returns: [7] when layout.slides[7] is the template's team layout
+ * ```
+ */
+export const planLayoutsByKeywords = (
+  outlines: Outline[],
+  layout: LayoutPayload,
+): number[] => {
+  const layoutSlides = layout.slides ?? [];
+  const totalLayouts = layoutSlides.length;
+  if (!totalLayouts) {
+    return outlines.map(() => 0);
+  }
+
+  const layoutTopics = layoutSlides.map(getLayoutTopics);
+  const usage = new Array<number>(totalLayouts).fill(0);
+
+  return outlines.map((outline, slideIndex) => {
+    const positional = getPositionalIndex(
+      slideIndex,
+      totalLayouts,
+      layout.ordered,
+    );
+    const outlineTopics = getOutlineTopics(outline);
+    if (!outlineTopics.size) {
+      usage[positional] += 1;
+      return positional;
+    }
+
+    let bestIndex = positional;
+    let bestScore = 0;
+    layoutTopics.forEach((topics, layoutIndex) => {
+      let score = 0;
+      for (const [topic, weight] of outlineTopics) {
+        score += weight * (topics.get(topic) ?? 0);
+      }
+      if (score <= 0) return;
+      score -= usage[layoutIndex] * 0.5;
+      if (layoutIndex === positional) score += 0.25;
+      if (score > bestScore) {
+        bestScore = score;
+        bestIndex = layoutIndex;
+      }
+    });
+
+    usage[bestIndex] += 1;
+    return bestIndex;
+  });
+};
+
+/**
+ * Describes a layout for the planning prompt: name, description and the
+ * top-level fields it can hold.
+ */
+const describeLayout = (layout: LayoutSlide, index: number) => {
+  const fields = Object.keys(
+    (layout.json_schema as SlideSchema | undefined)?.properties ?? {},
+  );
+  const name = layout.name || layout.id || `Layout ${index + 1}`;
+  const description = layout.description ? ` — ${layout.description}` : "";
+  return `[${index}] ${name}${description} (fields: ${fields.join(", ") || "none"})`;
+};
+
+/**
+ * Asks the LLM to map the given outlines to layouts.
+ *
+ * @param outlines - All slide outlines, in deck order.
+ * @param layout - Layout payload with the template's layout slides.
+ * @param pending - Indices of the outlines that still need a layout.
+ * @returns Map from outline index to layout index for every valid answer.
+ *   Outlines the model skipped or answered out of range are left out.
+ */
+const planLayoutsWithLlm = async (
+  outlines: Outline[],
+  layout: LayoutPayload,
+  pending: number[],
+): Promise<Map<number, number>> => {
+  const layoutSlides = layout.slides ?? [];
+  const userPrompt = `## LAYOUTS
+${layoutSlides.map(describeLayout).join("\n")}
+
+## OUTLINES
+${pending
+  .map(
+    (index) =>
+      `[${index}] ${(outlines[index]?.content || "").slice(0, MAX_OUTLINE_PROMPT_CHARS)}`,
+  )
+  .join("\n")}
+
+Assign a layout index to each outline index listed above.`;
+
+  const json = await generateJson(
+    LAYOUT_PLANNER_SYSTEM_PROMPT,
+    userPrompt,
+    "outline",
+  );
+  const entries = Array.isArray(json.slides) ? json.slides : [];
+  const pendingSet = new Set(pending);
+  const result = new Map<number, number>();
+
+  for (const entry of entries) {
+    if (!entry || typeof entry !== "object") continue;
+    const { outline, layout: layoutIndex } = entry as Record<string, unknown>;
+    if (
+      Number.isInteger(outline) &&
+      Number.isInteger(layoutIndex) &&
+      pendingSet.has(outline as number) &&
+      (layoutIndex as number) >= 0 &&
+      (layoutIndex as number) < layoutSlides.length
+    ) {
+      result.set(outline as number, layoutIndex as number);
+    }
+  }
+  return result;
+};
+
+/**
+ * Plans which layout each outline should use, based on what the outline is
+ * about rather than where it sits in the deck.
+ *
+ * Process:
+ * 1. Outlines with a fixed choice (user overrides) keep it
+ * 2. The remaining outlines are sent to the LLM with each layout's name,
+ *    description and fields
+ * 3. Any outline the LLM could not place, or all of them if the call fails,
+ *    falls back to planLayoutsByKeywords
+ *
+ * @param outlines - Slide outlines, in deck order.
+ * @param layout - Layout payload with the template's layout slides.
+ * @param fixed - Optional per-outline choices to keep as-is. Use null (or
+ *   leave the entry out) for outlines that should be planned.
+ * @returns The structure to persist in `presentation.structure`.
+ *
+ * @example
+ * ```typescript
+ * const structure = await planSlideLayouts(outlines, layout);
+ * // Returns: { slides: [0, 1, 2, 7], layouts: [{ index: 0, layout_id: "...", source: "llm" }, ...] }
+ * ```
+ */
+export const planSlideLayouts = async (
+  outlines: Outline[],
+  layout: LayoutPayload,
+  fixed: Array<LayoutChoice | null> = [],
+): Promise<PresentationStructure> => {
+  const layoutSlides = layout.slides ?? [];
+  if (!layoutSlides.length) {
+    return { slides: outlines.map(() => 0), layouts: [] };
+  }
+
+  const toChoice = (index: number, source: LayoutChoiceSource) => ({
+    index,
+    layout_id: layoutSlides[index]?.id ?? null,
+    source,
+  });
+
+  const choices: Array<LayoutChoice | null> = outlines.map((_, slideIndex) => {
+    const choice = fixed[slideIndex];
+    return choice && choice.index >= 0 && choice.index < layoutSlides.length
+      ? choice
+      : null;
+  });
+  const pending = choices.flatMap((choice, slideIndex) =>
+    choice ? [] : [slideIndex],
+  );
+
+  if (pending.length) {
+    let planned = new Map<number, number>();
+    try {
+      planned = await planLayoutsWithLlm(outlines, layout, pending);
+    } catch (error) {
+      console.error("Layout planning failed, using keyword matching:", error);
+    }
+
+    const keywordPlan = planLayoutsByKeywords(outlines, layout);
+    for (const slideIndex of pending) {
+      const llmIndex = planned.get(slideIndex);
+      choices[slideIndex] =
+        llmIndex === undefined
+          ? toChoice(keywordPlan[slideIndex], "keyword")
+          : toChoice(llmIndex, "llm");
+    }
+  }
+
+  const layouts = choices as LayoutChoice[];
+  return { slides: layouts.map((choice) => choice.index), layouts };
+};
+
+/**
+ * Converts per-slide layout selections sent by the client into fixed choices
+ * for planSlideLayouts.
+ *
+ * The client identifies layouts by ID (indices shift when templates change).
+ * Entries that are missing, malformed or name an unknown layout become null
+ * so the slide is planned instead.
+ *
+ * @param value - Raw `structure` value from the request body.
+ * @param layout - Layout payload the IDs refer to.
+ * @returns One fixed choice or null per entry.
+ */
+export const parseLayoutSelections = (
+  value: unknown,
+  layout: LayoutPayload,
+): Array<LayoutChoice | null> => {
+  if (!Array.isArray(value)) return [];
+  const layoutSlides = layout.slides ?? [];
+  const sources: LayoutChoiceSource[] = ["llm", "keyword", "user"];
+
+  return value.map((entry) => {
+    if (!entry || typeof entry !== "object") return null;
+    const { layout_id: layoutId, source } = entry as Record<string, unknown>;
+    if (typeof layoutId !== "string") return null;
+    const index = layoutSlides.findIndex((slide) => slide.id === layoutId);
+    if (index < 0) return null;
+    return {
+      index,
+      layout_id: layoutId,
+      source: sources.includes(source as LayoutChoiceSource)
+        ? (source as LayoutChoiceSource)
+        : "user",
+    };
+  });
+};
@@ -0,0 +1,35 @@
+import {
+  recordSlideRevisions,
+  SlideRevisionInput,
+  SlideRevisionSource,
+} from "@/server/db/slide-revisions";
+
+/**
+ * Records slide revisions without failing the surrounding request.
+ *
+ * Version history is secondary to the change itself: a slide edit or save
+ * that already reached the database must not be reported as failed because
+ * its revision could not be written. Errors are logged instead.
+ *
+ * @param owner - ID of the user the presentation belongs to.
+ * @param presentationId - ID of the presentation the slides belong to.
+ * @param slides - Current state of the slides.
+ * @param source - What produced the change.
+ *
+ * @example
+ * ```typescript
+ * await trackSlideRevisions(owner, slide.presentation, [updated], "ai_edit");
+ * ```
+ */
+export const trackSlideRevisions = async (
+  owner: string,
+  presentationId: string,
+  slides: SlideRevisionInput[],
+  source: SlideRevisionSource,
+): Promise<void> => {
+  try {
+    await recordSlideRevisions(owner, presentationId, slides, source);
+  } catch (error) {
+    console.error(`Failed to record ${source} slide revisions:`, error);
+  }
+};
@@ -0,0 +1,73 @@
+import { NextResponse } from "next/server";
+
+/**
+ * Reads the version a write is based on.
+ *
+ * Clients send the version they last read either as an `If-Match` header
+ * holding the ETag of the resource (`"3"`, or weak `W/"3"`) or as a
+ * `version` field in the body. The header takes precedence.
+ *
+ * @param request - The HTTP request.
+ * @param bodyVersion - The `version` field of the parsed body, if any.
+ * @returns The expected version, or null if the client did not send one
+ *   (or sent `If-Match: *`), in which case the write is unconditional.
+ *
+ * @example
+ * ```typescript
+ * // If-Match: "7"
+ * readExpectedVersion(request, body.version); // 7
+ * ```
+ */
+export const readExpectedVersion = (
+  request: Request,
+  bodyVersion?: unknown,
+): number | null => {
+  const header = request.headers.get("if-match");
+  const match = header?.match(/^(?:W\/)?"?(\d+)"?$/);
+  if (match) return Number(match[1]);
+  return typeof bodyVersion === "number" && Number.isInteger(bodyVersion)
+    ? bodyVersion
+    : null;
+};
+
+/**
+ * Creates a JSON response carrying the resource's version as its ETag.
+ *
+ * @param data - The data to serialize as JSON in the response body.
+ * @param version - Current version of the resource.
+ * @param status - HTTP status code for the response (default: 200).
+ * @returns A NextResponse with the JSON body and an `ETag` header.
+ */
+export const versionedResponse = (
+  data: unknown,
+  version: number,
+  status = 200,
+) =>
+  NextResponse.json(data, {
+    status,
+    headers: { ETag: `"${version}"` },
+  });
+
+/**
+ * Creates the 409 response for a write based on an outdated version.
+ *
+ * The body has the usual `detail` message plus the resource's current
+ * state, so the client can merge its change into it and retry.
+ *
+ * @param detail - Human-readable description of the conflict.
+ * @param current - Current state of the resource.
+ * @param version - Current version of the resource.
+ * @returns A NextResponse with status 409, `{ detail, current }` and the
+ *   current `ETag`.
+ *
+ * @example
+ * ```typescript
+ * return conflictResponse("Slide was changed", slide, slide.version);
+ * // Returns: { detail: "Slide was changed", current: { ... } } with 409
+ * ```
+ */
+export const conflictResponse = (
+  detail: string,
+  current: unknown,
+  version: number,
+) => versionedResponse({ detail, current }, version, 409);
@@ -0,0 +1,42 @@
+import { NextRequest } from "next/server";
+import { withAuthenticatedUser } from "@/server/auth";
+
+/**
+ * Runtime configuration for this API route.
+ * - nodejs: Runs on Node.js runtime (required for database access)
+ * - force-dynamic: Always generates dynamic responses (no caching)
+ */
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+/**
+ * Handles POST requests to stop a running slide generation.
+ *
+ * Workers stop taking new slides from the queue; slides that already
+ * finished are kept and the rest get content derived from their outline.
+ * Clients following the stream receive a `cancelled` event.
+ *
+ * Route parameter:
+ * - `id`: The unique identifier of the presentation being generated
+ *
+ * @param _request - The HTTP request object (unused, but required by Next.js).
+ * @param context - Next.js route context containing dynamic route parameters.
+ * @returns A JSON response with the cancelled job, 404 if the presentation
+ *   does not exist, or 409 if no generation is in progress.
+ *
+ * @example
+ * ```typescript
+ * // Request: POST /api/v1/presentations/abc-123/cancel
+ * // Response: { job: { id: "...", status: "cancelled", ... } }
+ * ```
+ */
+export async function POST(
+  _request: NextRequest,
+  context: { params: Promise<{ id: string }> },
+) {
+  const params = await context.params;
+  const { handlePresentationCancel } = await import(
+    "../../../ppt/handlers/presentation",
+  );
+  return withAuthenticatedUser(() => handlePresentationCancel(params.id));
+}
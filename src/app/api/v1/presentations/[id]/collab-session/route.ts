@@ -0,0 +1,41 @@
+import { NextRequest } from "next/server";
+import { withAuthenticatedUser } from "@/server/auth";
+
+/**
+ * Runtime configuration for this API route.
+ * - nodejs: Runs on Node.js runtime (required for database access)
+ * - force-dynamic: Always generates dynamic responses (no caching)
+ */
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+/**
+ * Handles POST requests to join a presentation's collaboration session.
+ *
+ * Returns the collaboration server URL and a short-lived ticket the editor
+ * connects with, or `{ enabled: false }` when no collaboration server is
+ * configured.
+ *
+ * Route parameter:
+ * - `id`: The unique identifier of the presentation
+ *
+ * @param _request - The HTTP request object (unused, but required by Next.js).
+ * @param context - Next.js route context containing dynamic route parameters.
+ * @returns A JSON response with `{ enabled, url, ticket }`.
+ *
+ * @example
+ * ```typescript
+ * // Request: POST /api/v1/presentations/abc-123/collab-session
+ * // Response: { enabled: true, url: "wss://collab.example.com", ticket: "..." }
+ * ```
+ */
+export async function POST(
+  _request: NextRequest,
+  context: { params: Promise<{ id: string }> },
+) {
+  const params = await context.params;
+  const { handleCollabSessionCreate } = await import(
+    "../../../ppt/handlers/collab"
+  );
+  return withAuthenticatedUser(() => handleCollabSessionCreate(params.id));
+}
@@ -1,4 +1,5 @@
 import { NextRequest } from "next/server";
+import { withAuthenticatedUser } from "@/server/auth";
 
 /**
  * Runtime configuration for this API route.
@@ -22,6 +23,7 @@ export const dynamic = "force-dynamic";
  * - `slides` (required): Array of slide objects with content and styling data
  *
  * @param request - The HTTP request object containing the PPTX model.
+ * @param context - Next.js route context containing dynamic route parameters.
  * @returns A JSON response with the file path where the PPTX was saved.
  *
  * @example
@@ -31,8 +33,12 @@ export const dynamic = "force-dynamic";
  * // Response: { path: "/app_data/exports/presentation.pptx" }
  * ```
  */
-export async function POST(request: NextRequest) {
+export async function POST(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> },
+) {
+  const params = await context.params;
   // Dynamic import to avoid loading export module unless needed
   const { handleExportPptx } = await import("../../../../ppt/handlers/presentation");
-  return handleExportPptx(request);
+  return withAuthenticatedUser(() => handleExportPptx(request, params.id));
 }
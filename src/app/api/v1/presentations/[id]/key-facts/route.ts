@@ -0,0 +1,96 @@
+import { NextRequest } from "next/server";
+import { withAuthenticatedUser } from "@/server/auth";
+
+/**
+ * Runtime configuration for this API route.
+ * - nodejs: Runs on Node.js runtime (required for database access)
+ * - maxDuration: Maximum execution time of 300 seconds (5 minutes)
+ * - force-dynamic: Always generates dynamic responses (no caching)
+ */
+export const runtime = "nodejs";
+export const maxDuration = 300;
+export const dynamic = "force-dynamic";
+
+/**
+ * Handles GET requests for a presentation's key facts.
+ *
+ * Route parameter:
+ * - `id`: The unique identifier of the presentation
+ *
+ * @param _request - The HTTP request object (unused, but required by Next.js).
+ * @param context - Next.js route context containing dynamic route parameters.
+ * @returns A JSON response with the facts and the slide fields bound to them.
+ *
+ * @example
+ * ```typescript
+ * // Request: GET /api/v1/presentations/abc-123/key-facts
+ * // Response: { facts: [...], bindings: [...], extracted: true }
+ * ```
+ */
+export async function GET(
+  _request: NextRequest,
+  context: { params: Promise<{ id: string }> },
+) {
+  const params = await context.params;
+  const { handleKeyFactsGet } = await import(
+    "../../../ppt/handlers/key-facts"
+  );
+  return withAuthenticatedUser(() => handleKeyFactsGet(params.id));
+}
+
+/**
+ * Handles POST requests to extract a presentation's key facts again from
+ * its prompt and documents. Facts entered by the user are kept.
+ *
+ * Route parameter:
+ * - `id`: The unique identifier of the presentation
+ *
+ * @param _request - The HTTP request object (unused, but required by Next.js).
+ * @param context - Next.js route context containing dynamic route parameters.
+ * @returns A JSON response with the new facts and their bindings.
+ */
+export async function POST(
+  _request: NextRequest,
+  context: { params: Promise<{ id: string }> },
+) {
+  const params = await context.params;
+  const { handleKeyFactsExtract } = await import(
+    "../../../ppt/handlers/key-facts"
+  );
+  return withAuthenticatedUser(() => handleKeyFactsExtract(params.id));
+}
+
+/**
+ * Handles PATCH requests to replace a presentation's key facts and write
+ * changed values into every slide field bound to them.
+ *
+ * Route parameter:
+ * - `id`: The unique identifier of the presentation
+ *
+ * Request body:
+ * - `facts` (required): The complete list of facts
+ * - `version` (optional): Presentation version the change is based on (or
+ *   `If-Match` header)
+ *
+ * @param request - The HTTP request object containing the facts.
+ * @param context - Next.js route context containing dynamic route parameters.
+ * @returns A JSON response with the saved facts and the updated slides, or
+ *   409 with the current facts if the presentation changed since `version`.
+ *
+ * @example
+ * ```typescript
+ * // Request: PATCH /api/v1/presentations/abc-123/key-facts
+ * // Body: { version: 12, facts: [{ key: "arr", label: "ARR", value: "$1.5M" }] }
+ * // Response: { facts: [...], bindings: [...], updated_slides: [...] }
+ * ```
+ */
+export async function PATCH(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> },
+) {
+  const params = await context.params;
+  const { handleKeyFactsUpdate } = await import(
+    "../../../ppt/handlers/key-facts"
+  );
+  return withAuthenticatedUser(() => handleKeyFactsUpdate(request, params.id));
+}
@@ -0,0 +1,40 @@
+import { NextRequest } from "next/server";
+import { withAuthenticatedUser } from "@/server/auth";
+
+/**
+ * Runtime configuration for this API route.
+ * - nodejs: Runs on Node.js runtime (required for database access)
+ * - force-dynamic: Always generates dynamic responses (no caching)
+ */
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+/**
+ * Handles DELETE requests to remove a user from a presentation.
+ *
+ * Route parameters:
+ * - `id`: The unique identifier of the presentation
+ * - `userId`: ID of the member to remove
+ *
+ * @param _request - The HTTP request object (unused, but required by Next.js).
+ * @param context - Next.js route context containing dynamic route parameters.
+ * @returns A 204 response.
+ *
+ * @example
+ * ```typescript
+ * // Request: DELETE /api/v1/presentations/abc-123/members/user-456
+ * // Response: 204 No Content
+ * ```
+ */
+export async function DELETE(
+  _request: NextRequest,
+  context: { params: Promise<{ id: string; userId: string }> },
+) {
+  const params = await context.params;
+  const { handleMemberRemove } = await import(
+    "../../../../ppt/handlers/members"
+  );
+  return withAuthenticatedUser(() =>
+    handleMemberRemove(params.id, params.userId),
+  );
+}
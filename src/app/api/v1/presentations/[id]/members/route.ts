@@ -0,0 +1,65 @@
+import { NextRequest } from "next/server";
+import { withAuthenticatedUser } from "@/server/auth";
+
+/**
+ * Runtime configuration for this API route.
+ * - nodejs: Runs on Node.js runtime (required for database access)
+ * - force-dynamic: Always generates dynamic responses (no caching)
+ */
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+/**
+ * Handles GET requests to list the users invited to a presentation.
+ *
+ * Route parameter:
+ * - `id`: The unique identifier of the presentation
+ *
+ * @param _request - The HTTP request object (unused, but required by Next.js).
+ * @param context - Next.js route context containing dynamic route parameters.
+ * @returns A JSON response with the presentation's members.
+ *
+ * @example
+ * ```typescript
+ * // Request: GET /api/v1/presentations/abc-123/members
+ * // Response: { members: [{ user_id: "...", email: "ana@acme.com", role: "editor", ... }] }
+ * ```
+ */
+export async function GET(
+  _request: NextRequest,
+  context: { params: Promise<{ id: string }> },
+) {
+  const params = await context.params;
+  const { handleMembersList } = await import("../../../ppt/handlers/members");
+  return withAuthenticatedUser(() => handleMembersList(params.id));
+}
+
+/**
+ * Handles POST requests to invite a user to a presentation.
+ *
+ * Route parameter:
+ * - `id`: The unique identifier of the presentation
+ *
+ * Request body:
+ * - `email` (required): Email address of an existing user
+ * - `role` (optional): "editor" (default) or "viewer"
+ *
+ * @param request - The HTTP request object containing the invitation.
+ * @param context - Next.js route context containing dynamic route parameters.
+ * @returns A JSON response with the membership.
+ *
+ * @example
+ * ```typescript
+ * // Request: POST /api/v1/presentations/abc-123/members
+ * // Body: { email: "ana@acme.com", role: "editor" }
+ * // Response: { id: "...", email: "ana@acme.com", role: "editor", ... }
+ * ```
+ */
+export async function POST(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> },
+) {
+  const params = await context.params;
+  const { handleMemberInvite } = await import("../../../ppt/handlers/members");
+  return withAuthenticatedUser(() => handleMemberInvite(request, params.id));
+}
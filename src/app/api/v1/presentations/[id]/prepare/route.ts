@@ -1,4 +1,5 @@
 import { NextRequest } from "next/server";
+import { withAuthenticatedUser } from "@/server/auth";
 
 /**
  * Runtime configuration for this API route.
@@ -24,6 +25,8 @@ export const dynamic = "force-dynamic";
  * Request body:
  * - `outlines` (required): Array of outline objects
  * - `layout` (required): Layout configuration object with slides array
+ * - `structure` (optional): Per-outline layout selections to keep; other
+ *   slides are matched to layouts by content
  *
  * @param request - The HTTP request object containing preparation data.
  * @param context - Next.js route context containing dynamic route parameters.
@@ -48,5 +51,5 @@ export async function POST(
   const { handlePresentationPrepare } = await import(
     "../../../ppt/handlers/presentation",
   );
-   return handlePresentationPrepare(request, body);
+   return withAuthenticatedUser(() => handlePresentationPrepare(request, body));
 }
@@ -0,0 +1,48 @@
+import { NextRequest } from "next/server";
+import { withAuthenticatedUser } from "@/server/auth";
+
+/**
+ * Runtime configuration for this API route.
+ * - nodejs: Runs on Node.js runtime (required for database access)
+ * - force-dynamic: Always generates dynamic responses (no caching)
+ */
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+/**
+ * Handles POST requests to regenerate slides of a presentation.
+ *
+ * Each listed slide is generated again from its outline with fresh document
+ * and web context, streamed over SSE like deck generation. Locked fields keep
+ * their values, and each slide's prior content is kept in its history.
+ *
+ * Route parameter:
+ * - `id`: The unique identifier of the presentation
+ *
+ * Request body:
+ * - `slide_ids` (required): Slides to regenerate
+ * - `locked` (optional): Data paths of the fields to keep, per slide ID
+ *
+ * @param request - The HTTP request object containing the slides.
+ * @param context - Next.js route context containing dynamic route parameters.
+ * @returns An SSE response with `slides_init`, `slide_delta`, `slide`,
+ *   `progress` and `complete` events.
+ *
+ * @example
+ * ```typescript
+ * // Request: POST /api/v1/presentations/abc-123/regenerate
+ * // Body: { slide_ids: ["slide-5", "slide-6"], locked: { "slide-5": ["title"] } }
+ * ```
+ */
+export async function POST(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> },
+) {
+  const params = await context.params;
+  const { handleSlidesRegenerate } = await import(
+    "../../../ppt/handlers/presentation"
+  );
+  return withAuthenticatedUser(() =>
+    handleSlidesRegenerate(request, params.id),
+  );
+}
@@ -0,0 +1,40 @@
+import { NextRequest } from "next/server";
+import { withAuthenticatedUser } from "@/server/auth";
+
+/**
+ * Runtime configuration for this API route.
+ * - nodejs: Runs on Node.js runtime (required for database access)
+ * - maxDuration: Maximum execution time of 300 seconds (5 minutes)
+ * - force-dynamic: Always generates dynamic responses (no caching)
+ */
+export const runtime = "nodejs";
+export const maxDuration = 300;
+export const dynamic = "force-dynamic";
+
+/**
+ * Handles POST requests to review a presentation for investor readiness.
+ *
+ * Scores each slide and the deck overall, and returns findings with edit
+ * instructions that can be applied through the AI slide edit.
+ *
+ * Route parameter:
+ * - `id`: The unique identifier of the presentation
+ *
+ * @param _request - The HTTP request object (unused, but required by Next.js).
+ * @param context - Next.js route context containing dynamic route parameters.
+ * @returns A JSON response with the deck's scorecard.
+ *
+ * @example
+ * ```typescript
+ * // Request: POST /api/v1/presentations/abc-123/review
+ * // Response: { score: 68, summary: "...", missing_sections: [...], slides: [...] }
+ * ```
+ */
+export async function POST(
+  _request: NextRequest,
+  context: { params: Promise<{ id: string }> },
+) {
+  const params = await context.params;
+  const { handleDeckReview } = await import("../../../ppt/handlers/review");
+  return withAuthenticatedUser(() => handleDeckReview(params.id));
+}
@@ -1,4 +1,5 @@
 import { NextRequest } from "next/server";
+import { withAuthenticatedUser } from "@/server/auth";
 import {
   handlePresentationGet,
   handlePresentationDelete,
@@ -38,7 +39,7 @@ export async function GET(
   context: { params: Promise<{ id: string }> },
 ) {
   const params = await context.params;
-  return handlePresentationGet(params.id);
+  return withAuthenticatedUser(() => handlePresentationGet(params.id));
 }
 
 /**
@@ -77,7 +78,7 @@ export async function PATCH(
   // The handler expects id in the body, but we get it from route params
   body.id = params.id;
   const { handlePresentationUpdate } = await import("../../ppt/handlers/presentation");
-  return handlePresentationUpdate(request, body);
+  return withAuthenticatedUser(() => handlePresentationUpdate(request, body));
 }
 
 /**
@@ -105,5 +106,5 @@ export async function DELETE(
   context: { params: Promise<{ id: string }> },
 ) {
   const params = await context.params;
-  return handlePresentationDelete(params.id);
+  return withAuthenticatedUser(() => handlePresentationDelete(params.id));
 }
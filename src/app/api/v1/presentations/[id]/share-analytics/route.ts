@@ -0,0 +1,40 @@
+import { NextRequest } from "next/server";
+import { withAuthenticatedUser } from "@/server/auth";
+
+/**
+ * Runtime configuration for this API route.
+ * - nodejs: Runs on Node.js runtime (required for database access)
+ * - force-dynamic: Always generates dynamic responses (no caching)
+ */
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+/**
+ * Handles GET requests for the view analytics of a presentation.
+ *
+ * Summarizes visits through all of the presentation's share links: who
+ * opened the deck, how far they got and how long they spent on each slide.
+ *
+ * Route parameter:
+ * - `id`: The unique identifier of the presentation
+ *
+ * @param _request - The HTTP request object (unused, but required by Next.js).
+ * @param context - Next.js route context containing dynamic route parameters.
+ * @returns A JSON response with link, viewer and slide summaries.
+ *
+ * @example
+ * ```typescript
+ * // Request: GET /api/v1/presentations/abc-123/share-analytics
+ * // Response: { links: [...], viewers: [...], slides: [...], slide_titles: [...] }
+ * ```
+ */
+export async function GET(
+  _request: NextRequest,
+  context: { params: Promise<{ id: string }> },
+) {
+  const params = await context.params;
+  const { handleShareAnalytics } = await import(
+    "../../../ppt/handlers/shares"
+  );
+  return withAuthenticatedUser(() => handleShareAnalytics(params.id));
+}
@@ -0,0 +1,77 @@
+import { NextRequest } from "next/server";
+import { withAuthenticatedUser } from "@/server/auth";
+
+/**
+ * Runtime configuration for this API route.
+ * - nodejs: Runs on Node.js runtime (required for database access)
+ * - force-dynamic: Always generates dynamic responses (no caching)
+ */
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+/**
+ * Handles GET requests to list a presentation's share links.
+ *
+ * Includes revoked and expired links, each with its status and visit
+ * counts.
+ *
+ * Route parameter:
+ * - `id`: The unique identifier of the presentation
+ *
+ * @param _request - The HTTP request object (unused, but required by Next.js).
+ * @param context - Next.js route context containing dynamic route parameters.
+ * @returns A JSON response with the presentation's share links.
+ *
+ * @example
+ * ```typescript
+ * // Request: GET /api/v1/presentations/abc-123/share-links
+ * // Response: { links: [{ id: "...", token: "...", status: "active", ... }] }
+ * ```
+ */
+export async function GET(
+  _request: NextRequest,
+  context: { params: Promise<{ id: string }> },
+) {
+  const params = await context.params;
+  const { handleShareLinksList } = await import(
+    "../../../ppt/handlers/shares"
+  );
+  return withAuthenticatedUser(() => handleShareLinksList(params.id));
+}
+
+/**
+ * Handles POST requests to create a share link.
+ *
+ * Route parameter:
+ * - `id`: The unique identifier of the presentation to share
+ *
+ * Request body (all fields optional):
+ * - `label`: Name of the link, e.g. who it was sent to
+ * - `password`: Password viewers must enter
+ * - `require_email`: Whether viewers must enter their email
+ * - `expires_at`: ISO 8601 time after which the link stops working
+ *
+ * @param request - The HTTP request object containing link settings.
+ * @param context - Next.js route context containing dynamic route parameters.
+ * @returns A JSON response with the created link. Open it at
+ *   `/share/<token>`.
+ *
+ * @example
+ * ```typescript
+ * // Request: POST /api/v1/presentations/abc-123/share-links
+ * // Body: { label: "Acme Ventures", password: "seed-round" }
+ * // Response: { id: "...", token: "k3J...", has_password: true, ... }
+ * ```
+ */
+export async function POST(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> },
+) {
+  const params = await context.params;
+  const { handleShareLinkCreate } = await import(
+    "../../../ppt/handlers/shares"
+  );
+  return withAuthenticatedUser(() =>
+    handleShareLinkCreate(request, params.id),
+  );
+}
@@ -0,0 +1,45 @@
+import { NextRequest } from "next/server";
+import { withAuthenticatedUser } from "@/server/auth";
+
+/**
+ * Runtime configuration for this API route.
+ * - nodejs: Runs on Node.js runtime (required for database access)
+ * - force-dynamic: Always generates dynamic responses (no caching)
+ */
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+/**
+ * Handles DELETE requests to remove a slide from a presentation.
+ *
+ * Route parameters:
+ * - `id`: The unique identifier of the presentation
+ * - `slideId`: The unique identifier of the slide
+ *
+ * The presentation version the removal is based on can be sent as
+ * `If-Match` header.
+ *
+ * @param request - The HTTP request object.
+ * @param context - Next.js route context containing dynamic route parameters.
+ * @returns A JSON response with the presentation and its remaining slides,
+ *   or 409 with the current presentation if it changed since that version.
+ *
+ * @example
+ * ```typescript
+ * // Request: DELETE /api/v1/presentations/abc-123/slides/slide-2
+ * // If-Match: "9"
+ * // Response: { id: "abc-123", version: 10, slides: [...] }
+ * ```
+ */
+export async function DELETE(
+  request: NextRequest,
+  context: { params: Promise<{ id: string; slideId: string }> },
+) {
+  const params = await context.params;
+  const { handleSlideRemove } = await import(
+    "../../../../ppt/handlers/slide-updates"
+  );
+  return withAuthenticatedUser(() =>
+    handleSlideRemove(request, params.id, params.slideId),
+  );
+}
@@ -0,0 +1,79 @@
+import { NextRequest } from "next/server";
+import { withAuthenticatedUser } from "@/server/auth";
+
+/**
+ * Runtime configuration for this API route.
+ * - nodejs: Runs on Node.js runtime (required for database access)
+ * - force-dynamic: Always generates dynamic responses (no caching)
+ */
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+/**
+ * Handles POST requests to add a slide to a presentation.
+ *
+ * Route parameter:
+ * - `id`: The unique identifier of the presentation
+ *
+ * Request body:
+ * - `slide` (required): The slide to add
+ * - `index` (required): Position of the new slide
+ * - `version` (optional): Presentation version the insert is based on (or
+ *   `If-Match` header)
+ *
+ * @param request - The HTTP request object containing the slide.
+ * @param context - Next.js route context containing dynamic route parameters.
+ * @returns A 201 JSON response with the presentation and its slides, or 409
+ *   with the current presentation if it changed since `version`.
+ *
+ * @example
+ * ```typescript
+ * // Request: POST /api/v1/presentations/abc-123/slides
+ * // Body: { version: 7, index: 2, slide: { layout: "...", content: {...} } }
+ * // Response: { id: "abc-123", version: 8, slides: [...] }
+ * ```
+ */
+export async function POST(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> },
+) {
+  const params = await context.params;
+  const { handleSlideInsert } = await import(
+    "../../../ppt/handlers/slide-updates"
+  );
+  return withAuthenticatedUser(() => handleSlideInsert(request, params.id));
+}
+
+/**
+ * Handles PATCH requests to reorder a presentation's slides.
+ *
+ * Route parameter:
+ * - `id`: The unique identifier of the presentation
+ *
+ * Request body:
+ * - `order` (required): IDs of all the presentation's slides in order
+ * - `version` (optional): Presentation version the order is based on (or
+ *   `If-Match` header)
+ *
+ * @param request - The HTTP request object containing the order.
+ * @param context - Next.js route context containing dynamic route parameters.
+ * @returns A JSON response with the presentation and its reordered slides,
+ *   or 409 with the current presentation if it changed since `version`.
+ *
+ * @example
+ * ```typescript
+ * // Request: PATCH /api/v1/presentations/abc-123/slides
+ * // Body: { version: 8, order: ["slide-2", "slide-1", "slide-3"] }
+ * // Response: { id: "abc-123", version: 9, slides: [...] }
+ * ```
+ */
+export async function PATCH(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> },
+) {
+  const params = await context.params;
+  const { handleSlideReorder } = await import(
+    "../../../ppt/handlers/slide-updates"
+  );
+  return withAuthenticatedUser(() => handleSlideReorder(request, params.id));
+}
@@ -0,0 +1,52 @@
+import { NextRequest } from "next/server";
+import { withAuthenticatedUser } from "@/server/auth";
+
+/**
+ * Runtime configuration for this API route.
+ * - nodejs: Runs on Node.js runtime (required for database access)
+ * - force-dynamic: Always generates dynamic responses (no caching)
+ */
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+/**
+ * Handles POST requests to move a presentation to another template.
+ *
+ * Every slide gets the layout of the new template chosen for it, with its
+ * content migrated; fields that did not carry over are rewritten by the
+ * LLM. The presentation's layout and structure are updated to the new
+ * template.
+ *
+ * Route parameter:
+ * - `id`: The unique identifier of the presentation
+ *
+ * Request body:
+ * - `layout` (required): The new template, `{ name, ordered, slides }`
+ * - `slides` (required): `[{ id, layout, content, missing }]`, one per slide
+ * - `version` (optional): Presentation version the change is based on (or
+ *   `If-Match` header)
+ *
+ * @param request - The HTTP request object containing the new template.
+ * @param context - Next.js route context containing dynamic route parameters.
+ * @returns A JSON response with the updated presentation and slides, or 409
+ *   with the current presentation if it changed since `version`.
+ *
+ * @example
+ * ```typescript
+ * // Request: POST /api/v1/presentations/abc-123/template
+ * // Body: { layout: { name: "vision-bold", ... }, slides: [...] }
+ * // Response: { presentation: { ... }, slides: [...], skipped_slides: [] }
+ * ```
+ */
+export async function POST(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> },
+) {
+  const params = await context.params;
+  const { handlePresentationTemplateChange } = await import(
+    "../../../ppt/handlers/slides"
+  );
+  return withAuthenticatedUser(() =>
+    handlePresentationTemplateChange(request, params.id),
+  );
+}
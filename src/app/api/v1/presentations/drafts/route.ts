@@ -1,4 +1,5 @@
 import { NextRequest } from "next/server";
+import { withAuthenticatedUser } from "@/server/auth";
 import { handlePresentationGetDrafts } from "../../ppt/handlers/presentation";
 
 /**
@@ -32,5 +33,5 @@ export const dynamic = "force-dynamic";
  * ```
  */
 export async function GET(request: NextRequest) {
-  return handlePresentationGetDrafts(request);
+  return withAuthenticatedUser(() => handlePresentationGetDrafts(request));
 }
@@ -0,0 +1,38 @@
+import { NextRequest } from "next/server";
+import { withAuthenticatedUser } from "@/server/auth";
+
+/**
+ * Runtime configuration for this API route.
+ * - nodejs: Runs on Node.js runtime (required for PPTX parsing and Puppeteer)
+ * - maxDuration: Maximum execution time of 300 seconds (5 minutes)
+ * - force-dynamic: Always generates dynamic responses (no caching)
+ */
+export const runtime = "nodejs";
+export const maxDuration = 300;
+export const dynamic = "force-dynamic";
+
+/**
+ * Handles POST requests to import a PowerPoint file as a new presentation.
+ *
+ * Parses the uploaded deck into editable slides (text boxes, pictures, tables
+ * and charts at their original positions), renders thumbnails, and stores the
+ * slide text as outlines so the deck can be regenerated with a template.
+ *
+ * Request body (multipart/form-data):
+ * - `pptx_file` (required): PPTX file to import
+ * - `language` (optional): Presentation language (default: "English")
+ *
+ * @param request - The HTTP request object containing the PPTX file.
+ * @returns A JSON response with the new presentation ID and slide previews.
+ *
+ * @example
+ * ```typescript
+ * // Request: POST /api/v1/presentations/import/pptx (multipart, pptx_file)
+ * // Response: { presentation_id: "abc-123", total_slides: 14, slides: [...] }
+ * ```
+ */
+export async function POST(request: NextRequest) {
+  // Dynamic import to avoid loading the importer (and Puppeteer) unless needed
+  const { handlePptxImport } = await import("../../../ppt/handlers/imports");
+  return withAuthenticatedUser(() => handlePptxImport(request));
+}
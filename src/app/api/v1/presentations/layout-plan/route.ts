@@ -0,0 +1,41 @@
+import { NextRequest } from "next/server";
+import { withAuthenticatedUser } from "@/server/auth";
+
+/**
+ * Runtime configuration for this API route.
+ * - nodejs: Runs on Node.js runtime (required for LLM calls)
+ * - maxDuration: Maximum execution time of 300 seconds (5 minutes)
+ * - force-dynamic: Always generates dynamic responses (no caching)
+ */
+export const runtime = "nodejs";
+export const maxDuration = 300;
+export const dynamic = "force-dynamic";
+
+/**
+ * Handles POST requests to preview which layout each outline will use.
+ *
+ * Matches outlines to the selected template's layouts by content without
+ * saving anything. The outline editor uses this to show the planned layout
+ * per slide and offer per-slide overrides.
+ *
+ * Request body:
+ * - `outlines` (required): Array of outline objects
+ * - `layout` (required): Layout configuration object with slides array
+ * - `structure` (optional): Per-outline layout selections to keep
+ *
+ * @param request - The HTTP request object containing outlines and layout.
+ * @returns A JSON response with `{ slides, layouts }`.
+ *
+ * @example
+ * ```typescript
+ * // Request: POST /api/v1/presentations/layout-plan
+ * // Body: { outlines: [...], layout: {...} }
+ * // Response: { slides: [0, 2, 7], layouts: [...] }
+ * ```
+ */
+export async function POST(request: NextRequest) {
+  const { handlePresentationLayoutPlan } = await import(
+    "../../ppt/handlers/presentation"
+  );
+  return withAuthenticatedUser(() => handlePresentationLayoutPlan(request));
+}
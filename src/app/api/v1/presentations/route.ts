@@ -1,4 +1,5 @@
 import { NextRequest } from "next/server";
+import { withAuthenticatedUser } from "@/server/auth";
 import {
   handlePresentationGetAll,
   handlePresentationCreate,
@@ -35,7 +36,7 @@ export const dynamic = "force-dynamic";
  * ```
  */
 export async function GET(request: NextRequest) {
-  return handlePresentationGetAll(request);
+  return withAuthenticatedUser(() => handlePresentationGetAll(request));
 }
 
 /**
@@ -66,5 +67,5 @@ export async function GET(request: NextRequest) {
 export async function POST(request: NextRequest) {
   // Dynamic import to avoid loading handler unless needed (code splitting)
   const { handlePresentationCreate } = await import("../ppt/handlers/presentation");
-  return handlePresentationCreate(request);
+  return withAuthenticatedUser(() => handlePresentationCreate(request));
 }
@@ -1,4 +1,5 @@
 import { NextRequest } from "next/server";
+import { withAuthenticatedUser } from "@/server/auth";
 
 /**
  * Runtime configuration for this API route.
@@ -28,8 +29,14 @@ export const dynamic = "force-dynamic";
  * - `slide`: Complete slide objects
  * - `progress`: Progress updates
  * - `complete`: Final completion event
+ * - `cancelled`: The generation was stopped
  *
- * @param _request - The HTTP request object (unused, but required by Next.js).
+ * Generation keeps running when the client disconnects. Reconnecting with
+ * the `Last-Event-ID` header (or `last_event_id` query parameter) replays
+ * the events the client missed; connecting while a job is running follows
+ * that job instead of starting a new one.
+ *
+ * @param request - The HTTP request object (read for `Last-Event-ID`).
  * @param context - Next.js route context containing dynamic route parameters.
  * @returns An HTTP Response with SSE stream (Content-Type: text/event-stream).
  *
@@ -40,7 +47,7 @@ export const dynamic = "force-dynamic";
  * ```
  */
 export async function GET(
-  _request: NextRequest,
+  request: NextRequest,
   context: { params: Promise<{ id: string }> },
 ) {
   const params = await context.params;
@@ -50,5 +57,7 @@ export async function GET(
   const { handlePresentationStream } = await import(
     "../../../ppt/handlers/presentation",
   );
-  return handlePresentationStream(presentationId);
+  return withAuthenticatedUser(() =>
+    handlePresentationStream(presentationId, request),
+  );
 }
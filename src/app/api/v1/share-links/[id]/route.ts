@@ -0,0 +1,41 @@
+import { NextRequest } from "next/server";
+import { withAuthenticatedUser } from "@/server/auth";
+
+/**
+ * Runtime configuration for this API route.
+ * - nodejs: Runs on Node.js runtime (required for database access)
+ * - force-dynamic: Always generates dynamic responses (no caching)
+ */
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+/**
+ * Handles DELETE requests to revoke a share link.
+ *
+ * The link stops working immediately but is kept, with its analytics, as
+ * revoked.
+ *
+ * Route parameter:
+ * - `id`: The unique identifier of the share link
+ *
+ * @param _request - The HTTP request object (unused, but required by Next.js).
+ * @param context - Next.js route context containing dynamic route parameters.
+ * @returns A JSON response with the revoked link, or 404 if it does not
+ *   exist.
+ *
+ * @example
+ * ```typescript
+ * // Request: DELETE /api/v1/share-links/link-123
+ * // Response: { id: "link-123", revoked_at: "...", ... }
+ * ```
+ */
+export async function DELETE(
+  _request: NextRequest,
+  context: { params: Promise<{ id: string }> },
+) {
+  const params = await context.params;
+  const { handleShareLinkRevoke } = await import(
+    "../../ppt/handlers/shares"
+  );
+  return withAuthenticatedUser(() => handleShareLinkRevoke(params.id));
+}
@@ -0,0 +1,43 @@
+import { NextRequest } from "next/server";
+
+/**
+ * Runtime configuration for this API route.
+ * - nodejs: Runs on Node.js runtime (required for database access)
+ * - force-dynamic: Always generates dynamic responses (no caching)
+ *
+ * Public: called by the share viewer, which has no session.
+ */
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+/**
+ * Handles POST requests reporting how long slides were shown.
+ *
+ * Route parameter:
+ * - `token`: Token of the share link
+ *
+ * Request body (JSON, also accepted as text/plain from sendBeacon):
+ * - `view_id` (required): Visit ID returned when the deck was opened
+ * - `events` (required): Array of `{ slide_index, dwell_ms }`
+ *
+ * @param request - The HTTP request object containing the events.
+ * @param context - Next.js route context containing dynamic route parameters.
+ * @returns 204 No Content once the events are stored.
+ *
+ * @example
+ * ```typescript
+ * // Request: POST /api/v1/share/k3J.../events
+ * // Body: { view_id: "...", events: [{ slide_index: 4, dwell_ms: 18250 }] }
+ * // Response: 204 No Content
+ * ```
+ */
+export async function POST(
+  request: NextRequest,
+  context: { params: Promise<{ token: string }> },
+) {
+  const params = await context.params;
+  const { handleShareEvents } = await import(
+    "../../../ppt/handlers/shares"
+  );
+  return handleShareEvents(request, params.token);
+}
@@ -0,0 +1,75 @@
+import { NextRequest } from "next/server";
+
+/**
+ * Runtime configuration for this API route.
+ * - nodejs: Runs on Node.js runtime (required for database access)
+ * - force-dynamic: Always generates dynamic responses (no caching)
+ *
+ * Public: share links are opened by people without an account, so these
+ * handlers do not run as a user. Access is granted by the link itself.
+ */
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+/**
+ * Handles GET requests for what a share link asks of its viewer.
+ *
+ * Route parameter:
+ * - `token`: Token of the share link
+ *
+ * @param _request - The HTTP request object (unused, but required by Next.js).
+ * @param context - Next.js route context containing dynamic route parameters.
+ * @returns A JSON response with `requires_password` and `requires_email`,
+ *   404 for unknown or revoked links, or 410 for expired links.
+ *
+ * @example
+ * ```typescript
+ * // Request: GET /api/v1/share/k3J...
+ * // Response: { requires_password: true, requires_email: false }
+ * ```
+ */
+export async function GET(
+  _request: NextRequest,
+  context: { params: Promise<{ token: string }> },
+) {
+  const params = await context.params;
+  const { handleShareLinkInfo } = await import(
+    "../../ppt/handlers/shares"
+  );
+  return handleShareLinkInfo(params.token);
+}
+
+/**
+ * Handles POST requests to open a shared presentation.
+ *
+ * Route parameter:
+ * - `token`: Token of the share link
+ *
+ * Request body:
+ * - `viewer_id` (required): Anonymous ID kept in the viewer's browser
+ * - `password`: Link password, if the link has one
+ * - `email`: Viewer email, if the link requires one
+ *
+ * @param request - The HTTP request object containing viewer details.
+ * @param context - Next.js route context containing dynamic route parameters.
+ * @returns A JSON response with the visit ID, the slides to render and the
+ *   layout code of the custom templates they use, or 429 with `Retry-After`
+ *   after too many wrong passwords.
+ *
+ * @example
+ * ```typescript
+ * // Request: POST /api/v1/share/k3J...
+ * // Body: { viewer_id: "v-123", password: "seed-round" }
+ * // Response: { view_id: "...", presentation: { title: "...", slides: [...] }, templates: [] }
+ * ```
+ */
+export async function POST(
+  request: NextRequest,
+  context: { params: Promise<{ token: string }> },
+) {
+  const params = await context.params;
+  const { handleSharedPresentationOpen } = await import(
+    "../../ppt/handlers/shares"
+  );
+  return handleSharedPresentationOpen(request, params.token);
+}
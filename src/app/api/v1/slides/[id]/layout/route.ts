@@ -0,0 +1,48 @@
+import { NextRequest } from "next/server";
+import { withAuthenticatedUser } from "@/server/auth";
+
+/**
+ * Runtime configuration for this API route.
+ * - nodejs: Runs on Node.js runtime (required for database access)
+ * - force-dynamic: Always generates dynamic responses (no caching)
+ */
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+/**
+ * Handles POST requests to move a slide to another layout.
+ *
+ * The body carries the slide's content migrated to the new layout; fields
+ * listed in `missing` are rewritten by the LLM from the previous content.
+ * The change is recorded as a "layout_change" revision.
+ *
+ * Route parameter:
+ * - `id`: The unique identifier of the slide
+ *
+ * Request body:
+ * - `layout` (required), `content` (required)
+ * - `layout_group`, `json_schema`, `missing`
+ *
+ * @param request - The HTTP request object containing the layout change.
+ * @param context - Next.js route context containing dynamic route parameters.
+ * @returns A JSON response with the updated slide.
+ *
+ * @example
+ * ```typescript
+ * // Request: POST /api/v1/slides/slide-123/layout
+ * // Body: { layout: "data-driven:data-driven-traction", content: { ... } }
+ * // Response: { id: "slide-123", layout: "data-driven:data-driven-traction", ... }
+ * ```
+ */
+export async function POST(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> },
+) {
+  const params = await context.params;
+  const { handleSlideLayoutChange } = await import(
+    "../../../ppt/handlers/slides"
+  );
+  return withAuthenticatedUser(() =>
+    handleSlideLayoutChange(request, params.id),
+  );
+}
@@ -0,0 +1,46 @@
+import { NextRequest } from "next/server";
+import { withAuthenticatedUser } from "@/server/auth";
+
+/**
+ * Runtime configuration for this API route.
+ * - nodejs: Runs on Node.js runtime (required for database access)
+ * - force-dynamic: Always generates dynamic responses (no caching)
+ */
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+/**
+ * Handles POST requests to regenerate a single slide from its outline.
+ *
+ * Streams the new content over SSE like deck generation and records a
+ * "regeneration" revision; the prior content stays in the slide's history.
+ *
+ * Route parameter:
+ * - `id`: The unique identifier of the slide
+ *
+ * Request body:
+ * - `locked` (optional): Data paths of the fields to keep
+ *
+ * @param request - The HTTP request object.
+ * @param context - Next.js route context containing dynamic route parameters.
+ * @returns An SSE response with `slides_init`, `slide_delta`, `slide`,
+ *   `progress` and `complete` events.
+ *
+ * @example
+ * ```typescript
+ * // Request: POST /api/v1/slides/slide-5/regenerate
+ * // Body: { locked: ["title"] }
+ * ```
+ */
+export async function POST(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> },
+) {
+  const params = await context.params;
+  const { handleSlideRegenerate } = await import(
+    "../../../ppt/handlers/presentation"
+  );
+  return withAuthenticatedUser(() =>
+    handleSlideRegenerate(request, params.id),
+  );
+}
@@ -0,0 +1,40 @@
+import { NextRequest } from "next/server";
+import { withAuthenticatedUser } from "@/server/auth";
+
+/**
+ * Runtime configuration for this API route.
+ * - nodejs: Runs on Node.js runtime (required for database access)
+ * - force-dynamic: Always generates dynamic responses (no caching)
+ */
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+/**
+ * Handles GET requests to list a slide's revision history.
+ *
+ * Revisions are snapshots of the slide taken after each generation, AI
+ * edit, autosave, import or restore, newest first.
+ *
+ * Route parameter:
+ * - `id`: The unique identifier of the slide
+ *
+ * @param _request - The HTTP request object (unused, but required by Next.js).
+ * @param context - Next.js route context containing dynamic route parameters.
+ * @returns A JSON response with the slide's revisions.
+ *
+ * @example
+ * ```typescript
+ * // Request: GET /api/v1/slides/slide-123/revisions
+ * // Response: { revisions: [{ id: "...", source: "ai_edit", ... }] }
+ * ```
+ */
+export async function GET(
+  _request: NextRequest,
+  context: { params: Promise<{ id: string }> },
+) {
+  const params = await context.params;
+  const { handleSlideRevisions } = await import(
+    "../../../ppt/handlers/slides",
+  );
+  return withAuthenticatedUser(() => handleSlideRevisions(params.id));
+}
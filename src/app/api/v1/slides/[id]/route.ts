@@ -0,0 +1,44 @@
+import { NextRequest } from "next/server";
+import { withAuthenticatedUser } from "@/server/auth";
+
+/**
+ * Runtime configuration for this API route.
+ * - nodejs: Runs on Node.js runtime (required for database access)
+ * - force-dynamic: Always generates dynamic responses (no caching)
+ */
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+/**
+ * Handles PATCH requests to change a single slide.
+ *
+ * Route parameter:
+ * - `id`: The unique identifier of the slide
+ *
+ * Request body (all fields optional):
+ * - `version`: Slide version the change is based on (or `If-Match` header)
+ * - `changes`: Content changes by data path, `[{ path, value }]`
+ * - `layout`, `layout_group`, `speaker_note`, `sources`, `document_sources`
+ *
+ * @param request - The HTTP request object containing the change.
+ * @param context - Next.js route context containing dynamic route parameters.
+ * @returns A JSON response with the updated slide and its version as ETag,
+ *   or 409 with the current slide if it changed since `version`.
+ *
+ * @example
+ * ```typescript
+ * // Request: PATCH /api/v1/slides/slide-123
+ * // Body: { version: 4, changes: [{ path: "title", value: "Traction" }] }
+ * // Response: { id: "slide-123", version: 5, content: { ... }, ... }
+ * ```
+ */
+export async function PATCH(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> },
+) {
+  const params = await context.params;
+  const { handleSlideUpdate } = await import(
+    "../../ppt/handlers/slide-updates"
+  );
+  return withAuthenticatedUser(() => handleSlideUpdate(request, params.id));
+}
@@ -0,0 +1,42 @@
+import { NextRequest } from "next/server";
+import { withAuthenticatedUser } from "@/server/auth";
+
+/**
+ * Runtime configuration for this API route.
+ * - nodejs: Runs on Node.js runtime (required for database access)
+ * - force-dynamic: Always generates dynamic responses (no caching)
+ */
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+/**
+ * Handles POST requests to restore a slide revision.
+ *
+ * The slide's layout, content, speaker notes and HTML are set back to the
+ * revision; the restore itself is added to the slide's history, so it can be
+ * undone by restoring the previous revision.
+ *
+ * Route parameter:
+ * - `id`: The unique identifier of the revision
+ *
+ * @param _request - The HTTP request object (unused, but required by Next.js).
+ * @param context - Next.js route context containing dynamic route parameters.
+ * @returns A JSON response with the restored slide, or 404 if the revision
+ *   or its slide does not exist.
+ *
+ * @example
+ * ```typescript
+ * // Request: POST /api/v1/slides/revisions/rev-123/restore
+ * // Response: { id: "slide-123", content: { ... }, ... }
+ * ```
+ */
+export async function POST(
+  _request: NextRequest,
+  context: { params: Promise<{ id: string }> },
+) {
+  const params = await context.params;
+  const { handleSlideRevisionRestore } = await import(
+    "../../../../ppt/handlers/slides",
+  );
+  return withAuthenticatedUser(() => handleSlideRevisionRestore(params.id));
+}
@@ -1,4 +1,5 @@
 import { NextRequest } from "next/server";
+import { withAuthenticatedUser } from "@/server/auth";
 import { handleSlideEdit } from "../ppt/handlers/slides";
 
 /**
@@ -33,5 +34,5 @@ export const dynamic = "force-dynamic";
  * ```
  */
 export async function POST(request: NextRequest) {
-  return handleSlideEdit(request);
+  return withAuthenticatedUser(() => handleSlideEdit(request));
 }
@@ -1,4 +1,5 @@
 import { NextRequest } from "next/server";
+import { withAuthenticatedUser } from "@/server/auth";
 import { handleHtmlToReact } from "../../../ppt/handlers/slides";
 
 /**
@@ -32,5 +33,5 @@ export const dynamic = "force-dynamic";
  * ```
  */
 export async function POST(request: NextRequest) {
-  return handleHtmlToReact(request);
+  return withAuthenticatedUser(() => handleHtmlToReact(request));
 }
@@ -1,4 +1,5 @@
 import { NextRequest } from "next/server";
+import { withAuthenticatedUser } from "@/server/auth";
 import {
   handleTemplateGet,
   handleTemplateDelete,
@@ -39,7 +40,7 @@ export async function GET(
   context: { params: Promise<{ id: string }> },
 ) {
   const params = await context.params;
-  return handleTemplateGet(params.id);
+  return withAuthenticatedUser(() => handleTemplateGet(params.id));
 }
 
 /**
@@ -66,5 +67,5 @@ export async function DELETE(
   context: { params: Promise<{ id: string }> },
 ) {
   const params = await context.params;
-  return handleTemplateDelete(params.id);
+  return withAuthenticatedUser(() => handleTemplateDelete(params.id));
 }
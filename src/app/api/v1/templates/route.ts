@@ -1,4 +1,5 @@
 import { NextRequest } from "next/server";
+import { withAuthenticatedUser } from "@/server/auth";
 import {
   handleTemplatesList,
   handleTemplateMeta,
@@ -59,5 +60,5 @@ export async function GET(_request: NextRequest) {
  * ```
  */
 export async function POST(request: NextRequest) {
-  return handleTemplateMeta(request);
+  return withAuthenticatedUser(() => handleTemplateMeta(request));
 }
@@ -1,4 +1,5 @@
 import { NextRequest } from "next/server";
+import { withAuthenticatedUser } from "@/server/auth";
 import { handleTemplateSave } from "../../ppt/handlers/templates";
 
 /**
@@ -32,5 +33,5 @@ export const dynamic = "force-dynamic";
  * ```
  */
 export async function POST(request: NextRequest) {
-  return handleTemplateSave(request);
+  return withAuthenticatedUser(() => handleTemplateSave(request));
 }
@@ -1,4 +1,5 @@
 import { NextRequest } from "next/server";
+import { withAuthenticatedUser } from "@/server/auth";
 import { handleTemplateSummary } from "../../ppt/handlers/templates";
 
 /**
@@ -28,5 +29,5 @@ export const dynamic = "force-dynamic";
  * ```
  */
 export async function GET(_request: NextRequest) {
-  return handleTemplateSummary();
+  return withAuthenticatedUser(() => handleTemplateSummary());
 }
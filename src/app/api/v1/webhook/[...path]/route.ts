@@ -1,5 +1,16 @@
 import { NextResponse } from "next/server";
-import { createSubscription, deleteSubscription } from "@/server/db/webhooks";
+import { requireRequestOwner, withAuthenticatedUser } from "@/server/auth";
+import {
+  createSubscription,
+  deleteSubscription,
+  listDeliveries,
+} from "@/server/db/webhooks";
+import {
+  checkWebhookUrl,
+  generateWebhookSecret,
+  isWebhookEvent,
+  WEBHOOK_EVENTS,
+} from "@/server/webhooks";
 
 /**
  * Runtime configuration for this API route.
@@ -21,12 +32,16 @@ const jsonResponse = (data: unknown, status = 200) =>
  * Routes webhook subscription requests to appropriate handlers.
  *
  * Handles webhook subscription management:
- * - POST /subscribe: Creates a new webhook subscription
+ * - POST /subscribe: Creates a new webhook subscription for a public
+ *   http(s) URL
  * - DELETE /unsubscribe: Removes an existing webhook subscription
+ * - GET /deliveries: Lists recent deliveries (optionally by subscription_id)
+ *
+ * Subscriptions and deliveries are scoped to the authenticated user.
  *
  * @param request - The HTTP request object.
  * @param context - Next.js route context containing dynamic path segments.
- * @param method - HTTP method (POST or DELETE).
+ * @param method - HTTP method (GET, POST or DELETE).
  * @returns A Response object from the appropriate handler, or 404 if route not found.
  */
 const routeRequest = async (
@@ -37,6 +52,7 @@ const routeRequest = async (
   const params = await context.params;
   const segments = params.path || [];
   const subpath = segments.join("/");
+  const owner = requireRequestOwner();
 
   // Handle webhook subscription creation
   if (subpath === "subscribe" && method === "POST") {
@@ -45,11 +61,51 @@ const routeRequest = async (
     if (!body.url || !Array.isArray(body.events)) {
       return jsonResponse({ detail: "url and events are required" }, 400);
     }
+    // Only public http(s) targets; delivery checks the address again
+    const urlError = await checkWebhookUrl(String(body.url));
+    if (urlError) {
+      return jsonResponse({ detail: urlError }, 400);
+    }
+    // Reject unknown event types so typos don't silently never fire
+    const unknownEvents = (body.events as string[]).filter(
+      (event) => event !== "*" && !isWebhookEvent(event),
+    );
+    if (unknownEvents.length > 0) {
+      return jsonResponse(
+        {
+          detail: `Unknown events: ${unknownEvents.join(", ")}. Supported: ${WEBHOOK_EVENTS.join(", ")}`,
+        },
+        400,
+      );
+    }
+    // Use the caller's secret if provided, otherwise generate one.
+    // The secret is only returned here, so the subscriber must store it.
+    const secret =
+      typeof body.secret === "string" && body.secret.trim()
+        ? body.secret.trim()
+        : generateWebhookSecret();
     // Create subscription in database
-    const subscription = await createSubscription(body.url, body.events);
+    const subscription = await createSubscription(
+      owner,
+      body.url,
+      body.events,
+      secret,
+    );
     return jsonResponse(subscription);
   }
 
+  // Handle delivery log listing
+  if (subpath === "deliveries" && method === "GET") {
+    const url = new URL(request.url);
+    const limit = Number.parseInt(url.searchParams.get("limit") || "", 10);
+    const deliveries = await listDeliveries({
+      owner,
+      subscriptionId: url.searchParams.get("subscription_id"),
+      limit: Number.isFinite(limit) && limit > 0 ? Math.min(limit, 200) : 50,
+    });
+    return jsonResponse({ items: deliveries });
+  }
+
   // Handle webhook subscription removal
   if (subpath === "unsubscribe" && method === "DELETE") {
     const body = await request.json();
@@ -58,13 +114,29 @@ const routeRequest = async (
       return jsonResponse({ detail: "url is required" }, 400);
     }
     // Remove subscription from database
-    const removed = await deleteSubscription(body.url);
+    const removed = await deleteSubscription(owner, body.url);
     return jsonResponse({ success: removed });
   }
 
   return jsonResponse({ detail: "Not found" }, 404);
 };
 
+/**
+ * Handles GET requests for webhook delivery inspection.
+ *
+ * Used to list the delivery log. Routes to the deliveries handler.
+ *
+ * @param request - The HTTP request object.
+ * @param context - Next.js route context containing dynamic path segments.
+ * @returns A Response with recent deliveries or error.
+ */
+export async function GET(
+  request: Request,
+  context: { params: Promise<{ path: string[] }> },
+): Promise<Response> {
+  return withAuthenticatedUser(() => routeRequest(request, context, "GET"));
+}
+
 /**
  * Handles POST requests for webhook subscription management.
  *
@@ -78,7 +150,7 @@ export async function POST(
   request: Request,
   context: { params: Promise<{ path: string[] }> },
 ): Promise<Response> {
-  return routeRequest(request, context, "POST");
+  return withAuthenticatedUser(() => routeRequest(request, context, "POST"));
 }
 
 /**
@@ -94,7 +166,7 @@ export async function DELETE(
   request: Request,
   context: { params: Promise<{ path: string[] }> },
 ): Promise<Response> {
-  return routeRequest(request, context, "DELETE");
+  return withAuthenticatedUser(() => routeRequest(request, context, "DELETE"));
 }
 
 /**
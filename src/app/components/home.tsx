@@ -26,6 +26,7 @@ import { trackEvent, MixpanelEvent } from "@/utils/mixpanel";
 import { usePresentationDataStore, useUploadStore } from "@/stores";
 import { useLayout } from "@/app/(presentation-generator)/context/layout-context";
 import TemplateSelection from "@/app/(presentation-generator)/outline/components/template-selection";
+import BrandKitPicker from "@/app/(presentation-generator)/components/brand-kit-picker";
 import { Template } from "@/app/(presentation-generator)/outline/types/index";
 import type { OutlineSlide } from "@/app/(presentation-generator)/outline/types/index";
 import {
@@ -33,6 +34,10 @@ import {
   DraftPresentationResponse,
   PresentationResponse,
 } from "@/app/(presentation-generator)/services/api/dashboard";
+import {
+  AuthApi,
+  AuthUser,
+} from "@/app/(presentation-generator)/services/api/auth";
 import { useTemplateLayouts } from "@/app/(presentation-generator)/hooks/use-template-layouts";
 import { createOutlineId } from "@/app/(presentation-generator)/outline/utils/outline-ids";
 
@@ -459,6 +464,7 @@ export default function Home() {
   
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [activeTab, setActiveTab] = useState<TabType>("templates");
+  const [brandKitId, setBrandKitId] = useState<string | null>(null);
   const [presentations, setPresentations] = useState<PresentationResponse[]>([]);
   const [presentationsLoading, setPresentationsLoading] = useState(false);
   const [presentationsCursor, setPresentationsCursor] = useState<string | null>(
@@ -470,11 +476,34 @@ export default function Home() {
   const [draftsLoading, setDraftsLoading] = useState(false);
   const [draftsCursor, setDraftsCursor] = useState<string | null>(null);
   const [draftsLoadingMore, setDraftsLoadingMore] = useState(false);
+  const [currentUser, setCurrentUser] = useState<AuthUser | null>(null);
   
   const { getAllTemplateIDs, getTemplateSetting, getLayoutsByTemplateID } =
     useLayout();
   const { renderSlideContent } = useTemplateLayouts();
 
+  // Load the signed-in account for the header
+  useEffect(() => {
+    AuthApi.me()
+      .then(setCurrentUser)
+      .catch(() => setCurrentUser(null));
+  }, []);
+
+  /**
+   * Signs the current user out and returns to the sign-in page.
+   */
+  const handleSignOut = async () => {
+    try {
+      await AuthApi.logout();
+      router.replace("/login");
+      router.refresh();
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : "Failed to sign out",
+      );
+    }
+  };
+
   // Fetch presentations when discover tab is active
   useEffect(() => {
     if (activeTab === "discover" && presentations.length === 0) {
@@ -677,8 +706,9 @@ export default function Home() {
           verbosity,
           instructions: "",
           includeTableOfContents: false,
-          includeTitleSlide: false,
+          includeTitleSlide: true,
           webSearch: false,
+          brandKitId,
         },
         documentContent,
         fileMetadata,
@@ -703,6 +733,21 @@ export default function Home() {
 
   return (
     <div className="claude-theme min-h-screen w-full bg-bg-0 dark:bg-bg-0 flex flex-col items-center justify-center px-4 sm:px-6 lg:px-8 pt-24 pb-10 sm:pt-28 sm:pb-12 md:pt-36 md:pb-14 lg:pt-48 lg:pb-16 font-sans text-text-100 transition-colors duration-200">
+      {/* Account */}
+      {currentUser && (
+        <div className="fixed top-4 right-4 sm:top-6 sm:right-6 flex items-center gap-3 text-sm text-text-300">
+          <span className="hidden sm:inline truncate max-w-[16rem]">
+            {currentUser.name || currentUser.email}
+          </span>
+          <button
+            onClick={handleSignOut}
+            className="px-3 py-1 rounded-full border border-bg-200 bg-bg-100/80 hover:bg-bg-200/80 hover:text-text-200 transition-colors"
+          >
+            Sign out
+          </button>
+        </div>
+      )}
+
       {/* Greeting Section */}
       <div className="w-full max-w-2xl md:max-w-3xl mb-6 sm:mb-8 md:mb-10 text-center animate-stagger-1">
         <h1 className="text-2xl sm:text-3xl md:text-4xl font-serif font-normal text-text-200 tracking-tight leading-[1.25]">
@@ -795,12 +840,18 @@ export default function Home() {
       {/* Tab Content */}
       <div className="w-full max-w-2xl md:max-w-3xl mt-5 sm:mt-6 animate-stagger-4">
         {activeTab === "templates" ? (
-          <TemplateSelection
-            selectedTemplate={selectedTemplate}
-            onSelectTemplate={(template) => {
-              setSelectedTemplateId(template.id);
-            }}
-          />
+          <div className="space-y-4">
+            <BrandKitPicker
+              selectedKitId={brandKitId}
+              onSelectKit={setBrandKitId}
+            />
+            <TemplateSelection
+              selectedTemplate={selectedTemplate}
+              onSelectTemplate={(template) => {
+                setSelectedTemplateId(template.id);
+              }}
+            />
+          </div>
         ) : activeTab === "discover" ? (
           <DiscoverSection
             presentations={presentations}
@@ -0,0 +1,265 @@
+/**
+ * Layout frame: the isolated document custom template layouts run in.
+ *
+ * Loaded at `/layout-frame` inside an iframe with `sandbox="allow-scripts"`
+ * (see utils/layout-frame). Its origin is opaque, so the layout code it
+ * compiles has no access to the editor, its cookies or its APIs. Requests
+ * are only accepted from the embedding window, and only while the frame's
+ * origin is opaque, so an embedder that drops the sandbox gets nothing
+ * compiled; only the app may embed the page (`frame-ancestors 'self'`, see
+ * next.config.mjs). Layouts are still compiled with the layout sandbox as a
+ * second line of defence.
+ */
+
+"use client";
+
+import React, { useEffect, useState } from "react";
+import * as Arktype from "arktype";
+import * as Recharts from "recharts";
+import {
+  compileSandboxedLayout,
+  type SandboxedLayoutModule,
+} from "@/utils/layout-sandbox";
+import {
+  isLayoutFrameMessage,
+  type LayoutFrameInspection,
+  type LayoutFrameRequest,
+  type LayoutFrameResponse,
+} from "@/utils/layout-frame";
+import SlideErrorBoundary from "@/app/(presentation-generator)/components/slide-error-boundary";
+
+/**
+ * Compiled layouts of this frame, by code.
+ */
+const moduleCache = new Map<string, SandboxedLayoutModule>();
+
+/**
+ * Compiles layout code with the layout sandbox, reusing earlier results.
+ *
+ * @param code - Raw TSX code of the layout.
+ * @returns The layout's exports.
+ * @throws Error if the code breaks sandbox rules or fails to compile.
+ */
+const compileLayout = (code: string): SandboxedLayoutModule => {
+  const cached = moduleCache.get(code);
+  if (cached) return cached;
+  const module = compileSandboxedLayout(code, {
+    react: React,
+    arktype: Arktype as unknown as Record<string, unknown>,
+    recharts: Recharts as unknown as Record<string, unknown>,
+  });
+  moduleCache.set(code, module);
+  return module;
+};
+
+/**
+ * Removes `default` keys from a JSON schema, recursively.
+ */
+const removeDefaults = (value: unknown): unknown => {
+  if (typeof value !== "object" || value === null) return value;
+  if (Array.isArray(value)) return value.map(removeDefaults);
+  const result: Record<string, unknown> = {};
+  for (const [key, child] of Object.entries(value)) {
+    if (key === "default") continue;
+    result[key] = removeDefaults(child);
+  }
+  return result;
+};
+
+/**
+ * Reads a string export of a layout module.
+ */
+const readString = (value: unknown): string | undefined =>
+  typeof value === "string" ? value : undefined;
+
+/**
+ * Compiles a layout and reads its metadata, JSON schema and sample data.
+ *
+ * @param code - Raw TSX code of the layout.
+ * @returns The layout's description, or why it could not be compiled.
+ */
+const inspectLayout = (code: string): LayoutFrameInspection => {
+  let module: SandboxedLayoutModule;
+  try {
+    module = compileLayout(code);
+  } catch (error) {
+    return {
+      error: {
+        kind: "compile",
+        message: error instanceof Error ? error.message : String(error),
+      },
+    };
+  }
+
+  if (typeof module.default !== "function") {
+    return {
+      error: {
+        kind: "export",
+        message:
+          "Default export not found. Please export a default React component.",
+      },
+    };
+  }
+  const schema = module.Schema as
+    | (((input: object) => unknown) & {
+        toJsonSchema?: (options?: {
+          fallback?: (ctx: { base: unknown }) => unknown;
+        }) => Record<string, unknown>;
+      })
+    | undefined;
+  if (typeof schema !== "function" || !schema.toJsonSchema) {
+    return {
+      error: {
+        kind: "schema",
+        message:
+          "Schema export not found. Please export an ArkType Schema as 'Schema'.",
+      },
+    };
+  }
+
+  let jsonSchema: Record<string, unknown>;
+  try {
+    // Use fallback option to handle predicates that arktype cannot convert
+    jsonSchema = removeDefaults(
+      schema.toJsonSchema({ fallback: (ctx) => ctx.base }),
+    ) as Record<string, unknown>;
+  } catch (error) {
+    return {
+      error: {
+        kind: "schema",
+        message: error instanceof Error ? error.message : String(error),
+      },
+    };
+  }
+
+  // arktype 2.x: call Schema directly as a function
+  let sampleData: Record<string, unknown> = {};
+  try {
+    const parsed = schema({});
+    if (
+      parsed &&
+      typeof parsed === "object" &&
+      !("problems" in parsed) &&
+      !(parsed instanceof Arktype.ArkErrors)
+    ) {
+      sampleData = parsed as Record<string, unknown>;
+    }
+  } catch {
+    sampleData = {};
+  }
+
+  return {
+    layout: {
+      layoutId: readString(module.layoutId),
+      layoutName: readString(module.layoutName),
+      layoutDescription: readString(module.layoutDescription),
+      json_schema: jsonSchema,
+      sampleData,
+    },
+  };
+};
+
+/**
+ * Loads Google Fonts stylesheets into the frame.
+ *
+ * @param fonts - Font stylesheet URLs of the layout's template.
+ */
+const loadFonts = (fonts: string[]) => {
+  for (const font of fonts) {
+    if (!font?.startsWith("https://fonts.googleapis.com/")) continue;
+    if (document.querySelector(`link[href="${CSS.escape(font)}"]`)) continue;
+    const link = document.createElement("link");
+    link.rel = "stylesheet";
+    link.href = font;
+    document.head.appendChild(link);
+  }
+};
+
+/**
+ * Posts a message to the embedding window.
+ */
+const reply = (message: LayoutFrameResponse) => {
+  // The editor's origin is not visible to an opaque frame
+  window.parent.postMessage(message, "*");
+};
+
+/**
+ * Layout frame component.
+ *
+ * Answers "inspect" requests and renders the layout of the last "render"
+ * request with its slide content, reporting render errors to the editor.
+ */
+const LayoutFrame = () => {
+  const [render, setRender] = useState<{
+    component: React.ComponentType<{ data: unknown }>;
+    data: unknown;
+  } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const handleMessage = (event: MessageEvent) => {
+      if (event.source !== window.parent || window.parent === window) return;
+      // Only compile layouts when sandboxed: an opaque origin reads "null"
+      if (window.origin !== "null") return;
+
+      if (
+        isLayoutFrameMessage<Extract<LayoutFrameRequest, { type: "inspect" }>>(
+          event.data,
+          "inspect",
+        )
+      ) {
+        reply({
+          type: "inspected",
+          id: event.data.id,
+          ...inspectLayout(event.data.code),
+        });
+      } else if (
+        isLayoutFrameMessage<Extract<LayoutFrameRequest, { type: "render" }>>(
+          event.data,
+          "render",
+        )
+      ) {
+        loadFonts(event.data.fonts ?? []);
+        try {
+          const module = compileLayout(event.data.code);
+          setRender({
+            component: module.default as React.ComponentType<{
+              data: unknown;
+            }>,
+            data: event.data.data,
+          });
+          setError(null);
+        } catch (compileError) {
+          const message =
+            compileError instanceof Error
+              ? compileError.message
+              : String(compileError);
+          setError(message);
+          reply({ type: "render_error", message });
+        }
+      }
+    };
+
+    window.addEventListener("message", handleMessage);
+    reply({ type: "ready" });
+    return () => window.removeEventListener("message", handleMessage);
+  }, []);
+
+  if (error) {
+    return (
+      <div className="w-full h-full bg-red-50 text-red-700 p-4">
+        <pre className="text-xs whitespace-pre-wrap">{error}</pre>
+      </div>
+    );
+  }
+  if (!render) return null;
+
+  const Component = render.component;
+  return (
+    <SlideErrorBoundary label="Custom layout">
+      <Component data={render.data} />
+    </SlideErrorBoundary>
+  );
+};
+
+export default LayoutFrame;
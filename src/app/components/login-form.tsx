@@ -0,0 +1,153 @@
+/**
+ * Sign-in form component.
+ *
+ * Lets a user sign in with email and password, or create an account. Works
+ * with both authentication providers: the server decides whether the
+ * credentials are checked locally or against Supabase Auth.
+ */
+
+"use client";
+
+import React, { useState } from "react";
+import { useRouter, useSearchParams } from "next/navigation";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { AuthApi } from "@/app/(presentation-generator)/services/api/auth";
+
+/**
+ * Form mode: sign in to an existing account or register a new one.
+ */
+type FormMode = "login" | "register";
+
+/**
+ * Resolves where to send the user after signing in.
+ *
+ * Only same-origin paths are accepted so the `next` parameter cannot be used
+ * as an open redirect.
+ *
+ * @param next - Value of the `next` query parameter, if any.
+ * @returns A path starting with "/", defaulting to the home page.
+ */
+const resolveRedirectPath = (next: string | null): string =>
+  next && next.startsWith("/") && !next.startsWith("//") ? next : "/";
+
+/**
+ * Sign-in / registration form.
+ *
+ * @returns The centered authentication card.
+ */
+const LoginForm = () => {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const [mode, setMode] = useState<FormMode>("login");
+  const [name, setName] = useState("");
+  const [email, setEmail] = useState("");
+  const [password, setPassword] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+
+  const handleSubmit = async (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    setSubmitting(true);
+    try {
+      const result =
+        mode === "login"
+          ? await AuthApi.login(email, password)
+          : await AuthApi.register(email, password, name || undefined);
+      if (!result.user) {
+        toast.success("Check your inbox to confirm your email, then sign in.");
+        setMode("login");
+        return;
+      }
+      router.replace(resolveRedirectPath(searchParams.get("next")));
+      router.refresh();
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : "Authentication failed",
+      );
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-100 p-6">
+      <form
+        onSubmit={handleSubmit}
+        className="w-full max-w-sm bg-white shadow-md rounded-lg p-8 space-y-5"
+      >
+        <div>
+          <h1 className="text-2xl font-bold text-gray-800">
+            {mode === "login" ? "Sign in" : "Create an account"}
+          </h1>
+          <p className="text-sm text-gray-500 mt-1">
+            {mode === "login"
+              ? "Your decks are private to your account."
+              : "Decks you create are only visible to you."}
+          </p>
+        </div>
+
+        {mode === "register" && (
+          <div className="space-y-2">
+            <Label htmlFor="auth-name">Name</Label>
+            <Input
+              id="auth-name"
+              autoComplete="name"
+              value={name}
+              onChange={(event) => setName(event.target.value)}
+            />
+          </div>
+        )}
+        <div className="space-y-2">
+          <Label htmlFor="auth-email">Email</Label>
+          <Input
+            id="auth-email"
+            type="email"
+            autoComplete="email"
+            required
+            value={email}
+            onChange={(event) => setEmail(event.target.value)}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="auth-password">Password</Label>
+          <Input
+            id="auth-password"
+            type="password"
+            autoComplete={
+              mode === "login" ? "current-password" : "new-password"
+            }
+            required
+            value={password}
+            onChange={(event) => setPassword(event.target.value)}
+          />
+        </div>
+
+        <Button
+          type="submit"
+          disabled={submitting}
+          className="w-full bg-[#071A14] text-white hover:bg-[#0A2A21]"
+        >
+          {submitting
+            ? "Please wait..."
+            : mode === "login"
+              ? "Sign in"
+              : "Create account"}
+        </Button>
+
+        <button
+          type="button"
+          className="w-full text-sm text-gray-600 hover:text-gray-900"
+          onClick={() => setMode(mode === "login" ? "register" : "login")}
+        >
+          {mode === "login"
+            ? "No account yet? Create one"
+            : "Already have an account? Sign in"}
+        </button>
+      </form>
+    </div>
+  );
+};
+
+export default LoginForm;
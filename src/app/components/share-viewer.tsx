@@ -0,0 +1,253 @@
+/**
+ * Read-only viewer for shared presentations.
+ *
+ * Opened from a share link (`/share/<token>`) by people without an account.
+ * Asks for the password or email the link requires, then shows the deck in
+ * presentation mode. How long each slide is shown is reported to the owner's
+ * view analytics (see useShareDwellTracking).
+ */
+
+"use client";
+
+import React, { useCallback, useEffect, useState } from "react";
+import { AlertCircle, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { usePresentationDataStore, type PresentationData } from "@/stores";
+import PresentationMode from "@/app/(presentation-generator)/components/presentation-mode";
+import { ShareApi } from "@/app/(presentation-generator)/services/api/shares";
+import { useShareDwellTracking } from "@/app/hooks/use-share-dwell-tracking";
+import { useLayout } from "@/app/(presentation-generator)/context/layout-context";
+
+/**
+ * localStorage key of the anonymous viewer ID, shared by all share links so
+ * repeat visits by the same browser are grouped.
+ */
+const VIEWER_ID_KEY = "pitchus_viewer_id";
+
+/**
+ * Reads the anonymous viewer ID of this browser, creating it on first use.
+ *
+ * @returns The viewer ID.
+ */
+const getViewerId = (): string => {
+  let viewerId = localStorage.getItem(VIEWER_ID_KEY);
+  if (!viewerId) {
+    viewerId = crypto.randomUUID();
+    localStorage.setItem(VIEWER_ID_KEY, viewerId);
+  }
+  return viewerId;
+};
+
+/**
+ * Viewer state.
+ *
+ * - loading: Checking the link or opening the deck
+ * - gate: The link needs a password and/or email first
+ * - ready: The deck is open
+ * - error: The link is unknown, revoked or expired
+ */
+type ViewerState = "loading" | "gate" | "ready" | "error";
+
+/**
+ * Share viewer component.
+ *
+ * @param token - Token of the share link.
+ * @returns The access form, the deck, or an error message.
+ */
+const ShareViewer = ({ token }: { token: string }) => {
+  const setPresentationData = usePresentationDataStore(
+    (state) => state.setPresentationData,
+  );
+  const presentationData = usePresentationDataStore(
+    (state) => state.presentationData,
+  );
+  const { loadSharedLayouts } = useLayout();
+
+  const [state, setState] = useState<ViewerState>("loading");
+  const [errorMessage, setErrorMessage] = useState("");
+  const [requirements, setRequirements] = useState({
+    requires_password: false,
+    requires_email: false,
+  });
+  const [password, setPassword] = useState("");
+  const [email, setEmail] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+  const [formError, setFormError] = useState("");
+
+  const [viewId, setViewId] = useState<string | null>(null);
+  const [currentSlide, setCurrentSlide] = useState(0);
+  const [isFullscreen, setIsFullscreen] = useState(false);
+
+  useShareDwellTracking(token, viewId, currentSlide);
+
+  /**
+   * Opens the deck with the entered credentials.
+   *
+   * @returns True if the deck opened.
+   */
+  const open = useCallback(
+    async (credentials: { password?: string; email?: string }) => {
+      const shared = await ShareApi.openSharedPresentation(token, {
+        viewer_id: getViewerId(),
+        ...credentials,
+      });
+      await loadSharedLayouts(shared.templates);
+      setPresentationData({
+        ...shared.presentation,
+        title: shared.presentation.title ?? "",
+        n_slides: shared.presentation.slides.length,
+      } as unknown as PresentationData);
+      setViewId(shared.view_id);
+      setState("ready");
+    },
+    [token, setPresentationData, loadSharedLayouts],
+  );
+
+  useEffect(() => {
+    const load = async () => {
+      try {
+        const info = await ShareApi.getShareLinkInfo(token);
+        setRequirements(info);
+        if (info.requires_password || info.requires_email) {
+          setState("gate");
+          return;
+        }
+        await open({});
+      } catch (error) {
+        setErrorMessage(
+          error instanceof Error ? error.message : "This link is not available",
+        );
+        setState("error");
+      }
+    };
+    load();
+  }, [token, open]);
+
+  const handleSubmit = async (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    setSubmitting(true);
+    setFormError("");
+    try {
+      await open({
+        password: requirements.requires_password ? password : undefined,
+        email: email.trim() || undefined,
+      });
+    } catch (error) {
+      setFormError(
+        error instanceof Error ? error.message : "Failed to open presentation",
+      );
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const toggleFullscreen = useCallback(() => {
+    if (!document.fullscreenElement) {
+      document.documentElement.requestFullscreen();
+      setIsFullscreen(true);
+    } else {
+      document.exitFullscreen();
+      setIsFullscreen(false);
+    }
+  }, []);
+
+  const slides = presentationData?.slides ?? [];
+  const handleSlideChange = (index: number) => {
+    if (index >= 0 && index < slides.length) setCurrentSlide(index);
+  };
+
+  if (state === "ready" && slides.length > 0) {
+    return (
+      <PresentationMode
+        slides={slides}
+        currentSlide={currentSlide}
+        isFullscreen={isFullscreen}
+        onFullscreenToggle={toggleFullscreen}
+        onSlideChange={handleSlideChange}
+      />
+    );
+  }
+
+  if (state === "error" || state === "ready") {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-100 p-6">
+        <div className="w-full max-w-sm bg-white shadow-md rounded-lg p-8 flex flex-col items-center text-center gap-3">
+          <AlertCircle className="w-10 h-10 text-red-400" />
+          <p className="text-lg font-semibold text-gray-800">
+            {state === "error" ? errorMessage : "This presentation is empty"}
+          </p>
+          <p className="text-sm text-gray-500">
+            Ask the person who shared it for a new link.
+          </p>
+        </div>
+      </div>
+    );
+  }
+
+  if (state === "loading") {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-100">
+        <Loader2 className="w-8 h-8 animate-spin text-gray-500" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-100 p-6">
+      <form
+        onSubmit={handleSubmit}
+        className="w-full max-w-sm bg-white shadow-md rounded-lg p-8 space-y-5"
+      >
+        <div>
+          <h1 className="text-2xl font-bold text-gray-800">
+            View presentation
+          </h1>
+          <p className="text-sm text-gray-500 mt-1">
+            {requirements.requires_password
+              ? "This presentation is password protected."
+              : "Enter your email to view this presentation."}
+          </p>
+        </div>
+
+        {requirements.requires_email && (
+          <div className="space-y-2">
+            <Label htmlFor="share-email">Email</Label>
+            <Input
+              id="share-email"
+              type="email"
+              autoComplete="email"
+              required
+              value={email}
+              onChange={(event) => setEmail(event.target.value)}
+            />
+          </div>
+        )}
+        {requirements.requires_password && (
+          <div className="space-y-2">
+            <Label htmlFor="share-password">Password</Label>
+            <Input
+              id="share-password"
+              type="password"
+              required
+              value={password}
+              onChange={(event) => setPassword(event.target.value)}
+            />
+          </div>
+        )}
+        {formError && <p className="text-sm text-red-600">{formError}</p>}
+
+        <Button
+          type="submit"
+          disabled={submitting}
+          className="w-full bg-[#071A14] text-white hover:bg-[#0A2A21]"
+        >
+          {submitting ? "Please wait..." : "View presentation"}
+        </Button>
+      </form>
+    </div>
+  );
+};
+
+export default ShareViewer;
@@ -0,0 +1,69 @@
+/**
+ * React hook that reports how long each slide of a shared deck is shown.
+ *
+ * The time on a slide is measured while the page is visible and reported
+ * when the viewer moves to another slide or hides the page (switches tab,
+ * closes the window). Reports go out with sendBeacon, so the last slide is
+ * recorded even when the viewer closes the tab on it.
+ */
+
+import { useEffect, useRef } from "react";
+import { ShareApi } from "../(presentation-generator)/services/api/shares";
+
+/**
+ * Dwell times below this are not reported; they are page flips, not views.
+ */
+const MIN_REPORTED_MS = 300;
+
+/**
+ * Hook for tracking slide dwell time in the share viewer.
+ *
+ * @param token - Token of the share link.
+ * @param viewId - Visit ID returned when the deck was opened, or null until
+ *   the deck is open (nothing is tracked before that).
+ * @param currentSlide - Slide being shown (0-based).
+ */
+export const useShareDwellTracking = (
+  token: string,
+  viewId: string | null,
+  currentSlide: number,
+) => {
+  // Slide being timed and when timing started; null while the page is hidden
+  const shownRef = useRef<{ slide: number; since: number } | null>(null);
+
+  useEffect(() => {
+    if (!viewId) return;
+
+    const report = () => {
+      const shown = shownRef.current;
+      shownRef.current = null;
+      if (!shown) return;
+      const dwell = Date.now() - shown.since;
+      if (dwell < MIN_REPORTED_MS) return;
+      ShareApi.reportShareEvents(token, viewId, [
+        { slide_index: shown.slide, dwell_ms: dwell },
+      ]);
+    };
+
+    if (document.visibilityState === "visible") {
+      shownRef.current = { slide: currentSlide, since: Date.now() };
+    }
+
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === "hidden") {
+        report();
+      } else if (!shownRef.current) {
+        shownRef.current = { slide: currentSlide, since: Date.now() };
+      }
+    };
+
+    document.addEventListener("visibilitychange", handleVisibilityChange);
+    window.addEventListener("pagehide", report);
+    return () => {
+      document.removeEventListener("visibilitychange", handleVisibilityChange);
+      window.removeEventListener("pagehide", report);
+      // Leaving the slide (or unmounting) ends its dwell
+      report();
+    };
+  }, [token, viewId, currentSlide]);
+};
@@ -0,0 +1,30 @@
+/**
+ * Layout frame page.
+ *
+ * Isolated document that custom template layouts are compiled and rendered
+ * in. The editor embeds it as a sandboxed iframe without
+ * `allow-same-origin` and talks to it over postMessage (see
+ * utils/layout-frame). It holds no data of its own, so the proxy lets it
+ * through without a session.
+ */
+
+import React from "react";
+import { Metadata } from "next";
+import LayoutFrame from "@/app/components/layout-frame";
+
+/**
+ * Page metadata. The frame is not meant to be indexed.
+ */
+export const metadata: Metadata = {
+  title: "Layout frame",
+  robots: { index: false, follow: false },
+};
+
+/**
+ * Layout frame page server component.
+ *
+ * @returns The layout frame.
+ */
+export default function Page() {
+  return <LayoutFrame />;
+}
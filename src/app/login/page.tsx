@@ -0,0 +1,26 @@
+/**
+ * Sign-in page.
+ *
+ * Unauthenticated visitors are redirected here by the proxy, with the page
+ * they wanted in the `next` query parameter.
+ */
+
+import React, { Suspense } from "react";
+import LoginForm from "@/app/components/login-form";
+
+/**
+ * Sign-in page component.
+ *
+ * The form reads search params, so it renders inside a Suspense boundary.
+ *
+ * @returns The sign-in form.
+ */
+const page = () => {
+  return (
+    <Suspense>
+      <LoginForm />
+    </Suspense>
+  );
+};
+
+export default page;
@@ -0,0 +1,39 @@
+/**
+ * Shared presentation page.
+ *
+ * Public read-only view of a presentation, opened through a share link. The
+ * proxy lets these pages through without a session; the link token grants
+ * access (see server/sharing).
+ */
+
+import React from "react";
+import { Metadata } from "next";
+import ShareViewer from "@/app/components/share-viewer";
+
+/**
+ * Page metadata. Shared decks are not meant to be indexed.
+ */
+export const metadata: Metadata = {
+  title: "Shared presentation",
+  robots: { index: false, follow: false },
+};
+
+/**
+ * Props for the shared presentation page.
+ *
+ * @property params - Async route params containing the link `token`.
+ */
+interface PageProps {
+  params: Promise<{ token: string }>;
+}
+
+/**
+ * Shared presentation page server component.
+ *
+ * @param params - Async route params.
+ * @returns The share viewer for the link.
+ */
+export default async function Page({ params }: PageProps) {
+  const { token } = await params;
+  return <ShareViewer token={token} />;
+}
@@ -0,0 +1,560 @@
+/**
+ * Diagram, infographic and graph components for presentation slides.
+ *
+ * Render the `DiagramData`, `InfographicsData` and `GraphData` slide
+ * content types. Templates place them in a fixed-size area and pass their
+ * own colors, usually CSS variables so brand kits apply.
+ *
+ * The components are built for the PPTX export as much as for the screen:
+ * - Diagram nodes and infographic cards are plain boxes with text, which
+ *   the export turns into native autoshapes (ellipses are marked with
+ *   `data-pptx-shape`)
+ * - Edges and arrows are marked with `data-pptx-connector` and become
+ *   native connectors with arrowheads
+ * - Graphs are bound to their data with `data-pptx-chart` and become
+ *   native charts
+ *
+ * Each component also carries `data-visual-path` / `data-visual-kind`, so
+ * the editor can open the diagram editor for the content it shows.
+ */
+
+import React from "react";
+import type {
+  DiagramData,
+  GraphData,
+  InfographicItem,
+  InfographicsData,
+} from "@/types/slide";
+import { layoutDiagram } from "@/utils/diagram-layout";
+import {
+  SvgAreaChart,
+  SvgBarChart,
+  SvgDonutChart,
+  SvgLineChart,
+  SvgScatterChart,
+} from "./svg-charts";
+
+/**
+ * Colors of diagrams, infographics and graphs.
+ *
+ * @property background - Slide background, behind edge labels.
+ * @property node - Fill of nodes and cards.
+ * @property nodeText - Text on nodes and cards.
+ * @property accent - Highlighted nodes, arrows, values and chart series.
+ * @property line - Edges and card borders.
+ * @property muted - Secondary text: descriptions, layer and edge labels.
+ * @property band - Fill of architecture layers.
+ */
+export type VisualColors = {
+  background: string;
+  node: string;
+  nodeText: string;
+  accent: string;
+  line: string;
+  muted: string;
+  band?: string;
+};
+
+/**
+ * Props shared by the visual components.
+ *
+ * @property colors - Colors to draw with.
+ * @property dataPath - Path of the content in the slide data (e.g.,
+ *   "diagram"), used by the editor and by native PPTX charts.
+ */
+type VisualProps = {
+  colors: VisualColors;
+  dataPath?: string;
+};
+
+/**
+ * Extra space around a connector's line inside its SVG, for the
+ * arrowhead.
+ */
+const CONNECTOR_PADDING = 8;
+
+/**
+ * Straight line with an optional arrowhead, drawn in its own SVG.
+ *
+ * The SVG covers the line's bounding box plus some padding; its
+ * `data-pptx-connector` attribute gives the line's ends as fractions of
+ * that box, which the PPTX export turns into a native connector.
+ *
+ * @param x1 - Start x in pixels, relative to the positioned parent.
+ * @param y1 - Start y in pixels.
+ * @param x2 - End x in pixels.
+ * @param y2 - End y in pixels.
+ * @param color - Line color.
+ * @param arrow - Whether to draw an arrowhead at the end.
+ * @param inline - Whether the SVG is laid out inline (in a flex row)
+ *   instead of absolutely positioned.
+ */
+export const ConnectorLine: React.FC<{
+  x1: number;
+  y1: number;
+  x2: number;
+  y2: number;
+  color: string;
+  arrow?: boolean;
+  strokeWidth?: number;
+  inline?: boolean;
+}> = ({ x1, y1, x2, y2, color, arrow = true, strokeWidth = 2, inline }) => {
+  const left = Math.min(x1, x2) - CONNECTOR_PADDING;
+  const top = Math.min(y1, y2) - CONNECTOR_PADDING;
+  const width = Math.abs(x2 - x1) + CONNECTOR_PADDING * 2;
+  const height = Math.abs(y2 - y1) + CONNECTOR_PADDING * 2;
+  const start = { x: x1 - left, y: y1 - top };
+  const end = { x: x2 - left, y: y2 - top };
+
+  const angle = Math.atan2(end.y - start.y, end.x - start.x);
+  const head = 9;
+  const arrowPoints = [
+    [end.x, end.y],
+    [
+      end.x - head * Math.cos(angle - Math.PI / 7),
+      end.y - head * Math.sin(angle - Math.PI / 7),
+    ],
+    [
+      end.x - head * Math.cos(angle + Math.PI / 7),
+      end.y - head * Math.sin(angle + Math.PI / 7),
+    ],
+  ]
+    .map(([x, y]) => `${x},${y}`)
+    .join(" ");
+
+  const round = (value: number) => Math.round(value * 1000) / 1000;
+  return (
+    <svg
+      width={width}
+      height={height}
+      className={inline ? "shrink-0" : "absolute"}
+      style={inline ? undefined : { left, top }}
+      data-pptx-connector={JSON.stringify({
+        x1: round(start.x / width),
+        y1: round(start.y / height),
+        x2: round(end.x / width),
+        y2: round(end.y / height),
+        arrow,
+      })}
+      data-connector-color={color}
+    >
+      <line
+        x1={start.x}
+        y1={start.y}
+        x2={arrow ? end.x - Math.cos(angle) * 4 : end.x}
+        y2={arrow ? end.y - Math.sin(angle) * 4 : end.y}
+        style={{ stroke: color }}
+        strokeWidth={strokeWidth}
+        strokeLinecap="round"
+      />
+      {arrow && <polygon points={arrowPoints} style={{ fill: color }} />}
+    </svg>
+  );
+};
+
+/**
+ * Diagram of nodes and edges: flywheels, architectures, flowcharts, trees,
+ * mindmaps and timelines (see `layoutDiagram`).
+ *
+ * @param data - The diagram.
+ * @param width - Width of the diagram area in pixels.
+ * @param height - Height of the diagram area in pixels.
+ * @returns The diagram, or nothing if it has no nodes.
+ */
+export const DiagramView: React.FC<
+  VisualProps & { data: DiagramData; width: number; height: number }
+> = ({ data, width, height, colors, dataPath }) => {
+  const layout = layoutDiagram(data, width, height);
+  if (layout.nodes.length === 0) return null;
+  const arrows = data.type !== "mindmap";
+  const fontSize = layout.nodes.length > 8 ? 14 : 16;
+
+  return (
+    <div
+      className="relative shrink-0"
+      style={{ width, height }}
+      data-visual-path={dataPath}
+      data-visual-kind="diagram"
+    >
+      {layout.layers.map((layer) => (
+        <React.Fragment key={layer.label}>
+          <div
+            className="absolute rounded-xl"
+            style={{
+              left: layer.x,
+              top: layer.y,
+              width: layer.width,
+              height: layer.height,
+              background: colors.band ?? colors.node,
+            }}
+          />
+          <p
+            className="absolute flex items-center text-xs font-semibold uppercase tracking-wider"
+            style={{
+              left: layer.x + 16,
+              top: layer.y,
+              height: layer.height,
+              color: colors.muted,
+            }}
+          >
+            {layer.label}
+          </p>
+        </React.Fragment>
+      ))}
+
+      {layout.edges.map((edge) => (
+        <ConnectorLine
+          key={`${edge.from}-${edge.to}`}
+          x1={edge.x1}
+          y1={edge.y1}
+          x2={edge.x2}
+          y2={edge.y2}
+          color={colors.line}
+          arrow={arrows}
+        />
+      ))}
+
+      {layout.nodes.map((node) => (
+        <React.Fragment key={node.id}>
+          <div
+            className="absolute flex items-center justify-center text-center font-semibold leading-tight px-3"
+            data-pptx-shape={node.shape === "ellipse" ? "ellipse" : undefined}
+            style={{
+              left: node.x,
+              top: node.y,
+              width: node.width,
+              height: node.height,
+              fontSize,
+              borderRadius: node.shape === "ellipse" ? "50%" : 14,
+              background: node.emphasis ? colors.accent : colors.node,
+              color: node.emphasis ? colors.background : colors.nodeText,
+              border: `1px solid ${node.emphasis ? colors.accent : colors.line}`,
+            }}
+          >
+            {node.label}
+          </div>
+          {node.description && (
+            <p
+              className="absolute text-center text-sm leading-snug"
+              style={{
+                left: node.x,
+                top: node.y + node.height + 12,
+                width: node.width,
+                color: colors.muted,
+              }}
+            >
+              {node.description}
+            </p>
+          )}
+        </React.Fragment>
+      ))}
+
+      {layout.edges
+        .filter((edge) => edge.label)
+        .map((edge) => (
+          <p
+            key={`label-${edge.from}-${edge.to}`}
+            className="absolute -translate-x-1/2 -translate-y-1/2 px-1.5 text-xs whitespace-nowrap"
+            style={{
+              left: (edge.x1 + edge.x2) / 2,
+              top: (edge.y1 + edge.y2) / 2,
+              background: colors.background,
+              color: colors.muted,
+            }}
+          >
+            {edge.label}
+          </p>
+        ))}
+    </div>
+  );
+};
+
+/**
+ * Whether an infographic icon is an image URL (icon names from an icon
+ * library are not rendered).
+ */
+const isIconUrl = (icon?: string): icon is string =>
+  Boolean(icon && /^(?:https?:\/\/|\/)/.test(icon));
+
+/**
+ * Card of a stats, comparison or process infographic.
+ */
+const InfographicCard: React.FC<{
+  item: InfographicItem;
+  colors: VisualColors;
+  highlighted?: boolean;
+  step?: number;
+}> = ({ item, colors, highlighted, step }) => (
+  <div
+    className="flex-1 min-w-0 rounded-2xl p-6 flex flex-col gap-2"
+    style={{
+      background: colors.node,
+      border: `${highlighted ? 2 : 1}px solid ${
+        highlighted ? colors.accent : colors.line
+      }`,
+    }}
+  >
+    {step !== undefined && (
+      <p className="text-sm font-semibold" style={{ color: colors.accent }}>
+        {String(step).padStart(2, "0")}
+      </p>
+    )}
+    {isIconUrl(item.icon) && (
+      <img src={item.icon} alt="" className="w-8 h-8 object-contain" />
+    )}
+    {item.value !== undefined && item.value !== "" && (
+      <p
+        className="text-4xl font-bold leading-none"
+        style={{ color: colors.accent }}
+      >
+        {item.value}
+      </p>
+    )}
+    {item.title && (
+      <p className="text-lg font-semibold" style={{ color: colors.nodeText }}>
+        {item.title}
+      </p>
+    )}
+    {item.description && (
+      <p className="text-sm leading-snug" style={{ color: colors.muted }}>
+        {item.description}
+      </p>
+    )}
+  </div>
+);
+
+/**
+ * Infographic: stat cards ("stats"), numbered steps joined by arrows
+ * ("process"), side-by-side options with the first highlighted
+ * ("comparison"), or rows ("list", and unknown types).
+ *
+ * @param data - The infographic.
+ * @returns The infographic, or nothing if it has no items.
+ */
+export const InfographicView: React.FC<
+  VisualProps & { data: InfographicsData }
+> = ({ data, colors, dataPath }) => {
+  const items = (data.items ?? []).slice(0, 6);
+  if (items.length === 0) return null;
+  const wrapperProps = {
+    "data-visual-path": dataPath,
+    "data-visual-kind": "infographic",
+  };
+
+  if (data.type === "stats" || data.type === "comparison") {
+    return (
+      <div className="w-full flex items-stretch gap-6" {...wrapperProps}>
+        {items.map((item, index) => (
+          <InfographicCard
+            key={index}
+            item={item}
+            colors={colors}
+            highlighted={data.type === "comparison" && index === 0}
+          />
+        ))}
+      </div>
+    );
+  }
+
+  if (data.type === "process") {
+    return (
+      <div className="w-full flex items-center gap-3" {...wrapperProps}>
+        {items.map((item, index) => (
+          <React.Fragment key={index}>
+            {index > 0 && (
+              <ConnectorLine
+                inline
+                x1={0}
+                y1={0}
+                x2={24}
+                y2={0}
+                color={colors.accent}
+              />
+            )}
+            <InfographicCard item={item} colors={colors} step={index + 1} />
+          </React.Fragment>
+        ))}
+      </div>
+    );
+  }
+
+  return (
+    <div className="w-full flex flex-col gap-3" {...wrapperProps}>
+      {items.map((item, index) => (
+        <div
+          key={index}
+          className="flex items-center gap-4 rounded-xl px-5 py-3"
+          style={{
+            background: colors.node,
+            border: `1px solid ${colors.line}`,
+          }}
+        >
+          {isIconUrl(item.icon) ? (
+            <img src={item.icon} alt="" className="w-6 h-6 object-contain" />
+          ) : (
+            <span
+              className="w-2.5 h-2.5 rounded-full shrink-0"
+              style={{ background: colors.accent }}
+            />
+          )}
+          <div className="flex-1 min-w-0">
+            {item.title && (
+              <p
+                className="text-lg font-semibold"
+                style={{ color: colors.nodeText }}
+              >
+                {item.title}
+              </p>
+            )}
+            {item.description && (
+              <p className="text-sm" style={{ color: colors.muted }}>
+                {item.description}
+              </p>
+            )}
+          </div>
+          {item.value !== undefined && item.value !== "" && (
+            <p
+              className="text-2xl font-bold"
+              style={{ color: colors.accent }}
+            >
+              {item.value}
+            </p>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+};
+
+/**
+ * Chart of a `GraphData`: bars (horizontal), lines, areas, a donut for
+ * "pie", or points for "scatter". Exported to PPTX as a native chart of
+ * the same type.
+ *
+ * @param data - The graph.
+ * @returns The chart, or nothing if it has no data points.
+ */
+export const GraphView: React.FC<VisualProps & { data: GraphData }> = ({
+  data,
+  colors,
+  dataPath,
+}) => {
+  const points = data.data ?? [];
+  if (points.length === 0) return null;
+  const values = points.map((point) => Number(point.value) || 0);
+  // Slices need distinct colors; bars highlight the first value
+  const palette =
+    data.type === "pie"
+      ? [colors.accent, colors.nodeText, colors.muted, colors.line]
+      : [colors.accent, colors.muted];
+  const pointColors = points.map(
+    (point, index) =>
+      point.color ??
+      palette[data.type === "pie" ? index % palette.length : index && 1],
+  );
+  const chartType = data.type === "pie" ? "doughnut" : data.type;
+  const max = Math.max(...values, 1);
+
+  let chart: React.ReactNode;
+  switch (data.type) {
+    case "line":
+      chart = <SvgLineChart values={values} stroke={colors.accent} />;
+      break;
+    case "area":
+      chart = (
+        <SvgAreaChart
+          values={values}
+          stroke={colors.accent}
+          fill={colors.accent}
+        />
+      );
+      break;
+    case "pie":
+      chart = (
+        <div className="flex h-full items-center gap-6">
+          <div className="h-full aspect-square">
+            <SvgDonutChart values={values} colors={pointColors} />
+          </div>
+          <div className="flex flex-col gap-2">
+            {points.map((point, index) => (
+              <div key={index} className="flex items-center gap-2">
+                <span
+                  className="w-2.5 h-2.5 rounded-full shrink-0"
+                  style={{ background: pointColors[index] }}
+                />
+                <p className="text-sm" style={{ color: colors.muted }}>
+                  {point.label}
+                </p>
+              </div>
+            ))}
+          </div>
+        </div>
+      );
+      break;
+    case "scatter":
+      chart = (
+        <SvgScatterChart
+          points={values.map((value, index) => ({
+            x: points.length > 1 ? (index / (points.length - 1)) * 100 : 50,
+            y: (value / max) * 100,
+            isPrimary: index === values.indexOf(max),
+          }))}
+          accent={colors.accent}
+          gridColor={colors.line}
+          mutedColor={colors.muted}
+        />
+      );
+      break;
+    default:
+      chart = (
+        <div className="flex h-full gap-3">
+          <div className="flex flex-col justify-around py-[8%]">
+            {points.map((point, index) => (
+              <p
+                key={index}
+                className="text-sm whitespace-nowrap"
+                style={{ color: colors.muted }}
+              >
+                {point.label}
+              </p>
+            ))}
+          </div>
+          <div className="flex-1">
+            <SvgBarChart values={values} colors={pointColors} />
+          </div>
+        </div>
+      );
+  }
+
+  return (
+    <div
+      className="w-full h-full flex flex-col"
+      data-visual-path={dataPath}
+      data-visual-kind="graph"
+      data-pptx-chart={dataPath ? `${dataPath}.data` : ""}
+      data-chart-type={chartType}
+      data-chart-title={data.title}
+      data-chart-color={colors.accent}
+      data-chart-bar-dir={data.type === "bar" ? "bar" : undefined}
+    >
+      {data.title && (
+        <p
+          className="text-sm font-medium mb-3"
+          style={{ color: colors.muted }}
+        >
+          {data.title}
+        </p>
+      )}
+      <div className="flex-1 min-h-0">{chart}</div>
+      {(data.type === "line" || data.type === "area") && (
+        <div className="flex justify-between mt-2">
+          {points.map((point, index) => (
+            <p key={index} className="text-xs" style={{ color: colors.muted }}>
+              {point.label}
+            </p>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -94,11 +94,11 @@ interface AskSlideProps {
  */
 const AskSlide: React.FC<AskSlideProps> = ({ data }) => {
   const colors = {
-    bg: "#ffffff",
-    heading: "#0a0a0a",
-    body: "#525252",
-    muted: "#a3a3a3",
-    surface: "#fafafa",
+    bg: "var(--surface-color, #ffffff)",
+    heading: "var(--text-heading-color, #0a0a0a)",
+    body: "var(--text-body-color, #525252)",
+    muted: "var(--text-muted-color, #a3a3a3)",
+    surface: "var(--card-background-color, #fafafa)",
   };
 
   const useOfFunds = data?.useOfFunds ?? [];
@@ -100,11 +100,11 @@ interface CompetitionSlideProps {
  */
 const CompetitionSlide: React.FC<CompetitionSlideProps> = ({ data }) => {
   const colors = {
-    bg: "#ffffff",
-    heading: "#0a0a0a",
-    body: "#525252",
-    muted: "#a3a3a3",
-    surface: "#fafafa",
+    bg: "var(--surface-color, #ffffff)",
+    heading: "var(--text-heading-color, #0a0a0a)",
+    body: "var(--text-body-color, #525252)",
+    muted: "var(--text-muted-color, #a3a3a3)",
+    surface: "var(--card-background-color, #fafafa)",
   };
 
   const competitors = data?.competitors ?? [];
@@ -139,7 +139,10 @@ const CompetitionSlide: React.FC<CompetitionSlideProps> = ({ data }) => {
         {/* Content */}
         <div className="flex-1 grid grid-cols-[1.2fr_0.8fr] gap-12">
           {/* Competitor table */}
-          <div>
+          <div
+            data-pptx-table="competitors"
+            data-table-headers='["Player","Strength","Opportunity"]'
+          >
             <div
               className="grid grid-cols-3 text-sm font-medium pb-4"
               style={{ color: colors.muted }}
@@ -108,11 +108,11 @@ interface IntroSlideProps {
  */
 const IntroSlide: React.FC<IntroSlideProps> = ({ data }) => {
   const colors = {
-    bg: "#ffffff",
-    heading: "#0a0a0a",
-    body: "#525252",
-    muted: "#a3a3a3",
-    accent: "#0a0a0a",
+    bg: "var(--surface-color, #ffffff)",
+    heading: "var(--text-heading-color, #0a0a0a)",
+    body: "var(--text-body-color, #525252)",
+    muted: "var(--text-muted-color, #a3a3a3)",
+    accent: "var(--primary-accent-color, #0a0a0a)",
   };
 
   const metrics = data?.metrics ?? [];
@@ -94,12 +94,12 @@ interface MarketSlideProps {
  */
 const MarketSlide: React.FC<MarketSlideProps> = ({ data }) => {
   const colors = {
-    bg: "#ffffff",
-    heading: "#0a0a0a",
-    body: "#525252",
-    muted: "#a3a3a3",
-    bar: "#e5e5e5",
-    barFill: "#0a0a0a",
+    bg: "var(--surface-color, #ffffff)",
+    heading: "var(--text-heading-color, #0a0a0a)",
+    body: "var(--text-body-color, #525252)",
+    muted: "var(--text-muted-color, #a3a3a3)",
+    bar: "var(--border-color, #e5e5e5)",
+    barFill: "var(--primary-accent-color, #0a0a0a)",
   };
 
   const segments = data?.segments ?? [
@@ -0,0 +1,171 @@
+/**
+ * Data-driven solution diagram slide template component.
+ *
+ * A presentation slide template that explains how the product works as a
+ * diagram: a flywheel, an architecture of layers, or a flow. Text sits in a
+ * narrow column next to the diagram.
+ */
+
+import React from "react";
+import { type as t } from "arktype";
+import { DiagramView } from "../components/diagrams";
+
+/**
+ * Unique identifier for this layout template.
+ */
+export const layoutId = "data-driven-solution-diagram";
+
+/**
+ * Human-readable name for this layout template.
+ */
+export const layoutName = "Solution Diagram";
+
+/**
+ * Description of this layout template's purpose and design.
+ */
+export const layoutDescription =
+  "Solution slide with a flywheel, architecture or flow diagram beside a short summary.";
+
+/**
+ * Schema definition for solution diagram slide data.
+ *
+ * Defines the structure for solution diagram content: title, solution
+ * statement, and a diagram of 3-6 nodes with optional connections.
+ */
+const solutionDiagramSchema = t({
+  title: t("3<=string<=60")
+    .describe("Solution title")
+    .default("The finance flywheel"),
+  solutionStatement: t("20<=string<=160")
+    .describe("Solution summary")
+    .default(
+      "Every connected account improves forecasts, which drives adoption across the finance team.",
+    ),
+  diagram: t({
+    type: "'flywheel' | 'architecture' | 'flowchart'",
+    nodes: t({
+      id: t("string"),
+      label: t("2<=string<=28"),
+      "type?": t("string").describe("Layer name (architecture only)"),
+    })
+      .array()
+      .and(t("3<=unknown[]<=6")),
+    "edges?": t({
+      from: t("string"),
+      to: t("string"),
+      "label?": t("string<=20"),
+    })
+      .array()
+      .and(t("unknown[]<=8"))
+      .describe("Connections by node id; omit to join nodes in order"),
+  })
+    .describe(
+      "Solution diagram: flywheel (self-reinforcing loop), architecture (product layers) or flowchart (process)",
+    )
+    .default(() => ({
+      type: "flywheel",
+      nodes: [
+        { id: "connect", label: "Connect accounts" },
+        { id: "forecast", label: "Sharper forecasts" },
+        { id: "adopt", label: "Team adoption" },
+        { id: "data", label: "More spend data" },
+      ],
+    })),
+});
+
+/**
+ * Exported schema for use in slide generation and validation.
+ */
+export const Schema = solutionDiagramSchema;
+
+/**
+ * TypeScript type inferred from the solution diagram schema.
+ */
+export type SolutionDiagramSlideData = typeof solutionDiagramSchema.infer;
+
+/**
+ * Props for the SolutionDiagramSlide component.
+ *
+ * @property data - Optional partial slide data. All fields have defaults.
+ */
+interface SolutionDiagramSlideProps {
+  data?: Partial<SolutionDiagramSlideData>;
+}
+
+/**
+ * Data-driven solution diagram slide component.
+ *
+ * Renders a solution diagram slide with:
+ * - Title and solution statement in a left column
+ * - The diagram filling the rest of the slide
+ *
+ * The slide maintains a 16:9 aspect ratio (1280x720px max).
+ *
+ * @param data - Optional slide data. Falls back to schema defaults if not provided.
+ * @returns A complete solution slide with a diagram.
+ */
+const SolutionDiagramSlide: React.FC<SolutionDiagramSlideProps> = ({
+  data,
+}) => {
+  const colors = {
+    bg: "var(--surface-color, #ffffff)",
+    heading: "var(--text-heading-color, #0a0a0a)",
+    body: "var(--text-body-color, #525252)",
+    muted: "var(--text-muted-color, #a3a3a3)",
+    surface: "var(--card-background-color, #fafafa)",
+    accent: "var(--primary-accent-color, #0a0a0a)",
+    bar: "var(--border-color, #e5e5e5)",
+  };
+
+  return (
+    <div
+      className="w-full max-w-[1280px] max-h-[720px] aspect-video mx-auto overflow-hidden"
+      style={{ background: colors.bg }}
+    >
+      <div className="h-full px-16 py-14 flex gap-12">
+        {/* Summary */}
+        <div className="w-[360px] shrink-0 flex flex-col justify-center space-y-4">
+          <p className="text-sm font-medium" style={{ color: colors.muted }}>
+            Solution
+          </p>
+          <h2
+            className="text-5xl font-bold leading-tight"
+            style={{ color: colors.heading }}
+          >
+            {data?.title || "The finance flywheel"}
+          </h2>
+          <p
+            className="text-xl leading-relaxed"
+            style={{ color: colors.body }}
+          >
+            {data?.solutionStatement ||
+              "Every connected account improves forecasts, which drives adoption across the finance team."}
+          </p>
+        </div>
+
+        {/* Diagram */}
+        <div className="flex-1 flex items-center justify-center">
+          {data?.diagram && (
+            <DiagramView
+              data={data.diagram}
+              width={720}
+              height={560}
+              dataPath="diagram"
+              colors={{
+                background: colors.bg,
+                node: colors.bg,
+                nodeText: colors.heading,
+                accent: colors.accent,
+                line: colors.bar,
+                muted: colors.muted,
+                band: colors.surface,
+              }}
+            />
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SolutionDiagramSlide;
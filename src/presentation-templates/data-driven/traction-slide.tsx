@@ -109,11 +109,11 @@ interface TractionSlideProps {
  */
 const TractionSlide: React.FC<TractionSlideProps> = ({ data }) => {
   const colors = {
-    bg: "#ffffff",
-    heading: "#0a0a0a",
-    body: "#525252",
-    muted: "#a3a3a3",
-    chart: "#0a0a0a",
+    bg: "var(--surface-color, #ffffff)",
+    heading: "var(--text-heading-color, #0a0a0a)",
+    body: "var(--text-body-color, #525252)",
+    muted: "var(--text-muted-color, #a3a3a3)",
+    chart: "var(--primary-accent-color, #0a0a0a)",
   };
 
   const metrics = data?.metrics ?? [];
@@ -175,11 +175,9 @@ const TractionSlide: React.FC<TractionSlideProps> = ({ data }) => {
           {/* Chart */}
           <div
             className="flex flex-col"
+            data-pptx-chart="chartData"
             data-chart-type="area"
             data-chart-title="MRR ($K)"
-            data-chart-data={JSON.stringify(chartData)}
-            data-chart-label-key="month"
-            data-chart-value-key="mrr"
             data-chart-color={colors.chart}
           >
             <p
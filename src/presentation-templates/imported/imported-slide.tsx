@@ -0,0 +1,298 @@
+/**
+ * Imported slide template component.
+ *
+ * Renders slides brought in from a PowerPoint file. Instead of a fixed design,
+ * the slide data carries absolutely positioned elements (text boxes, shapes,
+ * pictures, tables and charts) on a 1280x720 canvas, as produced by the PPTX
+ * importer. Text is split into paragraphs so each line stays editable.
+ */
+
+import React from "react";
+import { type as t } from "arktype";
+import {
+  SvgAreaChart,
+  SvgBarChart,
+  SvgDonutChart,
+  SvgLineChart,
+} from "../components/svg-charts";
+
+/**
+ * Unique identifier for this layout template.
+ */
+export const layoutId = "imported-slide";
+
+/**
+ * Human-readable name for this layout template.
+ */
+export const layoutName = "Imported Slide";
+
+/**
+ * Description of this layout template's purpose and design.
+ */
+export const layoutDescription =
+  "Slide imported from PowerPoint with its original element positions.";
+
+/**
+ * Schema definition for a positioned element on an imported slide.
+ *
+ * Positions and font sizes are in pixels on the 1280x720 canvas. Which
+ * optional fields are set depends on `kind`.
+ */
+const elementSchema = t({
+  kind: "'text' | 'shape' | 'line' | 'picture' | 'table' | 'chart'",
+  left: "number",
+  top: "number",
+  width: "number",
+  height: "number",
+  "paragraphs?": "string[]",
+  "fontSize?": "number",
+  "fontWeight?": "number",
+  "italic?": "boolean",
+  "color?": "string",
+  "fontFamily?": "string",
+  "align?": "'left' | 'center' | 'right' | 'justify'",
+  "fill?": "string",
+  "shape?": "'rect' | 'ellipse' | 'rounded'",
+  "src?": "string",
+  "rows?": "string[][]",
+  "chartType?": "string",
+  "chartTitle?": "string",
+  "categories?": "string[]",
+  "series?": t({ name: "string", values: "number[]" }).array(),
+});
+
+/**
+ * Schema definition for imported slide data.
+ */
+const importedSlideSchema = t({
+  title: t("string").describe("Slide title").default("Imported slide"),
+  background: t("string").describe("Background color").default("#FFFFFF"),
+  "backgroundImage?": t("string").describe("Background image URL"),
+  elements: elementSchema
+    .array()
+    .describe("Positioned slide elements")
+    .default(() => [
+      {
+        kind: "text",
+        left: 96,
+        top: 80,
+        width: 1088,
+        height: 96,
+        paragraphs: ["Imported slide"],
+        fontSize: 48,
+        fontWeight: 700,
+        color: "#111111",
+      },
+    ]),
+});
+
+/**
+ * Exported schema for use in slide generation and validation.
+ */
+export const Schema = importedSlideSchema;
+
+/**
+ * TypeScript type inferred from the imported slide schema.
+ */
+export type ImportedSlideData = typeof importedSlideSchema.infer;
+
+/**
+ * A single positioned element on an imported slide.
+ */
+export type ImportedSlideElement = typeof elementSchema.infer;
+
+/**
+ * Props for the ImportedSlide component.
+ *
+ * @property data - Optional partial slide data. All fields have defaults.
+ */
+interface ImportedSlideProps {
+  data?: Partial<ImportedSlideData>;
+}
+
+const CHART_COLORS = ["#4472C4", "#ED7D31", "#A5A5A5", "#FFC000", "#5B9BD5"];
+
+/**
+ * Renders the chart element using the shared SVG chart components. Only the
+ * first series is drawn; PowerPoint's multi-series styling is not preserved.
+ */
+const ImportedChart: React.FC<{ element: ImportedSlideElement }> = ({
+  element,
+}) => {
+  const values = element.series?.[0]?.values ?? [];
+  const type = element.chartType ?? "bar";
+  let chart: React.ReactNode;
+  if (type === "pie" || type === "doughnut") {
+    chart = <SvgDonutChart values={values} colors={CHART_COLORS} />;
+  } else if (type.startsWith("line")) {
+    chart = <SvgLineChart values={values} stroke={CHART_COLORS[0]} />;
+  } else if (type.startsWith("area")) {
+    chart = (
+      <SvgAreaChart
+        values={values}
+        stroke={CHART_COLORS[0]}
+        fill={CHART_COLORS[0]}
+      />
+    );
+  } else {
+    chart = <SvgBarChart values={values} colors={CHART_COLORS} />;
+  }
+  return (
+    <div className="w-full h-full flex flex-col">
+      {element.chartTitle && (
+        <p className="text-sm font-semibold text-center">
+          {element.chartTitle}
+        </p>
+      )}
+      <div className="flex-1 min-h-0">{chart}</div>
+    </div>
+  );
+};
+
+/**
+ * Renders one positioned element.
+ *
+ * Tables and charts carry their content path (`dataPath`) so the PPTX
+ * exporter can rebuild them as native tables and charts.
+ */
+const ImportedElement: React.FC<{
+  element: ImportedSlideElement;
+  dataPath: string;
+}> = ({ element, dataPath }) => {
+  const frame: React.CSSProperties = {
+    position: "absolute",
+    left: element.left,
+    top: element.top,
+    width: element.width,
+    height: element.height,
+  };
+
+  switch (element.kind) {
+    case "text":
+      return (
+        <div
+          style={{
+            ...frame,
+            background: element.fill,
+            color: element.color,
+            fontSize: element.fontSize,
+            fontWeight: element.fontWeight,
+            fontStyle: element.italic ? "italic" : undefined,
+            fontFamily: element.fontFamily
+              ? `'${element.fontFamily}', Arial, sans-serif`
+              : undefined,
+            textAlign: element.align,
+            lineHeight: 1.2,
+            overflow: "hidden",
+          }}
+        >
+          {(element.paragraphs ?? []).map((paragraph, index) => (
+            <p key={index}>{paragraph}</p>
+          ))}
+        </div>
+      );
+    case "shape":
+      return (
+        <div
+          style={{
+            ...frame,
+            background: element.fill,
+            borderRadius:
+              element.shape === "ellipse"
+                ? "50%"
+                : element.shape === "rounded"
+                  ? 12
+                  : 0,
+          }}
+        />
+      );
+    case "line":
+      return (
+        <div
+          style={{
+            ...frame,
+            height: 0,
+            borderTop: `2px solid ${element.fill ?? "#000000"}`,
+          }}
+        />
+      );
+    case "picture":
+      return element.src ? (
+        <img
+          src={element.src}
+          alt=""
+          style={{ ...frame, objectFit: "cover" }}
+        />
+      ) : null;
+    case "table":
+      return (
+        <table
+          style={{ ...frame, borderCollapse: "collapse" }}
+          className="text-sm"
+          data-pptx-table={`${dataPath}.rows`}
+        >
+          <tbody>
+            {(element.rows ?? []).map((row, rowIndex) => (
+              <tr key={rowIndex}>
+                {row.map((cell, cellIndex) => (
+                  <td
+                    key={cellIndex}
+                    className="border border-neutral-300 px-2 py-1"
+                    style={{ fontWeight: rowIndex === 0 ? 600 : 400 }}
+                  >
+                    {cell}
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      );
+    case "chart":
+      return (
+        <div
+          style={frame}
+          data-pptx-chart={dataPath}
+          data-chart-colors={JSON.stringify(CHART_COLORS)}
+        >
+          <ImportedChart element={element} />
+        </div>
+      );
+    default:
+      return null;
+  }
+};
+
+/**
+ * Imported slide component.
+ *
+ * Renders every element at its original position on a 16:9 canvas
+ * (1280x720px max) over the imported background color or image.
+ *
+ * @param data - Optional slide data. Falls back to schema defaults if not provided.
+ * @returns The imported slide.
+ */
+const ImportedSlide: React.FC<ImportedSlideProps> = ({ data }) => {
+  const elements = data?.elements ?? [];
+
+  return (
+    <div
+      className="relative w-full max-w-[1280px] max-h-[720px] aspect-video mx-auto overflow-hidden"
+      style={{
+        background: data?.backgroundImage
+          ? `url('${data.backgroundImage}') center / cover no-repeat`
+          : data?.background || "#FFFFFF",
+      }}
+    >
+      {elements.map((element, index) => (
+        <ImportedElement
+          key={index}
+          element={element}
+          dataPath={`elements.${index}`}
+        />
+      ))}
+    </div>
+  );
+};
+
+export default ImportedSlide;
@@ -87,13 +87,15 @@ interface BusinessModelSlideProps {
  */
 const BusinessModelSlide: React.FC<BusinessModelSlideProps> = ({ data }) => {
   const colors = {
-    bg: "#ffffff",
-    heading: "#171717",
-    body: "#525252",
-    muted: "#a3a3a3",
-    accent: "#2563eb",
-    gradient: "linear-gradient(135deg, #2563eb 0%, #4f46e5 100%)",
-    surface: "#fafafa",
+    bg: "var(--surface-color, #ffffff)",
+    heading: "var(--text-heading-color, #171717)",
+    body: "var(--text-body-color, #525252)",
+    muted: "var(--text-muted-color, #a3a3a3)",
+    accent: "var(--primary-accent-color, #2563eb)",
+    gradient:
+      "linear-gradient(135deg, var(--primary-accent-color, #2563eb) 0%, " +
+      "var(--primary-accent-color, #4f46e5) 100%)",
+    surface: "var(--card-background-color, #fafafa)",
   };
 
   const revenueStreams = data?.revenueStreams ?? [];
@@ -0,0 +1,192 @@
+/**
+ * Minimal investor solution diagram slide template component.
+ *
+ * A presentation slide template for solution slides featuring a full-width
+ * diagram under a gradient-accented header: a flywheel, an architecture of
+ * layers, or a flow.
+ */
+
+import React from "react";
+import { type as t } from "arktype";
+import { DiagramView } from "../components/diagrams";
+
+/**
+ * Unique identifier for this layout template.
+ */
+export const layoutId = "minimal-investor-solution-diagram";
+
+/**
+ * Human-readable name for this layout template.
+ */
+export const layoutName = "Solution Diagram";
+
+/**
+ * Description of this layout template's purpose and design.
+ */
+export const layoutDescription =
+  "Solution slide with a full-width flywheel, architecture or flow diagram.";
+
+/**
+ * Schema definition for solution diagram slide data.
+ *
+ * Defines the structure for solution diagram content: title, solution
+ * statement, and a diagram of 3-6 nodes with optional connections.
+ */
+const solutionDiagramSchema = t({
+  title: t("3<=string<=60")
+    .describe("Solution title")
+    .default("The Finance Stack"),
+  solutionStatement: t("20<=string<=160")
+    .describe("Solution summary")
+    .default(
+      "Three layers turn raw bank and ERP data into forecasts every team can act on.",
+    ),
+  diagram: t({
+    type: "'flywheel' | 'architecture' | 'flowchart'",
+    nodes: t({
+      id: t("string"),
+      label: t("2<=string<=28"),
+      "type?": t("string").describe("Layer name (architecture only)"),
+    })
+      .array()
+      .and(t("3<=unknown[]<=6")),
+    "edges?": t({
+      from: t("string"),
+      to: t("string"),
+      "label?": t("string<=20"),
+    })
+      .array()
+      .and(t("unknown[]<=8"))
+      .describe("Connections by node id; omit to join nodes in order"),
+  })
+    .describe(
+      "Solution diagram: flywheel (self-reinforcing loop), architecture (product layers) or flowchart (process)",
+    )
+    .default(() => ({
+      type: "architecture",
+      nodes: [
+        { id: "apps", label: "Finance apps", type: "Experience" },
+        { id: "api", label: "Open API", type: "Experience" },
+        { id: "engine", label: "Forecast engine", type: "Intelligence" },
+        { id: "rules", label: "Policy rules", type: "Intelligence" },
+        { id: "ledger", label: "Unified ledger", type: "Data" },
+        { id: "sync", label: "Bank sync", type: "Data" },
+      ],
+      edges: [
+        { from: "apps", to: "engine" },
+        { from: "api", to: "rules" },
+        { from: "engine", to: "ledger" },
+        { from: "rules", to: "sync" },
+      ],
+    })),
+});
+
+/**
+ * Exported schema for use in slide generation and validation.
+ */
+export const Schema = solutionDiagramSchema;
+
+/**
+ * TypeScript type inferred from the solution diagram schema.
+ */
+export type SolutionDiagramSlideData = typeof solutionDiagramSchema.infer;
+
+/**
+ * Props for the SolutionDiagramSlide component.
+ *
+ * @property data - Optional partial slide data. All fields have defaults.
+ */
+interface SolutionDiagramSlideProps {
+  data?: Partial<SolutionDiagramSlideData>;
+}
+
+/**
+ * Minimal investor solution diagram slide component.
+ *
+ * Renders a solution diagram slide with:
+ * - Title and solution statement
+ * - The diagram across the full width below
+ *
+ * The slide maintains a 16:9 aspect ratio (1280x720px max).
+ *
+ * @param data - Optional slide data. Falls back to schema defaults if not provided.
+ * @returns A complete solution slide with a diagram.
+ */
+const SolutionDiagramSlide: React.FC<SolutionDiagramSlideProps> = ({
+  data,
+}) => {
+  const colors = {
+    bg: "var(--surface-color, #ffffff)",
+    heading: "var(--text-heading-color, #171717)",
+    body: "var(--text-body-color, #525252)",
+    muted: "var(--text-muted-color, #a3a3a3)",
+    surface: "var(--card-background-color, #fafafa)",
+    accent: "var(--primary-accent-color, #2563eb)",
+    bar: "var(--border-color, #e5e5e5)",
+    gradient:
+      "linear-gradient(135deg, var(--primary-accent-color, #2563eb) 0%, " +
+      "var(--primary-accent-color, #4f46e5) 100%)",
+  };
+
+  return (
+    <div
+      className="w-full max-w-[1280px] max-h-[720px] aspect-video mx-auto overflow-hidden"
+      style={{ background: colors.bg }}
+    >
+      <div className="h-full px-16 py-14 flex flex-col">
+        {/* Header */}
+        <div className="space-y-4 mb-8">
+          <p
+            className="text-sm font-medium"
+            style={{
+              background: colors.gradient,
+              WebkitBackgroundClip: "text",
+              WebkitTextFillColor: "transparent",
+              backgroundClip: "text",
+              color: "transparent",
+              width: "fit-content",
+            }}
+          >
+            Solution
+          </p>
+          <h2
+            className="text-5xl font-bold leading-tight"
+            style={{ color: colors.heading }}
+          >
+            {data?.title || "The Finance Stack"}
+          </h2>
+          <p
+            className="text-xl leading-relaxed max-w-3xl"
+            style={{ color: colors.body }}
+          >
+            {data?.solutionStatement ||
+              "Three layers turn raw bank and ERP data into forecasts every team can act on."}
+          </p>
+        </div>
+
+        {/* Diagram */}
+        <div className="flex-1 min-h-0 flex items-center justify-center">
+          {data?.diagram && (
+            <DiagramView
+              data={data.diagram}
+              width={1152}
+              height={380}
+              dataPath="diagram"
+              colors={{
+                background: colors.bg,
+                node: colors.bg,
+                nodeText: colors.heading,
+                accent: colors.accent,
+                line: colors.bar,
+                muted: colors.muted,
+                band: colors.surface,
+              }}
+            />
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SolutionDiagramSlide;
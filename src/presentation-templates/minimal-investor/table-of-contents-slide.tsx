@@ -0,0 +1,177 @@
+/**
+ * Minimal investor table of contents slide template component.
+ *
+ * A presentation slide template for the agenda of a deck: the sections that
+ * follow, numbered in order, each with an optional one-line summary. Long
+ * agendas flow into two columns.
+ */
+
+import React from "react";
+import { type as t } from "arktype";
+
+/**
+ * Unique identifier for this layout template.
+ */
+export const layoutId = "minimal-investor-table-of-contents";
+
+/**
+ * Human-readable name for this layout template.
+ */
+export const layoutName = "Agenda";
+
+/**
+ * Description of this layout template's purpose and design.
+ */
+export const layoutDescription =
+  "Agenda slide listing the sections of the deck as a numbered table of contents.";
+
+/**
+ * Schema definition for table of contents slide data.
+ *
+ * Defines the structure for the agenda: a title and 2-12 sections in deck
+ * order, each with an optional short description.
+ */
+const tableOfContentsSchema = t({
+  title: t("3<=string<=40").describe("Agenda title").default("Agenda"),
+  sections: t({
+    title: t("2<=string<=40"),
+    "description?": t("string<=60"),
+  })
+    .array()
+    .and(t("2<=unknown[]<=12"))
+    .describe("Sections of the deck, in slide order")
+    .default(() => [
+      { title: "Problem", description: "No-shows cost clinics 30%" },
+      { title: "Solution", description: "Predictive scheduling" },
+      { title: "Market", description: "$12B outpatient scheduling" },
+      { title: "Traction", description: "140 clinics, 3x YoY" },
+      { title: "Team" },
+      { title: "Ask" },
+    ]),
+});
+
+/**
+ * Exported schema for use in slide generation and validation.
+ */
+export const Schema = tableOfContentsSchema;
+
+/**
+ * TypeScript type inferred from the table of contents schema.
+ */
+export type TableOfContentsSlideData = typeof tableOfContentsSchema.infer;
+
+/**
+ * Props for the TableOfContentsSlide component.
+ *
+ * @property data - Optional partial slide data. All fields have defaults.
+ */
+interface TableOfContentsSlideProps {
+  data?: Partial<TableOfContentsSlideData>;
+}
+
+/**
+ * Minimal investor table of contents slide component.
+ *
+ * Renders an agenda slide with:
+ * - Title in a left column
+ * - Numbered sections on the right, in two columns past six sections
+ * - Descriptions under each section, hidden past eight sections
+ *
+ * The slide maintains a 16:9 aspect ratio (1280x720px max).
+ *
+ * @param data - Optional slide data. Falls back to schema defaults if not provided.
+ * @returns A complete agenda slide.
+ */
+const TableOfContentsSlide: React.FC<TableOfContentsSlideProps> = ({
+  data,
+}) => {
+  const colors = {
+    bg: "var(--surface-color, #ffffff)",
+    heading: "var(--text-heading-color, #171717)",
+    body: "var(--text-body-color, #525252)",
+    muted: "var(--text-muted-color, #a3a3a3)",
+    accent: "var(--primary-accent-color, #2563eb)",
+    bar: "var(--border-color, #e5e5e5)",
+    gradient:
+      "linear-gradient(135deg, var(--primary-accent-color, #2563eb) 0%, " +
+      "var(--primary-accent-color, #4f46e5) 100%)",
+  };
+
+  const sections = data?.sections ?? [];
+  const twoColumns = sections.length > 6;
+  const showDescriptions = sections.length <= 8;
+
+  return (
+    <div
+      className="w-full max-w-[1280px] max-h-[720px] aspect-video mx-auto overflow-hidden"
+      style={{ background: colors.bg }}
+    >
+      <div className="h-full px-16 py-14 flex gap-16">
+        {/* Header */}
+        <div className="w-[320px] shrink-0 flex flex-col justify-center space-y-4">
+          <p
+            className="text-sm font-medium"
+            style={{
+              background: colors.gradient,
+              WebkitBackgroundClip: "text",
+              WebkitTextFillColor: "transparent",
+              backgroundClip: "text",
+              color: "transparent",
+              width: "fit-content",
+            }}
+          >
+            Contents
+          </p>
+          <h2
+            className="text-6xl font-bold leading-tight"
+            style={{ color: colors.heading }}
+          >
+            {data?.title || "Agenda"}
+          </h2>
+        </div>
+
+        {/* Sections */}
+        <div
+          className={`flex-1 grid content-center gap-x-12 ${
+            twoColumns ? "grid-cols-2" : "grid-cols-1"
+          }`}
+        >
+          {sections.map((section, index) => (
+            <div
+              key={`${section.title}-${index}`}
+              className={`flex items-baseline gap-6 border-b ${
+                twoColumns ? "py-3" : "py-4"
+              }`}
+              style={{ borderColor: colors.bar }}
+            >
+              <span
+                className="text-base font-semibold tabular-nums"
+                style={{ color: colors.accent }}
+              >
+                {String(index + 1).padStart(2, "0")}
+              </span>
+              <div className="min-w-0">
+                <p
+                  className="text-2xl font-semibold"
+                  style={{ color: colors.heading }}
+                >
+                  {section.title}
+                </p>
+                {showDescriptions && section.description && (
+                  <p
+                    className="text-base mt-1"
+                    style={{ color: colors.body }}
+                  >
+                    {section.description}
+                  </p>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TableOfContentsSlide;
@@ -100,12 +100,14 @@ interface TractionSlideProps {
  */
 const TractionSlide: React.FC<TractionSlideProps> = ({ data }) => {
   const colors = {
-    bg: "#ffffff",
-    heading: "#171717",
-    body: "#525252",
-    muted: "#a3a3a3",
-    accent: "#2563eb",
-    gradient: "linear-gradient(135deg, #2563eb 0%, #4f46e5 100%)",
+    bg: "var(--surface-color, #ffffff)",
+    heading: "var(--text-heading-color, #171717)",
+    body: "var(--text-body-color, #525252)",
+    muted: "var(--text-muted-color, #a3a3a3)",
+    accent: "var(--primary-accent-color, #2563eb)",
+    gradient:
+      "linear-gradient(135deg, var(--primary-accent-color, #2563eb) 0%, " +
+      "var(--primary-accent-color, #4f46e5) 100%)",
   };
 
   const metrics = data?.metrics ?? [];
@@ -176,11 +178,9 @@ const TractionSlide: React.FC<TractionSlideProps> = ({ data }) => {
           {/* Chart */}
           <div
             className="flex flex-col"
+            data-pptx-chart="chartData"
             data-chart-type="area"
             data-chart-title="MRR ($K)"
-            data-chart-data={JSON.stringify(chartData)}
-            data-chart-label-key="month"
-            data-chart-value-key="mrr"
             data-chart-color={colors.accent}
           >
             <p
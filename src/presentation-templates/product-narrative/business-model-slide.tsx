@@ -86,11 +86,11 @@ interface BusinessModelSlideProps {
  */
 const BusinessModelSlide: React.FC<BusinessModelSlideProps> = ({ data }) => {
   const colors = {
-    bg: "#0a0a0a",
-    heading: "#fafafa",
-    body: "#a3a3a3",
-    muted: "#737373",
-    surface: "#171717",
+    bg: "var(--surface-color, #0a0a0a)",
+    heading: "var(--text-heading-color, #fafafa)",
+    body: "var(--text-body-color, #a3a3a3)",
+    muted: "var(--text-muted-color, #737373)",
+    surface: "var(--card-background-color, #171717)",
   };
 
   const revenueStreams = data?.revenueStreams ?? [];
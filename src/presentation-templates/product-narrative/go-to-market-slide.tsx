@@ -0,0 +1,192 @@
+/**
+ * Product narrative go-to-market slide template component.
+ *
+ * A presentation slide template for go-to-market slides on a dark
+ * background, showing the customer journey as steps with an optional chart
+ * of the channel mix.
+ */
+
+import React from "react";
+import { type as t } from "arktype";
+import { GraphView, InfographicView } from "../components/diagrams";
+
+/**
+ * Unique identifier for this layout template.
+ */
+export const layoutId = "product-narrative-go-to-market";
+
+/**
+ * Human-readable name for this layout template.
+ */
+export const layoutName = "Go-to-Market";
+
+/**
+ * Description of this layout template's purpose and design.
+ */
+export const layoutDescription =
+  "Go-to-market slide with an acquisition playbook infographic and channel mix chart.";
+
+/**
+ * Schema definition for go-to-market slide data.
+ *
+ * Defines the structure for go-to-market content, including the playbook
+ * (3-4 steps, stats or channels) and an optional channel mix chart.
+ */
+const goToMarketSchema = t({
+  title: t("3<=string<=60")
+    .describe("Go-to-market title")
+    .default("How customers find us"),
+  strategy: t("20<=string<=160")
+    .describe("Go-to-market summary")
+    .default(
+      "Every shared forecast brings new teams in; sales focuses on the accounts already using us.",
+    ),
+  playbook: t({
+    type: "'process' | 'stats' | 'list'",
+    items: t({
+      title: t("2<=string<=30"),
+      "value?": t("string<=12"),
+      "description?": t("string<=80"),
+    })
+      .array()
+      .and(t("3<=unknown[]<=4")),
+  })
+    .describe(
+      "Acquisition playbook: process (funnel steps in order), stats (channel metrics) or list (channels)",
+    )
+    .default(() => ({
+      type: "process",
+      items: [
+        {
+          title: "Discover",
+          value: "60%",
+          description: "Sign-ups from shared forecasts",
+        },
+        {
+          title: "Activate",
+          value: "10 min",
+          description: "Time to the first forecast",
+        },
+        {
+          title: "Expand",
+          value: "3.2x",
+          description: "Seats after six months",
+        },
+      ],
+    })),
+  "channelMix?": t({
+    type: "'pie' | 'bar'",
+    "title?": t("string<=40"),
+    data: t({
+      label: t("2<=string<=20"),
+      value: t("number"),
+    })
+      .array()
+      .and(t("2<=unknown[]<=5")),
+  }).describe("Optional share of pipeline or revenue by channel"),
+});
+
+/**
+ * Exported schema for use in slide generation and validation.
+ */
+export const Schema = goToMarketSchema;
+
+/**
+ * TypeScript type inferred from the go-to-market schema.
+ */
+export type GoToMarketSlideData = typeof goToMarketSchema.infer;
+
+/**
+ * Props for the GoToMarketSlide component.
+ *
+ * @property data - Optional partial slide data. All fields have defaults.
+ */
+interface GoToMarketSlideProps {
+  data?: Partial<GoToMarketSlideData>;
+}
+
+/**
+ * Product narrative go-to-market slide component.
+ *
+ * Renders a go-to-market slide with:
+ * - Title and strategy summary
+ * - The playbook infographic
+ * - The channel mix chart beside it, when provided
+ *
+ * The slide maintains a 16:9 aspect ratio (1280x720px max).
+ *
+ * @param data - Optional slide data. Falls back to schema defaults if not provided.
+ * @returns A complete go-to-market slide.
+ */
+const GoToMarketSlide: React.FC<GoToMarketSlideProps> = ({ data }) => {
+  const colors = {
+    bg: "var(--surface-color, #0a0a0a)",
+    heading: "var(--text-heading-color, #fafafa)",
+    body: "var(--text-body-color, #a3a3a3)",
+    muted: "var(--text-muted-color, #737373)",
+    surface: "var(--card-background-color, #171717)",
+    accent: "var(--primary-accent-color, #f59e0b)",
+    bar: "var(--border-color, #262626)",
+  };
+  const visualColors = {
+    background: colors.bg,
+    node: colors.surface,
+    nodeText: colors.heading,
+    accent: colors.accent,
+    line: colors.bar,
+    muted: colors.muted,
+  };
+
+  return (
+    <div
+      className="w-full max-w-[1280px] max-h-[720px] aspect-video mx-auto overflow-hidden"
+      style={{ background: colors.bg }}
+    >
+      <div className="h-full px-16 py-14 flex flex-col">
+        {/* Header */}
+        <div className="space-y-4 mb-10">
+          <p className="text-sm font-medium" style={{ color: colors.muted }}>
+            Go-to-market
+          </p>
+          <h2
+            className="text-5xl font-bold leading-tight"
+            style={{ color: colors.heading }}
+          >
+            {data?.title || "How customers find us"}
+          </h2>
+          <p
+            className="text-xl leading-relaxed max-w-3xl"
+            style={{ color: colors.body }}
+          >
+            {data?.strategy ||
+              "Every shared forecast brings new teams in; sales focuses on the accounts already using us."}
+          </p>
+        </div>
+
+        {/* Playbook and channel mix */}
+        <div className="flex-1 min-h-0 flex items-center gap-12">
+          <div className="flex-1 min-w-0">
+            {data?.playbook && (
+              <InfographicView
+                data={data.playbook}
+                dataPath="playbook"
+                colors={visualColors}
+              />
+            )}
+          </div>
+          {data?.channelMix && (
+            <div className="w-[340px] h-[240px] shrink-0">
+              <GraphView
+                data={data.channelMix}
+                dataPath="channelMix"
+                colors={visualColors}
+              />
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default GoToMarketSlide;
@@ -85,12 +85,12 @@ interface RoadmapSlideProps {
  */
 const RoadmapSlide: React.FC<RoadmapSlideProps> = ({ data }) => {
   const colors = {
-    bg: "#0a0a0a",
-    heading: "#fafafa",
-    body: "#a3a3a3",
-    muted: "#737373",
-    surface: "#171717",
-    accent: "#f59e0b",
+    bg: "var(--surface-color, #0a0a0a)",
+    heading: "var(--text-heading-color, #fafafa)",
+    body: "var(--text-body-color, #a3a3a3)",
+    muted: "var(--text-muted-color, #737373)",
+    surface: "var(--card-background-color, #171717)",
+    accent: "var(--primary-accent-color, #f59e0b)",
   };
 
   const phases = data?.phases ?? [];
@@ -101,10 +101,10 @@ interface SolutionSlideProps {
  */
 const SolutionSlide: React.FC<SolutionSlideProps> = ({ data }) => {
   const colors = {
-    bg: "#0a0a0a",
-    heading: "#fafafa",
-    body: "#a3a3a3",
-    muted: "#737373",
+    bg: "var(--surface-color, #0a0a0a)",
+    heading: "var(--text-heading-color, #fafafa)",
+    body: "var(--text-body-color, #a3a3a3)",
+    muted: "var(--text-muted-color, #737373)",
   };
 
   const pillars = data?.pillars ?? [];
@@ -98,11 +98,11 @@ interface TractionSlideProps {
  */
 const TractionSlide: React.FC<TractionSlideProps> = ({ data }) => {
   const colors = {
-    bg: "#0a0a0a",
-    heading: "#fafafa",
-    body: "#a3a3a3",
-    muted: "#737373",
-    accent: "#f59e0b",
+    bg: "var(--surface-color, #0a0a0a)",
+    heading: "var(--text-heading-color, #fafafa)",
+    body: "var(--text-body-color, #a3a3a3)",
+    muted: "var(--text-muted-color, #737373)",
+    accent: "var(--primary-accent-color, #f59e0b)",
   };
 
   const metrics = data?.metrics ?? [];
@@ -157,11 +157,9 @@ const TractionSlide: React.FC<TractionSlideProps> = ({ data }) => {
           {/* Chart */}
           <div
             className="flex flex-col"
+            data-pptx-chart="chartData"
             data-chart-type="area"
             data-chart-title="MRR ($K)"
-            data-chart-data={JSON.stringify(chartData)}
-            data-chart-label-key="month"
-            data-chart-value-key="mrr"
             data-chart-color={colors.accent}
           >
             <p
@@ -0,0 +1,191 @@
+/**
+ * Vision bold go-to-market slide template component.
+ *
+ * A presentation slide template for go-to-market slides featuring the
+ * distribution channels and an optional chart of the channel mix.
+ */
+
+import React from "react";
+import { type as t } from "arktype";
+import { GraphView, InfographicView } from "../components/diagrams";
+
+/**
+ * Unique identifier for this layout template.
+ */
+export const layoutId = "vision-bold-go-to-market";
+
+/**
+ * Human-readable name for this layout template.
+ */
+export const layoutName = "Go-to-Market";
+
+/**
+ * Description of this layout template's purpose and design.
+ */
+export const layoutDescription =
+  "Go-to-market slide with an acquisition playbook infographic and channel mix chart.";
+
+/**
+ * Schema definition for go-to-market slide data.
+ *
+ * Defines the structure for go-to-market content, including the playbook
+ * (3-4 steps, stats or channels) and an optional channel mix chart.
+ */
+const goToMarketSchema = t({
+  title: t("3<=string<=60")
+    .describe("Go-to-market title")
+    .default("Enterprise-first distribution"),
+  strategy: t("20<=string<=160")
+    .describe("Go-to-market summary")
+    .default(
+      "Cloud marketplaces and systems integrators put us in front of enterprise buyers.",
+    ),
+  playbook: t({
+    type: "'process' | 'stats' | 'list'",
+    items: t({
+      title: t("2<=string<=30"),
+      "value?": t("string<=12"),
+      "description?": t("string<=80"),
+    })
+      .array()
+      .and(t("3<=unknown[]<=4")),
+  })
+    .describe(
+      "Acquisition playbook: process (funnel steps in order), stats (channel metrics) or list (channels)",
+    )
+    .default(() => ({
+      type: "list",
+      items: [
+        {
+          title: "Cloud marketplaces",
+          value: "45%",
+          description: "Procurement through existing cloud commits",
+        },
+        {
+          title: "Systems integrators",
+          value: "30%",
+          description: "Co-sell with three global partners",
+        },
+        {
+          title: "Direct enterprise",
+          value: "25%",
+          description: "Named-account team for the Fortune 500",
+        },
+      ],
+    })),
+  "channelMix?": t({
+    type: "'pie' | 'bar'",
+    "title?": t("string<=40"),
+    data: t({
+      label: t("2<=string<=20"),
+      value: t("number"),
+    })
+      .array()
+      .and(t("2<=unknown[]<=5")),
+  }).describe("Optional share of pipeline or revenue by channel"),
+});
+
+/**
+ * Exported schema for use in slide generation and validation.
+ */
+export const Schema = goToMarketSchema;
+
+/**
+ * TypeScript type inferred from the go-to-market schema.
+ */
+export type GoToMarketSlideData = typeof goToMarketSchema.infer;
+
+/**
+ * Props for the GoToMarketSlide component.
+ *
+ * @property data - Optional partial slide data. All fields have defaults.
+ */
+interface GoToMarketSlideProps {
+  data?: Partial<GoToMarketSlideData>;
+}
+
+/**
+ * Vision bold go-to-market slide component.
+ *
+ * Renders a go-to-market slide with:
+ * - Title and strategy summary
+ * - The playbook infographic
+ * - The channel mix chart beside it, when provided
+ *
+ * The slide maintains a 16:9 aspect ratio (1280x720px max).
+ *
+ * @param data - Optional slide data. Falls back to schema defaults if not provided.
+ * @returns A complete go-to-market slide.
+ */
+const GoToMarketSlide: React.FC<GoToMarketSlideProps> = ({ data }) => {
+  const colors = {
+    bg: "var(--surface-color, #fafafa)",
+    heading: "var(--text-heading-color, #0a0a0a)",
+    body: "var(--text-body-color, #525252)",
+    muted: "var(--text-muted-color, #a3a3a3)",
+    surface: "var(--card-background-color, #ffffff)",
+    accent: "var(--primary-accent-color, #8b5cf6)",
+    bar: "var(--border-color, #e5e5e5)",
+  };
+  const visualColors = {
+    background: colors.bg,
+    node: colors.surface,
+    nodeText: colors.heading,
+    accent: colors.accent,
+    line: colors.bar,
+    muted: colors.muted,
+  };
+
+  return (
+    <div
+      className="w-full max-w-[1280px] max-h-[720px] aspect-video mx-auto overflow-hidden"
+      style={{ background: colors.bg }}
+    >
+      <div className="h-full px-16 py-14 flex flex-col">
+        {/* Header */}
+        <div className="space-y-4 mb-10">
+          <p className="text-sm font-medium" style={{ color: colors.muted }}>
+            Go-to-market
+          </p>
+          <h2
+            className="text-5xl font-bold leading-tight"
+            style={{ color: colors.heading }}
+          >
+            {data?.title || "Enterprise-first distribution"}
+          </h2>
+          <p
+            className="text-xl leading-relaxed max-w-3xl"
+            style={{ color: colors.body }}
+          >
+            {data?.strategy ||
+              "Cloud marketplaces and systems integrators put us in front of enterprise buyers."}
+          </p>
+        </div>
+
+        {/* Playbook and channel mix */}
+        <div className="flex-1 min-h-0 flex items-center gap-12">
+          <div className="flex-1 min-w-0">
+            {data?.playbook && (
+              <InfographicView
+                data={data.playbook}
+                dataPath="playbook"
+                colors={visualColors}
+              />
+            )}
+          </div>
+          {data?.channelMix && (
+            <div className="w-[340px] h-[240px] shrink-0">
+              <GraphView
+                data={data.channelMix}
+                dataPath="channelMix"
+                colors={visualColors}
+              />
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default GoToMarketSlide;
@@ -84,11 +84,13 @@ interface MarketSlideProps {
  */
 const MarketSlide: React.FC<MarketSlideProps> = ({ data }) => {
   const colors = {
-    bg: "#fafafa",
-    heading: "#0a0a0a",
-    body: "#525252",
-    muted: "#a3a3a3",
-    gradient: "linear-gradient(135deg, #ec4899 0%, #8b5cf6 100%)",
+    bg: "var(--surface-color, #fafafa)",
+    heading: "var(--text-heading-color, #0a0a0a)",
+    body: "var(--text-body-color, #525252)",
+    muted: "var(--text-muted-color, #a3a3a3)",
+    gradient:
+      "linear-gradient(135deg, var(--primary-accent-color, #ec4899) 0%, " +
+      "var(--primary-accent-color, #8b5cf6) 100%)",
   };
 
   const segments = data?.segments ?? [];
@@ -99,12 +99,14 @@ interface TractionSlideProps {
  */
 const TractionSlide: React.FC<TractionSlideProps> = ({ data }) => {
   const colors = {
-    bg: "#fafafa",
-    heading: "#0a0a0a",
-    body: "#525252",
-    muted: "#a3a3a3",
-    gradient: "linear-gradient(135deg, #ec4899 0%, #8b5cf6 100%)",
-    chart: "#8b5cf6",
+    bg: "var(--surface-color, #fafafa)",
+    heading: "var(--text-heading-color, #0a0a0a)",
+    body: "var(--text-body-color, #525252)",
+    muted: "var(--text-muted-color, #a3a3a3)",
+    gradient:
+      "linear-gradient(135deg, var(--primary-accent-color, #ec4899) 0%, " +
+      "var(--primary-accent-color, #8b5cf6) 100%)",
+    chart: "var(--primary-accent-color, #8b5cf6)",
   };
 
   const metrics = data?.metrics ?? [];
@@ -171,11 +173,9 @@ const TractionSlide: React.FC<TractionSlideProps> = ({ data }) => {
           {/* Chart */}
           <div
             className="flex flex-col"
+            data-pptx-chart="chartData"
             data-chart-type="area"
             data-chart-title="MRR ($K)"
-            data-chart-data={JSON.stringify(chartData)}
-            data-chart-label-key="month"
-            data-chart-value-key="mrr"
             data-chart-color={colors.chart}
           >
             <p
@@ -0,0 +1,126 @@
+/**
+ * Request proxy (formerly middleware) that gates the app behind sign-in.
+ *
+ * Runs before every matched request:
+ * - Supabase provider: refreshes the Supabase session cookies with the
+ *   `@supabase/ssr` middleware helper, then checks for a user
+ * - Local provider: verifies the signed session cookie
+ *
+ * Unauthenticated page requests are redirected to `/login?next=<path>`;
+ * unauthenticated API requests get a 401 JSON response. Route handlers still
+ * resolve the user themselves (see `withAuthenticatedUser`), so this is the
+ * first line of defence, not the only one.
+ */
+
+import { NextResponse, type NextRequest } from "next/server";
+import {
+  getAuthProvider,
+  SESSION_COOKIE_NAME,
+  verifySessionToken,
+} from "@/server/session";
+import { createClient as createSupabaseClient } from "@/utils/supabase/middleware";
+
+/**
+ * Path prefixes that are reachable without signing in.
+ *
+ * - /login: The sign-in page itself
+ * - /api/v1/auth: Register, login, logout and current-user endpoints
+ * - /api/v1/config/telemetry: Read by the analytics initializer on every page
+ * - /share, /api/v1/share: Read-only share links, which grant access by
+ *   their token (see server/sharing)
+ * - /layout-frame: Sandboxed document custom layouts render in. It is
+ *   loaded with an opaque origin, which carries no session
+ * - /api/v1/cron: Scheduled jobs, which authorize with CRON_SECRET
+ */
+const PUBLIC_PATH_PREFIXES = [
+  "/login",
+  "/api/v1/auth",
+  "/api/v1/config/telemetry",
+  "/share",
+  "/api/v1/share",
+  "/layout-frame",
+  "/api/v1/cron",
+];
+
+/**
+ * Exact paths that are reachable without signing in.
+ *
+ * - /api/v1/templates: Built-in template list, needed by the share viewer
+ *   to render slides. Its sub-paths (custom templates) stay private.
+ */
+const PUBLIC_PATHS = ["/api/v1/templates"];
+
+/**
+ * Checks whether a path can be served without a session.
+ *
+ * @param pathname - Request path.
+ * @returns True if the path is public.
+ */
+const isPublicPath = (pathname: string): boolean =>
+  PUBLIC_PATHS.includes(pathname) ||
+  PUBLIC_PATH_PREFIXES.some(
+    (prefix) => pathname === prefix || pathname.startsWith(`${prefix}/`),
+  );
+
+/**
+ * Builds the response for a request without a valid session.
+ *
+ * @param request - The incoming request.
+ * @returns 401 JSON for API requests, otherwise a redirect to the sign-in page.
+ */
+const unauthenticatedResponse = (request: NextRequest) => {
+  if (request.nextUrl.pathname.startsWith("/api/")) {
+    return NextResponse.json(
+      { detail: "Authentication required" },
+      { status: 401 },
+    );
+  }
+  const loginUrl = request.nextUrl.clone();
+  loginUrl.pathname = "/login";
+  loginUrl.search = "";
+  loginUrl.searchParams.set(
+    "next",
+    `${request.nextUrl.pathname}${request.nextUrl.search}`,
+  );
+  return NextResponse.redirect(loginUrl);
+};
+
+/**
+ * Proxy entry point.
+ *
+ * @param request - The incoming request.
+ * @returns The request passed through (with refreshed Supabase cookies when
+ *   applicable), a redirect to /login, or a 401 response.
+ */
+export async function proxy(request: NextRequest) {
+  if (isPublicPath(request.nextUrl.pathname)) {
+    return NextResponse.next();
+  }
+
+  if (getAuthProvider() === "supabase") {
+    const { supabase, response } = createSupabaseClient(request);
+    const { data } = await supabase.auth.getUser();
+    return data.user ? response : unauthenticatedResponse(request);
+  }
+
+  const userId = verifySessionToken(
+    request.cookies.get(SESSION_COOKIE_NAME)?.value,
+  );
+  return userId ? NextResponse.next() : unauthenticatedResponse(request);
+}
+
+/**
+ * Paths the proxy runs on: everything except Next.js internals, generated
+ * app data (images, fonts and exports) and static files with an extension.
+ * API paths are always matched, even when they end in a file name.
+ *
+ * App data stays reachable without a session because share viewers, the
+ * layout frame and PDF rendering load it too. User files are stored under
+ * random names in per-user directories instead (see server/storage), so
+ * only people a file's URL was handed to can open it.
+ */
+export const config = {
+  matcher: [
+    "/((?!_next/static|_next/image|app_data/|(?!api/).*\\.[\\w]+$).*)",
+  ],
+};
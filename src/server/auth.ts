@@ -0,0 +1,232 @@
+/**
+ * Authentication and request ownership.
+ *
+ * Resolves the signed-in user for an API request and makes it available to
+ * the database layer for the rest of the request. Two backends are supported
+ * (selected with `AUTH_PROVIDER`, see `./session`):
+ * - local: Email/password accounts with a signed session cookie
+ * - supabase: Supabase Auth sessions read through `@supabase/ssr`
+ *
+ * Route handlers wrap their work in `withAuthenticatedUser`, which returns
+ * 401 when nobody is signed in and otherwise runs the handler inside an
+ * AsyncLocalStorage scope. Handlers then call `requireRequestOwner()` to get
+ * the user ID that every `src/server/db` query is scoped to. The scope also
+ * follows streamed responses and background webhook deliveries started from
+ * the request.
+ */
+
+import { AsyncLocalStorage } from "node:async_hooks";
+import { randomBytes, scrypt, timingSafeEqual } from "node:crypto";
+import { promisify } from "node:util";
+import { cookies } from "next/headers";
+import { NextResponse } from "next/server";
+import {
+  claimUnownedRecords,
+  countUsers,
+  getUserById,
+  upsertExternalUser,
+  UserRecord,
+} from "./db/users";
+import type { LockoutPolicy } from "./lockout";
+import {
+  getAuthProvider,
+  SESSION_COOKIE_NAME,
+  verifySessionToken,
+} from "./session";
+import { createClient as createSupabaseClient } from "@/utils/supabase/server";
+
+const scryptAsync = promisify(scrypt) as (
+  password: string,
+  salt: Buffer,
+  keylen: number,
+) => Promise<Buffer>;
+
+/**
+ * Length in bytes of derived password keys.
+ */
+const PASSWORD_KEY_LENGTH = 64;
+
+/**
+ * Minimum accepted password length for local accounts.
+ */
+export const MIN_PASSWORD_LENGTH = 8;
+
+/**
+ * Lockout of local sign-in, the same as for share link passwords: after
+ * five wrong passwords in a row for an email address, or from an IP,
+ * sign-in attempts for it are refused for a minute, doubling with each
+ * further five up to an hour. Signing in resets both counts.
+ */
+export const LOGIN_LOCKOUT: LockoutPolicy = {
+  maxFailures: 5,
+  lockMs: 60 * 1000,
+  maxLockMs: 60 * 60 * 1000,
+};
+
+/**
+ * Request-scoped storage for the authenticated user.
+ */
+const requestUserStorage = new AsyncLocalStorage<UserRecord>();
+
+/**
+ * Hashes a password for storage.
+ *
+ * @param password - Plain-text password.
+ * @returns Hash string in the form `scrypt$<salt>$<key>` (base64url parts).
+ */
+export const hashPassword = async (password: string): Promise<string> => {
+  const salt = randomBytes(16);
+  const key = await scryptAsync(password, salt, PASSWORD_KEY_LENGTH);
+  return `scrypt$${salt.toString("base64url")}$${key.toString("base64url")}`;
+};
+
+/**
+ * Checks a password against a stored hash in constant time.
+ *
+ * @param password - Plain-text password supplied at sign-in.
+ * @param storedHash - Hash produced by hashPassword.
+ * @returns True if the password matches.
+ */
+export const verifyPassword = async (
+  password: string,
+  storedHash: string,
+): Promise<boolean> => {
+  const [scheme, saltRaw, keyRaw] = storedHash.split("$");
+  if (scheme !== "scrypt" || !saltRaw || !keyRaw) return false;
+  const expected = Buffer.from(keyRaw, "base64url");
+  const actual = await scryptAsync(
+    password,
+    Buffer.from(saltRaw, "base64url"),
+    expected.length,
+  );
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+};
+
+/**
+ * Hands legacy records to the first account created on this instance.
+ *
+ * Decks created before accounts existed have no owner. Once the first user
+ * exists they are assigned to that user instead of becoming unreachable.
+ *
+ * @param user - The user that was just created.
+ */
+export const claimLegacyRecordsIfFirstUser = async (
+  user: UserRecord,
+): Promise<void> => {
+  if ((await countUsers()) === 1) {
+    await claimUnownedRecords(user.id);
+  }
+};
+
+/**
+ * Resolves the signed-in user from the Supabase session cookies.
+ *
+ * The Supabase user is mirrored into the local `users` table so that owned
+ * records can reference it with a foreign key.
+ *
+ * @returns The mirrored UserRecord, or null if there is no valid session.
+ */
+const getSupabaseUser = async (): Promise<UserRecord | null> => {
+  const supabase = await createSupabaseClient();
+  const { data, error } = await supabase.auth.getUser();
+  if (error || !data.user?.email) return null;
+
+  const existing = await getUserById(data.user.id);
+  const metadata = data.user.user_metadata as Record<string, unknown>;
+  const user = await upsertExternalUser({
+    id: data.user.id,
+    email: data.user.email,
+    name:
+      typeof metadata?.full_name === "string"
+        ? metadata.full_name
+        : (existing?.name ?? null),
+    auth_provider: "supabase",
+  });
+  if (!existing) await claimLegacyRecordsIfFirstUser(user);
+  return user;
+};
+
+/**
+ * Resolves the signed-in user for the current request.
+ *
+ * Reads the request cookies through `next/headers`, so it must be called from
+ * a route handler, server action or server component.
+ *
+ * @returns The authenticated UserRecord, or null if nobody is signed in.
+ */
+export const getCurrentUser = async (): Promise<UserRecord | null> => {
+  try {
+    if (getAuthProvider() === "supabase") {
+      return await getSupabaseUser();
+    }
+    const cookieStore = await cookies();
+    const userId = verifySessionToken(
+      cookieStore.get(SESSION_COOKIE_NAME)?.value,
+    );
+    return userId ? await getUserById(userId) : null;
+  } catch (error) {
+    console.error("Failed to resolve the current user:", error);
+    return null;
+  }
+};
+
+/**
+ * Runs a function with a user bound to the request scope.
+ *
+ * @param user - User to bind.
+ * @param run - Function to run inside the scope.
+ * @returns Whatever `run` returns.
+ */
+export const runWithUser = <T>(user: UserRecord, run: () => T): T =>
+  requestUserStorage.run(user, run);
+
+/**
+ * Returns the user bound to the current request scope, if any.
+ *
+ * @returns The request's UserRecord, or null outside withAuthenticatedUser.
+ */
+export const getRequestUser = (): UserRecord | null =>
+  requestUserStorage.getStore() ?? null;
+
+/**
+ * Returns the owner ID that database queries must be scoped to.
+ *
+ * @returns ID of the authenticated user for this request.
+ * @throws {Error} Throws if called outside withAuthenticatedUser. This is a
+ *   programming error: every route that reads or writes owned data must be
+ *   wrapped.
+ */
+export const requireRequestOwner = (): string => {
+  const user = requestUserStorage.getStore();
+  if (!user) {
+    throw new Error("No authenticated user bound to this request");
+  }
+  return user.id;
+};
+
+/**
+ * Authenticates a request and runs a handler as that user.
+ *
+ * @param run - Handler to run once a user is resolved. Receives the user.
+ * @returns The handler's response, or a 401 JSON response
+ *   (`{ detail: "Authentication required" }`) if nobody is signed in.
+ *
+ * @example
+ * ```typescript
+ * export async function GET(request: NextRequest) {
+ *   return withAuthenticatedUser(() => handlePresentationGetAll(request));
+ * }
+ * ```
+ */
+export const withAuthenticatedUser = async (
+  run: (user: UserRecord) => Promise<Response> | Response,
+): Promise<Response> => {
+  const user = await getCurrentUser();
+  if (!user) {
+    return NextResponse.json(
+      { detail: "Authentication required" },
+      { status: 401 },
+    );
+  }
+  return runWithUser(user, () => run(user));
+};
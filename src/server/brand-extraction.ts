@@ -0,0 +1,445 @@
+/**
+ * Brand palette and font extraction.
+ *
+ * Derives a ready-to-apply color scheme and font pairing from a logo, a
+ * website screenshot or an existing PowerPoint deck, so users do not have
+ * to hand-type their brand's hex codes.
+ *
+ * Images are downsampled with sharp and their pixels clustered into a small
+ * palette. Decks contribute their theme colors and fonts, with font
+ * availability checked through `analyzeFontsInSlides`. Either way, the
+ * palette is turned into the seven color tokens with every text color
+ * adjusted until it passes its WCAG contrast minimum.
+ */
+
+import JSZip from "jszip";
+import sharp from "sharp";
+import {
+  checkSchemeContrast,
+  contrastRatio,
+  isDarkColor,
+  type BrandFont,
+  type ColorTokens,
+  type ExtractedBrand,
+  type FontPairing,
+} from "@/utils/color-schemes";
+import {
+  analyzeFontsInSlides,
+  extractFontsFromOxml,
+  getSlideFileNames,
+  normalizeFontFamilyName,
+} from "./media";
+
+/**
+ * A color found in the source, with its share of the source (0-1).
+ */
+type PaletteSample = {
+  color: string;
+  weight: number;
+};
+
+/**
+ * Colors the source assigns a role to, like a deck theme's text and
+ * background colors.
+ */
+type PaletteHints = {
+  surface?: string;
+  heading?: string;
+  accent?: string;
+};
+
+/**
+ * Side of the thumbnail images are sampled from, in pixels.
+ */
+const SAMPLE_SIZE = 96;
+
+/**
+ * RGB distance under which two colors count as one palette color.
+ */
+const CLUSTER_DISTANCE = 48;
+
+/**
+ * Accent used when the source has no saturated color.
+ */
+const FALLBACK_ACCENT = "#2563eb";
+
+/**
+ * Google Fonts pairings suggested for images, and as alternatives for
+ * decks.
+ */
+const FONT_PAIRINGS: [heading: string, body: string][] = [
+  ["Inter", "Inter"],
+  ["Space Grotesk", "Inter"],
+  ["Playfair Display", "Source Sans 3"],
+  ["Montserrat", "Open Sans"],
+  ["DM Serif Display", "DM Sans"],
+];
+
+type Rgb = [number, number, number];
+
+const toRgb = (hex: string): Rgb => {
+  const value = Number.parseInt(hex.replace("#", ""), 16);
+  return [value >> 16, (value >> 8) & 0xff, value & 0xff];
+};
+
+const toHex = ([r, g, b]: Rgb): string =>
+  `#${[r, g, b]
+    .map((channel) =>
+      Math.round(Math.min(255, Math.max(0, channel)))
+        .toString(16)
+        .padStart(2, "0"),
+    )
+    .join("")}`;
+
+/**
+ * Colorfulness of a color (0-1): the spread between its strongest and
+ * weakest channel. Unlike HSL saturation, it stays low for off-whites.
+ */
+const chroma = (hex: string): number => {
+  const channels = toRgb(hex);
+  return (Math.max(...channels) - Math.min(...channels)) / 255;
+};
+
+const distance = (a: Rgb, b: Rgb): number =>
+  Math.hypot(a[0] - b[0], a[1] - b[1], a[2] - b[2]);
+
+/**
+ * Mixes two colors; `amount` is the share of `other` (0-1).
+ */
+const mix = (color: string, other: string, amount: number): string => {
+  const from = toRgb(color);
+  const to = toRgb(other);
+  return toHex([
+    from[0] + (to[0] - from[0]) * amount,
+    from[1] + (to[1] - from[1]) * amount,
+    from[2] + (to[2] - from[2]) * amount,
+  ]);
+};
+
+/**
+ * Darkens or lightens a color, away from the background, until it has the
+ * required contrast with it.
+ */
+const ensureContrast = (
+  color: string,
+  background: string,
+  required: number,
+): string => {
+  const target = isDarkColor(background) ? "#ffffff" : "#000000";
+  for (let amount = 0; amount <= 1; amount += 0.05) {
+    const candidate = mix(color, target, amount);
+    if (contrastRatio(candidate, background) >= required) return candidate;
+  }
+  return target;
+};
+
+/**
+ * Groups the pixels of an image into its main colors.
+ *
+ * @param buffer - Image file contents (PNG, JPEG, WebP, SVG, ...).
+ * @returns The main colors with their share of the opaque pixels, and the
+ *   share of transparent pixels.
+ */
+const sampleImage = async (
+  buffer: Buffer,
+): Promise<{ samples: PaletteSample[]; transparency: number }> => {
+  const { data, info } = await sharp(buffer)
+    .resize(SAMPLE_SIZE, SAMPLE_SIZE, { fit: "inside" })
+    .ensureAlpha()
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+
+  const clusters: { sum: Rgb; count: number }[] = [];
+  let opaque = 0;
+  const pixels = info.width * info.height;
+  for (let offset = 0; offset < data.length; offset += info.channels) {
+    if (data[offset + 3] < 128) continue;
+    opaque += 1;
+    const pixel: Rgb = [data[offset], data[offset + 1], data[offset + 2]];
+    const cluster = clusters.find(
+      ({ sum, count }) =>
+        distance(pixel, [sum[0] / count, sum[1] / count, sum[2] / count]) <
+        CLUSTER_DISTANCE,
+    );
+    if (cluster) {
+      cluster.sum = [
+        cluster.sum[0] + pixel[0],
+        cluster.sum[1] + pixel[1],
+        cluster.sum[2] + pixel[2],
+      ];
+      cluster.count += 1;
+    } else {
+      clusters.push({ sum: pixel, count: 1 });
+    }
+  }
+
+  const samples = clusters
+    .sort((a, b) => b.count - a.count)
+    .slice(0, 8)
+    .map(({ sum, count }) => ({
+      color: toHex([sum[0] / count, sum[1] / count, sum[2] / count]),
+      weight: opaque > 0 ? count / opaque : 0,
+    }))
+    // Anti-aliasing and noise
+    .filter((sample) => sample.weight >= 0.01);
+  return {
+    samples,
+    transparency: pixels > 0 ? 1 - opaque / pixels : 0,
+  };
+};
+
+/**
+ * Turns a palette into the seven color tokens of a scheme.
+ *
+ * The surface is the source's dominant neutral color (white if it has
+ * none), the accent its most used saturated color, and text colors are
+ * tinted towards the accent. Every text color and the accent are adjusted
+ * until they reach their contrast minimum against the surface.
+ *
+ * @param samples - Colors found in the source, most used first.
+ * @param hints - Colors the source assigns a role to.
+ * @returns The color tokens.
+ */
+const deriveColorTokens = (
+  samples: PaletteSample[],
+  hints: PaletteHints = {},
+): Required<ColorTokens> => {
+  const dominant = samples[0];
+  const surface =
+    hints.surface ??
+    (dominant && dominant.weight >= 0.3 && chroma(dominant.color) < 0.15
+      ? dominant.color
+      : "#ffffff");
+  const dark = isDarkColor(surface);
+
+  const others = samples.filter(
+    ({ color }) => distance(toRgb(color), toRgb(surface)) >= CLUSTER_DISTANCE,
+  );
+  const accentBase =
+    hints.accent ??
+    others.find(({ color }) => chroma(color) >= 0.3)?.color ??
+    others[0]?.color ??
+    FALLBACK_ACCENT;
+  const accent = ensureContrast(accentBase, surface, 3);
+
+  // A neutral color that already reads well on the surface is most likely
+  // the brand's own text color, e.g. a logo's wordmark
+  const textBase =
+    hints.heading ??
+    others.find(
+      ({ color }) =>
+        chroma(color) < 0.25 && contrastRatio(color, surface) >= 4.5,
+    )?.color ??
+    mix(accentBase, dark ? "#ffffff" : "#000000", dark ? 0.92 : 0.85);
+  const heading = ensureContrast(textBase, surface, 4.5);
+
+  const card = mix(surface, heading, dark ? 0.06 : 0.03);
+  const body = ensureContrast(
+    mix(heading, surface, 0.25),
+    dark ? surface : card,
+    4.5,
+  );
+  const muted = ensureContrast(mix(heading, surface, 0.5), surface, 3);
+  const border = mix(surface, heading, 0.12);
+
+  return {
+    heading: ensureContrast(heading, card, 4.5),
+    body: ensureContrast(body, card, 4.5),
+    muted,
+    accent,
+    border,
+    card,
+    surface,
+  };
+};
+
+const googleFont = (family: string): BrandFont => ({
+  family,
+  url: `https://fonts.googleapis.com/css2?family=${family.replace(
+    / /g,
+    "+",
+  )}&display=swap`,
+});
+
+const buildExtractedBrand = (
+  source: ExtractedBrand["source"],
+  name: string,
+  samples: PaletteSample[],
+  hints: PaletteHints,
+  fonts: ExtractedBrand["fonts"],
+): ExtractedBrand => {
+  const colors = deriveColorTokens(samples, hints);
+  return {
+    source,
+    scheme: {
+      id: "extracted",
+      name,
+      description:
+        source === "pptx"
+          ? "Extracted from the deck's theme"
+          : "Extracted from the image's colors",
+      colors,
+    },
+    palette: samples.map(({ color }) => color),
+    contrast: checkSchemeContrast(colors),
+    fonts,
+  };
+};
+
+/**
+ * Extracts a brand palette from a logo or website screenshot.
+ *
+ * Images cannot tell which fonts a brand uses, so the suggested fonts come
+ * from a list of proven Google Fonts pairings.
+ *
+ * @param buffer - Image file contents.
+ * @param name - Name for the scheme, e.g. the file name.
+ * @returns The extracted brand.
+ *
+ * @example
+ * ```typescript
+ * const brand = await extractBrandFromImage(logoBuffer, "Acme");
+ * // brand.scheme.colors: { accent: "#ff5a1f", surface: "#ffffff", ... }
+ * ```
+ */
+export const extractBrandFromImage = async (
+  buffer: Buffer,
+  name: string,
+): Promise<ExtractedBrand> => {
+  const { samples, transparency } = await sampleImage(buffer);
+  const pairings = FONT_PAIRINGS.map(([heading, body]) => ({
+    heading: googleFont(heading),
+    body: googleFont(body),
+  }));
+  // A logo on a transparent background says nothing about the surface
+  const hints: PaletteHints = transparency > 0.2 ? { surface: "#ffffff" } : {};
+  return buildExtractedBrand("image", name, samples, hints, {
+    heading: pairings[0].heading,
+    body: pairings[0].body,
+    detected: [],
+    pairings,
+  });
+};
+
+/**
+ * Reads a color of a deck theme's color scheme, e.g. `accent1`.
+ */
+const readThemeColor = (
+  themeXml: string,
+  slot: string,
+): string | undefined => {
+  const match = themeXml.match(
+    new RegExp(
+      `<a:${slot}>\\s*<a:(?:srgbClr val|sysClr[^>]*?lastClr)="([0-9A-Fa-f]{6})"`,
+    ),
+  );
+  return match ? `#${match[1].toLowerCase()}` : undefined;
+};
+
+/**
+ * Reads the Latin typeface of a deck theme's heading (`majorFont`) or body
+ * (`minorFont`) font.
+ */
+const readThemeFont = (
+  themeXml: string,
+  slot: "majorFont" | "minorFont",
+): string | undefined => {
+  const match = themeXml.match(
+    new RegExp(`<a:${slot}>\\s*<a:latin typeface="([^"]+)"`),
+  );
+  return match?.[1];
+};
+
+/**
+ * Extracts a brand palette and fonts from an existing PowerPoint deck.
+ *
+ * Colors come from the deck's theme: its first light color is the surface,
+ * its first dark color the text color and its accents the palette. Fonts
+ * are the theme's heading and body fonts, falling back to the fonts used
+ * most on the slides; fonts available on Google Fonts come with their
+ * stylesheet URL.
+ *
+ * @param buffer - PPTX file contents.
+ * @param name - Name for the scheme, e.g. the file name.
+ * @returns The extracted brand.
+ * @throws Error if the file is not a PPTX archive.
+ */
+export const extractBrandFromPptx = async (
+  buffer: Buffer,
+  name: string,
+): Promise<ExtractedBrand> => {
+  const zip = await JSZip.loadAsync(buffer);
+  const themeFile = Object.keys(zip.files)
+    .filter((file) => /^ppt\/theme\/theme\d+\.xml$/.test(file))
+    .sort()[0];
+  const themeXml = themeFile
+    ? await zip.file(themeFile)!.async("string")
+    : "";
+  const slideXmls: string[] = [];
+  for (const file of await getSlideFileNames(zip)) {
+    const xml = await zip.file(file)?.async("string");
+    if (xml) slideXmls.push(xml);
+  }
+
+  const accents = [1, 2, 3, 4, 5, 6]
+    .map((index) => readThemeColor(themeXml, `accent${index}`))
+    .filter((color): color is string => Boolean(color));
+  const samples = accents.map((color, index) => ({
+    color,
+    weight: (accents.length - index) / accents.length,
+  }));
+  const hints: PaletteHints = {
+    surface: readThemeColor(themeXml, "lt1"),
+    heading: readThemeColor(themeXml, "dk1"),
+    accent: accents[0],
+  };
+
+  // Fonts used most across slides, then the theme's
+  const usage = new Map<string, number>();
+  for (const xml of slideXmls) {
+    for (const font of extractFontsFromOxml(xml)) {
+      const family = normalizeFontFamilyName(font);
+      if (family) usage.set(family, (usage.get(family) ?? 0) + 1);
+    }
+  }
+  const detected = [...usage.entries()]
+    .sort((a, b) => b[1] - a[1])
+    .map(([family]) => family);
+  const themeHeading = readThemeFont(themeXml, "majorFont");
+  const themeBody = readThemeFont(themeXml, "minorFont");
+  const headingFamily = normalizeFontFamilyName(
+    themeHeading ?? detected[0] ?? "",
+  );
+  const bodyFamily = normalizeFontFamilyName(
+    themeBody ?? detected[1] ?? detected[0] ?? "",
+  );
+
+  const analysis = await analyzeFontsInSlides(
+    [headingFamily, bodyFamily]
+      .filter(Boolean)
+      .map((family) => `<a:latin typeface="${family}"/>`),
+  );
+  const toBrandFont = (family: string): BrandFont | null => {
+    if (!family) return null;
+    const supported = analysis.internally_supported_fonts.find(
+      (font) => font.name === family,
+    );
+    return { family, url: supported?.google_fonts_url ?? null };
+  };
+
+  const heading = toBrandFont(headingFamily);
+  const body = toBrandFont(bodyFamily) ?? heading;
+  const pairings = FONT_PAIRINGS.map(([pairHeading, pairBody]) => ({
+    heading: googleFont(pairHeading),
+    body: googleFont(pairBody),
+  }));
+  const detectedPairing =
+    heading && body ? [{ heading, body }] : ([] as FontPairing[]);
+
+  return buildExtractedBrand("pptx", name, samples, hints, {
+    heading: heading ?? pairings[0].heading,
+    body: body ?? pairings[0].body,
+    detected,
+    pairings: [...detectedPairing, ...pairings],
+  });
+};
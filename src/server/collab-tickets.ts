@@ -0,0 +1,135 @@
+/**
+ * Tickets that admit a browser to the collaboration server.
+ *
+ * The collaboration server runs as its own process and cannot read the
+ * app's session cookies (and with Supabase Auth it could not verify them
+ * anyway). Instead, the app checks that the signed-in user can open the
+ * presentation and hands the browser a short-lived ticket:
+ * `<payload>.<signature>`, where the payload is base64url-encoded JSON and
+ * the signature an HMAC-SHA256 of it keyed with `COLLAB_SECRET`. The server
+ * verifies the ticket with the same secret.
+ *
+ * This module only depends on `node:crypto` so the collaboration server can
+ * import it without the Next.js runtime.
+ */
+
+import { createHmac, timingSafeEqual } from "node:crypto";
+
+/**
+ * How long a ticket can be used to open a connection, in seconds. The
+ * connection itself stays open after the ticket expires.
+ */
+const COLLAB_TICKET_TTL_SECONDS = 60;
+
+/**
+ * Contents of a collaboration ticket.
+ *
+ * @property presentation_id - Presentation the ticket admits to.
+ * @property user_id - ID of the signed-in user. The server checks that they
+ *   own the presentation or are a member invited as editor.
+ * @property name - Name shown to other collaborators.
+ * @property exp - Expiry as a Unix timestamp in seconds.
+ */
+export type CollabTicket = {
+  presentation_id: string;
+  user_id: string;
+  name: string;
+  exp: number;
+};
+
+/**
+ * Reads the secret tickets are signed with.
+ *
+ * @returns The value of `COLLAB_SECRET`, or null if it is not set or
+ *   shorter than 32 characters.
+ */
+const getCollabSecret = (): string | null => {
+  const secret = process.env.COLLAB_SECRET;
+  return secret && secret.length >= 32 ? secret : null;
+};
+
+/**
+ * Returns the WebSocket URL browsers connect to, if collaboration is
+ * configured.
+ *
+ * Collaboration needs both `COLLAB_SERVER_URL` and `COLLAB_SECRET`; without
+ * them the editor saves through the REST API as a single user.
+ *
+ * @returns The collaboration server URL, or null if collaboration is off.
+ */
+export const getCollabServerUrl = (): string | null => {
+  const url = process.env.COLLAB_SERVER_URL?.trim();
+  return url && getCollabSecret() ? url : null;
+};
+
+const sign = (payload: string, secret: string): string =>
+  createHmac("sha256", secret).update(payload).digest("base64url");
+
+/**
+ * Creates a ticket for a user to join a presentation's session.
+ *
+ * @param ticket - Presentation, user and display name.
+ * @param now - Current time in milliseconds (defaults to Date.now()).
+ * @returns The signed ticket.
+ * @throws {Error} Throws if `COLLAB_SECRET` is not configured.
+ */
+export const createCollabTicket = (
+  ticket: Omit<CollabTicket, "exp">,
+  now: number = Date.now(),
+): string => {
+  const secret = getCollabSecret();
+  if (!secret) {
+    throw new Error("COLLAB_SECRET must be set to at least 32 characters");
+  }
+  const payload = Buffer.from(
+    JSON.stringify({
+      ...ticket,
+      exp: Math.floor(now / 1000) + COLLAB_TICKET_TTL_SECONDS,
+    }),
+  ).toString("base64url");
+  return `${payload}.${sign(payload, secret)}`;
+};
+
+/**
+ * Verifies a ticket and returns its contents.
+ *
+ * Never throws for bad input; a missing secret is treated as "no valid
+ * ticket".
+ *
+ * @param token - Ticket sent by the browser.
+ * @param now - Current time in milliseconds (defaults to Date.now()).
+ * @returns The ticket contents if the signature matches and the ticket has
+ *   not expired, otherwise null.
+ */
+export const verifyCollabTicket = (
+  token: string | null | undefined,
+  now: number = Date.now(),
+): CollabTicket | null => {
+  const secret = getCollabSecret();
+  if (!token || !secret) return null;
+  const [payload, signature] = token.split(".");
+  if (!payload || !signature) return null;
+
+  const expected = Buffer.from(sign(payload, secret));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    return null;
+  }
+
+  try {
+    const ticket = JSON.parse(
+      Buffer.from(payload, "base64url").toString("utf8"),
+    ) as CollabTicket;
+    if (
+      typeof ticket.presentation_id !== "string" ||
+      typeof ticket.user_id !== "string" ||
+      !Number.isFinite(ticket.exp) ||
+      ticket.exp * 1000 <= now
+    ) {
+      return null;
+    }
+    return { ...ticket, name: String(ticket.name ?? "") };
+  } catch {
+    return null;
+  }
+};
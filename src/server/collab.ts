@@ -0,0 +1,790 @@
+/**
+ * In-process rooms of the real-time collaboration server.
+ *
+ * Each presentation being edited has one room holding the authoritative
+ * state of its slides and the connections of everyone editing it. Edits
+ * arrive as operations (see `@/utils/collab`), are applied in arrival order
+ * and broadcast to every connection, the author included, which doubles as
+ * the author's acknowledgement. Presence (who is on which slide, which field
+ * they are editing, where their pointer is) is relayed the same way but
+ * never stored.
+ *
+ * Rooms write to the database themselves: shortly after a burst of edits,
+ * only the slides that changed are saved (and deleted slides removed), with
+ * an autosave revision like the REST save. A room is loaded from the
+ * database when its first collaborator joins and saved and dropped when the
+ * last one leaves.
+ *
+ * Slides can also change outside the room while it is open (regeneration,
+ * key fact updates, restores, ...). Rooms save with the slide versions they
+ * last read or wrote, so such a change is never overwritten: before every
+ * save, and every few seconds while collaborators are connected, the room
+ * reloads the slides that changed in the database, reapplies its own unsaved
+ * edits on top and broadcasts the difference as operations.
+ *
+ * Collaborators are the presentation's owner and the members invited as
+ * editors (see db/presentation-members); access is checked against the
+ * membership when someone joins, before each batch of their edits is
+ * applied and on every sync. Members who were removed or made viewers are
+ * disconnected. The room reads and writes the database as the owner.
+ *
+ * This module is transport-agnostic; `scripts/collab-server.ts` connects it
+ * to WebSockets.
+ */
+
+import { v4 as uuidv4 } from "uuid";
+import {
+  applyCollabOp,
+  COLLAB_COLORS,
+  diffCollabSlides,
+  isCollabOp,
+  type CollabOp,
+  type CollabOpEnvelope,
+  type CollabPeer,
+  type CollabPointer,
+  type CollabServerMessage,
+} from "@/utils/collab";
+import type { CollabTicket } from "./collab-tickets";
+import { getPresentationAccess } from "./db/presentation-members";
+import { getPresentationById, updatePresentation } from "./db/presentations";
+import { recordSlideRevisions } from "./db/slide-revisions";
+import {
+  deleteSlides,
+  listSlidesByPresentation,
+  updateSlide,
+  upsertSlide,
+  type SlideInput,
+  type SlideRecord,
+} from "./db/slides";
+
+/**
+ * Delay in milliseconds between the last edit and saving it.
+ */
+const COLLAB_SAVE_DELAY_MS = 1500;
+
+/**
+ * Interval in milliseconds at which open rooms pick up slides changed
+ * outside them.
+ */
+const COLLAB_SYNC_INTERVAL_MS = 5000;
+
+/**
+ * Session ID of operations the server makes itself, when it takes in
+ * changes made outside the room.
+ */
+const SERVER_SESSION_ID = "server";
+
+/**
+ * Most operations accepted in one message.
+ */
+const MAX_OPS_PER_MESSAGE = 500;
+
+/**
+ * Close code of connections whose user can no longer edit the presentation.
+ */
+const ACCESS_REVOKED_CODE = 4403;
+
+/**
+ * Connection of one collaborator (one browser tab).
+ */
+export type CollabConnection = {
+  send: (message: string) => void;
+  close: (code: number, reason: string) => void;
+};
+
+/**
+ * Slide as held by a room: a stored slide, or a slide inserted by a client
+ * in the editor's shape.
+ */
+type RoomSlide = { id: string; content?: unknown } & Record<string, unknown>;
+
+/**
+ * State of one presentation's session.
+ *
+ * @property presentationId - ID of the presentation being edited.
+ * @property owner - ID of the user the presentation belongs to; all
+ *   database access is scoped to it.
+ * @property slides - Current slides, in order.
+ * @property saved - JSON of each slide as last saved, keyed by slide ID.
+ * @property stored - Version and position of each slide in the database,
+ *   as last read or written, keyed by slide ID.
+ * @property unsaved - Field operations applied to each slide since it was
+ *   last saved, keyed by slide ID; reapplied when the slide changes in the
+ *   database.
+ * @property members - Open connections and their presence, by session ID.
+ * @property saveTimer - Pending delayed save, if any.
+ * @property syncTimer - Periodic check for changes made outside the room.
+ * @property saving - Save in progress, if any.
+ */
+type CollabRoom = {
+  presentationId: string;
+  owner: string;
+  slides: RoomSlide[];
+  saved: Map<string, string>;
+  stored: Map<string, { version: number; index: number }>;
+  unsaved: Map<string, CollabOp[]>;
+  members: Map<string, { connection: CollabConnection; peer: CollabPeer }>;
+  saveTimer: ReturnType<typeof setTimeout> | null;
+  syncTimer: ReturnType<typeof setInterval> | null;
+  saving: Promise<void> | null;
+};
+
+/**
+ * A joined collaborator, returned to the transport.
+ *
+ * @property sessionId - ID of the connection.
+ * @property receive - Handles a raw message from the connection.
+ * @property leave - Must be called once the connection closes.
+ */
+export type CollabSession = {
+  sessionId: string;
+  receive: (raw: string) => void;
+  leave: () => Promise<void>;
+};
+
+/**
+ * Rooms by presentation ID. Holds the loading promise so collaborators
+ * joining at the same time share one load.
+ */
+const rooms = new Map<string, Promise<CollabRoom | null>>();
+
+/**
+ * Converts a room slide into the record stored in the database.
+ *
+ * @param slide - Slide as held by the room.
+ * @param index - Position of the slide in the presentation.
+ * @param presentationId - ID of the presentation.
+ * @returns Slide record fields for upsertSlide.
+ */
+const toSlideRecord = (
+  slide: RoomSlide,
+  index: number,
+  presentationId: string,
+): SlideInput => {
+  const text = (value: unknown) => (typeof value === "string" ? value : null);
+  const content = slide.content;
+  return {
+    id: slide.id,
+    presentation: presentationId,
+    layout_group: text(slide.layout_group),
+    layout: text(slide.layout),
+    slide_index: index,
+    speaker_note: text(slide.speaker_note) ?? "",
+    content:
+      typeof content === "object" && content !== null && !Array.isArray(content)
+        ? (content as Record<string, unknown>)
+        : {},
+    html_content: text(slide.html_content),
+    sources: (slide.sources as SlideRecord["sources"]) ?? null,
+    document_sources:
+      (slide.document_sources as SlideRecord["document_sources"]) ?? null,
+  };
+};
+
+/**
+ * Converts a stored slide into the shape held by rooms.
+ *
+ * Versions are tracked in the room's `stored` map instead, since they go
+ * stale as soon as the room saves.
+ */
+const toRoomSlide = ({ version: _version, ...record }: SlideRecord): RoomSlide => ({
+  ...record,
+  index: record.slide_index,
+});
+
+/**
+ * Takes the database state of a presentation's slides as the room's saved
+ * state.
+ *
+ * @param room - Room to update.
+ * @param records - Slides as stored, in order.
+ */
+const setStoredSlides = (room: CollabRoom, records: SlideRecord[]) => {
+  room.saved = new Map(
+    records.map((record) => [
+      record.id,
+      JSON.stringify(
+        toSlideRecord(record, record.slide_index, room.presentationId),
+      ),
+    ]),
+  );
+  room.stored = new Map(
+    records.map((record) => [
+      record.id,
+      { version: record.version, index: record.slide_index },
+    ]),
+  );
+};
+
+/**
+ * Sends a message to the room's connections.
+ *
+ * @param room - Room to broadcast in.
+ * @param message - Message to send.
+ * @param exceptSessionId - Connection to skip, if any.
+ */
+const broadcast = (
+  room: CollabRoom,
+  message: CollabServerMessage,
+  exceptSessionId?: string,
+) => {
+  const data = JSON.stringify(message);
+  for (const [sessionId, member] of room.members) {
+    if (sessionId !== exceptSessionId) member.connection.send(data);
+  }
+};
+
+/**
+ * Loads a presentation's slides into a new room.
+ *
+ * @param presentationId - ID of the presentation.
+ * @param owner - ID of the user the presentation belongs to.
+ * @returns The room, or null if the presentation does not exist or belongs
+ *   to another user.
+ */
+const loadRoom = async (
+  presentationId: string,
+  owner: string,
+): Promise<CollabRoom | null> => {
+  const presentation = await getPresentationById(owner, presentationId);
+  if (!presentation) return null;
+  const records = (await listSlidesByPresentation(owner, presentationId)) ?? [];
+  const room: CollabRoom = {
+    presentationId,
+    owner,
+    slides: records.map(toRoomSlide),
+    saved: new Map(),
+    stored: new Map(),
+    unsaved: new Map(),
+    members: new Map(),
+    saveTimer: null,
+    syncTimer: null,
+    saving: null,
+  };
+  setStoredSlides(room, records);
+  return room;
+};
+
+/**
+ * Takes in slides changed, added, removed or reordered in the database
+ * since the room last read or wrote them.
+ *
+ * Each slide changed outside the room is reloaded and the room's unsaved
+ * edits to it are applied again on top; slides the room deleted and has not
+ * saved yet stay deleted. The difference to what collaborators have is
+ * broadcast as operations.
+ *
+ * @param room - Room to update. Must not be saving.
+ * @returns False if the presentation no longer exists (the room is closed).
+ */
+const syncRoom = async (room: CollabRoom): Promise<boolean> => {
+  const records = await listSlidesByPresentation(
+    room.owner,
+    room.presentationId,
+  );
+  if (!records) {
+    closeRoom(room, "The presentation is no longer available");
+    return false;
+  }
+  const changedOutside =
+    records.length !== room.stored.size ||
+    records.some((record) => {
+      const stored = room.stored.get(record.id);
+      return (
+        stored?.version !== record.version ||
+        stored.index !== record.slide_index
+      );
+    });
+  if (!changedOutside) return true;
+
+  const current = new Map(room.slides.map((slide) => [slide.id, slide]));
+  const rebase = (record: SlideRecord): RoomSlide => {
+    const slide = current.get(record.id);
+    if (slide && room.stored.get(record.id)?.version === record.version) {
+      return slide;
+    }
+    const [rebased] = (room.unsaved.get(record.id) ?? []).reduce<RoomSlide[]>(
+      (slides, op) => applyCollabOp(slides, op),
+      [toRoomSlide(record)],
+    );
+    return rebased;
+  };
+  // Stored slides, without those the room deleted
+  const kept = records.filter(
+    (record) => current.has(record.id) || !room.stored.has(record.id),
+  );
+  const keptById = new Map(kept.map((record) => [record.id, record]));
+  const reordered = kept.some((record) => {
+    const stored = room.stored.get(record.id);
+    return stored && stored.index !== record.slide_index;
+  });
+
+  let slides: RoomSlide[];
+  if (reordered) {
+    // Database order, with the slides the room inserted at their place
+    slides = kept.map(rebase);
+    room.slides.forEach((slide, index) => {
+      if (!room.stored.has(slide.id) && !keptById.has(slide.id)) {
+        slides.splice(index, 0, slide);
+      }
+    });
+  } else {
+    slides = room.slides
+      .filter((slide) => keptById.has(slide.id) || !room.stored.has(slide.id))
+      .map((slide) => {
+        const record = keptById.get(slide.id);
+        return record ? rebase(record) : slide;
+      });
+    for (const record of kept) {
+      if (!current.has(record.id)) {
+        slides.splice(
+          Math.min(record.slide_index, slides.length),
+          0,
+          toRoomSlide(record),
+        );
+      }
+    }
+  }
+
+  const ops = diffCollabSlides(room.slides, slides);
+  room.slides = slides;
+  setStoredSlides(room, records);
+  if (ops.length > 0) {
+    broadcast(room, {
+      type: "ops",
+      session_id: SERVER_SESSION_ID,
+      ops: ops.map((op) => ({ id: uuidv4(), op })),
+    });
+  }
+  return true;
+};
+
+/**
+ * Saves the slides that changed since the last save and deletes removed
+ * ones. Failed saves are logged and retried with the next save.
+ *
+ * Changes made outside the room are taken in first (see syncRoom), and
+ * stored slides are only written at the version the room knows, so a slide
+ * changed in between is not overwritten but synced and saved again.
+ *
+ * @param room - Room to save.
+ */
+const saveRoom = async (room: CollabRoom): Promise<void> => {
+  if (room.saving) await room.saving;
+  if (room.saveTimer) {
+    clearTimeout(room.saveTimer);
+    room.saveTimer = null;
+  }
+
+  const run = async () => {
+    try {
+      if (!(await syncRoom(room))) return;
+    } catch (error) {
+      console.error(
+        `Failed to sync collaboration session ${room.presentationId}:`,
+        error,
+      );
+      return;
+    }
+
+    const records = room.slides.map((slide, index) =>
+      toSlideRecord(slide, index, room.presentationId),
+    );
+    // Edits that arrive while saving stay unsaved
+    const unsavedCounts = new Map(
+      [...room.unsaved].map(([id, ops]) => [id, ops.length]),
+    );
+    const changed = records.filter(
+      (record) => room.saved.get(record.id) !== JSON.stringify(record),
+    );
+    const currentIds = new Set(records.map((record) => record.id));
+    const removed = [...room.saved.keys()].filter((id) => !currentIds.has(id));
+    if (changed.length === 0 && removed.length === 0) return;
+    // Changes to the slide list also move the presentation's version
+    const restructured =
+      removed.length > 0 ||
+      changed.some((record) => {
+        const saved = room.saved.get(record.id);
+        return (
+          !saved ||
+          (JSON.parse(saved) as SlideInput).slide_index !== record.slide_index
+        );
+      });
+
+    const written: SlideInput[] = [];
+    let conflicted = false;
+    try {
+      for (const record of changed) {
+        const stored = room.stored.get(record.id);
+        if (stored) {
+          const { id, presentation: _presentation, ...fields } = record;
+          const status = await updateSlide(
+            room.owner,
+            id,
+            stored.version,
+            fields,
+          );
+          if (status !== "updated") {
+            // Changed or deleted outside the room since it was read
+            conflicted = true;
+            continue;
+          }
+          room.stored.set(id, {
+            version: stored.version + 1,
+            index: record.slide_index,
+          });
+        } else {
+          const created = await upsertSlide(room.owner, record);
+          if (!created) {
+            closeRoom(room, "The presentation is no longer available");
+            return;
+          }
+          room.stored.set(record.id, {
+            version: created.version,
+            index: record.slide_index,
+          });
+        }
+        room.saved.set(record.id, JSON.stringify(record));
+        room.unsaved.get(record.id)?.splice(0, unsavedCounts.get(record.id));
+        written.push(record);
+      }
+      await deleteSlides(room.owner, room.presentationId, removed);
+      removed.forEach((id) => {
+        room.saved.delete(id);
+        room.stored.delete(id);
+        room.unsaved.delete(id);
+      });
+      if (restructured) {
+        await updatePresentation(room.owner, room.presentationId, {
+          n_slides: records.length,
+        });
+      }
+    } catch (error) {
+      console.error(
+        `Failed to save collaboration session ${room.presentationId}:`,
+        error,
+      );
+      return;
+    }
+
+    try {
+      await recordSlideRevisions(
+        room.owner,
+        room.presentationId,
+        written,
+        "autosave",
+      );
+    } catch (error) {
+      console.error("Failed to record autosave slide revisions:", error);
+    }
+    // The next save syncs the conflicting slides and writes them again
+    if (conflicted) scheduleSave(room);
+  };
+
+  room.saving = run().finally(() => {
+    room.saving = null;
+  });
+  await room.saving;
+};
+
+/**
+ * Schedules a save after the room has been quiet for COLLAB_SAVE_DELAY_MS.
+ *
+ * @param room - Room that changed.
+ */
+const scheduleSave = (room: CollabRoom) => {
+  if (room.saveTimer) clearTimeout(room.saveTimer);
+  room.saveTimer = setTimeout(() => {
+    room.saveTimer = null;
+    void saveRoom(room);
+  }, COLLAB_SAVE_DELAY_MS);
+};
+
+/**
+ * Checks whether a user can still edit a room's presentation.
+ *
+ * @param room - Room of the presentation.
+ * @param userId - ID of the collaborator.
+ * @returns True if the user is the owner or a member invited as editor.
+ */
+const canEdit = async (room: CollabRoom, userId: string): Promise<boolean> => {
+  const access = await getPresentationAccess(userId, room.presentationId);
+  return !!access && access.role !== "viewer" && access.owner === room.owner;
+};
+
+/**
+ * Removes a connection from its room and tells the others it left. The
+ * last one to leave saves the room and drops it.
+ *
+ * @param room - Room of the connection.
+ * @param sessionId - ID of the connection.
+ */
+const removeMember = async (
+  room: CollabRoom,
+  sessionId: string,
+): Promise<void> => {
+  if (!room.members.delete(sessionId)) return;
+  broadcast(room, { type: "leave", session_id: sessionId });
+  if (room.members.size > 0) return;
+
+  stopSync(room);
+  await saveRoom(room);
+  // Someone may have joined while the last changes were being saved
+  if (
+    room.members.size === 0 &&
+    (await rooms.get(room.presentationId)) === room
+  ) {
+    rooms.delete(room.presentationId);
+  }
+};
+
+/**
+ * Disconnects every connection of a user who can no longer edit.
+ *
+ * @param room - Room of the connections.
+ * @param userId - ID of the user.
+ */
+const revokeUser = async (room: CollabRoom, userId: string) => {
+  const reason = "You can no longer edit this presentation";
+  const sessions = [...room.members].filter(
+    ([, member]) => member.peer.user_id === userId,
+  );
+  for (const [, member] of sessions) {
+    member.connection.close(ACCESS_REVOKED_CODE, reason);
+  }
+  await Promise.all(
+    sessions.map(([sessionId]) => removeMember(room, sessionId)),
+  );
+};
+
+/**
+ * Disconnects collaborators who were removed from the presentation or made
+ * viewers since they joined.
+ *
+ * @param room - Room to check.
+ */
+const revokeLostAccess = async (room: CollabRoom) => {
+  const userIds = new Set(
+    [...room.members.values()].map((member) => member.peer.user_id),
+  );
+  for (const userId of userIds) {
+    if (!(await canEdit(room, userId))) await revokeUser(room, userId);
+  }
+};
+
+/**
+ * Starts checking for slides changed outside the room and for
+ * collaborators who lost access, if not already.
+ *
+ * A check for changed slides runs as a save, unless a save is running or
+ * scheduled anyway.
+ *
+ * @param room - Room that has collaborators.
+ */
+const startSync = (room: CollabRoom) => {
+  if (room.syncTimer) return;
+  room.syncTimer = setInterval(() => {
+    revokeLostAccess(room).catch((error) => {
+      console.error("Failed to check collaborator access:", error);
+    });
+    if (!room.saving && !room.saveTimer) void saveRoom(room);
+  }, COLLAB_SYNC_INTERVAL_MS);
+};
+
+/**
+ * Stops checking for slides changed outside the room.
+ *
+ * @param room - Room that has no collaborators left.
+ */
+const stopSync = (room: CollabRoom) => {
+  if (room.syncTimer) clearInterval(room.syncTimer);
+  room.syncTimer = null;
+};
+
+/**
+ * Disconnects everyone and drops the room without saving.
+ *
+ * @param room - Room to close.
+ * @param reason - Message shown to the collaborators.
+ */
+const closeRoom = (room: CollabRoom, reason: string) => {
+  stopSync(room);
+  broadcast(room, { type: "error", message: reason });
+  for (const member of room.members.values()) {
+    member.connection.close(4404, reason);
+  }
+  room.members.clear();
+  rooms.delete(room.presentationId);
+};
+
+/**
+ * Picks the first color not used by anyone in the room.
+ */
+const pickColor = (room: CollabRoom): string => {
+  const used = new Set([...room.members.values()].map((m) => m.peer.color));
+  return (
+    COLLAB_COLORS.find((color) => !used.has(color)) ??
+    COLLAB_COLORS[room.members.size % COLLAB_COLORS.length]
+  );
+};
+
+/**
+ * Reads a pointer position from a presence message.
+ */
+const toPointer = (value: unknown): CollabPointer | null => {
+  if (typeof value !== "object" || value === null) return null;
+  const { x, y } = value as Record<string, unknown>;
+  if (typeof x !== "number" || typeof y !== "number") return null;
+  if (!Number.isFinite(x) || !Number.isFinite(y)) return null;
+  return {
+    x: Math.min(1, Math.max(0, x)),
+    y: Math.min(1, Math.max(0, y)),
+  };
+};
+
+/**
+ * Adds a collaborator to a presentation's room.
+ *
+ * Loads the room if this is the first collaborator, sends them a `welcome`
+ * message with the current slides and everyone else's presence, and tells
+ * the others they joined.
+ *
+ * @param ticket - Verified ticket of the collaborator.
+ * @param connection - Connection to send messages through.
+ * @returns The session, or null if the presentation does not exist or the
+ *   ticket's user is neither its owner nor a member invited as editor.
+ *
+ * @example
+ * ```typescript
+ * const session = await joinCollabRoom(ticket, {
+ *   send: (data) => socket.send(data),
+ *   close: (code, reason) => socket.close(code, reason),
+ * });
+ * socket.on("message", (data) => session?.receive(data.toString()));
+ * socket.on("close", () => session?.leave());
+ * ```
+ */
+export const joinCollabRoom = async (
+  ticket: CollabTicket,
+  connection: CollabConnection,
+): Promise<CollabSession | null> => {
+  const { presentation_id: presentationId, user_id: userId } = ticket;
+  const access = await getPresentationAccess(userId, presentationId);
+  if (!access || access.role === "viewer") return null;
+
+  let loading = rooms.get(presentationId);
+  if (!loading) {
+    loading = loadRoom(presentationId, access.owner);
+    rooms.set(presentationId, loading);
+  }
+  const room = await loading;
+  if (!room) {
+    if (rooms.get(presentationId) === loading) rooms.delete(presentationId);
+    return null;
+  }
+  if (room.owner !== access.owner) return null;
+
+  const sessionId = uuidv4();
+  const peer: CollabPeer = {
+    session_id: sessionId,
+    user_id: userId,
+    name: ticket.name,
+    color: pickColor(room),
+    slide_id: null,
+    data_path: null,
+    pointer: null,
+  };
+  connection.send(
+    JSON.stringify({
+      type: "welcome",
+      session_id: sessionId,
+      slides: room.slides,
+      peers: [...room.members.values()].map((member) => member.peer),
+    } satisfies CollabServerMessage),
+  );
+  room.members.set(sessionId, { connection, peer });
+  broadcast(room, { type: "presence", peer }, sessionId);
+  startSync(room);
+
+  /**
+   * Applies a batch of operations once the user is confirmed to still be
+   * an editor, and broadcasts it.
+   */
+  const applyOps = async (ops: CollabOpEnvelope[]) => {
+    if (!(await canEdit(room, userId))) {
+      await revokeUser(room, userId);
+      return;
+    }
+    // The connection may have closed or been revoked during the check
+    if (!room.members.has(sessionId)) return;
+    room.slides = ops.reduce(
+      (slides, envelope) => applyCollabOp(slides, envelope.op),
+      room.slides,
+    );
+    for (const { op } of ops) {
+      if (op.type === "set" || op.type === "set_field") {
+        const unsaved = room.unsaved.get(op.slide_id) ?? [];
+        unsaved.push(op);
+        room.unsaved.set(op.slide_id, unsaved);
+      }
+    }
+    broadcast(room, { type: "ops", session_id: sessionId, ops });
+    scheduleSave(room);
+  };
+
+  // Batches are applied one after another, in the order they arrived
+  let applying = Promise.resolve();
+
+  const receive = (raw: string) => {
+    let message: Record<string, unknown>;
+    try {
+      message = JSON.parse(raw);
+    } catch {
+      connection.send(
+        JSON.stringify({ type: "error", message: "Invalid message" }),
+      );
+      return;
+    }
+
+    if (message.type === "ops" && Array.isArray(message.ops)) {
+      const ops = (message.ops as CollabOpEnvelope[])
+        .slice(0, MAX_OPS_PER_MESSAGE)
+        .filter(
+          (envelope) =>
+            typeof envelope?.id === "string" && isCollabOp(envelope.op),
+        );
+      if (ops.length === 0) return;
+      applying = applying
+        .then(() => applyOps(ops))
+        .catch((error) => {
+          console.error("Failed to apply collaboration edits:", error);
+          // The client resends unacknowledged edits when it reconnects
+          connection.close(1011, "Failed to apply edits");
+        });
+      return;
+    }
+
+    if (message.type === "presence") {
+      peer.slide_id =
+        typeof message.slide_id === "string" ? message.slide_id : null;
+      peer.data_path =
+        typeof message.data_path === "string" ? message.data_path : null;
+      peer.pointer = toPointer(message.pointer);
+      broadcast(room, { type: "presence", peer }, sessionId);
+    }
+  };
+
+  const leave = () => removeMember(room, sessionId);
+
+  return { sessionId, receive, leave };
+};
+
+/**
+ * Saves every open room. Called before the server shuts down.
+ */
+export const saveAllCollabRooms = async (): Promise<void> => {
+  const open = await Promise.all(rooms.values());
+  await Promise.all(
+    open.filter((room): room is CollabRoom => !!room).map(saveRoom),
+  );
+};
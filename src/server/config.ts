@@ -3,7 +3,7 @@
  *
  * This module provides functions for accessing user-configurable settings
  * from environment variables. These settings control LLM providers, image
- * generation services, and other external service integrations used by
+ * generation services, web search, and other external service integrations used by
  * the server-side application logic.
  */
 
@@ -30,14 +30,45 @@
  *   Used as HTTP-Referer header for API identification.
  * @property OPENROUTER_APP_NAME - Optional application name for OpenRouter API
  *   requests. Used as X-Title header for API identification.
+ * @property LLM_PROVIDER - Optional default LLM provider ("openrouter",
+ *   "openai", "ollama", "custom", "anthropic", "google"). Defaults to
+ *   "openrouter".
+ * @property LLM_MODEL - Optional model identifier for LLM_PROVIDER.
+ * @property OUTLINE_LLM_PROVIDER - Optional provider for outline generation
+ *   and layout planning. Falls back to LLM_PROVIDER.
+ * @property OUTLINE_LLM_MODEL - Optional model for outline generation.
+ * @property SLIDE_LLM_PROVIDER - Optional provider for slide content
+ *   generation. Falls back to LLM_PROVIDER.
+ * @property SLIDE_LLM_MODEL - Optional model for slide content generation.
+ * @property EDIT_LLM_PROVIDER - Optional provider for slide edits and HTML
+ *   transformations. Falls back to LLM_PROVIDER.
+ * @property EDIT_LLM_MODEL - Optional model for slide edits.
+ * @property OPENAI_BASE_URL - Optional base URL for the "openai" LLM provider
+ *   (e.g., an Azure or proxy endpoint).
+ * @property OLLAMA_URL - Optional OpenAI-compatible endpoint of an Ollama
+ *   server. Defaults to http://localhost:11434/v1.
+ * @property CUSTOM_LLM_URL - Optional OpenAI-compatible endpoint for the
+ *   "custom" provider (vLLM, LM Studio, etc.).
+ * @property CUSTOM_LLM_API_KEY - Optional API key for the "custom" provider.
+ * @property CUSTOM_LLM_JSON_MODE - Optional; set to "false" if the custom
+ *   endpoint rejects `response_format: json_object`.
+ * @property ANTHROPIC_API_KEY - Optional API key for the Anthropic provider.
+ * @property GOOGLE_API_KEY - Optional API key for the Google Gemini provider.
  * @property IMAGE_PROVIDER - Optional identifier for the image generation
  *   provider ("openai", "pexels", "pixabay", etc.).
  * @property OPENAI_API_KEY - Optional API key for OpenAI services. Used for
- *   DALL-E image generation if IMAGE_PROVIDER is "openai".
+ *   DALL-E image generation if IMAGE_PROVIDER is "openai", and by the
+ *   "openai" LLM provider.
  * @property PEXELS_API_KEY - Optional API key for Pexels stock photo service.
  *   Used if IMAGE_PROVIDER is "pexels".
  * @property PIXABAY_API_KEY - Optional API key for Pixabay stock photo service.
  *   Used if IMAGE_PROVIDER is "pixabay".
+ * @property SEARCH_PROVIDER - Optional identifier for the web search provider
+ *   ("tavily", "brave", "fixture"). Defaults to the first provider with a key.
+ * @property TAVILY_API_KEY - Optional API key for Tavily web search.
+ * @property BRAVE_SEARCH_API_KEY - Optional API key for Brave web search.
+ * @property SEARCH_FIXTURE_PATH - Optional path to a JSON file of canned
+ *   search results. Used if SEARCH_PROVIDER is "fixture".
  */
 export type UserConfig = {
   // OpenRouter
@@ -48,11 +79,34 @@ export type UserConfig = {
   OPENROUTER_SITE_URL?: string;
   OPENROUTER_APP_NAME?: string;
 
+  // LLM Providers
+  LLM_PROVIDER?: string;
+  LLM_MODEL?: string;
+  OUTLINE_LLM_PROVIDER?: string;
+  OUTLINE_LLM_MODEL?: string;
+  SLIDE_LLM_PROVIDER?: string;
+  SLIDE_LLM_MODEL?: string;
+  EDIT_LLM_PROVIDER?: string;
+  EDIT_LLM_MODEL?: string;
+  OPENAI_BASE_URL?: string;
+  OLLAMA_URL?: string;
+  CUSTOM_LLM_URL?: string;
+  CUSTOM_LLM_API_KEY?: string;
+  CUSTOM_LLM_JSON_MODE?: string;
+  ANTHROPIC_API_KEY?: string;
+  GOOGLE_API_KEY?: string;
+
   // Image Provider
   IMAGE_PROVIDER?: string;
   OPENAI_API_KEY?: string;
   PEXELS_API_KEY?: string;
   PIXABAY_API_KEY?: string;
+
+  // Web Search
+  SEARCH_PROVIDER?: string;
+  TAVILY_API_KEY?: string;
+  BRAVE_SEARCH_API_KEY?: string;
+  SEARCH_FIXTURE_PATH?: string;
 };
 
 /**
@@ -89,9 +143,32 @@ export const getRuntimeConfig = (): UserConfig => ({
   OPENROUTER_SITE_URL: process.env.OPENROUTER_SITE_URL,
   OPENROUTER_APP_NAME: process.env.OPENROUTER_APP_NAME,
 
+  // LLM Providers
+  LLM_PROVIDER: process.env.LLM_PROVIDER,
+  LLM_MODEL: process.env.LLM_MODEL,
+  OUTLINE_LLM_PROVIDER: process.env.OUTLINE_LLM_PROVIDER,
+  OUTLINE_LLM_MODEL: process.env.OUTLINE_LLM_MODEL,
+  SLIDE_LLM_PROVIDER: process.env.SLIDE_LLM_PROVIDER,
+  SLIDE_LLM_MODEL: process.env.SLIDE_LLM_MODEL,
+  EDIT_LLM_PROVIDER: process.env.EDIT_LLM_PROVIDER,
+  EDIT_LLM_MODEL: process.env.EDIT_LLM_MODEL,
+  OPENAI_BASE_URL: process.env.OPENAI_BASE_URL,
+  OLLAMA_URL: process.env.OLLAMA_URL,
+  CUSTOM_LLM_URL: process.env.CUSTOM_LLM_URL,
+  CUSTOM_LLM_API_KEY: process.env.CUSTOM_LLM_API_KEY,
+  CUSTOM_LLM_JSON_MODE: process.env.CUSTOM_LLM_JSON_MODE,
+  ANTHROPIC_API_KEY: process.env.ANTHROPIC_API_KEY,
+  GOOGLE_API_KEY: process.env.GOOGLE_API_KEY,
+
   // Image Provider
   IMAGE_PROVIDER: process.env.IMAGE_PROVIDER,
   OPENAI_API_KEY: process.env.OPENAI_API_KEY,
   PEXELS_API_KEY: process.env.PEXELS_API_KEY,
   PIXABAY_API_KEY: process.env.PIXABAY_API_KEY,
+
+  // Web Search
+  SEARCH_PROVIDER: process.env.SEARCH_PROVIDER,
+  TAVILY_API_KEY: process.env.TAVILY_API_KEY,
+  BRAVE_SEARCH_API_KEY: process.env.BRAVE_SEARCH_API_KEY,
+  SEARCH_FIXTURE_PATH: process.env.SEARCH_FIXTURE_PATH,
 });
@@ -0,0 +1,187 @@
+/**
+ * Database operations for brand kits.
+ *
+ * A brand kit holds a company's colors, fonts, logos and footer text, and
+ * is applied to the slides of presentations that reference it. Kits are
+ * scoped by their own owner column.
+ */
+
+import { v4 as uuidv4 } from "uuid";
+import type {
+  BrandFont,
+  BrandKit,
+  BrandLogos,
+  ColorTokens,
+} from "@/utils/color-schemes";
+import { prisma } from "../db";
+
+/**
+ * Fields of a brand kit that can be set when creating or updating it.
+ */
+export type BrandKitInput = Pick<
+  BrandKit,
+  "name" | "colors" | "heading_font" | "body_font" | "logos" | "footer_text"
+>;
+
+type BrandKitRow = {
+  id: string;
+  name: string;
+  colors: string;
+  heading_font: string | null;
+  body_font: string | null;
+  logos: string | null;
+  footer_text: string | null;
+  created_at: Date;
+  updated_at: Date;
+};
+
+const fromJson = <T>(value: unknown, fallback: T): T => {
+  if (value === null || value === undefined) return fallback;
+  if (typeof value === "string") {
+    try {
+      return JSON.parse(value) as T;
+    } catch {
+      return fallback;
+    }
+  }
+  return value as T;
+};
+
+const toJson = <T>(value: T): string | null => {
+  if (value === null || value === undefined) return null;
+  return JSON.stringify(value);
+};
+
+const EMPTY_LOGOS: BrandLogos = { primary: null, inverse: null, icon: null };
+
+const rowToBrandKit = (row: BrandKitRow | null): BrandKit | null => {
+  if (!row) return null;
+  return {
+    id: row.id,
+    name: row.name,
+    colors: fromJson<ColorTokens>(row.colors, {
+      heading: "#000000",
+      body: "#000000",
+      muted: "#666666",
+      accent: "#000000",
+      border: "#e5e5e5",
+      card: "#ffffff",
+    }),
+    heading_font: fromJson<BrandFont | null>(row.heading_font, null),
+    body_font: fromJson<BrandFont | null>(row.body_font, null),
+    logos: { ...EMPTY_LOGOS, ...fromJson<Partial<BrandLogos>>(row.logos, {}) },
+    footer_text: row.footer_text,
+    created_at: row.created_at.toISOString(),
+    updated_at: row.updated_at.toISOString(),
+  };
+};
+
+/**
+ * Lists a user's brand kits, by name.
+ *
+ * @param owner - ID of the user.
+ * @returns Promise that resolves to the kits.
+ */
+export const listBrandKits = async (owner: string): Promise<BrandKit[]> => {
+  const rows = await prisma.brandKit.findMany({
+    where: { owner },
+    orderBy: { name: "asc" },
+  });
+  return rows
+    .map(rowToBrandKit)
+    .filter((kit): kit is BrandKit => kit !== null);
+};
+
+/**
+ * Gets a brand kit by ID.
+ *
+ * @param owner - ID of the user the kit must belong to.
+ * @param id - Unique identifier of the kit.
+ * @returns Promise that resolves to the kit, or null if it does not exist
+ *   or belongs to another user.
+ */
+export const getBrandKitById = async (
+  owner: string,
+  id: string,
+): Promise<BrandKit | null> => {
+  const row = await prisma.brandKit.findFirst({ where: { id, owner } });
+  return rowToBrandKit(row);
+};
+
+/**
+ * Creates a brand kit.
+ *
+ * @param owner - ID of the user the kit belongs to.
+ * @param data - The kit's fields.
+ * @returns Promise that resolves to the created kit.
+ */
+export const createBrandKit = async (
+  owner: string,
+  data: BrandKitInput,
+): Promise<BrandKit> => {
+  const row = await prisma.brandKit.create({
+    data: {
+      id: uuidv4(),
+      owner,
+      name: data.name,
+      colors: JSON.stringify(data.colors),
+      heading_font: toJson(data.heading_font),
+      body_font: toJson(data.body_font),
+      logos: toJson(data.logos),
+      footer_text: data.footer_text,
+    },
+  });
+  return rowToBrandKit(row)!;
+};
+
+/**
+ * Updates a brand kit. Only provided fields are changed.
+ *
+ * Presentations using the kit pick up the change the next time they are
+ * rendered or exported.
+ *
+ * @param owner - ID of the user the kit must belong to.
+ * @param id - Unique identifier of the kit.
+ * @param data - Fields to change.
+ * @returns Promise that resolves to the updated kit, or null if it does not
+ *   exist or belongs to another user.
+ */
+export const updateBrandKit = async (
+  owner: string,
+  id: string,
+  data: Partial<BrandKitInput>,
+): Promise<BrandKit | null> => {
+  const { count } = await prisma.brandKit.updateMany({
+    where: { id, owner },
+    data: {
+      name: data.name,
+      colors:
+        data.colors !== undefined ? JSON.stringify(data.colors) : undefined,
+      heading_font:
+        data.heading_font !== undefined ? toJson(data.heading_font) : undefined,
+      body_font:
+        data.body_font !== undefined ? toJson(data.body_font) : undefined,
+      logos: data.logos !== undefined ? toJson(data.logos) : undefined,
+      footer_text: data.footer_text,
+      updated_at: new Date(),
+    },
+  });
+  if (count === 0) return null;
+  return getBrandKitById(owner, id);
+};
+
+/**
+ * Deletes a brand kit. Presentations using it fall back to their
+ * template's own styling.
+ *
+ * @param owner - ID of the user the kit must belong to.
+ * @param id - Unique identifier of the kit.
+ * @returns Promise that resolves to true if the kit was deleted.
+ */
+export const deleteBrandKit = async (
+  owner: string,
+  id: string,
+): Promise<boolean> => {
+  const { count } = await prisma.brandKit.deleteMany({ where: { id, owner } });
+  return count > 0;
+};
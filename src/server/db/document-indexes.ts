@@ -0,0 +1,113 @@
+/**
+ * Database operations for document indexes.
+ *
+ * A document index holds the chunks of a presentation's uploaded documents
+ * (see server/retrieval), so they are split once rather than on every
+ * generation run or AI edit. Each presentation has at most one index,
+ * tagged with the hash of the document content it was built from.
+ *
+ * Indexes have no owner column of their own; every function takes the
+ * owner's user ID and scopes through the parent presentation.
+ */
+
+import { prisma } from "../db";
+import type { DocumentChunk } from "../retrieval";
+
+/**
+ * Document index record structure stored in the database.
+ *
+ * @property presentation - ID of the presentation the index belongs to.
+ * @property content_hash - Hash of the document content the chunks were
+ *   built from (see hashDocumentContent).
+ * @property chunks - Document chunks. Stored as JSON string in DB, parsed
+ *   to objects here.
+ * @property created_at - ISO 8601 timestamp of when the index was built.
+ */
+export type DocumentIndexRecord = {
+  presentation: string;
+  content_hash: string;
+  chunks: DocumentChunk[];
+  created_at: string;
+};
+
+const fromJson = <T>(value: unknown, fallback: T): T => {
+  if (value === null || value === undefined) return fallback;
+  if (typeof value === "string") {
+    try {
+      return JSON.parse(value) as T;
+    } catch {
+      return fallback;
+    }
+  }
+  return value as T;
+};
+
+const rowToDocumentIndex = (
+  row: {
+    presentation: string;
+    content_hash: string;
+    chunks: string;
+    created_at: Date;
+  } | null,
+): DocumentIndexRecord | null => {
+  if (!row) return null;
+  return {
+    presentation: row.presentation,
+    content_hash: row.content_hash,
+    chunks: fromJson<DocumentChunk[]>(row.chunks, []),
+    created_at: row.created_at.toISOString(),
+  };
+};
+
+/**
+ * Retrieves the document index of a presentation.
+ *
+ * @param owner - ID of the user the presentation must belong to.
+ * @param presentationId - ID of the presentation.
+ * @returns Promise that resolves to the index, or null if none was built
+ *   yet or the presentation belongs to another user.
+ */
+export const getDocumentIndex = async (
+  owner: string,
+  presentationId: string,
+): Promise<DocumentIndexRecord | null> => {
+  const row = await prisma.documentIndex.findFirst({
+    where: { presentation: presentationId, presentationRef: { owner } },
+  });
+  return rowToDocumentIndex(row);
+};
+
+/**
+ * Saves the document index of a presentation, replacing any earlier one.
+ *
+ * @param owner - ID of the user the presentation must belong to.
+ * @param presentationId - ID of the presentation.
+ * @param contentHash - Hash of the document content the chunks were built
+ *   from.
+ * @param chunks - Document chunks.
+ * @returns Promise that resolves to the saved index, or null if the
+ *   presentation does not exist or belongs to another user.
+ */
+export const saveDocumentIndex = async (
+  owner: string,
+  presentationId: string,
+  contentHash: string,
+  chunks: DocumentChunk[],
+): Promise<DocumentIndexRecord | null> => {
+  const owned = await prisma.presentation.count({
+    where: { id: presentationId, owner },
+  });
+  if (!owned) return null;
+
+  const data = {
+    content_hash: contentHash,
+    chunks: JSON.stringify(chunks),
+    created_at: new Date(),
+  };
+  const row = await prisma.documentIndex.upsert({
+    where: { presentation: presentationId },
+    update: data,
+    create: { presentation: presentationId, ...data },
+  });
+  return rowToDocumentIndex(row);
+};
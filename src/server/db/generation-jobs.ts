@@ -0,0 +1,195 @@
+/**
+ * Database operations for slide generation jobs.
+ *
+ * A generation job records one run of slide content generation for a
+ * presentation: its status, how many slides it produces and which of them
+ * are already saved. The job runner in `src/server/generation-jobs.ts` keeps
+ * these rows current so an interrupted run can be resumed or cancelled.
+ *
+ * Jobs have no owner column of their own; every function takes the owner's
+ * user ID and scopes through the parent presentation.
+ */
+
+import { prisma } from "../db";
+
+/**
+ * Lifecycle state of a generation job.
+ *
+ * - "running": Slides are being generated (or the worker died and the job
+ *   is waiting to be resumed)
+ * - "completed": Every slide was generated and saved
+ * - "cancelled": The user stopped the job; remaining slides were not generated
+ * - "failed": The job aborted with an error
+ */
+export type GenerationJobStatus =
+  | "running"
+  | "completed"
+  | "cancelled"
+  | "failed";
+
+/**
+ * Generation job record structure stored in the database.
+ *
+ * @property id - Unique identifier of the job.
+ * @property presentation - ID of the presentation being generated.
+ * @property status - Current lifecycle state.
+ * @property total - Number of slides the job generates.
+ * @property completed_slides - Indices of slides whose content is saved.
+ *   Stored as JSON string in DB, parsed to an array here.
+ * @property error - Error message when the job failed, otherwise null.
+ * @property created_at - ISO 8601 timestamp of when the job started.
+ * @property updated_at - ISO 8601 timestamp of the last recorded progress
+ *   or worker heartbeat.
+ */
+export type GenerationJobRecord = {
+  id: string;
+  presentation: string;
+  status: GenerationJobStatus;
+  total: number;
+  completed_slides: number[];
+  error: string | null;
+  created_at: string;
+  updated_at: string;
+};
+
+const fromJson = <T>(value: unknown, fallback: T): T => {
+  if (value === null || value === undefined) return fallback;
+  if (typeof value === "string") {
+    try {
+      return JSON.parse(value) as T;
+    } catch {
+      return fallback;
+    }
+  }
+  return value as T;
+};
+
+const rowToJob = (
+  row: {
+    id: string;
+    presentation: string;
+    status: string;
+    total: number;
+    completed_slides: string;
+    error: string | null;
+    created_at: Date;
+    updated_at: Date;
+  } | null,
+): GenerationJobRecord | null => {
+  if (!row) return null;
+  return {
+    id: row.id,
+    presentation: row.presentation,
+    status: row.status as GenerationJobStatus,
+    total: row.total,
+    completed_slides: fromJson<number[]>(row.completed_slides, []),
+    error: row.error,
+    created_at: row.created_at.toISOString(),
+    updated_at: row.updated_at.toISOString(),
+  };
+};
+
+/**
+ * Creates a running generation job for a presentation.
+ *
+ * @param owner - ID of the user the presentation must belong to.
+ * @param job - Job ID, presentation ID and number of slides to generate.
+ * @returns Promise that resolves to the created record, or null if the
+ *   presentation does not exist or belongs to another user.
+ */
+export const createGenerationJob = async (
+  owner: string,
+  job: { id: string; presentation: string; total: number },
+): Promise<GenerationJobRecord | null> => {
+  const ownsPresentation = await prisma.presentation.count({
+    where: { id: job.presentation, owner },
+  });
+  if (!ownsPresentation) return null;
+
+  const created = await prisma.generationJob.create({
+    data: {
+      id: job.id,
+      presentation: job.presentation,
+      status: "running",
+      total: job.total,
+      completed_slides: "[]",
+    },
+  });
+  return rowToJob(created);
+};
+
+/**
+ * Retrieves a generation job by its ID.
+ *
+ * @param owner - ID of the user the job's presentation must belong to.
+ * @param id - Unique identifier of the job.
+ * @returns Promise that resolves to the record, or null if not found.
+ */
+export const getGenerationJob = async (
+  owner: string,
+  id: string,
+): Promise<GenerationJobRecord | null> => {
+  const row = await prisma.generationJob.findFirst({
+    where: { id, presentationRef: { owner } },
+  });
+  return rowToJob(row);
+};
+
+/**
+ * Retrieves the most recent generation job of a presentation.
+ *
+ * @param owner - ID of the user the presentation must belong to.
+ * @param presentationId - ID of the presentation.
+ * @param status - Optional status filter (e.g., "running").
+ * @returns Promise that resolves to the newest matching record, or null.
+ */
+export const getLatestGenerationJob = async (
+  owner: string,
+  presentationId: string,
+  status?: GenerationJobStatus,
+): Promise<GenerationJobRecord | null> => {
+  const row = await prisma.generationJob.findFirst({
+    where: {
+      presentation: presentationId,
+      presentationRef: { owner },
+      ...(status ? { status } : {}),
+    },
+    orderBy: { created_at: "desc" },
+  });
+  return rowToJob(row);
+};
+
+/**
+ * Updates progress or status of a generation job.
+ *
+ * Passing an empty object still refreshes `updated_at`, which the runner
+ * uses as a heartbeat so other processes can tell a live job from one whose
+ * worker died.
+ *
+ * @param owner - ID of the user the job's presentation must belong to.
+ * @param id - Unique identifier of the job.
+ * @param data - Fields to update.
+ * @returns Promise that resolves to the updated record, or null if the job
+ *   does not exist or belongs to another user.
+ */
+export const updateGenerationJob = async (
+  owner: string,
+  id: string,
+  data: Partial<
+    Pick<GenerationJobRecord, "status" | "completed_slides" | "error">
+  >,
+): Promise<GenerationJobRecord | null> => {
+  const result = await prisma.generationJob.updateMany({
+    where: { id, presentationRef: { owner } },
+    data: {
+      ...(data.status !== undefined ? { status: data.status } : {}),
+      ...(data.completed_slides !== undefined
+        ? { completed_slides: JSON.stringify(data.completed_slides) }
+        : {}),
+      ...(data.error !== undefined ? { error: data.error } : {}),
+      updated_at: new Date(),
+    },
+  });
+  if (result.count === 0) return null;
+  return getGenerationJob(owner, id);
+};
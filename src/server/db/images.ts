@@ -5,7 +5,7 @@
  * Image assets track images that are used in presentations, including both
  * uploaded images and generated images. The actual image files are stored
  * separately (in file system or cloud storage); this module only manages
- * the metadata and references.
+ * the metadata and references. Every query is scoped to the owning user.
  */
 
 import { prisma } from "../db";
@@ -18,6 +18,8 @@ import { prisma } from "../db";
  * tracks the image's existence and origin.
  *
  * @property id - Unique identifier for the image asset.
+ * @property owner - ID of the user that owns the image (null for unclaimed
+ *   legacy rows).
  * @property path - File path or URL where the image file is stored. This
  *   can be a local file system path or a cloud storage URL.
  * @property is_uploaded - Boolean indicating whether this image was uploaded
@@ -28,6 +30,7 @@ import { prisma } from "../db";
  */
 export type ImageAssetRecord = {
   id: string;
+  owner: string | null;
   path: string;
   is_uploaded: boolean;
   created_at: string;
@@ -36,6 +39,7 @@ export type ImageAssetRecord = {
 const rowToImage = (
   row: {
     id: string;
+    owner: string | null;
     path: string;
     is_uploaded: boolean;
     created_at: Date;
@@ -44,6 +48,7 @@ const rowToImage = (
   if (!row) return null;
   return {
     id: row.id,
+    owner: row.owner,
     path: row.path,
     is_uploaded: row.is_uploaded,
     created_at: row.created_at.toISOString(),
@@ -58,6 +63,7 @@ export const createImageAsset = async (
   const created = await prisma.imageAsset.create({
     data: {
       id: payload.id,
+      owner: payload.owner,
       path: payload.path,
       is_uploaded: payload.is_uploaded,
       created_at: now,
@@ -68,30 +74,35 @@ export const createImageAsset = async (
 };
 
 export const listImages = async (
+  owner: string,
   isUploaded: boolean,
 ): Promise<ImageAssetRecord[]> => {
   const rows = await prisma.imageAsset.findMany({
-    where: { is_uploaded: isUploaded },
+    where: { owner, is_uploaded: isUploaded },
     orderBy: { created_at: "desc" },
   });
   return rows.map(rowToImage).filter((r): r is ImageAssetRecord => r !== null);
 };
 
 export const getImageById = async (
+  owner: string,
   id: string,
 ): Promise<ImageAssetRecord | null> => {
-  const row = await prisma.imageAsset.findUnique({
-    where: { id },
+  const row = await prisma.imageAsset.findFirst({
+    where: { id, owner },
   });
   return rowToImage(row);
 };
 
-export const deleteImageById = async (id: string): Promise<boolean> => {
+export const deleteImageById = async (
+  owner: string,
+  id: string,
+): Promise<boolean> => {
   try {
-    await prisma.imageAsset.delete({
-      where: { id },
+    const { count } = await prisma.imageAsset.deleteMany({
+      where: { id, owner },
     });
-    return true;
+    return count > 0;
   } catch {
     return false;
   }
@@ -0,0 +1,76 @@
+/**
+ * Database operations for login attempts.
+ *
+ * Wrong passwords entered for local sign-in are counted per key: the email
+ * address tried and the client IP, each as its own row (see server/lockout).
+ * Rows are created on the first attempt and deleted on a successful
+ * sign-in.
+ */
+
+import { prisma } from "../db";
+import { getLockoutEnd, type LockoutPolicy } from "../lockout";
+
+/**
+ * Reserves a sign-in attempt for a key, before the password is checked.
+ *
+ * Every attempt counts as a failure until resetLoginAttempts clears the
+ * count; the attempt that reaches a multiple of `maxFailures` locks the key.
+ * The count is incremented with a conditional update on the value just
+ * read, so concurrent attempts cannot all pass before the lock is set; an
+ * attempt whose update does not apply is refused like a locked one.
+ *
+ * @param key - What the attempt is counted for, e.g. "email:ana@acme.com".
+ * @param policy - Failures allowed before a lock and the lock durations.
+ * @returns Promise that resolves to whether the password may be checked,
+ *   and the ISO 8601 timestamp until which the key is locked: the lock
+ *   refusing the attempt, the lock this attempt set (if it was the last one
+ *   allowed), or null.
+ */
+export const reserveLoginAttempt = async (
+  key: string,
+  policy: LockoutPolicy,
+): Promise<{ allowed: boolean; locked_until: string | null }> => {
+  const now = new Date();
+  await prisma.loginAttempt.createMany({
+    data: [{ key }],
+    skipDuplicates: true,
+  });
+  const row = await prisma.loginAttempt.findUnique({
+    where: { key },
+    select: { failures: true, locked_until: true },
+  });
+  if (row?.locked_until && row.locked_until > now) {
+    return { allowed: false, locked_until: row.locked_until.toISOString() };
+  }
+
+  const failures = (row?.failures ?? 0) + 1;
+  const lockedUntil = getLockoutEnd(failures, policy, now);
+  const { count } = await prisma.loginAttempt.updateMany({
+    where: {
+      key,
+      failures: row?.failures ?? 0,
+      OR: [{ locked_until: null }, { locked_until: { lte: now } }],
+    },
+    data: {
+      failures,
+      ...(lockedUntil ? { locked_until: lockedUntil } : {}),
+    },
+  });
+  if (count === 0) {
+    // Another attempt got in first; retry once it has been answered
+    return {
+      allowed: false,
+      locked_until: new Date(now.getTime() + 1000).toISOString(),
+    };
+  }
+  return { allowed: true, locked_until: lockedUntil?.toISOString() ?? null };
+};
+
+/**
+ * Clears the attempt counts of keys once the right password was entered.
+ *
+ * @param keys - Keys the attempt was counted for.
+ */
+export const resetLoginAttempts = async (keys: string[]): Promise<void> => {
+  await prisma.loginAttempt.deleteMany({ where: { key: { in: keys } } });
+};
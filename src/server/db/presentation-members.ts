@@ -0,0 +1,205 @@
+/**
+ * Database operations for presentation members.
+ *
+ * The owner of a presentation can invite other users to it. Editors open
+ * the deck in the editor and edit it together with the owner (see
+ * server/collab); viewers open it read-only. Every other function in this
+ * layer stays scoped to the owner: callers resolve a member's access with
+ * getPresentationAccess first and then query with the owner it returns.
+ */
+
+import { v4 as uuidv4 } from "uuid";
+import { prisma } from "../db";
+
+/**
+ * Roles a member can be given.
+ */
+export const MEMBER_ROLES = ["editor", "viewer"] as const;
+
+export type MemberRole = (typeof MEMBER_ROLES)[number];
+
+/**
+ * How a user can access a presentation.
+ *
+ * @property owner - ID of the user the presentation belongs to; database
+ *   access for it is scoped to this ID.
+ * @property role - "owner" for the owner, otherwise the member's role.
+ */
+export type PresentationAccess = {
+  owner: string;
+  role: "owner" | MemberRole;
+};
+
+/**
+ * Presentation member record structure.
+ *
+ * @property id - Unique identifier of the membership.
+ * @property presentation - ID of the presentation.
+ * @property user_id - ID of the invited user.
+ * @property email - Email address of the invited user.
+ * @property name - Display name of the invited user, or null.
+ * @property role - "editor" or "viewer".
+ * @property created_at - ISO 8601 timestamp of when the user was invited.
+ */
+export type PresentationMemberRecord = {
+  id: string;
+  presentation: string;
+  user_id: string;
+  email: string;
+  name: string | null;
+  role: MemberRole;
+  created_at: string;
+};
+
+type MemberRow = {
+  id: string;
+  presentation: string;
+  user: string;
+  role: string;
+  created_at: Date;
+  userRef: { email: string; name: string | null };
+};
+
+/**
+ * Checks that a value is a member role.
+ */
+export const isMemberRole = (value: unknown): value is MemberRole =>
+  (MEMBER_ROLES as readonly unknown[]).includes(value);
+
+const rowToMember = (row: MemberRow): PresentationMemberRecord => ({
+  id: row.id,
+  presentation: row.presentation,
+  user_id: row.user,
+  email: row.userRef.email,
+  name: row.userRef.name,
+  role: isMemberRole(row.role) ? row.role : "viewer",
+  created_at: row.created_at.toISOString(),
+});
+
+/**
+ * Resolves how a user can access a presentation.
+ *
+ * @param userId - ID of the signed-in user.
+ * @param presentationId - ID of the presentation.
+ * @returns The presentation's owner and the user's role, or null if the
+ *   presentation does not exist or the user is neither its owner nor a
+ *   member.
+ */
+export const getPresentationAccess = async (
+  userId: string,
+  presentationId: string,
+): Promise<PresentationAccess | null> => {
+  const row = await prisma.presentation.findFirst({
+    where: {
+      id: presentationId,
+      OR: [{ owner: userId }, { members: { some: { user: userId } } }],
+    },
+    select: {
+      owner: true,
+      members: { where: { user: userId }, select: { role: true } },
+    },
+  });
+  if (!row?.owner) return null;
+  if (row.owner === userId) return { owner: row.owner, role: "owner" };
+  const role = row.members[0]?.role;
+  return { owner: row.owner, role: isMemberRole(role) ? role : "viewer" };
+};
+
+/**
+ * Resolves how a user can access the presentation a slide belongs to.
+ *
+ * @param userId - ID of the signed-in user.
+ * @param slideId - ID of the slide.
+ * @returns The presentation's ID and owner and the user's role, or null if
+ *   the slide does not exist or the user cannot access its presentation.
+ */
+export const getSlideAccess = async (
+  userId: string,
+  slideId: string,
+): Promise<(PresentationAccess & { presentation: string }) | null> => {
+  const slide = await prisma.slide.findUnique({
+    where: { id: slideId },
+    select: { presentation: true },
+  });
+  if (!slide) return null;
+  const access = await getPresentationAccess(userId, slide.presentation);
+  return access ? { ...access, presentation: slide.presentation } : null;
+};
+
+/**
+ * Lists the members of a presentation, in order of invitation.
+ *
+ * @param owner - ID of the user the presentation must belong to.
+ * @param presentationId - ID of the presentation.
+ * @returns Promise that resolves to the members (empty if the presentation
+ *   belongs to another user).
+ */
+export const listPresentationMembers = async (
+  owner: string,
+  presentationId: string,
+): Promise<PresentationMemberRecord[]> => {
+  const rows = await prisma.presentationMember.findMany({
+    where: { presentation: presentationId, presentationRef: { owner } },
+    include: { userRef: { select: { email: true, name: true } } },
+    orderBy: { created_at: "asc" },
+  });
+  return rows.map(rowToMember);
+};
+
+/**
+ * Adds a user to a presentation, or changes the role of a member.
+ *
+ * @param owner - ID of the user the presentation must belong to.
+ * @param presentationId - ID of the presentation.
+ * @param userId - ID of the user to invite. Must not be the owner.
+ * @param role - Role to give the user.
+ * @returns Promise that resolves to the membership, or null if the
+ *   presentation does not exist or belongs to another user.
+ */
+export const upsertPresentationMember = async (
+  owner: string,
+  presentationId: string,
+  userId: string,
+  role: MemberRole,
+): Promise<PresentationMemberRecord | null> => {
+  const owned = await prisma.presentation.count({
+    where: { id: presentationId, owner },
+  });
+  if (!owned || userId === owner) return null;
+
+  const row = await prisma.presentationMember.upsert({
+    where: { presentation_user: { presentation: presentationId, user: userId } },
+    update: { role },
+    create: {
+      id: uuidv4(),
+      presentation: presentationId,
+      user: userId,
+      role,
+    },
+    include: { userRef: { select: { email: true, name: true } } },
+  });
+  return rowToMember(row);
+};
+
+/**
+ * Removes a user from a presentation.
+ *
+ * @param owner - ID of the user the presentation must belong to.
+ * @param presentationId - ID of the presentation.
+ * @param userId - ID of the member to remove.
+ * @returns Promise that resolves to true if a member was removed.
+ */
+export const removePresentationMember = async (
+  owner: string,
+  presentationId: string,
+  userId: string,
+): Promise<boolean> => {
+  const { count } = await prisma.presentationMember.deleteMany({
+    where: {
+      presentation: presentationId,
+      user: userId,
+      presentationRef: { owner },
+    },
+  });
+  return count > 0;
+};
@@ -8,9 +8,11 @@
  *
  * All functions use Prisma for type-safe database access and handle JSON
  * serialization/deserialization for complex fields like outlines, layouts,
- * and file metadata.
+ * and file metadata. Every query is scoped to the owning user: callers pass
+ * the owner's user ID and never see presentations belonging to anyone else.
  */
 
+import type { KeyFact } from "@/types/presentation";
 import { prisma } from "../db";
 import { mapSlideRow, SlideRecord } from "./slides";
 
@@ -41,6 +43,8 @@ export type FileMetadata = {
  * the database but parsed to objects in this type.
  *
  * @property id - Unique identifier for the presentation.
+ * @property owner - ID of the user that owns the presentation. Null only for
+ *   rows created before accounts existed that have not been claimed yet.
  * @property content - JSON string containing the presentation's slide content
  *   and structure. Stored as string in DB, typically parsed when used.
  * @property n_slides - Number of slides in the presentation.
@@ -58,12 +62,22 @@ export type FileMetadata = {
  * @property outlines - JSON object containing slide outlines. Stored as JSON string in DB.
  * @property layout - JSON object containing layout configuration. Stored as JSON string in DB.
  * @property structure - JSON object containing presentation structure. Stored as JSON string in DB.
+ * @property key_facts - Key figures of the pitch (ARR, raise, TAM, ...) that
+ *   every slide uses. Stored as JSON string in DB. Null until extracted
+ *   from the source before the first slide generation.
+ * @property brand_kit - ID of the brand kit applied to the slides, or null
+ *   to use the template's own styling.
  * @property title - Optional presentation title.
+ * @property version - Incremented on every change to the presentation's
+ *   metadata or slide list. Slide content changes bump the slide's own
+ *   version instead. Writers can pass the version they last read to have a
+ *   stale write rejected.
  * @property created_at - ISO 8601 timestamp string of when the presentation was created.
  * @property updated_at - ISO 8601 timestamp string of when the presentation was last updated.
  */
 export type PresentationRecord = {
   id: string;
+  owner: string | null;
   content: string;
   n_slides: number;
   language: string;
@@ -78,7 +92,10 @@ export type PresentationRecord = {
   outlines: Record<string, unknown> | null;
   layout: Record<string, unknown> | null;
   structure: Record<string, unknown> | null;
+  key_facts: KeyFact[] | null;
+  brand_kit: string | null;
   title: string | null;
+  version: number;
   created_at: string;
   updated_at: string;
 };
@@ -103,6 +120,7 @@ export type PresentationSummaryRecord = PresentationRecord & {
 /**
  * Options for listing presentations with pagination and filtering.
  *
+ * @property owner - ID of the user whose presentations are listed.
  * @property limit - Maximum number of presentations to return. Must be at least 1.
  * @property cursor - Optional cursor for pagination. The ID of the last presentation
  *   from the previous page. Used to fetch the next page of results.
@@ -112,6 +130,7 @@ export type PresentationSummaryRecord = PresentationRecord & {
  *   - "completed": Return only presentations with at least one slide
  */
 export type PresentationListOptions = {
+  owner: string;
   limit: number;
   cursor?: string | null;
   slidesFilter?: "all" | "drafts" | "completed";
@@ -169,6 +188,7 @@ const toJson = <T>(value: T): string | null => {
 const rowToPresentation = (
   row: {
     id: string;
+    owner: string | null;
     content: string;
     n_slides: number;
     language: string;
@@ -183,7 +203,10 @@ const rowToPresentation = (
     outlines: string | null;
     layout: string | null;
     structure: string | null;
+    key_facts: string | null;
+    brand_kit: string | null;
     title: string | null;
+    version: number;
     created_at: Date;
     updated_at: Date;
   } | null,
@@ -191,6 +214,7 @@ const rowToPresentation = (
   if (!row) return null;
   return {
     id: row.id,
+    owner: row.owner,
     content: row.content,
     n_slides: row.n_slides,
     language: row.language,
@@ -205,7 +229,10 @@ const rowToPresentation = (
     outlines: fromJson<Record<string, unknown> | null>(row.outlines, null),
     layout: fromJson<Record<string, unknown> | null>(row.layout, null),
     structure: fromJson<Record<string, unknown> | null>(row.structure, null),
+    key_facts: fromJson<KeyFact[] | null>(row.key_facts, null),
+    brand_kit: row.brand_kit,
     title: row.title,
+    version: row.version,
     created_at: row.created_at.toISOString(),
     updated_at: row.updated_at.toISOString(),
   };
@@ -219,7 +246,9 @@ const rowToPresentation = (
  * for database storage.
  *
  * @param payload - Presentation data to create. Must include all required
- *   fields except created_at and updated_at (which are auto-generated).
+ *   fields except version, created_at and updated_at (which are
+ *   auto-generated);
+ *   `owner` is the ID of the creating user.
  * @returns Promise that resolves to the created PresentationRecord with
  *   timestamps set.
  *
@@ -227,6 +256,7 @@ const rowToPresentation = (
  * ```typescript
  * const presentation = await createPresentation({
  *   id: "pres-123",
+ *   owner: "user-1",
  *   content: "{}",
  *   n_slides: 10,
  *   language: "en",
@@ -235,13 +265,14 @@ const rowToPresentation = (
  * ```
  */
 export const createPresentation = async (
-  payload: Omit<PresentationRecord, "created_at" | "updated_at">,
+  payload: Omit<PresentationRecord, "version" | "created_at" | "updated_at">,
 ): Promise<PresentationRecord> => {
   const now = new Date();
 
   const created = await prisma.presentation.create({
     data: {
       id: payload.id,
+      owner: payload.owner,
       content: payload.content,
       n_slides: payload.n_slides,
       language: payload.language,
@@ -256,6 +287,8 @@ export const createPresentation = async (
       outlines: toJson(payload.outlines),
       layout: toJson(payload.layout),
       structure: toJson(payload.structure),
+      key_facts: toJson(payload.key_facts),
+      brand_kit: payload.brand_kit,
       title: payload.title,
       created_at: now,
       updated_at: now,
@@ -269,36 +302,43 @@ export const createPresentation = async (
  * Retrieves a presentation by its ID.
  *
  * Fetches a single presentation record from the database using its unique
- * identifier. Returns null if no presentation with the given ID exists.
+ * identifier. Returns null if no presentation with the given ID exists or it
+ * belongs to another user, so callers cannot tell the two cases apart.
  *
+ * @param owner - ID of the user the presentation must belong to.
  * @param id - Unique identifier of the presentation to retrieve.
  * @returns Promise that resolves to the PresentationRecord if found, or null
  *   if not found.
  */
 export const getPresentationById = async (
+  owner: string,
   id: string,
 ): Promise<PresentationRecord | null> => {
-  const row = await prisma.presentation.findUnique({
-    where: { id },
+  const row = await prisma.presentation.findFirst({
+    where: { id, owner },
   });
   return rowToPresentation(row);
 };
 
 /**
- * Lists all presentations in the database.
+ * Lists all presentations owned by a user.
  *
- * Retrieves all presentation records, ordered by creation date (newest first).
- * This function does not support pagination - use listPresentationSummaries
- * for paginated results.
+ * Retrieves the owner's presentation records, ordered by creation date
+ * (newest first). This function does not support pagination - use
+ * listPresentationSummaries for paginated results.
  *
- * @returns Promise that resolves to an array of all PresentationRecord objects.
+ * @param owner - ID of the user whose presentations are listed.
+ * @returns Promise that resolves to an array of the owner's PresentationRecord objects.
  *
  * @remarks
  * For large datasets, consider using listPresentationSummaries with pagination
  * instead to avoid loading all presentations into memory.
  */
-export const listPresentations = async (): Promise<PresentationRecord[]> => {
+export const listPresentations = async (
+  owner: string,
+): Promise<PresentationRecord[]> => {
   const rows = await prisma.presentation.findMany({
+    where: { owner },
     orderBy: { created_at: "desc" },
   });
   return rows
@@ -309,7 +349,8 @@ export const listPresentations = async (): Promise<PresentationRecord[]> => {
 /**
  * Lists presentation summaries with pagination and filtering.
  *
- * Retrieves a paginated list of presentations with slide information included.
+ * Retrieves a paginated list of the owner's presentations with slide
+ * information included.
  * Supports cursor-based pagination and filtering by presentation state (drafts,
  * completed, or all). Each result includes the first slide for preview and
  * the total slide count.
@@ -318,6 +359,7 @@ export const listPresentations = async (): Promise<PresentationRecord[]> => {
  * If more results exist, the last item's ID is returned as nextCursor for
  * fetching the next page.
  *
+ * @param owner - ID of the user whose presentations are listed.
  * @param limit - Maximum number of presentations to return. Must be at least 1.
  *   The function may fetch limit+1 records to check for more results.
  * @param cursor - Optional cursor for pagination. The ID of the last presentation
@@ -333,18 +375,21 @@ export const listPresentations = async (): Promise<PresentationRecord[]> => {
  * @example
  * ```typescript
  * const { items, nextCursor } = await listPresentationSummaries({
+ *   owner: user.id,
  *   limit: 20,
  *   cursor: null,
  *   slidesFilter: "completed"
  * });
  * // Fetch next page
  * const nextPage = await listPresentationSummaries({
+ *   owner: user.id,
  *   limit: 20,
  *   cursor: nextCursor
  * });
  * ```
  */
 export const listPresentationSummaries = async ({
+  owner,
   limit,
   cursor,
   slidesFilter = "all",
@@ -355,10 +400,10 @@ export const listPresentationSummaries = async ({
   const normalizedLimit = Math.max(1, limit);
   const where =
     slidesFilter === "drafts"
-      ? { slides: { none: {} } }
+      ? { owner, slides: { none: {} } }
       : slidesFilter === "completed"
-        ? { slides: { some: {} } }
-        : undefined;
+        ? { owner, slides: { some: {} } }
+        : { owner };
 
   const rows = await prisma.presentation.findMany({
     where,
@@ -401,35 +446,48 @@ export const listPresentationSummaries = async ({
  * Modifies a presentation record with the provided partial data. Only fields
  * that are explicitly provided in the data parameter are updated; other fields
  * retain their existing values. The updated_at timestamp is automatically set
- * to the current time.
+ * to the current time and the version is incremented.
  *
- * If the presentation doesn't exist, returns null. JSON fields are serialized
- * to strings before storage.
+ * If the presentation doesn't exist or belongs to another user, returns null.
+ * With `expectedVersion`, the update is only applied if the presentation is
+ * still at that version; otherwise nothing is written and null is returned
+ * as well (callers tell the cases apart by reading the presentation).
+ * JSON fields are serialized to strings before storage. The owner itself is
+ * never changed.
  *
+ * @param owner - ID of the user the presentation must belong to.
  * @param id - Unique identifier of the presentation to update.
  * @param data - Partial PresentationRecord containing only the fields to update.
  *   Fields not provided will retain their existing values. Undefined values are
  *   treated as "don't change", while null values explicitly set fields to null.
+ * @param expectedVersion - Optional version the caller last read.
  * @returns Promise that resolves to the updated PresentationRecord if found,
- *   or null if the presentation doesn't exist.
+ *   or null if the presentation doesn't exist or is at another version.
  *
  * @example
  * ```typescript
- * const updated = await updatePresentation("pres-123", {
+ * const updated = await updatePresentation(user.id, "pres-123", {
  *   title: "New Title",
  *   n_slides: 15
  * });
  * ```
  */
 export const updatePresentation = async (
+  owner: string,
   id: string,
-  data: Partial<PresentationRecord>,
+  data: Partial<Omit<PresentationRecord, "owner" | "version">>,
+  expectedVersion?: number,
 ): Promise<PresentationRecord | null> => {
-  const existing = await getPresentationById(id);
+  const existing = await getPresentationById(owner, id);
   if (!existing) return null;
+  if (expectedVersion !== undefined && existing.version !== expectedVersion) {
+    return null;
+  }
 
-  const updated = await prisma.presentation.update({
-    where: { id },
+  // Matching on the version read above keeps concurrent updates from
+  // overwriting each other between the read and the write
+  const { count } = await prisma.presentation.updateMany({
+    where: { id, owner, version: existing.version },
     data: {
       content: data.content ?? existing.content,
       n_slides: data.n_slides ?? existing.n_slides,
@@ -466,12 +524,24 @@ export const updatePresentation = async (
         data.structure !== undefined
           ? toJson(data.structure)
           : toJson(existing.structure),
+      key_facts:
+        data.key_facts !== undefined
+          ? toJson(data.key_facts)
+          : toJson(existing.key_facts),
+      brand_kit:
+        data.brand_kit !== undefined ? data.brand_kit : existing.brand_kit,
       title: data.title !== undefined ? data.title : existing.title,
+      version: { increment: 1 },
       updated_at: new Date(),
     },
   });
+  if (count === 0) {
+    return expectedVersion === undefined
+      ? updatePresentation(owner, id, data)
+      : null;
+  }
 
-  return rowToPresentation(updated);
+  return getPresentationById(owner, id);
 };
 
 /**
@@ -480,16 +550,20 @@ export const updatePresentation = async (
  * Removes a presentation record by its ID. This operation is irreversible.
  * Related slides are typically deleted via database cascade constraints.
  *
+ * @param owner - ID of the user the presentation must belong to.
  * @param id - Unique identifier of the presentation to delete.
  * @returns Promise that resolves to true if deletion succeeded, false if
- *   the presentation doesn't exist or deletion failed.
+ *   the presentation doesn't exist, belongs to another user or deletion failed.
  */
-export const deletePresentation = async (id: string): Promise<boolean> => {
+export const deletePresentation = async (
+  owner: string,
+  id: string,
+): Promise<boolean> => {
   try {
-    await prisma.presentation.delete({
-      where: { id },
+    const { count } = await prisma.presentation.deleteMany({
+      where: { id, owner },
     });
-    return true;
+    return count > 0;
   } catch {
     return false;
   }
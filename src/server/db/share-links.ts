@@ -0,0 +1,420 @@
+/**
+ * Database operations for share links and their view analytics.
+ *
+ * A share link opens a read-only view of a presentation for people without
+ * an account. Each visit through a link is recorded as a view, and the
+ * viewer reports how long each slide was shown as events of that view.
+ *
+ * Owner functions take the owner's user ID and scope through the parent
+ * presentation, like the rest of this layer. The viewer side is public by
+ * design: links are looked up by their token and views by their ID, which
+ * is only handed out once the link granted access.
+ */
+
+import { v4 as uuidv4 } from "uuid";
+import { prisma } from "../db";
+import { getLockoutEnd, type LockoutPolicy } from "../lockout";
+
+/**
+ * Share link record structure stored in the database.
+ *
+ * The password hash is deliberately not part of this record so it never
+ * reaches an API response; `has_password` tells whether one is set.
+ *
+ * @property id - Unique identifier of the link.
+ * @property presentation - ID of the shared presentation.
+ * @property token - Random token the link is opened with (`/share/<token>`).
+ * @property label - Name the owner gave the link, or null.
+ * @property has_password - Whether viewers must enter a password.
+ * @property require_email - Whether viewers must enter their email.
+ * @property expires_at - ISO 8601 timestamp after which the link stops
+ *   working, or null if it never expires.
+ * @property revoked_at - ISO 8601 timestamp of when the owner revoked the
+ *   link, or null while it is active.
+ * @property created_at - ISO 8601 timestamp of when the link was created.
+ */
+export type ShareLinkRecord = {
+  id: string;
+  presentation: string;
+  token: string;
+  label: string | null;
+  has_password: boolean;
+  require_email: boolean;
+  expires_at: string | null;
+  revoked_at: string | null;
+  created_at: string;
+};
+
+/**
+ * Time a viewer spent on one slide during a visit.
+ *
+ * @property slide_index - Zero-based index of the slide.
+ * @property dwell_ms - Milliseconds the slide was shown.
+ */
+export type ShareDwell = {
+  slide_index: number;
+  dwell_ms: number;
+};
+
+/**
+ * Share view (visit) record structure stored in the database.
+ *
+ * @property id - Unique identifier of the visit.
+ * @property share_link - ID of the link the visit came through.
+ * @property viewer_id - Anonymous ID kept in the viewer's browser.
+ * @property viewer_email - Email the viewer entered, or null.
+ * @property user_agent - User agent of the viewer's browser, or null.
+ * @property started_at - ISO 8601 timestamp of when the visit started.
+ * @property last_seen_at - ISO 8601 timestamp of the last reported event.
+ */
+export type ShareViewRecord = {
+  id: string;
+  share_link: string;
+  viewer_id: string;
+  viewer_email: string | null;
+  user_agent: string | null;
+  started_at: string;
+  last_seen_at: string;
+};
+
+/**
+ * A visit together with the slide dwell events it reported.
+ */
+export type ShareViewWithEvents = ShareViewRecord & { events: ShareDwell[] };
+
+type ShareLinkRow = {
+  id: string;
+  presentation: string;
+  token: string;
+  label: string | null;
+  password_hash: string | null;
+  require_email: boolean;
+  expires_at: Date | null;
+  revoked_at: Date | null;
+  created_at: Date;
+};
+
+type ShareViewRow = {
+  id: string;
+  share_link: string;
+  viewer_id: string;
+  viewer_email: string | null;
+  user_agent: string | null;
+  started_at: Date;
+  last_seen_at: Date;
+};
+
+const rowToShareLink = (row: ShareLinkRow | null): ShareLinkRecord | null => {
+  if (!row) return null;
+  return {
+    id: row.id,
+    presentation: row.presentation,
+    token: row.token,
+    label: row.label,
+    has_password: !!row.password_hash,
+    require_email: row.require_email,
+    expires_at: row.expires_at ? row.expires_at.toISOString() : null,
+    revoked_at: row.revoked_at ? row.revoked_at.toISOString() : null,
+    created_at: row.created_at.toISOString(),
+  };
+};
+
+const rowToShareView = (row: ShareViewRow | null): ShareViewRecord | null => {
+  if (!row) return null;
+  return {
+    id: row.id,
+    share_link: row.share_link,
+    viewer_id: row.viewer_id,
+    viewer_email: row.viewer_email,
+    user_agent: row.user_agent,
+    started_at: row.started_at.toISOString(),
+    last_seen_at: row.last_seen_at.toISOString(),
+  };
+};
+
+/**
+ * Creates a share link for a presentation.
+ *
+ * @param owner - ID of the user the presentation must belong to.
+ * @param presentationId - ID of the presentation to share.
+ * @param payload - Link settings. `token` must be unguessable (see
+ *   generateShareToken) and `password_hash` produced by hashPassword.
+ * @returns Promise that resolves to the created link, or null if the
+ *   presentation does not exist or belongs to another user.
+ */
+export const createShareLink = async (
+  owner: string,
+  presentationId: string,
+  payload: {
+    token: string;
+    label: string | null;
+    password_hash: string | null;
+    require_email: boolean;
+    expires_at: Date | null;
+  },
+): Promise<ShareLinkRecord | null> => {
+  const owned = await prisma.presentation.count({
+    where: { id: presentationId, owner },
+  });
+  if (!owned) return null;
+
+  const row = await prisma.shareLink.create({
+    data: {
+      id: uuidv4(),
+      presentation: presentationId,
+      ...payload,
+    },
+  });
+  return rowToShareLink(row);
+};
+
+/**
+ * Lists the share links of a presentation, newest first.
+ *
+ * Revoked and expired links are included so their analytics stay visible.
+ *
+ * @param owner - ID of the user the presentation must belong to.
+ * @param presentationId - ID of the presentation.
+ * @returns Promise that resolves to the links (empty if the presentation
+ *   belongs to another user).
+ */
+export const listShareLinks = async (
+  owner: string,
+  presentationId: string,
+): Promise<ShareLinkRecord[]> => {
+  const rows = await prisma.shareLink.findMany({
+    where: { presentation: presentationId, presentationRef: { owner } },
+    orderBy: { created_at: "desc" },
+  });
+  return rows
+    .map(rowToShareLink)
+    .filter((r): r is ShareLinkRecord => r !== null);
+};
+
+/**
+ * Revokes a share link. The link stops working immediately; its views are
+ * kept.
+ *
+ * @param owner - ID of the user the presentation must belong to.
+ * @param linkId - ID of the link to revoke.
+ * @returns Promise that resolves to the revoked link, or null if it does
+ *   not exist or belongs to another user. Revoking twice keeps the first
+ *   revocation time.
+ */
+export const revokeShareLink = async (
+  owner: string,
+  linkId: string,
+): Promise<ShareLinkRecord | null> => {
+  const row = await prisma.shareLink.findFirst({
+    where: { id: linkId, presentationRef: { owner } },
+  });
+  if (!row) return null;
+  if (row.revoked_at) return rowToShareLink(row);
+
+  const updated = await prisma.shareLink.update({
+    where: { id: linkId },
+    data: { revoked_at: new Date() },
+  });
+  return rowToShareLink(updated);
+};
+
+/**
+ * Lists the visits to a presentation's share links with their events,
+ * newest first.
+ *
+ * @param owner - ID of the user the presentation must belong to.
+ * @param presentationId - ID of the presentation.
+ * @param limit - Maximum number of visits to return.
+ * @returns Promise that resolves to the visits (empty if the presentation
+ *   belongs to another user).
+ */
+export const listShareViews = async (
+  owner: string,
+  presentationId: string,
+  limit = 500,
+): Promise<ShareViewWithEvents[]> => {
+  const rows = await prisma.shareView.findMany({
+    where: {
+      shareLinkRef: {
+        presentation: presentationId,
+        presentationRef: { owner },
+      },
+    },
+    include: {
+      events: { select: { slide_index: true, dwell_ms: true } },
+    },
+    orderBy: { started_at: "desc" },
+    take: limit,
+  });
+  return rows.map(({ events, ...row }) => ({
+    ...rowToShareView(row)!,
+    events,
+  }));
+};
+
+/**
+ * Looks up a share link by its token, for the public viewer.
+ *
+ * Returns revoked and expired links too; callers decide whether the link
+ * still grants access (see getShareLinkStatus).
+ *
+ * @param token - Token from the share URL.
+ * @returns Promise that resolves to the link, its password hash and the ID
+ *   of the presentation's owner, or null if no link has this token.
+ */
+export const getShareLinkByToken = async (
+  token: string,
+): Promise<{
+  link: ShareLinkRecord;
+  password_hash: string | null;
+  owner: string | null;
+} | null> => {
+  const row = await prisma.shareLink.findUnique({
+    where: { token },
+    include: { presentationRef: { select: { owner: true } } },
+  });
+  if (!row) return null;
+  const { presentationRef, ...link } = row;
+  return {
+    link: rowToShareLink(link)!,
+    password_hash: link.password_hash,
+    owner: presentationRef.owner,
+  };
+};
+
+/**
+ * Reserves a password attempt on a share link, before the password is
+ * checked.
+ *
+ * Every attempt counts as a failure until resetSharePasswordFailures clears
+ * the count; the attempt that reaches a multiple of `maxFailures` locks the
+ * link's password (see server/lockout). The count is incremented with a
+ * conditional update on the value just read, so concurrent attempts cannot
+ * all pass before the lock is set; an attempt whose update does not apply
+ * is refused like a locked one.
+ *
+ * @param linkId - ID of the link.
+ * @param policy - Failures allowed before a lock and the lock durations.
+ * @returns Promise that resolves to whether the password may be checked,
+ *   and the ISO 8601 timestamp until which the password is locked: the lock
+ *   refusing the attempt, the lock this attempt set (if it was the last one
+ *   allowed), or null.
+ */
+export const reserveSharePasswordAttempt = async (
+  linkId: string,
+  policy: LockoutPolicy,
+): Promise<{ allowed: boolean; locked_until: string | null }> => {
+  const now = new Date();
+  const row = await prisma.shareLink.findUnique({
+    where: { id: linkId },
+    select: { password_failures: true, password_locked_until: true },
+  });
+  if (!row) return { allowed: false, locked_until: null };
+  if (row.password_locked_until && row.password_locked_until > now) {
+    return {
+      allowed: false,
+      locked_until: row.password_locked_until.toISOString(),
+    };
+  }
+
+  const failures = row.password_failures + 1;
+  const lockedUntil = getLockoutEnd(failures, policy, now);
+  const { count } = await prisma.shareLink.updateMany({
+    where: {
+      id: linkId,
+      password_failures: row.password_failures,
+      OR: [
+        { password_locked_until: null },
+        { password_locked_until: { lte: now } },
+      ],
+    },
+    data: {
+      password_failures: failures,
+      ...(lockedUntil ? { password_locked_until: lockedUntil } : {}),
+    },
+  });
+  if (count === 0) {
+    // Another attempt got in first; retry once it has been answered
+    return {
+      allowed: false,
+      locked_until: new Date(now.getTime() + 1000).toISOString(),
+    };
+  }
+  return { allowed: true, locked_until: lockedUntil?.toISOString() ?? null };
+};
+
+/**
+ * Clears the wrong password count of a share link once the right password
+ * was entered.
+ *
+ * @param linkId - ID of the link.
+ */
+export const resetSharePasswordFailures = async (
+  linkId: string,
+): Promise<void> => {
+  await prisma.shareLink.updateMany({
+    where: { id: linkId, password_failures: { gt: 0 } },
+    data: { password_failures: 0, password_locked_until: null },
+  });
+};
+
+/**
+ * Records a visit through a share link.
+ *
+ * @param linkId - ID of the link that granted access.
+ * @param payload - Who is viewing.
+ * @returns Promise that resolves to the created visit.
+ */
+export const createShareView = async (
+  linkId: string,
+  payload: {
+    viewer_id: string;
+    viewer_email: string | null;
+    user_agent: string | null;
+  },
+): Promise<ShareViewRecord> => {
+  const row = await prisma.shareView.create({
+    data: { id: uuidv4(), share_link: linkId, ...payload },
+  });
+  return rowToShareView(row)!;
+};
+
+/**
+ * Retrieves a visit, for the public viewer reporting events.
+ *
+ * @param viewId - ID of the visit, as returned when access was granted.
+ * @returns Promise that resolves to the visit, or null if it does not exist.
+ */
+export const getShareView = async (
+  viewId: string,
+): Promise<ShareViewRecord | null> => {
+  const row = await prisma.shareView.findUnique({ where: { id: viewId } });
+  return rowToShareView(row);
+};
+
+/**
+ * Records slide dwell events for a visit and updates its last seen time.
+ *
+ * @param viewId - ID of the visit.
+ * @param events - Time spent per slide since the last report.
+ * @returns Promise that resolves once the events are stored.
+ */
+export const recordShareEvents = async (
+  viewId: string,
+  events: ShareDwell[],
+): Promise<void> => {
+  await prisma.$transaction([
+    prisma.shareEvent.createMany({
+      data: events.map((event) => ({
+        id: uuidv4(),
+        view: viewId,
+        slide_index: event.slide_index,
+        dwell_ms: event.dwell_ms,
+      })),
+    }),
+    prisma.shareView.update({
+      where: { id: viewId },
+      data: { last_seen_at: new Date() },
+    }),
+  ]);
+};
@@ -0,0 +1,287 @@
+/**
+ * Database operations for slide revisions.
+ *
+ * A revision is a snapshot of a slide's content taken after a change, tagged
+ * with what made the change (generation, AI edit, autosave, ...). Together
+ * they form the slide's persisted version history, which the editor uses to
+ * show diffs and restore earlier versions.
+ *
+ * Revisions are only recorded when the slide actually changed compared to
+ * its latest revision. Consecutive autosaves within a short window are merged
+ * into one revision so typing does not flood the history, and each slide
+ * keeps at most MAX_REVISIONS_PER_SLIDE revisions.
+ *
+ * Revisions have no owner column of their own; every function takes the
+ * owner's user ID and scopes through the parent presentation.
+ */
+
+import { v4 as uuidv4 } from "uuid";
+import { prisma } from "../db";
+import type { SlideRecord } from "./slides";
+
+/**
+ * What produced a revision.
+ *
+ * - "generation": Slide content generated from its outline
+ * - "ai_edit": AI edit of the slide content (`slide/edit`)
+ * - "ai_edit_html": AI edit of the slide HTML (`slide/edit-html`)
+ * - "autosave": Manual edits saved by the editor
+ * - "import": Slide created from an imported PPTX file
+ * - "restore": An earlier revision was restored
+ * - "key_fact": A key fact of the presentation was changed and the new
+ *   value written into the slide
+ * - "layout_change": The slide was moved to another layout and its content
+ *   migrated
+ * - "regeneration": Slide content generated again from its outline
+ * - "original": State of a slide that had no history yet, recorded right
+ *   before its first tracked change
+ */
+export type SlideRevisionSource =
+  | "generation"
+  | "ai_edit"
+  | "ai_edit_html"
+  | "autosave"
+  | "import"
+  | "restore"
+  | "key_fact"
+  | "layout_change"
+  | "regeneration"
+  | "original";
+
+/**
+ * Slide revision record structure stored in the database.
+ *
+ * @property id - Unique identifier of the revision.
+ * @property presentation - ID of the presentation the slide belongs to.
+ * @property slide_id - ID of the slide.
+ * @property slide_index - Position of the slide when the revision was taken.
+ * @property source - What produced the revision.
+ * @property layout - Layout identifier at the time, or null.
+ * @property content - Slide content at the time. Stored as JSON string in
+ *   DB, parsed to object here.
+ * @property speaker_note - Speaker notes at the time, or null.
+ * @property html_content - HTML content at the time, or null.
+ * @property created_at - ISO 8601 timestamp of the revision.
+ */
+export type SlideRevisionRecord = {
+  id: string;
+  presentation: string;
+  slide_id: string;
+  slide_index: number;
+  source: SlideRevisionSource;
+  layout: string | null;
+  content: Record<string, unknown> | null;
+  speaker_note: string | null;
+  html_content: string | null;
+  created_at: string;
+};
+
+/**
+ * Slide fields a revision is taken from.
+ */
+export type SlideRevisionInput = Pick<
+  SlideRecord,
+  "id" | "slide_index" | "layout" | "content" | "speaker_note" | "html_content"
+>;
+
+/**
+ * Maximum number of revisions kept per slide; older ones are deleted.
+ */
+const MAX_REVISIONS_PER_SLIDE = 50;
+
+/**
+ * Window in milliseconds within which consecutive autosaves of a slide are
+ * merged into a single revision.
+ */
+const AUTOSAVE_COALESCE_MS = 5 * 60000;
+
+const fromJson = <T>(value: unknown, fallback: T): T => {
+  if (value === null || value === undefined) return fallback;
+  if (typeof value === "string") {
+    try {
+      return JSON.parse(value) as T;
+    } catch {
+      return fallback;
+    }
+  }
+  return value as T;
+};
+
+const toJson = <T>(value: T): string | null => {
+  if (value === null || value === undefined) return null;
+  return JSON.stringify(value);
+};
+
+type SlideRevisionRow = {
+  id: string;
+  presentation: string;
+  slide_id: string;
+  slide_index: number;
+  source: string;
+  layout: string | null;
+  content: string | null;
+  speaker_note: string | null;
+  html_content: string | null;
+  created_at: Date;
+};
+
+const rowToRevision = (
+  row: SlideRevisionRow | null,
+): SlideRevisionRecord | null => {
+  if (!row) return null;
+  return {
+    id: row.id,
+    presentation: row.presentation,
+    slide_id: row.slide_id,
+    slide_index: row.slide_index,
+    source: row.source as SlideRevisionSource,
+    layout: row.layout,
+    content: fromJson<Record<string, unknown> | null>(row.content, null),
+    speaker_note: row.speaker_note,
+    html_content: row.html_content,
+    created_at: row.created_at.toISOString(),
+  };
+};
+
+/**
+ * Checks whether a slide differs from its latest revision.
+ */
+const differsFromRevision = (
+  slide: SlideRevisionInput,
+  latest: SlideRevisionRow,
+): boolean =>
+  toJson(slide.content) !== latest.content ||
+  (slide.layout ?? null) !== latest.layout ||
+  (slide.speaker_note || null) !== (latest.speaker_note || null) ||
+  (slide.html_content ?? null) !== latest.html_content;
+
+/**
+ * Records revisions for slides that changed since their latest revision.
+ *
+ * Slides identical to their latest revision are skipped. An autosave that
+ * follows another autosave of the same slide within AUTOSAVE_COALESCE_MS
+ * updates that revision instead of adding one.
+ *
+ * @param owner - ID of the user the presentation must belong to.
+ * @param presentationId - ID of the presentation the slides belong to.
+ * @param slides - Current state of the slides.
+ * @param source - What produced the change.
+ * @returns Promise that resolves to the number of slides whose history
+ *   changed, or null if the presentation does not exist or belongs to
+ *   another user.
+ */
+export const recordSlideRevisions = async (
+  owner: string,
+  presentationId: string,
+  slides: SlideRevisionInput[],
+  source: SlideRevisionSource,
+): Promise<number | null> => {
+  const owned = await prisma.presentation.count({
+    where: { id: presentationId, owner },
+  });
+  if (!owned) return null;
+  if (slides.length === 0) return 0;
+
+  const latestRows = await prisma.slideRevision.findMany({
+    where: {
+      presentation: presentationId,
+      slide_id: { in: slides.map((slide) => slide.id) },
+    },
+    orderBy: [{ slide_id: "asc" }, { created_at: "desc" }],
+    distinct: ["slide_id"],
+  });
+  const latestBySlide = new Map(latestRows.map((row) => [row.slide_id, row]));
+
+  const now = new Date();
+  const created: string[] = [];
+  let changed = 0;
+
+  for (const slide of slides) {
+    const latest = latestBySlide.get(slide.id);
+    if (latest && !differsFromRevision(slide, latest)) continue;
+    changed++;
+
+    const data = {
+      slide_index: slide.slide_index,
+      layout: slide.layout ?? null,
+      content: toJson(slide.content),
+      speaker_note: slide.speaker_note ?? null,
+      html_content: slide.html_content ?? null,
+      created_at: now,
+    };
+    if (
+      source === "autosave" &&
+      latest?.source === "autosave" &&
+      now.getTime() - latest.created_at.getTime() < AUTOSAVE_COALESCE_MS
+    ) {
+      await prisma.slideRevision.update({ where: { id: latest.id }, data });
+      continue;
+    }
+
+    await prisma.slideRevision.create({
+      data: {
+        id: uuidv4(),
+        presentation: presentationId,
+        slide_id: slide.id,
+        source,
+        ...data,
+      },
+    });
+    created.push(slide.id);
+  }
+
+  // Drop the oldest revisions of slides that are over the limit
+  for (const slideId of created) {
+    const stale = await prisma.slideRevision.findMany({
+      where: { slide_id: slideId, presentation: presentationId },
+      orderBy: { created_at: "desc" },
+      skip: MAX_REVISIONS_PER_SLIDE,
+      select: { id: true },
+    });
+    if (stale.length > 0) {
+      await prisma.slideRevision.deleteMany({
+        where: { id: { in: stale.map((row) => row.id) } },
+      });
+    }
+  }
+
+  return changed;
+};
+
+/**
+ * Lists the revisions of a slide, newest first.
+ *
+ * @param owner - ID of the user the slide's presentation must belong to.
+ * @param slideId - ID of the slide.
+ * @returns Promise that resolves to the slide's revisions (empty if the
+ *   slide has none or belongs to another user).
+ */
+export const listSlideRevisions = async (
+  owner: string,
+  slideId: string,
+): Promise<SlideRevisionRecord[]> => {
+  const rows = await prisma.slideRevision.findMany({
+    where: { slide_id: slideId, presentationRef: { owner } },
+    orderBy: { created_at: "desc" },
+  });
+  return rows
+    .map(rowToRevision)
+    .filter((r): r is SlideRevisionRecord => r !== null);
+};
+
+/**
+ * Retrieves a revision by its ID.
+ *
+ * @param owner - ID of the user the slide's presentation must belong to.
+ * @param id - Unique identifier of the revision.
+ * @returns Promise that resolves to the record, or null if not found.
+ */
+export const getSlideRevision = async (
+  owner: string,
+  id: string,
+): Promise<SlideRevisionRecord | null> => {
+  const row = await prisma.slideRevision.findFirst({
+    where: { id, presentationRef: { owner } },
+  });
+  return rowToRevision(row);
+};
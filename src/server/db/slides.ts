@@ -5,8 +5,13 @@
  * Slides belong to presentations and contain content, layout information, and
  * speaker notes. Functions handle JSON serialization/deserialization for content
  * fields and maintain slide ordering within presentations.
+ *
+ * Slides have no owner column of their own; every function takes the owner's
+ * user ID and scopes through the parent presentation.
  */
 
+import type { SlideDocumentSource, SlideSource } from "@/types/slide";
+import type { Prisma } from "@/generated/prisma/client";
 import { prisma } from "../db";
 
 /**
@@ -30,6 +35,12 @@ import { prisma } from "../db";
  *   charts, and other slide elements.
  * @property html_content - Optional pre-rendered HTML content for the slide.
  *   Used for quick previews or exports without re-rendering.
+ * @property sources - Web sources cited by the slide, or null if the slide
+ *   was not researched. Stored as JSON string in DB.
+ * @property document_sources - Uploaded document passages the slide was
+ *   generated from, or null if none were used. Stored as JSON string in DB.
+ * @property version - Incremented on every change to the slide. Writers can
+ *   pass the version they last read to have a stale write rejected.
  * @property created_at - ISO 8601 timestamp string of when the slide was created.
  */
 export type SlideRecord = {
@@ -41,9 +52,26 @@ export type SlideRecord = {
   speaker_note: string | null;
   content: Record<string, unknown> | null;
   html_content: string | null;
+  sources: SlideSource[] | null;
+  document_sources: SlideDocumentSource[] | null;
+  version: number;
   created_at: string;
 };
 
+/**
+ * Slide fields written by callers. The ID, version and creation time are
+ * managed by this module.
+ */
+export type SlideInput = Omit<SlideRecord, "version" | "created_at">;
+
+/**
+ * Outcome of a write made against the version the caller last read.
+ *
+ * - updated: The write was applied
+ * - conflict: The record changed since that version and nothing was written
+ */
+export type VersionedWriteStatus = "updated" | "conflict";
+
 /**
  * Helper function to safely parse JSON strings from database.
  *
@@ -103,6 +131,9 @@ export const mapSlideRow = (
     speaker_note: string | null;
     content: string | null;
     html_content: string | null;
+    sources: string | null;
+    document_sources: string | null;
+    version: number;
     created_at: Date;
   } | null,
 ): SlideRecord | null => {
@@ -116,6 +147,12 @@ export const mapSlideRow = (
     speaker_note: row.speaker_note,
     content: fromJson<Record<string, unknown> | null>(row.content, null),
     html_content: row.html_content,
+    sources: fromJson<SlideSource[] | null>(row.sources, null),
+    document_sources: fromJson<SlideDocumentSource[] | null>(
+      row.document_sources,
+      null,
+    ),
+    version: row.version,
     created_at: row.created_at.toISOString(),
   };
 };
@@ -125,17 +162,20 @@ export const mapSlideRow = (
  *
  * Retrieves all slide records belonging to a presentation, ordered by their
  * slide_index (ascending). This ensures slides are returned in the correct
- * presentation order.
+ * presentation order. Slides of presentations owned by someone else are never
+ * returned.
  *
+ * @param owner - ID of the user the presentation must belong to.
  * @param presentationId - Unique identifier of the presentation to get slides for.
  * @returns Promise that resolves to an array of SlideRecord objects, ordered
  *   by slide_index ascending.
  */
 export const listSlidesByPresentation = async (
+  owner: string,
   presentationId: string,
 ): Promise<SlideRecord[]> => {
   const rows = await prisma.slide.findMany({
-    where: { presentation: presentationId },
+    where: { presentation: presentationId, presentationRef: { owner } },
     orderBy: { slide_index: "asc" },
   });
   return rows.map(mapSlideRow).filter((r): r is SlideRecord => r !== null);
@@ -150,27 +190,52 @@ export const listSlidesByPresentation = async (
  * by deleting any slides with matching IDs across all presentations.
  *
  * This function is typically used when regenerating or completely rebuilding
- * a presentation's slide set.
+ * a presentation's slide set. Slides that keep their ID continue their
+ * version count, and the presentation's version is incremented.
  *
+ * @param owner - ID of the user the presentation must belong to.
  * @param presentationId - Unique identifier of the presentation whose slides
  *   should be replaced.
  * @param newSlides - Array of new slide records to insert. The created_at
  *   timestamp will be set to the current time for all slides.
  * @returns Promise that resolves to an array of SlideRecord objects representing
- *   the newly inserted slides (with created_at timestamps set).
+ *   the newly inserted slides (with created_at timestamps set), or null if
+ *   the presentation does not exist or belongs to another user.
  *
  * @remarks
  * This operation is performed in a transaction to ensure data consistency.
  * If any part fails, the entire operation is rolled back.
  */
 export const replaceSlidesForPresentation = async (
+  owner: string,
   presentationId: string,
-  newSlides: Omit<SlideRecord, "created_at">[],
-): Promise<SlideRecord[]> => {
+  newSlides: SlideInput[],
+): Promise<SlideRecord[] | null> => {
   const now = new Date();
 
+  const owned = await prisma.presentation.count({
+    where: { id: presentationId, owner },
+  });
+  if (!owned) return null;
+
   // Use transaction to ensure atomicity of delete + create
-  await prisma.$transaction(async (tx) => {
+  const versions = await prisma.$transaction(async (tx) => {
+    const previous = await tx.slide.findMany({
+      where: {
+        id: { in: newSlides.map((s) => s.id) },
+        presentationRef: { owner },
+      },
+      select: { id: true, version: true },
+    });
+    const versionById = new Map(
+      previous.map((row) => [row.id, row.version + 1]),
+    );
+
+    await tx.presentation.update({
+      where: { id: presentationId },
+      data: { version: { increment: 1 }, updated_at: now },
+    });
+
     // Delete existing slides for this presentation
     await tx.slide.deleteMany({
       where: { presentation: presentationId },
@@ -181,7 +246,7 @@ export const replaceSlidesForPresentation = async (
     if (newSlides.length > 0) {
       const newSlideIds = newSlides.map((s) => s.id);
       await tx.slide.deleteMany({
-        where: { id: { in: newSlideIds } },
+        where: { id: { in: newSlideIds }, presentationRef: { owner } },
       });
 
       // Insert new slides
@@ -195,15 +260,22 @@ export const replaceSlidesForPresentation = async (
           speaker_note: slide.speaker_note,
           content: toJson(slide.content),
           html_content: slide.html_content,
+          sources: toJson(slide.sources),
+          document_sources: toJson(slide.document_sources),
+          version: versionById.get(slide.id) ?? 1,
           created_at: now,
         })),
       });
     }
+    return versionById;
   });
 
   return newSlides.map((slide) => ({
     ...slide,
     content: slide.content ?? null,
+    sources: slide.sources ?? null,
+    document_sources: slide.document_sources ?? null,
+    version: versions.get(slide.id) ?? 1,
     created_at: now.toISOString(),
   }));
 };
@@ -214,17 +286,34 @@ export const replaceSlidesForPresentation = async (
  * If a slide with the given ID exists, updates it with the provided data.
  * If it doesn't exist, creates a new slide record. This is useful for
  * saving slide edits where the slide may or may not already exist in the
- * database.
+ * database. Updates increment the slide's version without checking it; use
+ * updateSlide for edits made against a version the caller read.
  *
+ * Both the target presentation and, when the slide already exists, its
+ * current presentation must belong to the owner.
+ *
+ * @param owner - ID of the user the presentation must belong to.
  * @param slide - Slide data to upsert. Must include all fields except
  *   created_at (which is set automatically on create, preserved on update).
- * @returns Promise that resolves to the SlideRecord after upsert operation.
+ * @returns Promise that resolves to the SlideRecord after upsert operation,
+ *   or null if the slide or its presentation belongs to another user.
  */
 export const upsertSlide = async (
-  slide: Omit<SlideRecord, "created_at">,
-): Promise<SlideRecord> => {
+  owner: string,
+  slide: SlideInput,
+): Promise<SlideRecord | null> => {
   const now = new Date();
 
+  const [ownsTarget, existing] = await Promise.all([
+    prisma.presentation.count({ where: { id: slide.presentation, owner } }),
+    prisma.slide.findUnique({
+      where: { id: slide.id },
+      select: { presentationRef: { select: { owner: true } } },
+    }),
+  ]);
+  if (!ownsTarget) return null;
+  if (existing && existing.presentationRef.owner !== owner) return null;
+
   const upserted = await prisma.slide.upsert({
     where: { id: slide.id },
     update: {
@@ -235,6 +324,9 @@ export const upsertSlide = async (
       speaker_note: slide.speaker_note,
       content: toJson(slide.content),
       html_content: slide.html_content,
+      sources: toJson(slide.sources),
+      document_sources: toJson(slide.document_sources),
+      version: { increment: 1 },
     },
     create: {
       id: slide.id,
@@ -245,6 +337,8 @@ export const upsertSlide = async (
       speaker_note: slide.speaker_note,
       content: toJson(slide.content),
       html_content: slide.html_content,
+      sources: toJson(slide.sources),
+      document_sources: toJson(slide.document_sources),
       created_at: now,
     },
   });
@@ -256,14 +350,359 @@ export const upsertSlide = async (
  * Retrieves a slide by its ID.
  *
  * Fetches a single slide record from the database using its unique identifier.
- * Returns null if no slide with the given ID exists.
+ * Returns null if no slide with the given ID exists or it belongs to a
+ * presentation owned by someone else.
  *
+ * @param owner - ID of the user the slide's presentation must belong to.
  * @param id - Unique identifier of the slide to retrieve.
  * @returns Promise that resolves to the SlideRecord if found, or null if not found.
  */
-export const getSlideById = async (id: string): Promise<SlideRecord | null> => {
-  const row = await prisma.slide.findUnique({
-    where: { id },
+export const getSlideById = async (
+  owner: string,
+  id: string,
+): Promise<SlideRecord | null> => {
+  const row = await prisma.slide.findFirst({
+    where: { id, presentationRef: { owner } },
   });
   return mapSlideRow(row);
 };
+
+/**
+ * Deletes slides of a presentation by ID.
+ *
+ * Slides of other presentations are left alone even if their IDs are
+ * listed.
+ *
+ * @param owner - ID of the user the presentation must belong to.
+ * @param presentationId - Unique identifier of the presentation.
+ * @param ids - IDs of the slides to delete.
+ * @returns Promise that resolves to the number of deleted slides.
+ */
+export const deleteSlides = async (
+  owner: string,
+  presentationId: string,
+  ids: string[],
+): Promise<number> => {
+  if (ids.length === 0) return 0;
+  const { count } = await prisma.slide.deleteMany({
+    where: {
+      id: { in: ids },
+      presentation: presentationId,
+      presentationRef: { owner },
+    },
+  });
+  return count;
+};
+
+/**
+ * Slide fields that can be changed with updateSlide.
+ */
+export type SlideUpdate = Partial<
+  Pick<
+    SlideRecord,
+    | "layout_group"
+    | "layout"
+    | "slide_index"
+    | "speaker_note"
+    | "content"
+    | "html_content"
+    | "sources"
+    | "document_sources"
+  >
+>;
+
+/**
+ * Converts slide fields to change into update data, leaving out the fields
+ * that are not provided.
+ */
+const toSlideUpdateData = (data: SlideUpdate) => ({
+  layout_group: data.layout_group,
+  layout: data.layout,
+  slide_index: data.slide_index,
+  speaker_note: data.speaker_note,
+  content: data.content !== undefined ? toJson(data.content) : undefined,
+  html_content: data.html_content,
+  sources: data.sources !== undefined ? toJson(data.sources) : undefined,
+  document_sources:
+    data.document_sources !== undefined
+      ? toJson(data.document_sources)
+      : undefined,
+});
+
+/**
+ * Updates a slide if it is still at the version the caller read.
+ *
+ * Only provided fields are changed. The version check and the write are a
+ * single statement, so of two writers that read the same version only the
+ * first succeeds.
+ *
+ * @param owner - ID of the user the slide's presentation must belong to.
+ * @param id - Unique identifier of the slide.
+ * @param expectedVersion - Version the caller's change is based on.
+ * @param data - Fields to change.
+ * @returns Promise that resolves to "updated", "conflict" if the slide is at
+ *   another version, or null if the slide does not exist or belongs to
+ *   another user.
+ */
+export const updateSlide = async (
+  owner: string,
+  id: string,
+  expectedVersion: number,
+  data: SlideUpdate,
+): Promise<VersionedWriteStatus | null> => {
+  const { count } = await prisma.slide.updateMany({
+    where: { id, version: expectedVersion, presentationRef: { owner } },
+    data: { ...toSlideUpdateData(data), version: { increment: 1 } },
+  });
+  if (count > 0) return "updated";
+  const exists = await prisma.slide.count({
+    where: { id, presentationRef: { owner } },
+  });
+  return exists ? "conflict" : null;
+};
+
+/**
+ * Increments a presentation's version inside a transaction, if it is at the
+ * expected version. Every change to the slide list goes through this first,
+ * which also locks the presentation row until the transaction ends.
+ *
+ * @param tx - Transaction client.
+ * @param owner - ID of the user the presentation must belong to.
+ * @param presentationId - Unique identifier of the presentation.
+ * @param expectedVersion - Version the caller's change is based on.
+ * @param nSlidesChange - Number of slides added (or removed, if negative).
+ * @returns "updated", "conflict", or null if the presentation does not
+ *   exist or belongs to another user.
+ */
+const claimPresentationVersion = async (
+  tx: Prisma.TransactionClient,
+  owner: string,
+  presentationId: string,
+  expectedVersion: number,
+  nSlidesChange = 0,
+): Promise<VersionedWriteStatus | null> => {
+  const { count } = await tx.presentation.updateMany({
+    where: { id: presentationId, owner, version: expectedVersion },
+    data: {
+      version: { increment: 1 },
+      n_slides: { increment: nSlidesChange },
+      updated_at: new Date(),
+    },
+  });
+  if (count > 0) return "updated";
+  const exists = await tx.presentation.count({
+    where: { id: presentationId, owner },
+  });
+  return exists ? "conflict" : null;
+};
+
+/**
+ * Moves a presentation to another template: sets its layout and structure
+ * and updates its slides, all or nothing.
+ *
+ * @param owner - ID of the user the presentation must belong to.
+ * @param presentationId - Unique identifier of the presentation.
+ * @param expectedVersion - Presentation version the change is based on.
+ * @param template - The presentation's new `layout` and `structure`.
+ * @param slides - Changes to the presentation's slides, each with the slide
+ *   version it is based on.
+ * @returns Promise that resolves to "updated", "conflict" if the
+ *   presentation or any of the slides is at another version (nothing is
+ *   written), or null if the presentation does not exist or belongs to
+ *   another user.
+ */
+export const applyPresentationTemplate = async (
+  owner: string,
+  presentationId: string,
+  expectedVersion: number,
+  template: {
+    layout: Record<string, unknown>;
+    structure: Record<string, unknown>;
+  },
+  slides: { id: string; version: number; data: SlideUpdate }[],
+): Promise<VersionedWriteStatus | null> => {
+  // Thrown to roll the transaction back when a slide changed
+  const conflict = new Error("A slide changed since it was read");
+  try {
+    return await prisma.$transaction(async (tx) => {
+      const { count } = await tx.presentation.updateMany({
+        where: { id: presentationId, owner, version: expectedVersion },
+        data: {
+          layout: toJson(template.layout),
+          structure: toJson(template.structure),
+          version: { increment: 1 },
+          updated_at: new Date(),
+        },
+      });
+      if (count === 0) {
+        const exists = await tx.presentation.count({
+          where: { id: presentationId, owner },
+        });
+        return exists ? "conflict" : null;
+      }
+
+      for (const slide of slides) {
+        const { count: updated } = await tx.slide.updateMany({
+          where: {
+            id: slide.id,
+            presentation: presentationId,
+            version: slide.version,
+          },
+          data: { ...toSlideUpdateData(slide.data), version: { increment: 1 } },
+        });
+        if (updated === 0) throw conflict;
+      }
+      return "updated";
+    });
+  } catch (error) {
+    if (error === conflict) return "conflict";
+    throw error;
+  }
+};
+
+/**
+ * Inserts a new slide into a presentation at a position.
+ *
+ * Slides at and after the position move down by one. The position is
+ * clamped to the end of the presentation.
+ *
+ * @param owner - ID of the user the presentation must belong to.
+ * @param expectedVersion - Presentation version the insert is based on.
+ * @param slide - Slide to insert; `slide_index` is its position.
+ * @returns Promise that resolves to "updated", "conflict" if the
+ *   presentation is at another version or a slide with the ID exists, or
+ *   null if the presentation does not exist or belongs to another user.
+ */
+export const insertSlide = async (
+  owner: string,
+  expectedVersion: number,
+  slide: SlideInput,
+): Promise<VersionedWriteStatus | null> =>
+  prisma.$transaction(async (tx) => {
+    const taken = await tx.slide.count({ where: { id: slide.id } });
+    const status = taken
+      ? "conflict"
+      : await claimPresentationVersion(
+          tx,
+          owner,
+          slide.presentation,
+          expectedVersion,
+          1,
+        );
+    if (status !== "updated") return status;
+
+    const count = await tx.slide.count({
+      where: { presentation: slide.presentation },
+    });
+    const index = Math.max(0, Math.min(slide.slide_index, count));
+    await tx.slide.updateMany({
+      where: { presentation: slide.presentation, slide_index: { gte: index } },
+      data: { slide_index: { increment: 1 } },
+    });
+    await tx.slide.create({
+      data: {
+        id: slide.id,
+        presentation: slide.presentation,
+        layout_group: slide.layout_group,
+        layout: slide.layout,
+        slide_index: index,
+        speaker_note: slide.speaker_note,
+        content: toJson(slide.content),
+        html_content: slide.html_content,
+        sources: toJson(slide.sources),
+        document_sources: toJson(slide.document_sources),
+      },
+    });
+    return status;
+  });
+
+/**
+ * Removes a slide from a presentation.
+ *
+ * Slides after it move up by one. The slide's revision history is kept.
+ *
+ * @param owner - ID of the user the presentation must belong to.
+ * @param presentationId - Unique identifier of the presentation.
+ * @param expectedVersion - Presentation version the removal is based on.
+ * @param slideId - Unique identifier of the slide to remove.
+ * @returns Promise that resolves to "updated", "conflict" if the
+ *   presentation is at another version, or null if the presentation or
+ *   slide does not exist or belongs to another user.
+ */
+export const removeSlide = async (
+  owner: string,
+  presentationId: string,
+  expectedVersion: number,
+  slideId: string,
+): Promise<VersionedWriteStatus | null> =>
+  prisma.$transaction(async (tx) => {
+    const slide = await tx.slide.findFirst({
+      where: { id: slideId, presentation: presentationId },
+      select: { slide_index: true },
+    });
+    if (!slide) return null;
+    const status = await claimPresentationVersion(
+      tx,
+      owner,
+      presentationId,
+      expectedVersion,
+      -1,
+    );
+    if (status !== "updated") return status;
+
+    await tx.slide.delete({ where: { id: slideId } });
+    await tx.slide.updateMany({
+      where: {
+        presentation: presentationId,
+        slide_index: { gt: slide.slide_index },
+      },
+      data: { slide_index: { decrement: 1 } },
+    });
+    return status;
+  });
+
+/**
+ * Puts a presentation's slides in a new order.
+ *
+ * @param owner - ID of the user the presentation must belong to.
+ * @param presentationId - Unique identifier of the presentation.
+ * @param expectedVersion - Presentation version the order is based on.
+ * @param order - IDs of all the presentation's slides in their new order.
+ * @returns Promise that resolves to "updated", "conflict" if the
+ *   presentation is at another version or `order` does not list exactly its
+ *   slides, or null if the presentation does not exist or belongs to
+ *   another user.
+ */
+export const reorderSlides = async (
+  owner: string,
+  presentationId: string,
+  expectedVersion: number,
+  order: string[],
+): Promise<VersionedWriteStatus | null> =>
+  prisma.$transaction(async (tx) => {
+    const rows = await tx.slide.findMany({
+      where: { presentation: presentationId },
+      select: { id: true },
+    });
+    const ids = new Set(rows.map((row) => row.id));
+    const listsAll =
+      order.length === ids.size &&
+      new Set(order).size === ids.size &&
+      order.every((id) => ids.has(id));
+    const status = listsAll
+      ? await claimPresentationVersion(
+          tx,
+          owner,
+          presentationId,
+          expectedVersion,
+        )
+      : await tx.presentation
+          .count({ where: { id: presentationId, owner } })
+          .then((exists) => (exists ? ("conflict" as const) : null));
+    if (status !== "updated") return status;
+
+    for (const [index, id] of order.entries()) {
+      await tx.slide.update({ where: { id }, data: { slide_index: index } });
+    }
+    return status;
+  });
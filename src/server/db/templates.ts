@@ -4,6 +4,10 @@
  * This module provides functions for managing presentation templates and
  * custom layout code. Templates define reusable slide structures, while
  * layout codes store custom React/TypeScript code for dynamic slide layouts.
+ *
+ * Templates are scoped by their own owner column. Layout codes are scoped
+ * through the presentation they are stored under, which must belong to the
+ * same user.
  */
 
 import { prisma } from "../db";
@@ -16,6 +20,8 @@ import { prisma } from "../db";
  * consistent styling and structure.
  *
  * @property id - Unique identifier for the template.
+ * @property owner - ID of the user that owns the template (null for unclaimed
+ *   legacy rows).
  * @property name - Display name of the template (e.g., "Minimal Investor",
  *   "Data-Driven").
  * @property description - Optional description explaining the template's
@@ -28,6 +34,7 @@ import { prisma } from "../db";
  */
 export type TemplateRecord = {
   id: string;
+  owner: string | null;
   name: string;
   description: string | null;
   ordered: boolean;
@@ -85,6 +92,7 @@ const toJson = <T>(value: T): string | null => {
 const rowToTemplate = (
   row: {
     id: string;
+    owner: string | null;
     name: string;
     description: string | null;
     ordered: boolean;
@@ -95,6 +103,7 @@ const rowToTemplate = (
   if (!row) return null;
   return {
     id: row.id,
+    owner: row.owner,
     name: row.name,
     description: row.description,
     ordered: row.ordered,
@@ -129,10 +138,17 @@ const rowToLayoutCode = (
 };
 
 export const upsertTemplate = async (
-  payload: Omit<TemplateRecord, "created_at">,
-): Promise<TemplateRecord> => {
+  owner: string,
+  payload: Omit<TemplateRecord, "owner" | "created_at">,
+): Promise<TemplateRecord | null> => {
   const now = new Date();
 
+  const existing = await prisma.template.findUnique({
+    where: { id: payload.id },
+    select: { owner: true },
+  });
+  if (existing && existing.owner !== owner) return null;
+
   const upserted = await prisma.template.upsert({
     where: { id: payload.id },
     update: {
@@ -143,6 +159,7 @@ export const upsertTemplate = async (
     },
     create: {
       id: payload.id,
+      owner,
       name: payload.name,
       description: payload.description,
       ordered: payload.ordered,
@@ -155,36 +172,65 @@ export const upsertTemplate = async (
 };
 
 export const getTemplateById = async (
+  owner: string,
   id: string,
 ): Promise<TemplateRecord | null> => {
-  const row = await prisma.template.findUnique({
-    where: { id },
+  const row = await prisma.template.findFirst({
+    where: { id, owner },
   });
   return rowToTemplate(row);
 };
 
-export const listTemplates = async (): Promise<TemplateRecord[]> => {
-  const rows = await prisma.template.findMany();
+export const listTemplates = async (
+  owner: string,
+): Promise<TemplateRecord[]> => {
+  const rows = await prisma.template.findMany({
+    where: { owner },
+  });
   return rows.map(rowToTemplate).filter((r): r is TemplateRecord => r !== null);
 };
 
-export const deleteTemplateById = async (id: string): Promise<boolean> => {
+export const deleteTemplateById = async (
+  owner: string,
+  id: string,
+): Promise<boolean> => {
   try {
-    await prisma.template.delete({
-      where: { id },
+    const { count } = await prisma.template.deleteMany({
+      where: { id, owner },
     });
-    return true;
+    return count > 0;
   } catch {
     return false;
   }
 };
 
 export const upsertLayoutCodes = async (
+  owner: string,
   layouts: Omit<LayoutCodeRecord, "created_at" | "updated_at">[],
-): Promise<LayoutCodeRecord[]> => {
+): Promise<LayoutCodeRecord[] | null> => {
   const now = new Date();
   const results: LayoutCodeRecord[] = [];
 
+  // Every target presentation, and the current presentation of any layout
+  // being overwritten, must belong to the owner
+  const presentationIds = Array.from(
+    new Set(layouts.map((layout) => layout.presentation)),
+  );
+  const [ownedCount, foreignLayouts] = await Promise.all([
+    prisma.presentation.count({
+      where: { id: { in: presentationIds }, owner },
+    }),
+    prisma.presentationLayoutCode.count({
+      where: {
+        id: { in: layouts.map((layout) => layout.id) },
+        NOT: { presentationRef: { owner } },
+      },
+    }),
+  ]);
+  if (ownedCount !== presentationIds.length || foreignLayouts > 0) {
+    return null;
+  }
+
   for (const layout of layouts) {
     const upserted = await prisma.presentationLayoutCode.upsert({
       where: { id: layout.id },
@@ -215,10 +261,11 @@ export const upsertLayoutCodes = async (
 };
 
 export const listLayoutCodesByPresentation = async (
+  owner: string,
   presentationId: string,
 ): Promise<LayoutCodeRecord[]> => {
   const rows = await prisma.presentationLayoutCode.findMany({
-    where: { presentation: presentationId },
+    where: { presentation: presentationId, presentationRef: { owner } },
   });
   return rows
     .map(rowToLayoutCode)
@@ -226,11 +273,12 @@ export const listLayoutCodesByPresentation = async (
 };
 
 export const deleteLayoutsByPresentation = async (
+  owner: string,
   presentationId: string,
 ): Promise<boolean> => {
   try {
     await prisma.presentationLayoutCode.deleteMany({
-      where: { presentation: presentationId },
+      where: { presentation: presentationId, presentationRef: { owner } },
     });
     return true;
   } catch {
@@ -0,0 +1,216 @@
+/**
+ * Database operations for users.
+ *
+ * This module provides functions for creating and looking up user accounts.
+ * Users own presentations, templates, image assets and webhook subscriptions;
+ * every other module in `src/server/db` scopes its queries by the owning
+ * user's ID. Local accounts store a password hash, while accounts from an
+ * external provider (Supabase) are mirrored here on first sign-in.
+ */
+
+import { prisma } from "../db";
+
+/**
+ * Authentication provider that manages a user's credentials.
+ *
+ * - "local": Email/password account stored in this database
+ * - "supabase": Account managed by Supabase Auth
+ */
+export type AuthProviderName = "local" | "supabase";
+
+/**
+ * User record structure stored in the database.
+ *
+ * The password hash is deliberately not part of this record so it never
+ * leaks into API responses; use getPasswordHashByEmail to verify credentials.
+ *
+ * @property id - Unique identifier for the user.
+ * @property email - Email address used to sign in (lowercased).
+ * @property name - Optional display name.
+ * @property auth_provider - Provider that authenticates the user.
+ * @property created_at - ISO 8601 timestamp string of when the user was created.
+ */
+export type UserRecord = {
+  id: string;
+  email: string;
+  name: string | null;
+  auth_provider: AuthProviderName;
+  created_at: string;
+};
+
+/**
+ * Converts a database row to a UserRecord.
+ *
+ * @param row - Database row from Prisma, or null if not found.
+ * @returns UserRecord object, or null if row is null.
+ */
+const rowToUser = (
+  row: {
+    id: string;
+    email: string;
+    name: string | null;
+    auth_provider: string;
+    created_at: Date;
+  } | null,
+): UserRecord | null => {
+  if (!row) return null;
+  return {
+    id: row.id,
+    email: row.email,
+    name: row.name,
+    auth_provider: row.auth_provider as AuthProviderName,
+    created_at: row.created_at.toISOString(),
+  };
+};
+
+/**
+ * Normalizes an email address for storage and lookup.
+ *
+ * @param email - Email address as entered by the user.
+ * @returns Trimmed, lowercased email address.
+ */
+const normalizeEmail = (email: string): string => email.trim().toLowerCase();
+
+/**
+ * Creates a new user.
+ *
+ * @param payload - User data. `password_hash` is required for local accounts
+ *   and null for accounts managed by an external provider.
+ * @returns Promise that resolves to the created UserRecord.
+ * @throws {Error} Throws if a user with the same email already exists.
+ */
+export const createUser = async (payload: {
+  id: string;
+  email: string;
+  name: string | null;
+  password_hash: string | null;
+  auth_provider: AuthProviderName;
+}): Promise<UserRecord> => {
+  const created = await prisma.user.create({
+    data: {
+      id: payload.id,
+      email: normalizeEmail(payload.email),
+      name: payload.name,
+      password_hash: payload.password_hash,
+      auth_provider: payload.auth_provider,
+      created_at: new Date(),
+    },
+  });
+  return rowToUser(created)!;
+};
+
+/**
+ * Retrieves a user by ID.
+ *
+ * @param id - Unique identifier of the user.
+ * @returns Promise that resolves to the UserRecord if found, or null.
+ */
+export const getUserById = async (id: string): Promise<UserRecord | null> => {
+  const row = await prisma.user.findUnique({ where: { id } });
+  return rowToUser(row);
+};
+
+/**
+ * Retrieves a user by email address.
+ *
+ * @param email - Email address (matched case-insensitively).
+ * @returns Promise that resolves to the UserRecord if found, or null.
+ */
+export const getUserByEmail = async (
+  email: string,
+): Promise<UserRecord | null> => {
+  const row = await prisma.user.findUnique({
+    where: { email: normalizeEmail(email) },
+  });
+  return rowToUser(row);
+};
+
+/**
+ * Retrieves a local user together with their password hash.
+ *
+ * Only used to verify credentials at sign-in.
+ *
+ * @param email - Email address (matched case-insensitively).
+ * @returns Promise that resolves to the user and hash, or null if there is no
+ *   local account with a password for this email.
+ */
+export const getPasswordHashByEmail = async (
+  email: string,
+): Promise<{ user: UserRecord; password_hash: string } | null> => {
+  const row = await prisma.user.findUnique({
+    where: { email: normalizeEmail(email) },
+  });
+  if (!row || !row.password_hash) return null;
+  return { user: rowToUser(row)!, password_hash: row.password_hash };
+};
+
+/**
+ * Creates or updates the mirror of an externally authenticated user.
+ *
+ * Called on every authenticated request when Supabase Auth is the provider,
+ * so the user row exists before any owned record references it.
+ *
+ * @param payload - Identity reported by the external provider.
+ * @returns Promise that resolves to the stored UserRecord.
+ */
+export const upsertExternalUser = async (payload: {
+  id: string;
+  email: string;
+  name: string | null;
+  auth_provider: AuthProviderName;
+}): Promise<UserRecord> => {
+  const upserted = await prisma.user.upsert({
+    where: { id: payload.id },
+    update: {
+      email: normalizeEmail(payload.email),
+      name: payload.name,
+    },
+    create: {
+      id: payload.id,
+      email: normalizeEmail(payload.email),
+      name: payload.name,
+      password_hash: null,
+      auth_provider: payload.auth_provider,
+      created_at: new Date(),
+    },
+  });
+  return rowToUser(upserted)!;
+};
+
+/**
+ * Counts registered users.
+ *
+ * @returns Promise that resolves to the number of users.
+ */
+export const countUsers = async (): Promise<number> => prisma.user.count();
+
+/**
+ * Assigns every record without an owner to the given user.
+ *
+ * Presentations, templates, images and webhook subscriptions created before
+ * accounts existed have no owner and are invisible to everyone. The first
+ * account created on an instance claims them so existing data is not lost.
+ *
+ * @param userId - ID of the user that takes ownership.
+ * @returns Promise that resolves once all legacy records are assigned.
+ */
+export const claimUnownedRecords = async (userId: string): Promise<void> => {
+  await prisma.$transaction([
+    prisma.presentation.updateMany({
+      where: { owner: null },
+      data: { owner: userId },
+    }),
+    prisma.template.updateMany({
+      where: { owner: null },
+      data: { owner: userId },
+    }),
+    prisma.imageAsset.updateMany({
+      where: { owner: null },
+      data: { owner: userId },
+    }),
+    prisma.webhookSubscription.updateMany({
+      where: { owner: null },
+      data: { owner: userId },
+    }),
+  ]);
+};
@@ -4,6 +4,12 @@
  * This module provides functions for managing webhook subscriptions that allow
  * external systems to receive notifications about events in the application.
  * Webhooks are HTTP callbacks that are triggered when specific events occur.
+ *
+ * Subscriptions belong to a user and only receive that user's events.
+ * Delivery rows are written by the dispatcher for subscriptions it already
+ * resolved for an owner, and are read back through the owning subscription.
+ * Pending deliveries double as the retry queue: the delivery job lists the
+ * due ones and claims each before attempting it.
  */
 
 import { prisma } from "../db";
@@ -17,18 +23,64 @@ import { v4 as uuidv4 } from "uuid";
  * same URL with different event types.
  *
  * @property id - Unique identifier for the webhook subscription.
+ * @property owner - ID of the user that owns the subscription (null for
+ *   unclaimed legacy rows).
  * @property url - The callback URL where webhook events should be sent via
  *   HTTP POST requests.
  * @property events - Array of event type strings that this subscription
- *   listens for (e.g., ["presentation.created", "slide.updated"]).
+ *   listens for (e.g., ["presentation.created", "slides.completed"]).
+ * @property secret - Shared secret used to sign payloads sent to this
+ *   subscription. Null for subscriptions created before signing existed.
  * @property created_at - ISO 8601 timestamp string of when the subscription
  *   was created.
  */
 export type WebhookSubscriptionRecord = {
   id: string;
+  owner: string | null;
   url: string;
   events: string[];
+  secret: string | null;
+  created_at: string;
+};
+
+/**
+ * Delivery state of a single webhook event.
+ *
+ * - "pending": Queued or waiting for its next attempt
+ * - "succeeded": The subscriber answered with a 2xx status
+ * - "failed": All attempts were exhausted without a 2xx status
+ */
+export type WebhookDeliveryStatus = "pending" | "succeeded" | "failed";
+
+/**
+ * Webhook delivery log record stored in the database.
+ *
+ * @property id - Unique identifier of the delivery. Sent to the subscriber
+ *   so it can deduplicate retried deliveries.
+ * @property subscription - ID of the subscription the event was sent to.
+ * @property event - Event type that was delivered.
+ * @property payload - Parsed request body that was sent.
+ * @property status - Current delivery state.
+ * @property attempts - Number of HTTP attempts made so far.
+ * @property response_status - HTTP status of the last attempt, if any.
+ * @property last_error - Error message of the last failed attempt, if any.
+ * @property next_attempt_at - ISO 8601 timestamp of when the next attempt is
+ *   due, or null once the delivery succeeded or failed.
+ * @property created_at - ISO 8601 timestamp of when the delivery was queued.
+ * @property updated_at - ISO 8601 timestamp of the last attempt.
+ */
+export type WebhookDeliveryRecord = {
+  id: string;
+  subscription: string;
+  event: string;
+  payload: Record<string, unknown>;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  response_status: number | null;
+  last_error: string | null;
+  next_attempt_at: string | null;
   created_at: string;
+  updated_at: string;
 };
 
 const fromJson = <T>(value: unknown, fallback: T): T => {
@@ -51,23 +103,62 @@ const toJson = <T>(value: T): string | null => {
 const rowToSubscription = (
   row: {
     id: string;
+    owner: string | null;
     url: string;
     events: string | null;
+    secret: string | null;
     created_at: Date;
   } | null,
 ): WebhookSubscriptionRecord | null => {
   if (!row) return null;
   return {
     id: row.id,
+    owner: row.owner,
     url: row.url,
     events: fromJson<string[]>(row.events, []),
+    secret: row.secret,
     created_at: row.created_at.toISOString(),
   };
 };
 
+const rowToDelivery = (
+  row: {
+    id: string;
+    subscription: string;
+    event: string;
+    payload: string;
+    status: string;
+    attempts: number;
+    response_status: number | null;
+    last_error: string | null;
+    next_attempt_at: Date | null;
+    created_at: Date;
+    updated_at: Date;
+  } | null,
+): WebhookDeliveryRecord | null => {
+  if (!row) return null;
+  return {
+    id: row.id,
+    subscription: row.subscription,
+    event: row.event,
+    payload: fromJson<Record<string, unknown>>(row.payload, {}),
+    status: row.status as WebhookDeliveryStatus,
+    attempts: row.attempts,
+    response_status: row.response_status,
+    last_error: row.last_error,
+    next_attempt_at: row.next_attempt_at
+      ? row.next_attempt_at.toISOString()
+      : null,
+    created_at: row.created_at.toISOString(),
+    updated_at: row.updated_at.toISOString(),
+  };
+};
+
 export const createSubscription = async (
+  owner: string,
   url: string,
   events: string[],
+  secret: string | null = null,
 ): Promise<WebhookSubscriptionRecord> => {
   const id = uuidv4();
   const now = new Date();
@@ -75,8 +166,10 @@ export const createSubscription = async (
   const created = await prisma.webhookSubscription.create({
     data: {
       id,
+      owner,
       url,
       events: toJson(events),
+      secret,
       created_at: now,
     },
   });
@@ -84,10 +177,13 @@ export const createSubscription = async (
   return rowToSubscription(created)!;
 };
 
-export const deleteSubscription = async (url: string): Promise<boolean> => {
+export const deleteSubscription = async (
+  owner: string,
+  url: string,
+): Promise<boolean> => {
   try {
     await prisma.webhookSubscription.deleteMany({
-      where: { url },
+      where: { owner, url },
     });
     return true;
   } catch {
@@ -95,11 +191,187 @@ export const deleteSubscription = async (url: string): Promise<boolean> => {
   }
 };
 
-export const listSubscriptions = async (): Promise<
-  WebhookSubscriptionRecord[]
-> => {
-  const rows = await prisma.webhookSubscription.findMany();
+export const listSubscriptions = async (
+  owner: string,
+): Promise<WebhookSubscriptionRecord[]> => {
+  const rows = await prisma.webhookSubscription.findMany({
+    where: { owner },
+  });
   return rows
     .map(rowToSubscription)
     .filter((r): r is WebhookSubscriptionRecord => r !== null);
 };
+
+/**
+ * Lists a user's subscriptions that should receive a given event.
+ *
+ * A subscription matches when its `events` array contains the event type
+ * or the "*" wildcard.
+ *
+ * @param owner - ID of the user whose resource triggered the event.
+ * @param event - Event type being dispatched (e.g., "slides.completed").
+ * @returns Promise that resolves to the matching subscriptions.
+ */
+export const listSubscriptionsForEvent = async (
+  owner: string,
+  event: string,
+): Promise<WebhookSubscriptionRecord[]> => {
+  const subscriptions = await listSubscriptions(owner);
+  return subscriptions.filter(
+    (subscription) =>
+      subscription.events.includes(event) || subscription.events.includes("*"),
+  );
+};
+
+/**
+ * Inserts a pending delivery log entry before the first HTTP attempt. The
+ * delivery is due right away.
+ *
+ * @param payload - Delivery data. `id` should match the delivery ID sent to
+ *   the subscriber.
+ * @returns Promise that resolves to the created WebhookDeliveryRecord.
+ */
+export const createDelivery = async (payload: {
+  id: string;
+  subscription: string;
+  event: string;
+  payload: Record<string, unknown>;
+}): Promise<WebhookDeliveryRecord> => {
+  const now = new Date();
+
+  const created = await prisma.webhookDelivery.create({
+    data: {
+      id: payload.id,
+      subscription: payload.subscription,
+      event: payload.event,
+      payload: toJson(payload.payload) ?? "{}",
+      status: "pending",
+      attempts: 0,
+      next_attempt_at: now,
+      created_at: now,
+      updated_at: now,
+    },
+  });
+
+  return rowToDelivery(created)!;
+};
+
+/**
+ * Claims a due delivery for one attempt.
+ *
+ * Moves `next_attempt_at` past the attempt, so the delivery is not claimed
+ * again while the attempt runs; if the process dies mid-attempt, the
+ * delivery becomes due again once the claim runs out.
+ *
+ * @param id - Unique identifier of the delivery.
+ * @param claimMs - How long the claim lasts, in milliseconds.
+ * @returns Promise that resolves to true if this caller claimed the
+ *   delivery, false if it is not pending, not due or claimed by another.
+ */
+export const claimDelivery = async (
+  id: string,
+  claimMs: number,
+): Promise<boolean> => {
+  const now = new Date();
+  const { count } = await prisma.webhookDelivery.updateMany({
+    where: { id, status: "pending", next_attempt_at: { lte: now } },
+    data: { next_attempt_at: new Date(now.getTime() + claimMs) },
+  });
+  return count > 0;
+};
+
+/**
+ * Lists pending deliveries whose next attempt is due, oldest first, with
+ * the subscription each goes to.
+ *
+ * @param limit - Maximum number of deliveries to return.
+ * @returns Promise that resolves to the due deliveries.
+ */
+export const listDueDeliveries = async (
+  limit: number,
+): Promise<
+  { delivery: WebhookDeliveryRecord; subscription: WebhookSubscriptionRecord }[]
+> => {
+  const rows = await prisma.webhookDelivery.findMany({
+    where: { status: "pending", next_attempt_at: { lte: new Date() } },
+    include: { subscriptionRef: true },
+    orderBy: { next_attempt_at: "asc" },
+    take: Math.max(1, limit),
+  });
+  return rows.map(({ subscriptionRef, ...row }) => ({
+    delivery: rowToDelivery(row)!,
+    subscription: rowToSubscription(subscriptionRef)!,
+  }));
+};
+
+/**
+ * Records the outcome of a delivery attempt.
+ *
+ * @param id - Unique identifier of the delivery.
+ * @param data - Fields to update. Undefined values are left unchanged.
+ * @returns Promise that resolves to the updated record, or null if the
+ *   delivery no longer exists (e.g., its subscription was deleted).
+ */
+export const updateDelivery = async (
+  id: string,
+  data: Partial<
+    Pick<
+      WebhookDeliveryRecord,
+      | "status"
+      | "attempts"
+      | "response_status"
+      | "last_error"
+      | "next_attempt_at"
+    >
+  >,
+): Promise<WebhookDeliveryRecord | null> => {
+  try {
+    const updated = await prisma.webhookDelivery.update({
+      where: { id },
+      data: {
+        status: data.status,
+        attempts: data.attempts,
+        response_status: data.response_status,
+        last_error: data.last_error,
+        next_attempt_at:
+          data.next_attempt_at === undefined
+            ? undefined
+            : data.next_attempt_at && new Date(data.next_attempt_at),
+        updated_at: new Date(),
+      },
+    });
+    return rowToDelivery(updated);
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Lists the most recent deliveries to a user's subscriptions, newest first.
+ *
+ * @param options.owner - ID of the user whose subscriptions are inspected.
+ * @param options.subscriptionId - Optional subscription ID to filter by.
+ * @param options.limit - Maximum number of deliveries to return.
+ * @returns Promise that resolves to an array of WebhookDeliveryRecord objects.
+ */
+export const listDeliveries = async ({
+  owner,
+  subscriptionId,
+  limit,
+}: {
+  owner: string;
+  subscriptionId?: string | null;
+  limit: number;
+}): Promise<WebhookDeliveryRecord[]> => {
+  const rows = await prisma.webhookDelivery.findMany({
+    where: {
+      subscriptionRef: { owner },
+      ...(subscriptionId ? { subscription: subscriptionId } : {}),
+    },
+    orderBy: { created_at: "desc" },
+    take: Math.max(1, limit),
+  });
+  return rows
+    .map(rowToDelivery)
+    .filter((r): r is WebhookDeliveryRecord => r !== null);
+};
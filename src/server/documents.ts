@@ -19,6 +19,7 @@ import {
   parseSupabaseStoragePath,
   uploadSupabaseTextFile,
 } from "@/server/supabase-storage";
+import { joinPagesWithMarkers } from "@/utils/document-markers";
 
 /**
  * Resolves the file name from a file path.
@@ -155,11 +156,11 @@ export const decomposeDocuments = async (
         const buffer = await readFileBuffer(filePath);
         try {
           // unpdf is optimized for serverless environments (no worker required)
-          const { text: extractedText } = await extractText(
-            new Uint8Array(buffer),
-            { mergePages: true },
-          );
-          text = extractedText || "";
+          const { text: pages } = await extractText(new Uint8Array(buffer), {
+            mergePages: false,
+          });
+          // Page markers let retrieval cite the page a passage came from
+          text = joinPagesWithMarkers(pages);
         } catch (error) {
           console.warn("PDF parsing failed:", error);
           text = "";
@@ -0,0 +1,341 @@
+/**
+ * In-process runner for resumable slide generation jobs.
+ *
+ * Slide generation runs detached from the HTTP response that started it. The
+ * SSE response only subscribes to the run, so closing the tab or hitting the
+ * route's `maxDuration` no longer throws work away:
+ * - Every event is numbered and kept in memory while the run is alive, and
+ *   reconnecting clients get the events after their `Last-Event-ID` replayed
+ * - The runner refreshes the job row periodically (heartbeat), so another
+ *   process can tell a live job from one whose worker died and resume it
+ * - Cancellation is cooperative: workers stop taking slides from the queue;
+ *   a cancel recorded in the database by another process is picked up on the
+ *   next heartbeat
+ *
+ * Event IDs have the form `<jobId>:<runId>:<seq>`. The run ID changes when a
+ * job is resumed by a new run, which tells the server that the client's
+ * sequence number refers to a different event log and everything must be
+ * replayed.
+ */
+
+import { v4 as uuidv4 } from "uuid";
+import {
+  GenerationJobRecord,
+  getGenerationJob,
+  updateGenerationJob,
+} from "./db/generation-jobs";
+import { sseChunk } from "./sse";
+
+/**
+ * Interval in milliseconds between heartbeats written by a live run.
+ */
+const GENERATION_HEARTBEAT_INTERVAL_MS = 15000;
+
+/**
+ * Age in milliseconds after which a running job without heartbeats is
+ * considered orphaned and may be resumed by another run.
+ */
+const GENERATION_JOB_STALE_MS = 60000;
+
+/**
+ * How long a finished run stays in memory so late reconnects can still
+ * replay its final events.
+ */
+const FINISHED_RUN_RETENTION_MS = 5 * 60000;
+
+/**
+ * Reconnect delay in milliseconds suggested to EventSource clients.
+ */
+const SSE_RETRY_MS = 3000;
+
+/**
+ * Subscriber attached to a run (one per open SSE response).
+ */
+type RunSubscriber = {
+  send: (chunk: string) => void;
+  close: () => void;
+};
+
+/**
+ * A live generation run.
+ *
+ * @property jobId - ID of the persisted generation job.
+ * @property runId - ID of this run; differs between a job's original run
+ *   and runs that resumed it.
+ * @property owner - ID of the user the presentation belongs to.
+ * @property presentationId - ID of the presentation being generated.
+ * @property events - Numbered SSE chunks emitted so far, used for replay.
+ * @property cancelRequested - True once the user asked to stop the job.
+ * @property finished - True once the run's work has returned.
+ */
+export type GenerationRun = {
+  jobId: string;
+  runId: string;
+  owner: string;
+  presentationId: string;
+  events: Array<{ seq: number; chunk: string }>;
+  subscribers: Set<RunSubscriber>;
+  cancelRequested: boolean;
+  finished: boolean;
+};
+
+/**
+ * Parsed `Last-Event-ID` value.
+ */
+export type GenerationEventId = {
+  jobId: string;
+  runId: string;
+  seq: number;
+};
+
+/**
+ * Live runs of this process, keyed by job ID. Stored on globalThis so
+ * development hot reloads do not lose track of running jobs.
+ */
+const globalForRuns = globalThis as unknown as {
+  generationRuns: Map<string, GenerationRun> | undefined;
+};
+const runs = (globalForRuns.generationRuns ??= new Map());
+
+/**
+ * Parses an SSE event ID produced by this module.
+ *
+ * @param value - Value of the `Last-Event-ID` header or query parameter.
+ * @returns The job ID, run ID and sequence number, or null if the value is
+ *   missing or malformed.
+ */
+export const parseGenerationEventId = (
+  value: string | null | undefined,
+): GenerationEventId | null => {
+  const parts = value?.trim().split(":") ?? [];
+  if (parts.length !== 3 || !parts[0] || !parts[1]) return null;
+  const seq = Number(parts[2]);
+  if (!Number.isInteger(seq) || seq < 0) return null;
+  return { jobId: parts[0], runId: parts[1], seq };
+};
+
+/**
+ * Returns the live run of a job in this process, if any.
+ *
+ * @param jobId - ID of the generation job.
+ * @returns The run, or undefined if the job is not running here.
+ */
+export const getGenerationRun = (jobId: string): GenerationRun | undefined =>
+  runs.get(jobId);
+
+/**
+ * Checks whether a running job has stopped sending heartbeats.
+ *
+ * @param job - The persisted job.
+ * @param now - Current time in milliseconds (defaults to Date.now()).
+ * @returns True if the job's worker is presumed dead.
+ */
+export const isGenerationJobStale = (
+  job: GenerationJobRecord,
+  now = Date.now(),
+): boolean => now - Date.parse(job.updated_at) > GENERATION_JOB_STALE_MS;
+
+/**
+ * Emits an event to every subscriber of a run and records it for replay.
+ *
+ * @param run - The live run.
+ * @param data - Event payload (serialized as the SSE `data` field).
+ */
+export const emitGenerationEvent = (run: GenerationRun, data: unknown) => {
+  const seq = run.events.length + 1;
+  const chunk = sseChunk(data, `${run.jobId}:${run.runId}:${seq}`);
+  run.events.push({ seq, chunk });
+  for (const subscriber of run.subscribers) {
+    subscriber.send(chunk);
+  }
+};
+
+/**
+ * Requests cancellation of a live run.
+ *
+ * The run's workers finish the slides they are generating and stop taking
+ * new ones; the work function decides how the job is finalized.
+ *
+ * @param run - The live run.
+ */
+export const cancelGenerationRun = (run: GenerationRun) => {
+  run.cancelRequested = true;
+};
+
+/**
+ * Starts a run for a persisted job in the background.
+ *
+ * The work function receives the run and emits events through
+ * `emitGenerationEvent`. It is responsible for saving progress and the
+ * final job status; errors it throws are recorded as a failed job. The
+ * returned run can be subscribed to immediately.
+ *
+ * @param params - Job ID, owner, presentation ID and the work to perform.
+ * @returns The registered run.
+ */
+export const startGenerationRun = ({
+  jobId,
+  owner,
+  presentationId,
+  work,
+}: {
+  jobId: string;
+  owner: string;
+  presentationId: string;
+  work: (run: GenerationRun) => Promise<void>;
+}): GenerationRun => {
+  const run: GenerationRun = {
+    jobId,
+    runId: uuidv4().slice(0, 8),
+    owner,
+    presentationId,
+    events: [],
+    subscribers: new Set(),
+    cancelRequested: false,
+    finished: false,
+  };
+  runs.set(jobId, run);
+
+  const heartbeat = setInterval(() => {
+    getGenerationJob(owner, jobId)
+      .then((job) => {
+        if (job?.status === "cancelled") run.cancelRequested = true;
+        if (job?.status === "running") {
+          return updateGenerationJob(owner, jobId, {});
+        }
+      })
+      .catch((error) => {
+        console.error(`Generation job ${jobId} heartbeat failed:`, error);
+      });
+  }, GENERATION_HEARTBEAT_INTERVAL_MS);
+
+  void work(run)
+    .catch(async (error) => {
+      console.error(`Generation job ${jobId} failed:`, error);
+      const message =
+        error instanceof Error ? error.message : "Generation failed";
+      await updateGenerationJob(owner, jobId, {
+        status: "failed",
+        error: message,
+      }).catch(() => null);
+      emitGenerationEvent(run, { type: "error", detail: message });
+    })
+    .finally(() => {
+      clearInterval(heartbeat);
+      run.finished = true;
+      for (const subscriber of run.subscribers) {
+        subscriber.close();
+      }
+      run.subscribers.clear();
+      setTimeout(() => {
+        if (runs.get(jobId) === run) runs.delete(jobId);
+      }, FINISHED_RUN_RETENTION_MS);
+    });
+
+  return run;
+};
+
+/**
+ * Creates an SSE stream attached to a live run.
+ *
+ * Replays the run's events after `lastEventId` (all of them when the ID is
+ * missing or belongs to another run), then forwards new events until the
+ * run finishes. Closing the stream only detaches the subscriber; the run
+ * keeps going.
+ *
+ * @param run - The live run.
+ * @param lastEventId - Last event the client received, if reconnecting.
+ * @returns A ReadableStream to use as an SSE response body.
+ */
+export const createGenerationRunStream = (
+  run: GenerationRun,
+  lastEventId: GenerationEventId | null,
+): ReadableStream<Uint8Array> => {
+  const encoder = new TextEncoder();
+  const afterSeq =
+    lastEventId && lastEventId.runId === run.runId ? lastEventId.seq : 0;
+  let subscriber: RunSubscriber | null = null;
+  let keepAlive: ReturnType<typeof setInterval> | null = null;
+
+  const detach = () => {
+    if (keepAlive) clearInterval(keepAlive);
+    if (subscriber) run.subscribers.delete(subscriber);
+  };
+
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      controller.enqueue(
+        encoder.encode(`retry: ${SSE_RETRY_MS}\n: heartbeat\n\n`),
+      );
+      for (const event of run.events) {
+        if (event.seq > afterSeq) {
+          controller.enqueue(encoder.encode(event.chunk));
+        }
+      }
+      if (run.finished) {
+        controller.close();
+        return;
+      }
+
+      const send = (chunk: string) => {
+        try {
+          controller.enqueue(encoder.encode(chunk));
+        } catch {
+          // The client went away without cancelling the stream
+          detach();
+        }
+      };
+      subscriber = {
+        send,
+        close: () => {
+          detach();
+          try {
+            controller.close();
+          } catch {
+            // Already closed
+          }
+        },
+      };
+      run.subscribers.add(subscriber);
+      // Keep proxies from closing the connection during long slide calls
+      keepAlive = setInterval(
+        () => send(": heartbeat\n\n"),
+        GENERATION_HEARTBEAT_INTERVAL_MS,
+      );
+    },
+    cancel() {
+      detach();
+    },
+  });
+};
+
+/**
+ * Creates an SSE stream that replays a fixed list of events.
+ *
+ * Used when a job has no live run in this process (it finished, or it is
+ * running in another process): the client gets the job's saved state and
+ * reconnects after the suggested retry delay if it still needs updates.
+ *
+ * @param jobId - ID of the generation job the events describe.
+ * @param events - Event payloads to send, in order.
+ * @returns A ReadableStream to use as an SSE response body.
+ */
+export const createGenerationSnapshotStream = (
+  jobId: string,
+  events: unknown[],
+): ReadableStream<Uint8Array> => {
+  const encoder = new TextEncoder();
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      controller.enqueue(
+        encoder.encode(`retry: ${SSE_RETRY_MS}\n: heartbeat\n\n`),
+      );
+      events.forEach((event, i) => {
+        controller.enqueue(
+          encoder.encode(sseChunk(event, `${jobId}:snapshot:${i + 1}`)),
+        );
+      });
+      controller.close();
+    },
+  });
+};
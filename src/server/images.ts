@@ -13,7 +13,11 @@ import { promises as fs } from "node:fs";
 import { v4 as uuidv4 } from "uuid";
 import sharp from "sharp";
 import OpenAI from "openai";
-import { getImagesDirectory, getTempDirectory } from "./storage";
+import {
+  getImagesDirectory,
+  getOwnerDirectory,
+  getTempDirectory,
+} from "./storage";
 import { getRuntimeConfig } from "./config";
 import {
   isSupabaseEnabled,
@@ -61,15 +65,18 @@ export const createPlaceholderImage = async (
  * Generates a placeholder image and returns its file path.
  *
  * Creates a new placeholder image with a unique ID and saves it to the
- * images directory. Returns the file path for reference. This is useful
- * when you need a placeholder image but don't have a specific file path
- * in mind.
+ * owner's images directory. Returns the file path for reference. This is
+ * useful when you need a placeholder image but don't have a specific file
+ * path in mind.
  *
+ * @param owner - ID of the user the image belongs to.
  * @returns Promise that resolves to the absolute file path of the created
  *   placeholder image. The image file has been created and is ready to use.
  */
-export const generateImagePlaceholder = async (): Promise<string> => {
-  const imagesDir = getImagesDirectory();
+export const generateImagePlaceholder = async (
+  owner: string,
+): Promise<string> => {
+  const imagesDir = getOwnerDirectory(getImagesDirectory(), owner);
   const imageId = uuidv4();
   const imagePath = path.join(imagesDir, `${imageId}.png`);
   await createPlaceholderImage(imagePath);
@@ -80,9 +87,10 @@ export const generateImagePlaceholder = async (): Promise<string> => {
  * Saves an uploaded image file to disk.
  *
  * Takes a File object (from a form upload or similar) and saves it to the
- * images directory with a unique ID. The original file extension is preserved
- * if available, otherwise defaults to .png.
+ * owner's images directory with a unique ID. The original file extension is
+ * preserved if available, otherwise defaults to .png.
  *
+ * @param owner - ID of the user the image belongs to.
  * @param file - File object containing the image data to save. Typically
  *   comes from a form upload or File API.
  * @returns Promise that resolves to the absolute file path where the image
@@ -90,12 +98,15 @@ export const generateImagePlaceholder = async (): Promise<string> => {
  *
  * @example
  * ```typescript
- * const imagePath = await saveUploadedImage(uploadedFile);
- * // Returns: "/path/to/images/uuid-123.jpg"
+ * const imagePath = await saveUploadedImage(owner, uploadedFile);
+ * // Returns: "/path/to/images/<owner>/uuid-123.jpg"
  * ```
  */
-export const saveUploadedImage = async (file: File): Promise<string> => {
-  const imagesDir = getImagesDirectory();
+export const saveUploadedImage = async (
+  owner: string,
+  file: File,
+): Promise<string> => {
+  const imagesDir = getOwnerDirectory(getImagesDirectory(), owner);
   const imageId = uuidv4();
   const ext = path.extname(file.name || ".png") || ".png";
   const imagePath = path.join(imagesDir, `${imageId}${ext}`);
@@ -361,6 +372,7 @@ const generateWithPixabay = async (prompt: string): Promise<Buffer> => {
 };
 
 export const generateImageFromPrompt = async (
+  owner: string,
   prompt: string,
 ): Promise<string> => {
   const config = getRuntimeConfig();
@@ -398,7 +410,7 @@ export const generateImageFromPrompt = async (
   if (isSupabaseEnabled()) {
     console.log(`📤 Uploading image to Supabase Storage: ${imageId}.png`);
     const publicUrl = await uploadSupabaseFileAndGetPublicUrl({
-      path: `images/${imageId}.png`,
+      path: `images/${owner}/${imageId}.png`,
       data: pngBuffer,
       contentType: "image/png",
       upsert: true,
@@ -409,7 +421,7 @@ export const generateImageFromPrompt = async (
 
   // Use local file system if Supabase is not available (fallback)
   console.log(`💾 Saving image locally: ${imageId}.png`);
-  const imagesDir = getImagesDirectory();
+  const imagesDir = getOwnerDirectory(getImagesDirectory(), owner);
   const imagePath = path.join(imagesDir, `${imageId}.png`);
   await sharp(pngBuffer).toFile(imagePath);
   return imagePath;
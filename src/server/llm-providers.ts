@@ -0,0 +1,577 @@
+/**
+ * LLM providers behind `generateJson`, `generateText` and `generateJsonStream`.
+ *
+ * Each generation task can use its own provider and model, so outlines can
+ * come from a hosted model while slide content stays on an on-prem server.
+ * Built-in providers:
+ * - openrouter: OpenRouter (OPENROUTER_API_KEY), the default
+ * - openai: OpenAI API (OPENAI_API_KEY, optional OPENAI_BASE_URL)
+ * - ollama: Local Ollama server through its OpenAI-compatible API (OLLAMA_URL)
+ * - custom: Any OpenAI-compatible endpoint such as vLLM or LM Studio
+ *   (CUSTOM_LLM_URL, optional CUSTOM_LLM_API_KEY)
+ * - anthropic: Anthropic Messages API (ANTHROPIC_API_KEY)
+ * - google: Google Gemini API (GOOGLE_API_KEY)
+ *
+ * Other providers can be added with `registerLlmProvider`.
+ */
+
+import OpenAI from "openai";
+import { getRuntimeConfig, UserConfig } from "./config";
+
+/**
+ * Generation tasks that can be routed to different providers and models.
+ *
+ * - outline: Outline generation and slide layout planning
+ * - slide: Slide content generation
+ * - edit: Slide edits and HTML/React transformations
+ */
+export type LlmTask = "outline" | "slide" | "edit";
+
+/**
+ * A single prompt sent to a provider.
+ *
+ * @property model - Provider-specific model identifier.
+ * @property systemPrompt - Instructions defining the model's role.
+ * @property userPrompt - The request itself.
+ * @property json - Whether the response must be a JSON object.
+ * @property temperature - Sampling temperature.
+ */
+export type LlmRequest = {
+  model: string;
+  systemPrompt: string;
+  userPrompt: string;
+  json: boolean;
+  temperature: number;
+};
+
+/**
+ * A complete (non-streamed) provider response.
+ *
+ * @property content - Generated text.
+ * @property finishReason - Why generation stopped, when reported.
+ * @property usage - Token usage, when reported.
+ */
+export type LlmCompletion = {
+  content: string;
+  finishReason?: string | null;
+  usage?: { promptTokens: number; completionTokens: number } | null;
+};
+
+/**
+ * Interface implemented by LLM providers.
+ *
+ * @property name - Provider identifier used in LLM_PROVIDER.
+ * @property defaultModel - Model used when none is configured, or null if
+ *   the provider requires an explicit model.
+ * @property complete - Generates a complete response.
+ * @property stream - Generates a response, yielding text as it arrives.
+ */
+export interface LlmProvider {
+  name: string;
+  defaultModel: string | null;
+  complete: (request: LlmRequest) => Promise<LlmCompletion>;
+  stream: (request: LlmRequest) => AsyncGenerator<string, void, unknown>;
+}
+
+/**
+ * Creates a provider from runtime configuration. Throws if the provider is
+ * not configured (e.g. missing API key or endpoint).
+ */
+export type LlmProviderFactory = (config: UserConfig) => LlmProvider;
+
+/**
+ * Provider and model resolved for a task.
+ */
+export type LlmSelection = {
+  provider: LlmProvider;
+  model: string;
+};
+
+/**
+ * Maximum response tokens requested from providers that require a limit.
+ */
+const DEFAULT_MAX_OUTPUT_TOKENS = 8192;
+
+/**
+ * Default Ollama endpoint (OpenAI-compatible API).
+ */
+const DEFAULT_OLLAMA_URL = "http://localhost:11434/v1";
+
+/**
+ * Instruction appended to the system prompt for providers without a native
+ * JSON mode. The response is still repaired and parsed by the caller.
+ */
+const JSON_ONLY_INSTRUCTION =
+  "\n\nRespond with a single JSON object only, " +
+  "without code fences or commentary.";
+
+/**
+ * Creates a provider for an OpenAI-compatible chat completions API.
+ *
+ * @param options - Provider name, endpoint, API key, headers, default model
+ *   and whether the endpoint accepts `response_format: json_object`.
+ * @returns LlmProvider backed by the OpenAI SDK.
+ */
+export const createOpenAICompatibleProvider = ({
+  name,
+  baseURL,
+  apiKey,
+  headers,
+  defaultModel,
+  supportsJsonMode = true,
+}: {
+  name: string;
+  baseURL?: string;
+  apiKey: string;
+  headers?: Record<string, string>;
+  defaultModel: string | null;
+  supportsJsonMode?: boolean;
+}): LlmProvider => {
+  const client = new OpenAI({
+    apiKey,
+    baseURL,
+    defaultHeaders:
+      headers && Object.keys(headers).length ? headers : undefined,
+  });
+  const buildParams = (request: LlmRequest) => ({
+    model: request.model,
+    messages: [
+      {
+        role: "system" as const,
+        content:
+          request.json && !supportsJsonMode
+            ? request.systemPrompt + JSON_ONLY_INSTRUCTION
+            : request.systemPrompt,
+      },
+      { role: "user" as const, content: request.userPrompt },
+    ],
+    ...(request.json && supportsJsonMode
+      ? { response_format: { type: "json_object" as const } }
+      : {}),
+    temperature: request.temperature,
+  });
+
+  return {
+    name,
+    defaultModel,
+    complete: async (request) => {
+      const completion = await client.chat.completions.create(
+        buildParams(request),
+      );
+      return {
+        content: completion.choices[0]?.message?.content || "",
+        finishReason: completion.choices[0]?.finish_reason,
+        usage: completion.usage
+          ? {
+              promptTokens: completion.usage.prompt_tokens,
+              completionTokens: completion.usage.completion_tokens,
+            }
+          : null,
+      };
+    },
+    stream: async function* (request) {
+      const stream = await client.chat.completions.create({
+        ...buildParams(request),
+        stream: true,
+      });
+      for await (const chunk of stream) {
+        const content = chunk.choices[0]?.delta?.content;
+        if (content) yield content;
+      }
+    },
+  };
+};
+
+/**
+ * Joins the `data:` lines of one Server-Sent Event.
+ */
+const toEventData = (event: string): string =>
+  event
+    .split("\n")
+    .filter((line) => line.startsWith("data:"))
+    .map((line) => line.slice(5).trimStart())
+    .join("\n");
+
+/**
+ * Reads the `data:` payloads of a Server-Sent Events response body.
+ *
+ * Lines may end with LF, CRLF (Gemini) or CR. An event still buffered when
+ * the body ends is read too, with or without a trailing blank line.
+ *
+ * @param response - Fetch response with an SSE body.
+ * @yields The data of each event, in order.
+ */
+async function* readSseData(
+  response: Response,
+): AsyncGenerator<string, void, unknown> {
+  if (!response.body) return;
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+  for (;;) {
+    const { done, value } = await reader.read();
+    buffer += done ? decoder.decode() : decoder.decode(value, { stream: true });
+    // A trailing CR may be the first half of a CRLF split across chunks
+    const pendingCr = !done && buffer.endsWith("\r") ? "\r" : "";
+    buffer = buffer
+      .slice(0, buffer.length - pendingCr.length)
+      .replace(/\r\n?/g, "\n");
+    let boundary = buffer.indexOf("\n\n");
+    while (boundary !== -1) {
+      const data = toEventData(buffer.slice(0, boundary));
+      buffer = buffer.slice(boundary + 2);
+      if (data) yield data;
+      boundary = buffer.indexOf("\n\n");
+    }
+    buffer += pendingCr;
+    if (done) break;
+  }
+  const data = toEventData(buffer);
+  if (data) yield data;
+}
+
+/**
+ * Throws a descriptive error for a failed provider response.
+ *
+ * @param provider - Provider name used in the message.
+ * @param response - The non-2xx response.
+ * @throws Error with the HTTP status and response body.
+ */
+const throwResponseError = async (
+  provider: string,
+  response: Response,
+): Promise<never> => {
+  const body = await response.text().catch(() => "");
+  const error = new Error(
+    `${provider} API error ${response.status}: ${body.slice(0, 500)}`,
+  );
+  Object.assign(error, { status: response.status });
+  throw error;
+};
+
+/**
+ * Creates a provider for the Anthropic Messages API.
+ *
+ * Anthropic has no JSON response mode, so JSON requests are steered with an
+ * extra system instruction and repaired by the caller.
+ *
+ * @param apiKey - Anthropic API key.
+ * @returns LlmProvider backed by https://api.anthropic.com/v1/messages.
+ */
+export const createAnthropicProvider = (apiKey: string): LlmProvider => {
+  const send = (request: LlmRequest, stream: boolean) =>
+    fetch("https://api.anthropic.com/v1/messages", {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "x-api-key": apiKey,
+        "anthropic-version": "2023-06-01",
+      },
+      body: JSON.stringify({
+        model: request.model,
+        max_tokens: DEFAULT_MAX_OUTPUT_TOKENS,
+        system: request.json
+          ? request.systemPrompt + JSON_ONLY_INSTRUCTION
+          : request.systemPrompt,
+        messages: [{ role: "user", content: request.userPrompt }],
+        temperature: request.temperature,
+        stream,
+      }),
+    });
+
+  return {
+    name: "anthropic",
+    defaultModel: "claude-sonnet-4-5",
+    complete: async (request) => {
+      const response = await send(request, false);
+      if (!response.ok) await throwResponseError("Anthropic", response);
+      const data = (await response.json()) as {
+        content?: { type: string; text?: string }[];
+        stop_reason?: string;
+        usage?: { input_tokens: number; output_tokens: number };
+      };
+      return {
+        content: (data.content ?? [])
+          .filter((block) => block.type === "text")
+          .map((block) => block.text ?? "")
+          .join(""),
+        finishReason: data.stop_reason ?? null,
+        usage: data.usage
+          ? {
+              promptTokens: data.usage.input_tokens,
+              completionTokens: data.usage.output_tokens,
+            }
+          : null,
+      };
+    },
+    stream: async function* (request) {
+      const response = await send(request, true);
+      if (!response.ok) await throwResponseError("Anthropic", response);
+      for await (const data of readSseData(response)) {
+        const event = JSON.parse(data) as {
+          type?: string;
+          delta?: { type?: string; text?: string };
+          error?: { message?: string };
+        };
+        if (event.type === "error") {
+          throw new Error(event.error?.message || "Anthropic stream error");
+        }
+        if (event.type === "content_block_delta" && event.delta?.text) {
+          yield event.delta.text;
+        }
+      }
+    },
+  };
+};
+
+/**
+ * Creates a provider for the Google Gemini API.
+ *
+ * @param apiKey - Google AI Studio API key.
+ * @returns LlmProvider backed by https://generativelanguage.googleapis.com.
+ */
+export const createGoogleProvider = (apiKey: string): LlmProvider => {
+  type GeminiResponse = {
+    candidates?: {
+      content?: { parts?: { text?: string }[] };
+      finishReason?: string;
+    }[];
+    usageMetadata?: {
+      promptTokenCount?: number;
+      candidatesTokenCount?: number;
+    };
+  };
+  const readText = (data: GeminiResponse) =>
+    (data.candidates?.[0]?.content?.parts ?? [])
+      .map((part) => part.text ?? "")
+      .join("");
+  const send = (request: LlmRequest, stream: boolean) => {
+    const method = stream
+      ? "streamGenerateContent?alt=sse"
+      : "generateContent";
+    const model = encodeURIComponent(request.model);
+    return fetch(
+      `https://generativelanguage.googleapis.com/v1beta/models/${model}:${method}`,
+      {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "x-goog-api-key": apiKey,
+        },
+        body: JSON.stringify({
+          systemInstruction: { parts: [{ text: request.systemPrompt }] },
+          contents: [{ role: "user", parts: [{ text: request.userPrompt }] }],
+          generationConfig: {
+            temperature: request.temperature,
+            maxOutputTokens: DEFAULT_MAX_OUTPUT_TOKENS,
+            ...(request.json ? { responseMimeType: "application/json" } : {}),
+          },
+        }),
+      },
+    );
+  };
+
+  return {
+    name: "google",
+    defaultModel: "gemini-2.5-flash",
+    complete: async (request) => {
+      const response = await send(request, false);
+      if (!response.ok) await throwResponseError("Google", response);
+      const data = (await response.json()) as GeminiResponse;
+      return {
+        content: readText(data),
+        finishReason: data.candidates?.[0]?.finishReason ?? null,
+        usage: data.usageMetadata
+          ? {
+              promptTokens: data.usageMetadata.promptTokenCount ?? 0,
+              completionTokens: data.usageMetadata.candidatesTokenCount ?? 0,
+            }
+          : null,
+      };
+    },
+    stream: async function* (request) {
+      const response = await send(request, true);
+      if (!response.ok) await throwResponseError("Google", response);
+      for await (const data of readSseData(response)) {
+        const text = readText(JSON.parse(data) as GeminiResponse);
+        if (text) yield text;
+      }
+    },
+  };
+};
+
+/**
+ * Registered provider factories, keyed by LLM_PROVIDER value.
+ */
+const llmProviders = new Map<string, LlmProviderFactory>([
+  [
+    "openrouter",
+    (config) => {
+      if (!config.OPENROUTER_API_KEY) {
+        throw new Error("OPENROUTER_API_KEY is not configured");
+      }
+      const headers: Record<string, string> = {};
+      if (config.OPENROUTER_SITE_URL) {
+        headers["HTTP-Referer"] = config.OPENROUTER_SITE_URL;
+      }
+      if (config.OPENROUTER_APP_NAME) {
+        headers["X-Title"] = config.OPENROUTER_APP_NAME;
+      }
+      return createOpenAICompatibleProvider({
+        name: "openrouter",
+        baseURL: "https://openrouter.ai/api/v1",
+        apiKey: config.OPENROUTER_API_KEY,
+        headers,
+        defaultModel: config.OPENROUTER_MODEL || "openai/gpt-4.1-mini",
+      });
+    },
+  ],
+  [
+    "openai",
+    (config) => {
+      if (!config.OPENAI_API_KEY) {
+        throw new Error("OPENAI_API_KEY is not configured");
+      }
+      return createOpenAICompatibleProvider({
+        name: "openai",
+        baseURL: config.OPENAI_BASE_URL || undefined,
+        apiKey: config.OPENAI_API_KEY,
+        defaultModel: "gpt-4.1-mini",
+      });
+    },
+  ],
+  [
+    "ollama",
+    (config) =>
+      createOpenAICompatibleProvider({
+        name: "ollama",
+        baseURL: config.OLLAMA_URL || DEFAULT_OLLAMA_URL,
+        // Ollama ignores the key, but the SDK requires one
+        apiKey: "ollama",
+        defaultModel: "llama3.1",
+      }),
+  ],
+  [
+    "custom",
+    (config) => {
+      if (!config.CUSTOM_LLM_URL) {
+        throw new Error("CUSTOM_LLM_URL is not configured");
+      }
+      return createOpenAICompatibleProvider({
+        name: "custom",
+        baseURL: config.CUSTOM_LLM_URL,
+        apiKey: config.CUSTOM_LLM_API_KEY || "not-needed",
+        defaultModel: null,
+        supportsJsonMode:
+          config.CUSTOM_LLM_JSON_MODE?.trim().toLowerCase() !== "false",
+      });
+    },
+  ],
+  [
+    "anthropic",
+    (config) => {
+      if (!config.ANTHROPIC_API_KEY) {
+        throw new Error("ANTHROPIC_API_KEY is not configured");
+      }
+      return createAnthropicProvider(config.ANTHROPIC_API_KEY);
+    },
+  ],
+  [
+    "google",
+    (config) => {
+      if (!config.GOOGLE_API_KEY) {
+        throw new Error("GOOGLE_API_KEY is not configured");
+      }
+      return createGoogleProvider(config.GOOGLE_API_KEY);
+    },
+  ],
+]);
+
+/**
+ * Registers an LLM provider so it can be selected with LLM_PROVIDER or a
+ * per-task provider setting.
+ *
+ * Registering an existing name replaces that provider.
+ *
+ * @param name - Provider identifier (case-insensitive).
+ * @param factory - Creates the provider from runtime configuration.
+ */
+export const registerLlmProvider = (
+  name: string,
+  factory: LlmProviderFactory,
+) => {
+  llmProviders.set(name.toLowerCase(), factory);
+};
+
+/**
+ * Reads the provider and model configured specifically for a task.
+ *
+ * @param config - Runtime configuration.
+ * @param task - Generation task.
+ * @returns Task-level provider and model settings (either may be undefined).
+ */
+const getTaskSettings = (config: UserConfig, task: LlmTask) => {
+  switch (task) {
+    case "outline":
+      return {
+        provider: config.OUTLINE_LLM_PROVIDER,
+        model: config.OUTLINE_LLM_MODEL,
+      };
+    case "slide":
+      return {
+        provider: config.SLIDE_LLM_PROVIDER,
+        model: config.SLIDE_LLM_MODEL,
+      };
+    case "edit":
+      return {
+        provider: config.EDIT_LLM_PROVIDER,
+        model: config.EDIT_LLM_MODEL,
+      };
+  }
+};
+
+/**
+ * Resolves the provider and model for a generation task.
+ *
+ * Provider: the task's setting (e.g. OUTLINE_LLM_PROVIDER), then
+ * LLM_PROVIDER, then "openrouter".
+ *
+ * Model: the task's setting (e.g. OUTLINE_LLM_MODEL), then LLM_MODEL when the
+ * task uses the default provider, then OPENROUTER_OUTLINE_MODEL for outlines
+ * on OpenRouter, then the provider's default model.
+ *
+ * @param task - Generation task.
+ * @returns The provider instance and model to use.
+ * @throws Error if the provider is unknown or not configured, or if no model
+ *   is configured for a provider without a default.
+ */
+export const resolveLlmSelection = (task: LlmTask): LlmSelection => {
+  const config = getRuntimeConfig();
+  const taskSettings = getTaskSettings(config, task);
+  const defaultName = config.LLM_PROVIDER?.trim().toLowerCase() || "openrouter";
+  const name = taskSettings.provider?.trim().toLowerCase() || defaultName;
+
+  const factory = llmProviders.get(name);
+  if (!factory) {
+    const supported = Array.from(llmProviders.keys()).join(", ");
+    throw new Error(
+      `Unsupported LLM provider: ${name}. Supported: ${supported}`,
+    );
+  }
+  const provider = factory(config);
+
+  const model =
+    taskSettings.model ||
+    (name === defaultName ? config.LLM_MODEL : undefined) ||
+    (task === "outline" && name === "openrouter"
+      ? config.OPENROUTER_OUTLINE_MODEL
+      : undefined) ||
+    provider.defaultModel;
+  if (!model) {
+    throw new Error(
+      `No model configured for the ${name} provider (${task} task). ` +
+        `Set LLM_MODEL or ${task.toUpperCase()}_LLM_MODEL.`,
+    );
+  }
+  return { provider, model };
+};
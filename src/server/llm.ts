@@ -1,91 +1,18 @@
 /**
  * LLM (Large Language Model) integration for content generation.
  *
- * This module provides functions for interacting with LLM services (primarily
- * OpenRouter) to generate text and JSON content for presentations. It handles
- * client initialization, model configuration, JSON parsing and repair, and
- * provides both synchronous and streaming interfaces for content generation.
+ * This module provides functions for interacting with LLM services to
+ * generate text and JSON content for presentations. It handles JSON parsing
+ * and repair, logging, and provides both synchronous and streaming interfaces
+ * for content generation.
  *
- * The module uses OpenRouter as a unified interface to access multiple LLM
- * providers, with support for custom models, API keys, and request headers.
+ * Requests go to the provider and model configured for their task (outline,
+ * slide or edit); see `llm-providers.ts` for the available providers and how
+ * they are selected. OpenRouter remains the default.
  */
 
-import OpenAI from "openai";
 import { jsonrepair } from "jsonrepair";
-import { getRuntimeConfig } from "./config";
-
-/**
- * Creates and returns an OpenRouter client instance.
- *
- * Initializes an OpenAI-compatible client configured to use OpenRouter's API.
- * OpenRouter provides access to multiple LLM providers through a unified
- * interface. The client is configured with API key and optional headers
- * (HTTP-Referer and X-Title) for API identification.
- *
- * This function reads configuration from environment variables and throws
- * an error if the API key is not configured.
- *
- * @returns A configured OpenAI client instance pointing to OpenRouter's API.
- * @throws {Error} Throws an error if OPENROUTER_API_KEY is not configured
- *   in environment variables.
- *
- * @remarks
- * The client uses OpenAI's SDK but connects to OpenRouter's endpoint, allowing
- * access to models from multiple providers (OpenAI, Anthropic, etc.) through
- * a single API.
- */
-const getOpenRouterClient = () => {
-  const config = getRuntimeConfig();
-  if (!config.OPENROUTER_API_KEY) {
-    console.error("❌ OPENROUTER_API_KEY is not configured in environment");
-    console.error("Please set OPENROUTER_API_KEY in your .env file");
-    throw new Error("OPENROUTER_API_KEY is not configured");
-  }
-  const headers: Record<string, string> = {};
-  if (config.OPENROUTER_SITE_URL) {
-    headers["HTTP-Referer"] = config.OPENROUTER_SITE_URL;
-  }
-  if (config.OPENROUTER_APP_NAME) {
-    headers["X-Title"] = config.OPENROUTER_APP_NAME;
-  }
-  return new OpenAI({
-    apiKey: config.OPENROUTER_API_KEY,
-    baseURL: "https://openrouter.ai/api/v1",
-    defaultHeaders: Object.keys(headers).length ? headers : undefined,
-  });
-};
-
-/**
- * Gets the configured LLM model for general text generation.
- *
- * Retrieves the model identifier from configuration, with a default fallback
- * if not specified. This model is used for most content generation tasks
- * unless a specific model is required (e.g., outline generation).
- *
- * @returns Model identifier string (e.g., "openai/gpt-4.1-mini"). Defaults
- *   to "openai/gpt-4.1-mini" if not configured.
- */
-const getOpenRouterModel = () => {
-  const config = getRuntimeConfig();
-  const model = config.OPENROUTER_MODEL || "openai/gpt-4.1-mini";
-  return model;
-};
-
-/**
- * Gets the configured LLM model for outline generation.
- *
- * Retrieves the model identifier specifically configured for outline generation,
- * or falls back to the general model if not specified. Outline generation may
- * benefit from different models optimized for structured output.
- *
- * @returns Model identifier string. Uses OPENROUTER_OUTLINE_MODEL if configured,
- *   otherwise falls back to the general model from getOpenRouterModel().
- */
-export const getOutlineModel = () => {
-  const config = getRuntimeConfig();
-  const model = config.OPENROUTER_OUTLINE_MODEL || getOpenRouterModel();
-  return model;
-};
+import { LlmTask, resolveLlmSelection } from "./llm-providers";
 
 /**
  * Sanitizes and repairs malformed JSON from LLM responses.
@@ -139,12 +66,14 @@ const sanitizeAndRepairJson = (input: string): string => {
  * 5. Logs timing and usage information
  *
  * Uses a low temperature (0.2) for more deterministic, structured output.
- * The response_format is set to "json_object" to encourage valid JSON.
+ * Providers with a JSON response mode use it to encourage valid JSON.
  *
  * @param systemPrompt - System prompt defining the LLM's role and behavior.
  *   Provides context and instructions for how to generate the JSON.
  * @param userPrompt - User prompt containing the specific request or data
  *   to process. This is the actual content the LLM should respond to.
+ * @param task - Generation task, which selects the provider and model
+ *   (default: "slide").
  * @returns Promise that resolves to a Record object containing the generated
  *   JSON data. The structure depends on the prompts and use case.
  * @throws Re-throws any errors from the LLM API or JSON parsing. Errors are
@@ -162,37 +91,36 @@ const sanitizeAndRepairJson = (input: string): string => {
 export const generateJson = async (
   systemPrompt: string,
   userPrompt: string,
+  task: LlmTask = "slide",
 ): Promise<Record<string, unknown>> => {
-  const model = getOpenRouterModel();
-  console.log(`[LLM] generateJson called with model: ${model}`);
-  console.log(`[LLM] System prompt length: ${systemPrompt.length} chars`);
-  console.log(`[LLM] User prompt length: ${userPrompt.length} chars`);
-
   try {
-    const client = getOpenRouterClient();
+    const { provider, model } = resolveLlmSelection(task);
+    console.log(
+      `[LLM] generateJson (${task}) called with ${provider.name} model: ${model}`,
+    );
+    console.log(`[LLM] System prompt length: ${systemPrompt.length} chars`);
+    console.log(`[LLM] User prompt length: ${userPrompt.length} chars`);
     const startTime = Date.now();
 
-    const completion = await client.chat.completions.create({
+    const completion = await provider.complete({
       model,
-      messages: [
-        { role: "system", content: systemPrompt },
-        { role: "user", content: userPrompt },
-      ],
-      response_format: { type: "json_object" },
+      systemPrompt,
+      userPrompt,
+      json: true,
       temperature: 0.2,
     });
 
     const elapsed = Date.now() - startTime;
-    const content = completion.choices[0]?.message?.content || "{}";
+    const content = completion.content || "{}";
 
     console.log(`[LLM] Response received in ${elapsed}ms`);
     console.log(`[LLM] Response length: ${content.length} chars`);
-    console.log(`[LLM] Finish reason: ${completion.choices[0]?.finish_reason}`);
+    console.log(`[LLM] Finish reason: ${completion.finishReason}`);
 
     // Log usage if available
     if (completion.usage) {
       console.log(
-        `[LLM] Tokens - prompt: ${completion.usage.prompt_tokens}, completion: ${completion.usage.completion_tokens}`,
+        `[LLM] Tokens - prompt: ${completion.usage.promptTokens}, completion: ${completion.usage.completionTokens}`,
       );
     }
 
@@ -235,6 +163,8 @@ export const generateJson = async (
  *   Provides context and instructions for text generation.
  * @param userPrompt - User prompt containing the specific request or content
  *   to process. This is what the LLM should respond to.
+ * @param task - Generation task, which selects the provider and model
+ *   (default: "edit").
  * @returns Promise that resolves to a string containing the generated text.
  *   Returns an empty string if the LLM response is empty or invalid.
  * @throws Re-throws any errors from the LLM API. Errors are logged with
@@ -252,25 +182,25 @@ export const generateJson = async (
 export const generateText = async (
   systemPrompt: string,
   userPrompt: string,
+  task: LlmTask = "edit",
 ): Promise<string> => {
-  const model = getOpenRouterModel();
-  console.log(`[LLM] generateText called with model: ${model}`);
-
   try {
-    const client = getOpenRouterClient();
+    const { provider, model } = resolveLlmSelection(task);
+    console.log(
+      `[LLM] generateText (${task}) called with ${provider.name} model: ${model}`,
+    );
     const startTime = Date.now();
 
-    const completion = await client.chat.completions.create({
+    const completion = await provider.complete({
       model,
-      messages: [
-        { role: "system", content: systemPrompt },
-        { role: "user", content: userPrompt },
-      ],
+      systemPrompt,
+      userPrompt,
+      json: false,
       temperature: 0.3,
     });
 
     const elapsed = Date.now() - startTime;
-    const content = completion.choices[0]?.message?.content || "";
+    const content = completion.content;
 
     console.log(`[LLM] Response received in ${elapsed}ms`);
     console.log(`[LLM] Response length: ${content.length} chars`);
@@ -287,7 +217,7 @@ export const generateText = async (
 };
 
 /**
- * Streaming version of JSON generation using OpenRouter's streaming API.
+ * Streaming version of JSON generation.
  *
  * Generates JSON content incrementally, yielding tokens as they arrive from
  * the LLM. This allows for real-time updates in the UI as content is generated,
@@ -298,16 +228,15 @@ export const generateText = async (
  * to handle partial JSON and parse it progressively as tokens arrive.
  *
  * Uses the same configuration as generateJson (JSON response format, low
- * temperature) but with streaming enabled. Supports an optional model override
- * for use cases that require a specific model (e.g., outline generation).
+ * temperature) but with streaming enabled. The task selects the provider and
+ * model, so outline generation can use a different model than slides.
  *
  * @param systemPrompt - System prompt defining the LLM's role and behavior.
  *   Provides context and instructions for JSON generation.
  * @param userPrompt - User prompt containing the specific request or data
  *   to process.
- * @param modelOverride - Optional model identifier to override the default
- *   model. Useful for outline generation or other tasks that benefit from
- *   specific models. If not provided, uses the default model from getOpenRouterModel().
+ * @param task - Generation task, which selects the provider and model
+ *   (default: "slide").
  * @yields {string} Yields JSON token strings as they arrive from the LLM.
  *   Each yield contains a partial JSON string that should be accumulated on
  *   the client side.
@@ -325,42 +254,30 @@ export const generateText = async (
 export async function* generateJsonStream(
   systemPrompt: string,
   userPrompt: string,
-  modelOverride?: string,
+  task: LlmTask = "slide",
 ): AsyncGenerator<string, void, unknown> {
-  const model = modelOverride || getOpenRouterModel();
-  console.log(`[LLM] generateJsonStream called with model: ${model}`);
+  const { provider, model } = resolveLlmSelection(task);
+  console.log(
+    `[LLM] generateJsonStream (${task}) called with ${provider.name} model: ${model}`,
+  );
   console.log(`[LLM] System prompt length: ${systemPrompt.length} chars`);
   console.log(`[LLM] User prompt length: ${userPrompt.length} chars`);
 
-  const client = getOpenRouterClient();
   const startTime = Date.now();
   let totalTokens = 0;
 
   try {
-    const stream = await client.chat.completions.create({
+    const stream = provider.stream({
       model,
-      messages: [
-        { role: "system", content: systemPrompt },
-        { role: "user", content: userPrompt },
-      ],
-      response_format: { type: "json_object" },
+      systemPrompt,
+      userPrompt,
+      json: true,
       temperature: 0.2,
-      stream: true,
     });
 
-    for await (const chunk of stream) {
-      const content = chunk.choices[0]?.delta?.content;
-      if (content) {
-        totalTokens++;
-        yield content;
-      }
-
-      // Log usage stats from final chunk if available
-      if (chunk.usage) {
-        console.log(
-          `[LLM] Stream usage - prompt: ${chunk.usage.prompt_tokens}, completion: ${chunk.usage.completion_tokens}`,
-        );
-      }
+    for await (const content of stream) {
+      totalTokens++;
+      yield content;
     }
 
     const elapsed = Date.now() - startTime;
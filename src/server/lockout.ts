@@ -0,0 +1,51 @@
+/**
+ * Lockout of repeated wrong passwords.
+ *
+ * Share link passwords and local sign-in run scrypt on every attempt, so
+ * guessing is limited the same way for both: attempts are counted before
+ * the password is checked, and every `maxFailures` attempts in a row lock
+ * further ones out for a while. The first lock lasts `lockMs`, each further
+ * one twice as long as the one before, up to `maxLockMs`. A correct
+ * password resets the count.
+ */
+
+/**
+ * How many wrong passwords are allowed and how long the locks last.
+ *
+ * @property maxFailures - Attempts allowed before each lock.
+ * @property lockMs - Duration of the first lock in milliseconds.
+ * @property maxLockMs - Longest lock in milliseconds.
+ */
+export type LockoutPolicy = {
+  maxFailures: number;
+  lockMs: number;
+  maxLockMs: number;
+};
+
+/**
+ * Computes when the lock set by an attempt ends.
+ *
+ * @param failures - Attempts counted so far, this one included.
+ * @param policy - Lockout policy.
+ * @param now - Time of the attempt.
+ * @returns The end of the lock, or null if this attempt does not lock.
+ *
+ * @example
+ * ```typescript
+ * getLockoutEnd(10, { maxFailures: 5, lockMs: 60000, maxLockMs: 3600000 }, now);
+ * // Returns: now + 2 minutes
+ * ```
+ */
+export const getLockoutEnd = (
+  failures: number,
+  policy: LockoutPolicy,
+  now: Date,
+): Date | null => {
+  if (failures % policy.maxFailures !== 0) return null;
+  const locks = failures / policy.maxFailures;
+  const lockMs = Math.min(
+    policy.lockMs * 2 ** Math.min(locks - 1, 30),
+    policy.maxLockMs,
+  );
+  return new Date(now.getTime() + lockMs);
+};
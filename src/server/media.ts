@@ -6,13 +6,16 @@
  * font normalization, Google Fonts availability checking, and PowerPoint file
  * structure extraction.
  *
- * Note: Some functions (PDF/PPTX conversion) are not available in serverless
- * environments like Vercel due to missing system binaries. These will be
- * replaced with external services in the future.
+ * PDF and PPTX conversion run entirely in Node: PDF pages are rasterized with
+ * pdf.js (via unpdf) on a native canvas, and PPTX files are parsed by the
+ * importer in `./pptx/import` and printed with the bundled Chromium. Neither
+ * path needs LibreOffice or poppler, so both work on Vercel.
  */
 
 import { promises as fs } from "node:fs";
+import path from "node:path";
 import JSZip from "jszip";
+import { getDocumentProxy, renderPageAsImage } from "unpdf";
 
 /**
  * Result structure for font analysis.
@@ -31,51 +34,126 @@ type FontAnalysisResult = {
 };
 
 /**
- * Error message for serverless environment limitations.
+ * Scale factor applied when rasterizing PDF pages.
  *
- * Some media processing features require system binaries (pdftoppm, LibreOffice)
- * that are not available in serverless environments like Vercel. These features
- * will be replaced with external services (CloudConvert/ConvertAPI) in the future.
+ * PDF pages are measured in points (72 per inch). A 16:9 slide exported at
+ * 960x540pt renders at 1280x720px with this factor, matching the editor canvas.
  */
-const SERVERLESS_ERROR_MESSAGE =
-  "This feature is not available in serverless environment. It requires system binaries that are not available on Vercel.";
+const PDF_RENDER_SCALE = 4 / 3;
 
 /**
  * Converts a PDF file to PNG images (one per page).
  *
- * This function is not implemented in serverless environments. It requires
- * system binaries (pdftoppm) that are not available on Vercel. Will be
- * replaced with an external service in the future.
+ * Pages are rendered with pdf.js on `@napi-rs/canvas`, so no system binaries
+ * are required. Files are written as `page_<n>.png` in the output directory.
  *
- * @param _pdfPath - Path to the PDF file to convert (unused, function throws).
- * @param _outputDir - Directory where PNG files should be saved (unused).
- * @returns Never returns (always throws).
- * @throws {Error} Always throws an error indicating serverless limitation.
+ * @param pdfPath - Path to the PDF file to convert.
+ * @param outputDir - Directory where PNG files should be saved.
+ * @returns Promise that resolves to the PNG file paths in page order.
+ *
+ * @example
+ * ```typescript
+ * const pngs = await convertPdfToPngs("/tmp/deck.pdf", "/tmp/out");
+ * // Returns: ["/tmp/out/page_1.png", "/tmp/out/page_2.png", ...]
+ * ```
  */
 export const convertPdfToPngs = async (
-  _pdfPath: string,
-  _outputDir: string,
+  pdfPath: string,
+  outputDir: string,
 ): Promise<string[]> => {
-  throw new Error(`PDF to PNG conversion: ${SERVERLESS_ERROR_MESSAGE}`);
+  const buffer = await fs.readFile(pdfPath);
+  const pdf = await getDocumentProxy(new Uint8Array(buffer));
+  await fs.mkdir(outputDir, { recursive: true });
+
+  const pngPaths: string[] = [];
+  for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+    const image = await renderPageAsImage(pdf, pageNumber, {
+      canvasImport: () => import("@napi-rs/canvas"),
+      scale: PDF_RENDER_SCALE,
+    });
+    const pngPath = path.join(outputDir, `page_${pageNumber}.png`);
+    await fs.writeFile(pngPath, Buffer.from(image));
+    pngPaths.push(pngPath);
+  }
+  return pngPaths;
 };
 
 /**
  * Converts a PowerPoint file to PDF.
  *
- * This function is not implemented in serverless environments. It requires
- * system binaries (LibreOffice) that are not available on Vercel. Will be
- * replaced with an external service in the future.
+ * Parses the slides with the PPTX importer, renders each one to HTML and
+ * prints the result with headless Chromium (one page per slide). Fidelity is
+ * limited to what the importer understands: text boxes, shapes, pictures,
+ * tables and charts.
  *
- * @param _pptxPath - Path to the PPTX file to convert (unused, function throws).
- * @param _outputDir - Directory where PDF file should be saved (unused).
- * @returns Never returns (always throws).
- * @throws {Error} Always throws an error indicating serverless limitation.
+ * @param pptxPath - Path to the PPTX file to convert.
+ * @param outputDir - Directory where the PDF file should be saved.
+ * @returns Promise that resolves to the path of the generated PDF.
  */
 export const convertPptxToPdf = async (
-  _pptxPath: string,
-  _outputDir: string,
+  pptxPath: string,
+  outputDir: string,
 ): Promise<string> => {
-  throw new Error(`PPTX to PDF conversion: ${SERVERLESS_ERROR_MESSAGE}`);
+  // Loaded lazily: the importer pulls in Puppeteer
+  const { parsePptxFile, renderSlidesToPdf } = await import("./pptx/import");
+  const imported = await parsePptxFile(pptxPath);
+  const pdfPath = path.join(
+    outputDir,
+    `${path.basename(pptxPath, path.extname(pptxPath))}.pdf`,
+  );
+  await renderSlidesToPdf(
+    imported.slides.map((slide) => slide.model),
+    pdfPath,
+  );
+  return pdfPath;
+};
+
+/**
+ * Lists slide XML entries of a PPTX archive in presentation order.
+ *
+ * The order is the slide list of `ppt/presentation.xml` (`<p:sldIdLst>`),
+ * resolved to slide parts through `ppt/_rels/presentation.xml.rels`; slides
+ * reordered in PowerPoint keep their original `slide<n>.xml` names. Archives
+ * without a slide list fall back to the numeric suffix of the names, so
+ * `slide10.xml` follows `slide9.xml`.
+ *
+ * @param zip - Loaded PPTX archive.
+ * @returns Promise that resolves to the archive paths, one per slide.
+ */
+export const getSlideFileNames = async (zip: JSZip): Promise<string[]> => {
+  const getIndex = (name: string) => {
+    const match = name.match(/slide(\d+)\.xml$/);
+    return match ? Number(match[1]) : 0;
+  };
+  const files = Object.keys(zip.files)
+    .filter((name) => /^ppt\/slides\/slide\d+\.xml$/.test(name))
+    .sort((a, b) => getIndex(a) - getIndex(b));
+
+  const [presentationXml, relsXml] = await Promise.all([
+    zip.file("ppt/presentation.xml")?.async("string"),
+    zip.file("ppt/_rels/presentation.xml.rels")?.async("string"),
+  ]);
+  const slideList = presentationXml?.match(
+    /<p:sldIdLst\b[^>]*>([\s\S]*?)<\/p:sldIdLst>/,
+  )?.[1];
+  if (!slideList || !relsXml) return files;
+
+  const targets = new Map<string, string>();
+  for (const [tag] of relsXml.matchAll(/<Relationship\b[^>]*>/g)) {
+    const id = tag.match(/\sId="([^"]+)"/)?.[1];
+    const target = tag.match(/\sTarget="([^"]+)"/)?.[1];
+    if (!id || !target) continue;
+    targets.set(
+      id,
+      target.startsWith("/")
+        ? target.slice(1)
+        : path.posix.normalize(path.posix.join("ppt", target)),
+    );
+  }
+  const ordered = [...slideList.matchAll(/<p:sldId\b[^>]*\sr:id="([^"]+)"/g)]
+    .map(([, relId]) => targets.get(relId))
+    .filter((name): name is string => !!name && files.includes(name));
+  return ordered.length > 0 ? ordered : files;
 };
 
 /**
@@ -100,17 +178,7 @@ export const convertPptxToPdf = async (
 export const extractSlideXmls = async (pptxPath: string): Promise<string[]> => {
   const buffer = await fs.readFile(pptxPath);
   const zip = await JSZip.loadAsync(buffer);
-  const slideFiles = Object.keys(zip.files)
-    .filter(
-      (name) => name.startsWith("ppt/slides/slide") && name.endsWith(".xml"),
-    )
-    .sort((a, b) => {
-      const getIndex = (name: string) => {
-        const match = name.match(/slide(\d+)\.xml$/);
-        return match ? Number(match[1]) : 0;
-      };
-      return getIndex(a) - getIndex(b);
-    });
+  const slideFiles = await getSlideFileNames(zip);
 
   const xmls: string[] = [];
   for (const fileName of slideFiles) {
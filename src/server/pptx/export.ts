@@ -14,6 +14,8 @@
 
 import pptxgen from "pptxgenjs";
 import path from "node:path";
+import { promises as fs } from "node:fs";
+import { v4 as uuidv4 } from "uuid";
 import {
   PptxPresentationModel,
   PptxTextBoxModel,
@@ -23,8 +25,14 @@ import {
   PptxChartModel,
   PptxTableModel,
   PptxChartType,
+  PptxShapeType,
 } from "@/types/pptx-models";
-import { getExportsDirectory } from "../storage";
+import type { BrandKit } from "@/utils/color-schemes";
+import {
+  getAppDataDirectory,
+  getExportsDirectory,
+  getOwnerDirectory,
+} from "../storage";
 import {
   getSupabasePublicUrl,
   isSupabaseEnabled,
@@ -78,13 +86,24 @@ const toInchesWithCompensation = (value: number): number => {
 /**
  * Map web fonts to PowerPoint-compatible system fonts
  * This ensures consistent rendering across different systems
+ *
+ * Brand kit fonts are kept as they are: the brand's fonts are expected to
+ * be installed where its decks are opened.
  */
-const mapFontToSystem = (fontName?: string): string => {
+const mapFontToSystem = (
+  fontName?: string,
+  brandFonts: string[] = [],
+): string => {
   if (!fontName) return "Arial";
 
   // Normalize font name (remove quotes, lowercase)
   const normalized = fontName.replace(/['"]/g, "").toLowerCase().trim();
 
+  // The first family of a font stack is the one the slide was styled with
+  const family = normalized.split(",")[0].trim();
+  const brandFont = brandFonts.find((font) => font.toLowerCase() === family);
+  if (brandFont) return brandFont;
+
   // Font mapping table: web font -> system font
   const fontMap: Record<string, string> = {
     // Sans-serif fonts
@@ -160,6 +179,18 @@ const normalizeColor = (value?: string): string | undefined => {
   return value.replace("#", "");
 };
 
+/**
+ * pptxgenjs shape for an autoshape: an ellipse for ovals (diagram nodes),
+ * otherwise a rectangle, rounded when it has a border radius.
+ */
+const autoShapeType = (
+  shape: PptxAutoShapeBoxModel,
+  pptx: pptxgen,
+): pptxgen.ShapeType => {
+  if (shape.type === PptxShapeType.OVAL) return pptx.ShapeType.ellipse;
+  return shape.border_radius ? pptx.ShapeType.roundRect : pptx.ShapeType.rect;
+};
+
 const normalizeAlignment = (
   alignment?: number | string,
 ): pptxgen.HAlign | undefined => {
@@ -339,11 +370,18 @@ const mapChartType = (
  * 7. Returns a file path or public URL
  *
  * Font mapping ensures web fonts are converted to PowerPoint-compatible system
- * fonts. Image sources are resolved (Supabase paths converted to URLs, remote
+ * fonts. With a brand kit, its fonts become the theme fonts and are kept on
+ * text, and charts without their own colors use the brand's accent. Image
+ * sources are resolved (Supabase paths converted to URLs, remote
  * images downloaded and embedded as data URIs).
  *
+ * The file is stored under the owner and a random ID, so its URL cannot be
+ * guessed (see server/storage).
+ *
+ * @param owner - ID of the user the file belongs to.
  * @param model - PptxPresentationModel containing all slides and their elements.
  *   Must have a valid slides array.
+ * @param brandKit - Brand kit of the presentation, if it has one.
  * @returns Promise that resolves to:
  *   - A public URL string if Supabase is enabled (file uploaded to Supabase Storage)
  *   - A local file path string if Supabase is disabled (file saved to local exports directory)
@@ -356,13 +394,15 @@ const mapChartType = (
  *   name: "My Presentation",
  *   slides: [/* slide models *\/]
  * };
- * const fileUrl = await exportPptxModel(pptxModel);
+ * const fileUrl = await exportPptxModel(owner, pptxModel);
  * // Returns: "https://...supabase.co/.../presentation-1234567890.pptx"
- * //   or: "/app_data/exports/presentation-1234567890.pptx"
+ * //   or: "/app_data/exports/<owner>/<id>/presentation-1234567890.pptx"
  * ```
  */
 export const exportPptxModel = async (
+  owner: string,
   model: PptxPresentationModel,
+  brandKit?: BrandKit | null,
 ): Promise<string> => {
   if (!model || !Array.isArray(model.slides)) {
     throw new Error("Invalid PPTX model: slides are missing.");
@@ -370,6 +410,21 @@ export const exportPptxModel = async (
   const pptx = new pptxgen();
   pptx.layout = "LAYOUT_WIDE";
 
+  const headingFont = brandKit?.heading_font?.family;
+  const bodyFont = brandKit?.body_font?.family;
+  const brandFonts = [headingFont, bodyFont].filter(
+    (font): font is string => Boolean(font),
+  );
+  if (brandFonts.length > 0) {
+    pptx.theme = {
+      headFontFace: headingFont ?? bodyFont,
+      bodyFontFace: bodyFont ?? headingFont,
+    };
+  }
+  const brandChartColors = brandKit
+    ? [normalizeColor(brandKit.colors.accent)!]
+    : undefined;
+
   for (const slideModel of model.slides) {
     const slide = pptx.addSlide();
     const hasBackgroundImage = Boolean(slideModel.backgroundImage);
@@ -411,7 +466,7 @@ export const exportPptxModel = async (
             : undefined;
 
         // Map font to system-compatible font for consistent rendering
-        const mappedFont = mapFontToSystem(font?.name);
+        const mappedFont = mapFontToSystem(font?.name, brandFonts);
 
         slide.addText(text, {
           x: toInches(shape.position.left),
@@ -455,12 +510,10 @@ export const exportPptxModel = async (
               : undefined;
 
           // Map font to system-compatible font
-          const mappedFont = mapFontToSystem(font?.name);
+          const mappedFont = mapFontToSystem(font?.name, brandFonts);
 
           // Use addText with shape parameter for combined text+shape
-          const shapeType = shape.border_radius
-            ? pptx.ShapeType.roundRect
-            : pptx.ShapeType.rect;
+          const shapeType = autoShapeType(shape, pptx);
 
           slide.addText(text, {
             x: toInches(shape.position.left),
@@ -510,9 +563,7 @@ export const exportPptxModel = async (
           });
         } else if (hasFill || hasStroke || hasShadow) {
           // Shape without text - just add the shape
-          const shapeType = shape.border_radius
-            ? pptx.ShapeType.roundRect
-            : pptx.ShapeType.rect;
+          const shapeType = autoShapeType(shape, pptx);
 
           slide.addShape(shapeType, {
             x: toInches(shape.position.left),
@@ -572,9 +623,13 @@ export const exportPptxModel = async (
           y: toInches(shape.position.top),
           w: toInches(shape.position.width),
           h: toInches(shape.position.height),
+          flipH: shape.flip_h,
+          flipV: shape.flip_v,
           line: {
             color: normalizeColor(shape.color),
             width: shape.thickness ?? 1,
+            beginArrowType: shape.begin_arrow ? "triangle" : undefined,
+            endArrowType: shape.end_arrow ? "triangle" : undefined,
           },
         });
         continue;
@@ -610,9 +665,10 @@ export const exportPptxModel = async (
           titleFontSize: shape.options?.titleFontSize ?? 14,
           titleColor: normalizeColor(shape.options?.titleColor),
           showValue: shape.options?.showDataLabels ?? false,
-          chartColors: shape.options?.chartColors?.map((c) =>
-            normalizeColor(c),
-          ) as string[],
+          chartColors:
+            (shape.options?.chartColors?.map((c) =>
+              normalizeColor(c),
+            ) as string[] | undefined) ?? brandChartColors,
           barGapWidthPct: shape.options?.barGapWidthPct ?? 50,
           barDir: shape.options?.barDir ?? "col", // 'bar' for horizontal, 'col' for vertical
           lineSmooth: shape.options?.lineSmooth ?? true,
@@ -698,10 +754,11 @@ export const exportPptxModel = async (
   }
 
   const fileName = `${model.name || "presentation"}-${Date.now()}.pptx`;
+  const exportId = uuidv4();
 
   if (isSupabaseEnabled()) {
     const buffer = (await pptx.write({ outputType: "nodebuffer" })) as Buffer;
-    const storagePath = `exports/${fileName}`;
+    const storagePath = `exports/${owner}/${exportId}/${fileName}`;
     return uploadSupabaseFileAndGetPublicUrl({
       path: storagePath,
       data: buffer,
@@ -711,7 +768,15 @@ export const exportPptxModel = async (
     });
   }
 
-  const outputPath = path.join(getExportsDirectory(), fileName);
+  const exportDir = path.join(
+    getOwnerDirectory(getExportsDirectory(), owner),
+    exportId,
+  );
+  await fs.mkdir(exportDir, { recursive: true });
+  const outputPath = path.join(exportDir, fileName);
   await pptx.writeFile({ fileName: outputPath });
-  return `/app_data/exports/${fileName}`;
+  return `/app_data/${path
+    .relative(getAppDataDirectory(), outputPath)
+    .split(path.sep)
+    .join("/")}`;
 };
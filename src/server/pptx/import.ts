@@ -0,0 +1,1519 @@
+/**
+ * PowerPoint (PPTX) import functionality.
+ *
+ * This module parses .pptx files in plain Node (JSZip + OOXML) into the same
+ * PptxSlideModel structures used by the exporter, so an imported deck can be
+ * edited, re-exported, or used as source material for regeneration with a
+ * Pitch:US template. It understands:
+ * - Text boxes and placeholders (position inherited from the slide layout or
+ *   master when the slide omits it)
+ * - Filled autoshapes and straight connectors
+ * - Pictures (raster formats; EMF/WMF previews are skipped)
+ * - Tables, including merged cells
+ * - Charts (bar, line, area, pie, doughnut, scatter, radar, bubble)
+ * - Solid and picture backgrounds, theme colors, and speaker notes
+ *
+ * Slides are normalized onto the 1280x720 editor canvas; 4:3 decks are scaled
+ * to fit and centered. Parsed slides can be rendered to standalone HTML and
+ * rasterized (thumbnails) or printed (PDF) with the bundled Chromium.
+ */
+
+import path from "node:path";
+import { promises as fs } from "node:fs";
+import JSZip from "jszip";
+import puppeteer, { type Browser, type Page } from "puppeteer-core";
+import chromium from "@sparticuz/chromium";
+import {
+  PptxAlignment,
+  PptxChartModel,
+  PptxChartSeries,
+  PptxChartType,
+  PptxConnectorModel,
+  PptxConnectorType,
+  PptxFontModel,
+  PptxParagraphModel,
+  PptxPictureBoxModel,
+  PptxPositionModel,
+  PptxShapeType,
+  PptxSlideModel,
+  PptxTableModel,
+  PptxTableRow,
+  PptxTextBoxModel,
+  PptxAutoShapeBoxModel,
+  PptxTextRunModel,
+} from "@/types/pptx-models";
+import type {
+  ImportedSlideData,
+  ImportedSlideElement,
+} from "@/presentation-templates/imported/imported-slide";
+import { getChromiumExecutablePath } from "../chromium";
+import {
+  extractFontsFromOxml,
+  getSlideFileNames,
+  normalizeFontFamilyName,
+} from "../media";
+
+/**
+ * Width and height of the editor canvas in pixels.
+ */
+export const IMPORT_CANVAS_WIDTH = 1280;
+export const IMPORT_CANVAS_HEIGHT = 720;
+
+/**
+ * Default slide size in EMU (13.333in x 7.5in, PowerPoint's 16:9 default).
+ * Used when presentation.xml has no <p:sldSz>.
+ */
+const DEFAULT_SLIDE_SIZE = { cx: 12192000, cy: 6858000 };
+
+/**
+ * EMU per typographic point (914400 EMU per inch / 72).
+ */
+const EMU_PER_POINT = 12700;
+
+/**
+ * Image extensions that browsers can render. Vector metafiles (EMF/WMF) are
+ * common in decks exported from Office but cannot be displayed, so they are
+ * skipped.
+ */
+const IMAGE_MIME_TYPES: Record<string, string> = {
+  ".png": "image/png",
+  ".jpg": "image/jpeg",
+  ".jpeg": "image/jpeg",
+  ".gif": "image/gif",
+  ".bmp": "image/bmp",
+  ".webp": "image/webp",
+  ".svg": "image/svg+xml",
+};
+
+type AnyImportedShape = PptxSlideModel["shapes"][number];
+
+/**
+ * A slide parsed from a PPTX file.
+ *
+ * @property slide_number - One-based position in the deck.
+ * @property title - Text of the title placeholder, or the most prominent text
+ *   on the slide when there is none.
+ * @property xml_content - Raw slide XML, kept for template generation.
+ * @property fonts - Normalized font family names referenced by the slide.
+ * @property model - Parsed slide in exporter format (pixels on a 1280x720 canvas).
+ */
+export type ImportedPptxSlide = {
+  slide_number: number;
+  title: string;
+  xml_content: string;
+  fonts: string[];
+  model: PptxSlideModel;
+};
+
+/**
+ * Result of parsing a PPTX file.
+ */
+export type ImportedPptx = {
+  slides: ImportedPptxSlide[];
+};
+
+/**
+ * Persists an embedded media file and returns the path to reference it by.
+ *
+ * @param fileName - Base name of the media entry (e.g., "image3.png").
+ * @param data - Raw file contents.
+ * @param mimeType - MIME type derived from the extension.
+ * @returns Promise that resolves to the path or URL stored in the model.
+ */
+export type PptxMediaSaver = (
+  fileName: string,
+  data: Buffer,
+  mimeType: string,
+) => Promise<string>;
+
+/**
+ * Options for parsePptxFile.
+ *
+ * @property saveMedia - Callback used to persist pictures. Defaults to inline
+ *   data URIs, which keeps the model self-contained for one-off rendering.
+ */
+type ParsePptxOptions = {
+  saveMedia?: PptxMediaSaver;
+};
+
+/**
+ * Position of a frame in EMU as read from <a:xfrm>.
+ */
+type EmuFrame = { x: number; y: number; cx: number; cy: number };
+
+/**
+ * Placeholder frame declared on a slide layout or master.
+ */
+type PlaceholderFrame = { type: string; idx: string | null; frame: EmuFrame };
+
+/**
+ * Per-slide parsing context shared by all shape parsers.
+ */
+type SlideContext = {
+  zip: JSZip;
+  slidePath: string;
+  rels: Map<string, string>;
+  theme: ThemeInfo;
+  placeholders: PlaceholderFrame[];
+  transform: CanvasTransform;
+  saveMedia: PptxMediaSaver;
+};
+
+/**
+ * Mapping from slide EMU coordinates to canvas pixels.
+ */
+type CanvasTransform = { scale: number; offsetX: number; offsetY: number };
+
+/**
+ * Theme colors and fonts resolved from ppt/theme/theme1.xml.
+ */
+type ThemeInfo = {
+  colors: Record<string, string>;
+  majorFont: string;
+  minorFont: string;
+};
+
+/**
+ * Decodes a numeric character reference, leaving it as-is when the code
+ * point is out of range.
+ */
+const fromCodePoint = (entity: string, code: number): string =>
+  code <= 0x10ffff ? String.fromCodePoint(code) : entity;
+
+/**
+ * Normalizes an RGB hex value from the XML to "#RRGGBB".
+ *
+ * @returns The color, or undefined if the value is not six hex digits.
+ */
+const toHexColor = (value: string | null | undefined): string | undefined =>
+  value && /^[0-9A-F]{6}$/i.test(value) ? `#${value.toUpperCase()}` : undefined;
+
+const decodeXml = (value: string): string =>
+  value
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&#(\d+);/g, (entity, code) => fromCodePoint(entity, Number(code)))
+    .replace(/&#x([0-9a-f]+);/gi, (entity, code) =>
+      fromCodePoint(entity, parseInt(code, 16)),
+    )
+    .replace(/&amp;/g, "&");
+
+const escapeRegExp = (value: string) =>
+  value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+/**
+ * Returns the first opening (or self-closing) tag with the given name.
+ */
+const findTag = (xml: string | null, tagName: string): string | null => {
+  if (!xml) return null;
+  const match = xml.match(
+    new RegExp(`<${escapeRegExp(tagName)}(?=[\\s/>])[^>]*>`),
+  );
+  return match ? match[0] : null;
+};
+
+/**
+ * Returns the inner XML of the first element with the given name.
+ *
+ * Self-closing elements yield an empty string; missing elements yield null.
+ * Elements of the same name must not nest (true for every tag used here).
+ */
+const findBlock = (xml: string | null, tagName: string): string | null => {
+  if (!xml) return null;
+  const name = escapeRegExp(tagName);
+  const match = xml.match(
+    new RegExp(`<${name}(?=[\\s/>])[^>]*?(?:/>|>([\\s\\S]*?)</${name}>)`),
+  );
+  if (!match) return null;
+  return match[1] ?? "";
+};
+
+/**
+ * Returns every element with the given name as { tag, inner } pairs.
+ */
+const findAllBlocks = (
+  xml: string | null,
+  tagName: string,
+): { tag: string; inner: string }[] => {
+  if (!xml) return [];
+  const name = escapeRegExp(tagName);
+  const regex = new RegExp(
+    `(<${name}(?=[\\s/>])[^>]*?)(?:/>|>([\\s\\S]*?)</${name}>)`,
+    "g",
+  );
+  const blocks: { tag: string; inner: string }[] = [];
+  let match: RegExpExecArray | null = null;
+  while ((match = regex.exec(xml))) {
+    blocks.push({ tag: `${match[1]}>`, inner: match[2] ?? "" });
+  }
+  return blocks;
+};
+
+const getAttr = (tag: string | null, name: string): string | null => {
+  if (!tag) return null;
+  const match = tag.match(new RegExp(`\\s${escapeRegExp(name)}="([^"]*)"`));
+  return match ? decodeXml(match[1]) : null;
+};
+
+const getNumberAttr = (tag: string | null, name: string): number | null => {
+  const value = getAttr(tag, name);
+  if (value === null) return null;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : null;
+};
+
+/**
+ * Collects the text of all <a:t> runs inside an element.
+ */
+const collectText = (xml: string | null): string =>
+  findAllBlocks(xml, "a:t")
+    .map((block) => decodeXml(block.inner))
+    .join("");
+
+/**
+ * Drops the fallback branch of mc:AlternateContent so shapes are not parsed
+ * twice (once from mc:Choice and once from mc:Fallback).
+ */
+const stripAlternateFallbacks = (xml: string): string =>
+  xml.replace(/<mc:Fallback\b[\s\S]*?<\/mc:Fallback>/g, "");
+
+const readZipText = async (
+  zip: JSZip,
+  filePath: string,
+): Promise<string | null> => {
+  const file = zip.file(filePath);
+  return file ? file.async("string") : null;
+};
+
+/**
+ * Resolves a relationship target relative to the part that references it.
+ *
+ * @example
+ * resolvePartPath("ppt/slides/slide1.xml", "../media/image1.png");
+ * // Returns: "ppt/media/image1.png"
+ */
+const resolvePartPath = (sourcePart: string, target: string): string => {
+  if (target.startsWith("/")) return target.slice(1);
+  return path.posix.normalize(
+    path.posix.join(path.posix.dirname(sourcePart), target),
+  );
+};
+
+/**
+ * Reads the relationship file of a part and returns rId → absolute part path.
+ * External targets (hyperlinks) are skipped.
+ */
+const readRels = async (
+  zip: JSZip,
+  partPath: string,
+): Promise<Map<string, string>> => {
+  const relsPath = path.posix.join(
+    path.posix.dirname(partPath),
+    "_rels",
+    `${path.posix.basename(partPath)}.rels`,
+  );
+  const xml = await readZipText(zip, relsPath);
+  const rels = new Map<string, string>();
+  if (!xml) return rels;
+  for (const { tag } of findAllBlocks(xml, "Relationship")) {
+    const id = getAttr(tag, "Id");
+    const target = getAttr(tag, "Target");
+    if (!id || !target || getAttr(tag, "TargetMode") === "External") continue;
+    rels.set(id, resolvePartPath(partPath, target));
+  }
+  return rels;
+};
+
+/**
+ * Finds the first relationship whose target lives in the given folder
+ * (e.g., "slideLayouts" or "notesSlides").
+ */
+const findRelTarget = (
+  rels: Map<string, string>,
+  folder: string,
+): string | null => {
+  for (const target of rels.values()) {
+    if (target.includes(`/${folder}/`)) return target;
+  }
+  return null;
+};
+
+const readSlideSize = async (
+  zip: JSZip,
+): Promise<{ cx: number; cy: number }> => {
+  const xml = await readZipText(zip, "ppt/presentation.xml");
+  const tag = findTag(xml, "p:sldSz");
+  const cx = getNumberAttr(tag, "cx");
+  const cy = getNumberAttr(tag, "cy");
+  return cx && cy ? { cx, cy } : DEFAULT_SLIDE_SIZE;
+};
+
+const buildCanvasTransform = (size: {
+  cx: number;
+  cy: number;
+}): CanvasTransform => {
+  const scale = Math.min(
+    IMPORT_CANVAS_WIDTH / size.cx,
+    IMPORT_CANVAS_HEIGHT / size.cy,
+  );
+  return {
+    scale,
+    offsetX: (IMPORT_CANVAS_WIDTH - size.cx * scale) / 2,
+    offsetY: (IMPORT_CANVAS_HEIGHT - size.cy * scale) / 2,
+  };
+};
+
+const readTheme = async (zip: JSZip): Promise<ThemeInfo> => {
+  const themePath = Object.keys(zip.files)
+    .filter((name) => /^ppt\/theme\/theme\d+\.xml$/.test(name))
+    .sort()[0];
+  const xml = themePath ? await readZipText(zip, themePath) : null;
+  const scheme = findBlock(xml, "a:clrScheme");
+  const colors: Record<string, string> = {};
+  for (const name of [
+    "dk1",
+    "lt1",
+    "dk2",
+    "lt2",
+    "accent1",
+    "accent2",
+    "accent3",
+    "accent4",
+    "accent5",
+    "accent6",
+    "hlink",
+    "folHlink",
+  ]) {
+    const block = findBlock(scheme, `a:${name}`);
+    const srgb = getAttr(findTag(block, "a:srgbClr"), "val");
+    const sys = getAttr(findTag(block, "a:sysClr"), "lastClr");
+    const color = toHexColor(srgb) ?? toHexColor(sys);
+    if (color) colors[name] = color;
+  }
+  // Text/background aliases used by schemeClr
+  colors.tx1 = colors.dk1 ?? "#000000";
+  colors.bg1 = colors.lt1 ?? "#FFFFFF";
+  colors.tx2 = colors.dk2 ?? colors.tx1;
+  colors.bg2 = colors.lt2 ?? colors.bg1;
+
+  const majorFont = getAttr(
+    findTag(findBlock(xml, "a:majorFont"), "a:latin"),
+    "typeface",
+  );
+  const minorFont = getAttr(
+    findTag(findBlock(xml, "a:minorFont"), "a:latin"),
+    "typeface",
+  );
+  return {
+    colors,
+    majorFont: majorFont || "Arial",
+    minorFont: minorFont || "Arial",
+  };
+};
+
+const readFrame = (xml: string | null): EmuFrame | null => {
+  const xfrm = findBlock(xml, "a:xfrm") ?? findBlock(xml, "p:xfrm");
+  if (xfrm === null) return null;
+  const off = findTag(xfrm, "a:off");
+  const ext = findTag(xfrm, "a:ext");
+  const x = getNumberAttr(off, "x");
+  const y = getNumberAttr(off, "y");
+  const cx = getNumberAttr(ext, "cx");
+  const cy = getNumberAttr(ext, "cy");
+  if (x === null || y === null || cx === null || cy === null) return null;
+  return { x, y, cx, cy };
+};
+
+const frameToPosition = (
+  frame: EmuFrame,
+  transform: CanvasTransform,
+): PptxPositionModel => ({
+  left: Math.round(frame.x * transform.scale + transform.offsetX),
+  top: Math.round(frame.y * transform.scale + transform.offsetY),
+  width: Math.max(1, Math.round(frame.cx * transform.scale)),
+  height: Math.max(1, Math.round(frame.cy * transform.scale)),
+});
+
+/**
+ * Converts a size in points to canvas pixels at the slide's scale.
+ */
+const pointsToPx = (points: number, transform: CanvasTransform): number =>
+  Math.round(points * EMU_PER_POINT * transform.scale * 10) / 10;
+
+const resolveColor = (
+  xml: string | null,
+  theme: ThemeInfo,
+): string | undefined => {
+  const srgb = getAttr(findTag(xml, "a:srgbClr"), "val");
+  if (srgb) return toHexColor(srgb);
+  const scheme = getAttr(findTag(xml, "a:schemeClr"), "val");
+  if (scheme) return theme.colors[scheme];
+  const sys = getAttr(findTag(xml, "a:sysClr"), "lastClr");
+  if (sys) return toHexColor(sys);
+  return undefined;
+};
+
+/**
+ * Resolves the solid fill of a shape's properties, ignoring the outline.
+ */
+const resolveShapeFill = (
+  spPr: string | null,
+  theme: ThemeInfo,
+): string | undefined => {
+  if (!spPr) return undefined;
+  const withoutLine = spPr.replace(/<a:ln\b[\s\S]*?<\/a:ln>/g, "");
+  const fill = findBlock(withoutLine, "a:solidFill");
+  return fill === null ? undefined : resolveColor(fill, theme);
+};
+
+const mapAlignment = (value: string | null): PptxAlignment | undefined => {
+  switch (value) {
+    case "l":
+      return PptxAlignment.LEFT;
+    case "ctr":
+      return PptxAlignment.CENTER;
+    case "r":
+      return PptxAlignment.RIGHT;
+    case "just":
+      return PptxAlignment.JUSTIFY;
+    case "dist":
+      return PptxAlignment.DISTRIBUTE;
+    default:
+      return undefined;
+  }
+};
+
+const mapPresetGeometry = (prst: string | null): PptxShapeType => {
+  switch (prst) {
+    case "ellipse":
+      return PptxShapeType.OVAL;
+    case "roundRect":
+      return PptxShapeType.ROUNDED_RECTANGLE;
+    case "triangle":
+      return PptxShapeType.ISOSCELES_TRIANGLE;
+    case "rightArrow":
+      return PptxShapeType.RIGHT_ARROW;
+    case "chevron":
+      return PptxShapeType.CHEVRON;
+    default:
+      return PptxShapeType.RECTANGLE;
+  }
+};
+
+/**
+ * Normalizes placeholder types so title variants match each other and
+ * untyped placeholders match "body".
+ */
+const normalizePlaceholderType = (type: string | null): string => {
+  if (!type) return "body";
+  if (type === "ctrTitle") return "title";
+  if (type === "obj") return "body";
+  return type;
+};
+
+const readPlaceholder = (
+  shapeXml: string,
+): { type: string; idx: string | null } | null => {
+  const ph = findTag(findBlock(shapeXml, "p:nvPr"), "p:ph");
+  if (!ph) return null;
+  return {
+    type: normalizePlaceholderType(getAttr(ph, "type")),
+    idx: getAttr(ph, "idx"),
+  };
+};
+
+const collectPlaceholderFrames = (xml: string | null): PlaceholderFrame[] => {
+  if (!xml) return [];
+  const frames: PlaceholderFrame[] = [];
+  for (const { inner } of findAllBlocks(xml, "p:sp")) {
+    const placeholder = readPlaceholder(inner);
+    const frame = readFrame(findBlock(inner, "p:spPr"));
+    if (placeholder && frame) frames.push({ ...placeholder, frame });
+  }
+  return frames;
+};
+
+/**
+ * Loads placeholder frames from the slide's layout and that layout's master.
+ * Layout entries come first so they win over the master during lookup.
+ */
+const loadInheritedPlaceholders = async (
+  zip: JSZip,
+  slideRels: Map<string, string>,
+): Promise<{ placeholders: PlaceholderFrame[]; backgrounds: string[] }> => {
+  const layoutPath = findRelTarget(slideRels, "slideLayouts");
+  if (!layoutPath) return { placeholders: [], backgrounds: [] };
+  const layoutXml = await readZipText(zip, layoutPath);
+  const layoutRels = await readRels(zip, layoutPath);
+  const masterPath = findRelTarget(layoutRels, "slideMasters");
+  const masterXml = masterPath ? await readZipText(zip, masterPath) : null;
+  return {
+    placeholders: [
+      ...collectPlaceholderFrames(layoutXml),
+      ...collectPlaceholderFrames(masterXml),
+    ],
+    backgrounds: [layoutXml, masterXml].filter(
+      (xml): xml is string => Boolean(xml),
+    ),
+  };
+};
+
+const findPlaceholderFrame = (
+  placeholders: PlaceholderFrame[],
+  placeholder: { type: string; idx: string | null },
+): EmuFrame | null => {
+  if (placeholder.idx !== null) {
+    const byIdx = placeholders.find(
+      (candidate) => candidate.idx === placeholder.idx,
+    );
+    if (byIdx) return byIdx.frame;
+  }
+  const byType = placeholders.find(
+    (candidate) => candidate.type === placeholder.type,
+  );
+  return byType ? byType.frame : null;
+};
+
+/**
+ * Parses the paragraphs of a <p:txBody> or <a:txBody>.
+ *
+ * Runs inherit a default size (larger for titles) and the theme font when
+ * the slide does not override them. Empty paragraphs are dropped.
+ */
+const parseParagraphs = (
+  txBody: string | null,
+  context: SlideContext,
+  isTitle: boolean,
+): PptxParagraphModel[] => {
+  if (!txBody) return [];
+  const { theme, transform } = context;
+  const defaultSize = isTitle ? 40 : 18;
+  const defaultFace = isTitle ? theme.majorFont : theme.minorFont;
+  const paragraphs: PptxParagraphModel[] = [];
+
+  for (const { inner } of findAllBlocks(txBody, "a:p")) {
+    const pPr = findTag(inner, "a:pPr");
+    const runs: PptxTextRunModel[] = [];
+    const runRegex =
+      /<a:(r|fld)(?=[\s>])[^>]*>([\s\S]*?)<\/a:\1>|<a:br\b[^>]*\/>/g;
+    let match: RegExpExecArray | null = null;
+    while ((match = runRegex.exec(inner))) {
+      if (!match[1]) {
+        runs.push({ text: "\n" });
+        continue;
+      }
+      const runXml = match[2];
+      const rPrTag = findTag(runXml, "a:rPr");
+      const rPrInner = findBlock(runXml, "a:rPr");
+      const text = decodeXml(findBlock(runXml, "a:t") ?? "");
+      const size = getNumberAttr(rPrTag, "sz");
+      const face = getAttr(findTag(rPrInner, "a:latin"), "typeface");
+      const font: PptxFontModel = {
+        name: face && !face.startsWith("+") ? face : defaultFace,
+        size: pointsToPx(size ? size / 100 : defaultSize, transform),
+        font_weight: getAttr(rPrTag, "b") === "1" ? 700 : 400,
+        italic: getAttr(rPrTag, "i") === "1",
+        color:
+          resolveColor(findBlock(rPrInner, "a:solidFill"), theme) ??
+          theme.colors.tx1,
+        underline: Boolean(getAttr(rPrTag, "u")) && getAttr(rPrTag, "u") !== "none",
+        strike:
+          Boolean(getAttr(rPrTag, "strike")) &&
+          getAttr(rPrTag, "strike") !== "noStrike",
+      };
+      runs.push({ text, font });
+    }
+
+    const text = runs.map((run) => run.text).join("");
+    if (!text.trim()) continue;
+    paragraphs.push({
+      alignment: mapAlignment(getAttr(pPr, "algn")),
+      font: runs.find((run) => run.font)?.font,
+      text,
+      text_runs: runs,
+    });
+  }
+  return paragraphs;
+};
+
+const parseTextShape = (
+  shapeXml: string,
+  context: SlideContext,
+): PptxTextBoxModel | PptxAutoShapeBoxModel | null => {
+  const placeholder = readPlaceholder(shapeXml);
+  const spPr = findBlock(shapeXml, "p:spPr");
+  const frame =
+    readFrame(spPr) ??
+    (placeholder
+      ? findPlaceholderFrame(context.placeholders, placeholder)
+      : null);
+  if (!frame) return null;
+
+  const position = frameToPosition(frame, context.transform);
+  const isTitle = placeholder?.type === "title";
+  const paragraphs = parseParagraphs(
+    findBlock(shapeXml, "p:txBody"),
+    context,
+    isTitle,
+  );
+  const fillColor = resolveShapeFill(spPr, context.theme);
+  const fill = fillColor ? { color: fillColor, opacity: 1 } : undefined;
+  const prst = getAttr(findTag(spPr, "a:prstGeom"), "prst");
+  const wrap = getAttr(findTag(shapeXml, "a:bodyPr"), "wrap");
+
+  if (paragraphs.length > 0) {
+    return {
+      shape_type: "textbox",
+      position,
+      fill,
+      text_wrap: wrap !== "none",
+      paragraphs,
+    };
+  }
+  if (fill) {
+    return {
+      shape_type: "autoshape",
+      type: mapPresetGeometry(prst),
+      position,
+      fill,
+      text_wrap: true,
+    };
+  }
+  return null;
+};
+
+const parseConnector = (
+  shapeXml: string,
+  context: SlideContext,
+): PptxConnectorModel | null => {
+  const spPr = findBlock(shapeXml, "p:spPr");
+  const frame = readFrame(spPr);
+  if (!frame) return null;
+  const lineTag = findTag(spPr, "a:ln");
+  const line = findBlock(spPr, "a:ln");
+  const width = getNumberAttr(lineTag, "w") ?? EMU_PER_POINT;
+  return {
+    shape_type: "connector",
+    type: PptxConnectorType.STRAIGHT,
+    position: frameToPosition(frame, context.transform),
+    thickness: Math.max(1, Math.round(width * context.transform.scale)),
+    color:
+      resolveColor(findBlock(line, "a:solidFill"), context.theme) ??
+      context.theme.colors.tx1,
+    opacity: 1,
+  };
+};
+
+/**
+ * Reads an embedded image through its relationship id and hands it to the
+ * media saver. Returns null for missing parts and non-raster formats.
+ */
+const loadEmbeddedImage = async (
+  relId: string | null,
+  context: SlideContext,
+): Promise<string | null> => {
+  if (!relId) return null;
+  const target = context.rels.get(relId);
+  if (!target) return null;
+  const mimeType = IMAGE_MIME_TYPES[path.posix.extname(target).toLowerCase()];
+  const file = context.zip.file(target);
+  if (!mimeType || !file) return null;
+  const data = Buffer.from(await file.async("uint8array"));
+  return context.saveMedia(path.posix.basename(target), data, mimeType);
+};
+
+const parsePicture = async (
+  shapeXml: string,
+  context: SlideContext,
+): Promise<PptxPictureBoxModel | null> => {
+  const placeholder = readPlaceholder(shapeXml);
+  const frame =
+    readFrame(findBlock(shapeXml, "p:spPr")) ??
+    (placeholder
+      ? findPlaceholderFrame(context.placeholders, placeholder)
+      : null);
+  if (!frame) return null;
+  const embed = getAttr(findTag(shapeXml, "a:blip"), "r:embed");
+  const imagePath = await loadEmbeddedImage(embed, context);
+  if (!imagePath) return null;
+  return {
+    shape_type: "picture",
+    position: frameToPosition(frame, context.transform),
+    clip: true,
+    picture: { is_network: imagePath.startsWith("http"), path: imagePath },
+  };
+};
+
+const parseTable = (
+  frameXml: string,
+  tableXml: string,
+  context: SlideContext,
+): PptxTableModel | null => {
+  const frame = readFrame(frameXml);
+  if (!frame) return null;
+  const { transform } = context;
+  const colWidths = findAllBlocks(tableXml, "a:gridCol").map(({ tag }) =>
+    Math.round((getNumberAttr(tag, "w") ?? 0) * transform.scale),
+  );
+  const rows: PptxTableRow[] = findAllBlocks(tableXml, "a:tr").map(
+    ({ tag, inner }) => {
+      const cells = findAllBlocks(inner, "a:tc")
+        // Cells covered by a merge carry hMerge/vMerge and hold no content
+        .filter(
+          (cell) =>
+            getAttr(cell.tag, "hMerge") !== "1" &&
+            getAttr(cell.tag, "vMerge") !== "1",
+        )
+        .map((cell) => {
+          const paragraphs = parseParagraphs(
+            findBlock(cell.inner, "a:txBody"),
+            context,
+            false,
+          );
+          const fillColor = resolveShapeFill(
+            findBlock(cell.inner, "a:tcPr"),
+            context.theme,
+          );
+          return {
+            text: paragraphs.map((p) => p.text || "").join("\n"),
+            font: paragraphs[0]?.font,
+            fill: fillColor ? { color: fillColor, opacity: 1 } : undefined,
+            colspan: getNumberAttr(cell.tag, "gridSpan") ?? undefined,
+            rowspan: getNumberAttr(cell.tag, "rowSpan") ?? undefined,
+          };
+        });
+      const height = getNumberAttr(tag, "h");
+      return {
+        cells,
+        height: height ? Math.round(height * transform.scale) : undefined,
+      };
+    },
+  );
+  if (rows.length === 0) return null;
+  return {
+    shape_type: "table",
+    position: frameToPosition(frame, transform),
+    rows,
+    options: { colWidths },
+  };
+};
+
+const CHART_TYPE_TAGS = [
+  "c:barChart",
+  "c:bar3DChart",
+  "c:lineChart",
+  "c:line3DChart",
+  "c:areaChart",
+  "c:area3DChart",
+  "c:pieChart",
+  "c:pie3DChart",
+  "c:doughnutChart",
+  "c:scatterChart",
+  "c:radarChart",
+  "c:bubbleChart",
+];
+
+const mapChartType = (tagName: string, plotXml: string): PptxChartType => {
+  const grouping = getAttr(findTag(plotXml, "c:grouping"), "val") || "";
+  const stacked = grouping.toLowerCase().includes("stacked");
+  if (tagName.startsWith("c:bar")) {
+    return stacked ? PptxChartType.BAR_STACKED : PptxChartType.BAR;
+  }
+  if (tagName.startsWith("c:line")) {
+    return stacked ? PptxChartType.LINE_STACKED : PptxChartType.LINE;
+  }
+  if (tagName.startsWith("c:area")) {
+    return stacked ? PptxChartType.AREA_STACKED : PptxChartType.AREA;
+  }
+  if (tagName.startsWith("c:pie")) return PptxChartType.PIE;
+  if (tagName === "c:doughnutChart") return PptxChartType.DOUGHNUT;
+  if (tagName === "c:scatterChart") return PptxChartType.SCATTER;
+  if (tagName === "c:radarChart") return PptxChartType.RADAR;
+  return PptxChartType.BUBBLE;
+};
+
+/**
+ * Reads the cached point values of a category or value reference.
+ */
+const readChartPoints = (xml: string | null): string[] => {
+  const points: string[] = [];
+  for (const { tag, inner } of findAllBlocks(xml, "c:pt")) {
+    const index = getNumberAttr(tag, "idx") ?? points.length;
+    points[index] = decodeXml(findBlock(inner, "c:v") ?? "");
+  }
+  return Array.from(points, (value) => value ?? "");
+};
+
+const parseChart = async (
+  frameXml: string,
+  relId: string | null,
+  context: SlideContext,
+): Promise<PptxChartModel | null> => {
+  const frame = readFrame(frameXml);
+  const target = relId ? context.rels.get(relId) : null;
+  if (!frame || !target) return null;
+  const chartXml = await readZipText(context.zip, target);
+  const plotArea = findBlock(chartXml, "c:plotArea");
+  const typeTag = CHART_TYPE_TAGS.find((tag) => findTag(plotArea, tag));
+  if (!plotArea || !typeTag) return null;
+  const plotXml = findBlock(plotArea, typeTag) ?? "";
+
+  const data: PptxChartSeries[] = findAllBlocks(plotXml, "c:ser").map(
+    ({ inner }, index) => {
+      const name =
+        decodeXml(findBlock(findBlock(inner, "c:tx"), "c:v") ?? "") ||
+        `Series ${index + 1}`;
+      const labels = readChartPoints(
+        findBlock(inner, "c:cat") ?? findBlock(inner, "c:xVal"),
+      );
+      const values = readChartPoints(
+        findBlock(inner, "c:val") ?? findBlock(inner, "c:yVal"),
+      ).map((value) => Number(value) || 0);
+      return {
+        name,
+        labels: labels.length ? labels : values.map((_, i) => `${i + 1}`),
+        values,
+      };
+    },
+  );
+  if (data.length === 0) return null;
+
+  const title = collectText(findBlock(chartXml, "c:title")).trim();
+  const barDir = getAttr(findTag(plotXml, "c:barDir"), "val");
+  return {
+    shape_type: "chart",
+    chartType: mapChartType(typeTag, plotXml),
+    position: frameToPosition(frame, context.transform),
+    data,
+    options: {
+      title: title || undefined,
+      showLegend: Boolean(findTag(chartXml, "c:legend")),
+      barDir: barDir === "bar" ? "bar" : barDir === "col" ? "col" : undefined,
+    },
+  };
+};
+
+const parseGraphicFrame = async (
+  frameXml: string,
+  context: SlideContext,
+): Promise<PptxTableModel | PptxChartModel | null> => {
+  const table = findBlock(frameXml, "a:tbl");
+  if (table !== null) return parseTable(frameXml, table, context);
+  const chartTag = findTag(frameXml, "c:chart");
+  if (chartTag) return parseChart(frameXml, getAttr(chartTag, "r:id"), context);
+  return null;
+};
+
+/**
+ * Resolves the slide background, falling back to the layout and master.
+ */
+const parseBackground = async (
+  sources: string[],
+  context: SlideContext,
+): Promise<Pick<PptxSlideModel, "background" | "backgroundImage">> => {
+  for (const xml of sources) {
+    const bg = findBlock(xml, "p:bg");
+    if (bg === null) continue;
+    const bgPr = findBlock(bg, "p:bgPr");
+    const fill = findBlock(bgPr, "a:solidFill");
+    if (fill !== null) {
+      const color = resolveColor(fill, context.theme);
+      if (color) return { background: { color, opacity: 1 } };
+    }
+    // Only the slide's own relationships are loaded, so picture backgrounds
+    // inherited from a layout or master are not resolved.
+    if (xml === sources[0]) {
+      const embed = getAttr(findTag(bgPr, "a:blip"), "r:embed");
+      const image = await loadEmbeddedImage(embed, context);
+      if (image) return { backgroundImage: image };
+    }
+    const ref = findTag(bg, "p:bgRef");
+    if (ref) {
+      const color = resolveColor(findBlock(bg, "p:bgRef"), context.theme);
+      if (color) return { background: { color, opacity: 1 } };
+    }
+  }
+  return { background: { color: context.theme.colors.bg1, opacity: 1 } };
+};
+
+const parseNotes = async (
+  zip: JSZip,
+  rels: Map<string, string>,
+): Promise<string | undefined> => {
+  const notesPath = findRelTarget(rels, "notesSlides");
+  const xml = notesPath ? await readZipText(zip, notesPath) : null;
+  if (!xml) return undefined;
+  for (const { inner } of findAllBlocks(xml, "p:sp")) {
+    if (readPlaceholder(inner)?.type !== "body") continue;
+    const text = findAllBlocks(findBlock(inner, "p:txBody"), "a:p")
+      .map((p) => collectText(p.inner))
+      .join("\n")
+      .trim();
+    if (text) return text;
+  }
+  return undefined;
+};
+
+/**
+ * Picks a slide title: the title placeholder's text, otherwise the text box
+ * with the largest font.
+ */
+const resolveSlideTitle = (
+  slideXml: string,
+  shapes: AnyImportedShape[],
+  slideNumber: number,
+): string => {
+  for (const { inner } of findAllBlocks(slideXml, "p:sp")) {
+    if (readPlaceholder(inner)?.type !== "title") continue;
+    const text = collectText(findBlock(inner, "p:txBody")).trim();
+    if (text) return text;
+  }
+  let best: { text: string; size: number } | null = null;
+  for (const shape of shapes) {
+    if (shape.shape_type !== "textbox") continue;
+    const first = (shape as PptxTextBoxModel).paragraphs[0];
+    const size = first?.font?.size ?? 0;
+    if (first?.text && (!best || size > best.size)) {
+      best = { text: first.text.trim(), size };
+    }
+  }
+  return best?.text || `Slide ${slideNumber}`;
+};
+
+const toDataUri: PptxMediaSaver = async (_fileName, data, mimeType) =>
+  `data:${mimeType};base64,${data.toString("base64")}`;
+
+/**
+ * Parses a PPTX file into slide models.
+ *
+ * Shapes are read in document order so the resulting `shapes` array keeps the
+ * original z-order. Children of group shapes are placed using their own
+ * offsets, which matches the group frame for unscaled groups (the common case
+ * for decks built in PowerPoint or Keynote).
+ *
+ * @param pptxPath - Path to the PPTX file.
+ * @param options - Optional media saver for embedded pictures.
+ * @returns Promise that resolves to the parsed slides in presentation order.
+ *
+ * @example
+ * ```typescript
+ * const { slides } = await parsePptxFile("/tmp/q3-board.pptx");
+ * // slides[0].title === "Q3 Board Update"
+ * // slides[0].model.shapes[0].shape_type === "textbox"
+ * ```
+ */
+export const parsePptxFile = async (
+  pptxPath: string,
+  options: ParsePptxOptions = {},
+): Promise<ImportedPptx> => {
+  const buffer = await fs.readFile(pptxPath);
+  const zip = await JSZip.loadAsync(buffer);
+  const transform = buildCanvasTransform(await readSlideSize(zip));
+  const theme = await readTheme(zip);
+  const saveMedia = options.saveMedia ?? toDataUri;
+
+  const slides: ImportedPptxSlide[] = [];
+  const slideFiles = await getSlideFileNames(zip);
+  for (const [index, slidePath] of slideFiles.entries()) {
+    const rawXml = (await readZipText(zip, slidePath)) ?? "";
+    const slideXml = stripAlternateFallbacks(rawXml);
+    const rels = await readRels(zip, slidePath);
+    const inherited = await loadInheritedPlaceholders(zip, rels);
+    const context: SlideContext = {
+      zip,
+      slidePath,
+      rels,
+      theme,
+      placeholders: inherited.placeholders,
+      transform,
+      saveMedia,
+    };
+
+    const shapes: AnyImportedShape[] = [];
+    const shapeTree = findBlock(slideXml, "p:spTree") ?? "";
+    const shapeRegex =
+      /<p:(sp|pic|graphicFrame|cxnSp)(?=[\s>])[^>]*>([\s\S]*?)<\/p:\1>/g;
+    let match: RegExpExecArray | null = null;
+    while ((match = shapeRegex.exec(shapeTree))) {
+      const [, kind, inner] = match;
+      let shape: AnyImportedShape | null = null;
+      if (kind === "sp") shape = parseTextShape(inner, context);
+      else if (kind === "pic") shape = await parsePicture(inner, context);
+      else if (kind === "graphicFrame")
+        shape = await parseGraphicFrame(inner, context);
+      else shape = parseConnector(inner, context);
+      if (shape) shapes.push(shape);
+    }
+
+    const background = await parseBackground(
+      [slideXml, ...inherited.backgrounds],
+      context,
+    );
+    const slideNumber = index + 1;
+    slides.push({
+      slide_number: slideNumber,
+      title: resolveSlideTitle(slideXml, shapes, slideNumber),
+      xml_content: rawXml,
+      fonts: Array.from(
+        new Set(
+          extractFontsFromOxml(rawXml)
+            .map((font) => normalizeFontFamilyName(font))
+            .filter(Boolean),
+        ),
+      ),
+      model: {
+        ...background,
+        shapes,
+        note: await parseNotes(zip, rels),
+      },
+    });
+  }
+
+  return { slides };
+};
+
+const alignmentToCss = (
+  alignment?: PptxAlignment,
+): ImportedSlideElement["align"] => {
+  switch (alignment) {
+    case PptxAlignment.CENTER:
+      return "center";
+    case PptxAlignment.RIGHT:
+      return "right";
+    case PptxAlignment.JUSTIFY:
+    case PptxAlignment.DISTRIBUTE:
+      return "justify";
+    default:
+      return undefined;
+  }
+};
+
+/**
+ * Flattens a parsed slide into the content shape rendered by the
+ * `imported:imported-slide` layout.
+ *
+ * Text is kept per paragraph so each line is individually editable in the
+ * slide editor.
+ *
+ * @param slide - Parsed slide.
+ * @returns Slide content for a Slide record.
+ */
+export const toImportedSlideContent = (
+  slide: ImportedPptxSlide,
+): ImportedSlideData => {
+  const elements: ImportedSlideElement[] = [];
+  for (const shape of slide.model.shapes) {
+    const { left, top, width, height } = shape.position;
+    const frame = { left, top, width, height };
+    switch (shape.shape_type) {
+      case "textbox": {
+        const textbox = shape as PptxTextBoxModel;
+        const font = textbox.paragraphs[0]?.font;
+        elements.push({
+          kind: "text",
+          ...frame,
+          paragraphs: textbox.paragraphs.map((p) => p.text || ""),
+          fontSize: font?.size,
+          fontWeight: font?.font_weight,
+          italic: font?.italic,
+          color: font?.color,
+          fontFamily: font?.name,
+          align: alignmentToCss(textbox.paragraphs[0]?.alignment),
+          fill: textbox.fill?.color,
+        });
+        break;
+      }
+      case "autoshape": {
+        const autoshape = shape as PptxAutoShapeBoxModel;
+        elements.push({
+          kind: "shape",
+          ...frame,
+          fill: autoshape.fill?.color,
+          shape:
+            autoshape.type === PptxShapeType.OVAL
+              ? "ellipse"
+              : autoshape.type === PptxShapeType.ROUNDED_RECTANGLE
+                ? "rounded"
+                : "rect",
+        });
+        break;
+      }
+      case "connector": {
+        const connector = shape as PptxConnectorModel;
+        elements.push({ kind: "line", ...frame, fill: connector.color });
+        break;
+      }
+      case "picture":
+        elements.push({
+          kind: "picture",
+          ...frame,
+          src: (shape as PptxPictureBoxModel).picture.path,
+        });
+        break;
+      case "table":
+        elements.push({
+          kind: "table",
+          ...frame,
+          rows: (shape as PptxTableModel).rows.map((row) =>
+            row.cells.map((cell) => cell.text),
+          ),
+        });
+        break;
+      case "chart": {
+        const chart = shape as PptxChartModel;
+        elements.push({
+          kind: "chart",
+          ...frame,
+          chartType: chart.chartType,
+          chartTitle: chart.options?.title,
+          categories: chart.data[0]?.labels ?? [],
+          series: chart.data.map((series) => ({
+            name: series.name,
+            values: series.values,
+          })),
+        });
+        break;
+      }
+    }
+  }
+
+  return {
+    title: slide.title,
+    background: slide.model.background?.color ?? "#FFFFFF",
+    backgroundImage: slide.model.backgroundImage,
+    elements,
+  };
+};
+
+const escapeMarkdownCell = (value: string) =>
+  value.replace(/\|/g, "\\|").replace(/\n/g, " ");
+
+/**
+ * Converts a parsed slide into markdown suitable for an outline.
+ *
+ * The title becomes a heading, remaining text becomes bullets, and tables
+ * and chart data become markdown tables so the regeneration prompt sees the
+ * numbers.
+ *
+ * @param slide - Parsed slide.
+ * @returns Markdown summary of the slide.
+ */
+export const importedSlideToMarkdown = (slide: ImportedPptxSlide): string => {
+  const lines: string[] = [`# ${slide.title}`];
+  const pushTable = (rows: string[][]) => {
+    if (rows.length === 0) return;
+    const width = Math.max(...rows.map((row) => row.length));
+    const pad = (row: string[]) =>
+      Array.from({ length: width }, (_, i) =>
+        escapeMarkdownCell(row[i] ?? ""),
+      );
+    lines.push("", `| ${pad(rows[0]).join(" | ")} |`);
+    lines.push(`| ${Array(width).fill("---").join(" | ")} |`);
+    rows.slice(1).forEach((row) => lines.push(`| ${pad(row).join(" | ")} |`));
+    lines.push("");
+  };
+
+  for (const shape of slide.model.shapes) {
+    if (shape.shape_type === "textbox") {
+      for (const paragraph of (shape as PptxTextBoxModel).paragraphs) {
+        const text = (paragraph.text || "").trim();
+        if (text && text !== slide.title) lines.push(`- ${text}`);
+      }
+    } else if (shape.shape_type === "table") {
+      pushTable(
+        (shape as PptxTableModel).rows.map((row) =>
+          row.cells.map((cell) => cell.text),
+        ),
+      );
+    } else if (shape.shape_type === "chart") {
+      const chart = shape as PptxChartModel;
+      lines.push(`- Chart (${chart.chartType}): ${chart.options?.title ?? ""}`);
+      const labels = chart.data[0]?.labels ?? [];
+      pushTable([
+        ["", ...labels],
+        ...chart.data.map((series) => [
+          series.name,
+          ...series.values.map(String),
+        ]),
+      ]);
+    }
+  }
+  return lines.join("\n").trim();
+};
+
+const escapeHtml = (value: string): string =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+
+/**
+ * Returns a CSS color for the rendered HTML: the value if it is "#RRGGBB",
+ * otherwise the fallback.
+ */
+const cssColor = (value: string | undefined, fallback: string): string =>
+  value && /^#[0-9A-F]{6}$/i.test(value) ? value : fallback;
+
+/**
+ * Makes a value safe inside a quoted CSS string in a style attribute.
+ *
+ * Entities are decoded before the CSS is parsed, so the characters that
+ * end a CSS string (quotes, backslashes, line breaks) are dropped rather
+ * than escaped.
+ */
+const cssString = (value: string): string =>
+  escapeHtml(value.replace(/['"\\\n\r]/g, ""));
+
+const positionStyle = ({ left, top, width, height }: PptxPositionModel) =>
+  `position:absolute;left:${left}px;top:${top}px;width:${width}px;height:${height}px;`;
+
+const fontStyle = (font?: Partial<PptxFontModel>) => {
+  if (!font) return "";
+  return [
+    font.name ? `font-family:'${cssString(font.name)}',Arial,sans-serif;` : "",
+    font.size ? `font-size:${Number(font.size)}px;` : "",
+    font.font_weight ? `font-weight:${Number(font.font_weight)};` : "",
+    font.italic ? "font-style:italic;" : "",
+    font.color ? `color:${cssColor(font.color, "inherit")};` : "",
+    font.underline ? "text-decoration:underline;" : "",
+  ].join("");
+};
+
+const renderChartHtml = (chart: PptxChartModel): string => {
+  const palette = ["#4472C4", "#ED7D31", "#A5A5A5", "#FFC000", "#5B9BD5"];
+  const title = chart.options?.title
+    ? `<div style="font-size:14px;font-weight:600;text-align:center;">${escapeHtml(chart.options.title)}</div>`
+    : "";
+  const series = chart.data[0];
+  if (!series) return "";
+
+  if (
+    chart.chartType === PptxChartType.PIE ||
+    chart.chartType === PptxChartType.DOUGHNUT
+  ) {
+    const total = series.values.reduce((sum, v) => sum + Math.max(v, 0), 0) || 1;
+    let angle = 0;
+    const stops = series.values.map((value, i) => {
+      const start = angle;
+      angle += (Math.max(value, 0) / total) * 360;
+      return `${palette[i % palette.length]} ${start}deg ${angle}deg`;
+    });
+    const hole =
+      chart.chartType === PptxChartType.DOUGHNUT
+        ? `<div style="position:absolute;inset:25%;border-radius:50%;background:#fff;"></div>`
+        : "";
+    return `${title}<div style="position:relative;margin:8px auto;height:calc(100% - 32px);aspect-ratio:1;border-radius:50%;background:conic-gradient(${stops.join(",")});">${hole}</div>`;
+  }
+
+  const max = Math.max(...chart.data.flatMap((s) => s.values), 1);
+  const bars = series.labels
+    .map((label, i) => {
+      const columns = chart.data
+        .map(
+          (s, si) =>
+            `<div style="flex:1;background:${palette[si % palette.length]};height:${(Math.max(s.values[i] ?? 0, 0) / max) * 100}%;"></div>`,
+        )
+        .join("");
+      return `<div style="flex:1;display:flex;flex-direction:column;justify-content:flex-end;align-items:stretch;"><div style="display:flex;align-items:flex-end;gap:2px;height:100%;">${columns}</div><div style="font-size:11px;text-align:center;overflow:hidden;white-space:nowrap;">${escapeHtml(label)}</div></div>`;
+    })
+    .join("");
+  return `${title}<div style="display:flex;gap:8px;height:calc(100% - 24px);padding:4px;">${bars}</div>`;
+};
+
+/**
+ * Renders a parsed slide as an absolutely positioned 1280x720 HTML fragment.
+ *
+ * The output is a single <section> element with inline styles only, so it can
+ * be embedded in a standalone document or stored as a slide's html_content.
+ *
+ * @param slide - Slide model to render.
+ * @returns HTML string for the slide.
+ */
+export const renderSlideModelToHtml = (slide: PptxSlideModel): string => {
+  const background = slide.backgroundImage
+    ? `background:url('${cssString(slide.backgroundImage)}') center/cover no-repeat;`
+    : `background:${cssColor(slide.background?.color, "#FFFFFF")};`;
+  const parts = slide.shapes.map((shape) => {
+    const style = positionStyle(shape.position);
+    switch (shape.shape_type) {
+      case "textbox": {
+        const textbox = shape as PptxTextBoxModel;
+        const fill = textbox.fill
+          ? `background:${cssColor(textbox.fill.color, "transparent")};`
+          : "";
+        const paragraphs = textbox.paragraphs
+          .map((paragraph) => {
+            const align = alignmentToCss(paragraph.alignment) ?? "left";
+            const runs = (paragraph.text_runs ?? [{ text: paragraph.text ?? "" }])
+              .map((run) =>
+                run.text === "\n"
+                  ? "<br/>"
+                  : `<span style="${fontStyle(run.font)}">${escapeHtml(run.text)}</span>`,
+              )
+              .join("");
+            return `<p style="margin:0;line-height:1.2;text-align:${align};">${runs}</p>`;
+          })
+          .join("");
+        return `<div style="${style}${fill}overflow:hidden;white-space:${textbox.text_wrap ? "normal" : "nowrap"};">${paragraphs}</div>`;
+      }
+      case "autoshape": {
+        const autoshape = shape as PptxAutoShapeBoxModel;
+        const radius =
+          autoshape.type === PptxShapeType.OVAL
+            ? "border-radius:50%;"
+            : autoshape.type === PptxShapeType.ROUNDED_RECTANGLE
+              ? "border-radius:12px;"
+              : "";
+        return `<div style="${style}${radius}background:${cssColor(autoshape.fill?.color, "transparent")};"></div>`;
+      }
+      case "connector": {
+        const connector = shape as PptxConnectorModel;
+        return `<div style="${style}border-top:${Number(connector.thickness)}px solid ${cssColor(connector.color, "#000000")};height:0;"></div>`;
+      }
+      case "picture":
+        return `<img src="${escapeHtml((shape as PptxPictureBoxModel).picture.path)}" style="${style}object-fit:cover;"/>`;
+      case "table": {
+        const rows = (shape as PptxTableModel).rows
+          .map(
+            (row) =>
+              `<tr>${row.cells
+                .map(
+                  (cell) =>
+                    `<td colspan="${Number(cell.colspan ?? 1)}" rowspan="${Number(cell.rowspan ?? 1)}" style="border:1px solid #BFBFBF;padding:4px 6px;${cell.fill ? `background:${cssColor(cell.fill.color, "transparent")};` : ""}${fontStyle(cell.font)}">${escapeHtml(cell.text).replace(/\n/g, "<br/>")}</td>`,
+                )
+                .join("")}</tr>`,
+          )
+          .join("");
+        return `<table style="${style}border-collapse:collapse;font-size:14px;">${rows}</table>`;
+      }
+      case "chart":
+        return `<div style="${style}font-family:Arial,sans-serif;">${renderChartHtml(shape as PptxChartModel)}</div>`;
+      default:
+        return "";
+    }
+  });
+
+  return `<section style="position:relative;width:${IMPORT_CANVAS_WIDTH}px;height:${IMPORT_CANVAS_HEIGHT}px;overflow:hidden;${background}font-family:Arial,sans-serif;">${parts.join("")}</section>`;
+};
+
+const wrapHtmlDocument = (body: string): string =>
+  `<!DOCTYPE html><html><head><meta charset="utf-8"/><style>*{box-sizing:border-box}html,body{margin:0;padding:0;}section{page-break-after:always;}</style></head><body>${body}</body></html>`;
+
+/**
+ * Launches headless Chromium with the same serverless-friendly flags as the
+ * PDF exporter.
+ */
+const launchBrowser = async () =>
+  puppeteer.launch({
+    executablePath: await getChromiumExecutablePath(),
+    headless: true,
+    args: [
+      ...chromium.args,
+      "--no-sandbox",
+      "--disable-setuid-sandbox",
+      "--disable-dev-shm-usage",
+      "--disable-gpu",
+    ],
+  });
+
+/**
+ * Checks whether the render page may load a URL: inline data and files
+ * under app_data only.
+ */
+const isRenderableUrl = (url: string): boolean => {
+  if (url.startsWith("data:")) return true;
+  try {
+    return new URL(url).pathname.startsWith("/app_data/");
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Opens a page for rendering slide HTML built from an uploaded deck.
+ *
+ * JavaScript is disabled and every request other than inline data and
+ * app_data files is aborted, so a crafted deck can neither run script nor
+ * make the server fetch other URLs.
+ */
+const openRenderPage = async (browser: Browser): Promise<Page> => {
+  const page = await browser.newPage();
+  await page.setJavaScriptEnabled(false);
+  await page.setRequestInterception(true);
+  page.on("request", (request) => {
+    if (isRenderableUrl(request.url())) {
+      void request.continue();
+    } else {
+      void request.abort();
+    }
+  });
+  return page;
+};
+
+/**
+ * Rasterizes slides to PNG thumbnails with headless Chromium.
+ *
+ * @param slides - Slide models to render.
+ * @param outputDir - Directory where `slide_<n>.png` files are written.
+ * @returns Promise that resolves to the PNG paths in slide order.
+ */
+export const renderSlideThumbnails = async (
+  slides: PptxSlideModel[],
+  outputDir: string,
+): Promise<string[]> => {
+  await fs.mkdir(outputDir, { recursive: true });
+  const browser = await launchBrowser();
+  try {
+    const page = await openRenderPage(browser);
+    await page.setViewport({
+      width: IMPORT_CANVAS_WIDTH,
+      height: IMPORT_CANVAS_HEIGHT,
+    });
+    const paths: string[] = [];
+    for (const [index, slide] of slides.entries()) {
+      await page.setContent(wrapHtmlDocument(renderSlideModelToHtml(slide)), {
+        waitUntil: "load",
+      });
+      const pngPath = path.join(outputDir, `slide_${index + 1}.png`);
+      await page.screenshot({ path: pngPath as `${string}.png`, type: "png" });
+      paths.push(pngPath);
+    }
+    return paths;
+  } finally {
+    await browser.close();
+  }
+};
+
+/**
+ * Prints slides to a PDF with one 1280x720 page per slide.
+ *
+ * @param slides - Slide models to render.
+ * @param outputPath - Destination PDF path.
+ * @returns Promise that resolves once the PDF has been written.
+ */
+export const renderSlidesToPdf = async (
+  slides: PptxSlideModel[],
+  outputPath: string,
+): Promise<void> => {
+  const browser = await launchBrowser();
+  try {
+    const page = await openRenderPage(browser);
+    await page.setContent(
+      wrapHtmlDocument(slides.map(renderSlideModelToHtml).join("")),
+      { waitUntil: "load" },
+    );
+    const pdf = await page.pdf({
+      width: `${IMPORT_CANVAS_WIDTH}px`,
+      height: `${IMPORT_CANVAS_HEIGHT}px`,
+      printBackground: true,
+      margin: { top: 0, right: 0, bottom: 0, left: 0 },
+    });
+    await fs.writeFile(outputPath, pdf);
+  } finally {
+    await browser.close();
+  }
+};
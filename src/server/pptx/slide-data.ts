@@ -0,0 +1,343 @@
+/**
+ * Native chart and table data for PPTX export, read from slide content.
+ *
+ * The PPTX model route renders each slide in a headless browser to get
+ * element positions and styles. Charts and tables, however, should not be
+ * rebuilt from the rendered DOM (which for Recharts is just SVG paths): the
+ * values come from the slide's stored content instead, so PowerPoint gets
+ * native, editable charts and tables with the real numbers.
+ *
+ * Rendered elements are tied to content fields through `SlideDataBinding`s
+ * (see `data-pptx-chart` / `data-pptx-table`). This module resolves those
+ * bindings into the `ChartDataAttribute` / `TableDataAttribute` structures
+ * the PPTX model conversion already understands.
+ *
+ * Supported content shapes:
+ * - Charts: arrays of records with one label field and numeric fields (e.g.,
+ *   `[{ month: "Jul", mrr: 80 }]`), or `{ categories, series }` objects as
+ *   stored by the PPTX importer
+ * - Tables: arrays of records, arrays of string rows (first row is the
+ *   header), or objects with a `rows` field
+ */
+
+import {
+  ChartDataAttribute,
+  SlideDataBinding,
+  TableDataAttribute,
+} from "@/types/element-attributes";
+
+/**
+ * Per-slide state used while resolving bindings.
+ *
+ * @property content - The slide's stored content.
+ * @property usedPaths - Data paths already bound to an element, so automatic
+ *   bindings pick a different chart for each rendered chart.
+ */
+export type SlideDataContext = {
+  content: Record<string, unknown>;
+  usedPaths: Set<string>;
+};
+
+/**
+ * Chart types ChartDataAttribute supports.
+ */
+const SUPPORTED_CHART_TYPES: ChartDataAttribute["type"][] = [
+  "area",
+  "bar",
+  "line",
+  "pie",
+  "doughnut",
+  "scatter",
+];
+
+/**
+ * Field names preferred as chart category labels, in order.
+ */
+const LABEL_KEY_HINTS = [
+  "label",
+  "name",
+  "category",
+  "month",
+  "quarter",
+  "year",
+  "period",
+  "date",
+];
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const isFiniteNumber = (value: unknown): value is number =>
+  typeof value === "number" && Number.isFinite(value);
+
+/**
+ * Reads a value from slide content by dot-separated path.
+ *
+ * @param content - Slide content.
+ * @param path - Path such as "chartData" or "elements.3.rows".
+ * @returns The value, or undefined if any segment is missing.
+ */
+const getValueAtPath = (content: unknown, path: string): unknown =>
+  path
+    .split(".")
+    .filter(Boolean)
+    .reduce<unknown>((value, segment) => {
+      if (Array.isArray(value)) return value[Number(segment)];
+      if (isRecord(value)) return value[segment];
+      return undefined;
+    }, content);
+
+/**
+ * Turns a field name into a header label ("netRetention" -> "Net Retention").
+ */
+const toHeaderLabel = (key: string): string =>
+  key
+    .replace(/([a-z0-9])([A-Z])/g, "$1 $2")
+    .replace(/[_-]+/g, " ")
+    .replace(/^\w/, (c) => c.toUpperCase());
+
+/**
+ * Formats a primitive content value as table cell text.
+ */
+const toCellText = (value: unknown): string => {
+  if (value === null || value === undefined) return "";
+  if (typeof value === "boolean") return value ? "Yes" : "No";
+  if (typeof value === "object") return "";
+  return String(value);
+};
+
+/**
+ * Normalizes a chart type hint to a supported type ("area-stacked" -> "area").
+ */
+const normalizeChartType = (
+  chartType: string | undefined,
+): ChartDataAttribute["type"] => {
+  const base = chartType?.toLowerCase().split("-")[0];
+  return SUPPORTED_CHART_TYPES.find((type) => type === base) ?? "bar";
+};
+
+/**
+ * Extracts chart rows, label key and series keys from a content value.
+ *
+ * @param value - Content value bound to a chart.
+ * @returns Chart rows and keys, or null if the value is not chart-like.
+ */
+const toChartRows = (
+  value: unknown,
+): Pick<ChartDataAttribute, "data" | "labelKey" | "valueKeys"> | null => {
+  // Importer shape: { categories: string[], series: [{ name, values }] }
+  if (isRecord(value) && Array.isArray(value.series)) {
+    const series = value.series.filter(
+      (s): s is { name: string; values: number[] } =>
+        isRecord(s) && typeof s.name === "string" && Array.isArray(s.values),
+    );
+    if (series.length === 0) return null;
+    const categories = Array.isArray(value.categories)
+      ? value.categories.map(String)
+      : [];
+    const length = Math.max(...series.map((s) => s.values.length));
+    const valueKeys = series.map((s, i) => s.name || `Series ${i + 1}`);
+    const data = Array.from({ length }, (_, i) => {
+      const row: Record<string, string | number> = {
+        label: categories[i] ?? `Category ${i + 1}`,
+      };
+      series.forEach((s, j) => {
+        row[valueKeys[j]] = isFiniteNumber(s.values[i]) ? s.values[i] : 0;
+      });
+      return row;
+    });
+    return { data, labelKey: "label", valueKeys };
+  }
+
+  if (!Array.isArray(value) || value.length === 0) return null;
+  if (!value.every(isRecord)) return null;
+  const items = value as Record<string, unknown>[];
+  const keys = Object.keys(items[0]);
+
+  const valueKeys = keys.filter((key) =>
+    items.every((item) => isFiniteNumber(item[key])),
+  );
+  const labelKeys = keys.filter((key) =>
+    items.every((item) => typeof item[key] === "string"),
+  );
+  const labelKey =
+    LABEL_KEY_HINTS.find((hint) => labelKeys.includes(hint)) ?? labelKeys[0];
+  if (!labelKey || valueKeys.length === 0) return null;
+
+  const data = items.map((item) => {
+    const row: Record<string, string | number> = {
+      [labelKey]: item[labelKey] as string,
+    };
+    for (const key of valueKeys) row[key] = item[key] as number;
+    return row;
+  });
+  return { data, labelKey, valueKeys };
+};
+
+/**
+ * Checks whether a content value is chart data on its own, for bindings
+ * without an explicit path.
+ *
+ * Arrays of records only qualify when every field is either the label or a
+ * series, so lists of cards or positioned elements that happen to contain
+ * numbers are not mistaken for chart data.
+ *
+ * @param value - Content value.
+ * @returns True if the value can be charted without a hint.
+ */
+const isChartField = (value: unknown): boolean => {
+  const rows = toChartRows(value);
+  if (!rows?.valueKeys) return false;
+  const fieldCount = rows.valueKeys.length + 1;
+  return (
+    !Array.isArray(value) ||
+    value.every((item) => Object.keys(item).length === fieldCount)
+  );
+};
+
+/**
+ * Lists the paths of chart-like fields in slide content, in field order.
+ *
+ * Only top-level fields and the elements of top-level arrays (as used by
+ * imported slides) are considered.
+ *
+ * @param content - Slide content.
+ * @returns Data paths whose values can be charted.
+ */
+const findChartPaths = (content: Record<string, unknown>): string[] => {
+  const paths: string[] = [];
+  for (const [key, value] of Object.entries(content)) {
+    if (isChartField(value)) {
+      paths.push(key);
+    } else if (Array.isArray(value)) {
+      value.forEach((item, i) => {
+        if (isChartField(item)) paths.push(`${key}.${i}`);
+      });
+    }
+  }
+  return paths;
+};
+
+/**
+ * Builds chart data for a chart binding.
+ *
+ * @param binding - The element's chart binding.
+ * @param context - The slide's content and already bound paths.
+ * @returns Chart data, or undefined if the bound field is missing or is not
+ *   chart-like.
+ */
+const resolveChartBinding = (
+  binding: SlideDataBinding,
+  context: SlideDataContext,
+): ChartDataAttribute | undefined => {
+  const path =
+    binding.path ||
+    findChartPaths(context.content).find((p) => !context.usedPaths.has(p));
+  if (!path) return undefined;
+
+  const value = getValueAtPath(context.content, path);
+  const rows = toChartRows(value);
+  if (!rows || !rows.valueKeys?.length) return undefined;
+  context.usedPaths.add(path);
+
+  const chartType =
+    binding.chartType ??
+    (isRecord(value) && typeof value.chartType === "string"
+      ? value.chartType
+      : undefined);
+  const title =
+    binding.title ??
+    (isRecord(value) && typeof value.chartTitle === "string"
+      ? value.chartTitle
+      : undefined);
+
+  return {
+    type: normalizeChartType(chartType),
+    title: title || undefined,
+    data: rows.data,
+    labelKey: rows.labelKey,
+    valueKey: rows.valueKeys[0],
+    valueKeys: rows.valueKeys,
+    color: binding.color,
+    colors: binding.colors,
+    barDir: binding.barDir,
+  };
+};
+
+/**
+ * Builds table data for a table binding.
+ *
+ * @param binding - The element's table binding.
+ * @param context - The slide's content and already bound paths.
+ * @returns Table data, or undefined if the bound field is missing or is not
+ *   tabular.
+ */
+const resolveTableBinding = (
+  binding: SlideDataBinding,
+  context: SlideDataContext,
+): TableDataAttribute | undefined => {
+  if (!binding.path) return undefined;
+  let value = getValueAtPath(context.content, binding.path);
+  if (isRecord(value) && Array.isArray(value.rows)) value = value.rows;
+  if (!Array.isArray(value) || value.length === 0) return undefined;
+
+  let headers: string[] | undefined;
+  let rows: string[][];
+  if (value.every(Array.isArray)) {
+    const stringRows = (value as unknown[][]).map((row) =>
+      row.map(toCellText),
+    );
+    headers = binding.headers ?? stringRows[0];
+    rows = binding.headers ? stringRows : stringRows.slice(1);
+  } else if (value.every(isRecord)) {
+    const items = value as Record<string, unknown>[];
+    const keys = Object.keys(items[0]).filter(
+      (key) => !isRecord(items[0][key]) && !Array.isArray(items[0][key]),
+    );
+    if (keys.length === 0) return undefined;
+    headers = binding.headers ?? keys.map(toHeaderLabel);
+    rows = items.map((item) => keys.map((key) => toCellText(item[key])));
+  } else {
+    return undefined;
+  }
+
+  context.usedPaths.add(binding.path);
+  return {
+    headers,
+    rows,
+    headerBackground: binding.headerBackground,
+    headerColor: binding.headerColor,
+  };
+};
+
+/**
+ * Creates the binding context for one slide.
+ *
+ * @param content - The slide's stored content, or null if unavailable.
+ * @returns The context, or null when there is no content to bind against.
+ */
+export const createSlideDataContext = (
+  content: Record<string, unknown> | null | undefined,
+): SlideDataContext | null =>
+  content ? { content, usedPaths: new Set() } : null;
+
+/**
+ * Resolves an element's binding into native chart or table data.
+ *
+ * @param binding - Binding parsed from the rendered element.
+ * @param context - The slide's binding context.
+ * @returns `{ chartData }` or `{ tableData }` to merge into the element's
+ *   attributes, or an empty object if the binding cannot be resolved (the
+ *   element is then exported like any other element).
+ */
+export const resolveSlideDataBinding = (
+  binding: SlideDataBinding,
+  context: SlideDataContext,
+): { chartData?: ChartDataAttribute; tableData?: TableDataAttribute } => {
+  if (binding.kind === "chart") {
+    const chartData = resolveChartBinding(binding, context);
+    return chartData ? { chartData } : {};
+  }
+  const tableData = resolveTableBinding(binding, context);
+  return tableData ? { tableData } : {};
+};
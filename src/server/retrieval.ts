@@ -0,0 +1,336 @@
+/**
+ * Passage retrieval over uploaded documents.
+ *
+ * Uploaded documents can be far longer than fits in a slide prompt. Instead
+ * of sending their beginning, the document content is split into chunks of
+ * a few paragraphs, and each slide searches those chunks with its outline
+ * (or an AI edit with its request) to find the passages relevant to it.
+ *
+ * Ranking uses BM25 over word tokens. Chinese, Japanese and Korean text is
+ * tokenized into overlapping character pairs, since those scripts do not
+ * separate words with spaces. Chunks remember the file and PDF page they
+ * came from (see utils/document-markers), so slides can cite "page 42".
+ */
+
+import { createHash } from "node:crypto";
+import {
+  DOCUMENT_MARKER_PATTERN,
+  PAGE_MARKER_PATTERN,
+} from "@/utils/document-markers";
+
+/**
+ * A passage of an uploaded document.
+ *
+ * @property id - Identifier of the chunk, unique within its index ("c12").
+ * @property document - File name the passage came from, or null if the
+ *   content has no document markers.
+ * @property page - One-based PDF page the passage came from, or null.
+ * @property text - Passage text.
+ */
+export type DocumentChunk = {
+  id: string;
+  document: string | null;
+  page: number | null;
+  text: string;
+};
+
+/**
+ * A chunk returned by a search, with its relevance score.
+ */
+export type RetrievedPassage = DocumentChunk & { score: number };
+
+/**
+ * Chunks with precomputed term statistics, ready to search.
+ *
+ * Built once per generation run with `createSearchIndex` and shared by all
+ * slides of the run.
+ */
+export type DocumentSearchIndex = {
+  chunks: DocumentChunk[];
+  termCounts: Map<string, number>[];
+  lengths: number[];
+  documentFrequency: Map<string, number>;
+  averageLength: number;
+};
+
+/**
+ * Options for a passage search.
+ *
+ * @property limit - Maximum number of passages to return.
+ * @property maxChars - Maximum total length of the returned passages; lower
+ *   ranked passages that would exceed it are skipped.
+ */
+export type PassageSearchOptions = {
+  limit?: number;
+  maxChars?: number;
+};
+
+/**
+ * Target length of a chunk in characters. Paragraphs are merged up to this
+ * length; longer paragraphs are split at sentence boundaries.
+ */
+const CHUNK_TARGET_CHARS = 1200;
+
+/**
+ * BM25 term frequency saturation.
+ */
+const BM25_K1 = 1.2;
+
+/**
+ * BM25 document length normalization.
+ */
+const BM25_B = 0.75;
+
+/**
+ * Common English words that carry no meaning for retrieval.
+ */
+const STOPWORDS = new Set(
+  (
+    "a an and are as at be by for from has have in is it its of on or our " +
+    "that the their this to was we were will with you your"
+  ).split(" "),
+);
+
+/**
+ * Matches characters of scripts written without spaces between words.
+ */
+const CJK_PATTERN =
+  /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}]/u;
+
+/**
+ * Splits text into lowercase search terms.
+ *
+ * Words shorter than two characters (except digits) and stopwords are
+ * dropped. Words in CJK scripts become overlapping character pairs.
+ *
+ * @param text - Text to tokenize.
+ * @returns Search terms, in order of appearance.
+ */
+const tokenize = (text: string): string[] => {
+  const terms: string[] = [];
+  for (const word of text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? []) {
+    if (CJK_PATTERN.test(word)) {
+      const chars = [...word];
+      if (chars.length === 1) terms.push(word);
+      for (let i = 0; i < chars.length - 1; i++) {
+        terms.push(chars[i] + chars[i + 1]);
+      }
+      continue;
+    }
+    if (STOPWORDS.has(word)) continue;
+    if (word.length < 2 && !/\d/.test(word)) continue;
+    terms.push(word);
+  }
+  return terms;
+};
+
+/**
+ * Splits a paragraph longer than CHUNK_TARGET_CHARS at sentence ends.
+ */
+const splitLongParagraph = (paragraph: string): string[] => {
+  const sentences =
+    paragraph.match(/[^.!?。！？]+(?:[.!?。！？]+|$)\s*/g) ?? [paragraph];
+  const parts: string[] = [];
+  let current = "";
+  for (const sentence of sentences) {
+    if (current && current.length + sentence.length > CHUNK_TARGET_CHARS) {
+      parts.push(current.trim());
+      current = "";
+    }
+    current += sentence;
+    // A single sentence without punctuation can still be too long
+    while (current.length > CHUNK_TARGET_CHARS * 1.5) {
+      parts.push(current.slice(0, CHUNK_TARGET_CHARS).trim());
+      current = current.slice(CHUNK_TARGET_CHARS);
+    }
+  }
+  if (current.trim()) parts.push(current.trim());
+  return parts;
+};
+
+/**
+ * Splits document content into chunks.
+ *
+ * Document and page markers start a new chunk and set the file and page of
+ * the chunks that follow. Within a page, paragraphs are merged up to
+ * CHUNK_TARGET_CHARS. Separator lines ("---") between documents are
+ * dropped.
+ *
+ * @param content - Document content as stored on the presentation.
+ * @returns Chunks in document order.
+ *
+ * @example
+ * ```typescript
+ * chunkDocumentContent("[Document: a.pdf]\n[Page 1]\nRevenue grew 3x.");
+ * // [{ id: "c0", document: "a.pdf", page: 1, text: "Revenue grew 3x." }]
+ * ```
+ */
+export const chunkDocumentContent = (content: string): DocumentChunk[] => {
+  const chunks: DocumentChunk[] = [];
+  let document: string | null = null;
+  let page: number | null = null;
+  let paragraphs: string[] = [];
+
+  const flush = () => {
+    let current = "";
+    const push = (text: string) => {
+      if (!text.trim()) return;
+      chunks.push({
+        id: `c${chunks.length}`,
+        document,
+        page,
+        text: text.trim(),
+      });
+    };
+    for (const paragraph of paragraphs) {
+      const parts =
+        paragraph.length > CHUNK_TARGET_CHARS
+          ? splitLongParagraph(paragraph)
+          : [paragraph];
+      for (const part of parts) {
+        if (current && current.length + part.length > CHUNK_TARGET_CHARS) {
+          push(current);
+          current = "";
+        }
+        current = current ? `${current}\n\n${part}` : part;
+      }
+    }
+    push(current);
+    paragraphs = [];
+  };
+
+  let paragraph: string[] = [];
+  const endParagraph = () => {
+    const text = paragraph.join("\n").trim();
+    if (text) paragraphs.push(text);
+    paragraph = [];
+  };
+
+  for (const rawLine of content.replace(/\r\n?/g, "\n").split("\n")) {
+    const line = rawLine.trim();
+    const documentMatch = line.match(DOCUMENT_MARKER_PATTERN);
+    const pageMatch = line.match(PAGE_MARKER_PATTERN);
+    if (documentMatch || pageMatch) {
+      endParagraph();
+      flush();
+      if (documentMatch) {
+        document = documentMatch[1];
+        page = null;
+      } else {
+        page = Number(pageMatch![1]);
+      }
+      continue;
+    }
+    if (!line || line === "---") {
+      endParagraph();
+      continue;
+    }
+    paragraph.push(line);
+  }
+  endParagraph();
+  flush();
+
+  return chunks;
+};
+
+/**
+ * Hashes document content, to tell whether a stored index is still current.
+ *
+ * @param content - Document content as stored on the presentation.
+ * @returns Hex-encoded SHA-256 of the content.
+ */
+export const hashDocumentContent = (content: string): string =>
+  createHash("sha256").update(content).digest("hex");
+
+/**
+ * Computes the term statistics of chunks for searching.
+ *
+ * @param chunks - Chunks to search, typically from `chunkDocumentContent`.
+ * @returns The search index.
+ */
+export const createSearchIndex = (
+  chunks: DocumentChunk[],
+): DocumentSearchIndex => {
+  const documentFrequency = new Map<string, number>();
+  const termCounts = chunks.map((chunk) => {
+    const counts = new Map<string, number>();
+    for (const term of tokenize(chunk.text)) {
+      counts.set(term, (counts.get(term) ?? 0) + 1);
+    }
+    for (const term of counts.keys()) {
+      documentFrequency.set(term, (documentFrequency.get(term) ?? 0) + 1);
+    }
+    return counts;
+  });
+  const lengths = termCounts.map((counts) =>
+    [...counts.values()].reduce((sum, count) => sum + count, 0),
+  );
+  const totalLength = lengths.reduce((sum, length) => sum + length, 0);
+  return {
+    chunks,
+    termCounts,
+    lengths,
+    documentFrequency,
+    averageLength: chunks.length > 0 ? totalLength / chunks.length : 0,
+  };
+};
+
+/**
+ * Finds the chunks most relevant to a query.
+ *
+ * Chunks are scored with BM25; chunks sharing no term with the query are
+ * never returned.
+ *
+ * @param index - Search index from `createSearchIndex`.
+ * @param query - Search text, such as a slide outline.
+ * @param options - Result count and length limits.
+ * @returns Matching passages, best match first.
+ *
+ * @example
+ * ```typescript
+ * const index = createSearchIndex(chunkDocumentContent(documentContent));
+ * const passages = searchPassages(index, "Market size and growth", {
+ *   limit: 5,
+ * });
+ * ```
+ */
+export const searchPassages = (
+  index: DocumentSearchIndex,
+  query: string,
+  options: PassageSearchOptions = {},
+): RetrievedPassage[] => {
+  const { limit = 6, maxChars = Infinity } = options;
+  const queryTerms = [...new Set(tokenize(query))];
+  const total = index.chunks.length;
+  if (total === 0 || queryTerms.length === 0) return [];
+
+  const scored = index.chunks.map((chunk, i) => {
+    const counts = index.termCounts[i];
+    const lengthRatio = index.averageLength
+      ? index.lengths[i] / index.averageLength
+      : 1;
+    let score = 0;
+    for (const term of queryTerms) {
+      const frequency = counts.get(term);
+      if (!frequency) continue;
+      const df = index.documentFrequency.get(term) ?? 0;
+      const idf = Math.log(1 + (total - df + 0.5) / (df + 0.5));
+      score +=
+        (idf * frequency * (BM25_K1 + 1)) /
+        (frequency + BM25_K1 * (1 - BM25_B + BM25_B * lengthRatio));
+    }
+    return { ...chunk, score };
+  });
+
+  const passages: RetrievedPassage[] = [];
+  let length = 0;
+  for (const passage of scored
+    .filter((passage) => passage.score > 0)
+    .sort((a, b) => b.score - a.score)) {
+    if (passages.length >= limit) break;
+    if (length + passage.text.length > maxChars) continue;
+    passages.push(passage);
+    length += passage.text.length;
+  }
+  return passages;
+};
@@ -0,0 +1,419 @@
+/**
+ * Web search for presentation generation.
+ *
+ * When a presentation has `web_search` enabled, outline and slide generation
+ * look up current facts (market size, competitors, industry figures) and add
+ * a short digest of the results to their prompts. Results keep their URLs so
+ * slides can cite where a number came from.
+ *
+ * Search providers are pluggable. Built-in providers:
+ * - tavily: Tavily Search API (TAVILY_API_KEY)
+ * - brave: Brave Search API (BRAVE_SEARCH_API_KEY)
+ * - fixture: Canned results from a local JSON file (SEARCH_FIXTURE_PATH),
+ *   for tests and offline development
+ *
+ * Other providers can be added with `registerSearchProvider`.
+ */
+
+import { promises as fs } from "node:fs";
+import { getRuntimeConfig, UserConfig } from "./config";
+
+/**
+ * A single web search result.
+ *
+ * @property title - Page title.
+ * @property url - Page URL.
+ * @property snippet - Text excerpt relevant to the query.
+ * @property published_at - Optional publication date as reported by the provider.
+ */
+export type WebSearchResult = {
+  title: string;
+  url: string;
+  snippet: string;
+  published_at?: string | null;
+};
+
+/**
+ * Options for a search request.
+ *
+ * @property limit - Maximum number of results to return.
+ */
+export type WebSearchOptions = {
+  limit?: number;
+};
+
+/**
+ * Interface implemented by search providers.
+ *
+ * @property name - Provider identifier used in SEARCH_PROVIDER.
+ * @property search - Runs a query and resolves to results, best match first.
+ */
+export interface SearchProvider {
+  name: string;
+  search: (
+    query: string,
+    options?: WebSearchOptions,
+  ) => Promise<WebSearchResult[]>;
+}
+
+/**
+ * Creates a provider from runtime configuration. Throws if the provider is
+ * not configured (e.g. missing API key).
+ */
+export type SearchProviderFactory = (config: UserConfig) => SearchProvider;
+
+/**
+ * Default number of results per query.
+ */
+const DEFAULT_SEARCH_LIMIT = 5;
+
+/**
+ * Per-request timeout for search provider APIs in milliseconds.
+ */
+const SEARCH_REQUEST_TIMEOUT_MS = 10000;
+
+/**
+ * Maximum characters of each snippet kept in prompt digests.
+ */
+const MAX_SNIPPET_LENGTH = 300;
+
+/**
+ * Outline content that benefits from web research: market sizing,
+ * competitors and industry problems. Other slides (team, ask, roadmap)
+ * describe the company itself and are not searched.
+ */
+const RESEARCH_OUTLINE_PATTERN =
+  /\b(market|tam|sam|som|competit\w*|industry|problem|trend\w*|landscape)\b/i;
+
+/**
+ * Creates a provider for the Tavily Search API.
+ *
+ * @param apiKey - Tavily API key.
+ * @returns SearchProvider backed by https://api.tavily.com/search.
+ */
+export const createTavilySearchProvider = (apiKey: string): SearchProvider => ({
+  name: "tavily",
+  search: async (query, options) => {
+    const response = await fetch("https://api.tavily.com/search", {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Authorization: `Bearer ${apiKey}`,
+      },
+      body: JSON.stringify({
+        query,
+        max_results: options?.limit ?? DEFAULT_SEARCH_LIMIT,
+        search_depth: "basic",
+      }),
+      signal: AbortSignal.timeout(SEARCH_REQUEST_TIMEOUT_MS),
+    });
+    if (!response.ok) {
+      throw new Error(`Tavily search error: ${response.status}`);
+    }
+    const data = (await response.json()) as {
+      results?: {
+        title?: string;
+        url?: string;
+        content?: string;
+        published_date?: string;
+      }[];
+    };
+    return (data.results ?? []).map((result) => ({
+      title: result.title ?? result.url ?? "",
+      url: result.url ?? "",
+      snippet: result.content ?? "",
+      published_at: result.published_date ?? null,
+    }));
+  },
+});
+
+/**
+ * Creates a provider for the Brave Search API.
+ *
+ * @param apiKey - Brave Search subscription token.
+ * @returns SearchProvider backed by https://api.search.brave.com.
+ */
+export const createBraveSearchProvider = (apiKey: string): SearchProvider => ({
+  name: "brave",
+  search: async (query, options) => {
+    const params = new URLSearchParams({
+      q: query,
+      count: String(options?.limit ?? DEFAULT_SEARCH_LIMIT),
+    });
+    const response = await fetch(
+      `https://api.search.brave.com/res/v1/web/search?${params}`,
+      {
+        headers: {
+          Accept: "application/json",
+          "X-Subscription-Token": apiKey,
+        },
+        signal: AbortSignal.timeout(SEARCH_REQUEST_TIMEOUT_MS),
+      },
+    );
+    if (!response.ok) {
+      throw new Error(`Brave search error: ${response.status}`);
+    }
+    const data = (await response.json()) as {
+      web?: {
+        results?: {
+          title?: string;
+          url?: string;
+          description?: string;
+          page_age?: string;
+        }[];
+      };
+    };
+    return (data.web?.results ?? []).map((result) => ({
+      title: result.title ?? result.url ?? "",
+      url: result.url ?? "",
+      // Brave highlights matches with <strong> tags
+      snippet: (result.description ?? "").replace(/<[^>]+>/g, ""),
+      published_at: result.page_age ?? null,
+    }));
+  },
+});
+
+/**
+ * Creates a provider that answers from canned results.
+ *
+ * Each key of `fixtures` is matched case-insensitively as a substring of the
+ * query; results of all matching keys are returned in key order. The `*` key
+ * is used when nothing else matches.
+ *
+ * @param fixtures - Results keyed by query fragment.
+ * @returns SearchProvider that never makes network requests.
+ *
+ * @example
+ * ```typescript
+ * const provider = createFixtureSearchProvider({
+ *   "market size": [{ title: "K-beauty market", url: "https://example.com", snippet: "$48B in 2024" }],
+ * });
+ * await provider.search("k-beauty market size 2025");
+ * ```
+ */
+export const createFixtureSearchProvider = (
+  fixtures: Record<string, WebSearchResult[]>,
+): SearchProvider => ({
+  name: "fixture",
+  search: async (query, options) => {
+    const normalized = query.toLowerCase();
+    const matches = Object.entries(fixtures)
+      .filter(([key]) => key !== "*" && normalized.includes(key.toLowerCase()))
+      .flatMap(([, results]) => results);
+    const results = matches.length ? matches : (fixtures["*"] ?? []);
+    return results.slice(0, options?.limit ?? DEFAULT_SEARCH_LIMIT);
+  },
+});
+
+/**
+ * Creates a fixture provider that reads its results from a JSON file on
+ * every search, so the file can be edited while the server runs.
+ *
+ * @param fixturePath - Path to a JSON file shaped like the `fixtures`
+ *   argument of createFixtureSearchProvider.
+ */
+const createFileFixtureSearchProvider = (
+  fixturePath: string,
+): SearchProvider => ({
+  name: "fixture",
+  search: async (query, options) => {
+    const fixtures = JSON.parse(
+      await fs.readFile(fixturePath, "utf-8"),
+    ) as Record<string, WebSearchResult[]>;
+    return createFixtureSearchProvider(fixtures).search(query, options);
+  },
+});
+
+/**
+ * Registered provider factories, keyed by SEARCH_PROVIDER value.
+ */
+const searchProviders = new Map<string, SearchProviderFactory>([
+  [
+    "tavily",
+    (config) => {
+      if (!config.TAVILY_API_KEY) {
+        throw new Error("TAVILY_API_KEY is not configured");
+      }
+      return createTavilySearchProvider(config.TAVILY_API_KEY);
+    },
+  ],
+  [
+    "brave",
+    (config) => {
+      if (!config.BRAVE_SEARCH_API_KEY) {
+        throw new Error("BRAVE_SEARCH_API_KEY is not configured");
+      }
+      return createBraveSearchProvider(config.BRAVE_SEARCH_API_KEY);
+    },
+  ],
+  [
+    "fixture",
+    (config) => {
+      if (!config.SEARCH_FIXTURE_PATH) {
+        throw new Error("SEARCH_FIXTURE_PATH is not configured");
+      }
+      return createFileFixtureSearchProvider(config.SEARCH_FIXTURE_PATH);
+    },
+  ],
+]);
+
+/**
+ * Registers a search provider so it can be selected with SEARCH_PROVIDER.
+ *
+ * Registering an existing name replaces that provider.
+ *
+ * @param name - Provider identifier (case-insensitive).
+ * @param factory - Creates the provider from runtime configuration.
+ */
+export const registerSearchProvider = (
+  name: string,
+  factory: SearchProviderFactory,
+) => {
+  searchProviders.set(name.toLowerCase(), factory);
+};
+
+/**
+ * Returns the configured search provider, or null if web search is not set up.
+ *
+ * Uses SEARCH_PROVIDER when set. Otherwise picks the first built-in provider
+ * whose API key is present (Tavily, then Brave).
+ *
+ * @returns The active SearchProvider, or null when none is configured.
+ * @throws Error if SEARCH_PROVIDER names an unknown or unconfigured provider.
+ */
+export const getSearchProvider = (): SearchProvider | null => {
+  const config = getRuntimeConfig();
+  const name =
+    config.SEARCH_PROVIDER?.toLowerCase() ||
+    (config.TAVILY_API_KEY
+      ? "tavily"
+      : config.BRAVE_SEARCH_API_KEY
+        ? "brave"
+        : null);
+  if (!name) return null;
+
+  const factory = searchProviders.get(name);
+  if (!factory) {
+    throw new Error(
+      `Unsupported SEARCH_PROVIDER: ${name}. Supported: ${Array.from(searchProviders.keys()).join(", ")}`,
+    );
+  }
+  return factory(config);
+};
+
+/**
+ * Runs one or more queries against the configured provider.
+ *
+ * Queries run in parallel; results are merged in query order and
+ * de-duplicated by URL. A failing query is logged and skipped so one
+ * provider error does not discard the other results.
+ *
+ * @param queries - Search queries.
+ * @param options - Per-query options (result limit).
+ * @returns Merged results, or an empty array when no provider is configured.
+ */
+export const searchWeb = async (
+  queries: string[],
+  options?: WebSearchOptions,
+): Promise<WebSearchResult[]> => {
+  const provider = getSearchProvider();
+  if (!provider) {
+    console.warn("Web search requested but no SEARCH_PROVIDER is configured");
+    return [];
+  }
+
+  const batches = await Promise.all(
+    queries
+      .filter((query) => query.trim())
+      .map((query) =>
+        provider.search(query, options).catch((error) => {
+          console.error(`Web search failed for "${query}":`, error);
+          return [] as WebSearchResult[];
+        }),
+      ),
+  );
+
+  const seen = new Set<string>();
+  return batches.flat().filter((result) => {
+    if (!result.url || seen.has(result.url)) return false;
+    seen.add(result.url);
+    return true;
+  });
+};
+
+/**
+ * Builds the deck-level queries used before outline generation.
+ *
+ * @param topic - Short description of the company or pitch (prompt text or
+ *   the start of the uploaded document).
+ * @returns Queries for market size and competitors.
+ */
+export const buildTopicSearchQueries = (topic: string): string[] => {
+  const base = toSearchPhrase(topic);
+  if (!base) return [];
+  return [`${base} market size TAM`, `${base} competitors`];
+};
+
+/**
+ * Builds the query used to research a single slide.
+ *
+ * @param topic - Short description of the company or pitch.
+ * @param outline - The slide's outline text.
+ * @returns A query combining the slide's subject with the deck topic.
+ */
+export const buildSlideSearchQuery = (topic: string, outline: string) =>
+  [toSearchPhrase(outline, 12), toSearchPhrase(topic, 8)]
+    .filter(Boolean)
+    .join(" ");
+
+/**
+ * Returns true if a slide outline should be researched on the web.
+ *
+ * @param outline - The slide's outline text.
+ */
+export const isResearchOutline = (outline: string) =>
+  RESEARCH_OUTLINE_PATTERN.test(outline);
+
+/**
+ * Condenses search results into a numbered digest for an LLM prompt.
+ *
+ * Each entry keeps the title, URL and a shortened snippet so the model can
+ * quote figures and attribute them to a source.
+ *
+ * @param results - Search results to include.
+ * @returns Digest text, or an empty string when there are no results.
+ *
+ * @example
+ * ```typescript
+ * summarizeSearchResults([{ title: "K-beauty report", url: "https://...", snippet: "..." }]);
+ * // Returns: "[1] K-beauty report (https://...)\n    ..."
+ * ```
+ */
+export const summarizeSearchResults = (results: WebSearchResult[]): string =>
+  results
+    .map((result, index) => {
+      const snippet = result.snippet.replace(/\s+/g, " ").trim();
+      const shortened =
+        snippet.length > MAX_SNIPPET_LENGTH
+          ? `${snippet.slice(0, MAX_SNIPPET_LENGTH).trimEnd()}...`
+          : snippet;
+      const date = result.published_at ? `, ${result.published_at}` : "";
+      return `[${index + 1}] ${result.title} (${result.url}${date})\n    ${shortened}`;
+    })
+    .join("\n");
+
+/**
+ * Reduces free text to a short keyword phrase suitable for a search query.
+ *
+ * Strips outline labels and formatting (e.g. "MARKET: Hero $48B -") and keeps
+ * the first `maxWords` words.
+ */
+const toSearchPhrase = (text: string, maxWords = 10) =>
+  text
+    .replace(/^\s*\[?[A-Z][A-Z &/]+\]?\s*[:-]/, "")
+    .replace(/\bHero\b:?/gi, "")
+    .replace(/[#*_`|[\]{}()"]/g, " ")
+    .split(/\s+/)
+    .filter(Boolean)
+    .slice(0, maxWords)
+    .join(" ");
@@ -0,0 +1,139 @@
+/**
+ * Session cookies for local accounts.
+ *
+ * Local (self-hosted) accounts are tracked with a stateless session cookie:
+ * `<userId>.<expiresAt>.<signature>`, where the signature is an HMAC-SHA256
+ * of the first two parts keyed with `AUTH_SECRET`. The cookie is HTTP-only,
+ * so client code never sees it.
+ *
+ * This module only depends on `node:crypto` so it can be imported from
+ * `src/proxy.ts` without pulling the database client into the proxy bundle.
+ */
+
+import { createHmac, timingSafeEqual } from "node:crypto";
+
+/**
+ * Name of the session cookie set for local accounts.
+ */
+export const SESSION_COOKIE_NAME = "pitchus_session";
+
+/**
+ * Session lifetime in seconds (30 days).
+ */
+export const SESSION_MAX_AGE_SECONDS = 60 * 60 * 24 * 30;
+
+/**
+ * Authentication backends that can be selected with `AUTH_PROVIDER`.
+ *
+ * - local: Email/password accounts stored in this database (default)
+ * - supabase: Supabase Auth, using the `@supabase/ssr` helpers
+ */
+export type AuthProvider = "local" | "supabase";
+
+/**
+ * Resolves the configured authentication backend.
+ *
+ * @returns "supabase" when `AUTH_PROVIDER=supabase`, otherwise "local".
+ */
+export const getAuthProvider = (): AuthProvider =>
+  process.env.AUTH_PROVIDER?.trim().toLowerCase() === "supabase"
+    ? "supabase"
+    : "local";
+
+/**
+ * Reads the secret used to sign session cookies.
+ *
+ * @returns The value of `AUTH_SECRET`.
+ * @throws {Error} Throws if `AUTH_SECRET` is missing or shorter than 32
+ *   characters, since a weak secret would let anyone forge sessions.
+ */
+const getSessionSecret = (): string => {
+  const secret = process.env.AUTH_SECRET;
+  if (!secret || secret.length < 32) {
+    throw new Error(
+      "AUTH_SECRET must be set to at least 32 characters to use local accounts",
+    );
+  }
+  return secret;
+};
+
+/**
+ * Computes the signature for a session payload.
+ *
+ * @param payload - The `<userId>.<expiresAt>` part of the token.
+ * @returns Base64url-encoded HMAC-SHA256 signature.
+ */
+const signPayload = (payload: string): string =>
+  createHmac("sha256", getSessionSecret()).update(payload).digest("base64url");
+
+/**
+ * Creates a signed session token for a user.
+ *
+ * @param userId - ID of the signed-in user.
+ * @param now - Current time in milliseconds (defaults to Date.now()).
+ * @returns Token to store in the session cookie.
+ */
+export const createSessionToken = (
+  userId: string,
+  now: number = Date.now(),
+): string => {
+  const expiresAt = Math.floor(now / 1000) + SESSION_MAX_AGE_SECONDS;
+  const payload = `${userId}.${expiresAt}`;
+  return `${payload}.${signPayload(payload)}`;
+};
+
+/**
+ * Verifies a session token and extracts the user ID.
+ *
+ * Rejects tokens that are malformed, expired or carry a signature that does
+ * not match. Never throws for bad input; a missing `AUTH_SECRET` is treated
+ * as "no valid session".
+ *
+ * @param token - Raw cookie value, or null/undefined if the cookie is absent.
+ * @param now - Current time in milliseconds (defaults to Date.now()).
+ * @returns The user ID if the token is valid, otherwise null.
+ */
+export const verifySessionToken = (
+  token: string | null | undefined,
+  now: number = Date.now(),
+): string | null => {
+  if (!token) return null;
+  const parts = token.split(".");
+  if (parts.length !== 3) return null;
+  const [userId, expiresAtRaw, signature] = parts;
+  const expiresAt = Number(expiresAtRaw);
+  if (!userId || !Number.isFinite(expiresAt)) return null;
+  if (expiresAt * 1000 <= now) return null;
+
+  let expected: string;
+  try {
+    expected = signPayload(`${userId}.${expiresAtRaw}`);
+  } catch {
+    return null;
+  }
+  const expectedBuffer = Buffer.from(expected);
+  const actualBuffer = Buffer.from(signature);
+  if (
+    expectedBuffer.length !== actualBuffer.length ||
+    !timingSafeEqual(expectedBuffer, actualBuffer)
+  ) {
+    return null;
+  }
+  return userId;
+};
+
+/**
+ * Cookie options for the session cookie.
+ *
+ * @param maxAge - Lifetime in seconds; 0 clears the cookie.
+ * @returns Options accepted by `NextResponse.cookies.set`.
+ */
+export const getSessionCookieOptions = (
+  maxAge: number = SESSION_MAX_AGE_SECONDS,
+) => ({
+  httpOnly: true,
+  sameSite: "lax" as const,
+  secure: process.env.NODE_ENV === "production",
+  path: "/",
+  maxAge,
+});
@@ -0,0 +1,267 @@
+/**
+ * Share links and view analytics.
+ *
+ * Owners share a read-only view of a presentation through links of the form
+ * `/share/<token>`. A link can require a password or the viewer's email,
+ * can expire, and can be revoked at any time. While a viewer pages through
+ * the deck, the viewer page reports how long each slide was shown; this
+ * module turns those reports into per-viewer and per-slide summaries so
+ * founders can see who opened the deck and which slides held attention.
+ */
+
+import { randomBytes } from "node:crypto";
+import type {
+  ShareLinkRecord,
+  ShareViewWithEvents,
+} from "./db/share-links";
+import type { LockoutPolicy } from "./lockout";
+
+/**
+ * Whether a share link currently grants access.
+ *
+ * - "active": The link works
+ * - "expired": The expiry time has passed
+ * - "revoked": The owner revoked the link
+ */
+export type ShareLinkStatus = "active" | "expired" | "revoked";
+
+/**
+ * Minimum time a slide must be shown to count as seen. Shorter dwells are
+ * usually a viewer clicking past the slide.
+ */
+export const SLIDE_SEEN_MS = 2000;
+
+/**
+ * Longest dwell accepted for a single event. Longer reports come from tabs
+ * left open and would swamp the averages.
+ */
+export const MAX_DWELL_MS = 30 * 60 * 1000;
+
+/**
+ * Lockout of share link passwords. Each attempt runs scrypt, so after five
+ * wrong passwords in a row the link refuses attempts for a minute, doubling
+ * with each further five up to an hour. A correct password resets the count.
+ */
+export const SHARE_PASSWORD_LOCKOUT: LockoutPolicy = {
+  maxFailures: 5,
+  lockMs: 60 * 1000,
+  maxLockMs: 60 * 60 * 1000,
+};
+
+/**
+ * A share link with its status and visit counts.
+ *
+ * @property status - Whether the link currently grants access.
+ * @property views - Number of visits through the link.
+ * @property viewers - Number of distinct viewers.
+ * @property last_viewed_at - ISO 8601 timestamp of the latest activity, or
+ *   null if nobody opened the link yet.
+ */
+export type ShareLinkSummary = ShareLinkRecord & {
+  status: ShareLinkStatus;
+  views: number;
+  viewers: number;
+  last_viewed_at: string | null;
+};
+
+/**
+ * Engagement of one viewer across all their visits.
+ *
+ * Viewers are identified by the email they entered, or otherwise by the
+ * anonymous ID of their browser.
+ *
+ * @property viewer_id - Anonymous browser ID of the viewer's latest visit.
+ * @property email - Email the viewer entered, or null.
+ * @property link_ids - IDs of the links the viewer came through.
+ * @property visits - Number of visits.
+ * @property first_seen_at - ISO 8601 timestamp of the first visit.
+ * @property last_seen_at - ISO 8601 timestamp of the latest activity.
+ * @property total_ms - Total time spent on slides.
+ * @property dwell_ms - Time spent per slide, indexed by slide.
+ * @property slides_seen - Number of slides shown for at least SLIDE_SEEN_MS.
+ * @property furthest_slide - Highest slide index seen, or -1 for none.
+ * @property completed - Whether the viewer saw the last slide.
+ */
+export type ShareViewerSummary = {
+  viewer_id: string;
+  email: string | null;
+  link_ids: string[];
+  visits: number;
+  first_seen_at: string;
+  last_seen_at: string;
+  total_ms: number;
+  dwell_ms: number[];
+  slides_seen: number;
+  furthest_slide: number;
+  completed: boolean;
+};
+
+/**
+ * Engagement with one slide across all viewers.
+ *
+ * @property slide_index - Zero-based slide index.
+ * @property viewers - Number of viewers who saw the slide.
+ * @property total_ms - Total time all viewers spent on the slide.
+ * @property average_ms - Average time per viewer who saw the slide.
+ */
+export type ShareSlideSummary = {
+  slide_index: number;
+  viewers: number;
+  total_ms: number;
+  average_ms: number;
+};
+
+/**
+ * View analytics of a presentation's share links.
+ */
+export type ShareAnalytics = {
+  links: ShareLinkSummary[];
+  viewers: ShareViewerSummary[];
+  slides: ShareSlideSummary[];
+};
+
+/**
+ * Generates the token of a new share link.
+ *
+ * @returns 32 random bytes, base64url encoded (URL safe, unguessable).
+ */
+export const generateShareToken = (): string =>
+  randomBytes(32).toString("base64url");
+
+/**
+ * Determines whether a share link currently grants access.
+ *
+ * @param link - The share link.
+ * @param now - Current time in milliseconds (defaults to Date.now()).
+ * @returns The link status. Revocation wins over expiry.
+ */
+export const getShareLinkStatus = (
+  link: Pick<ShareLinkRecord, "expires_at" | "revoked_at">,
+  now: number = Date.now(),
+): ShareLinkStatus => {
+  if (link.revoked_at) return "revoked";
+  if (link.expires_at && Date.parse(link.expires_at) <= now) {
+    return "expired";
+  }
+  return "active";
+};
+
+/**
+ * Summarizes the visits to a presentation's share links.
+ *
+ * @param links - Share links of the presentation.
+ * @param views - Visits with their events (see listShareViews).
+ * @param slideCount - Number of slides in the presentation now. Events for
+ *   slides that no longer exist are ignored.
+ * @param now - Current time in milliseconds (defaults to Date.now()).
+ * @returns Link, viewer and slide summaries. Viewers are sorted by latest
+ *   activity, newest first.
+ *
+ * @example
+ * ```typescript
+ * const analytics = summarizeShareViews(links, views, slides.length);
+ * const sawAsk = analytics.viewers.filter(
+ *   (viewer) => viewer.dwell_ms[askIndex] >= SLIDE_SEEN_MS,
+ * );
+ * ```
+ */
+export const summarizeShareViews = (
+  links: ShareLinkRecord[],
+  views: ShareViewWithEvents[],
+  slideCount: number,
+  now: number = Date.now(),
+): ShareAnalytics => {
+  const viewers = new Map<string, ShareViewerSummary>();
+  const linkViewers = new Map<string, Set<string>>();
+
+  for (const view of views) {
+    const email = view.viewer_email?.toLowerCase() ?? null;
+    const key = email ?? view.viewer_id;
+    let viewer = viewers.get(key);
+    if (!viewer) {
+      viewer = {
+        viewer_id: view.viewer_id,
+        email,
+        link_ids: [],
+        visits: 0,
+        first_seen_at: view.started_at,
+        last_seen_at: view.last_seen_at,
+        total_ms: 0,
+        dwell_ms: new Array(slideCount).fill(0),
+        slides_seen: 0,
+        furthest_slide: -1,
+        completed: false,
+      };
+      viewers.set(key, viewer);
+    }
+
+    viewer.visits += 1;
+    if (!viewer.link_ids.includes(view.share_link)) {
+      viewer.link_ids.push(view.share_link);
+    }
+    if (view.started_at < viewer.first_seen_at) {
+      viewer.first_seen_at = view.started_at;
+    }
+    if (view.last_seen_at > viewer.last_seen_at) {
+      viewer.last_seen_at = view.last_seen_at;
+      viewer.viewer_id = view.viewer_id;
+    }
+    for (const event of view.events) {
+      if (event.slide_index < 0 || event.slide_index >= slideCount) continue;
+      const dwell = Math.min(event.dwell_ms, MAX_DWELL_MS);
+      viewer.dwell_ms[event.slide_index] += dwell;
+      viewer.total_ms += dwell;
+    }
+
+    const seen = linkViewers.get(view.share_link) ?? new Set<string>();
+    seen.add(key);
+    linkViewers.set(view.share_link, seen);
+  }
+
+  const slides: ShareSlideSummary[] = Array.from(
+    { length: slideCount },
+    (_, slide_index) => ({
+      slide_index,
+      viewers: 0,
+      total_ms: 0,
+      average_ms: 0,
+    }),
+  );
+  for (const viewer of viewers.values()) {
+    viewer.dwell_ms.forEach((dwell, index) => {
+      if (dwell < SLIDE_SEEN_MS) return;
+      viewer.slides_seen += 1;
+      viewer.furthest_slide = index;
+      slides[index].viewers += 1;
+      slides[index].total_ms += dwell;
+    });
+    viewer.completed =
+      slideCount > 0 && viewer.furthest_slide === slideCount - 1;
+  }
+  for (const slide of slides) {
+    slide.average_ms = slide.viewers
+      ? Math.round(slide.total_ms / slide.viewers)
+      : 0;
+  }
+
+  return {
+    links: links.map((link) => {
+      const linkViews = views.filter((view) => view.share_link === link.id);
+      return {
+        ...link,
+        status: getShareLinkStatus(link, now),
+        views: linkViews.length,
+        viewers: linkViewers.get(link.id)?.size ?? 0,
+        last_viewed_at: linkViews.reduce<string | null>(
+          (latest, view) =>
+            !latest || view.last_seen_at > latest ? view.last_seen_at : latest,
+          null,
+        ),
+      };
+    }),
+    viewers: [...viewers.values()].sort((a, b) =>
+      b.last_seen_at.localeCompare(a.last_seen_at),
+    ),
+    slides,
+  };
+};
@@ -16,8 +16,11 @@
  *
  * @param data - Data object to send in the SSE message. Can be any
  *   serializable JavaScript value.
+ * @param id - Optional event ID. Browsers send the last ID they received
+ *   back in the `Last-Event-ID` header when they reconnect.
  * @returns Formatted SSE message string ready to send to the client.
- *   Format: "event: response\ndata: {...}\n\n"
+ *   Format: "event: response\ndata: {...}\n\n", preceded by "id: ...\n"
+ *   when an ID is given
  *
  * @example
  * ```typescript
@@ -25,8 +28,9 @@
  * // Returns: "event: response\ndata: {\"type\":\"update\",\"content\":\"...\"}\n\n"
  * ```
  */
-export const sseChunk = (data: unknown): string => {
-  return `event: response\ndata: ${JSON.stringify(data)}\n\n`;
+export const sseChunk = (data: unknown, id?: string): string => {
+  const idLine = id ? `id: ${id}\n` : "";
+  return `${idLine}event: response\ndata: ${JSON.stringify(data)}\n\n`;
 };
 
 /**
@@ -43,6 +47,10 @@ export const sseChunk = (data: unknown): string => {
  * @param handler - Async function that generates SSE data. Receives a stream
  *   controller and should enqueue data chunks using controller.enqueue().
  *   The function can yield data incrementally as it becomes available.
+ * @param onError - Optional callback invoked with the error if the handler
+ *   throws, before the error event is sent to the client. Used for
+ *   server-side side effects such as failure notifications; a returned
+ *   promise is awaited.
  * @returns A ReadableStream<Uint8Array> that can be used as a Response body.
  *   The stream will send SSE-formatted messages and close when the handler
  *   completes or encounters an error.
@@ -63,12 +71,14 @@ export const createSseStream = (
   handler: (
     controller: ReadableStreamDefaultController<Uint8Array>,
   ) => Promise<void>,
+  onError?: (error: unknown) => void | Promise<void>,
 ): ReadableStream<Uint8Array> => {
   return new ReadableStream<Uint8Array>({
     async start(controller) {
       try {
         await handler(controller);
       } catch (error) {
+        await onError?.(error);
         const message =
           error instanceof Error ? error.message : "Streaming error";
         controller.enqueue(
@@ -8,6 +8,12 @@
  *
  * All directories are created automatically if they don't exist, ensuring
  * the application can write files without manual setup.
+ *
+ * App data is served by URL without a session, since share viewers, the
+ * sandboxed layout frame and export rendering load it too. User files are
+ * therefore written to the user's own directory (see getOwnerDirectory)
+ * under a random name, so a file can only be opened by someone its URL was
+ * handed to.
  */
 
 import fs from "node:fs";
@@ -120,3 +126,24 @@ export const getUploadsDirectory = (): string => {
 export const getFontsDirectory = (): string => {
   return ensureDir(path.join(getAppDataDirectory(), "fonts"));
 };
+
+/**
+ * Gets a user's directory within an app data directory.
+ *
+ * Files written here must have a random name (or sit in a random
+ * subdirectory); the owner ID alone is not secret.
+ *
+ * @param dir - App data directory, e.g. from getImagesDirectory().
+ * @param owner - ID of the user the files belong to.
+ * @returns Absolute path to the user's directory. The directory is created
+ *   if it doesn't exist.
+ *
+ * @example
+ * ```typescript
+ * const dir = getOwnerDirectory(getFontsDirectory(), owner);
+ * // Returns: "/app_data/fonts/<owner>"
+ * ```
+ */
+export const getOwnerDirectory = (dir: string, owner: string): string => {
+  return ensureDir(path.join(dir, owner.replace(/[^\w-]/g, "_")));
+};
@@ -0,0 +1,520 @@
+/**
+ * Webhook event dispatcher.
+ *
+ * This module delivers presentation lifecycle events to the URLs registered
+ * through `/api/v1/webhook/subscribe`. Each delivery is:
+ * - Filtered by the `events` array stored on the subscription
+ * - Queued in the `webhook_deliveries` table before anything is sent
+ * - Signed with HMAC-SHA256 using the subscription's secret
+ * - Attempted once right away, then retried with exponential backoff on
+ *   network errors and non-2xx responses by the webhook delivery job
+ *   (`/api/v1/cron/webhook-deliveries`), so retries survive the process
+ *   that queued them being frozen or restarted
+ *
+ * Subscriber URLs must be public http(s) URLs. Private, loopback and
+ * link-local targets are rejected when subscribing, and again when
+ * connecting, so a host that later resolves to an internal address (DNS
+ * rebinding) is not reached either.
+ *
+ * Dispatching never throws into the caller. Handlers await
+ * `emitWebhookEvent`, which returns once the deliveries are queued; a slow
+ * or broken subscriber cannot fail a generation request. Events are only
+ * delivered to subscriptions of the user whose request triggered them.
+ */
+
+import { createHmac, randomBytes } from "node:crypto";
+import dns from "node:dns";
+import http from "node:http";
+import https from "node:https";
+import { BlockList, isIP, type LookupFunction } from "node:net";
+import { v4 as uuidv4 } from "uuid";
+import { getRequestUser } from "./auth";
+import {
+  claimDelivery,
+  createDelivery,
+  listDueDeliveries,
+  listSubscriptionsForEvent,
+  updateDelivery,
+  WebhookDeliveryRecord,
+  WebhookSubscriptionRecord,
+} from "./db/webhooks";
+
+/**
+ * Event types that can be delivered to webhook subscribers.
+ *
+ * - presentation.created: A presentation record was created
+ * - outline.completed: Outlines were generated and saved
+ * - slides.completed: All slides were generated and saved
+ * - export.completed: A PPTX or PDF export finished
+ * - generation.failed: Outline or slide generation aborted with an error
+ */
+export const WEBHOOK_EVENTS = [
+  "presentation.created",
+  "outline.completed",
+  "slides.completed",
+  "export.completed",
+  "generation.failed",
+] as const;
+
+export type WebhookEvent = (typeof WEBHOOK_EVENTS)[number];
+
+/**
+ * Maximum number of HTTP attempts per delivery (first try + retries).
+ */
+const WEBHOOK_MAX_ATTEMPTS = 4;
+
+/**
+ * Base backoff delay in milliseconds. After attempt n the next one is due
+ * base * 2^(n-1) later. Retries are run by the delivery job, so delays
+ * shorter than its schedule (every minute) would not be kept anyway.
+ */
+const WEBHOOK_RETRY_BASE_DELAY_MS = 60000;
+
+/**
+ * Per-attempt request timeout in milliseconds.
+ */
+const WEBHOOK_REQUEST_TIMEOUT_MS = 10000;
+
+/**
+ * How long a claimed delivery is held by the attempt that claimed it.
+ */
+const WEBHOOK_CLAIM_MS = 3 * WEBHOOK_REQUEST_TIMEOUT_MS;
+
+/**
+ * Maximum number of due deliveries attempted per run of the delivery job.
+ */
+const WEBHOOK_JOB_BATCH_SIZE = 50;
+
+/**
+ * Address ranges webhooks must not be sent to: "this network", private,
+ * carrier-grade NAT, loopback, link-local (including cloud metadata
+ * endpoints), benchmarking, multicast and reserved ranges.
+ */
+const BLOCKED_ADDRESSES = (() => {
+  const blockList = new BlockList();
+  const ranges: [string, number, "ipv4" | "ipv6"][] = [
+    ["0.0.0.0", 8, "ipv4"],
+    ["10.0.0.0", 8, "ipv4"],
+    ["100.64.0.0", 10, "ipv4"],
+    ["127.0.0.0", 8, "ipv4"],
+    ["169.254.0.0", 16, "ipv4"],
+    ["172.16.0.0", 12, "ipv4"],
+    ["192.0.0.0", 24, "ipv4"],
+    ["192.168.0.0", 16, "ipv4"],
+    ["198.18.0.0", 15, "ipv4"],
+    ["224.0.0.0", 4, "ipv4"],
+    ["240.0.0.0", 4, "ipv4"],
+    ["::", 128, "ipv6"],
+    ["::1", 128, "ipv6"],
+    ["64:ff9b::", 96, "ipv6"],
+    ["fc00::", 7, "ipv6"],
+    ["fe80::", 10, "ipv6"],
+    ["ff00::", 8, "ipv6"],
+  ];
+  for (const [network, prefix, type] of ranges) {
+    blockList.addSubnet(network, prefix, type);
+  }
+  return blockList;
+})();
+
+/**
+ * Checks whether a string is a known webhook event type.
+ *
+ * @param value - Event type to check.
+ * @returns True if the value is listed in WEBHOOK_EVENTS.
+ */
+export const isWebhookEvent = (value: string): value is WebhookEvent =>
+  (WEBHOOK_EVENTS as readonly string[]).includes(value);
+
+/**
+ * Generates a random signing secret for a new subscription.
+ *
+ * @returns A secret string prefixed with "whsec_".
+ */
+export const generateWebhookSecret = (): string =>
+  `whsec_${randomBytes(24).toString("hex")}`;
+
+/**
+ * Computes the signature header value for a delivery.
+ *
+ * The signed string is `${timestamp}.${body}` so that a captured request
+ * cannot be replayed with a different timestamp. Subscribers verify by
+ * recomputing the HMAC with their secret and comparing in constant time.
+ *
+ * @param secret - Subscription secret.
+ * @param timestamp - Unix timestamp in seconds sent in X-PitchUs-Timestamp.
+ * @param body - Exact JSON request body.
+ * @returns Signature in the form "sha256=<hex digest>".
+ *
+ * @example
+ * ```typescript
+ * const signature = signWebhookPayload("whsec_abc", 1760000000, body);
+ * // Returns: "sha256=5f2c..."
+ * ```
+ */
+export const signWebhookPayload = (
+  secret: string,
+  timestamp: number,
+  body: string,
+): string => {
+  const digest = createHmac("sha256", secret)
+    .update(`${timestamp}.${body}`)
+    .digest("hex");
+  return `sha256=${digest}`;
+};
+
+/**
+ * Strips IPv6 brackets and unwraps IPv4-mapped IPv6 addresses, so the
+ * IPv4 ranges also apply to "::ffff:127.0.0.1" (written "::ffff:7f00:1" by
+ * the URL parser).
+ */
+const normalizeAddress = (address: string): string => {
+  const unbracketed = address.replace(/^\[(.*)\]$/, "$1");
+  const dotted = /^::ffff:(\d+\.\d+\.\d+\.\d+)$/i.exec(unbracketed);
+  if (dotted) return dotted[1];
+  const hex = /^::ffff:([\da-f]{1,4}):([\da-f]{1,4})$/i.exec(unbracketed);
+  if (!hex) return unbracketed;
+  const [high, low] = [hex[1], hex[2]].map((part) => Number.parseInt(part, 16));
+  return [high >> 8, high & 255, low >> 8, low & 255].join(".");
+};
+
+/**
+ * Checks whether an IP address is private, loopback, link-local or
+ * otherwise not a public internet address.
+ *
+ * @param address - IPv4 or IPv6 address, optionally in brackets.
+ * @returns True if webhooks must not be sent to the address.
+ */
+const isBlockedAddress = (address: string): boolean => {
+  const normalized = normalizeAddress(address);
+  const family = isIP(normalized);
+  if (family === 0) return true;
+  return BLOCKED_ADDRESSES.check(normalized, family === 4 ? "ipv4" : "ipv6");
+};
+
+/**
+ * Checks whether a URL can be used as a webhook target.
+ *
+ * Only http and https URLs whose host is, or resolves only to, public
+ * addresses are accepted. Delivery checks the address it connects to
+ * again, so a later DNS change cannot point a subscription inward.
+ *
+ * @param url - URL to check.
+ * @returns Promise that resolves to null if the URL is allowed, otherwise a
+ *   message explaining why it is not.
+ *
+ * @example
+ * ```typescript
+ * await checkWebhookUrl("http://169.254.169.254/latest/meta-data");
+ * // Returns: "url must not point to a private, loopback or link-local address"
+ * ```
+ */
+export const checkWebhookUrl = async (url: string): Promise<string | null> => {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return "url must be a valid URL";
+  }
+  if (parsed.protocol !== "http:" && parsed.protocol !== "https:") {
+    return "url must use http or https";
+  }
+
+  const host = normalizeAddress(parsed.hostname);
+  let addresses: string[];
+  if (isIP(host)) {
+    addresses = [host];
+  } else {
+    try {
+      const results = await dns.promises.lookup(host, { all: true });
+      addresses = results.map((result) => result.address);
+    } catch {
+      return "url host could not be resolved";
+    }
+  }
+  if (addresses.length === 0 || addresses.some(isBlockedAddress)) {
+    return "url must not point to a private, loopback or link-local address";
+  }
+  return null;
+};
+
+/**
+ * DNS lookup for webhook requests that fails on blocked addresses, so the
+ * address checked is the one connected to.
+ */
+const publicLookup: LookupFunction = (hostname, options, callback) => {
+  dns.lookup(hostname, { ...options, all: true }, (error, results) => {
+    if (error) {
+      callback(error, "", 0);
+      return;
+    }
+    const addresses = results as dns.LookupAddress[];
+    const blocked = addresses.find((result) =>
+      isBlockedAddress(result.address),
+    );
+    if (blocked || addresses.length === 0) {
+      callback(
+        new Error(
+          `${hostname} resolves to a private, loopback or link-local address`,
+        ),
+        "",
+        0,
+      );
+      return;
+    }
+    if (options.all) {
+      callback(null, addresses);
+    } else {
+      callback(null, addresses[0].address, addresses[0].family);
+    }
+  });
+};
+
+/**
+ * Sends one webhook request. Redirects are not followed.
+ *
+ * @param url - Subscriber URL.
+ * @param headers - Request headers.
+ * @param body - JSON request body.
+ * @returns Promise that resolves to the HTTP status of the response.
+ * @throws Error if the URL is not allowed, the connection fails or the
+ *   request times out.
+ */
+const postWebhook = (
+  url: string,
+  headers: Record<string, string>,
+  body: string,
+): Promise<number> => {
+  const target = new URL(url);
+  if (target.protocol !== "http:" && target.protocol !== "https:") {
+    return Promise.reject(new Error("url must use http or https"));
+  }
+  if (isIP(normalizeAddress(target.hostname))) {
+    if (isBlockedAddress(target.hostname)) {
+      return Promise.reject(
+        new Error("url points to a private, loopback or link-local address"),
+      );
+    }
+  }
+
+  const client = target.protocol === "https:" ? https : http;
+  return new Promise((resolve, reject) => {
+    const request = client.request(
+      target,
+      {
+        method: "POST",
+        headers: { ...headers, "Content-Length": Buffer.byteLength(body) },
+        lookup: publicLookup,
+        timeout: WEBHOOK_REQUEST_TIMEOUT_MS,
+      },
+      (response) => {
+        response.resume();
+        resolve(response.statusCode ?? 0);
+      },
+    );
+    request.on("timeout", () => {
+      request.destroy(new Error("Request timed out"));
+    });
+    request.on("error", reject);
+    request.end(body);
+  });
+};
+
+/**
+ * Makes one attempt at a claimed delivery and records its outcome.
+ *
+ * A failed attempt is scheduled again with exponential backoff (1m, 2m,
+ * 4m, ...) until WEBHOOK_MAX_ATTEMPTS is reached, then marked "failed".
+ *
+ * @param delivery - Delivery to attempt; must be claimed by the caller.
+ * @param subscription - Subscription the delivery goes to.
+ * @returns Promise that resolves to true if the subscriber accepted the event.
+ */
+const attemptDelivery = async (
+  delivery: WebhookDeliveryRecord,
+  subscription: WebhookSubscriptionRecord,
+): Promise<boolean> => {
+  const attempt = delivery.attempts + 1;
+  const body = JSON.stringify(delivery.payload);
+  const timestamp = Math.floor(Date.now() / 1000);
+  const headers: Record<string, string> = {
+    "Content-Type": "application/json",
+    "User-Agent": "PitchUs-Webhooks/1.0",
+    "X-PitchUs-Event": delivery.event,
+    "X-PitchUs-Delivery": delivery.id,
+    "X-PitchUs-Timestamp": String(timestamp),
+  };
+  if (subscription.secret) {
+    headers["X-PitchUs-Signature"] = signWebhookPayload(
+      subscription.secret,
+      timestamp,
+      body,
+    );
+  }
+
+  let responseStatus: number | null = null;
+  let lastError: string | null = null;
+  try {
+    responseStatus = await postWebhook(subscription.url, headers, body);
+    if (responseStatus >= 200 && responseStatus < 300) {
+      await updateDelivery(delivery.id, {
+        status: "succeeded",
+        attempts: attempt,
+        response_status: responseStatus,
+        last_error: null,
+        next_attempt_at: null,
+      });
+      return true;
+    }
+    lastError = `HTTP ${responseStatus}`;
+  } catch (error) {
+    lastError = error instanceof Error ? error.message : String(error);
+  }
+
+  const exhausted = attempt >= WEBHOOK_MAX_ATTEMPTS;
+  await updateDelivery(delivery.id, {
+    status: exhausted ? "failed" : "pending",
+    attempts: attempt,
+    response_status: responseStatus,
+    last_error: lastError,
+    next_attempt_at: exhausted
+      ? null
+      : new Date(
+          Date.now() + WEBHOOK_RETRY_BASE_DELAY_MS * 2 ** (attempt - 1),
+        ).toISOString(),
+  });
+  if (exhausted) {
+    console.warn(
+      `[Webhooks] ${delivery.event} delivery ${delivery.id} to ${subscription.url} failed: ${lastError}`,
+    );
+  }
+  return false;
+};
+
+/**
+ * Queues an event for every subscription of a user that listens for it.
+ *
+ * One pending delivery is stored per subscription; nothing is sent yet.
+ *
+ * @param owner - ID of the user whose resource triggered the event.
+ * @param event - Event type to queue.
+ * @param data - Event-specific payload, sent under the `data` key.
+ * @returns Promise that resolves to the queued deliveries with their
+ *   subscriptions.
+ */
+const queueWebhookEvent = async (
+  owner: string,
+  event: WebhookEvent,
+  data: Record<string, unknown>,
+): Promise<
+  { delivery: WebhookDeliveryRecord; subscription: WebhookSubscriptionRecord }[]
+> => {
+  const subscriptions = await listSubscriptionsForEvent(owner, event);
+  return Promise.all(
+    subscriptions.map(async (subscription) => {
+      const deliveryId = uuidv4();
+      const delivery = await createDelivery({
+        id: deliveryId,
+        subscription: subscription.id,
+        event,
+        payload: {
+          id: deliveryId,
+          event,
+          created_at: new Date().toISOString(),
+          data,
+        },
+      });
+      return { delivery, subscription };
+    }),
+  );
+};
+
+/**
+ * Queues an event for the subscriptions of the current user and starts the
+ * first attempt of each delivery.
+ *
+ * The returned promise resolves once the deliveries are stored, without
+ * waiting for the subscribers, and never rejects: errors are logged so
+ * request handlers can emit events without affecting their own response.
+ * First attempts that do not finish (e.g. because the runtime is frozen
+ * after the response) are picked up by the delivery job. The owner is taken
+ * from the authenticated request scope (see `withAuthenticatedUser`);
+ * outside a request scope the event is dropped.
+ *
+ * @param event - Event type to dispatch.
+ * @param data - Event-specific payload.
+ *
+ * @example
+ * ```typescript
+ * await emitWebhookEvent("slides.completed", { presentation_id: id, n_slides: 10 });
+ * ```
+ */
+export const emitWebhookEvent = async (
+  event: WebhookEvent,
+  data: Record<string, unknown>,
+): Promise<void> => {
+  const user = getRequestUser();
+  if (!user) {
+    console.warn(`[Webhooks] Dropped ${event}: no authenticated user in scope`);
+    return;
+  }
+
+  let queued: Awaited<ReturnType<typeof queueWebhookEvent>>;
+  try {
+    queued = await queueWebhookEvent(user.id, event, data);
+  } catch (error) {
+    console.error(`[Webhooks] Failed to queue ${event}:`, error);
+    return;
+  }
+
+  for (const { delivery, subscription } of queued) {
+    claimDelivery(delivery.id, WEBHOOK_CLAIM_MS)
+      .then((claimed) =>
+        claimed ? attemptDelivery(delivery, subscription) : false,
+      )
+      .catch((error) => {
+        console.error(`[Webhooks] Failed to deliver ${event}:`, error);
+      });
+  }
+};
+
+/**
+ * Attempts the pending deliveries that are due: new deliveries whose first
+ * attempt did not run, and failed attempts waiting for their retry.
+ *
+ * Run by the webhook delivery job. Each delivery is claimed first, so
+ * overlapping runs and first attempts do not send it twice.
+ *
+ * @param limit - Maximum number of deliveries to attempt.
+ * @returns Promise that resolves to the number of deliveries attempted and
+ *   how many of them succeeded.
+ *
+ * @example
+ * ```typescript
+ * const { attempted, succeeded } = await processDueWebhookDeliveries();
+ * ```
+ */
+export const processDueWebhookDeliveries = async (
+  limit: number = WEBHOOK_JOB_BATCH_SIZE,
+): Promise<{ attempted: number; succeeded: number }> => {
+  const due = await listDueDeliveries(limit);
+  const results = await Promise.allSettled(
+    due.map(async ({ delivery, subscription }) => {
+      if (!(await claimDelivery(delivery.id, WEBHOOK_CLAIM_MS))) return null;
+      return attemptDelivery(delivery, subscription);
+    }),
+  );
+
+  let attempted = 0;
+  let succeeded = 0;
+  for (const result of results) {
+    if (result.status === "rejected") {
+      console.error("[Webhooks] Failed to deliver:", result.reason);
+      continue;
+    }
+    if (result.value === null) continue;
+    attempted++;
+    if (result.value) succeeded++;
+  }
+  return { attempted, succeeded };
+};
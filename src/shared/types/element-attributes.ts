@@ -32,6 +32,9 @@ import { ElementHandle } from "puppeteer-core";
  * @property valueKey - Key name in the data objects that contains the numerical
  *   value (e.g., "value", "sales", "count"). Used to extract values from the
  *   data array.
+ * @property valueKeys - Optional list of value keys for multi-series charts.
+ *   When provided, each key becomes one series (named after the key) and
+ *   valueKey is ignored.
  * @property color - Optional single color for the entire chart. Applied uniformly
  *   if colors array is not provided.
  * @property colors - Optional array of color strings. Provides a color scheme
@@ -61,6 +64,7 @@ export interface ChartDataAttribute {
   data: Array<Record<string, string | number>>;
   labelKey: string;
   valueKey: string;
+  valueKeys?: string[];
   color?: string;
   colors?: string[];
   barDir?: "bar" | "col"; // 'bar' for horizontal bars, 'col' for vertical columns
@@ -105,6 +109,78 @@ export interface TableDataAttribute {
   headerColor?: string;
 }
 
+/**
+ * Binding between a rendered element and a field of the slide's content.
+ *
+ * Templates mark chart and table containers with `data-pptx-chart` or
+ * `data-pptx-table` set to a data path into the slide content (e.g.,
+ * "chartData" or "elements.3.rows"). The exporter reads the values from the
+ * stored slide content instead of the DOM, so the PowerPoint chart or table
+ * carries the real numbers. Recharts SVGs without a marker are bound to the
+ * first chart-like field of the slide automatically (no path).
+ *
+ * @property kind - Whether the element is exported as a chart or a table.
+ * @property path - Optional dot-separated path into the slide content. When
+ *   omitted, the first unused chart-like field is used.
+ * @property chartType - Optional chart type hint (from `data-chart-type` or
+ *   the rendered Recharts series).
+ * @property title - Optional chart title (from `data-chart-title`).
+ * @property color - Optional single chart color (from `data-chart-color`).
+ * @property colors - Optional chart color list (from `data-chart-colors`).
+ * @property barDir - Optional bar direction (from `data-chart-bar-dir`).
+ * @property headers - Optional table header labels (from
+ *   `data-table-headers`). Defaults to the field names of the rows.
+ * @property headerBackground - Optional table header background color.
+ * @property headerColor - Optional table header text color.
+ *
+ * @example
+ * ```tsx
+ * <div data-pptx-chart="chartData" data-chart-type="area">...</div>
+ * ```
+ */
+export interface SlideDataBinding {
+  kind: "chart" | "table";
+  path?: string;
+  chartType?: string;
+  title?: string;
+  color?: string;
+  colors?: string[];
+  barDir?: "bar" | "col";
+  headers?: string[];
+  headerBackground?: string;
+  headerColor?: string;
+}
+
+/**
+ * Straight connector drawn by a template, exported as a native PowerPoint
+ * line instead of a screenshot of its SVG.
+ *
+ * Templates mark the SVG with `data-pptx-connector` holding the line's ends
+ * as fractions (0-1) of the SVG's box, and `data-connector-color`.
+ *
+ * @property x1 - Start x as a fraction of the element's width.
+ * @property y1 - Start y as a fraction of the element's height.
+ * @property x2 - End x as a fraction of the element's width.
+ * @property y2 - End y as a fraction of the element's height.
+ * @property arrow - Whether the line ends in an arrowhead.
+ * @property color - Optional line color (CSS variables resolved).
+ * @property thickness - Optional line width in pixels.
+ *
+ * @example
+ * ```tsx
+ * <svg data-pptx-connector='{"x1":0,"y1":0.5,"x2":1,"y2":0.5,"arrow":true}'>
+ * ```
+ */
+export interface ConnectorAttribute {
+  x1: number;
+  y1: number;
+  x2: number;
+  y2: number;
+  arrow: boolean;
+  color?: string;
+  thickness?: number;
+}
+
 /**
  * Complete attribute structure for a slide element extracted from the DOM.
  *
@@ -193,7 +269,8 @@ export interface TableDataAttribute {
  * @property overlay - Optional overlay color or effect. Hex color string for
  *   color overlays applied to images or elements.
  * @property shape - Optional shape type for masking. "rectangle" or "circle".
- *   Used to clip elements into specific shapes.
+ *   Used to clip elements into specific shapes. Boxes marked with
+ *   `data-pptx-shape="ellipse"` are "circle" and export as ovals.
  * @property connectorType - Optional connector line type identifier. Used for
  *   connector/shape-connecting elements. Values like "straight", "elbow", "curved".
  * @property textWrap - Optional boolean indicating whether text should wrap
@@ -221,6 +298,10 @@ export interface TableDataAttribute {
  * @property tableData - Optional table data for native PowerPoint table export.
  *   When present, the element will be exported as a native editable table
  *   instead of a screenshot. Used for better PowerPoint compatibility.
+ * @property dataBinding - Optional binding to a field of the slide content.
+ *   Resolved by the exporter into chartData or tableData.
+ * @property connector - Optional straight connector for native PowerPoint
+ *   export (from `data-pptx-connector`).
  */
 export interface ElementAttributes {
   tagName: string;
@@ -302,6 +383,10 @@ export interface ElementAttributes {
   chartData?: ChartDataAttribute;
   // Native table data for PPTX export (instead of screenshot)
   tableData?: TableDataAttribute;
+  // Slide content field to build chartData/tableData from
+  dataBinding?: SlideDataBinding;
+  // Native connector line for PPTX export (instead of screenshot)
+  connector?: ConnectorAttribute;
 }
 
 /**
@@ -34,6 +34,24 @@
  * @property OPENROUTER_APP_NAME - Optional application name for OpenRouter API
  *   requests. Used as the X-Title header to identify the application. Helps
  *   with API usage tracking and support.
+ * @property LLM_PROVIDER - Optional default LLM provider: "openrouter",
+ *   "openai", "ollama", "custom" (any OpenAI-compatible endpoint such as vLLM
+ *   or LM Studio), "anthropic" or "google".
+ * @property LLM_MODEL - Optional model identifier for LLM_PROVIDER.
+ * @property OUTLINE_LLM_PROVIDER / OUTLINE_LLM_MODEL - Optional provider and
+ *   model for outline generation and layout planning.
+ * @property SLIDE_LLM_PROVIDER / SLIDE_LLM_MODEL - Optional provider and
+ *   model for slide content generation.
+ * @property EDIT_LLM_PROVIDER / EDIT_LLM_MODEL - Optional provider and model
+ *   for slide edits and HTML transformations.
+ * @property OPENAI_BASE_URL - Optional base URL for the "openai" provider.
+ * @property OLLAMA_URL - Optional Ollama endpoint (OpenAI-compatible API).
+ * @property CUSTOM_LLM_URL - Optional endpoint for the "custom" provider.
+ * @property CUSTOM_LLM_API_KEY - Optional API key for the "custom" provider.
+ * @property CUSTOM_LLM_JSON_MODE - Optional; "false" if the custom endpoint
+ *   does not support JSON response mode.
+ * @property ANTHROPIC_API_KEY - Optional API key for Anthropic models.
+ * @property GOOGLE_API_KEY - Optional API key for Google Gemini models.
  * @property IMAGE_PROVIDER - Optional identifier for the primary image generation
  *   provider to use. Values like "openai" (DALL-E), "pexels", "pixabay", etc.
  *   Determines which service is used for generating or fetching images for slides.
@@ -67,6 +85,23 @@ export interface LLMConfig {
   OPENROUTER_SITE_URL?: string;
   OPENROUTER_APP_NAME?: string;
 
+  // LLM providers
+  LLM_PROVIDER?: string;
+  LLM_MODEL?: string;
+  OUTLINE_LLM_PROVIDER?: string;
+  OUTLINE_LLM_MODEL?: string;
+  SLIDE_LLM_PROVIDER?: string;
+  SLIDE_LLM_MODEL?: string;
+  EDIT_LLM_PROVIDER?: string;
+  EDIT_LLM_MODEL?: string;
+  OPENAI_BASE_URL?: string;
+  OLLAMA_URL?: string;
+  CUSTOM_LLM_URL?: string;
+  CUSTOM_LLM_API_KEY?: string;
+  CUSTOM_LLM_JSON_MODE?: string;
+  ANTHROPIC_API_KEY?: string;
+  GOOGLE_API_KEY?: string;
+
   // Image providers
   IMAGE_PROVIDER?: string;
   OPENAI_API_KEY?: string;
@@ -695,6 +695,13 @@ export interface PptxPictureBoxModel extends PptxShapeModel {
  *   or PowerPoint color name.
  * @property opacity - Required opacity value ranging from 0.0 (transparent)
  *   to 1.0 (opaque). Controls the transparency of the connector line.
+ * @property flip_h - Optional horizontal flip. The line runs from the
+ *   top-left to the bottom-right corner of its box; flipped, it starts on
+ *   the right.
+ * @property flip_v - Optional vertical flip. Flipped, the line starts at the
+ *   bottom of its box.
+ * @property begin_arrow - Optional arrowhead at the start of the line.
+ * @property end_arrow - Optional arrowhead at the end of the line.
  */
 export interface PptxConnectorModel extends PptxShapeModel {
   shape_type: string;
@@ -703,6 +710,10 @@ export interface PptxConnectorModel extends PptxShapeModel {
   thickness: number;
   color: string;
   opacity: number;
+  flip_h?: boolean;
+  flip_v?: boolean;
+  begin_arrow?: boolean;
+  end_arrow?: boolean;
 }
 
 /**
@@ -84,3 +84,27 @@ export interface PresentationResponse {
   };
   slides: SlideData[];
 }
+
+/**
+ * Key figure of a pitch that every slide must state the same way.
+ *
+ * Extracted from the user's prompt and uploaded documents before slides are
+ * generated, given to every slide prompt, and editable by the user. Slide
+ * fields showing a fact's value are bound to it: changing the fact rewrites
+ * them.
+ *
+ * @property key - Identifier of the fact: one of "arr", "mrr", "revenue",
+ *   "raise", "valuation", "customers", "tam", "sam", "som", "runway",
+ *   "burn", or a custom key added by the user.
+ * @property label - Name shown to the user and in prompts ("ARR").
+ * @property value - The value exactly as slides should show it ("$1.2M").
+ * @property source - Where the value came from:
+ *   - source: Stated in the prompt or uploaded documents
+ *   - user: Entered or changed by the user
+ */
+export interface KeyFact {
+  key: string;
+  label: string;
+  value: string;
+  source: "source" | "user";
+}
@@ -125,7 +125,9 @@ export interface GraphData {
  *   primary text content that describes what this node represents.
  * @property type - Optional node type identifier. Can specify different
  *   visual styles or behaviors for different node types (e.g., "decision",
- *   "process", "start", "end" in flowcharts).
+ *   "process", "start", "end" in flowcharts). In architecture diagrams it
+ *   names the node's layer (e.g., "Clients", "Platform", "Data"); layers are
+ *   stacked top to bottom in order of first appearance.
  */
 export interface DiagramNode {
   id: string;
@@ -163,8 +165,11 @@ export interface DiagramEdge {
  * on the diagram type.
  *
  * @property type - Diagram type identifier. Determines the visual layout and
- *   rendering style. Supported types: "flowchart", "tree", "mindmap", "timeline".
- *   Can also accept custom string values for extended diagram types.
+ *   rendering style. Supported types: "flowchart" (left to right), "tree"
+ *   (top down), "mindmap" (around a central node), "timeline" (items on a
+ *   line), "flywheel" (nodes in a loop, each feeding the next) and
+ *   "architecture" (nodes stacked in layers). Unknown types are drawn as
+ *   flowcharts.
  * @property nodes - Optional array of DiagramNode objects. Used for graph-based
  *   diagrams (flowcharts, trees) where nodes are connected by edges. Each node
  *   represents an element in the diagram.
@@ -200,7 +205,14 @@ export interface DiagramEdge {
  * ```
  */
 export interface DiagramData {
-  type: "flowchart" | "tree" | "mindmap" | "timeline" | string;
+  type:
+    | "flowchart"
+    | "tree"
+    | "mindmap"
+    | "timeline"
+    | "flywheel"
+    | "architecture"
+    | string;
   nodes?: DiagramNode[];
   edges?: DiagramEdge[];
   items?: Array<{ label: string; description?: string }>;
@@ -403,6 +415,40 @@ export interface SlideContent {
   [key: string]: unknown; // Allow additional dynamic content fields
 }
 
+/**
+ * Web source cited by a slide.
+ *
+ * Collected by web search during generation when the presentation has
+ * `web_search` enabled.
+ *
+ * @property title - Page title as returned by the search provider.
+ * @property url - Page URL.
+ */
+export interface SlideSource {
+  title: string;
+  url: string;
+}
+
+/**
+ * Uploaded document passage a slide was generated from.
+ *
+ * Recorded when slide content is generated or AI-edited from passages
+ * retrieved out of the presentation's uploaded documents.
+ *
+ * @property chunk_id - ID of the passage in the presentation's document
+ *   index.
+ * @property document - File name of the document, or null if unknown.
+ * @property page - One-based page number for PDFs, or null if the document
+ *   has no pages.
+ * @property excerpt - Beginning of the passage, for display.
+ */
+export interface SlideDocumentSource {
+  chunk_id: string;
+  document: string | null;
+  page: number | null;
+  excerpt: string;
+}
+
 /**
  * Complete slide data structure representing a single slide in a presentation.
  *
@@ -450,6 +496,13 @@ export interface SlideContent {
  * @property layout_group - Optional layout group identifier. Used to group
  *   slides that share the same custom layout, allowing for consistent styling
  *   across multiple slides.
+ * @property sources - Optional web sources the slide's content was researched
+ *   from. Shown as citations (e.g. for market size and competitor figures).
+ * @property document_sources - Optional uploaded document passages the
+ *   slide's content was generated from, with file name and page.
+ * @property version - Server version of the slide, when loaded from the
+ *   server. Saves send it back so that changes made elsewhere in the
+ *   meantime are not overwritten.
  * @property content - SlideContent object containing all the actual content
  *   to be displayed on the slide (text, charts, diagrams, etc.). This is the
  *   primary data that users edit and that gets rendered.
@@ -487,6 +540,9 @@ export interface Slide {
   speaker_note?: string;
   layout?: string;
   layout_group?: string;
+  sources?: SlideSource[] | null;
+  document_sources?: SlideDocumentSource[] | null;
+  version?: number;
 
   content: SlideContent;
 }
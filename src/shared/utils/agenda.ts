@@ -0,0 +1,298 @@
+/**
+ * Title and agenda slides of a deck outline.
+ *
+ * Outlines start with a label naming the slide ("PROBLEM: Hero $2.3B - ...").
+ * This module reads those labels to find the title slide and the agenda,
+ * builds the agenda from the titles of the other slides, and applies the
+ * presentation's `include_title_slide` and `include_table_of_contents`
+ * options to an outline list.
+ *
+ * The agenda is always derived from the outlines around it, so reordering,
+ * adding or deleting slides only needs `applyDeckSections` to run again.
+ * This module has no React or server dependencies, so the outline editor and
+ * the generation pipeline share it.
+ */
+
+/**
+ * Label of the agenda outline.
+ */
+export const AGENDA_LABEL = "AGENDA";
+
+/**
+ * Maximum number of sections listed on an agenda slide. Longer decks list
+ * their first sections only.
+ */
+export const MAX_AGENDA_ITEMS = 12;
+
+/**
+ * Labels that mark an outline as the title slide.
+ */
+const TITLE_LABELS = new Set([
+  "INTRO",
+  "INTRODUCTION",
+  "TITLE",
+  "TITLE SLIDE",
+  "COVER",
+]);
+
+/**
+ * Labels that mark an outline as the agenda.
+ */
+const AGENDA_LABELS = new Set([
+  AGENDA_LABEL,
+  "TABLE OF CONTENTS",
+  "CONTENTS",
+  "TOC",
+]);
+
+/**
+ * Separator between section titles in the agenda outline.
+ */
+const AGENDA_SEPARATOR = " · ";
+
+/**
+ * Maximum characters of an agenda section title.
+ */
+const MAX_TITLE_LENGTH = 40;
+
+/**
+ * Maximum characters of an agenda section description.
+ */
+const MAX_DESCRIPTION_LENGTH = 60;
+
+/**
+ * Minimal outline shape: anything with text content.
+ */
+type OutlineLike = { content: string };
+
+/**
+ * One section listed on the agenda slide.
+ *
+ * @property title - Section title, e.g. "Business Model".
+ * @property description - Short summary taken from the section's outline.
+ */
+export interface AgendaItem {
+  title: string;
+  description?: string;
+}
+
+/**
+ * Which opening slides a deck must have.
+ *
+ * @property includeTitleSlide - The deck starts with a title slide.
+ * @property includeTableOfContents - An agenda follows the title slide.
+ * @property title - Tagline for a title slide that has to be added.
+ */
+export interface DeckSectionOptions {
+  includeTitleSlide: boolean;
+  includeTableOfContents: boolean;
+  title?: string;
+}
+
+/**
+ * Splits an outline into its label and the text after it.
+ *
+ * @param content - Outline text.
+ * @returns The label ("BUSINESS MODEL") and the rest, or a null label when
+ *   the outline does not start with a short "LABEL:" prefix.
+ */
+const splitOutlineLabel = (
+  content: string,
+): { label: string | null; rest: string } => {
+  const text = content.trim();
+  const match = /^([^:\n]{2,40}):\s*/.exec(text);
+  if (!match || match[1].trim().split(/\s+/).length > 4) {
+    return { label: null, rest: text };
+  }
+  return { label: match[1].trim(), rest: text.slice(match[0].length) };
+};
+
+/**
+ * Turns an all-caps label into a title ("GO-TO-MARKET" → "Go-to-market").
+ * Labels already in mixed case are kept.
+ */
+const toTitleCase = (label: string): string => {
+  if (label !== label.toUpperCase()) return label;
+  return label
+    .toLowerCase()
+    .split(/\s+/)
+    .map((word) => word.charAt(0).toUpperCase() + word.slice(1))
+    .join(" ");
+};
+
+/**
+ * Cuts text to a maximum length at a word boundary.
+ */
+const truncateWords = (text: string, maxLength: number): string => {
+  if (text.length <= maxLength) return text;
+  const cut = text.slice(0, maxLength);
+  const lastSpace = cut.lastIndexOf(" ");
+  return (lastSpace > 0 ? cut.slice(0, lastSpace) : cut).trim();
+};
+
+/**
+ * Returns the upper-cased label of an outline, or null without one.
+ *
+ * @param content - Outline text.
+ * @returns The label, e.g. "TRACTION".
+ */
+export const getOutlineLabel = (content: string): string | null => {
+  const { label } = splitOutlineLabel(content);
+  return label ? label.toUpperCase() : null;
+};
+
+/**
+ * Returns the section title of an outline, as listed on the agenda.
+ *
+ * Uses the label when there is one ("TRACTION: ..." → "Traction"), or the
+ * first words of the headline otherwise.
+ *
+ * @param content - Outline text.
+ * @returns The section title, or an empty string for an empty outline.
+ */
+export const getOutlineTitle = (content: string): string => {
+  const { label, rest } = splitOutlineLabel(content);
+  if (label) return toTitleCase(label);
+  const headline = rest.split(/\s+[-|–—]\s+/)[0] ?? "";
+  return headline.split(/\s+/).slice(0, 5).join(" ");
+};
+
+/**
+ * Returns a short description of an outline for the agenda: its headline
+ * after the label, or the context after a "Hero" metric.
+ *
+ * @param content - Outline text.
+ * @returns The description, or undefined when the outline has no label.
+ */
+const getOutlineDescription = (content: string): string | undefined => {
+  const { label, rest } = splitOutlineLabel(content);
+  if (!label) return undefined;
+  const [first = "", second = ""] = rest.split(/\s+[-|–—]\s+/);
+  const headline = (/^hero\b/i.test(first) ? second : first).trim();
+  return headline
+    ? truncateWords(headline, MAX_DESCRIPTION_LENGTH)
+    : undefined;
+};
+
+/**
+ * Checks whether an outline is the title slide.
+ *
+ * @param content - Outline text.
+ * @returns True for INTRO, TITLE and COVER outlines.
+ */
+export const isTitleOutline = (content: string): boolean => {
+  const label = getOutlineLabel(content);
+  return label !== null && TITLE_LABELS.has(label);
+};
+
+/**
+ * Checks whether an outline is the agenda.
+ *
+ * @param content - Outline text.
+ * @returns True for AGENDA and TABLE OF CONTENTS outlines.
+ */
+export const isAgendaOutline = (content: string): boolean => {
+  const label = getOutlineLabel(content);
+  return label !== null && AGENDA_LABELS.has(label);
+};
+
+/**
+ * Lists the sections of a deck for its agenda slide.
+ *
+ * The title slide and the agenda itself are skipped, and at most
+ * MAX_AGENDA_ITEMS sections are listed, in outline order.
+ *
+ * @param outlines - Outlines of the deck.
+ * @returns Agenda sections.
+ */
+export const buildAgendaItems = (outlines: OutlineLike[]): AgendaItem[] =>
+  outlines
+    .filter(
+      (outline) =>
+        !isTitleOutline(outline.content) && !isAgendaOutline(outline.content),
+    )
+    .map((outline) => ({
+      title: truncateWords(getOutlineTitle(outline.content), MAX_TITLE_LENGTH),
+      description: getOutlineDescription(outline.content),
+    }))
+    .filter((item) => item.title.length > 0)
+    .slice(0, MAX_AGENDA_ITEMS);
+
+/**
+ * Builds the text of the agenda outline from the other outlines.
+ *
+ * @param outlines - Outlines of the deck.
+ * @returns Outline text, e.g. "AGENDA: Problem · Solution · Market".
+ *
+ * @example
+ * ```typescript
+ * buildAgendaOutline([{ content: "INTRO: ..." }, { content: "PROBLEM: ..." }]);
+ * // Returns: "AGENDA: Problem"
+ * ```
+ */
+export const buildAgendaOutline = (outlines: OutlineLike[]): string =>
+  `${AGENDA_LABEL}: ${buildAgendaItems(outlines)
+    .map((item) => item.title)
+    .join(AGENDA_SEPARATOR)}`;
+
+/**
+ * Applies a deck's title slide and agenda options to its outlines.
+ *
+ * - With `includeTitleSlide`, the title slide is moved to the front, or one
+ *   is created from `options.title` when the deck has none
+ * - With `includeTableOfContents`, exactly one agenda follows the title slide
+ *   (or opens the deck), listing the current sections in order; without it,
+ *   agenda outlines are removed
+ *
+ * Unchanged outlines keep their identity, and the agenda keeps its identity
+ * while its text is current, so callers can compare the result item by item
+ * to detect changes.
+ *
+ * @param outlines - Outlines of the deck.
+ * @param options - The deck's section options.
+ * @param create - Creates a new outline with the given text.
+ * @returns The outlines with the options applied.
+ */
+export const applyDeckSections = <T extends OutlineLike>(
+  outlines: T[],
+  options: DeckSectionOptions,
+  create: (content: string) => T,
+): T[] => {
+  const existingAgenda = outlines.find((outline) =>
+    isAgendaOutline(outline.content),
+  );
+  const sections = outlines.filter(
+    (outline) => !isAgendaOutline(outline.content),
+  );
+  if (sections.length === 0) return outlines;
+
+  if (options.includeTitleSlide) {
+    const titleIndex = sections.findIndex((outline) =>
+      isTitleOutline(outline.content),
+    );
+    if (titleIndex > 0) {
+      sections.unshift(...sections.splice(titleIndex, 1));
+    } else if (titleIndex < 0) {
+      const title = options.title?.trim() || "Company overview";
+      sections.unshift(create(`INTRO: ${title}`));
+    }
+  }
+
+  if (
+    !options.includeTableOfContents ||
+    buildAgendaItems(sections).length === 0
+  ) {
+    return sections;
+  }
+
+  const content = buildAgendaOutline(sections);
+  const agenda =
+    existingAgenda?.content === content
+      ? existingAgenda
+      : existingAgenda
+        ? { ...existingAgenda, content }
+        : create(content);
+  const insertAt = isTitleOutline(sections[0].content) ? 1 : 0;
+  sections.splice(insertAt, 0, agenda);
+  return sections;
+};
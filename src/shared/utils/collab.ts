@@ -0,0 +1,423 @@
+/**
+ * Operations and messages of the real-time collaboration protocol.
+ *
+ * Collaborators never send whole documents. Each client diffs its slides
+ * against the last state it synced and sends the differences as operations:
+ * - `set`: One field of a slide's content, addressed by the same `dataPath`
+ *   strings the editor uses (e.g., "title", "bullets[1].heading")
+ * - `set_field`: A slide-level field (speaker notes, layout, sources)
+ * - `insert_slide` / `delete_slide` / `move_slides`: Slide list changes
+ *
+ * The collaboration server applies operations in the order it receives them
+ * and broadcasts them in that order, so every client converges on the same
+ * state. Edits to different paths never overwrite each other; for the same
+ * path the last operation to reach the server wins. Applying an operation
+ * twice has no further effect, so clients can resend unacknowledged
+ * operations after reconnecting.
+ *
+ * This module is shared by the browser and the collaboration server.
+ */
+
+/**
+ * Minimal slide shape the operations work on. Editor slides and the
+ * server's stored slides both satisfy it.
+ */
+export type CollabSlideLike = {
+  id: string | null;
+  content?: unknown;
+};
+
+/**
+ * Slide-level fields synced with `set_field`.
+ */
+export const COLLAB_SLIDE_FIELDS = [
+  "speaker_note",
+  "layout",
+  "layout_group",
+  "sources",
+  "document_sources",
+] as const;
+
+export type CollabSlideField = (typeof COLLAB_SLIDE_FIELDS)[number];
+
+/**
+ * A change to a presentation's slides.
+ *
+ * `set` with an empty path replaces the whole content object.
+ * `insert_slide` carries the full slide; `index` is its position after
+ * insertion. `move_slides` lists slide IDs in their new order.
+ */
+export type CollabOp =
+  | { type: "set"; slide_id: string; path: string; value: unknown }
+  | {
+      type: "set_field";
+      slide_id: string;
+      field: CollabSlideField;
+      value: unknown;
+    }
+  | { type: "insert_slide"; slide: Record<string, unknown>; index: number }
+  | { type: "delete_slide"; slide_id: string }
+  | { type: "move_slides"; order: string[] };
+
+/**
+ * An operation tagged with the ID its author gave it, used to acknowledge
+ * the author's own operations when they come back from the server.
+ */
+export type CollabOpEnvelope = {
+  id: string;
+  op: CollabOp;
+};
+
+/**
+ * Pointer position over a slide, relative to the slide's width and height
+ * (0 to 1 on both axes).
+ */
+export type CollabPointer = { x: number; y: number };
+
+/**
+ * A connected collaborator.
+ *
+ * @property session_id - ID of the connection (one per browser tab).
+ * @property user_id - ID of the signed-in user.
+ * @property name - Display name (the user's name, or their email).
+ * @property color - Color used for the collaborator's avatar and cursor.
+ * @property slide_id - Slide the collaborator is looking at or editing.
+ * @property data_path - Content field the collaborator is editing.
+ * @property pointer - Pointer position over `slide_id`, or null when the
+ *   pointer is not over a slide.
+ */
+export type CollabPeer = {
+  session_id: string;
+  user_id: string;
+  name: string;
+  color: string;
+  slide_id: string | null;
+  data_path: string | null;
+  pointer: CollabPointer | null;
+};
+
+/**
+ * Presence fields a client reports about itself.
+ */
+export type CollabPresence = Pick<
+  CollabPeer,
+  "slide_id" | "data_path" | "pointer"
+>;
+
+/**
+ * Messages sent by clients.
+ */
+export type CollabClientMessage =
+  | { type: "ops"; ops: CollabOpEnvelope[] }
+  | ({ type: "presence" } & CollabPresence);
+
+/**
+ * Messages sent by the server.
+ *
+ * - welcome: First message after connecting: the current slides and who
+ *   else is connected
+ * - ops: Operations applied by the server, in order; `session_id` is the
+ *   author's connection
+ * - presence: A collaborator joined or their presence changed
+ * - leave: A collaborator disconnected
+ * - error: A message was rejected; the connection stays open
+ */
+export type CollabServerMessage =
+  | {
+      type: "welcome";
+      session_id: string;
+      slides: Record<string, unknown>[];
+      peers: CollabPeer[];
+    }
+  | { type: "ops"; session_id: string; ops: CollabOpEnvelope[] }
+  | { type: "presence"; peer: CollabPeer }
+  | { type: "leave"; session_id: string }
+  | { type: "error"; message: string };
+
+/**
+ * Colors handed out to collaborators, in order of joining.
+ */
+export const COLLAB_COLORS = [
+  "#e5484d",
+  "#0090ff",
+  "#30a46c",
+  "#f76b15",
+  "#8e4ec6",
+  "#12a594",
+  "#d6409f",
+  "#978365",
+];
+
+type Nested = Record<string | number, unknown>;
+
+/**
+ * Keys a data path may not contain: writing through them reaches
+ * `Object.prototype` instead of the slide's content.
+ */
+const FORBIDDEN_PATH_KEYS = new Set(["__proto__", "constructor", "prototype"]);
+
+/**
+ * Splits a data path into keys ("items[0].name" -> ["items", "0", "name"]).
+ */
+const splitPath = (path: string): string[] =>
+  path.split(/[.\[\]]+/).filter(Boolean);
+
+/**
+ * Checks that a data path only addresses the content's own fields.
+ *
+ * @param path - Data path of a field (e.g., "bullets[1].heading").
+ * @returns False if any key of the path is `__proto__`, `constructor` or
+ *   `prototype`.
+ */
+export const isSafeDataPath = (path: string): boolean =>
+  splitPath(path).every((key) => !FORBIDDEN_PATH_KEYS.has(key));
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const clone = <T>(value: T): T =>
+  value === undefined ? value : (JSON.parse(JSON.stringify(value)) as T);
+
+const isSame = (a: unknown, b: unknown): boolean =>
+  a === b || JSON.stringify(a) === JSON.stringify(b);
+
+/**
+ * Sets a value inside slide content by data path, creating missing objects
+ * along the way. Mirrors how the editor's `updateSlideContent` writes.
+ * Unsafe paths (see isSafeDataPath) are ignored.
+ *
+ * @param content - Content object to update in place.
+ * @param path - Data path of the field.
+ * @param value - New value.
+ */
+const setAtPath = (content: Nested, path: string, value: unknown): void => {
+  if (!isSafeDataPath(path)) return;
+  const keys = splitPath(path);
+  let current: Nested = content;
+  for (let i = 0; i < keys.length - 1; i++) {
+    const key = keys[i];
+    if (
+      !Object.prototype.hasOwnProperty.call(current, key) ||
+      typeof current[key] !== "object" ||
+      current[key] === null
+    ) {
+      current[key] = /^\d+$/.test(keys[i + 1]) ? [] : {};
+    }
+    current = current[key] as Nested;
+  }
+  current[keys[keys.length - 1]] = value;
+};
+
+/**
+ * Applies one operation to a list of slides.
+ *
+ * Returns a new list; slides the operation touches are copied, the rest are
+ * shared with the input. Operations on slides that no longer exist are
+ * ignored, and inserting a slide that already exists does nothing.
+ *
+ * @param slides - Slides in presentation order.
+ * @param op - Operation to apply.
+ * @returns The updated slides.
+ */
+export const applyCollabOp = <T extends CollabSlideLike>(
+  slides: T[],
+  op: CollabOp,
+): T[] => {
+  switch (op.type) {
+    case "set":
+    case "set_field":
+      return slides.map((slide) => {
+        if (slide.id !== op.slide_id) return slide;
+        if (op.type === "set_field") {
+          return { ...slide, [op.field]: clone(op.value) };
+        }
+        if (!op.path) return { ...slide, content: clone(op.value) };
+        const content = isPlainObject(slide.content)
+          ? clone(slide.content)
+          : {};
+        setAtPath(content, op.path, clone(op.value));
+        return { ...slide, content };
+      });
+    case "insert_slide": {
+      if (slides.some((slide) => slide.id === op.slide.id)) return slides;
+      const next = [...slides];
+      const index = Math.max(0, Math.min(op.index, next.length));
+      next.splice(index, 0, clone(op.slide) as unknown as T);
+      return next;
+    }
+    case "delete_slide":
+      return slides.filter((slide) => slide.id !== op.slide_id);
+    case "move_slides": {
+      const byId = new Map(slides.map((slide) => [slide.id, slide]));
+      const listed = new Set(op.order);
+      const next = op.order
+        .map((id) => byId.get(id))
+        .filter((slide): slide is T => slide !== undefined);
+      // Slides missing from the order (inserted concurrently) stay put
+      slides.forEach((slide, index) => {
+        if (!slide.id || !listed.has(slide.id)) {
+          next.splice(Math.min(index, next.length), 0, slide);
+        }
+      });
+      return next;
+    }
+  }
+};
+
+/**
+ * Lists `set` operations that turn one content value into another.
+ *
+ * Objects with the same keys and arrays with the same length are compared
+ * field by field, so editing one bullet produces one operation for that
+ * bullet. Anything else (added or removed keys, resized arrays, changed
+ * primitives) is set as a whole at its path.
+ */
+const diffContentPaths = (
+  slideId: string,
+  before: unknown,
+  after: unknown,
+  path: string,
+  ops: CollabOp[],
+): void => {
+  if (isSame(before, after)) return;
+
+  if (isPlainObject(before) && isPlainObject(after)) {
+    const keys = Object.keys(after);
+    const sameKeys =
+      keys.length === Object.keys(before).length &&
+      keys.every((key) => key in before);
+    if (sameKeys) {
+      for (const key of keys) {
+        const child = path ? `${path}.${key}` : key;
+        diffContentPaths(slideId, before[key], after[key], child, ops);
+      }
+      return;
+    }
+  }
+
+  if (
+    Array.isArray(before) &&
+    Array.isArray(after) &&
+    before.length === after.length &&
+    path
+  ) {
+    after.forEach((item, index) => {
+      diffContentPaths(slideId, before[index], item, `${path}[${index}]`, ops);
+    });
+    return;
+  }
+
+  ops.push({ type: "set", slide_id: slideId, path, value: after ?? null });
+};
+
+/**
+ * Lists the operations that turn one version of a deck's slides into
+ * another.
+ *
+ * Every slide must have an ID. Removed slides produce `delete_slide`, new
+ * ones `insert_slide`, a changed order `move_slides`, and changed fields of
+ * the remaining slides `set` / `set_field`.
+ *
+ * @param before - Slides as last synced.
+ * @param after - Slides as they are now.
+ * @returns Operations that, applied to `before` in order, give `after`.
+ *
+ * @example
+ * ```typescript
+ * diffCollabSlides(
+ *   [{ id: "a", content: { title: "Q1", body: "x" } }],
+ *   [{ id: "a", content: { title: "Q2", body: "x" } }],
+ * );
+ * // [{ type: "set", slide_id: "a", path: "title", value: "Q2" }]
+ * ```
+ */
+export const diffCollabSlides = <T extends CollabSlideLike>(
+  before: T[],
+  after: T[],
+): CollabOp[] => {
+  const ops: CollabOp[] = [];
+  const afterIds = new Set(after.map((slide) => slide.id));
+  const beforeById = new Map(before.map((slide) => [slide.id, slide]));
+
+  for (const slide of before) {
+    if (slide.id && !afterIds.has(slide.id)) {
+      ops.push({ type: "delete_slide", slide_id: slide.id });
+    }
+  }
+  after.forEach((slide, index) => {
+    if (slide.id && !beforeById.has(slide.id)) {
+      ops.push({
+        type: "insert_slide",
+        slide: clone(slide) as unknown as Record<string, unknown>,
+        index,
+      });
+    }
+  });
+
+  const reordered = ops.reduce(applyCollabOp, before);
+  const order = after.map((slide) => slide.id);
+  if (reordered.some((slide, index) => slide.id !== order[index])) {
+    ops.push({
+      type: "move_slides",
+      order: order.filter((id): id is string => !!id),
+    });
+  }
+
+  for (const slide of after) {
+    const previous = slide.id ? beforeById.get(slide.id) : undefined;
+    if (!slide.id || !previous || previous === slide) continue;
+    const current = slide as Record<string, unknown>;
+    const old = previous as Record<string, unknown>;
+    for (const field of COLLAB_SLIDE_FIELDS) {
+      if (!isSame(old[field] ?? null, current[field] ?? null)) {
+        ops.push({
+          type: "set_field",
+          slide_id: slide.id,
+          field,
+          value: current[field] ?? null,
+        });
+      }
+    }
+    diffContentPaths(slide.id, previous.content, slide.content, "", ops);
+  }
+
+  return ops;
+};
+
+/**
+ * Checks that a value received over the wire is a well-formed operation.
+ *
+ * @param value - Parsed JSON value.
+ * @returns True if the value can be passed to applyCollabOp.
+ */
+export const isCollabOp = (value: unknown): value is CollabOp => {
+  if (!isPlainObject(value)) return false;
+  switch (value.type) {
+    case "set":
+      return (
+        typeof value.slide_id === "string" &&
+        typeof value.path === "string" &&
+        isSafeDataPath(value.path)
+      );
+    case "set_field":
+      return (
+        typeof value.slide_id === "string" &&
+        (COLLAB_SLIDE_FIELDS as readonly unknown[]).includes(value.field)
+      );
+    case "insert_slide":
+      return (
+        isPlainObject(value.slide) &&
+        typeof value.slide.id === "string" &&
+        Number.isInteger(value.index)
+      );
+    case "delete_slide":
+      return typeof value.slide_id === "string";
+    case "move_slides":
+      return (
+        Array.isArray(value.order) &&
+        value.order.every((id) => typeof id === "string")
+      );
+    default:
+      return false;
+  }
+};
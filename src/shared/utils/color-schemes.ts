@@ -5,6 +5,11 @@
  * color themes used throughout presentations. Color schemes define a cohesive
  * set of colors for headings, body text, accents, borders, and backgrounds
  * that create a consistent visual identity for slides.
+ *
+ * Brand kits extend a color scheme with fonts, logos and footer text. They
+ * are applied to slides of every template family as CSS variables: the
+ * templates read their colors from the variables and fall back to their own
+ * palette when no kit is applied.
  */
 
 /**
@@ -81,6 +86,111 @@ export type ColorScheme = {
  */
 export const DEFAULT_COLOR_SCHEME_ID = "noir-orange";
 
+/**
+ * Font of a brand kit.
+ *
+ * @property family - CSS font family name (e.g., "Söhne", "Inter").
+ * @property url - Where the font is loaded from: an uploaded font file
+ *   (`/app_data/fonts/...`) or a Google Fonts stylesheet URL. Null for
+ *   fonts installed on the viewer's system.
+ */
+export type BrandFont = {
+  family: string;
+  url: string | null;
+};
+
+/**
+ * Logo variants of a brand kit. Each is an image URL, or null if the brand
+ * has no such variant.
+ *
+ * @property primary - Logo for light backgrounds.
+ * @property inverse - Logo for dark backgrounds. Light slides fall back to
+ *   it when there is no primary logo, and the other way around.
+ * @property icon - Square mark without wordmark, for small placements.
+ */
+export type BrandLogos = {
+  primary: string | null;
+  inverse: string | null;
+  icon: string | null;
+};
+
+/**
+ * A company's visual identity, applied on top of any template.
+ *
+ * @property id - Unique identifier of the kit.
+ * @property name - Kit name, usually the company's.
+ * @property colors - Color tokens of the brand.
+ * @property heading_font - Font of titles and headings, or null to keep
+ *   the template's.
+ * @property body_font - Font of all other text, or null to keep the
+ *   template's.
+ * @property logos - Logo variants.
+ * @property footer_text - Text shown in the footer of every slide, or null.
+ * @property created_at - ISO 8601 timestamp of when the kit was created.
+ * @property updated_at - ISO 8601 timestamp of the kit's last change.
+ */
+export type BrandKit = {
+  id: string;
+  name: string;
+  colors: ColorTokens;
+  heading_font: BrandFont | null;
+  body_font: BrandFont | null;
+  logos: BrandLogos;
+  footer_text: string | null;
+  created_at: string;
+  updated_at: string;
+};
+
+/**
+ * Contrast check of one color token against a background token.
+ *
+ * @property token - The checked token.
+ * @property against - The background token.
+ * @property ratio - WCAG contrast ratio, rounded to two decimals.
+ * @property required - Minimum ratio for the token's use.
+ * @property passes - Whether the ratio meets the minimum.
+ */
+export type ContrastCheck = {
+  token: keyof ColorTokens;
+  against: keyof ColorTokens;
+  ratio: number;
+  required: number;
+  passes: boolean;
+};
+
+/**
+ * Heading and body font suggested together.
+ */
+export type FontPairing = {
+  heading: BrandFont;
+  body: BrandFont;
+};
+
+/**
+ * Brand extracted from an uploaded file.
+ *
+ * @property source - Kind of file the brand was extracted from.
+ * @property scheme - Color scheme ready to apply, e.g. as a brand kit's
+ *   colors.
+ * @property palette - Main colors found in the file, most used first.
+ * @property contrast - WCAG contrast checks of the scheme's text and accent
+ *   colors.
+ * @property fonts - Suggested heading and body fonts, the fonts found in
+ *   the file (decks only) and alternative pairings.
+ */
+export type ExtractedBrand = {
+  source: "image" | "pptx";
+  scheme: ColorScheme;
+  palette: string[];
+  contrast: ContrastCheck[];
+  fonts: {
+    heading: BrandFont;
+    body: BrandFont;
+    detected: string[];
+    pairings: FontPairing[];
+  };
+};
+
 export const COLOR_SCHEMES: ColorScheme[] = [
   {
     id: "noir-orange",
@@ -252,3 +362,155 @@ export const colorSchemeToCssVars = (
   }
   return vars;
 };
+
+/**
+ * Relative luminance of a hex color, as defined by WCAG 2.
+ *
+ * @param color - Hex color ("#0b0b0b" or "#000").
+ * @returns Luminance from 0 (black) to 1 (white), or null if the color is
+ *   not a valid hex color.
+ */
+const relativeLuminance = (color: string): number | null => {
+  const hex = color.replace("#", "");
+  const full =
+    hex.length === 3
+      ? hex
+          .split("")
+          .map((digit) => digit + digit)
+          .join("")
+      : hex;
+  const value = Number.parseInt(full, 16);
+  if (full.length !== 6 || Number.isNaN(value)) return null;
+  const channels = [value >> 16, (value >> 8) & 0xff, value & 0xff].map(
+    (channel) => {
+      const srgb = channel / 255;
+      return srgb <= 0.03928 ? srgb / 12.92 : ((srgb + 0.055) / 1.055) ** 2.4;
+    },
+  );
+  return 0.2126 * channels[0] + 0.7152 * channels[1] + 0.0722 * channels[2];
+};
+
+/**
+ * Checks whether a hex color is dark, i.e. light text and logos are needed
+ * on top of it.
+ *
+ * @param color - Hex color ("#0b0b0b" or "#000").
+ * @returns True if the color's relative luminance is below 0.4.
+ */
+export const isDarkColor = (color: string): boolean => {
+  const luminance = relativeLuminance(color);
+  return luminance !== null && luminance < 0.4;
+};
+
+/**
+ * WCAG 2 contrast ratio between two hex colors.
+ *
+ * WCAG AA asks for at least 4.5 for body text and 3 for large text and
+ * graphics.
+ *
+ * @param foreground - Hex color of the text or graphic.
+ * @param background - Hex color behind it.
+ * @returns The ratio, from 1 (no contrast) to 21 (black on white).
+ *
+ * @example
+ * ```typescript
+ * contrastRatio("#525252", "#ffffff"); // 7.81
+ * ```
+ */
+export const contrastRatio = (
+  foreground: string,
+  background: string,
+): number => {
+  const first = relativeLuminance(foreground) ?? 0;
+  const second = relativeLuminance(background) ?? 0;
+  return (Math.max(first, second) + 0.05) / (Math.min(first, second) + 0.05);
+};
+
+/**
+ * Contrast each token needs against the slide surface. Headings and body
+ * text use the WCAG AA minimum for normal text; captions and the accent,
+ * used for large text and graphics, the minimum for those.
+ */
+const CONTRAST_REQUIREMENTS: {
+  token: keyof ColorTokens;
+  against: keyof ColorTokens;
+  required: number;
+}[] = [
+  { token: "heading", against: "surface", required: 4.5 },
+  { token: "body", against: "surface", required: 4.5 },
+  { token: "muted", against: "surface", required: 3 },
+  { token: "accent", against: "surface", required: 3 },
+  { token: "heading", against: "card", required: 4.5 },
+  { token: "body", against: "card", required: 4.5 },
+];
+
+/**
+ * Checks the contrast of a scheme's text and accent colors.
+ *
+ * @param colors - The color tokens.
+ * @returns One check per requirement, see CONTRAST_REQUIREMENTS.
+ */
+export const checkSchemeContrast = (
+  colors: ColorTokens,
+): ContrastCheck[] =>
+  CONTRAST_REQUIREMENTS.map(({ token, against, required }) => {
+    const background = colors[against] ?? colors.card;
+    const ratio = contrastRatio(colors[token] ?? colors.body, background);
+    return {
+      token,
+      against,
+      ratio: Math.round(ratio * 100) / 100,
+      required,
+      passes: ratio >= required,
+    };
+  });
+
+/**
+ * Picks the logo of a brand kit that reads best on its slide background.
+ *
+ * @param kit - The brand kit.
+ * @returns The logo URL, or null if the kit has no logo.
+ */
+export const getBrandLogo = (kit: BrandKit): string | null => {
+  const { primary, inverse } = kit.logos;
+  const background = kit.colors.surface ?? kit.colors.card;
+  return isDarkColor(background)
+    ? (inverse ?? primary)
+    : (primary ?? inverse);
+};
+
+/**
+ * Converts a brand kit to the CSS custom properties slides are themed with.
+ *
+ * The colors come from colorSchemeToCssVars; fonts add
+ * `--heading-font-family` and `--body-font-family`. Every template family
+ * reads these variables, with its own palette as fallback.
+ *
+ * @param kit - The brand kit, or null/undefined for none.
+ * @returns A record of CSS variables, empty if no kit is given.
+ *
+ * @example
+ * ```typescript
+ * <div style={brandKitToCssVars(kit)}>{slide}</div>
+ * // Sets --text-heading-color, --primary-accent-color, --heading-font-family, ...
+ * ```
+ */
+export const brandKitToCssVars = (
+  kit?: BrandKit | null,
+): Record<string, string> => {
+  if (!kit) return {};
+  const vars = colorSchemeToCssVars({
+    id: kit.id,
+    name: kit.name,
+    colors: kit.colors,
+  });
+  // Templates paint their background with the surface color
+  vars["--surface-color"] = kit.colors.surface ?? kit.colors.card;
+  if (kit.heading_font) {
+    vars["--heading-font-family"] = `"${kit.heading_font.family}"`;
+  }
+  if (kit.body_font) {
+    vars["--body-font-family"] = `"${kit.body_font.family}"`;
+  }
+  return vars;
+};
@@ -0,0 +1,120 @@
+/**
+ * Field-level diffs between two versions of slide content.
+ *
+ * Slide content is nested JSON (titles, bullet arrays, chart data, ...).
+ * To show what a revision changed, both versions are flattened into leaf
+ * values keyed by path (e.g., "bullets.2.title") and compared path by path.
+ * Arrays are compared by index, so inserting an item early in a list shows up
+ * as changes to every following item; this matches how the editor stores and
+ * edits list items.
+ */
+
+/**
+ * One changed field.
+ *
+ * @property path - Dot-separated path of the field ("" for the root value).
+ * @property kind - Whether the field was added, removed or changed.
+ * @property before - Previous value, or undefined if the field was added.
+ * @property after - New value, or undefined if the field was removed.
+ */
+export type ContentDiffEntry = {
+  path: string;
+  kind: "added" | "removed" | "changed";
+  before?: unknown;
+  after?: unknown;
+};
+
+/**
+ * Flattens a JSON value into leaf values keyed by dot-separated path.
+ *
+ * Empty objects and arrays are kept as leaves so clearing a list is still
+ * reported.
+ *
+ * @param value - Value to flatten.
+ * @param prefix - Path of the value itself.
+ * @param into - Map the leaves are written to.
+ * @returns The map of leaf paths to values.
+ */
+const flattenContent = (
+  value: unknown,
+  prefix = "",
+  into = new Map<string, unknown>(),
+): Map<string, unknown> => {
+  const entries =
+    typeof value === "object" && value !== null
+      ? Object.entries(value as Record<string, unknown>)
+      : [];
+  if (entries.length === 0) {
+    into.set(prefix, value);
+    return into;
+  }
+  for (const [key, child] of entries) {
+    flattenContent(child, prefix ? `${prefix}.${key}` : key, into);
+  }
+  return into;
+};
+
+/**
+ * Compares two leaf values (primitives, or empty objects and arrays).
+ */
+const isSameLeaf = (a: unknown, b: unknown): boolean =>
+  a === b || JSON.stringify(a) === JSON.stringify(b);
+
+/**
+ * Lists the fields that differ between two versions of slide content.
+ *
+ * @param before - Previous content, or null/undefined if there was none.
+ * @param after - New content, or null/undefined if there is none.
+ * @returns Changed fields ordered by path as they appear in `after`, then
+ *   removed fields.
+ *
+ * @example
+ * ```typescript
+ * diffContent({ title: "Q1", bullets: ["a"] }, { title: "Q2", bullets: [] });
+ * // [
+ * //   { path: "title", kind: "changed", before: "Q1", after: "Q2" },
+ * //   { path: "bullets", kind: "added", after: [] },
+ * //   { path: "bullets.0", kind: "removed", before: "a" },
+ * // ]
+ * ```
+ */
+export const diffContent = (
+  before: unknown,
+  after: unknown,
+): ContentDiffEntry[] => {
+  const beforeLeaves = flattenContent(before ?? {});
+  const afterLeaves = flattenContent(after ?? {});
+  const diff: ContentDiffEntry[] = [];
+
+  for (const [path, value] of afterLeaves) {
+    if (!beforeLeaves.has(path)) {
+      diff.push({ path, kind: "added", after: value });
+    } else if (!isSameLeaf(beforeLeaves.get(path), value)) {
+      diff.push({
+        path,
+        kind: "changed",
+        before: beforeLeaves.get(path),
+        after: value,
+      });
+    }
+  }
+  for (const [path, value] of beforeLeaves) {
+    if (!afterLeaves.has(path)) {
+      diff.push({ path, kind: "removed", before: value });
+    }
+  }
+  return diff;
+};
+
+/**
+ * Formats a diffed value for display, truncated to `maxLength` characters.
+ *
+ * @param value - Leaf value from a diff entry.
+ * @param maxLength - Maximum length of the result.
+ * @returns Display text ("—" for missing values).
+ */
+export const formatDiffValue = (value: unknown, maxLength = 120): string => {
+  if (value === undefined || value === null || value === "") return "—";
+  const text = typeof value === "string" ? value : JSON.stringify(value);
+  return text.length > maxLength ? `${text.slice(0, maxLength - 1)}…` : text;
+};
@@ -0,0 +1,583 @@
+/**
+ * Content migration between slide layouts.
+ *
+ * Each layout describes its content with a JSON schema. When a slide moves
+ * to another layout, its content is mapped field by field onto the new
+ * schema:
+ * - Fields are classified by shape (text, number, text list, item list,
+ *   image, icon, visual, group) and by the role their key names suggest
+ *   ("problemStatement" is body text, "heroMetric" a value, "members" people)
+ * - Each field of the new layout takes the best matching field of the old
+ *   content: same key first, then same role, then shared key words. Item
+ *   lists also compare the fields of their items, so metrics map to metrics
+ *   and team members to team members
+ * - Values are adapted to the new schema: text is cut to its maxLength at a
+ *   word boundary, lists to their maxItems, and items are migrated
+ *   recursively
+ *
+ * Fields of the new layout that nothing maps to keep the layout's sample
+ * content and are reported as missing, so the caller can fill them another
+ * way (the layout change endpoint asks the LLM). This module has no React
+ * or server dependencies, so the editor and the API share it.
+ */
+
+/**
+ * The parts of a layout's JSON schema read by the migration.
+ */
+export interface MigrationSchema {
+  type?: string;
+  properties?: Record<string, MigrationSchema>;
+  items?: MigrationSchema;
+  required?: string[];
+  enum?: unknown[];
+  minLength?: number;
+  maxLength?: number;
+  minItems?: number;
+  maxItems?: number;
+  description?: string;
+}
+
+/**
+ * Result of migrating slide content to another layout.
+ *
+ * @property content - Content for the new layout.
+ * @property missing - Fields of the new layout that hold sample content,
+ *   entirely or in part (e.g. a list padded to its minimum length).
+ * @property unused - Fields of the old content that were not carried over.
+ */
+export interface ContentMigration {
+  content: Record<string, unknown>;
+  missing: string[];
+  unused: string[];
+}
+
+/**
+ * Shape of a content field.
+ */
+type FieldKind =
+  | "text"
+  | "number"
+  | "textList"
+  | "itemList"
+  | "image"
+  | "icon"
+  | "visual"
+  | "group";
+
+/**
+ * Roles suggested by words in field names. Words are matched from the end
+ * of the name, so "problemStatement" is "body" and "teamMembers" "people".
+ */
+const ROLE_WORDS: Record<string, string[]> = {
+  title: ["title", "headline", "heading", "header"],
+  subtitle: ["subtitle", "tagline", "subheading", "kicker", "lead"],
+  body: [
+    "statement",
+    "summary",
+    "description",
+    "narrative",
+    "strategy",
+    "positioning",
+    "methodology",
+    "overview",
+    "message",
+    "text",
+    "body",
+    "content",
+    "details",
+  ],
+  name: ["name", "presenter", "company", "brand"],
+  value: ["value", "amount", "price", "number", "stat", "metric", "figure"],
+  label: ["label", "unit", "caption"],
+  change: ["change", "delta", "growth"],
+  date: ["date", "quarter", "month", "year", "when"],
+  metrics: ["metrics", "stats", "kpis", "numbers", "economics", "highlights"],
+  people: ["members", "team", "advisors", "founders", "people"],
+  steps: ["milestones", "phases", "timeline", "steps", "roadmap", "stages"],
+  points: [
+    "points",
+    "bullets",
+    "features",
+    "benefits",
+    "pillars",
+    "reasons",
+    "items",
+    "sections",
+    "segments",
+    "streams",
+    "goals",
+    "advantages",
+  ],
+};
+
+/**
+ * Text roles that can stand in for each other: prose moves between titles,
+ * subtitles and body text, and data between values, labels and dates, but
+ * never across the two.
+ */
+const ROLE_FAMILIES: Record<string, string> = {
+  title: "prose",
+  subtitle: "prose",
+  body: "prose",
+  name: "prose",
+  value: "data",
+  label: "data",
+  change: "data",
+  date: "data",
+};
+
+/**
+ * Item fields tried, in order, as the main text of a list item.
+ */
+const PRIMARY_TEXT_ROLES = ["title", "name", "label", "body"];
+
+/**
+ * Minimum score for a field to be carried into a field with another key.
+ */
+const MIN_MATCH_SCORE = 4;
+
+/**
+ * One field of the content being migrated.
+ */
+interface SourceField {
+  key: string;
+  value: unknown;
+  kind: FieldKind;
+  used: boolean;
+}
+
+/**
+ * Checks whether a value is a plain object.
+ */
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+/**
+ * Splits a field name into lower-case words ("problemStatement" →
+ * ["problem", "statement"]).
+ */
+const splitKey = (key: string): string[] =>
+  key
+    .replace(/([a-z0-9])([A-Z])/g, "$1 $2")
+    .split(/[\s_-]+/)
+    .map((word) => word.toLowerCase())
+    .filter(Boolean);
+
+/**
+ * Returns the role suggested by a field name, or null for names without
+ * a known word.
+ */
+const getRole = (key: string): string | null => {
+  const words = splitKey(key);
+  for (let index = words.length - 1; index >= 0; index--) {
+    for (const [role, roleWords] of Object.entries(ROLE_WORDS)) {
+      if (roleWords.includes(words[index])) return role;
+    }
+  }
+  return null;
+};
+
+/**
+ * Classifies a content value by shape, or returns null for empty values.
+ */
+const getValueKind = (value: unknown): FieldKind | null => {
+  if (typeof value === "string") return value.trim() ? "text" : null;
+  if (typeof value === "number") return "number";
+  if (Array.isArray(value)) {
+    if (value.length === 0) return null;
+    return value.every((item) => typeof item === "string")
+      ? "textList"
+      : value.every(isRecord)
+        ? "itemList"
+        : null;
+  }
+  if (!isRecord(value)) return null;
+  if ("__image_url__" in value || "__image_prompt__" in value) return "image";
+  if ("__icon_url__" in value || "__icon_query__" in value) return "icon";
+  if ("type" in value && ("nodes" in value || "items" in value || "data" in value)) {
+    return "visual";
+  }
+  return "group";
+};
+
+/**
+ * Classifies a field of a layout schema by shape, or returns null for
+ * fields the migration does not fill (enums, unions).
+ */
+const getSchemaKind = (schema: MigrationSchema): FieldKind | null => {
+  if (schema.type === "string") return "text";
+  if (schema.type === "number" || schema.type === "integer") return "number";
+  if (schema.type === "array") {
+    return schema.items?.type === "string"
+      ? "textList"
+      : schema.items?.type === "object"
+        ? "itemList"
+        : null;
+  }
+  if (schema.type !== "object") return null;
+  const properties = schema.properties ?? {};
+  if ("__image_url__" in properties || "__image_prompt__" in properties) {
+    return "image";
+  }
+  if ("__icon_url__" in properties || "__icon_query__" in properties) {
+    return "icon";
+  }
+  if (
+    "type" in properties &&
+    ("nodes" in properties || "items" in properties || "data" in properties)
+  ) {
+    return "visual";
+  }
+  return "group";
+};
+
+/**
+ * Cuts text to a maximum length at a word boundary.
+ */
+const truncateWords = (text: string, maxLength?: number): string => {
+  if (maxLength === undefined || text.length <= maxLength) return text;
+  const cut = text.slice(0, maxLength);
+  const lastSpace = cut.lastIndexOf(" ");
+  return (lastSpace > 0 ? cut.slice(0, lastSpace) : cut)
+    .replace(/[\s,;:–—-]+$/, "")
+    .trim();
+};
+
+/**
+ * Returns the field names of an item list's items, or of a group.
+ */
+const getValueFields = (value: unknown): string[] => {
+  const sample = Array.isArray(value) ? value[0] : value;
+  return isRecord(sample) ? Object.keys(sample) : [];
+};
+
+/**
+ * Counts the fields two sets of item fields have in common, by name or role.
+ */
+const countSharedFields = (from: string[], to: string[]): number =>
+  to.filter((key) =>
+    from.some(
+      (other) =>
+        other === key ||
+        (getRole(other) !== null && getRole(other) === getRole(key)),
+    ),
+  ).length;
+
+/**
+ * Scores how well a field of the old content fits a field of the new
+ * layout. Returns 0 when the value cannot move there.
+ *
+ * @param source - Field of the old content.
+ * @param key - Name of the new layout's field.
+ * @param schema - Schema of the new layout's field.
+ * @param kind - Shape of the new layout's field.
+ * @returns The score; higher is a better fit.
+ */
+const scoreMatch = (
+  source: SourceField,
+  key: string,
+  schema: MigrationSchema,
+  kind: FieldKind,
+): number => {
+  const sameKey = source.key === key;
+  const sourceRole = getRole(source.key);
+  const targetRole = getRole(key);
+  const sameRole = sourceRole !== null && sourceRole === targetRole;
+  const sharedWords = splitKey(source.key).filter((word) =>
+    splitKey(key).includes(word),
+  ).length;
+
+  let base: number;
+  if (source.kind === kind) {
+    base = 4;
+  } else if (
+    (source.kind === "text" && kind === "number") ||
+    (source.kind === "number" && kind === "text")
+  ) {
+    base = 1;
+  } else if (
+    (source.kind === "textList" && kind === "itemList") ||
+    (source.kind === "itemList" && kind === "textList")
+  ) {
+    base = 2;
+  } else {
+    return 0;
+  }
+
+  if (kind === "text" && !sameKey) {
+    const sourceFamily = sourceRole ? ROLE_FAMILIES[sourceRole] : undefined;
+    const targetFamily = targetRole ? ROLE_FAMILIES[targetRole] : undefined;
+    if (sourceFamily && targetFamily && sourceFamily !== targetFamily) return 0;
+  }
+
+  let shared = 0;
+  if (source.kind === "itemList" || source.kind === "group") {
+    const targetFields = Object.keys(
+      (kind === "group" ? schema : schema.items)?.properties ?? {},
+    );
+    shared = countSharedFields(getValueFields(source.value), targetFields);
+    if (kind !== "textList" && shared === 0 && !sameKey && !sameRole) return 0;
+  }
+  if (kind === "visual" && isRecord(source.value)) {
+    const allowed = schema.properties?.type?.enum;
+    if (allowed && !allowed.includes(source.value.type)) return 0;
+  }
+
+  return (
+    base +
+    (sameKey ? 10 : 0) +
+    (sameRole ? 5 : 0) +
+    sharedWords * 2 +
+    Math.min(shared, 3)
+  );
+};
+
+/**
+ * Returns the main text of a list item: its title, name or label, or its
+ * first text field.
+ */
+const getPrimaryText = (item: Record<string, unknown>): string | undefined => {
+  for (const role of PRIMARY_TEXT_ROLES) {
+    const key = Object.keys(item).find(
+      (field) => getRole(field) === role && typeof item[field] === "string",
+    );
+    if (key) return item[key] as string;
+  }
+  const text = Object.values(item).find((value) => typeof value === "string");
+  return typeof text === "string" ? text : undefined;
+};
+
+/**
+ * Returns the item field that holds the main text of a list item.
+ */
+const getPrimaryTextField = (schema: MigrationSchema): string | undefined => {
+  const properties = schema.properties ?? {};
+  const textFields = Object.keys(properties).filter(
+    (key) => properties[key].type === "string",
+  );
+  for (const role of PRIMARY_TEXT_ROLES) {
+    const key = textFields.find((field) => getRole(field) === role);
+    if (key) return key;
+  }
+  return textFields[0];
+};
+
+/**
+ * Converts a value of the old content to a field of the new layout.
+ *
+ * @param value - The old value.
+ * @param schema - Schema of the new field.
+ * @param sample - Sample content of the new field, for parts nothing maps to.
+ * @returns The converted value (undefined when it cannot be converted) and
+ *   whether sample content had to fill part of it.
+ */
+const convertValue = (
+  value: unknown,
+  schema: MigrationSchema,
+  sample: unknown,
+): { value: unknown; partial: boolean } => {
+  const kind = getSchemaKind(schema);
+
+  if (kind === "text") {
+    const text =
+      typeof value === "string"
+        ? value
+        : typeof value === "number"
+          ? String(value)
+          : undefined;
+    return {
+      value: text === undefined ? undefined : truncateWords(text, schema.maxLength),
+      partial: false,
+    };
+  }
+
+  if (kind === "number") {
+    const number =
+      typeof value === "number"
+        ? value
+        : typeof value === "string"
+          ? Number.parseFloat(value.replace(/[^0-9.-]/g, ""))
+          : Number.NaN;
+    return {
+      value: Number.isFinite(number) ? number : undefined,
+      partial: false,
+    };
+  }
+
+  if (kind === "textList" || kind === "itemList") {
+    if (!Array.isArray(value)) return { value: undefined, partial: false };
+    const itemSchema = schema.items ?? {};
+    const sampleItems = Array.isArray(sample) ? sample : [];
+    let partial = false;
+    const items = value
+      .slice(0, schema.maxItems ?? value.length)
+      .map((item, index) => {
+        if (kind === "textList") {
+          const text = isRecord(item) ? getPrimaryText(item) : item;
+          return typeof text === "string"
+            ? truncateWords(text, itemSchema.maxLength)
+            : undefined;
+        }
+        const sampleItem = sampleItems[index] ?? sampleItems[0];
+        if (typeof item === "string") {
+          const field = getPrimaryTextField(itemSchema);
+          if (!field) return undefined;
+          const converted = migrateFields(
+            { [field]: item },
+            itemSchema,
+            isRecord(sampleItem) ? sampleItem : {},
+          );
+          partial ||= converted.missing.length > 0;
+          return converted.content;
+        }
+        if (!isRecord(item)) return undefined;
+        const converted = migrateFields(
+          item,
+          itemSchema,
+          isRecord(sampleItem) ? sampleItem : {},
+        );
+        partial ||= converted.missing.length > 0;
+        return converted.content;
+      })
+      .filter((item) => item !== undefined);
+
+    const minItems = schema.minItems ?? 0;
+    for (let index = items.length; index < minItems; index++) {
+      if (sampleItems[index] === undefined) break;
+      items.push(sampleItems[index]);
+      partial = true;
+    }
+    return { value: items.length > 0 ? items : undefined, partial };
+  }
+
+  if (kind === "group") {
+    if (!isRecord(value)) return { value: undefined, partial: false };
+    const converted = migrateFields(
+      value,
+      schema,
+      isRecord(sample) ? sample : {},
+    );
+    return {
+      value: converted.content,
+      partial: converted.missing.length > 0,
+    };
+  }
+
+  // Images, icons and visuals move as they are
+  return { value: kind ? value : undefined, partial: false };
+};
+
+/**
+ * Maps the fields of an object onto an object schema.
+ *
+ * @param source - Fields of the old content.
+ * @param schema - Object schema of the new layout, or of a list item.
+ * @param sample - Sample content for the schema.
+ * @returns The migrated object with its missing and unused fields.
+ */
+const migrateFields = (
+  source: Record<string, unknown>,
+  schema: MigrationSchema,
+  sample: Record<string, unknown>,
+): ContentMigration => {
+  const properties = schema.properties ?? {};
+  const fields: SourceField[] = Object.entries(source).flatMap(
+    ([key, value]) => {
+      const kind = getValueKind(value);
+      return kind ? [{ key, value, kind, used: false }] : [];
+    },
+  );
+
+  // Score every pair, then assign the best pairs first
+  const pairs: { field: SourceField; key: string; score: number }[] = [];
+  for (const [key, fieldSchema] of Object.entries(properties)) {
+    const kind = getSchemaKind(fieldSchema);
+    if (!kind) continue;
+    for (const field of fields) {
+      const score = scoreMatch(field, key, fieldSchema, kind);
+      if (score >= MIN_MATCH_SCORE || (score > 0 && field.key === key)) {
+        pairs.push({ field, key, score });
+      }
+    }
+  }
+  pairs.sort((a, b) => b.score - a.score);
+
+  const content: Record<string, unknown> = {};
+  const missing = new Set<string>();
+  for (const { field, key } of pairs) {
+    if (field.used || key in content) continue;
+    const converted = convertValue(field.value, properties[key], sample[key]);
+    if (converted.value === undefined) continue;
+    content[key] = converted.value;
+    field.used = true;
+    if (converted.partial) missing.add(key);
+  }
+
+  // Enum fields keep their value when the key is unchanged and the value is
+  // still allowed
+  for (const [key, fieldSchema] of Object.entries(properties)) {
+    if (key in content || !fieldSchema.enum?.includes(source[key])) continue;
+    content[key] = source[key];
+    const field = fields.find((item) => item.key === key);
+    if (field) field.used = true;
+  }
+
+  for (const key of Object.keys(properties)) {
+    if (key in content || sample[key] === undefined) continue;
+    content[key] = sample[key];
+    missing.add(key);
+  }
+
+  return {
+    content,
+    missing: Object.keys(properties).filter((key) => missing.has(key)),
+    unused: fields.filter((field) => !field.used).map((field) => field.key),
+  };
+};
+
+/**
+ * Returns the role of a layout within its template: its ID without the
+ * template prefix. The built-in families name their layouts
+ * `<family>:<family>-<role>`, so equivalent layouts of two families share
+ * a role.
+ *
+ * @param layoutId - Layout ID, e.g. "data-driven:data-driven-traction".
+ * @returns The role, e.g. "traction"; the layout's own ID for layouts
+ *   without the prefix.
+ */
+export const getLayoutRole = (layoutId: string): string => {
+  const separator = layoutId.indexOf(":");
+  if (separator < 0) return layoutId;
+  const templateID = layoutId.slice(0, separator);
+  const id = layoutId.slice(separator + 1);
+  return id.startsWith(`${templateID}-`)
+    ? id.slice(templateID.length + 1)
+    : id;
+};
+
+/**
+ * Migrates a slide's content to another layout.
+ *
+ * @param content - The slide's current content.
+ * @param schema - JSON schema of the new layout.
+ * @param sample - Sample content of the new layout, used for the fields
+ *   nothing maps to.
+ * @returns The content for the new layout, the fields still holding sample
+ *   content and the old fields that were not carried over.
+ *
+ * @example
+ * ```typescript
+ * migrateSlideContent(
+ *   { title: "Traction", metrics: [{ label: "ARR", value: "$1.8M" }] },
+ *   tractionSchema,
+ *   tractionSample,
+ * );
+ * // Returns: { content: { title: "Traction", metrics: [...], chartData: [...] },
+ * //            missing: ["chartData"], unused: [] }
+ * ```
+ */
+export const migrateSlideContent = (
+  content: Record<string, unknown>,
+  schema: MigrationSchema,
+  sample: Record<string, unknown> = {},
+): ContentMigration => migrateFields(content, schema, sample);
@@ -0,0 +1,456 @@
+/**
+ * Layout of diagram slides.
+ *
+ * Turns a `DiagramData` (nodes and edges, or a list of items) into node
+ * boxes and edge lines positioned in pixels inside a given area. Templates
+ * render the result with absolutely positioned elements, and the PPTX
+ * export turns those same elements into native autoshapes and connectors,
+ * so the slide and the exported file always match.
+ *
+ * Layouts by diagram type:
+ * - `flywheel`: Nodes evenly spaced on a loop, each feeding the next
+ * - `mindmap`: The root node in the center, the others around it
+ * - `flowchart`: Columns from left to right, by distance from the start
+ * - `tree`: Rows from top to bottom, by distance from the root
+ * - `architecture`: One row per layer (the nodes' `type`), top to bottom
+ * - `timeline`: Items left to right on a single row
+ *
+ * Unknown types are laid out as flowcharts. This module has no React or DOM
+ * dependencies, so it is shared by templates, the editor and the server.
+ */
+
+import type {
+  DiagramData,
+  DiagramEdge,
+  DiagramNode,
+} from "@/types/slide";
+
+/**
+ * Outline of a node: a rounded box, or an ellipse for central nodes.
+ */
+export type DiagramNodeShape = "box" | "ellipse";
+
+/**
+ * A node placed in the diagram area.
+ *
+ * @property x - Left edge in pixels.
+ * @property y - Top edge in pixels.
+ * @property width - Width in pixels.
+ * @property height - Height in pixels.
+ * @property shape - Outline of the node.
+ * @property description - Secondary text, for nodes made from items.
+ * @property emphasis - Whether the node is the diagram's focal point (the
+ *   mindmap root).
+ */
+export type PositionedDiagramNode = DiagramNode & {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  shape: DiagramNodeShape;
+  description?: string;
+  emphasis?: boolean;
+};
+
+/**
+ * An edge placed in the diagram area, as a straight line between the
+ * outlines of its nodes. The line points from (x1, y1) to (x2, y2).
+ */
+export type PositionedDiagramEdge = DiagramEdge & {
+  x1: number;
+  y1: number;
+  x2: number;
+  y2: number;
+};
+
+/**
+ * A band of an architecture diagram, behind the nodes of one layer.
+ */
+export type DiagramLayerBand = {
+  label: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+};
+
+/**
+ * Result of laying out a diagram.
+ */
+export type DiagramLayout = {
+  nodes: PositionedDiagramNode[];
+  edges: PositionedDiagramEdge[];
+  layers: DiagramLayerBand[];
+};
+
+/**
+ * Most nodes a diagram shows; more would not be legible on a slide.
+ */
+export const MAX_DIAGRAM_NODES = 12;
+
+/**
+ * Gap between an edge's ends and the outlines of its nodes, in pixels.
+ */
+const EDGE_GAP = 6;
+
+/**
+ * Width of the layer labels of architecture diagrams, in pixels.
+ */
+const LAYER_LABEL_WIDTH = 140;
+
+/**
+ * Diagram types whose nodes are connected in order when no edges are
+ * given.
+ */
+const CHAINED_TYPES = new Set(["flywheel", "timeline", "flowchart", "tree"]);
+
+type Graph = {
+  nodes: (DiagramNode & { description?: string })[];
+  edges: DiagramEdge[];
+};
+
+/**
+ * Reads the nodes and edges of a diagram, dropping edges to unknown nodes,
+ * self-loops and duplicates. Item lists become nodes, and nodes without
+ * edges are chained in order for types that read as a sequence.
+ *
+ * @param data - The diagram.
+ * @returns Nodes (at most MAX_DIAGRAM_NODES) and valid edges.
+ */
+export const getDiagramGraph = (data: DiagramData): Graph => {
+  const seen = new Set<string>();
+  const nodes: Graph["nodes"] = [];
+  const source = data.nodes?.length
+    ? data.nodes
+    : (data.items ?? []).map((item, index) => ({
+        id: `item-${index + 1}`,
+        label: item.label,
+        description: item.description,
+      }));
+  for (const [index, node] of source.entries()) {
+    if (nodes.length >= MAX_DIAGRAM_NODES) break;
+    const id = String(node.id || `node-${index + 1}`);
+    if (seen.has(id)) continue;
+    seen.add(id);
+    nodes.push({ ...node, id, label: String(node.label ?? "") });
+  }
+
+  const keys = new Set<string>();
+  const edges = (data.edges ?? []).filter((edge) => {
+    const key = `${edge.from}->${edge.to}`;
+    if (
+      edge.from === edge.to ||
+      !seen.has(edge.from) ||
+      !seen.has(edge.to) ||
+      keys.has(key)
+    ) {
+      return false;
+    }
+    keys.add(key);
+    return true;
+  });
+
+  if (edges.length === 0 && CHAINED_TYPES.has(data.type)) {
+    for (let index = 1; index < nodes.length; index += 1) {
+      edges.push({ from: nodes[index - 1].id, to: nodes[index].id });
+    }
+    if (data.type === "flywheel" && nodes.length > 2) {
+      edges.push({ from: nodes[nodes.length - 1].id, to: nodes[0].id });
+    }
+  }
+  return { nodes, edges };
+};
+
+/**
+ * Node size that fits `count` nodes side by side in `space` pixels.
+ */
+const fitNodeSize = (
+  space: number,
+  count: number,
+  maxWidth: number,
+): number => Math.max(72, Math.min(maxWidth, (space / count) * 0.78));
+
+/**
+ * Places nodes evenly on an ellipse, starting at the top and going
+ * clockwise.
+ */
+const placeOnRing = (
+  nodes: Graph["nodes"],
+  width: number,
+  height: number,
+  offset = 0,
+): PositionedDiagramNode[] => {
+  const count = nodes.length;
+  const nodeWidth = fitNodeSize(width, Math.min(count, 4), 190);
+  const nodeHeight = 64;
+  const radiusX = Math.max(0, width / 2 - nodeWidth / 2 - 8);
+  const radiusY = Math.max(0, height / 2 - nodeHeight / 2 - 8);
+  return nodes.map((node, index) => {
+    const angle = -Math.PI / 2 + ((index + offset) / count) * Math.PI * 2;
+    return {
+      ...node,
+      shape: "box",
+      width: nodeWidth,
+      height: nodeHeight,
+      x: width / 2 + Math.cos(angle) * radiusX - nodeWidth / 2,
+      y: height / 2 + Math.sin(angle) * radiusY - nodeHeight / 2,
+    };
+  });
+};
+
+/**
+ * Ranks nodes by their longest distance from a node without incoming
+ * edges. Edges that close a cycle are ignored, so loops still get ranks.
+ */
+const rankNodes = (graph: Graph): Map<string, number> => {
+  const incoming = new Map(graph.nodes.map((node) => [node.id, 0]));
+  for (const edge of graph.edges) {
+    incoming.set(edge.to, (incoming.get(edge.to) ?? 0) + 1);
+  }
+  const roots = graph.nodes.filter((node) => incoming.get(node.id) === 0);
+  const starts = roots.length ? roots : graph.nodes.slice(0, 1);
+
+  const ranks = new Map<string, number>();
+  const visit = (id: string, rank: number, path: Set<string>) => {
+    if ((ranks.get(id) ?? -1) >= rank || path.has(id)) return;
+    ranks.set(id, rank);
+    path.add(id);
+    for (const edge of graph.edges) {
+      if (edge.from === id) visit(edge.to, rank + 1, path);
+    }
+    path.delete(id);
+  };
+  for (const start of starts) visit(start.id, 0, new Set());
+  // Nodes unreachable from any start follow the deepest rank
+  let next = Math.max(-1, ...ranks.values()) + 1;
+  for (const node of graph.nodes) {
+    if (!ranks.has(node.id)) ranks.set(node.id, next++);
+  }
+  return ranks;
+};
+
+/**
+ * Places nodes in columns (horizontal) or rows (vertical) by rank.
+ */
+const placeInRanks = (
+  graph: Graph,
+  width: number,
+  height: number,
+  direction: "horizontal" | "vertical",
+): PositionedDiagramNode[] => {
+  const ranks = rankNodes(graph);
+  const groups: Graph["nodes"][] = [];
+  for (const node of graph.nodes) {
+    const rank = ranks.get(node.id) ?? 0;
+    (groups[rank] ??= []).push(node);
+  }
+  const levels = groups.filter(Boolean);
+  const widest = Math.max(...levels.map((level) => level.length));
+  const horizontal = direction === "horizontal";
+  const along = horizontal ? width : height;
+  const across = horizontal ? height : width;
+
+  const nodeWidth = horizontal
+    ? fitNodeSize(width, levels.length, 200)
+    : fitNodeSize(width, widest, 200);
+  const nodeHeight = horizontal
+    ? Math.min(72, (height / widest) * 0.7)
+    : Math.min(72, (height / levels.length) * 0.6);
+
+  return levels.flatMap((level, levelIndex) =>
+    level.map((node, index) => {
+      const main = (along / levels.length) * (levelIndex + 0.5);
+      const cross = (across / level.length) * (index + 0.5);
+      const centerX = horizontal ? main : cross;
+      const centerY = horizontal ? cross : main;
+      return {
+        ...node,
+        shape: "box" as const,
+        width: nodeWidth,
+        height: nodeHeight,
+        x: centerX - nodeWidth / 2,
+        y: centerY - nodeHeight / 2,
+      };
+    }),
+  );
+};
+
+/**
+ * Places nodes in one row per layer, with a band and label per layer.
+ */
+const placeInLayers = (
+  graph: Graph,
+  width: number,
+  height: number,
+): { nodes: PositionedDiagramNode[]; layers: DiagramLayerBand[] } => {
+  const names: string[] = [];
+  for (const node of graph.nodes) {
+    const name = node.type?.trim() ?? "";
+    if (!names.includes(name)) names.push(name);
+  }
+  const labelled = names.some(Boolean);
+  const left = labelled ? LAYER_LABEL_WIDTH : 0;
+  const rowHeight = height / names.length;
+  const gap = Math.min(16, rowHeight * 0.15);
+
+  const layers = names.map((label, index) => ({
+    label,
+    x: 0,
+    y: index * rowHeight + gap / 2,
+    width,
+    height: rowHeight - gap,
+  }));
+  const nodes = names.flatMap((name, index) => {
+    const row = graph.nodes.filter((node) => (node.type?.trim() ?? "") === name);
+    const nodeWidth = fitNodeSize(width - left, row.length, 220);
+    const nodeHeight = Math.min(64, layers[index].height * 0.6);
+    return row.map((node, column) => ({
+      ...node,
+      shape: "box" as const,
+      width: nodeWidth,
+      height: nodeHeight,
+      x:
+        left +
+        ((width - left) / row.length) * (column + 0.5) -
+        nodeWidth / 2,
+      y: layers[index].y + (layers[index].height - nodeHeight) / 2,
+    }));
+  });
+  return { nodes, layers: labelled ? layers : [] };
+};
+
+/**
+ * Point where the line from a node's center towards (x, y) leaves the
+ * node's outline, pushed out by EDGE_GAP.
+ */
+const outlinePoint = (
+  node: PositionedDiagramNode,
+  towardX: number,
+  towardY: number,
+): { x: number; y: number } => {
+  const centerX = node.x + node.width / 2;
+  const centerY = node.y + node.height / 2;
+  const dx = towardX - centerX;
+  const dy = towardY - centerY;
+  const length = Math.hypot(dx, dy) || 1;
+  const halfWidth = node.width / 2;
+  const halfHeight = node.height / 2;
+  const scale =
+    node.shape === "ellipse"
+      ? 1 / Math.hypot(dx / halfWidth, dy / halfHeight)
+      : Math.min(
+          dx ? halfWidth / Math.abs(dx) : Infinity,
+          dy ? halfHeight / Math.abs(dy) : Infinity,
+        );
+  return {
+    x: centerX + dx * scale + (dx / length) * EDGE_GAP,
+    y: centerY + dy * scale + (dy / length) * EDGE_GAP,
+  };
+};
+
+/**
+ * Lays out a diagram inside an area.
+ *
+ * @param data - The diagram.
+ * @param width - Width of the area in pixels.
+ * @param height - Height of the area in pixels.
+ * @returns Positioned nodes, edges and (architecture only) layer bands, in
+ *   pixels from the area's top-left corner.
+ *
+ * @example
+ * ```typescript
+ * const layout = layoutDiagram(
+ *   { type: "flywheel", nodes: [{ id: "a", label: "More sellers" }, ...] },
+ *   1000,
+ *   420,
+ * );
+ * // layout.nodes[0]: { id: "a", label: "More sellers", x: 405, y: 8, ... }
+ * ```
+ */
+export const layoutDiagram = (
+  data: DiagramData,
+  width: number,
+  height: number,
+): DiagramLayout => {
+  const graph = getDiagramGraph(data);
+  if (graph.nodes.length === 0) return { nodes: [], edges: [], layers: [] };
+
+  let nodes: PositionedDiagramNode[];
+  let layers: DiagramLayerBand[] = [];
+  switch (data.type) {
+    case "flywheel":
+      nodes = placeOnRing(graph.nodes, width, height);
+      break;
+    case "mindmap": {
+      const ranks = rankNodes(graph);
+      const root =
+        graph.nodes.find((node) => ranks.get(node.id) === 0) ??
+        graph.nodes[0];
+      const rootWidth = Math.min(220, width * 0.24);
+      const rootHeight = Math.min(96, height * 0.26);
+      nodes = [
+        {
+          ...root,
+          shape: "ellipse",
+          emphasis: true,
+          width: rootWidth,
+          height: rootHeight,
+          x: (width - rootWidth) / 2,
+          y: (height - rootHeight) / 2,
+        },
+        ...placeOnRing(
+          graph.nodes.filter((node) => node.id !== root.id),
+          width,
+          height,
+        ),
+      ];
+      if (graph.edges.length === 0) {
+        graph.edges = nodes
+          .slice(1)
+          .map((node) => ({ from: root.id, to: node.id }));
+      }
+      break;
+    }
+    case "tree":
+      nodes = placeInRanks(graph, width, height, "vertical");
+      break;
+    case "architecture":
+      ({ nodes, layers } = placeInLayers(graph, width, height));
+      break;
+    case "timeline": {
+      // One row in the upper part, leaving room for descriptions below
+      const slot = width / graph.nodes.length;
+      const nodeWidth = fitNodeSize(width, graph.nodes.length, 200);
+      const nodeHeight = Math.min(64, height * 0.3);
+      nodes = graph.nodes.map((node, index) => ({
+        ...node,
+        shape: "box",
+        width: nodeWidth,
+        height: nodeHeight,
+        x: slot * (index + 0.5) - nodeWidth / 2,
+        y: height * 0.3 - nodeHeight / 2,
+      }));
+      break;
+    }
+    default:
+      nodes = placeInRanks(graph, width, height, "horizontal");
+  }
+
+  const byId = new Map(nodes.map((node) => [node.id, node]));
+  const edges = graph.edges.map((edge) => {
+    const from = byId.get(edge.from)!;
+    const to = byId.get(edge.to)!;
+    const start = outlinePoint(
+      from,
+      to.x + to.width / 2,
+      to.y + to.height / 2,
+    );
+    const end = outlinePoint(
+      to,
+      from.x + from.width / 2,
+      from.y + from.height / 2,
+    );
+    return { ...edge, x1: start.x, y1: start.y, x2: end.x, y2: end.y };
+  });
+  return { nodes, edges, layers };
+};
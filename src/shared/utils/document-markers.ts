@@ -0,0 +1,57 @@
+/**
+ * Markers that keep file and page boundaries in extracted document text.
+ *
+ * Uploaded files are stored on the presentation as one plain-text
+ * `document_content` string. Extraction puts a marker line before each file
+ * and before each PDF page, so retrieval can tell which file and page a
+ * passage came from. The markers are plain text and read naturally when the
+ * content is sent to the LLM as is (outline generation).
+ *
+ * @example
+ * ```text
+ * [Document: financials.pdf]
+ * [Page 1]
+ * Revenue grew 3x year over year...
+ *
+ * [Page 2]
+ * ...
+ * ```
+ */
+
+/**
+ * Matches a document marker line; group 1 is the file name.
+ */
+export const DOCUMENT_MARKER_PATTERN = /^\[Document: (.+)\]$/;
+
+/**
+ * Matches a page marker line; group 1 is the one-based page number.
+ */
+export const PAGE_MARKER_PATTERN = /^\[Page (\d+)\]$/;
+
+/**
+ * Builds the marker line that starts a document.
+ *
+ * @param fileName - Name of the uploaded file.
+ * @returns The marker line, without trailing newline.
+ */
+export const formatDocumentMarker = (fileName: string): string =>
+  `[Document: ${fileName.replace(/[\r\n\]]/g, " ").trim()}]`;
+
+/**
+ * Builds the marker line that starts a page.
+ *
+ * @param page - One-based page number.
+ * @returns The marker line, without trailing newline.
+ */
+export const formatPageMarker = (page: number): string => `[Page ${page}]`;
+
+/**
+ * Joins the text of a document's pages, each preceded by its page marker.
+ *
+ * @param pages - Text of each page, in order.
+ * @returns The document text with page markers.
+ */
+export const joinPagesWithMarkers = (pages: string[]): string =>
+  pages
+    .map((text, index) => `${formatPageMarker(index + 1)}\n${text.trim()}`)
+    .join("\n\n");
@@ -0,0 +1,113 @@
+/**
+ * Language metadata for content generation and slide rendering.
+ *
+ * Presentations store their language either as an ISO 639-1 code ("es",
+ * "ko") when created through the API, or as a display label from the
+ * generator UI ("Spanish (Español)"). This module resolves both forms to the
+ * same metadata so prompts can name the language and templates can lay out
+ * right-to-left scripts and CJK text correctly.
+ */
+
+/**
+ * Resolved language metadata.
+ *
+ * @property name - English name of the language (e.g., "Korean"), used in
+ *   prompts. Unknown languages keep the stored value.
+ * @property code - ISO 639-1 code, or an empty string if unknown. Used for
+ *   the HTML `lang` attribute, which drives font selection and line breaking.
+ * @property direction - Writing direction of the language's script.
+ * @property cjk - True for Chinese, Japanese and Korean, whose characters
+ *   carry more meaning per character and break lines without spaces.
+ */
+export type LanguageInfo = {
+  name: string;
+  code: string;
+  direction: "ltr" | "rtl";
+  cjk: boolean;
+};
+
+/**
+ * Known languages as [code, English name, flags] tuples. Flags are "rtl" for
+ * right-to-left scripts and "cjk" for Chinese, Japanese and Korean.
+ */
+const KNOWN_LANGUAGES: Array<[string, string, ("rtl" | "cjk")?]> = [
+  ["en", "English"],
+  ["es", "Spanish"],
+  ["fr", "French"],
+  ["de", "German"],
+  ["pt", "Portuguese"],
+  ["it", "Italian"],
+  ["nl", "Dutch"],
+  ["ru", "Russian"],
+  ["zh", "Chinese", "cjk"],
+  ["ja", "Japanese", "cjk"],
+  ["ko", "Korean", "cjk"],
+  ["ar", "Arabic", "rtl"],
+  ["he", "Hebrew", "rtl"],
+  ["fa", "Persian", "rtl"],
+  ["ur", "Urdu", "rtl"],
+  ["ps", "Pashto", "rtl"],
+  ["prs", "Dari", "rtl"],
+  ["hi", "Hindi"],
+  ["bn", "Bengali"],
+  ["pl", "Polish"],
+  ["tr", "Turkish"],
+  ["uk", "Ukrainian"],
+  ["vi", "Vietnamese"],
+  ["th", "Thai"],
+  ["id", "Indonesian"],
+  ["ms", "Malay"],
+];
+
+const LTR_DEFAULT: Omit<LanguageInfo, "name"> = {
+  code: "",
+  direction: "ltr",
+  cjk: false,
+};
+
+/**
+ * Resolves a stored language value to its metadata.
+ *
+ * Accepts ISO codes with or without region ("ko", "zh-TW"), English names
+ * ("Korean") and generator UI labels ("Chinese (Simplified - 中文, 汉语)",
+ * "Persian/Farsi (فارسی)"). Missing values resolve to English.
+ *
+ * @param language - Stored language value.
+ * @returns Language metadata.
+ *
+ * @example
+ * ```typescript
+ * resolveLanguage("Arabic (العربية)");
+ * // { name: "Arabic", code: "ar", direction: "rtl", cjk: false }
+ * resolveLanguage("ko-KR");
+ * // { name: "Korean", code: "ko", direction: "ltr", cjk: true }
+ * ```
+ */
+export const resolveLanguage = (
+  language: string | null | undefined,
+): LanguageInfo => {
+  const value = language?.trim();
+  if (!value) return { name: "English", ...LTR_DEFAULT, code: "en" };
+
+  const lower = value.toLowerCase();
+  const code = lower.split(/[-_]/)[0];
+  // "Persian/Farsi (فارسی)" -> "persian"
+  const name = lower.split(/[\s(/]/)[0];
+  const match = KNOWN_LANGUAGES.find(
+    ([knownCode, knownName]) =>
+      knownCode === code || knownName.toLowerCase() === name,
+  );
+  if (!match) {
+    return { name: value.split(" (")[0], ...LTR_DEFAULT };
+  }
+
+  const [knownCode, knownName, flag] = match;
+  const traditional =
+    knownCode === "zh" && /traditional|-(tw|hk|hant)/.test(lower);
+  return {
+    name: traditional ? "Traditional Chinese" : knownName,
+    code: knownCode,
+    direction: flag === "rtl" ? "rtl" : "ltr",
+    cjk: flag === "cjk",
+  };
+};
@@ -0,0 +1,189 @@
+/**
+ * Isolated rendering of custom template layouts.
+ *
+ * Custom layouts are TSX written by users or generated by the LLM. They run
+ * in the layout frame (`/layout-frame`), a page embedded as an iframe with
+ * `sandbox="allow-scripts"` and without `allow-same-origin`. The frame gets
+ * an opaque origin, so layout code cannot reach the editor's DOM, cookies,
+ * storage or authenticated APIs whatever it does at runtime. The editor and
+ * the frame only talk over postMessage:
+ * - "inspect": the frame compiles a layout and replies with its metadata,
+ *   JSON schema and sample data ("inspected")
+ * - "render": the frame compiles a layout (cached by code) and renders it
+ *   with the posted slide content
+ *
+ * The frame announces itself with "ready" once it listens for requests.
+ */
+
+/**
+ * Path of the layout frame page.
+ */
+export const LAYOUT_FRAME_PATH = "/layout-frame";
+
+/**
+ * Sandbox flags of layout frames. Without `allow-same-origin` the frame's
+ * origin is opaque; do not add it.
+ */
+export const LAYOUT_FRAME_SANDBOX = "allow-scripts";
+
+/**
+ * Time to wait for the frame to inspect a layout before giving up.
+ */
+const INSPECT_TIMEOUT_MS = 30_000;
+
+/**
+ * Metadata of a compiled layout, as reported by the frame.
+ *
+ * @property layoutId - Exported `layoutId`, if any.
+ * @property layoutName - Exported `layoutName`, if any.
+ * @property layoutDescription - Exported `layoutDescription`, if any.
+ * @property json_schema - JSON schema of the exported `Schema`, without
+ *   default values.
+ * @property sampleData - Result of parsing `{}` with the schema.
+ */
+export interface LayoutFrameDescription {
+  layoutId?: string;
+  layoutName?: string;
+  layoutDescription?: string;
+  json_schema: Record<string, unknown>;
+  sampleData: Record<string, unknown>;
+}
+
+/**
+ * Why a layout could not be inspected.
+ *
+ * - compile: the code breaks sandbox rules or fails to compile or evaluate
+ * - export: no default export component
+ * - schema: no `Schema` export, or its JSON schema cannot be built
+ */
+export interface LayoutFrameError {
+  kind: "compile" | "export" | "schema";
+  message: string;
+}
+
+/**
+ * Result of inspecting a layout: its description or the error.
+ */
+export type LayoutFrameInspection =
+  | { layout: LayoutFrameDescription; error?: undefined }
+  | { layout?: undefined; error: LayoutFrameError };
+
+/**
+ * Messages the editor posts to a layout frame.
+ */
+export type LayoutFrameRequest =
+  | { type: "inspect"; id: number; code: string }
+  | { type: "render"; code: string; data: unknown; fonts?: string[] };
+
+/**
+ * Messages a layout frame posts to the editor.
+ */
+export type LayoutFrameResponse =
+  | { type: "ready" }
+  | ({ type: "inspected"; id: number } & LayoutFrameInspection)
+  | { type: "render_error"; message: string };
+
+/**
+ * Checks whether a message data value is a layout frame message of a type.
+ *
+ * @param value - `event.data` of a message event.
+ * @param type - Expected message type.
+ * @returns True if the value is an object with that `type`.
+ */
+export const isLayoutFrameMessage = <
+  T extends LayoutFrameRequest | LayoutFrameResponse,
+>(
+  value: unknown,
+  type: T["type"],
+): value is T =>
+  typeof value === "object" &&
+  value !== null &&
+  (value as { type?: unknown }).type === type;
+
+/**
+ * Hidden frame shared by all inspections, created on first use.
+ */
+let inspector: {
+  frame: HTMLIFrameElement;
+  ready: Promise<void>;
+  pending: Map<number, (result: LayoutFrameInspection) => void>;
+} | null = null;
+
+let nextInspectionId = 1;
+
+/**
+ * Creates the hidden inspection frame and starts listening to it.
+ */
+const createInspector = () => {
+  const frame = document.createElement("iframe");
+  frame.setAttribute("sandbox", LAYOUT_FRAME_SANDBOX);
+  frame.setAttribute("aria-hidden", "true");
+  frame.tabIndex = -1;
+  frame.style.cssText =
+    "position:fixed;width:1280px;height:720px;left:-10000px;top:0;border:0;visibility:hidden;";
+  frame.src = LAYOUT_FRAME_PATH;
+
+  const pending = new Map<number, (result: LayoutFrameInspection) => void>();
+  let markReady: () => void = () => {};
+  const ready = new Promise<void>((resolve) => {
+    markReady = resolve;
+  });
+
+  window.addEventListener("message", (event) => {
+    if (event.source !== frame.contentWindow) return;
+    if (isLayoutFrameMessage<LayoutFrameResponse>(event.data, "ready")) {
+      markReady();
+    } else if (
+      isLayoutFrameMessage<Extract<LayoutFrameResponse, { type: "inspected" }>>(
+        event.data,
+        "inspected",
+      )
+    ) {
+      const { id, ...result } = event.data;
+      pending.get(id)?.(result as LayoutFrameInspection);
+      pending.delete(id);
+    }
+  });
+
+  document.body.appendChild(frame);
+  return { frame, ready, pending };
+};
+
+/**
+ * Compiles custom layout code in the layout frame and reads its metadata,
+ * JSON schema and sample data.
+ *
+ * @param code - Raw TSX code of the layout.
+ * @returns The layout's description, or why it could not be compiled.
+ *
+ * @example
+ * ```typescript
+ * const { layout, error } = await inspectLayoutCode(layoutCode);
+ * ```
+ */
+export const inspectLayoutCode = async (
+  code: string,
+): Promise<LayoutFrameInspection> => {
+  if (!inspector) inspector = createInspector();
+  const { frame, ready, pending } = inspector;
+  const id = nextInspectionId++;
+
+  return new Promise<LayoutFrameInspection>((resolve) => {
+    const timeout = setTimeout(() => {
+      pending.delete(id);
+      resolve({
+        error: { kind: "compile", message: "Layout frame did not respond" },
+      });
+    }, INSPECT_TIMEOUT_MS);
+    pending.set(id, (result) => {
+      clearTimeout(timeout);
+      resolve(result);
+    });
+
+    void ready.then(() => {
+      const request: LayoutFrameRequest = { type: "inspect", id, code };
+      // The frame's origin is opaque, so it cannot be named as target
+      frame.contentWindow?.postMessage(request, "*");
+    });
+  });
+};
@@ -0,0 +1,816 @@
+/**
+ * Sandboxed compilation for custom template layouts.
+ *
+ * Custom layouts are TSX written by users or generated by the LLM and stored
+ * as `PresentationLayoutCode`. They only ever run inside the layout frame,
+ * a sandboxed iframe with an opaque origin (see utils/layout-frame), which
+ * is what keeps them away from the editor's cookies, storage and APIs. This
+ * module narrows what layouts may do inside that frame:
+ * - validateLayoutCode statically rejects forbidden identifiers, modules,
+ *   properties and elements. It runs on the server before a layout is saved
+ *   and in the frame before a layout is compiled.
+ * - compileSandboxedLayout compiles the code with Babel and evaluates it in a
+ *   restricted module scope. Only allowlisted globals (React, arktype,
+ *   Recharts and safe built-ins) resolve; browser globals are shadowed,
+ *   dynamic property reads are checked at runtime, and React element
+ *   creation refuses script-capable elements.
+ */
+
+import * as Babel from "@babel/standalone";
+import type { NodePath, PluginObj, types as BabelTypes } from "@babel/core";
+
+/**
+ * Modules custom layouts may import. Imports are resolved to the objects
+ * passed to compileSandboxedLayout, never to real module loading.
+ */
+const ALLOWED_LAYOUT_MODULES = new Set(["react", "arktype", "recharts"]);
+
+/**
+ * Recharts components exposed as globals, for layouts written without
+ * import statements.
+ */
+const RECHARTS_GLOBALS = [
+  "ResponsiveContainer",
+  "LineChart",
+  "Line",
+  "BarChart",
+  "Bar",
+  "XAxis",
+  "YAxis",
+  "CartesianGrid",
+  "Tooltip",
+  "Legend",
+  "PieChart",
+  "Pie",
+  "Cell",
+  "AreaChart",
+  "Area",
+  "RadarChart",
+  "Radar",
+  "PolarGrid",
+  "PolarAngleAxis",
+  "PolarRadiusAxis",
+  "ComposedChart",
+  "ScatterChart",
+  "Scatter",
+  "FunnelChart",
+  "Funnel",
+  "Treemap",
+  "Sankey",
+  "RadialBarChart",
+  "RadialBar",
+  "ReferenceLine",
+  "ReferenceDot",
+  "ReferenceArea",
+  "Brush",
+  "ErrorBar",
+  "LabelList",
+  "Label",
+];
+
+/**
+ * React hooks exposed as globals, for layouts written without imports.
+ */
+const REACT_HOOK_GLOBALS = [
+  "useRef",
+  "useEffect",
+  "useState",
+  "useMemo",
+  "useCallback",
+  "useLayoutEffect",
+];
+
+/**
+ * Timer functions available to layouts. They are replaced with wrappers
+ * that only accept callbacks, since string arguments are evaluated as code.
+ */
+const TIMER_GLOBALS = [
+  "setTimeout",
+  "clearTimeout",
+  "setInterval",
+  "clearInterval",
+  "requestAnimationFrame",
+  "cancelAnimationFrame",
+];
+
+/**
+ * Every global a layout may reference without declaring it.
+ */
+const ALLOWED_LAYOUT_GLOBALS = new Set([
+  "React",
+  "t",
+  "Recharts",
+  ...RECHARTS_GLOBALS,
+  ...REACT_HOOK_GLOBALS,
+  ...TIMER_GLOBALS,
+  "Math",
+  "Number",
+  "String",
+  "Boolean",
+  "Array",
+  "Object",
+  "JSON",
+  "Date",
+  "Intl",
+  "Map",
+  "Set",
+  "WeakMap",
+  "WeakSet",
+  "Symbol",
+  "Promise",
+  "Error",
+  "TypeError",
+  "RangeError",
+  "RegExp",
+  "parseInt",
+  "parseFloat",
+  "isNaN",
+  "isFinite",
+  "encodeURIComponent",
+  "decodeURIComponent",
+  "Infinity",
+  "NaN",
+  "undefined",
+  "console",
+]);
+
+/**
+ * Browser and runtime globals shadowed with `undefined` inside the sandbox,
+ * in case validation is bypassed (e.g. code saved before it existed).
+ */
+const SHADOWED_GLOBALS = [
+  "window",
+  "self",
+  "globalThis",
+  "global",
+  "top",
+  "parent",
+  "frames",
+  "opener",
+  "document",
+  "navigator",
+  "location",
+  "history",
+  "localStorage",
+  "sessionStorage",
+  "indexedDB",
+  "caches",
+  "cookieStore",
+  "fetch",
+  "XMLHttpRequest",
+  "WebSocket",
+  "EventSource",
+  "Worker",
+  "SharedWorker",
+  "BroadcastChannel",
+  "importScripts",
+  "postMessage",
+  "open",
+  "eval",
+  "Function",
+  "Reflect",
+  "Proxy",
+  "WebAssembly",
+  "process",
+  "require",
+  "module",
+  "exports",
+];
+
+/**
+ * Property names layouts may not read or destructure. They lead back to the
+ * Function constructor, the window/document, or raw HTML injection.
+ * Names starting with "__" are also rejected.
+ */
+const FORBIDDEN_LAYOUT_PROPERTIES = new Set([
+  "constructor",
+  "prototype",
+  "caller",
+  "callee",
+  "getPrototypeOf",
+  "setPrototypeOf",
+  "getOwnPropertyDescriptor",
+  "getOwnPropertyDescriptors",
+  "prepareStackTrace",
+  "ownerDocument",
+  "defaultView",
+  "parentNode",
+  "parentElement",
+  "offsetParent",
+  "closest",
+  "getRootNode",
+  "composedPath",
+  "contentWindow",
+  "contentDocument",
+  "view",
+  "location",
+  "cookie",
+  "innerHTML",
+  "outerHTML",
+  "insertAdjacentHTML",
+  "setHTMLUnsafe",
+  "createContextualFragment",
+  "setAttribute",
+  "setAttributeNS",
+  "setAttributeNode",
+  "srcdoc",
+]);
+
+/**
+ * Intrinsic elements layouts may not render: they can run script, load
+ * other documents, restyle the page, or change how it resolves URLs.
+ */
+const FORBIDDEN_LAYOUT_ELEMENTS = new Set([
+  "script",
+  "style",
+  "iframe",
+  "frame",
+  "frameset",
+  "object",
+  "embed",
+  "link",
+  "base",
+  "meta",
+  "form",
+]);
+
+/**
+ * Element attributes layouts may not set.
+ */
+const FORBIDDEN_LAYOUT_ATTRIBUTES = new Set([
+  "dangerouslySetInnerHTML",
+  "srcDoc",
+  "formAction",
+]);
+
+/**
+ * Prefix reserved for identifiers injected by the sandbox.
+ */
+const SANDBOX_PREFIX = "__sandbox";
+
+/**
+ * Module objects a compiled layout can import.
+ *
+ * @property react - React namespace used by the editor.
+ * @property arktype - arktype module (provides `type`, exposed as `t`).
+ * @property recharts - Recharts module.
+ */
+export interface LayoutSandboxModules {
+  react: typeof import("react");
+  arktype: Record<string, unknown>;
+  recharts: Record<string, unknown>;
+}
+
+/**
+ * Exports read from a compiled layout module.
+ */
+export interface SandboxedLayoutModule {
+  __esModule: true;
+  default: unknown;
+  layoutName: unknown;
+  layoutId: unknown;
+  layoutDescription: unknown;
+  Schema: unknown;
+}
+
+/**
+ * Returns true if a property name may not be accessed by layout code.
+ */
+const isForbiddenProperty = (name: string) =>
+  name.startsWith("__") || FORBIDDEN_LAYOUT_PROPERTIES.has(name);
+
+/**
+ * Returns true for string values that would navigate to script URLs.
+ */
+const isScriptUrl = (value: string) =>
+  /^\s*(javascript|vbscript):/i.test(value);
+
+/**
+ * Returns the static name of a member expression's property, or null when
+ * the property is computed from a non-literal expression.
+ */
+const getStaticPropertyName = (
+  node: BabelTypes.MemberExpression | BabelTypes.OptionalMemberExpression,
+): string | null => {
+  if (!node.computed && node.property.type === "Identifier") {
+    return node.property.name;
+  }
+  if (node.property.type === "StringLiteral") return node.property.value;
+  if (node.property.type === "NumericLiteral") {
+    return String(node.property.value);
+  }
+  if (
+    node.property.type === "TemplateLiteral" &&
+    node.property.expressions.length === 0
+  ) {
+    return node.property.quasis[0]?.value.cooked ?? "";
+  }
+  return null;
+};
+
+/**
+ * Removes markdown code fences and stray language tags that LLM-generated
+ * layouts sometimes include around the code.
+ */
+const normalizeLayoutCode = (layoutCode: string) =>
+  layoutCode
+    .replace(/^\s*```[a-z]*\s*$/gim, "")
+    .replace(/^\s*(typescript|tsx)\s*$/gim, "");
+
+/**
+ * Builds the Babel plugin that records sandbox violations.
+ *
+ * @param violations - Array that violation messages are pushed into.
+ */
+const createValidationPlugin =
+  (violations: string[]) => (): PluginObj => ({
+    visitor: {
+      ImportDeclaration(path) {
+        const source = path.node.source.value;
+        if (!ALLOWED_LAYOUT_MODULES.has(source)) {
+          violations.push(`Import from "${source}" is not allowed`);
+        }
+      },
+      ExportAllDeclaration(path) {
+        violations.push(
+          `Re-export from "${path.node.source.value}" is not allowed`,
+        );
+      },
+      ExportNamedDeclaration(path) {
+        if (path.node.source) {
+          violations.push(
+            `Re-export from "${path.node.source.value}" is not allowed`,
+          );
+        }
+      },
+      Import() {
+        violations.push("Dynamic import() is not allowed");
+      },
+      MetaProperty() {
+        violations.push("import.meta and new.target are not allowed");
+      },
+      Identifier(path) {
+        const { name } = path.node;
+        if (name.startsWith(SANDBOX_PREFIX)) {
+          violations.push(`Identifier "${name}" is reserved`);
+          return;
+        }
+        if (
+          path.isReferencedIdentifier() &&
+          !ALLOWED_LAYOUT_GLOBALS.has(name) &&
+          !path.scope.hasBinding(name, true)
+        ) {
+          violations.push(`Global "${name}" is not allowed`);
+        }
+      },
+      JSXOpeningElement(path) {
+        const { name } = path.node;
+        if (name.type === "JSXIdentifier") {
+          if (
+            /^[a-z]/.test(name.name) &&
+            FORBIDDEN_LAYOUT_ELEMENTS.has(name.name.toLowerCase())
+          ) {
+            violations.push(`<${name.name}> elements are not allowed`);
+          } else if (
+            /^[A-Z]/.test(name.name) &&
+            !ALLOWED_LAYOUT_GLOBALS.has(name.name) &&
+            !path.scope.hasBinding(name.name, true)
+          ) {
+            violations.push(`Component "${name.name}" is not defined`);
+          }
+        }
+      },
+      JSXAttribute(path) {
+        const { name } = path.node;
+        const attribute =
+          name.type === "JSXIdentifier" ? name.name : name.name.name;
+        if (FORBIDDEN_LAYOUT_ATTRIBUTES.has(attribute)) {
+          violations.push(`Attribute "${attribute}" is not allowed`);
+        }
+      },
+      "MemberExpression|OptionalMemberExpression"(path) {
+        const node = path.node as
+          | BabelTypes.MemberExpression
+          | BabelTypes.OptionalMemberExpression;
+        const name = getStaticPropertyName(node);
+        if (name !== null) {
+          if (isForbiddenProperty(name)) {
+            violations.push(`Property "${name}" is not allowed`);
+          }
+        } else if (node.optional) {
+          violations.push(
+            "Optional access with a computed key (a?.[b]) is not allowed",
+          );
+        }
+      },
+      ObjectPattern(path) {
+        for (const property of path.node.properties) {
+          if (property.type !== "ObjectProperty") continue;
+          if (property.computed && property.key.type !== "StringLiteral") {
+            violations.push("Destructuring with a computed key is not allowed");
+            continue;
+          }
+          const name =
+            property.key.type === "Identifier"
+              ? property.key.name
+              : property.key.type === "StringLiteral"
+                ? property.key.value
+                : null;
+          if (name && isForbiddenProperty(name)) {
+            violations.push(`Property "${name}" is not allowed`);
+          }
+        }
+      },
+      StringLiteral(path) {
+        if (isScriptUrl(path.node.value)) {
+          violations.push("javascript: URLs are not allowed");
+        }
+      },
+      TemplateElement(path) {
+        if (isScriptUrl(path.node.value.cooked ?? path.node.value.raw)) {
+          violations.push("javascript: URLs are not allowed");
+        }
+      },
+    },
+  });
+
+/**
+ * Checks custom layout code against the sandbox rules without running it.
+ *
+ * Rejects:
+ * - Imports other than react, arktype and recharts, re-exports and dynamic import()
+ * - References to globals outside the allowlist (window, document, fetch, eval, ...)
+ * - Access to properties that reach the Function constructor or the DOM tree
+ *   (constructor, __proto__, ownerDocument, parentNode, ...)
+ * - Script-capable elements and raw HTML attributes
+ * - javascript: URLs and identifiers reserved by the sandbox
+ *
+ * @param layoutCode - Raw TypeScript/JSX code for the layout component.
+ * @returns Unique violation messages. Empty when the code is allowed.
+ *
+ * @example
+ * ```typescript
+ * validateLayoutCode("const L = () => <div>{document.cookie}</div>;");
+ * // Returns: ['Global "document" is not allowed', 'Property "cookie" is not allowed']
+ * ```
+ */
+export const validateLayoutCode = (layoutCode: string): string[] => {
+  const violations: string[] = [];
+  try {
+    // Strip types first so type-only names are not treated as globals
+    const withoutTypes =
+      Babel.transform(normalizeLayoutCode(layoutCode), {
+        presets: [
+          [
+            "typescript",
+            { isTSX: true, allExtensions: true, onlyRemoveTypeImports: true },
+          ],
+        ],
+        sourceType: "module",
+      }).code ?? "";
+    Babel.transform(withoutTypes, {
+      plugins: ["syntax-jsx", createValidationPlugin(violations)],
+      sourceType: "module",
+      code: false,
+    });
+  } catch (error) {
+    violations.push(
+      `Layout code could not be parsed: ${
+        error instanceof Error ? error.message : String(error)
+      }`,
+    );
+  }
+  return Array.from(new Set(violations));
+};
+
+/**
+ * Builds the Babel plugin that turns a layout module into sandbox-ready script.
+ *
+ * - Imports become reads from the sandbox module table
+ * - Exports become plain declarations; the default export is stored in
+ *   `__sandboxDefault`
+ * - Property reads with non-literal computed keys (`obj[key]`) go through
+ *   `__sandboxGet`, which re-checks the key at runtime
+ */
+const createSandboxPlugin =
+  () =>
+  ({ types: t }: { types: typeof BabelTypes }): PluginObj => ({
+    visitor: {
+      ImportDeclaration(path) {
+        if (path.node.importKind === "type") {
+          path.remove();
+          return;
+        }
+        const source = t.callExpression(t.identifier("__sandboxImport"), [
+          t.stringLiteral(path.node.source.value),
+        ]);
+        const declarations = path.node.specifiers.flatMap((specifier) => {
+          if (specifier.type === "ImportSpecifier") {
+            if (specifier.importKind === "type") return [];
+            const imported =
+              specifier.imported.type === "Identifier"
+                ? specifier.imported.name
+                : specifier.imported.value;
+            return [
+              t.variableDeclarator(
+                t.identifier(specifier.local.name),
+                t.memberExpression(source, t.identifier(imported)),
+              ),
+            ];
+          }
+          // Default and namespace imports both resolve to the module object
+          return [
+            t.variableDeclarator(t.identifier(specifier.local.name), source),
+          ];
+        });
+        if (declarations.length) {
+          path.replaceWith(t.variableDeclaration("const", declarations));
+        } else {
+          path.remove();
+        }
+      },
+      ExportNamedDeclaration(path) {
+        if (path.node.declaration) {
+          path.replaceWith(path.node.declaration);
+          return;
+        }
+        const defaultSpecifier = path.node.specifiers.find(
+          (specifier): specifier is BabelTypes.ExportSpecifier =>
+            specifier.type === "ExportSpecifier" &&
+            (specifier.exported.type === "Identifier"
+              ? specifier.exported.name
+              : specifier.exported.value) === "default",
+        );
+        if (defaultSpecifier) {
+          path.replaceWith(
+            t.variableDeclaration("const", [
+              t.variableDeclarator(
+                t.identifier("__sandboxDefault"),
+                t.identifier(defaultSpecifier.local.name),
+              ),
+            ]),
+          );
+        } else {
+          path.remove();
+        }
+      },
+      ExportDefaultDeclaration(path) {
+        const { declaration } = path.node;
+        const assignDefault = (value: BabelTypes.Expression) =>
+          t.variableDeclaration("const", [
+            t.variableDeclarator(t.identifier("__sandboxDefault"), value),
+          ]);
+        if (
+          (declaration.type === "FunctionDeclaration" ||
+            declaration.type === "ClassDeclaration") &&
+          declaration.id
+        ) {
+          path.replaceWithMultiple([
+            declaration,
+            assignDefault(t.identifier(declaration.id.name)),
+          ]);
+        } else if (declaration.type === "FunctionDeclaration") {
+          path.replaceWith(
+            assignDefault(
+              t.functionExpression(
+                null,
+                declaration.params,
+                declaration.body,
+                declaration.generator,
+                declaration.async,
+              ),
+            ),
+          );
+        } else if (declaration.type === "ClassDeclaration") {
+          path.replaceWith(
+            assignDefault(
+              t.classExpression(
+                null,
+                declaration.superClass,
+                declaration.body,
+                declaration.decorators,
+              ),
+            ),
+          );
+        } else if (t.isExpression(declaration)) {
+          path.replaceWith(assignDefault(declaration));
+        }
+      },
+      MemberExpression(path: NodePath<BabelTypes.MemberExpression>) {
+        const { node, parent } = path;
+        if (!node.computed || getStaticPropertyName(node) !== null) return;
+        // Writes and deletes cannot leak values and keep their semantics
+        if (
+          (parent.type === "AssignmentExpression" && parent.left === node) ||
+          parent.type === "UpdateExpression" ||
+          (parent.type === "UnaryExpression" && parent.operator === "delete")
+        ) {
+          return;
+        }
+        const isCallee =
+          parent.type === "CallExpression" && parent.callee === node;
+        path.replaceWith(
+          t.callExpression(t.identifier("__sandboxGet"), [
+            node.object as BabelTypes.Expression,
+            node.property as BabelTypes.Expression,
+            t.booleanLiteral(isCallee),
+          ]),
+        );
+      },
+    },
+  });
+
+/**
+ * Reads a property whose name is only known at runtime.
+ *
+ * The key is converted once so objects with changing `toString` results
+ * cannot pass the check with one name and read another.
+ *
+ * @param target - Object being read.
+ * @param key - Property key.
+ * @param bindToTarget - Whether the read is a method call callee, in which
+ *   case functions are bound to keep `this`.
+ */
+const sandboxGet = (target: unknown, key: unknown, bindToTarget: boolean) => {
+  const property = typeof key === "symbol" ? key : String(key);
+  if (typeof property === "string" && isForbiddenProperty(property)) {
+    throw new Error(`Access to "${property}" is not allowed in custom layouts`);
+  }
+  const value = (target as Record<PropertyKey, unknown>)[property];
+  return bindToTarget && typeof value === "function"
+    ? value.bind(target)
+    : value;
+};
+
+/**
+ * Wraps a timer so it only accepts callbacks (strings would be evaluated).
+ */
+const createSafeTimer =
+  <T extends (...args: never[]) => unknown>(timer: T) =>
+  (...args: Parameters<T>) => {
+    if (typeof args[0] !== "function") {
+      throw new Error("Timers in custom layouts require a function callback");
+    }
+    return timer(...args);
+  };
+
+/**
+ * Removes props that inject raw HTML from an element's props.
+ */
+const stripForbiddenProps = (props: unknown) => {
+  if (!props || typeof props !== "object") return props;
+  const safeProps = { ...(props as Record<string, unknown>) };
+  for (const attribute of FORBIDDEN_LAYOUT_ATTRIBUTES) {
+    delete safeProps[attribute];
+  }
+  return safeProps;
+};
+
+/**
+ * Returns a copy of React whose element factories refuse script-capable
+ * elements and raw HTML props.
+ */
+const createSandboxReact = (react: LayoutSandboxModules["react"]) => {
+  const createElement = (type: unknown, props: unknown, ...children: unknown[]) => {
+    if (
+      typeof type === "string" &&
+      FORBIDDEN_LAYOUT_ELEMENTS.has(type.toLowerCase())
+    ) {
+      throw new Error(`<${type}> elements are not allowed in custom layouts`);
+    }
+    return (react.createElement as (...args: unknown[]) => unknown)(
+      type,
+      stripForbiddenProps(props),
+      ...children,
+    );
+  };
+  const cloneElement = (element: unknown, props: unknown, ...children: unknown[]) =>
+    (react.cloneElement as (...args: unknown[]) => unknown)(
+      element,
+      stripForbiddenProps(props),
+      ...children,
+    );
+  return Object.freeze({ ...react, createElement, cloneElement });
+};
+
+/**
+ * Compiles custom layout code and evaluates it in a restricted module scope.
+ *
+ * The code is validated first (see validateLayoutCode); violations throw.
+ * It then runs with only the allowlisted globals in scope: React (with
+ * guarded element factories), arktype's `type` as `t`, Recharts components,
+ * common hooks, callback-only timers and safe built-ins. Browser globals
+ * such as `window`, `document` and `fetch` are shadowed with `undefined`,
+ * and the module body runs in strict mode.
+ *
+ * @param layoutCode - Raw TypeScript/JSX code for the layout component.
+ * @param modules - Module objects the layout may import.
+ * @returns The layout's exports: default component, layoutName, layoutId,
+ *   layoutDescription and Schema.
+ * @throws Error listing the violations if the code breaks sandbox rules, or
+ *   the Babel/runtime error if compilation or evaluation fails.
+ *
+ * @example
+ * ```typescript
+ * const module = compileSandboxedLayout(code, { react: React, arktype, recharts: Recharts });
+ * const Component = module.default;
+ * ```
+ */
+export const compileSandboxedLayout = (
+  layoutCode: string,
+  modules: LayoutSandboxModules,
+): SandboxedLayoutModule => {
+  const violations = validateLayoutCode(layoutCode);
+  if (violations.length) {
+    throw new Error(
+      `Layout code is not allowed:\n- ${violations.join("\n- ")}`,
+    );
+  }
+
+  const compiled = Babel.transform(normalizeLayoutCode(layoutCode), {
+    plugins: [createSandboxPlugin()],
+    presets: [
+      ["react", { runtime: "classic" }],
+      ["typescript", { isTSX: true, allExtensions: true }],
+    ],
+    sourceType: "module",
+  }).code;
+
+  const sandboxReact = createSandboxReact(modules.react);
+  const sandboxModules: Record<string, unknown> = {
+    react: sandboxReact,
+    // Layouts commonly import arktype's `type` under its in-scope alias `t`
+    arktype: { ...modules.arktype, t: modules.arktype.type },
+    recharts: modules.recharts,
+  };
+  const sandboxImport = (source: string) => {
+    if (!(source in sandboxModules)) {
+      throw new Error(`Import from "${source}" is not allowed`);
+    }
+    return sandboxModules[source];
+  };
+  const timers = {
+    setTimeout: createSafeTimer(setTimeout),
+    clearTimeout,
+    setInterval: createSafeTimer(setInterval),
+    clearInterval,
+    requestAnimationFrame:
+      typeof requestAnimationFrame === "function"
+        ? createSafeTimer(requestAnimationFrame)
+        : undefined,
+    cancelAnimationFrame:
+      typeof cancelAnimationFrame === "function"
+        ? cancelAnimationFrame
+        : undefined,
+  };
+
+  // The outer function shadows browser globals and defines the allowlisted
+  // ones; the inner strict function holds the module so its own declarations
+  // (including imports of the same names) can shadow the preamble.
+  const factory = new Function(
+    ...SHADOWED_GLOBALS,
+    "__sandboxImport",
+    "__sandboxGet",
+    "__sandboxTimers",
+    "React",
+    "Recharts",
+    "_t",
+    `
+    const t = _t;
+    const { ${REACT_HOOK_GLOBALS.join(", ")} } = React;
+    const { ${TIMER_GLOBALS.join(", ")} } = __sandboxTimers;
+    const { ${RECHARTS_GLOBALS.join(", ")} } = Recharts || {};
+
+    return (function () {
+      "use strict";
+      ${compiled}
+
+      return {
+        __esModule: true,
+        default: typeof __sandboxDefault !== "undefined"
+          ? __sandboxDefault
+          : typeof dynamicSlideLayout !== "undefined"
+            ? dynamicSlideLayout
+            : typeof DefaultLayout !== "undefined"
+              ? DefaultLayout
+              : undefined,
+        layoutName: typeof layoutName !== "undefined" ? layoutName : undefined,
+        layoutId: typeof layoutId !== "undefined" ? layoutId : undefined,
+        layoutDescription:
+          typeof layoutDescription !== "undefined" ? layoutDescription : undefined,
+        Schema: typeof Schema !== "undefined" ? Schema : undefined,
+      };
+    })();
+    `,
+  );
+
+  return factory(
+    ...SHADOWED_GLOBALS.map(() => undefined),
+    sandboxImport,
+    sandboxGet,
+    timers,
+    sandboxReact,
+    modules.recharts,
+    modules.arktype.type,
+  ) as SandboxedLayoutModule;
+};
@@ -222,6 +222,11 @@ function convertElementToPptxShape(
     return convertToTable(element);
   }
 
+  // Handle native connector lines (instead of screenshotting SVG)
+  if (element.connector) {
+    return convertToConnector(element);
+  }
+
   if (
     element.tagName === "img" ||
     (element.className &&
@@ -388,9 +393,12 @@ function convertToAutoShapeBox(
       ]
     : undefined;
 
-  const shapeType = element.borderRadius
-    ? PptxShapeType.ROUNDED_RECTANGLE
-    : PptxShapeType.RECTANGLE;
+  const shapeType =
+    element.shape === "circle"
+      ? PptxShapeType.OVAL
+      : element.borderRadius
+        ? PptxShapeType.ROUNDED_RECTANGLE
+        : PptxShapeType.RECTANGLE;
 
   let borderRadius = undefined;
   for (const eachCornerRadius of element.borderRadius ?? []) {
@@ -464,12 +472,15 @@ function convertToPictureBox(element: ElementAttributes): PptxPictureBoxModel {
 /**
  * Converts element attributes to a PPTX connector model.
  *
- * Creates a connector (line) shape, typically used for horizontal rules
- * (hr elements). Uses border or background color for the line color and
- * border width for thickness.
+ * Creates a connector (line) shape for horizontal rules (hr elements) and
+ * for connector SVGs drawn by templates (diagram edges and arrows). Rules
+ * use border or background color for the line color and border width for
+ * thickness. Connector SVGs give the line's ends as fractions of their box;
+ * the line spans the box between them, flipped when it runs right-to-left
+ * or bottom-to-top.
  *
  * @param element - Element attributes containing position and border/background
- *   color information.
+ *   color information, or connector data.
  * @returns PPTX connector model with line properties.
  */
 function convertToConnector(element: ElementAttributes): PptxConnectorModel {
@@ -480,6 +491,35 @@ function convertToConnector(element: ElementAttributes): PptxConnectorModel {
     height: Math.round(element.position?.height ?? 0),
   };
 
+  const connector = element.connector;
+  if (connector) {
+    const left = position.left;
+    const top = position.top;
+    const width = element.position?.width ?? 0;
+    const height = element.position?.height ?? 0;
+    const x1 = left + connector.x1 * width;
+    const y1 = top + connector.y1 * height;
+    const x2 = left + connector.x2 * width;
+    const y2 = top + connector.y2 * height;
+
+    return {
+      shape_type: "connector",
+      type: PptxConnectorType.STRAIGHT,
+      position: {
+        left: Math.round(Math.min(x1, x2)),
+        top: Math.round(Math.min(y1, y2)),
+        width: Math.round(Math.abs(x2 - x1)),
+        height: Math.round(Math.abs(y2 - y1)),
+      },
+      thickness: connector.thickness ?? 1.5,
+      color: connector.color || "000000",
+      opacity: element.opacity ?? 1.0,
+      flip_h: x2 < x1 || undefined,
+      flip_v: y2 < y1 || undefined,
+      end_arrow: connector.arrow || undefined,
+    };
+  }
+
   return {
     shape_type: "connector",
     type: PptxConnectorType.STRAIGHT,
@@ -496,7 +536,8 @@ function convertToConnector(element: ElementAttributes): PptxConnectorModel {
  * Creates a native PPTX chart (bar, line, area, pie, doughnut, scatter)
  * from chart data attributes. Validates chart data structure, extracts labels
  * and values, maps chart types, and configures chart options including colors,
- * grid lines, and bar direction. Supports single-series charts with custom colors.
+ * grid lines, and bar direction. Supports single-series charts with custom
+ * colors and multi-series charts (one series per entry of valueKeys).
  *
  * @param element - Element attributes containing chartData and position.
  * @returns PPTX chart model with series data and options, or null if
@@ -527,7 +568,11 @@ function convertToChart(element: ElementAttributes): PptxChartModel | null {
     return null;
   }
 
-  if (!chartData.labelKey || !chartData.valueKey) {
+  const valueKeys = chartData.valueKeys?.length
+    ? chartData.valueKeys
+    : [chartData.valueKey];
+
+  if (!chartData.labelKey || !valueKeys[0]) {
     console.warn(
       "[convertToChart] Invalid chart data: labelKey or valueKey is missing",
     );
@@ -538,11 +583,11 @@ function convertToChart(element: ElementAttributes): PptxChartModel | null {
   console.log("[convertToChart] Processing chart:", {
     type: chartData.type,
     labelKey: chartData.labelKey,
-    valueKey: chartData.valueKey,
+    valueKeys,
     dataLength: chartData.data.length,
     firstItem: chartData.data[0],
     firstLabel: chartData.data[0]?.[chartData.labelKey],
-    firstValue: chartData.data[0]?.[chartData.valueKey],
+    firstValue: chartData.data[0]?.[valueKeys[0]],
   });
 
   // Map chart type string to enum
@@ -557,41 +602,29 @@ function convertToChart(element: ElementAttributes): PptxChartModel | null {
 
   const chartType = chartTypeMap[chartData.type] ?? PptxChartType.BAR;
 
-  // Extract labels and values from data with explicit validation
-  const labels: string[] = [];
-  const values: number[] = [];
-
-  for (let i = 0; i < chartData.data.length; i++) {
-    const item = chartData.data[i];
-    // Access the property by key and ensure it's a string
+  // Extract labels from data with explicit validation
+  const labels = chartData.data.map((item, i) => {
     const labelValue = item[chartData.labelKey];
-    const valueValue = item[chartData.valueKey];
-
     // Use fallback labels if the key doesn't exist
-    const label =
-      labelValue !== undefined && labelValue !== null
-        ? String(labelValue)
-        : `Category ${i + 1}`;
-    const value =
-      typeof valueValue === "number"
-        ? valueValue
-        : parseFloat(String(valueValue)) || 0;
-
-    labels.push(label);
-    values.push(value);
-  }
+    return labelValue !== undefined && labelValue !== null
+      ? String(labelValue)
+      : `Category ${i + 1}`;
+  });
 
   // For bar charts with multiple colors or pie/doughnut charts,
   // each data point should use the chartColors array for individual bar colors
   // pptxgenjs applies chartColors to each category in single-series charts
-  const series: PptxChartSeries[] = [
-    {
-      name: chartData.title || "Data",
-      labels,
-      values,
-      color: chartData.color,
-    },
-  ];
+  const series: PptxChartSeries[] = valueKeys.map((valueKey) => ({
+    name: valueKeys.length > 1 ? valueKey : chartData.title || "Data",
+    labels,
+    values: chartData.data.map((item) => {
+      const value = item[valueKey];
+      return typeof value === "number"
+        ? value
+        : parseFloat(String(value)) || 0;
+    }),
+    color: valueKeys.length > 1 ? undefined : chartData.color,
+  }));
 
   // Debug log final series data
   console.log("[convertToChart] Final series:", {
@@ -607,7 +640,7 @@ function convertToChart(element: ElementAttributes): PptxChartModel | null {
     data: series,
     options: {
       title: chartData.title,
-      showLegend: false,
+      showLegend: series.length > 1,
       chartColors:
         chartData.colors || (chartData.color ? [chartData.color] : undefined),
       lineSmooth: true,
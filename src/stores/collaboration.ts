@@ -0,0 +1,105 @@
+/**
+ * Collaboration state management using Zustand.
+ *
+ * This module provides a Zustand store for the state of the real-time
+ * collaboration session of the open presentation: whether the editor is
+ * connected to the collaboration server and who else is editing. The
+ * session itself (socket, operations) is run by `useCollaboration`.
+ */
+
+import { create } from "zustand";
+import { devtools } from "zustand/middleware";
+import type { CollabPeer } from "@/utils/collab";
+
+/**
+ * Connection status of the collaboration session.
+ *
+ * - off: No collaboration server is configured; edits are saved through the
+ *   REST API
+ * - connecting: Joining the session (first time or after a disconnect)
+ * - connected: Edits are synced live
+ * - offline: The connection dropped; edits are queued until it is back
+ */
+export type CollaborationStatus = "off" | "connecting" | "connected" | "offline";
+
+/**
+ * State interface for the collaboration store.
+ *
+ * @property status - Connection status of the session.
+ * @property sessionId - ID of this tab's connection, or null when not
+ *   connected.
+ * @property peers - Other collaborators connected to the presentation.
+ * @property pendingCount - Local edits the server has not acknowledged yet.
+ * @property lastSyncedAt - When the server last acknowledged local edits.
+ * @property setStatus - Sets the connection status.
+ * @property setSession - Sets this tab's session ID and the initial peers.
+ * @property upsertPeer - Adds a collaborator or updates their presence.
+ * @property removePeer - Removes a collaborator who disconnected.
+ * @property setPending - Sets the number of unacknowledged edits; dropping
+ *   to zero also updates lastSyncedAt.
+ * @property reset - Resets the store to its initial state.
+ */
+interface CollaborationState {
+  status: CollaborationStatus;
+  sessionId: string | null;
+  peers: CollabPeer[];
+  pendingCount: number;
+  lastSyncedAt: Date | null;
+
+  setStatus: (status: CollaborationStatus) => void;
+  setSession: (sessionId: string, peers: CollabPeer[]) => void;
+  upsertPeer: (peer: CollabPeer) => void;
+  removePeer: (sessionId: string) => void;
+  setPending: (count: number) => void;
+  reset: () => void;
+}
+
+const initialState = {
+  status: "off" as CollaborationStatus,
+  sessionId: null,
+  peers: [],
+  pendingCount: 0,
+  lastSyncedAt: null,
+};
+
+export const useCollaborationStore = create<CollaborationState>()(
+  devtools(
+    (set) => ({
+      ...initialState,
+
+      setStatus: (status) =>
+        set((state) => ({
+          status,
+          peers: status === "connected" ? state.peers : [],
+        })),
+
+      setSession: (sessionId, peers) => set({ sessionId, peers }),
+
+      upsertPeer: (peer) =>
+        set((state) => ({
+          peers: state.peers.some((p) => p.session_id === peer.session_id)
+            ? state.peers.map((p) =>
+                p.session_id === peer.session_id ? peer : p,
+              )
+            : [...state.peers, peer],
+        })),
+
+      removePeer: (sessionId) =>
+        set((state) => ({
+          peers: state.peers.filter((p) => p.session_id !== sessionId),
+        })),
+
+      setPending: (count) =>
+        set((state) => ({
+          pendingCount: count,
+          lastSyncedAt:
+            count === 0 && state.pendingCount > 0
+              ? new Date()
+              : state.lastSyncedAt,
+        })),
+
+      reset: () => set(initialState),
+    }),
+    { name: "collaboration" }
+  )
+);
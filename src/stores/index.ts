@@ -32,6 +32,10 @@ export {
   type PresentationData,
   type OutlineSlide,
 } from "./presentation-data";
+export {
+  useCollaborationStore,
+  type CollaborationStatus,
+} from "./collaboration";
 export {
   useUserConfigStore,
   type LLMConfig,
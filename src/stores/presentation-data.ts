@@ -9,7 +9,14 @@
 
 import { create } from "zustand";
 import { devtools } from "zustand/middleware";
-import type { Slide, ImageProperties } from "@/types/slide";
+import type {
+  Slide,
+  ImageProperties,
+  DiagramData,
+  GraphData,
+  InfographicsData,
+} from "@/types/slide";
+import type { BrandKit } from "@/utils/color-schemes";
 
 /**
  * Layout slide definition for presentation templates.
@@ -50,6 +57,13 @@ export interface LayoutSlide {
  * @property title - Presentation title.
  * @property slides - Array of Slide objects containing the actual slide content
  *   and data. Each slide represents one page in the presentation.
+ * @property version - Server version of the presentation's metadata and
+ *   slide list, when loaded from the server.
+ * @property brand_kit - ID of the brand kit the slides are styled with, or
+ *   null.
+ * @property brand - The brand kit itself, when the server sent it along.
+ * @property role - How the signed-in user can access the presentation:
+ *   as its owner, or as an invited editor or viewer. Viewers cannot save.
  */
 export interface PresentationData {
   id: string;
@@ -62,6 +76,10 @@ export interface PresentationData {
   n_slides: number;
   title: string;
   slides: Slide[];
+  version?: number;
+  brand_kit?: string | null;
+  brand?: BrandKit | null;
+  role?: "owner" | "editor" | "viewer";
 }
 
 /**
@@ -77,11 +95,14 @@ export interface PresentationData {
  * @property isStreaming - Optional flag indicating whether this outline is
  *   currently being generated via streaming. Used to show loading states
  *   during outline generation.
+ * @property layoutId - Optional layout chosen by the user for this outline.
+ *   When unset, the layout is planned from the outline content.
  */
 export interface OutlineSlide {
   id: string;
   content: string;
   isStreaming?: boolean;
+  layoutId?: string;
 }
 
 /**
@@ -110,11 +131,14 @@ export interface OutlineSlide {
  * @property addSlide - Inserts an existing slide at a specific index.
  * @property addNewSlide - Creates and inserts a new slide at a specific index.
  * @property updateSlide - Replaces a slide at a specific index with new data.
+ * @property updateSpeakerNote - Replaces the speaker notes of a slide.
  * @property deletePresentationSlide - Removes a slide at a specific index.
  * @property updateSlideContent - Updates a nested content field within a slide
  *   using a dot-notation path (e.g., "content.title", "content.body[0].heading").
  * @property updateSlideImage - Updates an image URL and prompt within slide content.
  * @property updateSlideIcon - Updates an icon URL and query within slide content.
+ * @property updateSlideVisual - Replaces a diagram, infographic or graph within
+ *   slide content.
  * @property updateImageProperties - Updates image positioning and styling properties
  *   for a specific image within a slide.
  * @property reset - Resets the entire store to its initial state.
@@ -144,6 +168,7 @@ interface PresentationDataState {
   addSlide: (slide: Slide, index: number) => void;
   addNewSlide: (slideData: Partial<Slide>, index: number) => void;
   updateSlide: (index: number, slide: Slide) => void;
+  updateSpeakerNote: (slideIndex: number, note: string) => void;
   deletePresentationSlide: (index: number) => void;
   updateSlideContent: (
     slideIndex: number,
@@ -162,6 +187,11 @@ interface PresentationDataState {
     iconUrl: string,
     query?: string
   ) => void;
+  updateSlideVisual: (
+    slideIndex: number,
+    dataPath: string,
+    visual: DiagramData | InfographicsData | GraphData
+  ) => void;
   updateImageProperties: (
     slideIndex: number,
     itemIndex: number,
@@ -412,6 +442,21 @@ export const usePresentationDataStore = create<PresentationDataState>()(
           };
         }),
 
+      updateSpeakerNote: (slideIndex, note) =>
+        set((state) => {
+          if (!state.presentationData?.slides?.[slideIndex]) return state;
+
+          const slides = [...state.presentationData.slides];
+          slides[slideIndex] = { ...slides[slideIndex], speaker_note: note };
+
+          return {
+            presentationData: {
+              ...state.presentationData,
+              slides,
+            },
+          };
+        }),
+
       deletePresentationSlide: (index) =>
         set((state) => {
           if (!state.presentationData?.slides) return state;
@@ -505,6 +550,25 @@ export const usePresentationDataStore = create<PresentationDataState>()(
           };
         }),
 
+      updateSlideVisual: (slideIndex, dataPath, visual) =>
+        set((state) => {
+          if (!state.presentationData?.slides?.[slideIndex]) return state;
+
+          const slides = JSON.parse(JSON.stringify(state.presentationData.slides));
+          const slide = slides[slideIndex];
+
+          if (dataPath && slide.content) {
+            setNestedValue(slide.content, dataPath, visual);
+          }
+
+          return {
+            presentationData: {
+              ...state.presentationData,
+              slides,
+            },
+          };
+        }),
+
       updateImageProperties: (slideIndex, itemIndex, properties) =>
         set((state) => {
           if (!state.presentationData?.slides?.[slideIndex]) return state;
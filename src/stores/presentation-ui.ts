@@ -26,12 +26,16 @@ import { devtools } from "zustand/middleware";
  *   in the UI. Used to show/hide content until rendering is complete.
  * @property isLayoutLoading - Whether layout templates are currently being
  *   loaded or compiled. Used to show loading states during layout initialization.
+ * @property regeneratingSlideIds - IDs of the slides being regenerated from
+ *   their outlines. Their content streams in like during generation, so
+ *   auto-save waits until the list is empty.
  * @property error - Current error message string, or null if no error.
  *   When an error is set, isLoading is automatically set to false.
  * @property setLoading - Sets the general loading state.
  * @property setStreaming - Sets the streaming state.
  * @property setSlidesRendered - Sets whether slides are rendered.
  * @property setLayoutLoading - Sets the layout loading state.
+ * @property setRegeneratingSlides - Sets the slides being regenerated.
  * @property setError - Sets an error message. Automatically clears loading
  *   state when an error is set.
  * @property reset - Resets all UI state to initial values.
@@ -42,6 +46,7 @@ interface PresentationUIState {
   isStreaming: boolean | null;
   isSlidesRendered: boolean;
   isLayoutLoading: boolean;
+  regeneratingSlideIds: string[];
 
   // Error state
   error: string | null;
@@ -51,6 +56,7 @@ interface PresentationUIState {
   setStreaming: (streaming: boolean | null) => void;
   setSlidesRendered: (rendered: boolean) => void;
   setLayoutLoading: (loading: boolean) => void;
+  setRegeneratingSlides: (slideIds: string[]) => void;
   setError: (error: string | null) => void;
   reset: () => void;
 }
@@ -60,6 +66,7 @@ const initialState = {
   isStreaming: null,
   isSlidesRendered: false,
   isLayoutLoading: false,
+  regeneratingSlideIds: [] as string[],
   error: null,
 };
 
@@ -76,6 +83,9 @@ export const usePresentationUIStore = create<PresentationUIState>()(
 
       setLayoutLoading: (loading) => set({ isLayoutLoading: loading }),
 
+      setRegeneratingSlides: (slideIds) =>
+        set({ regeneratingSlideIds: slideIds }),
+
       setError: (error) =>
         set({
           error,